@@ -0,0 +1,129 @@
+/**
+ * DynamicFlyer embed loader
+ * Shows a template's generator inline in an auto-resizing iframe.
+ *
+ *   <div data-dynamicflyer-template="TEMPLATE_ID"></div>
+ *   <script src="https://YOUR-DYNAMICFLYER-SITE/embed.js" async></script>
+ *
+ * Containers fire `dynamicflyer:ready`, `dynamicflyer:fieldchanged` and
+ * `dynamicflyer:generated` DOM events (details in `event.detail`). For commands, embed
+ * from script instead:
+ *
+ *   const flyer = DynamicFlyer.embed(element, { templateId, onGenerated(detail) { ... } });
+ *   flyer.setField('name', 'Ama');
+ *   flyer.download();
+ *
+ * The site's origin must be on the template's allowed list (Embed on Website in the dashboard).
+ */
+(function () {
+  'use strict';
+
+  var SOURCE = 'dynamicflyer';
+  var ATTRIBUTE = 'data-dynamicflyer-template';
+
+  if (window.DynamicFlyer && window.DynamicFlyer.embed) return;
+
+  var script = document.currentScript;
+  var baseUrl = script && script.src ? new URL(script.src).origin : window.location.origin;
+
+  var EVENT_CALLBACKS = {
+    ready: 'onReady',
+    fieldChanged: 'onFieldChanged',
+    generated: 'onGenerated',
+    error: 'onError'
+  };
+
+  function embed(container, options) {
+    options = options || {};
+    var templateId = options.templateId || container.getAttribute(ATTRIBUTE);
+    if (!templateId) throw new Error('DynamicFlyer: a templateId is required');
+
+    var iframe = document.createElement('iframe');
+    iframe.src = baseUrl + '/embed/' + encodeURIComponent(templateId);
+    iframe.title = options.title || 'Flyer generator';
+    iframe.allow = 'clipboard-write';
+    iframe.style.width = '100%';
+    iframe.style.border = '0';
+    iframe.style.display = 'block';
+    iframe.style.height = (options.minHeight || 640) + 'px';
+
+    var ready = false;
+    var queue = [];
+    var listeners = {};
+
+    function send(message) {
+      message.source = SOURCE;
+      if (!ready) {
+        queue.push(message);
+        return;
+      }
+      iframe.contentWindow.postMessage(message, baseUrl);
+    }
+
+    function emit(type, detail) {
+      var callback = options[EVENT_CALLBACKS[type]];
+      if (typeof callback === 'function') callback(detail);
+      (listeners[type] || []).forEach(function (handler) { handler(detail); });
+      container.dispatchEvent(new CustomEvent('dynamicflyer:' + type.toLowerCase(), { detail: detail }));
+    }
+
+    function onMessage(event) {
+      if (event.source !== iframe.contentWindow || event.origin !== baseUrl) return;
+      var data = event.data;
+      if (!data || data.source !== SOURCE) return;
+
+      if (data.type === 'resize') {
+        iframe.style.height = Math.max(data.height, options.minHeight || 0) + 'px';
+        return;
+      }
+      if (data.type === 'ready') {
+        ready = true;
+        queue.splice(0).forEach(send);
+      }
+      if (EVENT_CALLBACKS[data.type]) {
+        var detail = Object.assign({}, data);
+        delete detail.source;
+        delete detail.type;
+        emit(data.type, detail);
+      }
+    }
+
+    window.addEventListener('message', onMessage);
+    container.innerHTML = '';
+    container.appendChild(iframe);
+    container.__dynamicflyer = true;
+
+    return {
+      iframe: iframe,
+      setField: function (key, value) {
+        send({ command: 'setField', key: key, value: value });
+      },
+      download: function () {
+        send({ command: 'download' });
+      },
+      on: function (type, handler) {
+        (listeners[type] = listeners[type] || []).push(handler);
+      },
+      destroy: function () {
+        window.removeEventListener('message', onMessage);
+        iframe.remove();
+        container.__dynamicflyer = false;
+      }
+    };
+  }
+
+  function mountAll() {
+    var containers = document.querySelectorAll('[' + ATTRIBUTE + ']');
+    Array.prototype.forEach.call(containers, function (container) {
+      if (!container.__dynamicflyer) embed(container);
+    });
+  }
+
+  window.DynamicFlyer = { embed: embed, mountAll: mountAll };
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', mountAll);
+  } else {
+    mountAll();
+  }
+})();
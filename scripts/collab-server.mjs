@@ -0,0 +1,70 @@
+/**
+ * Local Collaboration Server
+ * Stand-in for Supabase Realtime when testing live editing locally. Relays broadcasts to
+ * everyone else on the same topic and keeps each topic's presence list.
+ *
+ * Usage: npm run collab:server, then start the app with
+ * VITE_COLLAB_SERVER_URL=ws://localhost:4100
+ */
+
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.env.COLLAB_PORT || 4100);
+const server = new WebSocketServer({ port });
+
+/** @type {Map<string, Map<import('ws').WebSocket, object>>} */
+const topics = new Map();
+
+function sendPresence(topic) {
+  const members = topics.get(topic);
+  if (!members) return;
+  const data = JSON.stringify({ type: 'presence', presences: Array.from(members.values()) });
+  members.forEach((_, socket) => socket.send(data));
+}
+
+server.on('connection', (socket) => {
+  let topic = null;
+
+  socket.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    if (message.type === 'join') {
+      topic = message.topic;
+      if (!topics.has(topic)) topics.set(topic, new Map());
+      topics.get(topic).set(socket, message.presence);
+      sendPresence(topic);
+      return;
+    }
+
+    const members = topic && topics.get(topic);
+    if (!members) return;
+
+    if (message.type === 'track') {
+      members.set(socket, message.presence);
+      sendPresence(topic);
+    } else if (message.type === 'broadcast') {
+      const data = JSON.stringify(message);
+      members.forEach((_, member) => {
+        if (member !== socket) member.send(data);
+      });
+    }
+  });
+
+  socket.on('close', () => {
+    const members = topic && topics.get(topic);
+    if (!members) return;
+    members.delete(socket);
+    if (members.size === 0) {
+      topics.delete(topic);
+    } else {
+      sendPresence(topic);
+    }
+  });
+});
+
+console.log(`Collaboration server listening on ws://localhost:${port}`);
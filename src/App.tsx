@@ -23,9 +23,16 @@ import ConfirmEmailPage from "./pages/auth/ConfirmEmailPage";
 import Dashboard from "./pages/Dashboard";
 import TemplateEditor from "./pages/TemplateEditor";
 import PublicGenerator from "./pages/PublicGenerator";
+import BulkGenerator from "./pages/BulkGenerator";
 import Analytics from "./pages/Analytics";
 import Subscription from "./pages/Subscription";
 import PaymentSuccess from "./pages/PaymentSuccess";
+import Team from "./pages/Team";
+import ApiKeys from "./pages/ApiKeys";
+import Webhooks from "./pages/Webhooks";
+import Marketplace from "./pages/Marketplace";
+import MarketplaceDashboard from "./pages/MarketplaceDashboard";
+import AcceptInvite from "./pages/AcceptInvite";
 import FontManager from "./components/dashboard/FontManager";
 import DownloadLimitManager from "./components/dashboard/DownloadLimitManager";
 
@@ -159,18 +166,42 @@ const App = () => {
                 <Route path="fonts" element={<FontManager />} />
                 <Route path="downloads" element={<DownloadLimitManager />} />
                 <Route path="subscription" element={<Subscription />} />
+                <Route path="team" element={<Team />} />
+                <Route path="api" element={<ApiKeys />} />
+                <Route path="webhooks" element={<Webhooks />} />
+                <Route path="marketplace" element={<MarketplaceDashboard />} />
+                <Route path="bulk/:templateId" element={<BulkGenerator />} />
               </Route>
 
               {/* Payment Routes */}
               <Route path="/subscription" element={<Subscription />} />
               <Route path="/dashboard/subscription/success" element={<PaymentSuccess />} />
 
+              {/* Organization Invites */}
+              <Route 
+                path="/invite/:token" 
+                element={
+                  <ProtectedRoute>
+                    <AcceptInvite />
+                  </ProtectedRoute>
+                } 
+              />
+
               {/* Public Flyer Generator */}
               <Route 
                 path="/flyer/:templateId" 
                 element={<PublicGenerator />} 
               />
 
+              {/* Template Marketplace */}
+              <Route path="/marketplace" element={<Marketplace />} />
+
+              {/* Embedded Generator (loaded in iframes by public/embed.js) */}
+              <Route 
+                path="/embed/:templateId" 
+                element={<PublicGenerator embed />} 
+              />
+
               {/* Legacy V1 Routes (keep for existing users) */}
               <Route path="/editor" element={<Editor />} />
               <Route path="/success" element={<Success />} />
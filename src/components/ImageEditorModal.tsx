@@ -13,19 +13,7 @@ import {
   Check
 } from 'lucide-react';
 import { toast } from 'sonner';
-
-interface FrameData {
-  id: string;
-  type: 'image' | 'text';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  rotation: number;
-  shape: 'rectangle' | 'circle' | 'rounded-rectangle' | 'polygon';
-  cornerRadius?: number;
-  polygonSides?: number;
-}
+import type { FrameData } from '@/lib/frameSchema';
 
 interface ImageEditorModalProps {
   open: boolean;
@@ -34,6 +22,7 @@ interface ImageEditorModalProps {
   frame: FrameData;
   onApply: (editedImageUrl: string, transformData: any) => void;
   previousTransformData?: any; // Add previous transform data for re-editing
+  outputScale?: number; // Pixels per frame unit in the applied image, so it holds up in high-DPI exports
 }
 
 interface TransformData {
@@ -49,7 +38,8 @@ const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
   imageFile,
   frame,
   onApply,
-  previousTransformData
+  previousTransformData,
+  outputScale = 1
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [image, setImage] = useState<HTMLImageElement | null>(null);
@@ -448,9 +438,10 @@ const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
       const tempCtx = tempCanvas.getContext('2d');
       if (!tempCtx) throw new Error('Failed to get canvas context');
 
-      // Set canvas size to frame size
-      tempCanvas.width = frame.width;
-      tempCanvas.height = frame.height;
+      // Set canvas size to frame size at the requested output resolution
+      tempCanvas.width = Math.round(frame.width * outputScale);
+      tempCanvas.height = Math.round(frame.height * outputScale);
+      tempCtx.scale(outputScale, outputScale);
 
       // Apply ONLY user transformations (no frame rotation - that's handled by main canvas)
       const frameCenterX = frame.width / 2;
@@ -0,0 +1,140 @@
+/**
+ * Print Export Dialog
+ * Options for print-ready PDFs: resolution, bleed and printer's marks, plus low-resolution photo warnings
+ */
+
+import React, { useState } from 'react';
+import { AlertTriangle, Printer, RefreshCw } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DEFAULT_PRINT_SETTINGS,
+  PRINT_BLEED_OPTIONS_MM,
+  PRINT_DPI_OPTIONS,
+  PhysicalSize,
+  PrintSettings,
+  formatPhysicalSize,
+} from '@/lib/printExport';
+
+export interface PrintImageResolution {
+  frameId: string;
+  label: string;
+  effectiveDpi: number;
+}
+
+interface PrintExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  trimSize: PhysicalSize;
+  designDpi: number;
+  imageResolutions: PrintImageResolution[];
+  exporting: boolean;
+  onExport: (settings: PrintSettings) => void;
+}
+
+const PrintExportDialog: React.FC<PrintExportDialogProps> = ({
+  open,
+  onClose,
+  trimSize,
+  designDpi,
+  imageResolutions,
+  exporting,
+  onExport
+}) => {
+  const [settings, setSettings] = useState<PrintSettings>(DEFAULT_PRINT_SETTINGS);
+
+  const lowResolutionImages = imageResolutions.filter(image => image.effectiveDpi < settings.dpi);
+
+  const updateSettings = (updates: Partial<PrintSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="h-5 w-5" /> Print-Ready PDF
+          </DialogTitle>
+          <DialogDescription>
+            Trim size {formatPhysicalSize(trimSize)} · designed at {designDpi} DPI
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="print-resolution">Resolution</Label>
+              <Select value={String(settings.dpi)} onValueChange={(value) => updateSettings({ dpi: Number(value) })}>
+                <SelectTrigger id="print-resolution">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRINT_DPI_OPTIONS.map(dpi => (
+                    <SelectItem key={dpi} value={String(dpi)}>{dpi} DPI</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="print-bleed">Bleed</Label>
+              <Select value={String(settings.bleedMm)} onValueChange={(value) => updateSettings({ bleedMm: Number(value) })}>
+                <SelectTrigger id="print-bleed">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRINT_BLEED_OPTIONS_MM.map(mm => (
+                    <SelectItem key={mm} value={String(mm)}>{mm === 0 ? 'None' : `${mm} mm`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="print-crop-marks">Crop marks</Label>
+            <Switch
+              id="print-crop-marks"
+              checked={settings.cropMarks}
+              onCheckedChange={(cropMarks) => updateSettings({ cropMarks })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="print-registration-marks">Registration marks</Label>
+            <Switch
+              id="print-registration-marks"
+              checked={settings.registrationMarks}
+              onCheckedChange={(registrationMarks) => updateSettings({ registrationMarks })}
+            />
+          </div>
+
+          {lowResolutionImages.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 space-y-1">
+              <p className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4" /> Some photos may print blurry
+              </p>
+              {lowResolutionImages.map(image => (
+                <p key={image.frameId} className="text-xs">
+                  {image.label}: about {image.effectiveDpi} DPI (target {settings.dpi} DPI). Use a larger photo or zoom out.
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose} disabled={exporting}>Cancel</Button>
+          <Button onClick={() => onExport(settings)} disabled={exporting}>
+            {exporting ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Printer className="mr-2 h-4 w-4" />}
+            Export PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PrintExportDialog;
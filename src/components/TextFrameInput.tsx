@@ -0,0 +1,142 @@
+/**
+ * Text Frame Input
+ * The public generator control for a text frame: free text, a choice list, a date picker,
+ * or a number, phone or email field, with a preview of the formatted text where it differs
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { FrameData } from '@/lib/frameSchema';
+import { formatFrameInput, getFrameInputType, parseDateValue } from '@/lib/frameInputs';
+
+interface TextFrameInputProps {
+  frame: FrameData;
+  /** What was typed or picked, before formatting */
+  value: string;
+  onChange: (value: string) => void;
+  onFocus?: () => void;
+  onBlur?: () => void;
+  invalid?: boolean;
+}
+
+const FIELD_CLASS = 'bg-white/5 text-white h-12 rounded-xl transition-all placeholder:text-white/30';
+
+export default function TextFrameInput({ frame, value, onChange, onFocus, onBlur, invalid }: TextFrameInputProps) {
+  const [dateOpen, setDateOpen] = useState(false);
+  const inputType = getFrameInputType(frame);
+  const input = frame.input;
+  const borderClass = invalid ? 'border-red-500/60 focus:border-red-500' : 'border-white/10 focus:border-amber-500/50';
+  const formatted = formatFrameInput(frame, value);
+
+  const preview = (inputType === 'number' || inputType === 'phone') && value && formatted !== value && (
+    <p className="text-[10px] text-white/40">Appears as: <span className="text-white/70">{formatted}</span></p>
+  );
+
+  if (inputType === 'select') {
+    const options = Array.from(new Set((input?.options || []).map(option => option.trim()).filter(Boolean)));
+
+    if (input?.optionStyle === 'radio') {
+      return (
+        <RadioGroup
+          value={value}
+          onValueChange={(next) => {
+            onFocus?.();
+            onChange(next);
+            onBlur?.();
+          }}
+          className="space-y-1"
+        >
+          {options.map((option, index) => (
+            <div key={option} className="flex items-center gap-3 p-3 rounded-xl border border-white/10 bg-white/5">
+              <RadioGroupItem value={option} id={`${frame.id}-option-${index}`} className="border-white/40 text-amber-500" />
+              <Label htmlFor={`${frame.id}-option-${index}`} className="text-sm text-white/80 cursor-pointer flex-1">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+    }
+
+    return (
+      <Select
+        value={value || undefined}
+        onValueChange={onChange}
+        onOpenChange={(open) => (open ? onFocus?.() : onBlur?.())}
+      >
+        <SelectTrigger className={`${FIELD_CLASS} ${borderClass}`}>
+          <SelectValue placeholder="Choose..." />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (inputType === 'date') {
+    const date = value ? parseDateValue(value) : null;
+
+    return (
+      <Popover
+        open={dateOpen}
+        onOpenChange={(open) => {
+          setDateOpen(open);
+          if (open) onFocus?.(); else onBlur?.();
+        }}
+      >
+        <PopoverTrigger asChild>
+          <button className={`w-full px-4 flex items-center gap-3 border text-left ${FIELD_CLASS} ${borderClass}`}>
+            <CalendarIcon className="h-4 w-4 text-white/40" />
+            <span className={date ? 'text-white' : 'text-white/30'}>{date ? formatted : 'Pick a date'}</span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={date || undefined}
+            defaultMonth={date || undefined}
+            onSelect={(selected) => {
+              if (!selected) return;
+              onChange(format(selected, 'yyyy-MM-dd'));
+              setDateOpen(false);
+              onBlur?.();
+            }}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+    );
+  }
+
+  const fieldProps = {
+    number: { type: 'number', inputMode: 'decimal' as const, min: input?.min, max: input?.max, placeholder: 'Enter a number' },
+    phone: { type: 'tel', inputMode: 'tel' as const, placeholder: input?.phoneFormat?.replace(/#/g, '0') || 'Phone number' },
+    email: { type: 'email', inputMode: 'email' as const, placeholder: 'name@example.com' },
+    text: { type: 'text', maxLength: frame.validation?.maxLength, placeholder: 'Type something...' },
+  }[inputType];
+
+  return (
+    <div className="space-y-1.5">
+      <Input
+        {...fieldProps}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={onFocus}
+        onBlur={onBlur}
+        aria-invalid={invalid}
+        className={`${FIELD_CLASS} ${borderClass}`}
+      />
+      {preview}
+    </div>
+  );
+}
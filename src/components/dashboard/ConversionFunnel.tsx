@@ -0,0 +1,269 @@
+/**
+ * Conversion Funnel Component
+ * Shows where visitors drop off in the public generator wizard, per template and device class,
+ * against an earlier date range
+ */
+
+import { useState, useEffect } from 'react';
+import { Filter, Monitor, Smartphone, Tablet, HelpCircle } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  ANALYTICS_RANGES,
+  DEVICE_CLASSES,
+  FUNNEL_STEPS,
+  getComparisonWindow,
+  getRangeWindow,
+  getTemplateFunnel,
+  type AnalyticsRange,
+  type DeviceClass,
+  type FunnelComparison,
+  type TemplateFunnel,
+} from '@/lib/analytics';
+import { toast } from 'sonner';
+
+interface ConversionFunnelProps {
+  templates: { id: string; name: string }[];
+  timeRange: AnalyticsRange;
+}
+
+const DEVICE_LABELS: Record<DeviceClass | 'all', string> = {
+  all: 'All devices',
+  mobile: 'Mobile',
+  tablet: 'Tablet',
+  desktop: 'Desktop',
+  unknown: 'Unknown',
+};
+
+const COMPARISON_LABELS: Record<FunnelComparison, string> = {
+  previous_period: 'Previous period',
+  previous_year: 'Same period last year',
+  none: 'No comparison',
+};
+
+const chartConfig = {
+  current: { label: 'This period', color: '#f59e0b' },
+  comparison: { label: 'Comparison', color: '#94a3b8' },
+} satisfies ChartConfig;
+
+export default function ConversionFunnel({ templates, timeRange }: ConversionFunnelProps) {
+  const [templateId, setTemplateId] = useState('all');
+  const [device, setDevice] = useState<DeviceClass | 'all'>('all');
+  const [comparison, setComparison] = useState<FunnelComparison>('previous_period');
+  const [funnel, setFunnel] = useState<TemplateFunnel | null>(null);
+  const [comparisonFunnel, setComparisonFunnel] = useState<TemplateFunnel | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const loadFunnel = async () => {
+      setLoading(true);
+      try {
+        const currentWindow = getRangeWindow(timeRange);
+        const comparisonWindow = getComparisonWindow(currentWindow, comparison);
+        const selectedTemplate = templateId === 'all' ? undefined : templateId;
+
+        const [current, previous] = await Promise.all([
+          getTemplateFunnel(currentWindow, selectedTemplate),
+          comparisonWindow ? getTemplateFunnel(comparisonWindow, selectedTemplate) : Promise.resolve(null),
+        ]);
+
+        if (mounted) {
+          setFunnel(current);
+          setComparisonFunnel(previous);
+        }
+      } catch (error) {
+        console.error('Error loading funnel:', error);
+        if (mounted) toast.error('Failed to load conversion funnel');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+
+    loadFunnel();
+
+    return () => {
+      mounted = false;
+    };
+  }, [templateId, timeRange, comparison]);
+
+  const formatPercent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+  const getDeviceIcon = (deviceClass: DeviceClass) => {
+    switch (deviceClass) {
+      case 'mobile': return <Smartphone className="h-4 w-4" />;
+      case 'tablet': return <Tablet className="h-4 w-4" />;
+      case 'desktop': return <Monitor className="h-4 w-4" />;
+      default: return <HelpCircle className="h-4 w-4" />;
+    }
+  };
+
+  const steps = funnel?.[device] || [];
+  const comparisonSteps = comparisonFunnel?.[device] || null;
+  const chartData = steps.map((step, index) => ({
+    label: step.label,
+    current: step.sessions,
+    comparison: comparisonSteps?.[index].sessions ?? 0,
+  }));
+  const hasData = steps.some(step => step.sessions > 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              Conversion Funnel
+            </CardTitle>
+            <CardDescription>
+              Visitors reaching each step of the generator, {ANALYTICS_RANGES[timeRange].label.toLowerCase()}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All templates</SelectItem>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={device} onValueChange={(value) => setDevice(value as DeviceClass | 'all')}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(['all', ...DEVICE_CLASSES] as const).map((deviceClass) => (
+                  <SelectItem key={deviceClass} value={deviceClass}>{DEVICE_LABELS[deviceClass]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={comparison} onValueChange={(value) => setComparison(value as FunnelComparison)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COMPARISON_LABELS) as FunnelComparison[]).map((option) => (
+                  <SelectItem key={option} value={option}>{COMPARISON_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {loading ? (
+            <div className="h-72 bg-gray-100 rounded animate-pulse"></div>
+          ) : !hasData ? (
+            <div className="h-72 flex items-center justify-center text-sm text-muted-foreground">
+              No generator visits in this period yet.
+            </div>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-72 w-full">
+              <BarChart data={chartData} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} interval={0} fontSize={11} />
+                <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                {comparisonSteps && <ChartLegend content={<ChartLegendContent />} />}
+                <Bar dataKey="current" fill="var(--color-current)" radius={4} />
+                {comparisonSteps && <Bar dataKey="comparison" fill="var(--color-comparison)" radius={4} />}
+              </BarChart>
+            </ChartContainer>
+          )}
+
+          {!loading && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Step</TableHead>
+                  <TableHead className="text-right">Visitors</TableHead>
+                  <TableHead className="text-right">Of page views</TableHead>
+                  <TableHead className="text-right">Drop-off</TableHead>
+                  {comparisonSteps && <TableHead className="text-right">{COMPARISON_LABELS[comparison]}</TableHead>}
+                  {comparisonSteps && <TableHead className="text-right">Drop-off then</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {steps.map((step, index) => (
+                  <TableRow key={step.event}>
+                    <TableCell className="font-medium">{step.label}</TableCell>
+                    <TableCell className="text-right">{step.sessions}</TableCell>
+                    <TableCell className="text-right">{formatPercent(step.conversion)}</TableCell>
+                    <TableCell className="text-right text-red-600">{formatPercent(step.dropOff)}</TableCell>
+                    {comparisonSteps && (
+                      <TableCell className="text-right text-muted-foreground">{comparisonSteps[index].sessions}</TableCell>
+                    )}
+                    {comparisonSteps && (
+                      <TableCell className="text-right text-muted-foreground">
+                        {formatPercent(comparisonSteps[index].dropOff)}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {!loading && funnel && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Drop-off by Device</CardTitle>
+            <CardDescription>Share of visitors lost at each step, by the kind of device they used</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Step</TableHead>
+                  {DEVICE_CLASSES.map((deviceClass) => (
+                    <TableHead key={deviceClass} className="text-right">
+                      <span className="inline-flex items-center gap-1">
+                        {getDeviceIcon(deviceClass)}
+                        {DEVICE_LABELS[deviceClass]}
+                      </span>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {FUNNEL_STEPS.map((step, index) => (
+                  <TableRow key={step.event}>
+                    <TableCell className="font-medium">{step.label}</TableCell>
+                    {DEVICE_CLASSES.map((deviceClass) => {
+                      const deviceStep = funnel[deviceClass][index];
+                      return (
+                        <TableCell key={deviceClass} className="text-right">
+                          {index === 0 ? deviceStep.sessions : formatPercent(deviceStep.dropOff)}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground mt-3">
+              The first row shows page views; the rest show the drop-off from the step before.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
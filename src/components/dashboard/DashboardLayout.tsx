@@ -10,6 +10,7 @@ import { Menu, X, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import DashboardSidebar from './DashboardSidebar';
+import NotificationBell from './NotificationBell';
 
 export default function DashboardLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false); // Default to closed on mobile, open controlled by effect
@@ -86,6 +87,7 @@ export default function DashboardLayout() {
           </div>
 
           <div className="flex items-center gap-3">
+            <NotificationBell />
             <div className="hidden sm:block text-xs font-medium text-slate-500 bg-slate-100 px-3 py-1.5 rounded-full">
               Welcome, {profile?.full_name || user?.email?.split('@')[0]}
             </div>
@@ -19,11 +19,20 @@ import {
   Sparkles,
   Type,
   Download,
-  Menu
+  Menu,
+  Users,
+  User,
+  Building2,
+  KeyRound,
+  Webhook,
+  Store
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { ROLE_LABELS } from '@/lib/organizations';
 
 interface DashboardSidebarProps {
   onClose?: () => void;
@@ -40,16 +49,24 @@ const templateCategories = [
   { id: 'social', name: 'Social Media', icon: Share2, count: 0 },
 ];
 
+const PERSONAL_WORKSPACE = 'personal';
+
 const navigationItems = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutTemplate },
   { name: 'Analytics', href: '/dashboard/analytics', icon: BarChart3 },
   { name: 'Fonts', href: '/dashboard/fonts', icon: Type },
   { name: 'Downloads', href: '/dashboard/downloads', icon: Download },
+  { name: 'Team', href: '/dashboard/team', icon: Users },
+  { name: 'API', href: '/dashboard/api', icon: KeyRound },
+  { name: 'Webhooks', href: '/dashboard/webhooks', icon: Webhook },
+  { name: 'Marketplace', href: '/dashboard/marketplace', icon: Store },
   { name: 'Subscription', href: '/dashboard/subscription', icon: CreditCard },
 ];
 
 export default function DashboardSidebar({ onClose, onToggle }: DashboardSidebarProps) {
   const location = useLocation();
+  const { organizations, activeOrganizationId, activeRole, switchWorkspace } = useWorkspace();
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -82,6 +99,42 @@ export default function DashboardSidebar({ onClose, onToggle }: DashboardSidebar
         </div>
       </div>
 
+      {/* Workspace Switcher */}
+      <div className="px-6 pt-5">
+        <h3 className="mb-2 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+          Workspace
+        </h3>
+        <Select
+          value={activeOrganizationId || PERSONAL_WORKSPACE}
+          onValueChange={(value) => switchWorkspace(value === PERSONAL_WORKSPACE ? null : value)}
+        >
+          <SelectTrigger className="h-11 rounded-xl border-slate-200 bg-white font-medium">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="rounded-xl border-slate-100">
+            <SelectItem value={PERSONAL_WORKSPACE}>
+              <span className="flex items-center gap-2">
+                <User className="h-4 w-4 text-slate-400" />
+                Personal
+              </span>
+            </SelectItem>
+            {organizations.map(({ organization }) => (
+              <SelectItem key={organization.id} value={organization.id}>
+                <span className="flex items-center gap-2">
+                  <Building2 className="h-4 w-4 text-slate-400" />
+                  {organization.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {activeRole && (
+          <p className="mt-1.5 px-1 text-[11px] text-slate-400">
+            Your role: {ROLE_LABELS[activeRole]}
+          </p>
+        )}
+      </div>
+
       {/* Create New Template */}
       <div className="p-6 pb-4">
         <Button 
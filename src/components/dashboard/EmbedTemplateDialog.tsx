@@ -0,0 +1,163 @@
+/**
+ * Embed Template Dialog
+ * Chooses which sites may embed a template's generator and gives them the snippet to paste
+ */
+
+import { useEffect, useState } from 'react';
+import { Check, Copy, Globe, Loader2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Template } from '@/integrations/supabase/types';
+import { getEmbedSnippet, normalizeOrigin, setEmbedAllowedOrigins } from '@/lib/embed';
+import { toast } from 'sonner';
+
+interface EmbedTemplateDialogProps {
+  template: Template;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function EmbedTemplateDialog({ template, open, onOpenChange }: EmbedTemplateDialogProps) {
+  const [savedOrigins, setSavedOrigins] = useState<string[]>(template.embed_allowed_origins || []);
+  const [origins, setOrigins] = useState<string[]>(savedOrigins);
+  const [newOrigin, setNewOrigin] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const snippet = getEmbedSnippet(template.id);
+  const hasChanges = origins.join('\n') !== savedOrigins.join('\n');
+
+  // Start from what's saved each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setOrigins(savedOrigins);
+      setNewOrigin('');
+    }
+  }, [open, savedOrigins]);
+
+  const handleAdd = () => {
+    const origin = normalizeOrigin(newOrigin);
+    if (!origin) {
+      toast.error('Enter a site address like https://example.org');
+      return;
+    }
+    if (!origins.includes(origin)) setOrigins(prev => [...prev, origin]);
+    setNewOrigin('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const updated = await setEmbedAllowedOrigins(template.id, origins);
+      setSavedOrigins(updated.embed_allowed_origins || []);
+      toast.success(origins.length > 0 ? 'Embedding settings saved' : 'Embedding turned off');
+    } catch (error) {
+      console.error('Error saving embed origins:', error);
+      toast.error('Failed to save embedding settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      toast.error('Failed to copy');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Embed on Website</DialogTitle>
+          <DialogDescription>
+            Show the generator for "{template.name}" inside your own site. It only loads on the sites listed here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Allowed sites</Label>
+            {origins.length === 0 ? (
+              <p className="text-sm text-slate-500">No sites yet, so the generator can't be embedded.</p>
+            ) : (
+              <div className="space-y-1.5">
+                {origins.map(origin => (
+                  <div key={origin} className="flex items-center justify-between rounded-lg border border-slate-200 px-3 py-2 text-sm">
+                    <span className="flex items-center gap-2 font-mono text-slate-700">
+                      <Globe className="h-3.5 w-3.5 text-slate-400" />
+                      {origin}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setOrigins(prev => prev.filter(o => o !== origin))}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                value={newOrigin}
+                onChange={(e) => setNewOrigin(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAdd();
+                  }
+                }}
+                placeholder="https://www.yourchurch.org"
+              />
+              <Button variant="outline" onClick={handleAdd} disabled={!newOrigin.trim()}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Code for your site</Label>
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={handleCopy}>
+                {copied ? <Check className="h-3.5 w-3.5 mr-1 text-emerald-500" /> : <Copy className="h-3.5 w-3.5 mr-1" />}
+                Copy
+              </Button>
+            </div>
+            <Textarea value={snippet} readOnly rows={2} className="font-mono text-xs resize-none" />
+            <p className="text-xs text-slate-500">
+              The frame resizes itself. Listen for <code className="font-mono">dynamicflyer:generated</code> on
+              the element to get each finished design, or use <code className="font-mono">DynamicFlyer.embed()</code>{' '}
+              to set fields and start downloads from your own code.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={handleSave} disabled={saving || !hasChanges}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,69 +1,109 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Upload, Trash2, Eye, Plus, FileText, Type } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
 import {
   CustomFont,
-  loadFontFromFile,
+  FontUploadDetails,
+  uploadCustomFont,
   getCustomFonts,
-  saveCustomFont,
   deleteCustomFont,
+  loadFonts,
+  validateFontFile,
   getFontPreviewText,
-  getAvailableFonts
+  loadCatalogFont,
+  parseFontWeight
 } from '@/lib/fontUtils';
+import { FONT_CATALOG, FONT_CATEGORIES, FONT_WEIGHTS, getFontWeightLabel } from '@/lib/fontCatalog';
 import { FeatureGate } from '@/components/shared/FeatureGate';
+import { useAuth } from '@/hooks/useAuth';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { canEditTemplates } from '@/lib/organizations';
 
 export default function FontManager() {
+  const { user } = useAuth();
+  const { activeOrganizationId, activeOrganization, activeRole, loading: workspaceLoading } = useWorkspace();
   const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
-  const [systemFonts] = useState<string[]>(getAvailableFonts());
   const [uploading, setUploading] = useState(false);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [uploadDetails, setUploadDetails] = useState<FontUploadDetails>({ family: '', weight: '400', style: 'normal' });
   const [selectedFont, setSelectedFont] = useState<CustomFont | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Organization viewers can use the shared fonts but not change them
+  const canManageFonts = !activeOrganizationId || canEditTemplates(activeRole);
+
+  const refreshFonts = useCallback(async () => {
+    try {
+      const fonts = await getCustomFonts(activeOrganizationId);
+      await loadFonts(fonts);
+      setCustomFonts(fonts.map(font => ({ ...font, isLoaded: true })));
+    } catch (error) {
+      toast.error('Failed to load fonts');
+    }
+  }, [activeOrganizationId]);
+
   useEffect(() => {
-    loadFonts();
-  }, []);
+    if (!workspaceLoading) refreshFonts();
+  }, [workspaceLoading, refreshFonts]);
 
-  const loadFonts = () => {
-    const fonts = getCustomFonts();
-    setCustomFonts(fonts);
-  };
+  // Regular faces of the bundled fonts, for their previews
+  useEffect(() => {
+    FONT_CATALOG.forEach(font => loadCatalogFont(font.family, ['normal']));
+  }, []);
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Ask for the family, weight and style before uploading
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
     if (!file) return;
 
+    const validation = validateFontFile(file);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return;
+    }
+    setUploadDetails({ family: validation.fontFamily || '', weight: '400', style: 'normal' });
+    setPendingFile(file);
+  };
+
+  const handleFileUpload = async () => {
+    if (!pendingFile) return;
+
     setUploading(true);
     try {
-      const font = await loadFontFromFile(file);
-      saveCustomFont(font);
-      loadFonts();
+      const font = await uploadCustomFont(pendingFile, uploadDetails, activeOrganizationId);
+      setPendingFile(null);
+      await refreshFonts();
       toast.success(`Font "${font.family}" uploaded successfully!`);
     } catch (error) {
       console.error('Error uploading font:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to upload font');
     } finally {
       setUploading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
     }
   };
 
-  const handleDeleteFont = (font: CustomFont) => {
+  const handleDeleteFont = async (font: CustomFont) => {
     try {
-      deleteCustomFont(font.id);
-      loadFonts();
+      await deleteCustomFont(font);
+      await refreshFonts();
       toast.success(`Font "${font.family}" deleted successfully!`);
     } catch (error) {
       console.error('Error deleting font:', error);
@@ -71,6 +111,9 @@ export default function FontManager() {
     }
   };
 
+  const canDeleteFont = (font: CustomFont) =>
+    font.userId === user?.id || activeRole === 'owner' || activeRole === 'admin';
+
   const handlePreviewFont = (font: CustomFont) => {
     setSelectedFont(font);
     setShowPreview(true);
@@ -94,21 +137,27 @@ export default function FontManager() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Font Manager</h1>
-          <p className="text-gray-600 mt-1">Upload and manage custom fonts for your templates</p>
+          <p className="text-gray-600 mt-1">
+            {activeOrganization
+              ? `Fonts shared with everyone in ${activeOrganization.name}`
+              : 'Upload and manage custom fonts for your templates'}
+          </p>
         </div>
-        <FeatureGate feature="upload_font">
-          <Button onClick={() => fileInputRef.current?.click()}>
-            <Plus className="mr-2 h-4 w-4" />
-            Upload Font
-          </Button>
-        </FeatureGate>
+        {canManageFonts && (
+          <FeatureGate feature="upload_font">
+            <Button onClick={() => fileInputRef.current?.click()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Upload Font
+            </Button>
+          </FeatureGate>
+        )}
       </div>
 
       <input
         ref={fileInputRef}
         type="file"
         accept=".woff,.woff2,.ttf,.otf"
-        onChange={handleFileUpload}
+        onChange={handleFileSelect}
         className="hidden"
       />
 
@@ -126,12 +175,12 @@ export default function FontManager() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">System Fonts</CardTitle>
+            <CardTitle className="text-sm font-medium">Bundled Fonts</CardTitle>
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{systemFonts.length}</div>
-            <p className="text-xs text-muted-foreground">Available fonts</p>
+            <div className="text-2xl font-bold">{FONT_CATALOG.length}</div>
+            <p className="text-xs text-muted-foreground">Open-licence families</p>
           </CardContent>
         </Card>
 
@@ -141,7 +190,7 @@ export default function FontManager() {
             <Type className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{customFonts.length + systemFonts.length}</div>
+            <div className="text-2xl font-bold">{customFonts.length + FONT_CATALOG.length}</div>
             <p className="text-xs text-muted-foreground">Available for templates</p>
           </CardContent>
         </Card>
@@ -151,7 +200,8 @@ export default function FontManager() {
         <CardHeader>
           <CardTitle>Custom Fonts</CardTitle>
           <p className="text-sm text-gray-600">
-            Upload your own fonts to use in templates. Supported formats: WOFF, WOFF2, TTF, OTF
+            Upload your own fonts to use in templates. They load for everyone who opens your
+            templates' links, on any device. Supported formats: WOFF, WOFF2, TTF, OTF
           </p>
         </CardHeader>
         <CardContent>
@@ -162,10 +212,12 @@ export default function FontManager() {
               </div>
               <h3 className="text-lg font-medium text-gray-900 mb-2">No custom fonts yet</h3>
               <p className="text-gray-600 mb-4">Upload your first custom font to get started</p>
-              <Button onClick={() => fileInputRef.current?.click()}>
-                <Upload className="mr-2 h-4 w-4" />
-                Upload Font
-              </Button>
+              {canManageFonts && (
+                <Button onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Upload Font
+                </Button>
+              )}
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -175,7 +227,7 @@ export default function FontManager() {
                     <div className="flex-1">
                       <h4 
                         className="font-medium text-gray-900 mb-1"
-                        style={{ fontFamily: font.family }}
+                        style={{ fontFamily: font.family, fontWeight: font.weight, fontStyle: font.style }}
                       >
                         {font.family}
                       </h4>
@@ -190,16 +242,18 @@ export default function FontManager() {
                     <div className="text-xs text-gray-500">
                       <span className="font-medium">Format:</span> {getFontFormat(font.name)}
                     </div>
-                    {font.file && (
-                      <div className="text-xs text-gray-500">
-                        <span className="font-medium">Size:</span> {formatFileSize(font.file.size)}
-                      </div>
-                    )}
+                    <div className="text-xs text-gray-500">
+                      <span className="font-medium">Weight:</span> {getFontWeightLabel(parseFontWeight(font.weight))} ({parseFontWeight(font.weight)})
+                      {font.style === 'italic' && ' · Italic'}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      <span className="font-medium">Size:</span> {formatFileSize(font.fileSize)}
+                    </div>
                   </div>
 
                   <div 
                     className="text-sm mb-4 p-2 bg-gray-50 rounded border"
-                    style={{ fontFamily: font.family }}
+                    style={{ fontFamily: font.family, fontWeight: font.weight, fontStyle: font.style }}
                   >
                     {getFontPreviewText()}
                   </div>
@@ -214,14 +268,16 @@ export default function FontManager() {
                       <Eye className="h-3 w-3 mr-1" />
                       Preview
                     </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleDeleteFont(font)}
-                      className="text-red-600 hover:text-red-700"
-                    >
-                      <Trash2 className="h-3 w-3" />
-                    </Button>
+                    {canDeleteFont(font) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDeleteFont(font)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -232,38 +288,93 @@ export default function FontManager() {
 
       <Card>
         <CardHeader>
-          <CardTitle>System Fonts</CardTitle>
-          <p className="text-sm text-gray-600">Pre-installed fonts available on all devices</p>
+          <CardTitle>Bundled Fonts</CardTitle>
+          <p className="text-sm text-gray-600">
+            Open-licence fonts that come with DynamicFlyer and render the same on every device
+          </p>
         </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
-            {systemFonts.slice(0, 24).map((font, index) => (
-              <div key={index} className="border rounded-lg p-3 hover:shadow-md transition-shadow">
-                <div 
-                  className="text-sm font-medium text-gray-900 mb-2"
-                  style={{ fontFamily: font }}
-                >
-                  {font}
-                </div>
-                <div 
-                  className="text-xs text-gray-500"
-                  style={{ fontFamily: font }}
-                >
-                  Aa Bb Cc
-                </div>
+        <CardContent className="space-y-6">
+          {FONT_CATEGORIES.map(category => (
+            <div key={category.value}>
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">{category.label}</h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                {FONT_CATALOG.filter(font => font.category === category.value).map(font => (
+                  <div key={font.id} className="border rounded-lg p-3 hover:shadow-md transition-shadow">
+                    <div
+                      className="text-sm font-medium text-gray-900 mb-2 truncate"
+                      style={{ fontFamily: `"${font.family}"` }}
+                    >
+                      {font.family}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {font.minWeight === font.maxWeight ? font.minWeight : `${font.minWeight}–${font.maxWeight}`}
+                      {font.italic && ' · Italic'}
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
-          {systemFonts.length > 24 && (
-            <div className="mt-4 text-center">
-              <p className="text-sm text-gray-500">
-                Showing 24 of {systemFonts.length} system fonts
-              </p>
             </div>
-          )}
+          ))}
         </CardContent>
       </Card>
 
+      <Dialog open={!!pendingFile} onOpenChange={(open) => !open && !uploading && setPendingFile(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Upload Font</DialogTitle>
+            <DialogDescription>
+              {pendingFile?.name}. Upload each weight and style of a family separately under the same family name.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="font-family">Family</Label>
+              <Input
+                id="font-family"
+                value={uploadDetails.family}
+                onChange={(e) => setUploadDetails(prev => ({ ...prev, family: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Weight</Label>
+                <Select value={uploadDetails.weight} onValueChange={(weight) => setUploadDetails(prev => ({ ...prev, weight }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FONT_WEIGHTS.map(weight => (
+                      <SelectItem key={weight.value} value={String(weight.value)}>{weight.label} ({weight.value})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Style</Label>
+                <Select value={uploadDetails.style} onValueChange={(style) => setUploadDetails(prev => ({ ...prev, style }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="normal">Normal</SelectItem>
+                    <SelectItem value="italic">Italic</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingFile(null)} disabled={uploading}>Cancel</Button>
+            <Button onClick={handleFileUpload} disabled={uploading || !uploadDetails.family.trim()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Upload
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showPreview} onOpenChange={setShowPreview}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
@@ -0,0 +1,318 @@
+/**
+ * Listing Review Queue Component
+ * Lets marketplace reviewers approve or reject listings, record payouts as sent and record
+ * refunds of templates bought twice
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Banknote, CheckCircle, ClipboardCheck, Eye, ImageIcon, RotateCcw, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import PreviewModal from '@/components/editor/PreviewModal';
+import {
+  PAYOUT_METHOD_LABELS,
+  formatCedis,
+  getListingReviewQueue,
+  getPayoutQueue,
+  getRefundQueue,
+  processPayout,
+  refundDuplicatePurchase,
+  reviewListing,
+  type ListingDecision,
+  type ListingForReview,
+  type MarketplacePayout,
+  type TemplatePurchase,
+} from '@/lib/marketplace';
+import { getTemplateVersion, type TemplateVersion } from '@/lib/templateVersions';
+import { toast } from 'sonner';
+
+export default function ListingReviewQueue() {
+  const [listings, setListings] = useState<ListingForReview[]>([]);
+  const [payouts, setPayouts] = useState<MarketplacePayout[]>([]);
+  const [refunds, setRefunds] = useState<TemplatePurchase[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [references, setReferences] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<TemplateVersion | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [listingData, payoutData, refundData] = await Promise.all([
+        getListingReviewQueue(),
+        getPayoutQueue(),
+        getRefundQueue(),
+      ]);
+      setListings(listingData);
+      setPayouts(payoutData);
+      setRefunds(refundData);
+    } catch (error) {
+      console.error('Error loading marketplace review queue:', error);
+      toast.error('Failed to load the marketplace review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handlePreview = async (listing: ListingForReview) => {
+    try {
+      setPreview(await getTemplateVersion(listing.version_id));
+    } catch (error) {
+      console.error('Error loading listing preview:', error);
+      toast.error('Failed to load the listed design');
+    }
+  };
+
+  const handleReview = async (listing: ListingForReview, decision: ListingDecision) => {
+    const comment = comments[listing.id]?.trim();
+    if (decision === 'rejected' && !comment) {
+      toast.error('Add a comment explaining what needs to change');
+      return;
+    }
+
+    setBusyId(listing.id);
+    try {
+      await reviewListing(listing.id, decision, comment);
+      setListings(prev => prev.filter(l => l.id !== listing.id));
+      toast.success(decision === 'approved'
+        ? `"${listing.name}" is now on sale`
+        : `Changes requested for "${listing.name}"`);
+    } catch (error) {
+      console.error('Error reviewing listing:', error);
+      toast.error((error as Error).message || 'Failed to review listing');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePayout = async (payout: MarketplacePayout, decision: 'paid' | 'cancelled') => {
+    const reference = references[payout.id]?.trim();
+    if (decision === 'paid' && !reference) {
+      toast.error('Add the transfer reference');
+      return;
+    }
+
+    setBusyId(payout.id);
+    try {
+      await processPayout(payout.id, decision, decision === 'paid' ? reference : undefined, decision === 'cancelled' ? reference : undefined);
+      setPayouts(prev => prev.filter(p => p.id !== payout.id));
+      toast.success(decision === 'paid' ? 'Payout marked as sent' : 'Payout cancelled');
+    } catch (error) {
+      console.error('Error processing payout:', error);
+      toast.error((error as Error).message || 'Failed to update payout');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRefund = async (purchase: TemplatePurchase) => {
+    const reference = references[purchase.id]?.trim();
+    if (!reference) {
+      toast.error('Add the refund reference');
+      return;
+    }
+
+    setBusyId(purchase.id);
+    try {
+      await refundDuplicatePurchase(purchase.id, reference);
+      setRefunds(prev => prev.filter(p => p.id !== purchase.id));
+      toast.success('Refund recorded');
+    } catch (error) {
+      console.error('Error recording refund:', error);
+      toast.error((error as Error).message || 'Failed to record refund');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const previewPage = preview?.pages[0];
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Listings Waiting for Review
+          </CardTitle>
+          <CardDescription>Listings only appear in the marketplace once approved</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+          ) : listings.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No listings are waiting for review.</p>
+          ) : (
+            <div className="space-y-3">
+              {listings.map(listing => (
+                <div key={listing.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-center gap-4">
+                    <div className="h-16 w-16 flex-shrink-0 rounded bg-gray-100 overflow-hidden flex items-center justify-center">
+                      {listing.preview_url ? (
+                        <img src={listing.preview_url} alt="" className="h-full w-full object-cover" />
+                      ) : (
+                        <ImageIcon className="h-6 w-6 text-gray-300" />
+                      )}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <h4 className="font-medium truncate">
+                        {listing.name} <span className="text-muted-foreground">· {formatCedis(listing.price)}</span>
+                      </h4>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {listing.seller_name || listing.seller_email || 'Unknown seller'}
+                        {listing.page_count > 1 && ` · ${listing.page_count} pages`}
+                        {' · '}submitted {formatDistanceToNow(new Date(listing.submitted_at), { addSuffix: true })}
+                      </p>
+                      {listing.comment && <p className="text-sm text-gray-600 mt-1">"{listing.comment}"</p>}
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handlePreview(listing)}>
+                      <Eye className="h-4 w-4 mr-2" />
+                      Preview
+                    </Button>
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      value={comments[listing.id] || ''}
+                      onChange={(e) => setComments(prev => ({ ...prev, [listing.id]: e.target.value }))}
+                      placeholder="Comment for the seller (required to request changes)"
+                      className="flex-1"
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={busyId === listing.id}
+                      onClick={() => handleReview(listing, 'rejected')}
+                    >
+                      <XCircle className="h-4 w-4 mr-2 text-red-500" />
+                      Request Changes
+                    </Button>
+                    <Button disabled={busyId === listing.id} onClick={() => handleReview(listing, 'approved')}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="h-5 w-5" />
+            Payout Requests
+          </CardTitle>
+          <CardDescription>Send each payout, then record its transfer reference here</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+          ) : payouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payouts are waiting to be sent.</p>
+          ) : (
+            <div className="space-y-3">
+              {payouts.map(payout => (
+                <div key={payout.id} className="p-4 border rounded-lg space-y-3">
+                  <div>
+                    <h4 className="font-medium">
+                      {formatCedis(payout.amount)} by {PAYOUT_METHOD_LABELS[payout.method]}
+                    </h4>
+                    <p className="text-sm text-gray-600">{payout.account_details}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Requested {formatDistanceToNow(new Date(payout.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      value={references[payout.id] || ''}
+                      onChange={(e) => setReferences(prev => ({ ...prev, [payout.id]: e.target.value }))}
+                      placeholder="Transfer reference, or why it was cancelled"
+                      className="flex-1"
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={busyId === payout.id}
+                      onClick={() => handlePayout(payout, 'cancelled')}
+                    >
+                      <XCircle className="h-4 w-4 mr-2 text-red-500" />
+                      Cancel
+                    </Button>
+                    <Button disabled={busyId === payout.id} onClick={() => handlePayout(payout, 'paid')}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Mark Sent
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <RotateCcw className="h-5 w-5" />
+            Payments to Refund
+          </CardTitle>
+          <CardDescription>Buyers who paid for a template they already owned. Refund them in Paystack, then record it here.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+          ) : refunds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payments are waiting for a refund.</p>
+          ) : (
+            <div className="space-y-3">
+              {refunds.map(purchase => (
+                <div key={purchase.id} className="p-4 border rounded-lg space-y-3">
+                  <div>
+                    <h4 className="font-medium">
+                      {formatCedis(purchase.price)} for "{purchase.template_name}"
+                    </h4>
+                    <p className="text-sm text-gray-600">Paystack reference {purchase.paystack_reference}</p>
+                    {purchase.paid_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Paid {formatDistanceToNow(new Date(purchase.paid_at), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      value={references[purchase.id] || ''}
+                      onChange={(e) => setReferences(prev => ({ ...prev, [purchase.id]: e.target.value }))}
+                      placeholder="Refund reference"
+                      className="flex-1"
+                    />
+                    <Button disabled={busyId === purchase.id} onClick={() => handleRefund(purchase)}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Mark Refunded
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <PreviewModal
+        isOpen={!!previewPage}
+        onClose={() => setPreview(null)}
+        backgroundUrl={previewPage?.backgroundUrl || ''}
+        frames={previewPage?.frames || []}
+        width={preview?.row.canvas_width}
+        height={preview?.row.canvas_height}
+        templateName={preview?.row.name || ''}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,450 @@
+/**
+ * Marketplace Selling Component
+ * A seller's listings, sales ledger, balance and payout requests
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Banknote, Loader2, RefreshCw, Store, Tag, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  LISTING_STATUS_LABELS,
+  MAX_LISTING_PRICE,
+  MIN_LISTING_PRICE,
+  MIN_PAYOUT_AMOUNT,
+  PAYOUT_METHOD_LABELS,
+  formatCedis,
+  getListableTemplates,
+  getMarketplaceBalance,
+  getMyListings,
+  getMyPayouts,
+  getMySales,
+  requestPayout,
+  submitListing,
+  withdrawListing,
+  type ListingStatus,
+  type MarketplaceBalance,
+  type MarketplacePayout,
+  type PayoutMethod,
+  type TemplatePurchase,
+} from '@/lib/marketplace';
+import type { Template } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+const LISTING_STATUS_VARIANTS: Record<ListingStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  unlisted: 'outline',
+  in_review: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+const PAYOUT_STATUS_LABELS: Record<MarketplacePayout['status'], string> = {
+  requested: 'Requested',
+  paid: 'Paid',
+  cancelled: 'Cancelled',
+};
+
+export default function MarketplaceSelling() {
+  const [listings, setListings] = useState<Template[]>([]);
+  const [listable, setListable] = useState<Template[]>([]);
+  const [sales, setSales] = useState<TemplatePurchase[]>([]);
+  const [payouts, setPayouts] = useState<MarketplacePayout[]>([]);
+  const [balance, setBalance] = useState<MarketplaceBalance | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [templateId, setTemplateId] = useState('');
+  const [price, setPrice] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [payoutMethod, setPayoutMethod] = useState<PayoutMethod>('mobile_money');
+  const [accountDetails, setAccountDetails] = useState('');
+  const [requesting, setRequesting] = useState(false);
+
+  const loadSelling = useCallback(async () => {
+    try {
+      const [listingData, listableData, salesData, payoutData, balanceData] = await Promise.all([
+        getMyListings(),
+        getListableTemplates(),
+        getMySales(),
+        getMyPayouts(),
+        getMarketplaceBalance(),
+      ]);
+      setListings(listingData);
+      setListable(listableData);
+      setSales(salesData);
+      setPayouts(payoutData);
+      setBalance(balanceData);
+    } catch (error) {
+      console.error('Error loading marketplace sales:', error);
+      toast.error('Failed to load your marketplace sales');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSelling();
+  }, [loadSelling]);
+
+  const parsePrice = (value: string) => {
+    const amount = Number(value);
+    if (!Number.isInteger(amount) || amount < MIN_LISTING_PRICE || amount > MAX_LISTING_PRICE) {
+      toast.error(`Set a whole-cedi price between GHS ${MIN_LISTING_PRICE} and GHS ${MAX_LISTING_PRICE.toLocaleString()}`);
+      return null;
+    }
+    return amount;
+  };
+
+  const handleSubmit = async () => {
+    const amount = parsePrice(price);
+    if (!templateId || amount === null) return;
+
+    setSubmitting(true);
+    try {
+      await submitListing(templateId, amount, note.trim());
+      toast.success('Submitted for review. It goes on sale once it\'s approved.');
+      setTemplateId('');
+      setPrice('');
+      setNote('');
+      await loadSelling();
+    } catch (error) {
+      console.error('Error submitting listing:', error);
+      toast.error((error as Error).message || 'Failed to submit listing');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Resubmitting sells the latest save, so edits made since the last review are reviewed too
+  const handleResubmit = async (template: Template) => {
+    const amount = parsePrice(window.prompt('Price in GHS', String(template.price || '')) || '');
+    if (amount === null) return;
+
+    setBusyId(template.id);
+    try {
+      await submitListing(template.id, amount);
+      toast.success(`"${template.name}" was resubmitted for review`);
+      await loadSelling();
+    } catch (error) {
+      console.error('Error resubmitting listing:', error);
+      toast.error((error as Error).message || 'Failed to resubmit listing');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleWithdraw = async (template: Template) => {
+    setBusyId(template.id);
+    try {
+      await withdrawListing(template.id);
+      toast.success(`"${template.name}" is no longer for sale`);
+      await loadSelling();
+    } catch (error) {
+      console.error('Error withdrawing listing:', error);
+      toast.error((error as Error).message || 'Failed to withdraw listing');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRequestPayout = async () => {
+    if (!accountDetails.trim()) {
+      toast.error('Enter where the payout should be sent');
+      return;
+    }
+
+    setRequesting(true);
+    try {
+      const payout = await requestPayout(payoutMethod, accountDetails.trim());
+      toast.success(`Payout of ${formatCedis(payout.amount)} requested`);
+      setAccountDetails('');
+      await loadSelling();
+    } catch (error) {
+      console.error('Error requesting payout:', error);
+      toast.error((error as Error).message || 'Failed to request payout');
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[300px]">
+        <Loader2 className="h-8 w-8 animate-spin text-amber-500" />
+      </div>
+    );
+  }
+
+  const salesByTemplate = sales.reduce<Record<string, number>>((counts, sale) => {
+    if (sale.template_id) counts[sale.template_id] = (counts[sale.template_id] || 0) + 1;
+    return counts;
+  }, {});
+  const hasOpenPayout = payouts.some(payout => payout.status === 'requested');
+  const canRequestPayout = !!balance && balance.available >= MIN_PAYOUT_AMOUNT && !hasOpenPayout;
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="h-5 w-5" />
+            Balance
+          </CardTitle>
+          <CardDescription>
+            The platform keeps a commission on each sale; the rest is yours to withdraw once it reaches{' '}
+            {formatCedis(MIN_PAYOUT_AMOUNT)}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+            {[
+              { label: 'Sales', value: formatCedis(balance?.gross_sales || 0) },
+              { label: 'Commission', value: formatCedis(balance?.commission || 0) },
+              { label: 'Earnings', value: formatCedis(balance?.earnings || 0) },
+              { label: 'Withdrawn', value: formatCedis((balance?.paid_out || 0) + (balance?.pending_payouts || 0)) },
+              { label: 'Available', value: formatCedis(balance?.available || 0) },
+            ].map(item => (
+              <div key={item.label} className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">{item.label}</p>
+                <p className="text-lg font-semibold">{item.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {hasOpenPayout ? (
+            <p className="text-sm text-muted-foreground">Your payout request is being processed.</p>
+          ) : (
+            <div className="flex flex-col md:flex-row gap-2">
+              <Select value={payoutMethod} onValueChange={(value) => setPayoutMethod(value as PayoutMethod)}>
+                <SelectTrigger className="md:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PAYOUT_METHOD_LABELS) as PayoutMethod[]).map(method => (
+                    <SelectItem key={method} value={method}>{PAYOUT_METHOD_LABELS[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={accountDetails}
+                onChange={(e) => setAccountDetails(e.target.value)}
+                maxLength={200}
+                placeholder={payoutMethod === 'mobile_money'
+                  ? 'Network, number and account name'
+                  : 'Bank, account number and account name'}
+                className="flex-1"
+              />
+              <Button onClick={handleRequestPayout} disabled={!canRequestPayout || requesting}>
+                {requesting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Request {formatCedis(balance?.available || 0)}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            Sell a Template
+          </CardTitle>
+          <CardDescription>
+            The template is sold as it was last saved. A reviewer checks it before it appears in the marketplace.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {listable.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Personal templates you've made can be sold. Templates you bought can't be resold.
+            </p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-[2fr_1fr_2fr_auto] md:items-end">
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {listable.map(template => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="listing-price">Price (GHS)</Label>
+                <Input
+                  id="listing-price"
+                  type="number"
+                  min={MIN_LISTING_PRICE}
+                  max={MAX_LISTING_PRICE}
+                  step={1}
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="listing-note">Note for the reviewer</Label>
+                <Input
+                  id="listing-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              <Button onClick={handleSubmit} disabled={!templateId || !price || submitting}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Submit
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Store className="h-5 w-5" />
+            Your Listings
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {listings.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You haven't listed any templates yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Sales</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {listings.map(template => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">{template.name}</TableCell>
+                    <TableCell>
+                      <Badge variant={LISTING_STATUS_VARIANTS[template.listing_status]}>
+                        {LISTING_STATUS_LABELS[template.listing_status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{template.price ? formatCedis(template.price) : '-'}</TableCell>
+                    <TableCell>{salesByTemplate[template.id] || 0}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {template.listing_status !== 'in_review' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busyId === template.id}
+                          onClick={() => handleResubmit(template)}
+                        >
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          Resubmit
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busyId === template.id}
+                        onClick={() => handleWithdraw(template)}
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Withdraw
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sales</CardTitle>
+          <CardDescription>Each sale with the commission kept by the platform</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sales.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sales yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Template</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Commission</TableHead>
+                  <TableHead className="text-right">Earnings</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sales.map(sale => (
+                  <TableRow key={sale.id}>
+                    <TableCell>{sale.paid_at ? format(new Date(sale.paid_at), 'MMM d, yyyy') : '-'}</TableCell>
+                    <TableCell>{sale.template_name}</TableCell>
+                    <TableCell className="text-right">{formatCedis(sale.price)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatCedis(sale.commission)} ({Math.round(sale.commission_rate * 100)}%)
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatCedis(sale.seller_earnings)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {payouts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Payouts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Reference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payouts.map(payout => (
+                  <TableRow key={payout.id}>
+                    <TableCell>{format(new Date(payout.created_at), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>{formatCedis(payout.amount)}</TableCell>
+                    <TableCell>{PAYOUT_METHOD_LABELS[payout.method]}</TableCell>
+                    <TableCell>
+                      <Badge variant={payout.status === 'paid' ? 'default' : payout.status === 'cancelled' ? 'destructive' : 'secondary'}>
+                        {PAYOUT_STATUS_LABELS[payout.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{payout.reference || payout.note || '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
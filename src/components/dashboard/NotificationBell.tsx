@@ -0,0 +1,146 @@
+/**
+ * Notification Bell Component
+ * Header bell with the user's recent notifications and an unread count
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Banknote, Bell, CheckCircle, Clock, ShoppingBag, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAuth } from '@/hooks/useAuth';
+import { getNotifications, markNotificationsRead, type Notification } from '@/lib/notifications';
+import { setActiveWorkspaceId } from '@/lib/organizations';
+
+const NOTIFICATION_ICONS: Record<Notification['type'], typeof Bell> = {
+  review_requested: Clock,
+  template_approved: CheckCircle,
+  template_rejected: XCircle,
+  listing_submitted: Clock,
+  listing_approved: CheckCircle,
+  listing_rejected: XCircle,
+  template_sold: ShoppingBag,
+  payout_paid: Banknote,
+};
+
+const NOTIFICATION_COLORS: Record<Notification['type'], string> = {
+  review_requested: 'text-amber-500',
+  template_approved: 'text-emerald-500',
+  template_rejected: 'text-red-500',
+  listing_submitted: 'text-amber-500',
+  listing_approved: 'text-emerald-500',
+  listing_rejected: 'text-red-500',
+  template_sold: 'text-emerald-500',
+  payout_paid: 'text-emerald-500',
+};
+
+// Marketplace notifications open the tab of the marketplace page they're about
+const MARKETPLACE_TABS: Partial<Record<Notification['type'], string>> = {
+  listing_submitted: 'review',
+  listing_approved: 'selling',
+  listing_rejected: 'selling',
+  template_sold: 'selling',
+  payout_paid: 'selling',
+};
+
+export default function NotificationBell() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  const unreadCount = notifications.filter(n => !n.read_at).length;
+
+  const loadNotifications = useCallback(async () => {
+    if (!user?.id) return;
+    try {
+      setNotifications(await getNotifications());
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  const handleOpenChange = async (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+
+    await loadNotifications();
+  };
+
+  // Opening the list counts as reading it
+  useEffect(() => {
+    if (!open) return;
+    const unreadIds = notifications.filter(n => !n.read_at).map(n => n.id);
+    if (unreadIds.length === 0) return;
+
+    markNotificationsRead(unreadIds)
+      .then(() => {
+        const readAt = new Date().toISOString();
+        setNotifications(prev => prev.map(n => (unreadIds.includes(n.id) ? { ...n, read_at: readAt } : n)));
+      })
+      .catch((error) => console.error('Error marking notifications read:', error));
+  }, [open, notifications]);
+
+  const handleSelect = (notification: Notification) => {
+    setOpen(false);
+    if (notification.organization_id) setActiveWorkspaceId(notification.organization_id);
+
+    if (notification.type === 'review_requested') {
+      navigate('/dashboard/team');
+    } else if (MARKETPLACE_TABS[notification.type]) {
+      navigate(`/dashboard/marketplace?tab=${MARKETPLACE_TABS[notification.type]}`);
+    } else if (notification.template_id) {
+      navigate(`/dashboard/editor/${notification.template_id}`);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-slate-600" title="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-bold text-white">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-4 py-3 text-sm font-semibold text-slate-900">Notifications</div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = NOTIFICATION_ICONS[notification.type];
+              return (
+                <button
+                  key={notification.id}
+                  onClick={() => handleSelect(notification)}
+                  className={`flex w-full gap-3 px-4 py-3 text-left hover:bg-slate-50 ${notification.read_at ? '' : 'bg-amber-50/50'}`}
+                >
+                  <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${NOTIFICATION_COLORS[notification.type]}`} />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900">{notification.title}</p>
+                    {notification.body && (
+                      <p className="text-xs text-slate-600 mt-0.5 line-clamp-3">{notification.body}</p>
+                    )}
+                    <p className="text-[11px] text-slate-400 mt-1">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
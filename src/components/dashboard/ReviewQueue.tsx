@@ -0,0 +1,127 @@
+/**
+ * Review Queue Component
+ * Lets organization owners and admins approve or reject templates submitted for review
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle, ClipboardCheck, ExternalLink, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getReviewQueue, reviewTemplate, type ReviewDecision } from '@/lib/templateReviews';
+import type { Template } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+interface ReviewQueueProps {
+  organizationId: string;
+}
+
+export default function ReviewQueue({ organizationId }: ReviewQueueProps) {
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTemplates(await getReviewQueue(organizationId));
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      toast.error('Failed to load templates waiting for review');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleReview = async (template: Template, decision: ReviewDecision) => {
+    const comment = comments[template.id]?.trim();
+    if (decision === 'rejected' && !comment) {
+      toast.error('Add a comment explaining what needs to change');
+      return;
+    }
+
+    setReviewingId(template.id);
+    try {
+      await reviewTemplate(template.id, decision, comment);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+      toast.success(decision === 'approved'
+        ? `"${template.name}" approved. Its link is now live.`
+        : `Changes requested for "${template.name}"`);
+    } catch (error) {
+      console.error('Error reviewing template:', error);
+      toast.error((error as Error).message || 'Failed to review template');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Review Queue
+        </CardTitle>
+        <CardDescription>Shared links only work once a template is approved</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No templates are waiting for review.</p>
+        ) : (
+          <div className="space-y-3">
+            {templates.map((template) => (
+              <div key={template.id} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <h4 className="font-medium truncate">{template.name}</h4>
+                    <p className="text-xs text-muted-foreground">
+                      Updated {formatDistanceToNow(new Date(template.updated_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link to={`/dashboard/editor/${template.id}`}>
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Open
+                    </Link>
+                  </Button>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    value={comments[template.id] || ''}
+                    onChange={(e) => setComments(prev => ({ ...prev, [template.id]: e.target.value }))}
+                    placeholder="Comment for the author (required to request changes)"
+                    className="flex-1"
+                  />
+                  <Button
+                    variant="outline"
+                    disabled={reviewingId === template.id}
+                    onClick={() => handleReview(template, 'rejected')}
+                  >
+                    <XCircle className="h-4 w-4 mr-2 text-red-500" />
+                    Request Changes
+                  </Button>
+                  <Button
+                    disabled={reviewingId === template.id}
+                    onClick={() => handleReview(template, 'approved')}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
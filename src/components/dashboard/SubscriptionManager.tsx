@@ -12,7 +12,6 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useSubscription } from '@/hooks/useSubscription';
 import { useUsageTracking } from '@/hooks/useUsageTracking';
-import { SUBSCRIPTION_PLANS } from '@/integrations/paystack/client';
 import { toast } from 'sonner';
 
 export default function SubscriptionManager() {
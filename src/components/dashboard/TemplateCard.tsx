@@ -20,7 +20,9 @@ import {
   FileText,
   CreditCard,
   Mail,
-  Share
+  Share,
+  FileSpreadsheet,
+  Code2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -45,6 +47,9 @@ import {
 import { Template } from '@/integrations/supabase/types';
 import { toast } from 'sonner';
 import QRCodeGenerator from '@/components/shared/QRCodeGenerator';
+import EmbedTemplateDialog from './EmbedTemplateDialog';
+import { REVIEW_STATUS_LABELS, isTemplateLive, requiresReview } from '@/lib/templateReviews';
+import { LISTING_STATUS_LABELS, isLicensedCopy } from '@/lib/marketplace';
 
 interface TemplateCardProps {
   template: Template;
@@ -103,13 +108,19 @@ export default function TemplateCard({
 }: TemplateCardProps) {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isQrDialogOpen, setIsQrDialogOpen] = useState(false);
+  const [isEmbedDialogOpen, setIsEmbedDialogOpen] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
 
   const IconComponent = getTemplateIcon(template.template_type || 'flyer');
   const typeLabel = getTemplateTypeLabel(template.template_type || 'flyer');
 
   const handleShare = async () => {
-            const shareUrl = `${window.location.origin}/flyer/${template.id}`;
+    if (requiresReview(template) && template.review_status !== 'approved') {
+      toast.info('This template needs to be approved before its link works. Open it and submit it for review.');
+      return;
+    }
+
+    const shareUrl = `${window.location.origin}/flyer/${template.id}`;
     try {
       await navigator.clipboard.writeText(shareUrl);
       toast.success('Share link copied to clipboard!');
@@ -139,6 +150,10 @@ export default function TemplateCard({
     }
   };
 
+  const handleBulkGenerate = () => {
+    window.location.href = `/dashboard/bulk/${template.id}`;
+  };
+
   const handleDuplicate = () => {
     if (onDuplicate) {
       onDuplicate(template);
@@ -205,10 +220,28 @@ export default function TemplateCard({
                 <IconComponent className="mr-1.5 h-3 w-3 text-amber-500" />
                 {typeLabel}
               </Badge>
-              {template.is_public && (
+              {isTemplateLive(template) ? (
                 <Badge variant="secondary" className="px-2 py-1 text-[10px] bg-emerald-500 text-white border-0 shadow-sm font-bold uppercase tracking-wider">
                   Live
                 </Badge>
+              ) : requiresReview(template) && template.review_status !== 'draft' && (
+                <Badge
+                  variant="secondary"
+                  className={`px-2 py-1 text-[10px] text-white border-0 shadow-sm font-bold uppercase tracking-wider ${
+                    template.review_status === 'rejected' ? 'bg-red-500' : 'bg-amber-500'
+                  }`}
+                >
+                  {REVIEW_STATUS_LABELS[template.review_status]}
+                </Badge>
+              )}
+              {isLicensedCopy(template) ? (
+                <Badge variant="secondary" className="px-2 py-1 text-[10px] bg-violet-500 text-white border-0 shadow-sm font-bold uppercase tracking-wider">
+                  Licensed
+                </Badge>
+              ) : template.listing_status === 'approved' && (
+                <Badge variant="secondary" className="px-2 py-1 text-[10px] bg-amber-500 text-white border-0 shadow-sm font-bold uppercase tracking-wider">
+                  {LISTING_STATUS_LABELS.approved}
+                </Badge>
               )}
             </div>
 
@@ -233,6 +266,14 @@ export default function TemplateCard({
                     <QrCode className="mr-3 h-4 w-4 text-slate-400" />
                     <span className="font-medium">QR Code</span>
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setIsEmbedDialogOpen(true)} className="rounded-lg py-2.5 focus:bg-slate-50">
+                    <Code2 className="mr-3 h-4 w-4 text-slate-400" />
+                    <span className="font-medium">Embed on Website</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleBulkGenerate} className="rounded-lg py-2.5 focus:bg-slate-50">
+                    <FileSpreadsheet className="mr-3 h-4 w-4 text-slate-400" />
+                    <span className="font-medium">Bulk Generate</span>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator className="my-1 bg-slate-100" />
                   <DropdownMenuItem onClick={handleDuplicate} className="rounded-lg py-2.5 focus:bg-slate-50">
                     <Copy className="mr-3 h-4 w-4 text-slate-400" />
@@ -348,6 +389,13 @@ export default function TemplateCard({
         open={isQrDialogOpen}
         onOpenChange={setIsQrDialogOpen}
       />
+
+      {/* Embed dialog */}
+      <EmbedTemplateDialog
+        template={template}
+        open={isEmbedDialogOpen}
+        onOpenChange={setIsEmbedDialogOpen}
+      />
     </>
   );
 } 
\ No newline at end of file
@@ -24,7 +24,6 @@ import { Button } from '@/components/ui/button';
 import { useSubscription } from '@/hooks/useSubscription';
 import { getFeatureLimits, getUpgradeRecommendation } from '@/lib/featureGating';
 import { getCurrentUsage, isApproachingLimit } from '@/lib/usageTracking';
-import { SUBSCRIPTION_PLANS } from '@/integrations/paystack/client';
 import UpgradePrompt from '@/components/shared/UpgradePrompt';
 
 export default function UsageDashboard() {
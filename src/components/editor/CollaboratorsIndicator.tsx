@@ -0,0 +1,59 @@
+/**
+ * Collaborators Indicator Component
+ * Avatars of everyone else editing the template, in their cursor colours
+ */
+
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import type { CollaboratorPresence } from '@/lib/collaboration';
+
+interface CollaboratorsIndicatorProps {
+  collaborators: CollaboratorPresence[];
+  connected: boolean;
+}
+
+const MAX_VISIBLE = 4;
+
+export default function CollaboratorsIndicator({ collaborators, connected }: CollaboratorsIndicatorProps) {
+  // One avatar per person, even when they have the template open in several tabs
+  const people = collaborators.filter(
+    (collaborator, index) => collaborators.findIndex(c => c.userId === collaborator.userId) === index
+  );
+  const visible = people.slice(0, MAX_VISIBLE);
+  const hiddenCount = people.length - visible.length;
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <div className="flex items-center gap-2">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className={`h-2 w-2 rounded-full ${connected ? 'bg-emerald-400' : 'bg-white/30'}`} />
+          </TooltipTrigger>
+          <TooltipContent>{connected ? 'Live: changes sync instantly' : 'Connecting to live editing...'}</TooltipContent>
+        </Tooltip>
+
+        {visible.length > 0 && (
+          <div className="flex -space-x-2">
+            {visible.map(collaborator => (
+              <Tooltip key={collaborator.sessionId}>
+                <TooltipTrigger asChild>
+                  <div
+                    className="h-7 w-7 rounded-full border-2 flex items-center justify-center text-[11px] font-bold text-white"
+                    style={{ backgroundColor: collaborator.color, borderColor: '#0E1318' }}
+                  >
+                    {collaborator.name.charAt(0).toUpperCase()}
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent>{collaborator.name} is editing</TooltipContent>
+              </Tooltip>
+            ))}
+            {hiddenCount > 0 && (
+              <div className="h-7 w-7 rounded-full border-2 border-[#0E1318] bg-white/20 flex items-center justify-center text-[10px] font-bold text-white">
+                +{hiddenCount}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </TooltipProvider>
+  );
+}
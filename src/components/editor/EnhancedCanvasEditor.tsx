@@ -9,35 +9,28 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { ZoomIn, ZoomOut, RotateCcw, Download, Move, Square, Circle, Type, Image as ImageIcon, Plus, Trash2, Grid3X3, Eye, EyeOff, Hand, MousePointer2, Copy, Lock, Unlock, ChevronUp, ChevronDown, MoveUp, MoveDown } from 'lucide-react';
 import { toast } from 'sonner';
-import { drawBackgroundImage } from '@/lib/imageUtils';
+import { renderScene, createShapePath, applyFrameRotation } from '@/lib/renderEngine';
+import type { FrameData } from '@/lib/frameSchema';
+import { DEFAULT_CANVAS_SIZE } from '@/lib/canvasSize';
 import { FeatureGate } from '@/components/shared/FeatureGate';
+import type { FrameDiff } from '@/lib/templateVersions';
 
-export interface FrameData {
-  id: string;
-  type: 'image' | 'text';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  rotation: number;
-  shape: 'rectangle' | 'circle' | 'rounded-rectangle' | 'polygon';
-  cornerRadius?: number;
-  polygonSides?: number; // Number of sides for polygon (6 = hexagon, 8 = octagon, etc.)
-  visible?: boolean;
-  locked?: boolean;
-  properties?: {
-    fontSize?: number;
-    fontFamily?: string;
-    color?: string;
-    textAlign?: string;
-    placeholder?: string;
-    content?: string;
-  };
+export type { FrameData } from '@/lib/frameSchema';
+
+/** Another user editing the same page */
+export interface CanvasCollaborator {
+  sessionId: string;
+  name: string;
+  color: string;
+  selectedFrameId: string | null;
+  cursor: { x: number; y: number } | null;
 }
 
 interface CanvasEditorProps {
   backgroundUrl: string;
   frames: FrameData[];
+  canvasWidth?: number;
+  canvasHeight?: number;
   selectedFrameId: string | null;
   onFramesChange?: (frames: FrameData[]) => void;
   onFramesChangeEnd?: (frames: FrameData[]) => void;
@@ -52,6 +45,10 @@ interface CanvasEditorProps {
   onShowGridChange?: (show: boolean) => void;
   showGuides?: boolean;
   onShowGuidesChange?: (show: boolean) => void;
+  frameDiff?: FrameDiff | null;
+  collaborators?: CanvasCollaborator[];
+  /** Pointer position in template coordinates, or null when it leaves the canvas */
+  onCursorMove?: (point: { x: number; y: number } | null) => void;
 }
 
 interface DragState {
@@ -76,9 +73,119 @@ const GRID_SIZE = 10;
 const SNAP_DISTANCE = 10;
 const MIN_FRAME_SIZE = 30;
 
+const DIFF_COLORS = {
+  added: { stroke: '#10b981', fill: 'rgba(16, 185, 129, 0.18)' },
+  removed: { stroke: '#ef4444', fill: 'rgba(239, 68, 68, 0.12)' },
+  moved: { stroke: '#3b82f6', fill: 'rgba(59, 130, 246, 0.12)' },
+};
+
+// Outline a frame for a version comparison
+function drawDiffOutline(
+  ctx: CanvasRenderingContext2D,
+  frame: FrameData,
+  colors: { stroke: string; fill: string | null },
+  dashed: boolean
+) {
+  ctx.save();
+  applyFrameRotation(ctx, frame);
+  createShapePath(ctx, frame);
+  if (colors.fill) {
+    ctx.fillStyle = colors.fill;
+    ctx.fill();
+  }
+  ctx.strokeStyle = colors.stroke;
+  ctx.lineWidth = 3;
+  ctx.setLineDash(dashed ? [8, 6] : []);
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Highlight added, removed and moved frames; moved frames show where they came from
+function drawFrameDiff(ctx: CanvasRenderingContext2D, diff: FrameDiff) {
+  diff.removed.forEach(frame => drawDiffOutline(ctx, frame, DIFF_COLORS.removed, true));
+
+  diff.moved.forEach(({ frame, previous }) => {
+    drawDiffOutline(ctx, previous, { stroke: '#94a3b8', fill: null }, true);
+
+    ctx.save();
+    ctx.strokeStyle = DIFF_COLORS.moved.stroke;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(previous.x + previous.width / 2, previous.y + previous.height / 2);
+    ctx.lineTo(frame.x + frame.width / 2, frame.y + frame.height / 2);
+    ctx.stroke();
+    ctx.restore();
+
+    drawDiffOutline(ctx, frame, DIFF_COLORS.moved, false);
+  });
+
+  diff.added.forEach(frame => drawDiffOutline(ctx, frame, DIFF_COLORS.added, false));
+}
+
+// Draw a name tag with its top-left corner at (x, y); sizes are in screen pixels
+function drawNameTag(ctx: CanvasRenderingContext2D, name: string, color: string, x: number, y: number, scale: number) {
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.scale(1 / scale, 1 / scale);
+  ctx.font = '600 11px Inter, sans-serif';
+  const width = ctx.measureText(name).width + 12;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.roundRect(0, 0, width, 18, 4);
+  ctx.fill();
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(name, 6, 9);
+  ctx.restore();
+}
+
+// Show what collaborators have selected and where their pointers are
+function drawCollaborators(
+  ctx: CanvasRenderingContext2D,
+  collaborators: CanvasCollaborator[],
+  frames: FrameData[],
+  scale: number
+) {
+  collaborators.forEach(collaborator => {
+    const frame = frames.find(f => f.id === collaborator.selectedFrameId);
+    if (frame) {
+      ctx.save();
+      applyFrameRotation(ctx, frame);
+      ctx.strokeStyle = collaborator.color;
+      ctx.lineWidth = 2 / scale;
+      ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
+      ctx.restore();
+      drawNameTag(ctx, collaborator.name, collaborator.color, frame.x, frame.y - 20 / scale, scale);
+    }
+
+    const { cursor } = collaborator;
+    if (!cursor) return;
+
+    ctx.save();
+    ctx.translate(cursor.x, cursor.y);
+    ctx.scale(1 / scale, 1 / scale);
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(0, 16);
+    ctx.lineTo(4.5, 12);
+    ctx.lineTo(11, 12);
+    ctx.closePath();
+    ctx.fillStyle = collaborator.color;
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 1.5;
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+    drawNameTag(ctx, collaborator.name, collaborator.color, cursor.x + 12 / scale, cursor.y + 14 / scale, scale);
+  });
+}
+
 export default function EnhancedCanvasEditor({
   backgroundUrl,
   frames,
+  canvasWidth = DEFAULT_CANVAS_SIZE.width,
+  canvasHeight = DEFAULT_CANVAS_SIZE.height,
   selectedFrameId,
   onFramesChange,
   onFramesChangeEnd,
@@ -93,6 +200,9 @@ export default function EnhancedCanvasEditor({
   onShowGridChange,
   showGuides: externalShowGuides,
   onShowGuidesChange,
+  frameDiff,
+  collaborators,
+  onCursorMove,
 }: CanvasEditorProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -114,7 +224,7 @@ export default function EnhancedCanvasEditor({
   }, [onZoomChange]);
   const [displayScale, setDisplayScale] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
-  const [canvasSize, setCanvasSize] = useState({ width: 1200, height: 800 });
+  const [canvasSize, setCanvasSize] = useState({ width: canvasWidth, height: canvasHeight });
   const [backgroundImage, setBackgroundImage] = useState<HTMLImageElement | null>(null);
 
   const [internalInteractionMode, setInternalInteractionMode] = useState<'select' | 'pan'>('select');
@@ -272,9 +382,9 @@ export default function EnhancedCanvasEditor({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Fixed internal template dimensions
-    const baseWidth = 1200;
-    const baseHeight = 800;
+    // Internal template dimensions
+    const baseWidth = canvasWidth;
+    const baseHeight = canvasHeight;
     setCanvasSize({ width: baseWidth, height: baseHeight });
 
     // Account for High-DPI displays (mobile, retina)
@@ -290,7 +400,7 @@ export default function EnhancedCanvasEditor({
     onCanvasReady(true);
     setIsLoading(false);
     renderCanvas();
-  }, [onCanvasReady]);
+  }, [onCanvasReady, canvasWidth, canvasHeight]);
 
   // Handle container resizing for responsive scaling
   useEffect(() => {
@@ -303,10 +413,10 @@ export default function EnhancedCanvasEditor({
       // Safety guard: ignore tiny or zero dimensions which occur during transitions or initial loads
       if (width < 100 || height < 100) return;
 
-      // Calculate scale to fit 1200x800 in the available space with padding
+      // Calculate scale to fit the template in the available space with padding
       const padding = 64; 
-      const scaleX = (width - padding) / 1200;
-      const scaleY = (height - padding) / 800;
+      const scaleX = (width - padding) / canvasWidth;
+      const scaleY = (height - padding) / canvasHeight;
       
       // Use the smaller scale to ensure it fits both ways and preserves aspect ratio
       // Set a minimum floor (0.2) to prevent the "tiny dot" issue at low resolutions
@@ -316,7 +426,7 @@ export default function EnhancedCanvasEditor({
 
     resizeObserver.observe(containerRef.current);
     return () => resizeObserver.disconnect();
-  }, []);
+  }, [canvasWidth, canvasHeight]);
 
   // Initialize on mount
   useEffect(() => {
@@ -380,6 +490,15 @@ export default function EnhancedCanvasEditor({
     // We only apply internal panning offset here
     ctx.translate(panOffset.x, panOffset.y);
 
+    // Draw the template exactly as it will be exported, with empty frames shaded
+    renderScene(ctx, {
+      width: canvasSize.width,
+      height: canvasSize.height,
+      frames,
+      background: backgroundImage,
+      backgroundColor: backgroundImage ? '#ffffff' : '#f8f9fa',
+    }, { mode: 'design' });
+
     // Draw grid
     if (showGrid && zoom > 0.5) {
       const currentGridSize = fineGrid ? 5 : GRID_SIZE;
@@ -401,20 +520,21 @@ export default function EnhancedCanvasEditor({
       }
     }
 
-    // Draw background
-    if (backgroundImage) {
-      drawBackgroundImage(ctx, backgroundImage, canvasSize.width, canvasSize.height);
-    } else {
-      ctx.fillStyle = '#f8f9fa';
-      ctx.fillRect(0, 0, canvasSize.width, canvasSize.height);
-    }
-
-    // Draw frames
-    [...frames].forEach((frame, index) => {
+    // Draw frame outlines and selection handles
+    frames.forEach(frame => {
       if (frame.visible === false) return;
       drawFrame(ctx, frame, frame.id === selectedFrameId);
     });
 
+    // Draw version comparison highlights
+    if (frameDiff) {
+      drawFrameDiff(ctx, frameDiff);
+    }
+
+    if (collaborators?.length) {
+      drawCollaborators(ctx, collaborators, frames, displayScale * zoom);
+    }
+
     // Draw snap lines
     if (showGuides && snapLines.length > 0) {
       ctx.strokeStyle = '#3b82f6';
@@ -437,180 +557,35 @@ export default function EnhancedCanvasEditor({
     }
 
     ctx.restore();
-  }, [frames, selectedFrameId, backgroundImage, canvasSize, zoom, panOffset, showGrid, showGuides, snapLines, fineGrid]);
+  }, [frames, selectedFrameId, backgroundImage, canvasSize, zoom, panOffset, showGrid, showGuides, snapLines, fineGrid, frameDiff, collaborators, displayScale]);
 
   // Trigger render on any state change that affects the canvas visual
   useEffect(() => {
     renderCanvas();
   }, [renderCanvas]);
 
-  // Draw a single frame
-  const drawFrame = useCallback((ctx: CanvasRenderingContext2D, frame: FrameData, isSelected: boolean) => {
-    const centerX = frame.x + frame.width / 2;
-    const centerY = frame.y + frame.height / 2;
-    const rotationRad = (frame.rotation * Math.PI) / 180;
-    
-    // Draw the rotated frame border first
-    ctx.save();
-    ctx.translate(centerX, centerY);
-    ctx.rotate(rotationRad);
-    ctx.translate(-centerX, -centerY);
-    
-    // Draw frame border based on shape
-    switch (frame.shape) {
-      case 'circle':
-        drawCircleFrameBorder(ctx, frame, isSelected);
-        break;
-      case 'rounded-rectangle':
-        drawRoundedRectFrameBorder(ctx, frame, isSelected);
-        break;
-      case 'polygon':
-        drawPolygonFrameBorder(ctx, frame, isSelected);
-        break;
-      default:
-        drawRectangleFrameBorder(ctx, frame, isSelected);
-    }
-    
-    ctx.restore();
-    
-    // Draw content in rotated coordinate system
-    if (frame.type === 'text') {
-      drawTextContent(ctx, frame, isSelected);
-    } else {
-      drawImageContent(ctx, frame, isSelected);
-    }
-    
-    // Draw selection handles (also rotated)
-    if (isSelected) {
-      drawSelectionHandles(ctx, frame);
-    }
-  }, []);
-
-  // Draw text content (rotated with frame)
-  const drawTextContent = useCallback((ctx: CanvasRenderingContext2D, frame: FrameData, isSelected: boolean) => {
-    const centerX = frame.x + frame.width / 2;
-    const centerY = frame.y + frame.height / 2;
-    const rotationRad = (frame.rotation * Math.PI) / 180;
-    
-    ctx.save();
-    ctx.translate(centerX, centerY);
-    ctx.rotate(rotationRad);
-    ctx.translate(-centerX, -centerY);
-    
-    // Fill the frame area with background
-    ctx.fillStyle = 'rgba(156, 163, 175, 0.1)';
-    ctx.fillRect(frame.x, frame.y, frame.width, frame.height);
-    
-    // Draw the text in the center of the frame coordinates
-    ctx.fillStyle = frame.properties?.color || '#9ca3af';
-    ctx.font = `${frame.properties?.fontSize || 16}px ${frame.properties?.fontFamily || 'Arial'}`;
-    ctx.textAlign = 'center';
-    ctx.fillText(
-      frame.properties?.placeholder || 'Text placeholder',
-      frame.x + frame.width / 2,
-      frame.y + frame.height / 2 + 5
-    );
-    
-    ctx.restore();
-  }, []);
+  // Uploaded fonts load after the first paint; redraw so text doesn't stay in the fallback face
+  useEffect(() => {
+    document.fonts.addEventListener('loadingdone', renderCanvas);
+    return () => document.fonts.removeEventListener('loadingdone', renderCanvas);
+  }, [renderCanvas]);
 
-  // Draw image content (rotated with frame)
-  const drawImageContent = useCallback((ctx: CanvasRenderingContext2D, frame: FrameData, isSelected: boolean) => {
-    const centerX = frame.x + frame.width / 2;
-    const centerY = frame.y + frame.height / 2;
-    const rotationRad = (frame.rotation * Math.PI) / 180;
-    
+  // Draw a frame's outline (rotated with frame) and its selection handles
+  const drawFrame = useCallback((ctx: CanvasRenderingContext2D, frame: FrameData, isSelected: boolean) => {
     ctx.save();
-    ctx.translate(centerX, centerY);
-    ctx.rotate(rotationRad);
-    ctx.translate(-centerX, -centerY);
-    
-    // Fill the frame area with background
-    ctx.fillStyle = 'rgba(156, 163, 175, 0.3)';
-    ctx.fillRect(frame.x, frame.y, frame.width, frame.height);
+    applyFrameRotation(ctx, frame);
     
-    // Draw image icon in the center
-    ctx.fillStyle = '#6b7280';
-    ctx.font = '16px Arial';
-    ctx.textAlign = 'center';
-    ctx.fillText('📷', frame.x + frame.width / 2, frame.y + frame.height / 2 + 5);
-    
-    ctx.restore();
-  }, []);
-
-  // Draw rectangle frame border (rotated)
-  const drawRectangleFrameBorder = useCallback((ctx: CanvasRenderingContext2D, frame: FrameData, isSelected: boolean) => {
-    ctx.strokeStyle = isSelected ? '#3b82f6' : '#6b7280';
-    ctx.lineWidth = isSelected ? 2 : 1;
-    ctx.setLineDash(isSelected ? [] : [5, 5]);
-    
-    ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
-  }, []);
-
-  // Draw circle frame border (rotated)
-  const drawCircleFrameBorder = useCallback((ctx: CanvasRenderingContext2D, frame: FrameData, isSelected: boolean) => {
-    const centerX = frame.x + frame.width / 2;
-    const centerY = frame.y + frame.height / 2;
-    const radius = Math.min(frame.width, frame.height) / 2;
-
     ctx.strokeStyle = isSelected ? '#3b82f6' : '#6b7280';
     ctx.lineWidth = isSelected ? 2 : 1;
     ctx.setLineDash(isSelected ? [] : [5, 5]);
-    
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+    createShapePath(ctx, frame);
     ctx.stroke();
-  }, []);
-
-  // Draw rounded rectangle frame border (rotated)
-  const drawRoundedRectFrameBorder = useCallback((ctx: CanvasRenderingContext2D, frame: FrameData, isSelected: boolean) => {
-    const radius = frame.cornerRadius || 10;
-    
-    ctx.strokeStyle = isSelected ? '#3b82f6' : '#6b7280';
-    ctx.lineWidth = isSelected ? 2 : 1;
-    ctx.setLineDash(isSelected ? [] : [5, 5]);
-    
-    // Draw rounded rectangle
-    ctx.beginPath();
-    ctx.moveTo(frame.x + radius, frame.y);
-    ctx.lineTo(frame.x + frame.width - radius, frame.y);
-    ctx.quadraticCurveTo(frame.x + frame.width, frame.y, frame.x + frame.width, frame.y + radius);
-    ctx.lineTo(frame.x + frame.width, frame.y + frame.height - radius);
-    ctx.quadraticCurveTo(frame.x + frame.width, frame.y + frame.height, frame.x + frame.width - radius, frame.y + frame.height);
-    ctx.lineTo(frame.x + radius, frame.y + frame.height);
-    ctx.quadraticCurveTo(frame.x, frame.y + frame.height, frame.x, frame.y + frame.height - radius);
-    ctx.lineTo(frame.x, frame.y + radius);
-    ctx.quadraticCurveTo(frame.x, frame.y, frame.x + radius, frame.y);
-    ctx.closePath();
-    ctx.stroke();
-  }, []);
-
-  // Draw polygon frame border (rotated)
-  const drawPolygonFrameBorder = useCallback((ctx: CanvasRenderingContext2D, frame: FrameData, isSelected: boolean) => {
-    const sides = frame.polygonSides || 6; // Default to hexagon
-    const centerX = frame.x + frame.width / 2;
-    const centerY = frame.y + frame.height / 2;
-    const radius = Math.min(frame.width, frame.height) / 2;
     
-    ctx.strokeStyle = isSelected ? '#3b82f6' : '#6b7280';
-    ctx.lineWidth = isSelected ? 2 : 1;
-    ctx.setLineDash(isSelected ? [] : [5, 5]);
+    ctx.restore();
     
-    // Draw polygon
-    ctx.beginPath();
-    for (let i = 0; i < sides; i++) {
-      const angle = (i * 2 * Math.PI) / sides - Math.PI / 2; // Start from top
-      const x = centerX + radius * Math.cos(angle);
-      const y = centerY + radius * Math.sin(angle);
-      
-      if (i === 0) {
-        ctx.moveTo(x, y);
-      } else {
-        ctx.lineTo(x, y);
-      }
+    if (isSelected) {
+      drawSelectionHandles(ctx, frame);
     }
-    ctx.closePath();
-    ctx.stroke();
   }, []);
 
   // Draw selection handles (rotated with frame)
@@ -687,7 +662,7 @@ export default function EnhancedCanvasEditor({
     if (!canvasRef.current) return { x: 0, y: 0 };
     
     const rect = canvasRef.current.getBoundingClientRect();
-    // Maps screen pixels directly to internal 1200x800 coordinate system
+    // Maps screen pixels directly to the internal template coordinate system
     // The current scale on screen is (displayScale * zoom)
     const currentScale = displayScale * zoom;
     const x = (e.clientX - rect.left) / currentScale - panOffset.x;
@@ -1027,9 +1002,9 @@ export default function EnhancedCanvasEditor({
     const frameWidth = type === 'image' ? 200 : 300;
     const frameHeight = type === 'image' ? 200 : 80;
     
-    // Calculate center position (1200x800 is the internal canvas size)
-    const centerX = 1200 / 2 - frameWidth / 2;
-    const centerY = 800 / 2 - frameHeight / 2;
+    // Calculate center position in template coordinates
+    const centerX = canvasSize.width / 2 - frameWidth / 2;
+    const centerY = canvasSize.height / 2 - frameHeight / 2;
     
     // Add a slight stagger for multiple elements
     const staggerOffset = (frames.length % 10) * 20;
@@ -1060,7 +1035,7 @@ export default function EnhancedCanvasEditor({
     onFrameSelect(newFrame.id);
     
     toast.success(`${type === 'image' ? 'Image' : 'Text'} frame created!`);
-  }, [frames, onFramesChange, onFrameSelect]);
+  }, [frames, onFramesChange, onFrameSelect, canvasSize]);
 
   // Delete selected frame
   const deleteSelectedFrame = useCallback(() => {
@@ -1328,9 +1303,15 @@ export default function EnhancedCanvasEditor({
               height: '100%'
             }}
             onMouseDown={readOnly ? undefined : handleMouseDown}
-            onMouseMove={readOnly ? undefined : handleMouseMove}
+            onMouseMove={(e) => {
+              onCursorMove?.(getMousePos(e));
+              if (!readOnly) handleMouseMove(e);
+            }}
             onMouseUp={readOnly ? undefined : handleMouseUp}
-            onMouseLeave={readOnly ? undefined : handleMouseUp}
+            onMouseLeave={() => {
+              onCursorMove?.(null);
+              if (!readOnly) handleMouseUp();
+            }}
           />
           
           {isLoading && (
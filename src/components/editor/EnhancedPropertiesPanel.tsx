@@ -3,7 +3,7 @@
  * Simple and intuitive panel for editing frame properties
  */
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,6 +11,8 @@ import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Type, 
   Image as ImageIcon, 
@@ -26,7 +28,9 @@ import {
   AlignRight,
   AlignStartVertical,
   AlignCenterVertical,
-  AlignEndVertical
+  AlignEndVertical,
+  ShieldCheck,
+  TextCursorInput
 } from 'lucide-react';
 
 // Custom RoundedSquare icon component
@@ -62,190 +66,23 @@ const Hexagon = ({ className, ...props }: any) => (
 );
 import { FrameData } from './EnhancedCanvasEditor';
 import SearchableFontPicker from './SearchableFontPicker';
+import { DEFAULT_CANVAS_SIZE } from '@/lib/canvasSize';
+import { FRAME_INPUT_TYPES, type FrameInput, type FrameInputType, type FrameValidation } from '@/lib/frameSchema';
+import { DATE_FORMAT_PRESETS, INPUT_TYPE_LABELS, formatDate } from '@/lib/frameInputs';
+import { ASPECT_RATIO_PRESETS, compilePattern, getAspectRatioLabel } from '@/lib/frameValidation';
+import { normalizeFieldKey } from '@/lib/prefill';
+import { getFontOptions, type CustomFont } from '@/lib/fontUtils';
 
 interface EnhancedPropertiesPanelProps {
   frame: FrameData;
+  canvasWidth?: number;
+  canvasHeight?: number;
   onFrameUpdate?: (frameId: string, updates: Partial<FrameData>) => void;
   onFrameDelete?: (frameId: string) => void;
   onFrameDuplicate?: (frameId: string) => void;
+  customFonts?: CustomFont[]; // Fonts uploaded to the workspace, listed first
 }
 
-const FONT_FAMILIES = [
-  { value: 'Arial', label: 'Arial', style: 'font-family: Arial, sans-serif;' },
-  { value: 'Helvetica', label: 'Helvetica', style: 'font-family: Helvetica, sans-serif;' },
-  { value: 'Times New Roman', label: 'Times New Roman', style: 'font-family: "Times New Roman", serif;' },
-  { value: 'Georgia', label: 'Georgia', style: 'font-family: Georgia, serif;' },
-  { value: 'Verdana', label: 'Verdana', style: 'font-family: Verdana, sans-serif;' },
-  { value: 'Tahoma', label: 'Tahoma', style: 'font-family: Tahoma, sans-serif;' },
-  { value: 'Trebuchet MS', label: 'Trebuchet MS', style: 'font-family: "Trebuchet MS", sans-serif;' },
-  { value: 'Impact', label: 'Impact', style: 'font-family: Impact, sans-serif;' },
-  { value: 'Comic Sans MS', label: 'Comic Sans MS', style: 'font-family: "Comic Sans MS", cursive;' },
-  { value: 'Courier New', label: 'Courier New', style: 'font-family: "Courier New", monospace;' },
-  { value: 'Arial Black', label: 'Arial Black', style: 'font-family: "Arial Black", sans-serif;' },
-  { value: 'Lucida Console', label: 'Lucida Console', style: 'font-family: "Lucida Console", monospace;' },
-  { value: 'Lucida Sans Unicode', label: 'Lucida Sans Unicode', style: 'font-family: "Lucida Sans Unicode", sans-serif;' },
-  { value: 'Palatino Linotype', label: 'Palatino Linotype', style: 'font-family: "Palatino Linotype", serif;' },
-  { value: 'Book Antiqua', label: 'Book Antiqua', style: 'font-family: "Book Antiqua", serif;' },
-  { value: 'Garamond', label: 'Garamond', style: 'font-family: Garamond, serif;' },
-  { value: 'Century Gothic', label: 'Century Gothic', style: 'font-family: "Century Gothic", sans-serif;' },
-  { value: 'Franklin Gothic Medium', label: 'Franklin Gothic Medium', style: 'font-family: "Franklin Gothic Medium", sans-serif;' },
-  { value: 'Brush Script MT', label: 'Brush Script MT', style: 'font-family: "Brush Script MT", cursive;' },
-  { value: 'Copperplate', label: 'Copperplate', style: 'font-family: Copperplate, serif;' },
-  { value: 'Papyrus', label: 'Papyrus', style: 'font-family: Papyrus, fantasy;' },
-  { value: 'Futura', label: 'Futura', style: 'font-family: Futura, sans-serif;' },
-  { value: 'Optima', label: 'Optima', style: 'font-family: Optima, sans-serif;' },
-  { value: 'Bodoni MT', label: 'Bodoni MT', style: 'font-family: "Bodoni MT", serif;' },
-  { value: 'Didot', label: 'Didot', style: 'font-family: Didot, serif;' },
-  { value: 'Baskerville', label: 'Baskerville', style: 'font-family: Baskerville, serif;' },
-  { value: 'Futura Condensed', label: 'Futura Condensed', style: 'font-family: "Futura Condensed", sans-serif;' },
-  { value: 'Gill Sans', label: 'Gill Sans', style: 'font-family: "Gill Sans", sans-serif;' },
-  { value: 'Myriad Pro', label: 'Myriad Pro', style: 'font-family: "Myriad Pro", sans-serif;' },
-  { value: 'Minion Pro', label: 'Minion Pro', style: 'font-family: "Minion Pro", serif;' },
-  { value: 'Trajan Pro', label: 'Trajan Pro', style: 'font-family: "Trajan Pro", serif;' },
-  { value: 'Futura PT', label: 'Futura PT', style: 'font-family: "Futura PT", sans-serif;' },
-  { value: 'Proxima Nova', label: 'Proxima Nova', style: 'font-family: "Proxima Nova", sans-serif;' },
-  { value: 'Gotham', label: 'Gotham', style: 'font-family: Gotham, sans-serif;' },
-  { value: 'DIN', label: 'DIN', style: 'font-family: DIN, sans-serif;' },
-  { value: 'Univers', label: 'Univers', style: 'font-family: Univers, sans-serif;' },
-  { value: 'Akzidenz Grotesk', label: 'Akzidenz Grotesk', style: 'font-family: "Akzidenz Grotesk", sans-serif;' },
-  { value: 'Trade Gothic', label: 'Trade Gothic', style: 'font-family: "Trade Gothic", sans-serif;' },
-  { value: 'News Gothic', label: 'News Gothic', style: 'font-family: "News Gothic", sans-serif;' },
-  { value: 'Franklin Gothic', label: 'Franklin Gothic', style: 'font-family: "Franklin Gothic", sans-serif;' },
-  { value: 'Alternate Gothic', label: 'Alternate Gothic', style: 'font-family: "Alternate Gothic", sans-serif;' },
-  { value: 'Bureau Grot', label: 'Bureau Grot', style: 'font-family: "Bureau Grot", sans-serif;' },
-  { value: 'Champion', label: 'Champion', style: 'font-family: Champion, sans-serif;' },
-  { value: 'Tungsten', label: 'Tungsten', style: 'font-family: Tungsten, sans-serif;' },
-  { value: 'Whitney', label: 'Whitney', style: 'font-family: Whitney, sans-serif;' },
-  { value: 'Inter', label: 'Inter', style: 'font-family: Inter, sans-serif;' },
-  { value: 'Roboto', label: 'Roboto', style: 'font-family: Roboto, sans-serif;' },
-  { value: 'Open Sans', label: 'Open Sans', style: 'font-family: "Open Sans", sans-serif;' },
-  { value: 'Lato', label: 'Lato', style: 'font-family: Lato, sans-serif;' },
-  { value: 'Poppins', label: 'Poppins', style: 'font-family: Poppins, sans-serif;' },
-  { value: 'Montserrat', label: 'Montserrat', style: 'font-family: Montserrat, sans-serif;' },
-  { value: 'Raleway', label: 'Raleway', style: 'font-family: Raleway, sans-serif;' },
-  { value: 'Nunito', label: 'Nunito', style: 'font-family: Nunito, sans-serif;' },
-  { value: 'Ubuntu', label: 'Ubuntu', style: 'font-family: Ubuntu, sans-serif;' },
-  { value: 'Source Sans Pro', label: 'Source Sans Pro', style: 'font-family: "Source Sans Pro", sans-serif;' },
-  { value: 'Merriweather', label: 'Merriweather', style: 'font-family: Merriweather, serif;' },
-  { value: 'Playfair Display', label: 'Playfair Display', style: 'font-family: "Playfair Display", serif;' },
-  { value: 'Lora', label: 'Lora', style: 'font-family: Lora, serif;' },
-  { value: 'Crimson Text', label: 'Crimson Text', style: 'font-family: "Crimson Text", serif;' },
-  { value: 'Libre Baskerville', label: 'Libre Baskerville', style: 'font-family: "Libre Baskerville", serif;' },
-  { value: 'Source Code Pro', label: 'Source Code Pro', style: 'font-family: "Source Code Pro", monospace;' },
-  { value: 'Fira Code', label: 'Fira Code', style: 'font-family: "Fira Code", monospace;' },
-  { value: 'JetBrains Mono', label: 'JetBrains Mono', style: 'font-family: "JetBrains Mono", monospace;' },
-  { value: 'Cascadia Code', label: 'Cascadia Code', style: 'font-family: "Cascadia Code", monospace;' },
-  { value: 'Inconsolata', label: 'Inconsolata', style: 'font-family: Inconsolata, monospace;' },
-  { value: 'Space Mono', label: 'Space Mono', style: 'font-family: "Space Mono", monospace;' },
-  { value: 'Roboto Mono', label: 'Roboto Mono', style: 'font-family: "Roboto Mono", monospace;' },
-  { value: 'Dancing Script', label: 'Dancing Script', style: 'font-family: "Dancing Script", cursive;' },
-  { value: 'Pacifico', label: 'Pacifico', style: 'font-family: Pacifico, cursive;' },
-  { value: 'Great Vibes', label: 'Great Vibes', style: 'font-family: "Great Vibes", cursive;' },
-  { value: 'Satisfy', label: 'Satisfy', style: 'font-family: Satisfy, cursive;' },
-  { value: 'Kaushan Script', label: 'Kaushan Script', style: 'font-family: "Kaushan Script", cursive;' },
-  { value: 'Allura', label: 'Allura', style: 'font-family: Allura, cursive;' },
-  { value: 'Alex Brush', label: 'Alex Brush', style: 'font-family: "Alex Brush", cursive;' },
-  { value: 'Tangerine', label: 'Tangerine', style: 'font-family: Tangerine, cursive;' },
-  { value: 'Caveat', label: 'Caveat', style: 'font-family: Caveat, cursive;' },
-  { value: 'Indie Flower', label: 'Indie Flower', style: 'font-family: "Indie Flower", cursive;' },
-  { value: 'Shadows Into Light', label: 'Shadows Into Light', style: 'font-family: "Shadows Into Light", cursive;' },
-  { value: 'Permanent Marker', label: 'Permanent Marker', style: 'font-family: "Permanent Marker", cursive;' },
-  { value: 'Rock Salt', label: 'Rock Salt', style: 'font-family: "Rock Salt", cursive;' },
-  { value: 'Homemade Apple', label: 'Homemade Apple', style: 'font-family: "Homemade Apple", cursive;' },
-  { value: 'Kalam', label: 'Kalam', style: 'font-family: Kalam, cursive;' },
-  { value: 'Reenie Beanie', label: 'Reenie Beanie', style: 'font-family: "Reenie Beanie", cursive;' },
-  { value: 'Architects Daughter', label: 'Architects Daughter', style: 'font-family: "Architects Daughter", cursive;' },
-  { value: 'Just Another Hand', label: 'Just Another Hand', style: 'font-family: "Just Another Hand", cursive;' },
-  { value: 'Patrick Hand', label: 'Patrick Hand', style: 'font-family: "Patrick Hand", cursive;' },
-  { value: 'Coming Soon', label: 'Coming Soon', style: 'font-family: "Coming Soon", cursive;' },
-  { value: 'Short Stack', label: 'Short Stack', style: 'font-family: "Short Stack", cursive;' },
-  { value: 'Gloria Hallelujah', label: 'Gloria Hallelujah', style: 'font-family: "Gloria Hallelujah", cursive;' },
-  { value: 'Bangers', label: 'Bangers', style: 'font-family: Bangers, cursive;' },
-  { value: 'Fredoka One', label: 'Fredoka One', style: 'font-family: "Fredoka One", cursive;' },
-  { value: 'Chewy', label: 'Chewy', style: 'font-family: Chewy, cursive;' },
-  { value: 'Bubblegum Sans', label: 'Bubblegum Sans', style: 'font-family: "Bubblegum Sans", cursive;' },
-  { value: 'Comic Neue', label: 'Comic Neue', style: 'font-family: "Comic Neue", cursive;' },
-  { value: 'Sniglet', label: 'Sniglet', style: 'font-family: Sniglet, cursive;' },
-  { value: 'Freckle Face', label: 'Freckle Face', style: 'font-family: "Freckle Face", cursive;' },
-  { value: 'Boogaloo', label: 'Boogaloo', style: 'font-family: Boogaloo, cursive;' },
-  { value: 'Bevan', label: 'Bevan', style: 'font-family: Bevan, cursive;' },
-  { value: 'Righteous', label: 'Righteous', style: 'font-family: Righteous, cursive;' },
-  { value: 'Lobster', label: 'Lobster', style: 'font-family: Lobster, cursive;' },
-  { value: 'Lobster Two', label: 'Lobster Two', style: 'font-family: "Lobster Two", cursive;' },
-  { value: 'Creepster', label: 'Creepster', style: 'font-family: Creepster, cursive;' },
-  { value: 'Fascinate', label: 'Fascinate', style: 'font-family: Fascinate, cursive;' },
-  { value: 'Fascinate Inline', label: 'Fascinate Inline', style: 'font-family: "Fascinate Inline", cursive;' },
-  { value: 'Abril Fatface', label: 'Abril Fatface', style: 'font-family: "Abril Fatface", cursive;' },
-  { value: 'UnifrakturMaguntia', label: 'UnifrakturMaguntia', style: 'font-family: UnifrakturMaguntia, cursive;' },
-  { value: 'UnifrakturCook', label: 'UnifrakturCook', style: 'font-family: UnifrakturCook, cursive;' },
-  { value: 'Unkempt', label: 'Unkempt', style: 'font-family: Unkempt, cursive;' },
-  { value: 'Sancreek', label: 'Sancreek', style: 'font-family: Sancreek, cursive;' },
-  { value: 'Crafty Girls', label: 'Crafty Girls', style: 'font-family: "Crafty Girls", cursive;' },
-  { value: 'Calligraffitti', label: 'Calligraffitti', style: 'font-family: Calligraffitti, cursive;' },
-  { value: 'Cherry Cream Soda', label: 'Cherry Cream Soda', style: 'font-family: "Cherry Cream Soda", cursive;' },
-  { value: 'Chewy', label: 'Chewy', style: 'font-family: Chewy, cursive;' },
-  { value: 'Sunshiney', label: 'Sunshiney', style: 'font-family: Sunshiney, cursive;' },
-  { value: 'Loved by the King', label: 'Loved by the King', style: 'font-family: "Loved by the King", cursive;' },
-  { value: 'Over the Rainbow', label: 'Over the Rainbow', style: 'font-family: "Over the Rainbow", cursive;' },
-  { value: 'Swanky and Moo Moo', label: 'Swanky and Moo Moo', style: 'font-family: "Swanky and Moo Moo", cursive;' },
-  { value: 'Miss Fajardose', label: 'Miss Fajardose', style: 'font-family: "Miss Fajardose", cursive;' },
-  { value: 'Aguafina Script', label: 'Aguafina Script', style: 'font-family: "Aguafina Script", cursive;' },
-  { value: 'Qwigley', label: 'Qwigley', style: 'font-family: Qwigley, cursive;' },
-  { value: 'Dynalight', label: 'Dynalight', style: 'font-family: Dynalight, cursive;' },
-  { value: 'Rouge Script', label: 'Rouge Script', style: 'font-family: "Rouge Script", cursive;' },
-  { value: 'Satisfy', label: 'Satisfy', style: 'font-family: Satisfy, cursive;' },
-  { value: 'Kaushan Script', label: 'Kaushan Script', style: 'font-family: "Kaushan Script", cursive;' },
-  { value: 'Allura', label: 'Allura', style: 'font-family: Allura, cursive;' },
-  { value: 'Alex Brush', label: 'Alex Brush', style: 'font-family: "Alex Brush", cursive;' },
-  { value: 'Tangerine', label: 'Tangerine', style: 'font-family: Tangerine, cursive;' },
-  { value: 'Caveat', label: 'Caveat', style: 'font-family: Caveat, cursive;' },
-  { value: 'Indie Flower', label: 'Indie Flower', style: 'font-family: "Indie Flower", cursive;' },
-  { value: 'Shadows Into Light', label: 'Shadows Into Light', style: 'font-family: "Shadows Into Light", cursive;' },
-  { value: 'Permanent Marker', label: 'Permanent Marker', style: 'font-family: "Permanent Marker", cursive;' },
-  { value: 'Rock Salt', label: 'Rock Salt', style: 'font-family: "Rock Salt", cursive;' },
-  { value: 'Homemade Apple', label: 'Homemade Apple', style: 'font-family: "Homemade Apple", cursive;' },
-  { value: 'Kalam', label: 'Kalam', style: 'font-family: Kalam, cursive;' },
-  { value: 'Reenie Beanie', label: 'Reenie Beanie', style: 'font-family: "Reenie Beanie", cursive;' },
-  { value: 'Architects Daughter', label: 'Architects Daughter', style: 'font-family: "Architects Daughter", cursive;' },
-  { value: 'Just Another Hand', label: 'Just Another Hand', style: 'font-family: "Just Another Hand", cursive;' },
-  { value: 'Patrick Hand', label: 'Patrick Hand', style: 'font-family: "Patrick Hand", cursive;' },
-  { value: 'Coming Soon', label: 'Coming Soon', style: 'font-family: "Coming Soon", cursive;' },
-  { value: 'Short Stack', label: 'Short Stack', style: 'font-family: "Short Stack", cursive;' },
-  { value: 'Gloria Hallelujah', label: 'Gloria Hallelujah', style: 'font-family: "Gloria Hallelujah", cursive;' },
-  { value: 'Bangers', label: 'Bangers', style: 'font-family: Bangers, cursive;' },
-  { value: 'Fredoka One', label: 'Fredoka One', style: 'font-family: "Fredoka One", cursive;' },
-  { value: 'Chewy', label: 'Chewy', style: 'font-family: Chewy, cursive;' },
-  { value: 'Bubblegum Sans', label: 'Bubblegum Sans', style: 'font-family: "Bubblegum Sans", cursive;' },
-  { value: 'Comic Neue', label: 'Comic Neue', style: 'font-family: "Comic Neue", cursive;' },
-  { value: 'Sniglet', label: 'Sniglet', style: 'font-family: Sniglet, cursive;' },
-  { value: 'Freckle Face', label: 'Freckle Face', style: 'font-family: "Freckle Face", cursive;' },
-  { value: 'Boogaloo', label: 'Boogaloo', style: 'font-family: Boogaloo, cursive;' },
-  { value: 'Bevan', label: 'Bevan', style: 'font-family: Bevan, cursive;' },
-  { value: 'Righteous', label: 'Righteous', style: 'font-family: Righteous, cursive;' },
-  { value: 'Lobster', label: 'Lobster', style: 'font-family: Lobster, cursive;' },
-  { value: 'Lobster Two', label: 'Lobster Two', style: 'font-family: "Lobster Two", cursive;' },
-  { value: 'Creepster', label: 'Creepster', style: 'font-family: Creepster, cursive;' },
-  { value: 'Fascinate', label: 'Fascinate', style: 'font-family: Fascinate, cursive;' },
-  { value: 'Fascinate Inline', label: 'Fascinate Inline', style: 'font-family: "Fascinate Inline", cursive;' },
-  { value: 'Abril Fatface', label: 'Abril Fatface', style: 'font-family: "Abril Fatface", cursive;' },
-  { value: 'UnifrakturMaguntia', label: 'UnifrakturMaguntia', style: 'font-family: UnifrakturMaguntia, cursive;' },
-  { value: 'UnifrakturCook', label: 'UnifrakturCook', style: 'font-family: UnifrakturCook, cursive;' },
-  { value: 'Unkempt', label: 'Unkempt', style: 'font-family: Unkempt, cursive;' },
-  { value: 'Sancreek', label: 'Sancreek', style: 'font-family: Sancreek, cursive;' },
-  { value: 'Crafty Girls', label: 'Crafty Girls', style: 'font-family: "Crafty Girls", cursive;' },
-  { value: 'Calligraffitti', label: 'Calligraffitti', style: 'font-family: Calligraffitti, cursive;' },
-  { value: 'Cherry Cream Soda', label: 'Cherry Cream Soda', style: 'font-family: "Cherry Cream Soda", cursive;' },
-  { value: 'Sunshiney', label: 'Sunshiney', style: 'font-family: Sunshiney, cursive;' },
-  { value: 'Loved by the King', label: 'Loved by the King', style: 'font-family: "Loved by the King", cursive;' },
-  { value: 'Over the Rainbow', label: 'Over the Rainbow', style: 'font-family: "Over the Rainbow", cursive;' },
-  { value: 'Swanky and Moo Moo', label: 'Swanky and Moo Moo', style: 'font-family: "Swanky and Moo Moo", cursive;' },
-  { value: 'Miss Fajardose', label: 'Miss Fajardose', style: 'font-family: "Miss Fajardose", cursive;' },
-  { value: 'Aguafina Script', label: 'Aguafina Script', style: 'font-family: "Aguafina Script", cursive;' },
-  { value: 'Qwigley', label: 'Qwigley', style: 'font-family: Qwigley, cursive;' },
-  { value: 'Dynalight', label: 'Dynalight', style: 'font-family: Dynalight, cursive;' },
-  { value: 'Rouge Script', label: 'Rouge Script', style: 'font-family: "Rouge Script", cursive;' }
-];
-
 const TEXT_ALIGN_OPTIONS = [
   { value: 'left', label: 'Left' },
   { value: 'center', label: 'Center' },
@@ -261,18 +98,58 @@ const SHAPE_OPTIONS = [
 
 export default function EnhancedPropertiesPanel({
   frame,
+  canvasWidth = DEFAULT_CANVAS_SIZE.width,
+  canvasHeight = DEFAULT_CANVAS_SIZE.height,
   onFrameUpdate,
   onFrameDelete,
   onFrameDuplicate,
+  customFonts = [],
 }: EnhancedPropertiesPanelProps) {
   const [localFrame, setLocalFrame] = useState<FrameData>(frame);
 
+  const fontOptions = useMemo(() => getFontOptions(customFonts), [customFonts]);
+
   const updateFrame = (updates: Partial<FrameData>) => {
     const updatedFrame = { ...localFrame, ...updates };
     setLocalFrame(updatedFrame);
     onFrameUpdate?.(frame.id, updates);
   };
 
+  // Unset rules are dropped so frames without rules stay clean
+  const updateValidation = (updates: Partial<FrameValidation>) => {
+    const merged = { ...localFrame.validation, ...updates };
+    const validation = Object.fromEntries(
+      Object.entries(merged).filter(([, value]) => value !== undefined && value !== false && value !== '')
+    ) as FrameValidation;
+    updateFrame({ validation: Object.keys(validation).length > 0 ? validation : undefined });
+  };
+
+  const toLimit = (value: string) => {
+    const limit = Math.round(Number(value));
+    return value !== '' && limit > 0 ? limit : undefined;
+  };
+
+  const updateInput = (updates: Partial<FrameInput>) => {
+    const input = { ...localFrame.input, ...updates } as FrameInput;
+    updateFrame({ input: input.type === 'text' ? undefined : input });
+  };
+
+  // Switching type keeps only the options that apply to the new one
+  const changeInputType = (type: FrameInputType) => {
+    updateFrame({ input: type === 'text' ? undefined : { type } });
+  };
+
+  const toNumberOption = (value: string) => (value === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+  const input = localFrame.input;
+  const inputType = input?.type || 'text';
+  const isPresetDateFormat = !input?.dateFormat || DATE_FORMAT_PRESETS.includes(input.dateFormat);
+  const sampleDate = new Date(2026, 6, 11);
+
+  const validation = localFrame.validation || {};
+  const patternIsInvalid = !!validation.pattern && !compilePattern(validation.pattern);
+  const isPresetRatio = ASPECT_RATIO_PRESETS.some(preset => preset.value === validation.aspectRatio);
+
   const getShapeIcon = (shape: FrameData['shape']) => {
     const option = SHAPE_OPTIONS.find(opt => opt.value === shape);
     return option ? option.icon : Square;
@@ -482,12 +359,21 @@ export default function EnhancedPropertiesPanel({
             </div>
 
               <div className="space-y-2">
-                <Label className="text-xs text-gray-500">Font Family</Label>
+                <Label className="text-xs text-gray-500">Font</Label>
                 <SearchableFontPicker
-                  fonts={FONT_FAMILIES}
-                  value={localFrame.properties?.fontFamily || 'Arial'}
-                  onValueChange={(value) => updateFrame({
-                    properties: { ...localFrame.properties, fontFamily: value }
+                  fonts={fontOptions}
+                  value={{
+                    family: localFrame.properties?.fontFamily || 'Arial',
+                    weight: localFrame.properties?.fontWeight || 400,
+                    italic: localFrame.properties?.fontStyle === 'italic',
+                  }}
+                  onValueChange={({ family, weight, italic }) => updateFrame({
+                    properties: {
+                      ...localFrame.properties,
+                      fontFamily: family,
+                      fontWeight: weight,
+                      fontStyle: italic ? 'italic' : 'normal',
+                    }
                   })}
                 />
               </div>
@@ -592,6 +478,302 @@ export default function EnhancedPropertiesPanel({
         </Card>
       )}
 
+      {/* Input Type (only for text frames) */}
+      {frame.type === 'text' && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <TextCursorInput className="h-4 w-4" />
+              Input
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">Input Type</Label>
+              <Select value={inputType} onValueChange={(value) => changeInputType(value as FrameInputType)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FRAME_INPUT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{INPUT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">Field Key</Label>
+              <Input
+                value={localFrame.key || ''}
+                onChange={(e) => updateFrame({ key: normalizeFieldKey(e.target.value) || undefined })}
+                placeholder="e.g. name"
+                className="h-8 text-xs font-mono"
+              />
+              <p className="text-xs text-gray-500">Prefill this field with <span className="font-mono">?{localFrame.key || 'key'}=value</span> on the generator link</p>
+            </div>
+
+            {input?.type === 'select' && (
+              <>
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-500">Choices (one per line)</Label>
+                  <Textarea
+                    value={(input.options || []).join('\n')}
+                    onChange={(e) => updateInput({ options: e.target.value.split('\n') })}
+                    onBlur={() => updateInput({
+                      options: Array.from(new Set((input.options || []).map(option => option.trim()).filter(Boolean)))
+                    })}
+                    placeholder={'Computer Science\nMathematics\nPhysics'}
+                    className="text-xs min-h-[96px]"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-500">Show As</Label>
+                  <Select
+                    value={input.optionStyle || 'dropdown'}
+                    onValueChange={(value) => updateInput({ optionStyle: value as FrameInput['optionStyle'] })}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="dropdown">Dropdown</SelectItem>
+                      <SelectItem value="radio">Radio buttons</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            {input?.type === 'date' && (
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-500">Date Format</Label>
+                <Select
+                  value={isPresetDateFormat ? input.dateFormat || DATE_FORMAT_PRESETS[0] : 'custom'}
+                  onValueChange={(value) => updateInput({ dateFormat: value === 'custom' ? 'd.M.yyyy' : value })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMAT_PRESETS.map(pattern => (
+                      <SelectItem key={pattern} value={pattern}>{formatDate(sampleDate, pattern)}</SelectItem>
+                    ))}
+                    <SelectItem value="custom">Custom pattern...</SelectItem>
+                  </SelectContent>
+                </Select>
+                {!isPresetDateFormat && (
+                  <>
+                    <Input
+                      value={input.dateFormat || ''}
+                      onChange={(e) => updateInput({ dateFormat: e.target.value })}
+                      placeholder="e.g. EEEE, d MMMM yyyy"
+                      className="h-8 text-xs font-mono"
+                    />
+                    <p className="text-xs text-gray-400">Preview: {formatDate(sampleDate, input.dateFormat)}</p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {input?.type === 'number' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-500">Prefix</Label>
+                  <Input
+                    value={input.prefix || ''}
+                    onChange={(e) => updateInput({ prefix: e.target.value || undefined })}
+                    placeholder="e.g. GH₵"
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-500">Suffix</Label>
+                  <Input
+                    value={input.suffix || ''}
+                    onChange={(e) => updateInput({ suffix: e.target.value || undefined })}
+                    placeholder="e.g. %"
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-500">Min</Label>
+                  <Input
+                    type="number"
+                    value={input.min ?? ''}
+                    onChange={(e) => updateInput({ min: toNumberOption(e.target.value) })}
+                    placeholder="None"
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-500">Max</Label>
+                  <Input
+                    type="number"
+                    value={input.max ?? ''}
+                    onChange={(e) => updateInput({ max: toNumberOption(e.target.value) })}
+                    placeholder="None"
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1 col-span-2">
+                  <Label className="text-xs text-gray-500">Decimal Places</Label>
+                  <Select
+                    value={input.decimals !== undefined ? String(input.decimals) : 'auto'}
+                    onValueChange={(value) => updateInput({ decimals: value === 'auto' ? undefined : Number(value) })}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">As entered</SelectItem>
+                      {[0, 1, 2, 3].map(decimals => (
+                        <SelectItem key={decimals} value={String(decimals)}>{decimals}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {input?.type === 'phone' && (
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-500">Phone Format</Label>
+                <Input
+                  value={input.phoneFormat || ''}
+                  onChange={(e) => updateInput({ phoneFormat: e.target.value || undefined })}
+                  placeholder="e.g. +233 ## ### ####"
+                  className="h-8 text-xs font-mono"
+                />
+                <p className="text-xs text-gray-400"># stands for a digit. Leave empty to keep numbers as typed.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Validation Rules */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4" />
+            Validation
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-gray-500">Required</Label>
+            <Switch
+              checked={!!validation.required}
+              onCheckedChange={(checked) => updateValidation({ required: checked })}
+            />
+          </div>
+
+          {frame.type === 'text' ? (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-500">Min Length</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={validation.minLength ?? ''}
+                    onChange={(e) => updateValidation({ minLength: toLimit(e.target.value) })}
+                    placeholder="None"
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-500">Max Length</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={validation.maxLength ?? ''}
+                    onChange={(e) => updateValidation({ maxLength: toLimit(e.target.value) })}
+                    placeholder="None"
+                    className="h-8 text-xs"
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-500">Pattern (regular expression)</Label>
+                <Input
+                  value={validation.pattern || ''}
+                  onChange={(e) => updateValidation({ pattern: e.target.value })}
+                  placeholder="e.g. ^[0-9]{8}$"
+                  className={`h-8 text-xs font-mono ${patternIsInvalid ? 'border-red-400' : ''}`}
+                />
+                {patternIsInvalid && (
+                  <p className="text-xs text-red-500">This isn't a valid pattern, so it won't be checked.</p>
+                )}
+              </div>
+              {validation.pattern && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-500">Message When It Doesn't Match</Label>
+                  <Input
+                    value={validation.patternMessage || ''}
+                    onChange={(e) => updateValidation({ patternMessage: e.target.value })}
+                    placeholder="e.g. Matric number must be 8 digits"
+                    className="h-8 text-xs"
+                  />
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-500">Minimum Photo Size (px)</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={validation.minImageWidth ?? ''}
+                    onChange={(e) => updateValidation({ minImageWidth: toLimit(e.target.value) })}
+                    placeholder="Width"
+                    className="h-8 text-xs"
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    value={validation.minImageHeight ?? ''}
+                    onChange={(e) => updateValidation({ minImageHeight: toLimit(e.target.value) })}
+                    placeholder="Height"
+                    className="h-8 text-xs"
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-500">Photo Aspect Ratio</Label>
+                <Select
+                  value={validation.aspectRatio ? String(validation.aspectRatio) : 'any'}
+                  onValueChange={(value) => updateValidation({
+                    aspectRatio: value === 'any' ? undefined
+                      : value === 'frame' ? localFrame.width / localFrame.height
+                      : Number(value)
+                  })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any shape</SelectItem>
+                    <SelectItem value="frame">Match this frame</SelectItem>
+                    {ASPECT_RATIO_PRESETS.map(preset => (
+                      <SelectItem key={preset.label} value={String(preset.value)}>{preset.label}</SelectItem>
+                    ))}
+                    {validation.aspectRatio && !isPresetRatio && (
+                      <SelectItem value={String(validation.aspectRatio)}>
+                        {getAspectRatioLabel(validation.aspectRatio)}
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Quick Actions & Alignment */}
       <Card>
         <CardHeader className="pb-3">
@@ -615,7 +797,7 @@ export default function EnhancedPropertiesPanel({
                 variant="outline"
                 size="sm"
                 className="flex-1 h-8"
-                onClick={() => updateFrame({ x: 1200 / 2 - localFrame.width / 2 })}
+                onClick={() => updateFrame({ x: canvasWidth / 2 - localFrame.width / 2 })}
                 title="Align Center"
               >
                 <AlignCenter className="h-4 w-4" />
@@ -624,7 +806,7 @@ export default function EnhancedPropertiesPanel({
                 variant="outline"
                 size="sm"
                 className="flex-1 h-8"
-                onClick={() => updateFrame({ x: 1200 - localFrame.width })}
+                onClick={() => updateFrame({ x: canvasWidth - localFrame.width })}
                 title="Align Right"
               >
                 <AlignRight className="h-4 w-4" />
@@ -649,7 +831,7 @@ export default function EnhancedPropertiesPanel({
                 variant="outline"
                 size="sm"
                 className="flex-1 h-8"
-                onClick={() => updateFrame({ y: 800 / 2 - localFrame.height / 2 })}
+                onClick={() => updateFrame({ y: canvasHeight / 2 - localFrame.height / 2 })}
                 title="Align Middle"
               >
                 <AlignCenterVertical className="h-4 w-4" />
@@ -658,7 +840,7 @@ export default function EnhancedPropertiesPanel({
                 variant="outline"
                 size="sm"
                 className="flex-1 h-8"
-                onClick={() => updateFrame({ y: 800 - localFrame.height })}
+                onClick={() => updateFrame({ y: canvasHeight - localFrame.height })}
                 title="Align Bottom"
               >
                 <AlignEndVertical className="h-4 w-4" />
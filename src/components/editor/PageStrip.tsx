@@ -0,0 +1,126 @@
+/**
+ * Page Strip
+ * Thumbnails of a multi-page template's pages with add, reorder, duplicate and delete
+ */
+
+import { Reorder } from 'framer-motion';
+import { Copy, Plus, Trash2, FileImage } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TemplatePage, getPageLabel, MAX_TEMPLATE_PAGES } from '@/lib/templatePages';
+
+interface PageStripProps {
+  pages: TemplatePage[];
+  activePageId: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  readOnly?: boolean;
+  onPageSelect: (pageId: string) => void;
+  onPagesReorder: (pages: TemplatePage[]) => void;
+  onAddPage: () => void;
+  onDuplicatePage: (pageId: string) => void;
+  onDeletePage: (pageId: string) => void;
+}
+
+export default function PageStrip({
+  pages,
+  activePageId,
+  canvasWidth,
+  canvasHeight,
+  readOnly = false,
+  onPageSelect,
+  onPagesReorder,
+  onAddPage,
+  onDuplicatePage,
+  onDeletePage
+}: PageStripProps) {
+  const canAddPage = !readOnly && pages.length < MAX_TEMPLATE_PAGES;
+
+  return (
+    <div className="h-28 bg-white border-t border-[#D2D5D9] flex items-center gap-3 px-6 overflow-x-auto scrollbar-thin scrollbar-thumb-slate-200">
+      <Reorder.Group
+        axis="x"
+        values={pages}
+        onReorder={readOnly ? () => {} : onPagesReorder}
+        className="flex items-center gap-3"
+      >
+        {pages.map((page, index) => (
+          <Reorder.Item
+            key={page.id}
+            value={page}
+            dragListener={!readOnly}
+            className="group relative flex-none flex flex-col items-center gap-1 cursor-pointer"
+            onClick={() => onPageSelect(page.id)}
+          >
+            <div
+              className={`relative h-16 rounded-md overflow-hidden border-2 bg-slate-50 transition-all ${
+                page.id === activePageId
+                  ? 'border-amber-500 shadow-md'
+                  : 'border-slate-200 hover:border-slate-400'
+              }`}
+              style={{ aspectRatio: `${canvasWidth} / ${canvasHeight}` }}
+            >
+              {page.backgroundUrl ? (
+                <img
+                  src={page.backgroundUrl}
+                  alt={getPageLabel(page, index)}
+                  className="w-full h-full object-cover pointer-events-none"
+                  draggable={false}
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-slate-300">
+                  <FileImage className="h-5 w-5" />
+                </div>
+              )}
+
+              {!readOnly && (
+                <div className="absolute top-0.5 right-0.5 flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="h-5 w-5 rounded bg-white/90 hover:bg-white"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDuplicatePage(page.id);
+                    }}
+                    disabled={!canAddPage}
+                    title="Duplicate Page"
+                  >
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="h-5 w-5 rounded bg-white/90 hover:bg-white hover:text-red-500"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDeletePage(page.id);
+                    }}
+                    disabled={pages.length <= 1}
+                    title="Delete Page"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+            <span className={`text-[10px] font-bold uppercase tracking-wider truncate max-w-[96px] ${
+              page.id === activePageId ? 'text-black' : 'text-slate-400'
+            }`}>
+              {getPageLabel(page, index)}
+            </span>
+          </Reorder.Item>
+        ))}
+      </Reorder.Group>
+
+      {canAddPage && (
+        <button
+          onClick={onAddPage}
+          className="flex-none h-16 w-16 mb-5 rounded-md border-2 border-dashed border-slate-300 text-slate-400 hover:text-amber-600 hover:border-amber-400 flex items-center justify-center transition-colors"
+          title="Add Page"
+        >
+          <Plus className="h-5 w-5" />
+        </button>
+      )}
+    </div>
+  );
+}
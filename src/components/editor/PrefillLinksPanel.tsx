@@ -0,0 +1,280 @@
+/**
+ * Prefill Links Panel
+ * Field keys for text frames, and prefilled generator links: plain links people can still
+ * edit, signed links whose fields are locked, and the key for signing links elsewhere
+ */
+
+import { useState } from 'react';
+import { Check, Copy, KeyRound, Link2, Loader2, Lock, RefreshCw, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { TemplatePage } from '@/lib/templatePages';
+import {
+  PREFILL_TOKEN_PARAM,
+  buildPrefillUrl,
+  createSignedPrefillLink,
+  getDuplicateFieldKeys,
+  getPrefillLinkKey,
+  getPrefillableFrames,
+  isValidFieldKey,
+  normalizeFieldKey,
+} from '@/lib/prefill';
+import { toast } from 'sonner';
+
+interface PrefillLinksPanelProps {
+  templateId: string;
+  pages: TemplatePage[];
+  canEdit: boolean;
+  onFieldKeyChange: (frameId: string, key: string | undefined) => void;
+  onAssignMissingKeys: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never expires' },
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' },
+  { value: '90', label: 'Expires in 90 days' },
+];
+
+export default function PrefillLinksPanel({
+  templateId,
+  pages,
+  canEdit,
+  onFieldKeyChange,
+  onAssignMissingKeys,
+}: PrefillLinksPanelProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [locked, setLocked] = useState(false);
+  const [expiry, setExpiry] = useState('never');
+  const [link, setLink] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [copied, setCopied] = useState<'link' | 'key' | null>(null);
+  const [linkKey, setLinkKey] = useState<string | null>(null);
+  const [loadingKey, setLoadingKey] = useState(false);
+  const [confirmRotate, setConfirmRotate] = useState(false);
+
+  const frames = getPrefillableFrames(pages);
+  const duplicates = getDuplicateFieldKeys(frames);
+  const keyedFrames = frames.filter(frame => frame.key && isValidFieldKey(frame.key) && !duplicates.has(frame.key));
+
+  const getFields = () => Object.fromEntries(
+    keyedFrames
+      .map(frame => [frame.key as string, values[frame.id] || ''])
+      .filter(([, value]) => value !== '')
+  );
+
+  const copy = async (text: string, what: 'link' | 'key') => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(what);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (error) {
+      toast.error('Failed to copy');
+    }
+  };
+
+  const handleCreateLink = async () => {
+    const fields = getFields();
+    if (!locked) {
+      setLink(buildPrefillUrl(templateId, fields));
+      return;
+    }
+    if (Object.keys(fields).length === 0) {
+      toast.error('Enter at least one value to lock');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const signed = await createSignedPrefillLink(templateId, fields, expiry === 'never' ? null : Number(expiry));
+      setLink(signed.url);
+    } catch (error) {
+      console.error('Error creating signed link:', error);
+      toast.error((error as Error).message || 'Failed to create link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const loadKey = async (rotate: boolean) => {
+    setLoadingKey(true);
+    try {
+      setLinkKey(await getPrefillLinkKey(templateId, rotate));
+      if (rotate) toast.success('Link key replaced. Signed links made with the old key no longer work.');
+    } catch (error) {
+      console.error('Error loading link key:', error);
+      toast.error((error as Error).message || 'Failed to load the link key');
+    } finally {
+      setLoadingKey(false);
+    }
+  };
+
+  if (frames.length === 0) {
+    return (
+      <div className="py-12 text-center text-sm text-slate-500 px-4">
+        Add text frames to prefill them from a link.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Field keys */}
+      <div className="space-y-2 px-1">
+        <div className="flex items-center justify-between">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Field Keys</p>
+          {canEdit && frames.some(frame => !frame.key) && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onAssignMissingKeys}>
+              <Wand2 className="h-3.5 w-3.5 mr-1" />
+              Assign Missing
+            </Button>
+          )}
+        </div>
+        {frames.map(frame => {
+          const problem = frame.key && duplicates.has(frame.key) ? 'Used by another field'
+            : frame.key && !isValidFieldKey(frame.key) ? 'Use letters, digits and underscores' : null;
+          return (
+            <div key={frame.id} className="space-y-1">
+              <Label className="text-xs text-slate-500 truncate block">{frame.properties?.placeholder || 'Text field'}</Label>
+              <Input
+                value={frame.key || ''}
+                disabled={!canEdit}
+                onChange={(e) => onFieldKeyChange(frame.id, normalizeFieldKey(e.target.value) || undefined)}
+                placeholder="e.g. name"
+                className={`h-8 text-xs font-mono ${problem ? 'border-red-400' : ''}`}
+              />
+              {problem && <p className="text-xs text-red-500">{problem}</p>}
+            </div>
+          );
+        })}
+        <p className="text-xs text-slate-500">Save the template so the live link knows new keys.</p>
+      </div>
+
+      <Separator className="opacity-50" />
+
+      {/* Link builder */}
+      <div className="space-y-3 px-1">
+        <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Create a Link</p>
+        {keyedFrames.length === 0 ? (
+          <p className="text-xs text-slate-500">Give fields a key to prefill them.</p>
+        ) : (
+          keyedFrames.map(frame => (
+            <div key={frame.id} className="space-y-1">
+              <Label className="text-xs text-slate-500 font-mono">{frame.key}</Label>
+              <Input
+                value={values[frame.id] || ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [frame.id]: e.target.value }))}
+                placeholder={frame.properties?.placeholder || 'Value'}
+                className="h-8 text-xs"
+              />
+            </div>
+          ))
+        )}
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-xs text-slate-700 flex items-center gap-1.5"><Lock className="h-3.5 w-3.5" /> Lock values</Label>
+            <p className="text-[11px] text-slate-500">Signed link; people can't change these fields</p>
+          </div>
+          <Switch checked={locked} onCheckedChange={setLocked} disabled={!canEdit} />
+        </div>
+
+        {locked && (
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Button size="sm" className="w-full" disabled={creating || keyedFrames.length === 0} onClick={handleCreateLink}>
+          {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+          Create Link
+        </Button>
+
+        {link && (
+          <div className="flex gap-2">
+            <Input value={link} readOnly className="h-8 text-xs font-mono" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={() => copy(link, 'link')}>
+              {copied === 'link' ? <Check className="h-4 w-4 text-emerald-500" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {canEdit && (
+        <>
+          <Separator className="opacity-50" />
+
+          {/* Link key for registration systems */}
+          <div className="space-y-2 px-1">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Sign Links From Your System</p>
+            <p className="text-xs text-slate-500">
+              Base64url-encode <code className="font-mono">{'{"t":"<template id>","f":{"name":"Ama"},"e":<unix expiry>}'}</code>,
+              sign it with HMAC-SHA256 and this key, and add{' '}
+              <code className="font-mono">?{PREFILL_TOKEN_PARAM}=&lt;payload&gt;.&lt;base64url signature&gt;</code>.
+            </p>
+            {linkKey ? (
+              <div className="flex gap-2">
+                <Input value={linkKey} readOnly className="h-8 text-xs font-mono" onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={() => copy(linkKey, 'key')}>
+                  {copied === 'key' ? <Check className="h-4 w-4 text-emerald-500" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" className="w-full" disabled={loadingKey} onClick={() => loadKey(false)}>
+                {loadingKey ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+                Show Link Key
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full text-xs text-slate-500"
+              disabled={loadingKey}
+              onClick={() => setConfirmRotate(true)}
+            >
+              <RefreshCw className="h-3.5 w-3.5 mr-1" />
+              Replace Key
+            </Button>
+          </div>
+        </>
+      )}
+
+      <AlertDialog open={confirmRotate} onOpenChange={setConfirmRotate}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace the link key?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every signed link made with the current key stops working, including links your
+              registration system already sent. Plain prefilled links keep working.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => loadKey(true)}>Replace Key</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,15 +1,21 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Smartphone, Monitor, Download, Share2, Info } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import EnhancedCanvasEditor, { FrameData } from './EnhancedCanvasEditor';
+import { FrameData } from './EnhancedCanvasEditor';
+import { renderFlyer } from '@/lib/renderEngine';
+import { loadImage } from '@/lib/imageUtils';
+import { waitForFontLoad } from '@/lib/fontUtils';
+import { DEFAULT_CANVAS_SIZE } from '@/lib/canvasSize';
 
 interface PreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
   backgroundUrl: string;
   frames: FrameData[];
+  width?: number;
+  height?: number;
   templateName: string;
 }
 
@@ -18,9 +24,36 @@ export default function PreviewModal({
   onClose,
   backgroundUrl,
   frames,
+  width = DEFAULT_CANVAS_SIZE.width,
+  height = DEFAULT_CANVAS_SIZE.height,
   templateName
 }: PreviewModalProps) {
   const [device, setDevice] = useState<'mobile' | 'desktop'>('desktop');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Render the flyer exactly as the public generator will output it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!isOpen || !canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    renderFlyer(ctx, {
+      width,
+      height,
+      backgroundUrl,
+      frames,
+    }, {
+      loadImage,
+      waitForFont: waitForFontLoad,
+    }).catch(error => console.error('Error rendering preview:', error));
+  }, [isOpen, device, backgroundUrl, frames, width, height]);
 
   if (!isOpen) return null;
 
@@ -94,13 +127,10 @@ export default function PreviewModal({
               )}
 
               <div className="w-full h-full overflow-y-auto overflow-x-hidden bg-white">
-                <EnhancedCanvasEditor
-                  backgroundUrl={backgroundUrl}
-                  frames={frames}
-                  selectedFrameId={null}
-                  onFrameSelect={() => {}}
-                  onCanvasReady={() => {}}
-                  readOnly={true}
+                <canvas
+                  ref={canvasRef}
+                  className="w-full h-auto block"
+                  style={{ aspectRatio: `${width} / ${height}` }}
                 />
                 
                 {/* Mock End-User UI overlay components */}
@@ -1,5 +1,5 @@
-import { useState, useMemo } from 'react';
-import { Check, Search, ChevronDown } from 'lucide-react';
+import { useState, useMemo, useEffect } from 'react';
+import { Check, Search, ChevronDown, Italic } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import {
@@ -7,28 +7,36 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
-import {
-  Command,
-  CommandEmpty,
-  CommandGroup,
-  CommandInput,
-  CommandItem,
-  CommandList,
-} from '@/components/ui/command';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { FONT_CATEGORIES, getFontWeightLabel } from '@/lib/fontCatalog';
+import { loadCatalogFont, type FontOption } from '@/lib/fontUtils';
 
-interface FontOption {
-  value: string;
-  label: string;
-  style: string;
+export interface FontSelection {
+  family: string;
+  weight: number;
+  italic: boolean;
 }
 
 interface SearchableFontPickerProps {
   fonts: FontOption[];
-  value: string;
-  onValueChange: (value: string) => void;
+  value: FontSelection;
+  onValueChange: (value: FontSelection) => void;
 }
 
+const FILTERS = [
+  { value: 'all', label: 'All' },
+  { value: 'uploaded', label: 'Uploaded' },
+  ...FONT_CATEGORIES,
+  { value: 'system', label: 'System' },
+];
+
+// Closest weight the family has, preferring the lighter one on a tie
+const getClosestWeight = (weights: number[], weight: number) =>
+  weights.reduce((closest, candidate) =>
+    Math.abs(candidate - weight) < Math.abs(closest - weight) ? candidate : closest
+  , weights[0] ?? 400);
+
 export default function SearchableFontPicker({
   fonts,
   value,
@@ -36,72 +44,155 @@ export default function SearchableFontPicker({
 }: SearchableFontPickerProps) {
   const [open, setOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [filter, setFilter] = useState('all');
+
+  const filters = FILTERS.filter(option =>
+    option.value === 'all' ||
+    fonts.some(font => font.source === option.value || font.category === option.value)
+  );
 
   const filteredFonts = useMemo(() => {
-    if (!searchQuery) return fonts;
-    return fonts.filter(font => 
-      font.label.toLowerCase().includes(searchQuery.toLowerCase())
+    const query = searchQuery.trim().toLowerCase();
+    return fonts.filter(font =>
+      (filter === 'all' || font.source === filter || font.category === filter) &&
+      (!query || font.family.toLowerCase().includes(query))
     );
-  }, [fonts, searchQuery]);
+  }, [fonts, searchQuery, filter]);
 
-  const selectedFont = fonts.find(f => f.value === value) || fonts[0];
+  // Bundled families are fetched when the list opens so each previews in its own face
+  useEffect(() => {
+    if (!open) return;
+    fonts.filter(font => font.source === 'bundled').forEach(font => loadCatalogFont(font.family, ['normal']));
+  }, [open, fonts]);
+
+  const selectedFont = fonts.find(f => f.family === value.family);
+  const weights = selectedFont?.weights || [400, 700];
+  const canItalic = selectedFont ? selectedFont.italic : true;
+
+  const selectFamily = (font: FontOption) => {
+    onValueChange({
+      family: font.family,
+      weight: getClosestWeight(font.weights, value.weight),
+      italic: value.italic && font.italic,
+    });
+    setOpen(false);
+  };
 
   return (
-    <Popover open={open} onOpenChange={setOpen}>
-      <PopoverTrigger asChild>
-        <Button
-          variant="outline"
-          role="combobox"
-          aria-expanded={open}
-          className="w-full justify-between h-9 bg-white border-slate-200"
-        >
-          <span className="truncate" style={{ fontFamily: selectedFont?.value }}>
-            {selectedFont?.label || "Select font..."}
-          </span>
-          <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-        </Button>
-      </PopoverTrigger>
-      <PopoverContent className="w-[300px] p-0" align="start">
-        <div className="flex flex-col h-[400px]">
-          <div className="flex items-center border-b p-2">
-            <Search className="mr-2 h-4 w-4 shrink-0 opacity-50" />
-            <Input
-              placeholder="Search fonts..."
-              autoFocus
-              className="h-8 border-none bg-transparent focus-visible:ring-0 px-0"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-            />
-          </div>
-          <ScrollArea className="flex-1">
-            <div className="p-1">
-              {filteredFonts.length === 0 && (
-                <div className="py-6 text-center text-xs text-slate-500">
-                  No fonts found.
-                </div>
-              )}
-              {filteredFonts.map((font) => (
-                <div
-                  key={font.value}
-                  className={`
-                    flex items-center justify-between px-2 py-2 rounded-sm cursor-pointer hover:bg-slate-100 transition-colors
-                    ${value === font.value ? 'bg-slate-50 text-amber-600' : 'text-slate-700'}
-                  `}
-                  onClick={() => {
-                    onValueChange(font.value);
-                    setOpen(false);
-                  }}
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between h-9 bg-white border-slate-200"
+          >
+            <span
+              className="truncate"
+              style={{ fontFamily: `"${value.family}"`, fontWeight: value.weight, fontStyle: value.italic ? 'italic' : 'normal' }}
+            >
+              {value.family || "Select font..."}
+            </span>
+            <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[300px] p-0" align="start">
+          <div className="flex flex-col h-[400px]">
+            <div className="flex items-center border-b p-2">
+              <Search className="mr-2 h-4 w-4 shrink-0 opacity-50" />
+              <Input
+                placeholder="Search fonts..."
+                autoFocus
+                className="h-8 border-none bg-transparent focus-visible:ring-0 px-0"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-wrap gap-1 border-b p-2">
+              {filters.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  className={`rounded-full px-2 py-0.5 text-[11px] transition-colors ${
+                    filter === option.value ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                  onClick={() => setFilter(option.value)}
                 >
-                  <span style={{ fontFamily: font.value }} className="text-sm">
-                    {font.label}
-                  </span>
-                  {value === font.value && <Check className="h-4 w-4" />}
-                </div>
+                  {option.label}
+                </button>
               ))}
             </div>
-          </ScrollArea>
-        </div>
-      </PopoverContent>
-    </Popover>
+            <ScrollArea className="flex-1">
+              <div className="p-1">
+                {filteredFonts.length === 0 && (
+                  <div className="py-6 text-center text-xs text-slate-500">
+                    No fonts found.
+                  </div>
+                )}
+                {filteredFonts.map((font) => (
+                  <div
+                    key={font.family}
+                    className={`
+                      flex items-center justify-between px-2 py-2 rounded-sm cursor-pointer hover:bg-slate-100 transition-colors
+                      ${value.family === font.family ? 'bg-slate-50 text-amber-600' : 'text-slate-700'}
+                    `}
+                    onClick={() => selectFamily(font)}
+                  >
+                    <span style={{ fontFamily: `"${font.family}"` }} className="text-sm truncate">
+                      {font.family}
+                    </span>
+                    <span className="flex items-center gap-2 shrink-0">
+                      <span className="text-[10px] text-slate-400">
+                        {font.weights.length > 1 ? `${font.weights.length} weights` : '1 weight'}
+                        {font.italic && ' · italic'}
+                      </span>
+                      {value.family === font.family && <Check className="h-4 w-4" />}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {!selectedFont && value.family && (
+        <p className="text-[11px] text-amber-600">
+          {value.family} isn't available here, so a fallback font is used. Pick another font.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Select
+          value={String(getClosestWeight(weights, value.weight))}
+          onValueChange={(weight) => onValueChange({ ...value, weight: Number(weight) })}
+          disabled={weights.length < 2}
+        >
+          <SelectTrigger className="h-8 flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {weights.map(weight => (
+              <SelectItem key={weight} value={String(weight)}>
+                <span style={{ fontFamily: `"${value.family}"`, fontWeight: weight }}>
+                  {getFontWeightLabel(weight)} ({weight})
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant={value.italic ? 'default' : 'outline'}
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          disabled={!canItalic}
+          onClick={() => onValueChange({ ...value, italic: !value.italic })}
+          title={canItalic ? 'Italic' : 'This font has no italic'}
+        >
+          <Italic className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
   );
 }
@@ -4,7 +4,7 @@
  */
 
 import { useState, useRef, useEffect } from 'react';
-import { Upload, Image as ImageIcon, X } from 'lucide-react';
+import { Upload, Image as ImageIcon, X, RectangleHorizontal, RectangleVertical } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -19,6 +19,8 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { uploadImage } from '@/lib/supabase';
+import { CANVAS_PRESETS, CanvasSize, findCanvasPreset, validateCanvasSize } from '@/lib/canvasSize';
+import { DESIGN_DPI_OPTIONS, formatPhysicalSize, getPhysicalSize, getTemplateDesignDpi } from '@/lib/printExport';
 import { toast } from 'sonner';
 
 interface TemplateMetadataPanelProps {
@@ -27,11 +29,16 @@ interface TemplateMetadataPanelProps {
   description: string;
   tags: string[];
   backgroundUrl: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  printDpi: number | null;
   onNameChange: (name: string) => void;
   onTypeChange: (type: string) => void;
   onDescriptionChange: (description: string) => void;
   onTagsChange: (tags: string[]) => void;
   onBackgroundChange: (url: string) => void;
+  onCanvasSizeChange?: (size: CanvasSize) => void;
+  onPrintDpiChange?: (dpi: number | null) => void;
 }
 
 const templateTypes = [
@@ -51,13 +58,19 @@ export default function TemplateMetadataPanel({
   description,
   tags,
   backgroundUrl,
+  canvasWidth,
+  canvasHeight,
+  printDpi,
   onNameChange,
   onTypeChange,
   onDescriptionChange,
   onTagsChange,
   onBackgroundChange,
+  onCanvasSizeChange,
+  onPrintDpiChange,
 }: TemplateMetadataPanelProps) {
   const [uploading, setUploading] = useState(false);
+  const [customSize, setCustomSize] = useState({ width: String(canvasWidth), height: String(canvasHeight) });
   const [uploadKey, setUploadKey] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -136,6 +149,31 @@ export default function TemplateMetadataPanel({
     setUploadKey(prev => prev + 1);
   };
 
+  // Keep the custom size inputs in sync with the current canvas (e.g. after undo)
+  useEffect(() => {
+    setCustomSize({ width: String(canvasWidth), height: String(canvasHeight) });
+  }, [canvasWidth, canvasHeight]);
+
+  const currentPreset = findCanvasPreset({ width: canvasWidth, height: canvasHeight });
+  const designDpi = getTemplateDesignDpi({ print_dpi: printDpi }, { width: canvasWidth, height: canvasHeight });
+  const physicalSize = getPhysicalSize({ width: canvasWidth, height: canvasHeight }, designDpi);
+
+  const applyCanvasSize = (size: CanvasSize) => {
+    if (!onCanvasSizeChange) return;
+    const error = validateCanvasSize(size);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (size.width === canvasWidth && size.height === canvasHeight) return;
+    onCanvasSizeChange(size);
+  };
+
+  const handlePresetChange = (presetId: string) => {
+    const preset = CANVAS_PRESETS.find(p => p.id === presetId);
+    if (preset) applyCanvasSize({ width: preset.width, height: preset.height });
+  };
+
   // Cleanup file input on unmount
   useEffect(() => {
     return () => {
@@ -231,6 +269,108 @@ export default function TemplateMetadataPanel({
         </CardContent>
       </Card>
 
+      {/* Canvas Size */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm font-medium">Canvas Size</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="canvas-preset">Format</Label>
+            <Select
+              value={currentPreset?.id || 'custom'}
+              onValueChange={handlePresetChange}
+              disabled={!onCanvasSizeChange}
+            >
+              <SelectTrigger id="canvas-preset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CANVAS_PRESETS.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name} <span className="text-gray-500">· {preset.description}</span>
+                  </SelectItem>
+                ))}
+                <SelectItem value="custom" disabled>Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="canvas-width">Width (px)</Label>
+              <Input
+                id="canvas-width"
+                type="number"
+                value={customSize.width}
+                onChange={(e) => setCustomSize(prev => ({ ...prev, width: e.target.value }))}
+                disabled={!onCanvasSizeChange}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="canvas-height">Height (px)</Label>
+              <Input
+                id="canvas-height"
+                type="number"
+                value={customSize.height}
+                onChange={(e) => setCustomSize(prev => ({ ...prev, height: e.target.value }))}
+                disabled={!onCanvasSizeChange}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Swap orientation"
+              onClick={() => applyCanvasSize({ width: canvasHeight, height: canvasWidth })}
+              disabled={!onCanvasSizeChange}
+            >
+              {canvasWidth >= canvasHeight ? (
+                <RectangleVertical className="h-4 w-4" />
+              ) : (
+                <RectangleHorizontal className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => applyCanvasSize({ width: Number(customSize.width), height: Number(customSize.height) })}
+            disabled={!onCanvasSizeChange}
+          >
+            Apply Size
+          </Button>
+          <p className="text-xs text-gray-500">
+            Existing frames are scaled to the new size.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="print-dpi">Print Resolution</Label>
+            <Select
+              value={printDpi ? String(printDpi) : 'auto'}
+              onValueChange={(value) => onPrintDpiChange?.(value === 'auto' ? null : Number(value))}
+              disabled={!onPrintDpiChange}
+            >
+              <SelectTrigger id="print-dpi">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">
+                  Auto <span className="text-gray-500">· {getTemplateDesignDpi(null, { width: canvasWidth, height: canvasHeight })} DPI</span>
+                </SelectItem>
+                {DESIGN_DPI_OPTIONS.map((dpi) => (
+                  <SelectItem key={dpi} value={String(dpi)}>{dpi} DPI</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Prints at {formatPhysicalSize(physicalSize)} ({designDpi} DPI).
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Background Image */}
       <Card>
         <CardHeader>
@@ -315,7 +455,7 @@ export default function TemplateMetadataPanel({
           <CardTitle className="text-sm font-medium">Guidelines</CardTitle>
         </CardHeader>
         <CardContent className="text-xs text-gray-600 space-y-2">
-          <p>• Use high-resolution images (min 1200px width)</p>
+          <p>• Use high-resolution images (min {canvasWidth}px width)</p>
           <p>• Keep important content away from edges</p>
           <p>• Consider where users will place their content</p>
           <p>• Test with different text lengths</p>
@@ -0,0 +1,280 @@
+/**
+ * Version History Panel
+ * Timeline of saved versions with compare, restore, branch and share-link pinning
+ */
+
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { GitBranch, GitCompare, Loader2, Pin, PinOff, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  getTemplateVersion,
+  getTemplateVersions,
+  getVersionLabel,
+  type TemplateVersion,
+  type TemplateVersionSummary,
+} from '@/lib/templateVersions';
+import { toast } from 'sonner';
+
+interface VersionHistoryPanelProps {
+  templateId: string;
+  publishedVersionId: string | null;
+  canEdit: boolean;
+  /** Changes whenever the template is saved, so the timeline reloads */
+  refreshKey: string;
+  isComparing: boolean;
+  onCompare: (base: TemplateVersion, compare: TemplateVersion) => void;
+  onExitCompare: () => void;
+  onRestore: (version: TemplateVersionSummary) => Promise<void>;
+  onBranch: (version: TemplateVersionSummary) => Promise<void>;
+  onPublishedVersionChange: (versionId: string | null) => Promise<void>;
+}
+
+export default function VersionHistoryPanel({
+  templateId,
+  publishedVersionId,
+  canEdit,
+  refreshKey,
+  isComparing,
+  onCompare,
+  onExitCompare,
+  onRestore,
+  onBranch,
+  onPublishedVersionChange,
+}: VersionHistoryPanelProps) {
+  const [versions, setVersions] = useState<TemplateVersionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseId, setBaseId] = useState<string>('');
+  const [compareId, setCompareId] = useState<string>('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<TemplateVersionSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadVersions = async () => {
+      setLoading(true);
+      try {
+        const result = await getTemplateVersions(templateId);
+        if (cancelled) return;
+        setVersions(result);
+        // Default to comparing the latest save with the one before it
+        setCompareId(result[0]?.id || '');
+        setBaseId(result[1]?.id || result[0]?.id || '');
+      } catch (error) {
+        console.error('Error loading versions:', error);
+        toast.error('Failed to load version history');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, refreshKey]);
+
+  const handleCompare = async () => {
+    if (!baseId || !compareId) return;
+    setBusyId('compare');
+    try {
+      const [base, compare] = await Promise.all([getTemplateVersion(baseId), getTemplateVersion(compareId)]);
+      onCompare(base, compare);
+    } catch (error) {
+      console.error('Error comparing versions:', error);
+      toast.error('Failed to load versions for comparison');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const runAction = async (versionId: string, action: () => Promise<void>) => {
+    setBusyId(versionId);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  const pinnedVersion = versions.find(v => v.id === publishedVersionId);
+
+  return (
+    <div className="space-y-4">
+      {/* Compare */}
+      <div className="space-y-2 px-1">
+        <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Compare Versions</p>
+        <div className="grid grid-cols-2 gap-2">
+          {[
+            { value: baseId, onChange: setBaseId, label: 'From' },
+            { value: compareId, onChange: setCompareId, label: 'To' },
+          ].map(({ value, onChange, label }) => (
+            <Select key={label} value={value} onValueChange={onChange}>
+              <SelectTrigger className="h-9 text-xs">
+                <SelectValue placeholder={label} />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(version => (
+                  <SelectItem key={version.id} value={version.id}>
+                    {label} {getVersionLabel(version)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
+        {isComparing ? (
+          <Button variant="outline" size="sm" className="w-full" onClick={onExitCompare}>
+            <X className="h-4 w-4 mr-2" />
+            Exit Comparison
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={versions.length < 2 || baseId === compareId || busyId === 'compare'}
+            onClick={handleCompare}
+          >
+            <GitCompare className="h-4 w-4 mr-2" />
+            Show Changes on Canvas
+          </Button>
+        )}
+      </div>
+
+      <Separator className="opacity-50" />
+
+      {/* Share link */}
+      <div className="px-1 flex items-center justify-between gap-2">
+        <div>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Share Link Serves</p>
+          <p className="text-sm font-medium text-slate-900">
+            {pinnedVersion ? `${getVersionLabel(pinnedVersion)} (pinned)` : 'Latest save'}
+          </p>
+        </div>
+        {pinnedVersion && canEdit && (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={busyId === pinnedVersion.id}
+            onClick={() => runAction(pinnedVersion.id, () => onPublishedVersionChange(null))}
+          >
+            <PinOff className="h-4 w-4 mr-1" />
+            Unpin
+          </Button>
+        )}
+      </div>
+
+      <Separator className="opacity-50" />
+
+      {/* Timeline */}
+      <div className="space-y-2 px-1">
+        <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+          History ({versions.length})
+        </p>
+        {versions.length === 0 && (
+          <p className="text-xs text-slate-500">Versions appear here after the first save.</p>
+        )}
+        {versions.map((version, index) => (
+          <div key={version.id} className="p-3 rounded-xl border border-slate-200 bg-white space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-bold text-slate-900">{getVersionLabel(version)}</span>
+              {index === 0 && <Badge variant="secondary" className="text-[10px]">Latest</Badge>}
+              {version.id === publishedVersionId && (
+                <Badge className="text-[10px] bg-emerald-500 hover:bg-emerald-500">Live</Badge>
+              )}
+              <span className="ml-auto text-[11px] text-slate-400">
+                {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+              </span>
+            </div>
+            <p className="text-xs text-slate-500 truncate">{version.name}</p>
+            {canEdit && (
+              <div className="flex gap-1">
+                {index > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={busyId === version.id}
+                    onClick={() => setRestoreTarget(version)}
+                  >
+                    <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                    Restore
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  disabled={busyId === version.id}
+                  onClick={() => runAction(version.id, () => onBranch(version))}
+                >
+                  <GitBranch className="h-3.5 w-3.5 mr-1" />
+                  Branch
+                </Button>
+                {version.id !== publishedVersionId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={busyId === version.id}
+                    onClick={() => runAction(version.id, () => onPublishedVersionChange(version.id))}
+                  >
+                    <Pin className="h-3.5 w-3.5 mr-1" />
+                    Pin to Link
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore {restoreTarget && getVersionLabel(restoreTarget)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The template is saved as a new version with this content. Unsaved changes in the
+              editor are discarded; earlier versions stay in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                const target = restoreTarget;
+                setRestoreTarget(null);
+                if (target) runAction(target.id, () => onRestore(target));
+              }}
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -10,7 +10,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useSubscription } from '@/hooks/useSubscription';
-import { canAccessFeature, getFeatureLimits, SUBSCRIPTION_FEATURES } from '@/lib/featureGating';
+import { getFeatureGate, getFeatureLimits } from '@/lib/featureGating';
+import { getPlan } from '@/lib/plans';
 
 interface FeatureGateProps {
   feature: string;
@@ -52,17 +53,7 @@ const UpgradePrompt: React.FC<UpgradePromptProps> = ({ feature, requiredTier, me
     }
   };
 
-  const getTierName = (tier: string) => {
-    switch (tier) {
-      case 'free': return 'Free';
-      case 'student_pro': return 'Student Pro';
-      case 'creator_pro': return 'Creator Pro';
-      case 'department': return 'Department Plan';
-      case 'church': return 'Church Plan';
-      case 'faculty': return 'Faculty Plan';
-      default: return 'Free';
-    }
-  };
+  const tierName = getPlan(requiredTier).name;
 
   return (
     <motion.div
@@ -78,7 +69,7 @@ const UpgradePrompt: React.FC<UpgradePromptProps> = ({ feature, requiredTier, me
             </div>
           </div>
           <CardTitle className="text-lg font-bold text-amber-800">
-            {feature} Requires {getTierName(requiredTier)}
+            {feature} Requires {tierName}
           </CardTitle>
           <CardDescription className="text-amber-700">
             {message}
@@ -88,8 +79,7 @@ const UpgradePrompt: React.FC<UpgradePromptProps> = ({ feature, requiredTier, me
         <CardContent className="text-center space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
             {(() => {
-              const limits = SUBSCRIPTION_FEATURES[requiredTier];
-              if (!limits) return null;
+              const limits = getFeatureLimits(requiredTier);
               
               return (
                 <>
@@ -114,7 +104,7 @@ const UpgradePrompt: React.FC<UpgradePromptProps> = ({ feature, requiredTier, me
             onClick={onUpgrade}
             className="w-full bg-gradient-to-r from-amber-400 to-yellow-500 hover:from-amber-500 hover:to-yellow-600 text-white"
           >
-            Upgrade to {getTierName(requiredTier)}
+            Upgrade to {tierName}
           </Button>
         </CardContent>
       </Card>
@@ -129,10 +119,10 @@ export const FeatureGate: React.FC<FeatureGateProps> = ({
   showUpgradePrompt = true,
   className = ''
 }) => {
-  const { currentPlan, usageStats, canPerformAction } = useSubscription();
+  const { canPerformAction } = useSubscription();
 
   // Check if user can access the feature
-  const hasAccess = canPerformAction(feature as any);
+  const hasAccess = canPerformAction(feature);
 
   // If user has access, render children
   if (hasAccess) {
@@ -145,54 +135,9 @@ export const FeatureGate: React.FC<FeatureGateProps> = ({
   }
 
   // Get feature requirements
-  const getRequiredTier = (feature: string): string => {
-    switch (feature) {
-      case 'create_template':
-        return 'free';
-      case 'export_template':
-        return 'free';
-      case 'upload_font':
-        return 'student_pro';
-      case 'pdf_export':
-        return 'creator_pro';
-      case 'high_res_export':
-        return 'student_pro';
-      case 'bulk_generation':
-        return 'department';
-      case 'white_label':
-        return 'church';
-      case 'api_access':
-        return 'faculty';
-      default:
-        return 'free';
-    }
-  };
-
-  const getFeatureMessage = (feature: string): string => {
-    switch (feature) {
-      case 'create_template':
-        return 'You can create templates with your current plan.';
-      case 'export_template':
-        return 'You can export templates with your current plan.';
-      case 'upload_font':
-        return 'Custom font uploads require Student Pro or higher.';
-      case 'pdf_export':
-        return 'PDF export requires Creator Pro or higher.';
-      case 'high_res_export':
-        return 'High-resolution exports require Student Pro or higher.';
-      case 'bulk_generation':
-        return 'Bulk generation requires Department plan or higher.';
-      case 'white_label':
-        return 'White label features require Church plan or higher.';
-      case 'api_access':
-        return 'API access requires Faculty plan or higher.';
-      default:
-        return 'This feature requires a higher subscription tier.';
-    }
-  };
-
-  const requiredTier = getRequiredTier(feature);
-  const message = getFeatureMessage(feature);
+  const gate = getFeatureGate(feature);
+  const requiredTier = gate?.requiredTier || 'free';
+  const message = gate?.message || 'This feature requires a higher subscription tier.';
 
   const handleUpgrade = () => {
     window.location.href = '/dashboard/subscription';
@@ -228,8 +173,8 @@ export function useFeatureGate(feature: string) {
   const { canPerformAction } = useSubscription();
   
   return {
-    hasAccess: canPerformAction(feature as any),
-    checkAccess: () => canPerformAction(feature as any),
+    hasAccess: canPerformAction(feature),
+    checkAccess: () => canPerformAction(feature),
   };
 }
 
@@ -10,7 +10,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useSubscription } from '@/hooks/useSubscription';
-import { SUBSCRIPTION_PLANS, EVENT_PACKAGES } from '@/integrations/paystack/client';
+import { usePlans } from '@/hooks/usePlans';
+import { getNextPlan } from '@/lib/plans';
 import { toast } from 'sonner';
 
 interface UpgradePromptProps {
@@ -33,6 +34,7 @@ export default function UpgradePrompt({
   showPlans = true,
 }: UpgradePromptProps) {
   const { upgradeSubscription, processingPayment } = useSubscription();
+  const { plans, packages, getPlan } = usePlans();
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
 
   const handleUpgrade = async (planId: string) => {
@@ -68,16 +70,10 @@ export default function UpgradePrompt({
     }
   };
 
-  const getUpgradeRecommendation = () => {
-    if (currentTier === 'free') return 'student_pro';
-    if (currentTier === 'student_pro') return 'creator_pro';
-    if (currentTier === 'creator_pro') return 'department';
-    if (currentTier === 'department') return 'church';
-    if (currentTier === 'church') return 'faculty';
-    return 'creator_pro';
-  };
-
-  const recommendedPlan = getUpgradeRecommendation();
+  // The plan that unlocks the feature, otherwise the next tier up
+  const recommendedPlan = requiredTier && requiredTier !== currentTier
+    ? requiredTier
+    : getNextPlan(currentTier)?.id;
 
   return (
     <AnimatePresence>
@@ -127,7 +123,7 @@ export default function UpgradePrompt({
                 {/* Current Plan Status */}
                 <div className="text-center">
                   <Badge variant="outline" className="text-sm">
-                    Current: {SUBSCRIPTION_PLANS[currentTier as keyof typeof SUBSCRIPTION_PLANS]?.name || 'Free'}
+                    Current: {getPlan(currentTier).name}
                   </Badge>
                 </div>
 
@@ -139,28 +135,28 @@ export default function UpgradePrompt({
                     </h3>
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                      {Object.entries(SUBSCRIPTION_PLANS)
-                        .filter(([planId]) => planId !== currentTier)
-                        .map(([planId, plan]) => (
+                      {plans
+                        .filter((plan) => plan.id !== currentTier)
+                        .map((plan) => (
                           <Card
-                            key={planId}
+                            key={plan.id}
                             className={`relative cursor-pointer transition-all duration-300 hover:shadow-lg ${
-                              selectedPlan === planId ? 'ring-2 ring-amber-400' : ''
-                            } ${planId === recommendedPlan ? 'ring-2 ring-green-400' : ''}`}
-                            onClick={() => setSelectedPlan(planId)}
+                              selectedPlan === plan.id ? 'ring-2 ring-amber-400' : ''
+                            } ${plan.id === recommendedPlan ? 'ring-2 ring-green-400' : ''}`}
+                            onClick={() => setSelectedPlan(plan.id)}
                           >
-                            {planId === recommendedPlan && (
+                            {plan.id === recommendedPlan && (
                               <Badge className="absolute top-2 right-2 bg-green-500 text-white">
                                 Recommended
                               </Badge>
                             )}
                             
-                            <CardHeader className={`bg-gradient-to-br ${getFeatureColor(planId)} pb-6`}>
+                            <CardHeader className={`bg-gradient-to-br ${getFeatureColor(plan.id)} pb-6`}>
                               <div className="flex items-center justify-between mb-4">
                                 <div className={`p-2 rounded-lg bg-white/80`}>
-                                  {getFeatureIcon(planId)}
+                                  {getFeatureIcon(plan.id)}
                                 </div>
-                                {planId === 'creator_pro' && (
+                                {plan.isFeatured && (
                                   <Badge variant="secondary" className="bg-purple-100 text-purple-800">
                                     Most Popular
                                   </Badge>
@@ -176,7 +172,7 @@ export default function UpgradePrompt({
                                   {plan.price === 0 ? 'Free' : `₵${plan.price}`}
                                 </span>
                                 {plan.price > 0 && (
-                                  <span className="text-gray-600">/month</span>
+                                  <span className="text-gray-600">/{plan.interval}</span>
                                 )}
                               </div>
                             </CardHeader>
@@ -209,9 +205,9 @@ export default function UpgradePrompt({
                   </h3>
                   
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                    {Object.entries(EVENT_PACKAGES).map(([packageId, eventPackage]) => (
+                    {packages.map((eventPackage) => (
                       <Card
-                        key={packageId}
+                        key={eventPackage.id}
                         className="relative cursor-pointer transition-all duration-300 hover:shadow-lg"
                       >
                         <CardHeader className="bg-gradient-to-br from-blue-100 to-indigo-200 pb-6">
@@ -260,7 +256,7 @@ export default function UpgradePrompt({
                       onClick={() => handleUpgrade(selectedPlan)}
                       disabled={processingPayment}
                     >
-                      {processingPayment ? 'Processing...' : `Upgrade to ${SUBSCRIPTION_PLANS[selectedPlan as keyof typeof SUBSCRIPTION_PLANS]?.name}`}
+                      {processingPayment ? 'Processing...' : `Upgrade to ${getPlan(selectedPlan).name}`}
                     </Button>
                   )}
                   
@@ -0,0 +1,334 @@
+/**
+ * Collaborative Editor Hook
+ * Editor state shared live with everyone else in the same template. Undo and redo step
+ * through the current user's own changes only, so they never revert a collaborator's work.
+ */
+
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import {
+  applyOperation,
+  diffDocuments,
+  getCollaboratorColor,
+  getOperationKey,
+  invertOperation,
+  isNewerStamp,
+  joinCollaborationChannel,
+  type CollaborationChannel,
+  type CollaborationEvent,
+  type CollaborativeDocument,
+  type CollaboratorPresence,
+  type CursorPosition,
+  type Operation,
+  type OperationBody,
+  type OperationStamp,
+} from '@/lib/collaboration';
+
+interface CollaborationUser {
+  id: string;
+  name: string;
+}
+
+const BROADCAST_INTERVAL_MS = 40;
+const CURSOR_INTERVAL_MS = 50;
+const MAX_UNDO_STEPS = 50;
+
+export function useCollaborativeEditor<T extends CollaborativeDocument>(
+  initialState: T,
+  { templateId, user }: { templateId: string | null; user: CollaborationUser | null }
+) {
+  const [present, setPresent] = useState<T>(initialState);
+  const presentRef = useRef<T>(initialState);
+  const sessionId = useMemo(() => crypto.randomUUID(), []);
+
+  const clockRef = useRef(0);
+  const stampsRef = useRef(new Map<string, OperationStamp>());
+  const undoRef = useRef<OperationBody[][]>([]);
+  const redoRef = useRef<OperationBody[][]>([]);
+  // Inverses of changes since the last undo step, by the key they touch (first change wins)
+  const pendingInverseRef = useRef(new Map<string, OperationBody>());
+
+  const channelRef = useRef<CollaborationChannel | null>(null);
+  const connectedRef = useRef(false);
+  const outboxRef = useRef(new Map<string, Operation>());
+  const flushTimerRef = useRef<number | null>(null);
+  const syncedRef = useRef(false);
+  const presenceRef = useRef<Pick<CollaboratorPresence, 'pageId' | 'selectedFrameId'>>({ pageId: null, selectedFrameId: null });
+  const lastCursorSentRef = useRef(0);
+
+  const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
+  const [cursors, setCursors] = useState<Record<string, CursorPosition>>({});
+  const [connected, setConnected] = useState(false);
+
+  const replacePresent = useCallback((next: T) => {
+    presentRef.current = next;
+    setPresent(next);
+  }, []);
+
+  const flush = useCallback(() => {
+    if (flushTimerRef.current !== null) {
+      window.clearTimeout(flushTimerRef.current);
+      flushTimerRef.current = null;
+    }
+    if (!channelRef.current || !connectedRef.current || outboxRef.current.size === 0) return;
+
+    const ops = Array.from(outboxRef.current.values());
+    outboxRef.current.clear();
+    channelRef.current.send({ event: 'ops', payload: { ops } });
+  }, []);
+
+  /**
+   * Stamp local operations and queue them for the channel. Only the latest write to each
+   * key is sent, which keeps drags from flooding the channel.
+   */
+  const publish = useCallback((bodies: OperationBody[]) => {
+    bodies.forEach(body => {
+      const op = { ...body, clock: ++clockRef.current, sessionId } as Operation;
+      const key = getOperationKey(body);
+      stampsRef.current.set(key, { clock: op.clock, sessionId });
+      // Re-queue at the end so operations on one key are sent in the order they happened
+      outboxRef.current.delete(key);
+      outboxRef.current.set(key, op);
+    });
+
+    if (flushTimerRef.current === null) {
+      flushTimerRef.current = window.setTimeout(flush, BROADCAST_INTERVAL_MS);
+    }
+  }, [sessionId, flush]);
+
+  const commitUndoStep = useCallback(() => {
+    if (pendingInverseRef.current.size === 0) return;
+    undoRef.current.push(Array.from(pendingInverseRef.current.values()).reverse());
+    if (undoRef.current.length > MAX_UNDO_STEPS) undoRef.current.shift();
+    redoRef.current = [];
+    pendingInverseRef.current.clear();
+  }, []);
+
+  const setState = useCallback((updater: T | ((prev: T) => T), saveToHistory: boolean = true) => {
+    const prev = presentRef.current;
+    const next = typeof updater === 'function' ? (updater as (prev: T) => T)(prev) : updater;
+    const bodies = diffDocuments(prev, next);
+
+    bodies.forEach(body => {
+      // Typing into metadata fields isn't an undo step; drags are, once they end
+      if (!saveToHistory && body.type === 'meta.set') return;
+      const key = getOperationKey(body);
+      if (pendingInverseRef.current.has(key)) return;
+      const inverse = invertOperation(prev, body);
+      if (inverse) pendingInverseRef.current.set(key, inverse);
+    });
+
+    if (bodies.length > 0) {
+      replacePresent(next);
+      publish(bodies);
+    }
+    if (saveToHistory) commitUndoStep();
+  }, [replacePresent, publish, commitUndoStep]);
+
+  /**
+   * Apply one undo or redo step and return the step that reverses it. Changes to frames
+   * a collaborator has since deleted are skipped.
+   */
+  const applyStep = useCallback((step: OperationBody[]): OperationBody[] => {
+    let doc = presentRef.current;
+    const applied: OperationBody[] = [];
+    const inverses: OperationBody[] = [];
+
+    step.forEach(body => {
+      const inverse = invertOperation(doc, body);
+      if (!inverse) return;
+      doc = applyOperation(doc, body);
+      applied.push(body);
+      inverses.push(inverse);
+    });
+
+    replacePresent(doc);
+    publish(applied);
+    return inverses.reverse();
+  }, [replacePresent, publish]);
+
+  const undo = useCallback(() => {
+    commitUndoStep();
+    const step = undoRef.current.pop();
+    if (!step) return;
+    const inverse = applyStep(step);
+    if (inverse.length > 0) redoRef.current.push(inverse);
+  }, [applyStep, commitUndoStep]);
+
+  const redo = useCallback(() => {
+    const step = redoRef.current.pop();
+    if (!step) return;
+    const inverse = applyStep(step);
+    if (inverse.length > 0) undoRef.current.push(inverse);
+  }, [applyStep]);
+
+  /**
+   * Replace the document without an undo step or broadcast, e.g. after loading from the
+   * database. Collaborators who are already editing are asked for their newer copy.
+   */
+  const resetHistory = useCallback((newState: T) => {
+    replacePresent(newState);
+    undoRef.current = [];
+    redoRef.current = [];
+    pendingInverseRef.current.clear();
+    stampsRef.current.clear();
+    outboxRef.current.clear();
+    syncedRef.current = false;
+    if (connectedRef.current) {
+      channelRef.current?.send({ event: 'sync_request', payload: { sessionId } });
+    }
+  }, [replacePresent, sessionId]);
+
+  const receiveOperations = useCallback((ops: Operation[]) => {
+    let doc = presentRef.current;
+    ops.forEach(op => {
+      clockRef.current = Math.max(clockRef.current, op.clock);
+      const key = getOperationKey(op);
+      if (!isNewerStamp(op, stampsRef.current.get(key))) return;
+      stampsRef.current.set(key, { clock: op.clock, sessionId: op.sessionId });
+      doc = applyOperation(doc, op);
+    });
+    replacePresent(doc);
+  }, [replacePresent]);
+
+  const handleEvent = useCallback((message: CollaborationEvent) => {
+    switch (message.event) {
+      case 'ops':
+        receiveOperations(message.payload.ops);
+        break;
+      case 'cursor': {
+        const { sessionId: from, pageId, x, y } = message.payload;
+        setCursors(prev => {
+          const next = { ...prev };
+          if (pageId) {
+            next[from] = { sessionId: from, pageId, x, y };
+          } else {
+            delete next[from];
+          }
+          return next;
+        });
+        break;
+      }
+      case 'sync_request':
+        channelRef.current?.send({
+          event: 'sync_state',
+          payload: {
+            to: message.payload.sessionId,
+            document: presentRef.current,
+            stamps: Array.from(stampsRef.current.entries()),
+            clock: clockRef.current,
+          },
+        });
+        break;
+      case 'sync_state':
+        // The first answer wins; everyone in the channel has the same document
+        if (message.payload.to !== sessionId || syncedRef.current) return;
+        syncedRef.current = true;
+        clockRef.current = Math.max(clockRef.current, message.payload.clock);
+        stampsRef.current = new Map(message.payload.stamps);
+        replacePresent(message.payload.document as T);
+        break;
+    }
+  }, [receiveOperations, replacePresent, sessionId]);
+
+  const userId = user?.id;
+  const userName = user?.name;
+
+  useEffect(() => {
+    if (!templateId || !userId) return;
+
+    const channel = joinCollaborationChannel(
+      templateId,
+      {
+        sessionId,
+        userId,
+        name: userName || 'Someone',
+        color: getCollaboratorColor(userId),
+        ...presenceRef.current,
+      },
+      {
+        onEvent: handleEvent,
+        onPresence: (list) => setCollaborators(list.filter(p => p.sessionId !== sessionId)),
+        onStatus: (isConnected) => {
+          connectedRef.current = isConnected;
+          setConnected(isConnected);
+          if (!isConnected) return;
+          if (!syncedRef.current) {
+            channelRef.current?.send({ event: 'sync_request', payload: { sessionId } });
+          }
+          flush();
+        },
+      }
+    );
+    channelRef.current = channel;
+
+    return () => {
+      channel.leave();
+      channelRef.current = null;
+      connectedRef.current = false;
+      syncedRef.current = false;
+      setConnected(false);
+      setCollaborators([]);
+      setCursors({});
+    };
+  }, [templateId, userId, userName, sessionId, handleEvent, flush]);
+
+  useEffect(() => () => {
+    if (flushTimerRef.current !== null) window.clearTimeout(flushTimerRef.current);
+  }, []);
+
+  /**
+   * Share which page and frame the user is working on
+   */
+  const updatePresence = useCallback((pageId: string | null, selectedFrameId: string | null) => {
+    const current = presenceRef.current;
+    if (current.pageId === pageId && current.selectedFrameId === selectedFrameId) return;
+    presenceRef.current = { pageId, selectedFrameId };
+
+    if (!channelRef.current || !userId) return;
+    channelRef.current.track({
+      sessionId,
+      userId,
+      name: userName || 'Someone',
+      color: getCollaboratorColor(userId),
+      pageId,
+      selectedFrameId,
+    });
+  }, [sessionId, userId, userName]);
+
+  /**
+   * Share the user's cursor position in template coordinates, or null when it leaves the canvas
+   */
+  const moveCursor = useCallback((pageId: string, point: { x: number; y: number } | null) => {
+    if (!channelRef.current || !connectedRef.current) return;
+    const now = Date.now();
+    if (point && now - lastCursorSentRef.current < CURSOR_INTERVAL_MS) return;
+    lastCursorSentRef.current = now;
+
+    channelRef.current.send({
+      event: 'cursor',
+      payload: point
+        ? { sessionId, pageId, x: point.x, y: point.y }
+        : { sessionId, pageId: null, x: 0, y: 0 },
+    });
+  }, [sessionId]);
+
+  const visibleCursors = useMemo(
+    () => Object.values(cursors).filter(cursor => collaborators.some(c => c.sessionId === cursor.sessionId)),
+    [cursors, collaborators]
+  );
+
+  return {
+    state: present,
+    setState,
+    undo,
+    redo,
+    canUndo: undoRef.current.length > 0 || pendingInverseRef.current.size > 0,
+    canRedo: redoRef.current.length > 0,
+    resetHistory,
+    collaborators,
+    cursors: visibleCursors,
+    connected,
+    updatePresence,
+    moveCursor,
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Plans Hook
+ * Loads the plan catalog from the database and re-renders when it changes
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  getCachedCatalog,
+  getPlan,
+  loadPlans,
+  subscribeToPlans,
+  type PlanCatalog,
+} from '@/lib/plans';
+
+export function usePlans() {
+  const [catalog, setCatalog] = useState<PlanCatalog | null>(getCachedCatalog);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToPlans(setCatalog);
+
+    loadPlans()
+      .then(setCatalog)
+      .catch((loadError) => {
+        console.error('Error loading plans:', loadError);
+        setError(loadError);
+      });
+
+    return unsubscribe;
+  }, []);
+
+  /**
+   * Reload plans, e.g. after an operator has changed prices
+   */
+  const refreshPlans = useCallback(async () => {
+    try {
+      setError(null);
+      await loadPlans(true);
+    } catch (loadError) {
+      console.error('Error refreshing plans:', loadError);
+      setError(loadError as Error);
+    }
+  }, []);
+
+  const plans = useMemo(() => (catalog?.plans || []).filter((plan) => plan.isPublic), [catalog]);
+
+  return {
+    plans,
+    packages: catalog?.packages || [],
+    loading: !catalog && !error,
+    error,
+    getPlan,
+    refreshPlans,
+  };
+}
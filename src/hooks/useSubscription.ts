@@ -5,39 +5,18 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from './useAuth';
+import { usePlans } from './usePlans';
 import { supabase } from '@/integrations/supabase/client';
 import { 
-  SUBSCRIPTION_PLANS, 
-  EVENT_PACKAGES,
   initializePayment,
   verifyPayment,
-  generateReference,
   formatAmount
 } from '@/integrations/paystack/client';
+import { canAccessFeature } from '@/lib/featureGating';
+import { FREE_PLAN_ID, type Plan } from '@/lib/plans';
 import { toast } from 'sonner';
 
-export interface SubscriptionPlan {
-  id: string;
-  name: string;
-  price: number;
-  currency: string;
-  interval: string;
-  features: string[];
-  limits: {
-    templates: number;
-    exports: number;
-    storage: string;
-  };
-}
-
-export interface EventPackage {
-  id: string;
-  name: string;
-  price: number;
-  currency: string;
-  description: string;
-  includes: string[];
-}
+export type SubscriptionPlan = Plan;
 
 export interface UserSubscription {
   id: string;
@@ -59,7 +38,9 @@ export interface UsageStats {
 
 export function useSubscription() {
   const { user, profile } = useAuth();
-  const [currentPlan, setCurrentPlan] = useState<SubscriptionPlan>(SUBSCRIPTION_PLANS.FREE);
+  const { plans, packages, getPlan } = usePlans();
+  const [currentPlanId, setCurrentPlanId] = useState<string>(FREE_PLAN_ID);
+  const currentPlan: SubscriptionPlan = getPlan(currentPlanId);
   const [userSubscription, setUserSubscription] = useState<UserSubscription | null>(null);
   const [usageStats, setUsageStats] = useState<UsageStats | null>(null);
   const [loading, setLoading] = useState(false);
@@ -69,15 +50,15 @@ export function useSubscription() {
    * Get available subscription plans
    */
   const getAvailablePlans = useCallback(() => {
-    return Object.values(SUBSCRIPTION_PLANS);
-  }, []);
+    return plans;
+  }, [plans]);
 
   /**
    * Get available event packages
    */
   const getAvailablePackages = useCallback(() => {
-    return Object.values(EVENT_PACKAGES);
-  }, []);
+    return packages;
+  }, [packages]);
 
   /**
    * Get current user's subscription
@@ -149,7 +130,7 @@ export function useSubscription() {
   /**
    * Check if user can perform an action
    */
-  const canPerformAction = useCallback((action: 'create_template' | 'export_template' | 'upload_font') => {
+  const canPerformAction = useCallback((action: string) => {
     if (!usageStats) return false;
 
     switch (action) {
@@ -162,10 +143,10 @@ export function useSubscription() {
                usageStats.monthly_exports < usageStats.monthly_exports_limit;
       
       case 'upload_font':
-        return currentPlan.id !== 'free';
+        return currentPlan.entitlements.customFonts;
       
       default:
-        return false;
+        return canAccessFeature(action, currentPlan.id);
     }
   }, [usageStats, currentPlan]);
 
@@ -178,14 +159,7 @@ export function useSubscription() {
       return;
     }
 
-    // Try to find plan by ID (handle both uppercase keys and lowercase IDs)
-    let plan = SUBSCRIPTION_PLANS[planId.toUpperCase() as keyof typeof SUBSCRIPTION_PLANS];
-    
-    // If not found by uppercase key, try to find by the internal id field
-    if (!plan) {
-      plan = Object.values(SUBSCRIPTION_PLANS).find(p => p.id === planId);
-    }
-    
+    const plan = plans.find(p => p.id === planId.toLowerCase());
     if (!plan) {
       toast.error('Invalid plan selected');
       return;
@@ -194,25 +168,17 @@ export function useSubscription() {
     setProcessingPayment(true);
 
     try {
-      const reference = generateReference('SUB');
-      const callbackUrl = `${window.location.origin}/dashboard/subscription/success?reference=${reference}`;
+      const callbackUrl = `${window.location.origin}/dashboard/subscription/success`;
 
-      // Initialize payment
+      // Initialize payment; the amount is taken from the plan server-side
       const paymentData = await initializePayment({
-        email: user.email!,
-        amount: plan.price,
-        reference,
+        plan_id: plan.id,
         callback_url: callbackUrl,
-        metadata: {
-          plan_id: planId.toUpperCase(), // Use uppercase plan ID to ensure consistency
-          user_id: user.id,
-          plan_name: plan.name,
-        },
       });
 
-      if (paymentData.status && paymentData.data?.authorization_url) {
+      if (paymentData?.authorization_url) {
         // Redirect to Paystack payment page
-        window.location.href = paymentData.data.authorization_url;
+        window.location.href = paymentData.authorization_url;
       } else {
         throw new Error('Payment initialization failed');
       }
@@ -222,7 +188,7 @@ export function useSubscription() {
     } finally {
       setProcessingPayment(false);
     }
-  }, [user]);
+  }, [user, plans]);
 
   /**
    * Purchase event package
@@ -233,7 +199,7 @@ export function useSubscription() {
       return;
     }
 
-    const eventPackage = EVENT_PACKAGES[packageId as keyof typeof EVENT_PACKAGES];
+    const eventPackage = packages.find(p => p.id === packageId.toLowerCase());
     if (!eventPackage) {
       toast.error('Invalid package selected');
       return;
@@ -242,25 +208,17 @@ export function useSubscription() {
     setProcessingPayment(true);
 
     try {
-      const reference = generateReference('EVT');
-      const callbackUrl = `${window.location.origin}/dashboard/subscription/success?reference=${reference}`;
+      const callbackUrl = `${window.location.origin}/dashboard/subscription/success`;
 
-      // Initialize payment
+      // Initialize payment; the amount is taken from the package server-side
       const paymentData = await initializePayment({
-        email: user.email!,
-        amount: eventPackage.price,
-        reference,
+        package_id: eventPackage.id,
         callback_url: callbackUrl,
-        metadata: {
-          package_id: packageId,
-          user_id: user.id,
-          package_name: eventPackage.name,
-        },
       });
 
-      if (paymentData.status && paymentData.data?.authorization_url) {
+      if (paymentData?.authorization_url) {
         // Redirect to Paystack payment page
-        window.location.href = paymentData.data.authorization_url;
+        window.location.href = paymentData.authorization_url;
       } else {
         throw new Error('Payment initialization failed');
       }
@@ -270,10 +228,10 @@ export function useSubscription() {
     } finally {
       setProcessingPayment(false);
     }
-  }, [user]);
+  }, [user, packages]);
 
   /**
-   * Verify payment and update subscription
+   * Verify payment; the Edge Function applies the plan or package
    */
   const verifyPaymentAndUpdate = useCallback(async (reference: string, options?: { silent?: boolean }) => {
     if (!user) return false;
@@ -281,35 +239,24 @@ export function useSubscription() {
     try {
       setLoading(true);
 
-      // Verify payment with Paystack
+      // Verify payment with Paystack and update the subscription server-side
       const verificationResult = await verifyPayment(reference);
-      
-      if (verificationResult.status && verificationResult.data?.status === 'success') {
-        const metadata = verificationResult.data.metadata;
-        const planId = metadata?.plan_id;
-        const packageId = metadata?.package_id;
-
-        if (planId) {
-          // Update subscription
-          await updateUserSubscription(planId, reference);
-          // Force refresh of subscription data
-          await refreshSubscriptionData();
-          // Optional success toast (disabled when called with silent)
-          if (!options?.silent) {
-            toast.success('Subscription upgraded successfully!');
-          }
-          return true;
-        } else if (packageId) {
-          // Process event package purchase
-          await processEventPackagePurchase(packageId, reference);
-          if (!options?.silent) {
-            toast.success('Event package purchased successfully!');
-          }
-          return true;
-        }
-      } else {
+
+      if (verificationResult?.status !== 'success') {
         throw new Error('Payment verification failed');
       }
+
+      if (verificationResult.plan_id) {
+        // Force refresh of subscription data
+        await refreshSubscriptionData();
+        // Optional success toast (disabled when called with silent)
+        if (!options?.silent) {
+          toast.success('Subscription upgraded successfully!');
+        }
+      } else if (verificationResult.package_id && !options?.silent) {
+        toast.success('Event package purchased successfully!');
+      }
+      return true;
     } catch (error: any) {
       console.error('Payment verification error:', error);
       toast.error(error.message || 'Payment verification failed');
@@ -319,89 +266,6 @@ export function useSubscription() {
     }
   }, [user]);
 
-  /**
-   * Update user subscription in database
-   */
-  const updateUserSubscription = useCallback(async (planId: string, reference: string) => {
-    if (!user) return;
-
-    try {
-      // Convert planId to uppercase to match SUBSCRIPTION_PLANS keys
-      const upperPlanId = planId.toUpperCase();
-      const plan = SUBSCRIPTION_PLANS[upperPlanId as keyof typeof SUBSCRIPTION_PLANS];
-      
-      if (!plan) {
-        console.error(`Plan not found: ${planId} (uppercase: ${upperPlanId})`);
-        console.error('Available plans:', Object.keys(SUBSCRIPTION_PLANS));
-        throw new Error('Invalid plan');
-      }
-
-      // Update profile with new limits - use lowercase plan.id for consistency
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .update({
-          subscription_tier: plan.id.toLowerCase(),
-          templates_limit: plan.limits.templates,
-          monthly_exports_limit: plan.limits.exports,
-        })
-        .eq('id', user.id);
-
-      if (profileError) throw profileError;
-
-      // Create subscription record - use lowercase plan.id for consistency
-      const { error: subscriptionError } = await supabase
-        .from('subscriptions')
-        .insert({
-          user_id: user.id,
-          plan_type: plan.id.toLowerCase(),
-          status: 'active',
-          current_period_start: new Date().toISOString(),
-          current_period_end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-          cancel_at_period_end: false,
-          paystack_reference: reference,
-        });
-
-      if (subscriptionError) throw subscriptionError;
-
-      // Refresh data
-      await refreshSubscriptionData();
-    } catch (error) {
-      console.error('Error updating subscription:', error);
-      throw error;
-    }
-  }, [user]);
-
-  /**
-   * Process event package purchase
-   */
-  const processEventPackagePurchase = useCallback(async (packageId: string, reference: string) => {
-    if (!user) return;
-
-    try {
-      // Record payment
-      const { error: paymentError } = await supabase
-        .from('payments')
-        .insert({
-          user_id: user.id,
-          amount: EVENT_PACKAGES[packageId as keyof typeof EVENT_PACKAGES]?.price || 0,
-          currency: 'GHS',
-          status: 'successful',
-          payment_method: 'card',
-          paystack_reference: reference,
-          description: `Event Package: ${EVENT_PACKAGES[packageId as keyof typeof EVENT_PACKAGES]?.name}`,
-          metadata: { package_id: packageId },
-        });
-
-      if (paymentError) throw paymentError;
-
-      // You can add additional logic here for event package benefits
-      // For example, granting temporary access to premium features
-    } catch (error) {
-      console.error('Error processing event package:', error);
-      throw error;
-    }
-  }, [user]);
-
   /**
    * Refresh subscription data
    */
@@ -420,15 +284,7 @@ export function useSubscription() {
       setUsageStats(stats);
 
       // Update current plan based on subscription or profile
-      if (subscription) {
-        const planKey = subscription.plan_type.toUpperCase() as keyof typeof SUBSCRIPTION_PLANS;
-        const plan = SUBSCRIPTION_PLANS[planKey];
-        if (plan) setCurrentPlan(plan);
-      } else if (profile) {
-        const planKey = profile.subscription_tier.toUpperCase() as keyof typeof SUBSCRIPTION_PLANS;
-        const plan = SUBSCRIPTION_PLANS[planKey];
-        if (plan) setCurrentPlan(plan);
-      }
+      setCurrentPlanId(subscription?.plan_type || profile?.subscription_tier || FREE_PLAN_ID);
     } catch (error) {
       console.warn('Error refreshing subscription data, using defaults:', error);
     } finally {
@@ -445,13 +301,7 @@ export function useSubscription() {
     try {
       setLoading(true);
 
-      const { error } = await supabase
-        .from('subscriptions')
-        .update({
-          cancel_at_period_end: true,
-          status: 'cancelled',
-        })
-        .eq('id', userSubscription.id);
+      const { error } = await supabase.rpc('set_subscription_cancel_at_period_end', { cancel: true });
 
       if (error) throw error;
 
@@ -474,13 +324,7 @@ export function useSubscription() {
     try {
       setLoading(true);
 
-      const { error } = await supabase
-        .from('subscriptions')
-        .update({
-          cancel_at_period_end: false,
-          status: 'active',
-        })
-        .eq('id', userSubscription.id);
+      const { error } = await supabase.rpc('set_subscription_cancel_at_period_end', { cancel: false });
 
       if (error) throw error;
 
@@ -260,6 +260,8 @@ export function useUsageTracking() {
     // Get actual limits from feature gating system
     const tier = user?.user_metadata?.subscription_tier || 'free';
     const { getFeatureLimits } = await import('@/lib/featureGating');
+    const { loadPlans } = await import('@/lib/plans');
+    await loadPlans().catch((error) => console.warn('Failed to load plans:', error));
     const limits = getFeatureLimits(tier);
 
     return {
@@ -0,0 +1,71 @@
+/**
+ * Workspace Hook
+ * Loads the user's organizations and tracks whether the dashboard is showing the
+ * personal workspace or an organization's shared library
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  getActiveWorkspaceId,
+  getMyOrganizations,
+  setActiveWorkspaceId,
+  subscribeToMemberships,
+  subscribeToWorkspace,
+  type OrganizationMembership,
+} from '@/lib/organizations';
+
+export function useWorkspace() {
+  const { user } = useAuth();
+  const [memberships, setMemberships] = useState<OrganizationMembership[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(getActiveWorkspaceId);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => subscribeToWorkspace(setActiveId), []);
+
+  /**
+   * Reload memberships, e.g. after creating or joining an organization
+   */
+  const refreshOrganizations = useCallback(async () => {
+    if (!user?.id) {
+      setMemberships([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const result = await getMyOrganizations();
+      setMemberships(result);
+
+      // Fall back to the personal workspace if the stored organization is no longer ours
+      const activeOrganization = getActiveWorkspaceId();
+      if (activeOrganization && !result.some((membership) => membership.organization.id === activeOrganization)) {
+        setActiveWorkspaceId(null);
+      }
+    } catch (error) {
+      console.error('Error loading organizations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    refreshOrganizations();
+    return subscribeToMemberships(refreshOrganizations);
+  }, [refreshOrganizations]);
+
+  const activeMembership = useMemo(
+    () => memberships.find((membership) => membership.organization.id === activeId) || null,
+    [memberships, activeId]
+  );
+
+  return {
+    organizations: memberships,
+    activeOrganizationId: activeMembership ? activeId : null,
+    activeOrganization: activeMembership?.organization || null,
+    activeRole: activeMembership?.role || null,
+    loading,
+    switchWorkspace: setActiveWorkspaceId,
+    refreshOrganizations,
+  };
+}
@@ -1,3 +1,6 @@
+import type { FrameData } from "@/lib/frameSchema"
+import type { TemplatePage } from "@/lib/templatePages"
+
 export type Json =
   | string
   | number
@@ -17,7 +20,7 @@ export interface Database {
           avatar_url: string | null
           created_at: string
           updated_at: string
-          subscription_tier: 'free' | 'student_pro' | 'creator_pro' | 'organization'
+          subscription_tier: string
           templates_limit: number
           monthly_exports: number
           monthly_exports_limit: number
@@ -31,7 +34,7 @@ export interface Database {
           avatar_url?: string | null
           created_at?: string
           updated_at?: string
-          subscription_tier?: 'free' | 'student_pro' | 'creator_pro' | 'organization'
+          subscription_tier?: string
           templates_limit?: number
           monthly_exports?: number
           monthly_exports_limit?: number
@@ -45,7 +48,7 @@ export interface Database {
           avatar_url?: string | null
           created_at?: string
           updated_at?: string
-          subscription_tier?: 'free' | 'student_pro' | 'creator_pro' | 'organization'
+          subscription_tier?: string
           templates_limit?: number
           monthly_exports?: number
           monthly_exports_limit?: number
@@ -62,16 +65,29 @@ export interface Database {
           template_type: string
           background_url: string | null
           frames: Json
+          schema_version: number
+          canvas_width: number
+          canvas_height: number
+          pages: Json | null
+          print_dpi: number | null
           tags: string[] | null
           is_public: boolean
           user_id: string
           organization_id: string | null
+          review_status: 'draft' | 'in_review' | 'approved' | 'rejected'
+          published_version_id: string | null
+          embed_allowed_origins: string[]
+          fonts: Json
           created_at: string
           updated_at: string
           view_count: number
           generation_count: number
           is_premium: boolean
           price: number | null
+          listing_status: 'unlisted' | 'in_review' | 'approved' | 'rejected'
+          listing_version_id: string | null
+          listed_at: string | null
+          license_purchase_id: string | null
         }
         Insert: {
           id?: string
@@ -80,16 +96,29 @@ export interface Database {
           template_type: string
           background_url?: string | null
           frames: Json
+          schema_version?: number
+          canvas_width?: number
+          canvas_height?: number
+          pages?: Json | null
+          print_dpi?: number | null
           tags?: string[] | null
           is_public?: boolean
           user_id: string
           organization_id?: string | null
+          review_status?: 'draft' | 'in_review' | 'approved' | 'rejected'
+          published_version_id?: string | null
+          embed_allowed_origins?: string[]
+          fonts?: Json
           created_at?: string
           updated_at?: string
           view_count?: number
           generation_count?: number
           is_premium?: boolean
           price?: number | null
+          listing_status?: 'unlisted' | 'in_review' | 'approved' | 'rejected'
+          listing_version_id?: string | null
+          listed_at?: string | null
+          license_purchase_id?: string | null
         }
         Update: {
           id?: string
@@ -98,16 +127,29 @@ export interface Database {
           template_type?: string
           background_url?: string | null
           frames?: Json
+          schema_version?: number
+          canvas_width?: number
+          canvas_height?: number
+          pages?: Json | null
+          print_dpi?: number | null
           tags?: string[] | null
           is_public?: boolean
           user_id?: string
           organization_id?: string | null
+          review_status?: 'draft' | 'in_review' | 'approved' | 'rejected'
+          published_version_id?: string | null
+          embed_allowed_origins?: string[]
+          fonts?: Json
           created_at?: string
           updated_at?: string
           view_count?: number
           generation_count?: number
           is_premium?: boolean
           price?: number | null
+          listing_status?: 'unlisted' | 'in_review' | 'approved' | 'rejected'
+          listing_version_id?: string | null
+          listed_at?: string | null
+          license_purchase_id?: string | null
         }
         Relationships: [
           {
@@ -125,6 +167,7 @@ export interface Database {
           template_id: string
           user_agent: string | null
           ip_address: string | null
+          format: string | null
           created_at: string
         }
         Insert: {
@@ -132,6 +175,7 @@ export interface Database {
           template_id: string
           user_agent?: string | null
           ip_address?: string | null
+          format?: string | null
           created_at?: string
         }
         Update: {
@@ -139,6 +183,7 @@ export interface Database {
           template_id?: string
           user_agent?: string | null
           ip_address?: string | null
+          format?: string | null
           created_at?: string
         }
         Relationships: [
@@ -159,13 +204,14 @@ export interface Database {
           logo_url: string | null
           primary_color: string | null
           secondary_color: string | null
-          subscription_plan: 'department' | 'church' | 'faculty' | 'enterprise'
+          subscription_plan: 'department' | 'church' | 'faculty' | 'enterprise' | null
           subscription_status: 'active' | 'inactive' | 'cancelled' | 'trial'
           subscription_start: string | null
           subscription_end: string | null
           monthly_export_limit: number
           custom_branding: boolean
           white_label: boolean
+          created_by: string | null
           created_at: string
           updated_at: string
         }
@@ -176,13 +222,14 @@ export interface Database {
           logo_url?: string | null
           primary_color?: string | null
           secondary_color?: string | null
-          subscription_plan: 'department' | 'church' | 'faculty' | 'enterprise'
+          subscription_plan?: 'department' | 'church' | 'faculty' | 'enterprise' | null
           subscription_status?: 'active' | 'inactive' | 'cancelled' | 'trial'
           subscription_start?: string | null
           subscription_end?: string | null
           monthly_export_limit?: number
           custom_branding?: boolean
           white_label?: boolean
+          created_by?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -193,13 +240,14 @@ export interface Database {
           logo_url?: string | null
           primary_color?: string | null
           secondary_color?: string | null
-          subscription_plan?: 'department' | 'church' | 'faculty' | 'enterprise'
+          subscription_plan?: 'department' | 'church' | 'faculty' | 'enterprise' | null
           subscription_status?: 'active' | 'inactive' | 'cancelled' | 'trial'
           subscription_start?: string | null
           subscription_end?: string | null
           monthly_export_limit?: number
           custom_branding?: boolean
           white_label?: boolean
+          created_by?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -209,7 +257,7 @@ export interface Database {
           id: string
           user_id: string
           organization_id: string | null
-          plan_type: 'free' | 'student_pro' | 'creator_pro' | 'department' | 'church' | 'faculty' | 'enterprise'
+          plan_type: string
           status: 'active' | 'inactive' | 'cancelled' | 'trial'
           current_period_start: string
           current_period_end: string
@@ -224,7 +272,7 @@ export interface Database {
           id?: string
           user_id: string
           organization_id?: string | null
-          plan_type: 'free' | 'student_pro' | 'creator_pro' | 'department' | 'church' | 'faculty' | 'enterprise'
+          plan_type: string
           status?: 'active' | 'inactive' | 'cancelled' | 'trial'
           current_period_start?: string
           current_period_end?: string
@@ -239,7 +287,7 @@ export interface Database {
           id?: string
           user_id?: string
           organization_id?: string | null
-          plan_type?: 'free' | 'student_pro' | 'creator_pro' | 'department' | 'church' | 'faculty' | 'enterprise'
+          plan_type?: string
           status?: 'active' | 'inactive' | 'cancelled' | 'trial'
           current_period_start?: string
           current_period_end?: string
@@ -327,6 +375,671 @@ export interface Database {
           created_at?: string
         }
       }
+      plans: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          price: number
+          currency: string
+          billing_interval: 'month' | 'year'
+          features: string[]
+          storage_limit: string
+          watermark_text: string | null
+          sort_order: number
+          is_public: boolean
+          is_featured: boolean
+          templates_limit: number
+          monthly_exports_limit: number
+          custom_fonts: boolean
+          pdf_export: boolean
+          svg_export: boolean
+          high_res_export: boolean
+          bulk_generation: boolean
+          white_label: boolean
+          api_access: boolean
+          priority_support: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          name: string
+          description?: string | null
+          price?: number
+          currency?: string
+          billing_interval?: 'month' | 'year'
+          features?: string[]
+          storage_limit?: string
+          watermark_text?: string | null
+          sort_order?: number
+          is_public?: boolean
+          is_featured?: boolean
+          templates_limit: number
+          monthly_exports_limit: number
+          custom_fonts?: boolean
+          pdf_export?: boolean
+          svg_export?: boolean
+          high_res_export?: boolean
+          bulk_generation?: boolean
+          white_label?: boolean
+          api_access?: boolean
+          priority_support?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          price?: number
+          currency?: string
+          billing_interval?: 'month' | 'year'
+          features?: string[]
+          storage_limit?: string
+          watermark_text?: string | null
+          sort_order?: number
+          is_public?: boolean
+          is_featured?: boolean
+          templates_limit?: number
+          monthly_exports_limit?: number
+          custom_fonts?: boolean
+          pdf_export?: boolean
+          svg_export?: boolean
+          high_res_export?: boolean
+          bulk_generation?: boolean
+          white_label?: boolean
+          api_access?: boolean
+          priority_support?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      event_packages: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          price: number
+          currency: string
+          includes: string[]
+          sort_order: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          name: string
+          description?: string | null
+          price: number
+          currency?: string
+          includes?: string[]
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          price?: number
+          currency?: string
+          includes?: string[]
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      analytics_events: {
+        Row: {
+          id: string
+          template_id: string
+          event_type: 'view' | 'start' | 'upload' | 'edit' | 'preview' | 'download' | 'share'
+          session_id: string
+          metadata: Json
+          device_class: 'mobile' | 'tablet' | 'desktop' | 'unknown'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          event_type: 'view' | 'start' | 'upload' | 'edit' | 'preview' | 'download' | 'share'
+          session_id: string
+          metadata?: Json
+          device_class?: 'mobile' | 'tablet' | 'desktop' | 'unknown'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          template_id?: string
+          event_type?: 'view' | 'start' | 'upload' | 'edit' | 'preview' | 'download' | 'share'
+          session_id?: string
+          metadata?: Json
+          device_class?: 'mobile' | 'tablet' | 'desktop' | 'unknown'
+          created_at?: string
+        }
+      }
+      organization_members: {
+        Row: {
+          organization_id: string
+          user_id: string
+          role: 'owner' | 'admin' | 'editor' | 'viewer'
+          invited_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          organization_id: string
+          user_id: string
+          role: 'owner' | 'admin' | 'editor' | 'viewer'
+          invited_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          organization_id?: string
+          user_id?: string
+          role?: 'owner' | 'admin' | 'editor' | 'viewer'
+          invited_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      organization_invites: {
+        Row: {
+          id: string
+          organization_id: string
+          email: string
+          role: 'admin' | 'editor' | 'viewer'
+          invited_by: string | null
+          expires_at: string
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          email: string
+          role: 'admin' | 'editor' | 'viewer'
+          invited_by?: string | null
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          email?: string
+          role?: 'admin' | 'editor' | 'viewer'
+          invited_by?: string | null
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+        }
+      }
+      template_reviews: {
+        Row: {
+          id: string
+          template_id: string
+          organization_id: string
+          action: 'submitted' | 'approved' | 'rejected'
+          comment: string | null
+          actor_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          organization_id: string
+          action: 'submitted' | 'approved' | 'rejected'
+          comment?: string | null
+          actor_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          template_id?: string
+          organization_id?: string
+          action?: 'submitted' | 'approved' | 'rejected'
+          comment?: string | null
+          actor_id?: string | null
+          created_at?: string
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          organization_id: string | null
+          template_id: string | null
+          type: 'review_requested' | 'template_approved' | 'template_rejected' | 'listing_submitted' | 'listing_approved' | 'listing_rejected' | 'template_sold' | 'payout_paid'
+          title: string
+          body: string | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          organization_id?: string | null
+          template_id?: string | null
+          type: 'review_requested' | 'template_approved' | 'template_rejected' | 'listing_submitted' | 'listing_approved' | 'listing_rejected' | 'template_sold' | 'payout_paid'
+          title: string
+          body?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          organization_id?: string | null
+          template_id?: string | null
+          type?: 'review_requested' | 'template_approved' | 'template_rejected' | 'listing_submitted' | 'listing_approved' | 'listing_rejected' | 'template_sold' | 'payout_paid'
+          title?: string
+          body?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+      }
+      template_versions: {
+        Row: {
+          id: string
+          template_id: string | null
+          version_number: number
+          name: string
+          description: string | null
+          template_type: string | null
+          background_url: string | null
+          frames: Json
+          pages: Json | null
+          schema_version: number
+          canvas_width: number
+          canvas_height: number
+          print_dpi: number | null
+          fonts: Json
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          template_id?: string | null
+          version_number: number
+          name: string
+          description?: string | null
+          template_type?: string | null
+          background_url?: string | null
+          frames?: Json
+          pages?: Json | null
+          schema_version?: number
+          canvas_width: number
+          canvas_height: number
+          print_dpi?: number | null
+          fonts?: Json
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          template_id?: string | null
+          version_number?: number
+          name?: string
+          description?: string | null
+          template_type?: string | null
+          background_url?: string | null
+          frames?: Json
+          pages?: Json | null
+          schema_version?: number
+          canvas_width?: number
+          canvas_height?: number
+          print_dpi?: number | null
+          fonts?: Json
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      template_link_keys: {
+        Row: {
+          template_id: string
+          secret: string
+          created_by: string | null
+          created_at: string
+          rotated_at: string | null
+        }
+        Insert: {
+          template_id: string
+          secret: string
+          created_by?: string | null
+          created_at?: string
+          rotated_at?: string | null
+        }
+        Update: {
+          template_id?: string
+          secret?: string
+          created_by?: string | null
+          created_at?: string
+          rotated_at?: string | null
+        }
+      }
+      fonts: {
+        Row: {
+          id: string
+          user_id: string
+          organization_id: string | null
+          family: string
+          weight: string
+          style: 'normal' | 'italic'
+          format: 'woff2' | 'woff' | 'truetype' | 'opentype'
+          file_name: string
+          file_size: number
+          storage_path: string
+          url: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          organization_id?: string | null
+          family: string
+          weight?: string
+          style?: 'normal' | 'italic'
+          format: 'woff2' | 'woff' | 'truetype' | 'opentype'
+          file_name: string
+          file_size: number
+          storage_path: string
+          url: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          organization_id?: string | null
+          family?: string
+          weight?: string
+          style?: 'normal' | 'italic'
+          format?: 'woff2' | 'woff' | 'truetype' | 'opentype'
+          file_name?: string
+          file_size?: number
+          storage_path?: string
+          url?: string
+          created_at?: string
+        }
+      }
+      api_keys: {
+        Row: {
+          id: string
+          user_id: string
+          organization_id: string | null
+          name: string
+          key_prefix: string
+          key_hash: string
+          scopes: ('templates:read' | 'flyers:render')[]
+          last_used_at: string | null
+          revoked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          organization_id?: string | null
+          name: string
+          key_prefix: string
+          key_hash: string
+          scopes?: ('templates:read' | 'flyers:render')[]
+          last_used_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          organization_id?: string | null
+          name?: string
+          key_prefix?: string
+          key_hash?: string
+          scopes?: ('templates:read' | 'flyers:render')[]
+          last_used_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          user_id: string
+          organization_id: string | null
+          template_id: string | null
+          url: string
+          description: string | null
+          events: ('generation.created' | 'template.published' | 'download_limit.reached' | 'subscription.changed')[]
+          active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          organization_id?: string | null
+          template_id?: string | null
+          url: string
+          description?: string | null
+          events: ('generation.created' | 'template.published' | 'download_limit.reached' | 'subscription.changed')[]
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          organization_id?: string | null
+          template_id?: string | null
+          url?: string
+          description?: string | null
+          events?: ('generation.created' | 'template.published' | 'download_limit.reached' | 'subscription.changed')[]
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          payload: Json
+          status: 'pending' | 'succeeded' | 'failed'
+          attempts: number
+          next_attempt_at: string | null
+          last_attempt_at: string | null
+          response_status: number | null
+          response_body: string | null
+          error: string | null
+          redelivery_of: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          payload: Json
+          status?: 'pending' | 'succeeded' | 'failed'
+          attempts?: number
+          next_attempt_at?: string | null
+          last_attempt_at?: string | null
+          response_status?: number | null
+          response_body?: string | null
+          error?: string | null
+          redelivery_of?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          endpoint_id?: string
+          event_id?: string
+          event_type?: string
+          payload?: Json
+          status?: 'pending' | 'succeeded' | 'failed'
+          attempts?: number
+          next_attempt_at?: string | null
+          last_attempt_at?: string | null
+          response_status?: number | null
+          response_body?: string | null
+          error?: string | null
+          redelivery_of?: string | null
+          created_at?: string
+        }
+      }
+      marketplace_listing_reviews: {
+        Row: {
+          id: string
+          template_id: string
+          version_id: string | null
+          action: 'submitted' | 'approved' | 'rejected' | 'withdrawn'
+          price: number | null
+          comment: string | null
+          actor_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          version_id?: string | null
+          action: 'submitted' | 'approved' | 'rejected' | 'withdrawn'
+          price?: number | null
+          comment?: string | null
+          actor_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          template_id?: string
+          version_id?: string | null
+          action?: 'submitted' | 'approved' | 'rejected' | 'withdrawn'
+          price?: number | null
+          comment?: string | null
+          actor_id?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      template_purchases: {
+        Row: {
+          id: string
+          template_id: string | null
+          version_id: string | null
+          template_name: string
+          buyer_id: string | null
+          seller_id: string | null
+          price: number
+          commission_rate: number
+          commission: number
+          seller_earnings: number
+          currency: string
+          paystack_reference: string
+          status: 'pending' | 'paid' | 'duplicate' | 'refunded'
+          licensed_template_id: string | null
+          refund_reference: string | null
+          refunded_by: string | null
+          refunded_at: string | null
+          created_at: string
+          paid_at: string | null
+        }
+        Insert: {
+          id?: string
+          template_id?: string | null
+          version_id?: string | null
+          template_name: string
+          buyer_id?: string | null
+          seller_id?: string | null
+          price: number
+          commission_rate?: number
+          commission?: number
+          seller_earnings?: number
+          currency?: string
+          paystack_reference: string
+          status?: 'pending' | 'paid' | 'duplicate' | 'refunded'
+          licensed_template_id?: string | null
+          refund_reference?: string | null
+          refunded_by?: string | null
+          refunded_at?: string | null
+          created_at?: string
+          paid_at?: string | null
+        }
+        Update: {
+          id?: string
+          template_id?: string | null
+          version_id?: string | null
+          template_name?: string
+          buyer_id?: string | null
+          seller_id?: string | null
+          price?: number
+          commission_rate?: number
+          commission?: number
+          seller_earnings?: number
+          currency?: string
+          paystack_reference?: string
+          status?: 'pending' | 'paid' | 'duplicate' | 'refunded'
+          licensed_template_id?: string | null
+          refund_reference?: string | null
+          refunded_by?: string | null
+          refunded_at?: string | null
+          created_at?: string
+          paid_at?: string | null
+        }
+        Relationships: []
+      }
+      marketplace_payouts: {
+        Row: {
+          id: string
+          seller_id: string
+          amount: number
+          currency: string
+          method: 'mobile_money' | 'bank_transfer'
+          account_details: string
+          status: 'requested' | 'paid' | 'cancelled'
+          reference: string | null
+          note: string | null
+          processed_by: string | null
+          processed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          seller_id: string
+          amount: number
+          currency?: string
+          method: 'mobile_money' | 'bank_transfer'
+          account_details: string
+          status?: 'requested' | 'paid' | 'cancelled'
+          reference?: string | null
+          note?: string | null
+          processed_by?: string | null
+          processed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          seller_id?: string
+          amount?: number
+          currency?: string
+          method?: 'mobile_money' | 'bank_transfer'
+          account_details?: string
+          status?: 'requested' | 'paid' | 'cancelled'
+          reference?: string | null
+          note?: string | null
+          processed_by?: string | null
+          processed_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -344,6 +1057,258 @@ export interface Database {
         }
         Returns: undefined
       }
+      get_my_entitlements: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          plan_id: string
+          templates_limit: number
+          monthly_exports_limit: number
+          custom_fonts: boolean
+          pdf_export: boolean
+          svg_export: boolean
+          high_res_export: boolean
+          bulk_generation: boolean
+          white_label: boolean
+          api_access: boolean
+          priority_support: boolean
+          templates_used: number
+          monthly_exports_used: number
+        }[]
+      }
+      reserve_exports: {
+        Args: {
+          p_count: number
+          p_resource_id?: string | null
+          p_metadata?: Json
+        }
+        Returns: number
+      }
+      set_subscription_cancel_at_period_end: {
+        Args: {
+          cancel: boolean
+        }
+        Returns: Database["public"]["Tables"]["subscriptions"]["Row"]
+      }
+      track_template_event: {
+        Args: {
+          p_template_id: string
+          p_event_type: 'view' | 'start' | 'upload' | 'edit' | 'preview' | 'download' | 'share'
+          p_session_id: string
+          p_metadata?: Json
+        }
+        Returns: undefined
+      }
+      get_analytics_timeseries: {
+        Args: {
+          p_start: string
+          p_end: string
+          p_template_id?: string | null
+          p_time_zone?: string
+        }
+        Returns: {
+          day: string
+          views: number
+          starts: number
+          uploads: number
+          downloads: number
+          shares: number
+        }[]
+      }
+      get_analytics_summary: {
+        Args: {
+          p_start: string
+          p_end: string
+          p_template_id?: string | null
+        }
+        Returns: {
+          event_type: 'view' | 'start' | 'upload' | 'edit' | 'preview' | 'download' | 'share'
+          current_count: number
+          previous_count: number
+          change_percent: number | null
+        }[]
+      }
+      get_analytics_top_templates: {
+        Args: {
+          p_start: string
+          p_end: string
+          p_limit?: number
+        }
+        Returns: {
+          template_id: string
+          name: string
+          template_type: string
+          views: number
+          downloads: number
+          shares: number
+        }[]
+      }
+      get_template_funnel: {
+        Args: {
+          p_start: string
+          p_end: string
+          p_template_id?: string | null
+        }
+        Returns: {
+          event_type: 'view' | 'start' | 'upload' | 'edit' | 'preview' | 'download'
+          device_class: 'mobile' | 'tablet' | 'desktop' | 'unknown'
+          sessions: number
+        }[]
+      }
+      get_device_class: {
+        Args: {
+          p_user_agent: string | null
+        }
+        Returns: string
+      }
+      has_organization_role: {
+        Args: {
+          p_organization_id: string
+          p_roles: string[]
+        }
+        Returns: boolean
+      }
+      create_organization: {
+        Args: {
+          p_name: string
+          p_description?: string | null
+        }
+        Returns: Database['public']['Tables']['organizations']['Row']
+      }
+      update_organization_member_role: {
+        Args: {
+          p_organization_id: string
+          p_user_id: string
+          p_role: 'owner' | 'admin' | 'editor' | 'viewer'
+        }
+        Returns: undefined
+      }
+      remove_organization_member: {
+        Args: {
+          p_organization_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      submit_template_for_review: {
+        Args: {
+          p_template_id: string
+          p_comment?: string | null
+        }
+        Returns: undefined
+      }
+      review_template: {
+        Args: {
+          p_template_id: string
+          p_decision: 'approved' | 'rejected'
+          p_comment?: string | null
+        }
+        Returns: undefined
+      }
+      is_marketplace_reviewer: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      submit_marketplace_listing: {
+        Args: {
+          p_template_id: string
+          p_price: number
+          p_comment?: string | null
+        }
+        Returns: undefined
+      }
+      review_marketplace_listing: {
+        Args: {
+          p_template_id: string
+          p_decision: 'approved' | 'rejected'
+          p_comment?: string | null
+        }
+        Returns: undefined
+      }
+      withdraw_marketplace_listing: {
+        Args: {
+          p_template_id: string
+        }
+        Returns: undefined
+      }
+      get_marketplace_listings: {
+        Args: {
+          p_search?: string | null
+          p_template_type?: string | null
+        }
+        Returns: {
+          id: string
+          name: string
+          description: string | null
+          template_type: string | null
+          preview_url: string | null
+          canvas_width: number
+          canvas_height: number
+          price: number
+          seller_id: string
+          seller_name: string
+          sales_count: number
+          listed_at: string
+        }[]
+      }
+      get_marketplace_review_queue: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          name: string
+          description: string | null
+          template_type: string | null
+          version_id: string
+          preview_url: string | null
+          page_count: number
+          price: number
+          seller_id: string
+          seller_name: string | null
+          seller_email: string | null
+          comment: string | null
+          submitted_at: string
+        }[]
+      }
+      claim_purchased_template: {
+        Args: {
+          p_purchase_id: string
+        }
+        Returns: string
+      }
+      refund_duplicate_purchase: {
+        Args: {
+          p_purchase_id: string
+          p_reference: string
+        }
+        Returns: undefined
+      }
+      get_marketplace_balance: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          sales_count: number
+          gross_sales: number
+          commission: number
+          earnings: number
+          paid_out: number
+          pending_payouts: number
+          available: number
+        }[]
+      }
+      request_marketplace_payout: {
+        Args: {
+          p_method: 'mobile_money' | 'bank_transfer'
+          p_account_details: string
+        }
+        Returns: Database["public"]["Tables"]["marketplace_payouts"]["Row"]
+      }
+      process_marketplace_payout: {
+        Args: {
+          p_payout_id: string
+          p_decision: 'paid' | 'cancelled'
+          p_reference?: string | null
+          p_note?: string | null
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -441,37 +1406,13 @@ export type Profile = Tables<'profiles'>
 export type Template = Tables<'templates'>
 export type TemplateGeneration = Tables<'template_generations'>
 
-// Frame types for the canvas editor
-export interface BaseFrame {
-  id: string
-  x: number
-  y: number
-  width: number
-  height: number
-  rotation: number
-}
-
-export interface ImageFrame extends BaseFrame {
-  type: 'image'
-  placeholder?: string // Placeholder text like "Upload your photo"
-}
-
-export interface TextFrame extends BaseFrame {
-  type: 'text'
-  content: string
-  fontSize: number
-  fontFamily: string
-  fontWeight: 'normal' | 'bold'
-  color: string
-  textAlign: 'left' | 'center' | 'right'
-  placeholder?: string // Default text like "Enter your name"
-}
-
-export type Frame = ImageFrame | TextFrame
+// Frame type for the canvas editor (defined by the versioned frame schema)
+export type Frame = FrameData
 
-// Template with populated frames (typed)
-export interface TemplateWithFrames extends Omit<Template, 'frames'> {
+// Template with populated frames and pages (typed)
+export interface TemplateWithFrames extends Omit<Template, 'frames' | 'pages'> {
   frames: Frame[]
+  pages: TemplatePage[]
 }
 
 export const Constants = {
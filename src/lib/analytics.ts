@@ -0,0 +1,271 @@
+/**
+ * Template Analytics
+ * Records generator events (view, start, upload, edit, preview, download, share) and reads the
+ * daily series, period-over-period changes, conversion funnels and top templates rolled up by the database.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+
+export type AnalyticsEventType = Database['public']['Tables']['analytics_events']['Row']['event_type'];
+export type AnalyticsDay = Database['public']['Functions']['get_analytics_timeseries']['Returns'][number];
+export type AnalyticsTopTemplate = Database['public']['Functions']['get_analytics_top_templates']['Returns'][number];
+export type DeviceClass = Database['public']['Tables']['analytics_events']['Row']['device_class'];
+type FunnelEventType = Database['public']['Functions']['get_template_funnel']['Returns'][number]['event_type'];
+
+export interface AnalyticsChange {
+  current: number;
+  previous: number;
+  changePercent: number | null; // null when there is nothing to compare against
+}
+
+export type AnalyticsSummary = Record<AnalyticsEventType, AnalyticsChange>;
+
+export interface AnalyticsActivity {
+  id: string;
+  templateName: string;
+  action: AnalyticsEventType;
+  timestamp: string;
+}
+
+export interface FunnelStep {
+  event: FunnelEventType;
+  label: string;
+  sessions: number;
+  conversion: number | null; // % of sessions that viewed the page
+  dropOff: number | null; // % lost since the previous step
+}
+
+export type TemplateFunnel = Record<DeviceClass | 'all', FunnelStep[]>;
+
+export interface AnalyticsWindow {
+  start: Date;
+  end: Date;
+}
+
+export type FunnelComparison = 'previous_period' | 'previous_year' | 'none';
+
+// The public generator wizard, in the order visitors go through it
+export const FUNNEL_STEPS: { event: FunnelEventType; label: string }[] = [
+  { event: 'view', label: 'Page view' },
+  { event: 'start', label: 'First field filled' },
+  { event: 'upload', label: 'Photo uploaded' },
+  { event: 'edit', label: 'Image editor applied' },
+  { event: 'preview', label: 'Preview opened' },
+  { event: 'download', label: 'Download' },
+];
+
+export const DEVICE_CLASSES: DeviceClass[] = ['mobile', 'tablet', 'desktop', 'unknown'];
+
+export const ANALYTICS_RANGES = {
+  '7d': { label: 'Last 7 days', days: 7 },
+  '30d': { label: 'Last 30 days', days: 30 },
+  '90d': { label: 'Last 90 days', days: 90 },
+  '1y': { label: 'Last year', days: 365 },
+};
+
+export type AnalyticsRange = keyof typeof ANALYTICS_RANGES;
+
+const SESSION_STORAGE_KEY = 'genedit_analytics_session';
+
+/**
+ * Get an ID for this browser session, so repeat views can be told apart from new visitors
+ */
+export function getAnalyticsSessionId(): string {
+  try {
+    let sessionId = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+    }
+    return sessionId;
+  } catch {
+    // Storage can be blocked (e.g. private mode); fall back to a per-page ID
+    return crypto.randomUUID();
+  }
+}
+
+/**
+ * Record a generator event. Never throws: analytics must not break the generator.
+ */
+export async function trackTemplateEvent(
+  templateId: string,
+  eventType: AnalyticsEventType,
+  metadata: Record<string, Json> = {}
+): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('track_template_event', {
+      p_template_id: templateId,
+      p_event_type: eventType,
+      p_session_id: getAnalyticsSessionId(),
+      p_metadata: metadata,
+    });
+    if (error) console.warn(`Failed to track ${eventType} event:`, error);
+  } catch (error) {
+    console.warn(`Failed to track ${eventType} event:`, error);
+  }
+}
+
+/**
+ * Get the time window a range covers, ending now
+ */
+export function getRangeWindow(range: AnalyticsRange): AnalyticsWindow {
+  const end = new Date();
+  const start = new Date(end);
+  start.setDate(start.getDate() - ANALYTICS_RANGES[range].days);
+  return { start, end };
+}
+
+/**
+ * Get the window to compare a range against, or null for no comparison
+ */
+export function getComparisonWindow(window: AnalyticsWindow, comparison: FunnelComparison): AnalyticsWindow | null {
+  if (comparison === 'none') return null;
+
+  if (comparison === 'previous_year') {
+    const start = new Date(window.start);
+    const end = new Date(window.end);
+    start.setFullYear(start.getFullYear() - 1);
+    end.setFullYear(end.getFullYear() - 1);
+    return { start, end };
+  }
+
+  const length = window.end.getTime() - window.start.getTime();
+  return { start: new Date(window.start.getTime() - length), end: new Date(window.start) };
+}
+
+/**
+ * Get daily event counts for the signed-in user's templates
+ */
+export async function getAnalyticsTimeSeries(range: AnalyticsRange, templateId?: string): Promise<AnalyticsDay[]> {
+  const { start, end } = getRangeWindow(range);
+  const { data, error } = await supabase.rpc('get_analytics_timeseries', {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+    p_template_id: templateId || null,
+    p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Get event totals for a range and their change from the period before it
+ */
+export async function getAnalyticsSummary(range: AnalyticsRange, templateId?: string): Promise<AnalyticsSummary> {
+  const { start, end } = getRangeWindow(range);
+  const { data, error } = await supabase.rpc('get_analytics_summary', {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+    p_template_id: templateId || null,
+  });
+
+  if (error) throw error;
+
+  const empty: AnalyticsChange = { current: 0, previous: 0, changePercent: null };
+  const summary: AnalyticsSummary = {
+    view: empty,
+    start: empty,
+    upload: empty,
+    edit: empty,
+    preview: empty,
+    download: empty,
+    share: empty,
+  };
+  for (const row of data || []) {
+    summary[row.event_type] = {
+      current: row.current_count,
+      previous: row.previous_count,
+      changePercent: row.change_percent === null ? null : Number(row.change_percent),
+    };
+  }
+  return summary;
+}
+
+/**
+ * Build funnel steps with conversion and drop-off rates from per-step session counts
+ */
+function toFunnelSteps(counts: Map<FunnelEventType, number>): FunnelStep[] {
+  const viewed = counts.get('view') || 0;
+
+  return FUNNEL_STEPS.map((step, index) => {
+    const sessions = counts.get(step.event) || 0;
+    const previous = index === 0 ? null : counts.get(FUNNEL_STEPS[index - 1].event) || 0;
+
+    return {
+      ...step,
+      sessions,
+      conversion: viewed > 0 ? Math.round((sessions / viewed) * 1000) / 10 : null,
+      // Optional steps (e.g. no photo frame) can be skipped, so a step may outnumber the one before it
+      dropOff: previous ? Math.max(0, Math.round(((previous - sessions) / previous) * 1000) / 10) : null,
+    };
+  });
+}
+
+/**
+ * Get the generator funnel for a window, overall and per device class.
+ * Leave out the template to combine all of the signed-in user's templates.
+ */
+export async function getTemplateFunnel(window: AnalyticsWindow, templateId?: string): Promise<TemplateFunnel> {
+  const { data, error } = await supabase.rpc('get_template_funnel', {
+    p_start: window.start.toISOString(),
+    p_end: window.end.toISOString(),
+    p_template_id: templateId || null,
+  });
+
+  if (error) throw error;
+
+  const totals = new Map<FunnelEventType, number>();
+  const byDevice = new Map<DeviceClass, Map<FunnelEventType, number>>(
+    DEVICE_CLASSES.map((device) => [device, new Map()])
+  );
+
+  for (const row of data || []) {
+    totals.set(row.event_type, (totals.get(row.event_type) || 0) + row.sessions);
+    byDevice.get(row.device_class)?.set(row.event_type, row.sessions);
+  }
+
+  return {
+    all: toFunnelSteps(totals),
+    mobile: toFunnelSteps(byDevice.get('mobile')!),
+    tablet: toFunnelSteps(byDevice.get('tablet')!),
+    desktop: toFunnelSteps(byDevice.get('desktop')!),
+    unknown: toFunnelSteps(byDevice.get('unknown')!),
+  };
+}
+
+/**
+ * Get the signed-in user's best performing templates in a range
+ */
+export async function getTopTemplates(range: AnalyticsRange, limit = 5): Promise<AnalyticsTopTemplate[]> {
+  const { start, end } = getRangeWindow(range);
+  const { data, error } = await supabase.rpc('get_analytics_top_templates', {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Get the latest events on the signed-in user's templates
+ */
+export async function getRecentActivity(limit = 10): Promise<AnalyticsActivity[]> {
+  const { data, error } = await supabase
+    .from('analytics_events')
+    .select('id, event_type, created_at, templates!inner(name)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []).map((event) => ({
+    id: event.id,
+    templateName: (event.templates as { name?: string } | null)?.name || 'Unknown Template',
+    action: event.event_type,
+    timestamp: event.created_at,
+  }));
+}
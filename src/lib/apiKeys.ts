@@ -0,0 +1,72 @@
+/**
+ * API Keys
+ * Keys for the public REST API. Only a hash of each key is stored, so the full key is
+ * shown once, when it's created by the api-keys Edge Function.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { getFunctionError } from '@/lib/edgeFunctions';
+
+export type ApiKey = Database['public']['Tables']['api_keys']['Row'];
+export type ApiScope = ApiKey['scopes'][number];
+
+export const API_SCOPES: { value: ApiScope; label: string; description: string }[] = [
+  { value: 'templates:read', label: 'Read templates', description: 'List templates and fetch their fields' },
+  { value: 'flyers:render', label: 'Render flyers', description: 'Generate PNG and PDF flyers from field values' },
+];
+
+/** Base URL of the public API, on the same project as the Supabase client */
+export const API_BASE_URL = 'https://tyfvbqpynflfhbukluvp.supabase.co/functions/v1/api-v1';
+
+/**
+ * The signed-in user's keys, newest first
+ */
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('id, user_id, organization_id, name, key_prefix, scopes, last_used_at, revoked_at, created_at')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ApiKey[];
+}
+
+/**
+ * Create a key for the personal workspace or an organization. The returned key is the
+ * only time it can be read.
+ */
+export async function createApiKey(
+  name: string,
+  scopes: ApiScope[],
+  organizationId: string | null
+): Promise<{ key: string; apiKey: ApiKey }> {
+  const { data, error } = await supabase.functions.invoke('api-keys', {
+    body: { action: 'create', name, scopes, organization_id: organizationId },
+  });
+
+  if (error) {
+    const message = await getFunctionError(error, 'Failed to create API key');
+    console.error('API key create error:', message);
+    throw new Error(message);
+  }
+
+  return { key: data.key, apiKey: data.api_key };
+}
+
+/**
+ * Revoke a key; requests made with it fail from then on
+ */
+export async function revokeApiKey(id: string): Promise<ApiKey> {
+  const { data, error } = await supabase.functions.invoke('api-keys', {
+    body: { action: 'revoke', id },
+  });
+
+  if (error) {
+    const message = await getFunctionError(error, 'Failed to revoke API key');
+    console.error('API key revoke error:', message);
+    throw new Error(message);
+  }
+
+  return data.api_key;
+}
@@ -0,0 +1,415 @@
+/**
+ * Bulk Generation
+ * Generates one flyer per row of a CSV/XLSX sheet and packages them as a ZIP or a multi-page PDF
+ */
+
+import Papa from 'papaparse';
+import { readSheet } from 'read-excel-file/browser';
+import JSZip from 'jszip';
+import type { FrameData } from './frameSchema';
+import { formatFrameInput } from './frameInputs';
+import { renderFlyer, FrameInputs, RenderImage } from './renderEngine';
+import { loadImage, createCroppedCanvas } from './imageUtils';
+import { loadFonts, waitForFontLoad, type TemplateFont } from './fontUtils';
+import { exportMultipleCanvasesToPDF } from './pdfUtils';
+
+export interface BulkDataset {
+  fileName: string;
+  columns: string[];
+  rows: Record<string, string>[];
+  rowNumbers: number[]; // Spreadsheet row number of each entry in `rows` (header is row 1)
+}
+
+// Frame ID -> column name
+export type ColumnMapping = Record<string, string | undefined>;
+
+export type BulkOutputFormat = 'zip-png' | 'zip-jpg' | 'pdf';
+
+export interface BulkTemplate {
+  name: string;
+  width: number;
+  height: number;
+  backgroundUrl?: string | null;
+  frames: FrameData[];
+  fonts?: TemplateFont[]; // Uploaded fonts the template records
+}
+
+export interface BulkRowFailure {
+  row: number; // Spreadsheet row number (header is row 1)
+  reason: string;
+  data: Record<string, string>;
+}
+
+export interface BulkProgress {
+  completed: number;
+  total: number;
+  failed: number;
+}
+
+export interface BulkGenerationOptions {
+  template: BulkTemplate;
+  dataset: BulkDataset;
+  mapping: ColumnMapping;
+  format: BulkOutputFormat;
+  scale?: number;
+  fileNameColumn?: string;
+  onProgress?: (progress: BulkProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface BulkGenerationResult {
+  generated: number;
+  failures: BulkRowFailure[];
+  cancelled: boolean;
+}
+
+export const BULK_ACCEPTED_FILES = '.csv,.xlsx';
+export const MAX_BULK_ROWS = 2000;
+
+const IMAGE_COLUMN_HINTS = ['photo', 'image', 'picture', 'avatar', 'url', 'logo'];
+
+/**
+ * Normalize a header or placeholder for loose matching
+ */
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Convert a spreadsheet cell to display text
+ */
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value).trim();
+};
+
+/**
+ * Turn a header row plus data rows into keyed records, naming blank or duplicate headers
+ */
+function toDataset(fileName: string, table: unknown[][]): BulkDataset {
+  const [headerRow = [], ...bodyRows] = table;
+  const seen = new Map<string, number>();
+
+  const columns = headerRow.map((cell, index) => {
+    const base = cellToString(cell) || `Column ${index + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+
+  const rows: Record<string, string>[] = [];
+  const rowNumbers: number[] = [];
+
+  bodyRows.forEach((row, rowIndex) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = cellToString(row[index]);
+    });
+
+    // Skip blank lines but keep the original numbering for the failure report
+    if (Object.values(record).some(value => value !== '')) {
+      rows.push(record);
+      rowNumbers.push(rowIndex + 2);
+    }
+  });
+
+  if (columns.length === 0) {
+    throw new Error('The file has no header row');
+  }
+  if (rows.length === 0) {
+    throw new Error('The file has no data rows');
+  }
+  if (rows.length > MAX_BULK_ROWS) {
+    throw new Error(`The file has ${rows.length} rows; the maximum per run is ${MAX_BULK_ROWS}`);
+  }
+
+  return { fileName, columns, rows, rowNumbers };
+}
+
+/**
+ * Parse an uploaded CSV or XLSX file. The first row is treated as column headers.
+ */
+export async function parseDataFile(file: File): Promise<BulkDataset> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'csv') {
+    const text = (await file.text()).replace(/^\uFEFF/, '');
+    const result = Papa.parse<string[]>(text, { skipEmptyLines: 'greedy' });
+    if (result.errors.length > 0 && result.data.length === 0) {
+      throw new Error(`Could not read CSV: ${result.errors[0].message}`);
+    }
+    return toDataset(file.name, result.data);
+  }
+
+  if (extension === 'xlsx') {
+    const sheet = await readSheet(file);
+    return toDataset(file.name, sheet);
+  }
+
+  throw new Error('Unsupported file type. Please upload a .csv or .xlsx file');
+}
+
+/**
+ * Guess a column for each frame from its placeholder text, or image-like headers for image frames
+ */
+export function autoMapColumns(frames: FrameData[], columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  frames.forEach(frame => {
+    const placeholder = normalizeKey(frame.properties?.placeholder || '');
+    let match = columns.find(column => !used.has(column) && placeholder && normalizeKey(column) === placeholder);
+
+    if (!match && placeholder) {
+      match = columns.find(column => {
+        const key = normalizeKey(column);
+        return !used.has(column) && key && (placeholder.includes(key) || key.includes(placeholder));
+      });
+    }
+
+    if (!match && frame.type === 'image') {
+      match = columns.find(column =>
+        !used.has(column) && IMAGE_COLUMN_HINTS.some(hint => normalizeKey(column).includes(hint))
+      );
+    }
+
+    if (match) {
+      mapping[frame.id] = match;
+      used.add(match);
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Build the render inputs for one row. Unmapped text frames keep their placeholder as fixed text.
+ */
+export function buildRowInputs(
+  frames: FrameData[],
+  mapping: ColumnMapping,
+  row: Record<string, string>
+): FrameInputs {
+  const inputs: FrameInputs = {};
+
+  frames.forEach(frame => {
+    const column = mapping[frame.id];
+    if (column) {
+      const value = row[column] || '';
+      inputs[frame.id] = { type: frame.type, value: frame.type === 'text' ? formatFrameInput(frame, value) : value };
+    } else if (frame.type === 'text') {
+      inputs[frame.id] = { type: 'text', value: frame.properties?.placeholder || '' };
+    }
+  });
+
+  return inputs;
+}
+
+/**
+ * Create an image loader that reuses the shared background and records the URLs that failed.
+ * Row images are not cached so a large run doesn't hold every photo in memory.
+ */
+function createRowLoader(cache: Map<string, Promise<RenderImage>>, backgroundUrl?: string | null) {
+  const failedUrls: string[] = [];
+
+  const load = (src: string) => {
+    let promise = cache.get(src);
+    if (!promise) {
+      promise = loadImage(src);
+      if (src === backgroundUrl) {
+        cache.set(src, promise);
+        // Don't keep a failed load around so the next row can retry
+        promise.catch(() => cache.delete(src));
+      }
+    }
+    return promise.catch(error => {
+      failedUrls.push(src);
+      throw error;
+    });
+  };
+
+  return { load, failedUrls };
+}
+
+/**
+ * Render a single row to a new canvas, cropped to the background like a single download
+ */
+export async function renderRow(
+  template: BulkTemplate,
+  mapping: ColumnMapping,
+  row: Record<string, string>,
+  options: { scale?: number; imageCache?: Map<string, Promise<RenderImage>> } = {}
+): Promise<HTMLCanvasElement> {
+  const { scale = 1, imageCache = new Map() } = options;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = template.width * scale;
+  canvas.height = template.height * scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.scale(scale, scale);
+
+  const loader = createRowLoader(imageCache, template.backgroundUrl);
+  if (template.fonts) await loadFonts(template.fonts);
+  await renderFlyer(ctx, {
+    width: template.width,
+    height: template.height,
+    backgroundUrl: template.backgroundUrl,
+    frames: template.frames,
+    inputs: buildRowInputs(template.frames, mapping, row),
+  }, {
+    loadImage: loader.load,
+    waitForFont: waitForFontLoad,
+  }, { showPlaceholders: false });
+
+  if (loader.failedUrls.length > 0) {
+    throw new Error(`Could not load image: ${loader.failedUrls[0]}`);
+  }
+
+  if (template.backgroundUrl) {
+    const background = await imageCache.get(template.backgroundUrl);
+    if (background instanceof HTMLImageElement) {
+      return createCroppedCanvas(canvas, background);
+    }
+  }
+
+  return canvas;
+}
+
+/**
+ * Build a safe, unique file name for a row
+ */
+function getRowFileName(
+  baseName: string,
+  row: Record<string, string>,
+  index: number,
+  fileNameColumn: string | undefined,
+  used: Set<string>
+): string {
+  const raw = (fileNameColumn && row[fileNameColumn]) || `${baseName}-${index + 1}`;
+  const safe = raw.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').slice(0, 80) || `${baseName}-${index + 1}`;
+
+  let name = safe;
+  let suffix = 2;
+  while (used.has(name.toLowerCase())) {
+    name = `${safe}-${suffix++}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Convert a canvas to a Blob
+ */
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+  });
+
+/**
+ * Trigger a browser download for a Blob
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Build a CSV of failed rows (original data plus the reason) for the user to fix and re-upload
+ */
+export function buildFailureReport(columns: string[], failures: BulkRowFailure[]): Blob {
+  const csv = Papa.unparse({
+    fields: ['Row', 'Reason', ...columns],
+    data: failures.map(failure => [failure.row, failure.reason, ...columns.map(column => failure.data[column] || '')]),
+  });
+  return new Blob([csv], { type: 'text/csv;charset=utf-8' });
+}
+
+/**
+ * Generate every row of the dataset and download the result.
+ * Rows that fail are skipped and reported; the run can be cancelled through `signal`.
+ */
+export async function generateBulk(options: BulkGenerationOptions): Promise<BulkGenerationResult> {
+  const { template, dataset, mapping, format, scale = 1, fileNameColumn, onProgress, signal } = options;
+
+  const baseName = template.name.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-') || 'flyer';
+  const imageCache = new Map<string, Promise<RenderImage>>();
+  const usedNames = new Set<string>();
+  const failures: BulkRowFailure[] = [];
+  const total = dataset.rows.length;
+  let completed = 0;
+  let generated = 0;
+
+  const report = () => onProgress?.({ completed, total, failed: failures.length });
+
+  // Yield rendered rows one at a time so only one canvas is alive at once
+  async function* renderRows(): AsyncGenerator<{ canvas: HTMLCanvasElement; name: string }> {
+    for (let index = 0; index < total; index++) {
+      if (signal?.aborted) return;
+
+      const row = dataset.rows[index];
+      try {
+        const canvas = await renderRow(template, mapping, row, { scale, imageCache });
+        yield { canvas, name: getRowFileName(baseName, row, index, fileNameColumn, usedNames) };
+        generated++;
+      } catch (error) {
+        failures.push({
+          row: dataset.rowNumbers[index],
+          reason: error instanceof Error ? error.message : 'Unknown error',
+          data: row,
+        });
+      }
+
+      completed++;
+      report();
+    }
+  }
+
+  report();
+
+  if (format === 'pdf') {
+    async function* canvases() {
+      for await (const { canvas } of renderRows()) {
+        yield canvas;
+      }
+      // Abort the PDF instead of saving a partial document
+      if (signal?.aborted) throw new Error('Bulk generation cancelled');
+    }
+
+    try {
+      await exportMultipleCanvasesToPDF(canvases(), {
+        width: template.width,
+        height: template.height,
+        quality: 0.92,
+        imageFormat: 'JPEG',
+        orientation: template.width > template.height ? 'landscape' : 'portrait',
+        filename: `${baseName}-bulk.pdf`,
+      });
+    } catch (error) {
+      // Cancelled runs and runs where every row failed have nothing to save
+      if (!signal?.aborted && generated > 0) throw error;
+    }
+  } else {
+    const zip = new JSZip();
+    const isJpg = format === 'zip-jpg';
+
+    for await (const { canvas, name } of renderRows()) {
+      const blob = await canvasToBlob(canvas, isJpg ? 'image/jpeg' : 'image/png', isJpg ? 0.92 : undefined);
+      zip.file(`${name}.${isJpg ? 'jpg' : 'png'}`, blob);
+    }
+
+    if (failures.length > 0) {
+      zip.file('failed-rows.csv', buildFailureReport(dataset.columns, failures));
+    }
+
+    if (generated > 0 && !signal?.aborted) {
+      const archive = await zip.generateAsync({ type: 'blob' });
+      downloadBlob(archive, `${baseName}-bulk.zip`);
+    }
+  }
+
+  return { generated, failures, cancelled: !!signal?.aborted };
+}
@@ -0,0 +1,98 @@
+/**
+ * Canvas Size
+ * Per-template stage dimensions, common presets, and rescaling of frames when the size changes
+ */
+
+import type { FrameData } from './frameSchema';
+
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+export interface CanvasPreset extends CanvasSize {
+  id: string;
+  name: string;
+  description: string;
+  dpi?: number; // Set for print formats: the pixel size is the physical size at this DPI
+}
+
+// Size of the original fixed editor stage; templates saved before sizes were stored use it
+export const DEFAULT_CANVAS_SIZE: CanvasSize = { width: 1200, height: 800 };
+
+export const MIN_CANVAS_DIMENSION = 100;
+export const MAX_CANVAS_DIMENSION = 5000;
+
+export const CANVAS_PRESETS: CanvasPreset[] = [
+  { id: 'landscape', name: 'Landscape Flyer', description: '1200 × 800 px', width: 1200, height: 800 },
+  { id: 'square', name: 'Square Post', description: '1080 × 1080 px', width: 1080, height: 1080 },
+  { id: 'portrait-post', name: 'Portrait Post', description: '1080 × 1350 px', width: 1080, height: 1350 },
+  { id: 'story', name: 'Story', description: '1080 × 1920 px', width: 1080, height: 1920 },
+  { id: 'a4-portrait', name: 'A4 Portrait', description: '210 × 297 mm @ 150 DPI', width: 1240, height: 1754, dpi: 150 },
+  { id: 'a4-landscape', name: 'A4 Landscape', description: '297 × 210 mm @ 150 DPI', width: 1754, height: 1240, dpi: 150 },
+  { id: 'letter-portrait', name: 'US Letter', description: '8.5 × 11 in @ 150 DPI', width: 1275, height: 1650, dpi: 150 },
+  { id: 'business-card', name: 'Business Card', description: '3.5 × 2 in @ 300 DPI', width: 1050, height: 600, dpi: 300 },
+];
+
+/**
+ * Resolve a template's stored dimensions, falling back to the legacy stage size
+ */
+export function getTemplateCanvasSize(
+  template?: { canvas_width?: number | null; canvas_height?: number | null } | null
+): CanvasSize {
+  const width = template?.canvas_width;
+  const height = template?.canvas_height;
+  if (!width || !height) return { ...DEFAULT_CANVAS_SIZE };
+  return { width, height };
+}
+
+/**
+ * Find the preset matching a size, if any
+ */
+export function findCanvasPreset(size: CanvasSize): CanvasPreset | undefined {
+  return CANVAS_PRESETS.find(preset => preset.width === size.width && preset.height === size.height);
+}
+
+/**
+ * Check that a custom size is within the supported range
+ */
+export function validateCanvasSize(size: CanvasSize): string | null {
+  const { width, height } = size;
+  if (!Number.isInteger(width) || !Number.isInteger(height)) {
+    return 'Width and height must be whole numbers of pixels';
+  }
+  if (width < MIN_CANVAS_DIMENSION || height < MIN_CANVAS_DIMENSION) {
+    return `Canvas must be at least ${MIN_CANVAS_DIMENSION} × ${MIN_CANVAS_DIMENSION} px`;
+  }
+  if (width > MAX_CANVAS_DIMENSION || height > MAX_CANVAS_DIMENSION) {
+    return `Canvas can be at most ${MAX_CANVAS_DIMENSION} × ${MAX_CANVAS_DIMENSION} px`;
+  }
+  return null;
+}
+
+/**
+ * Rescale frames from one canvas size to another so they keep their relative position and size.
+ * Font sizes and corner radii follow the smaller axis so text never overflows its frame.
+ */
+export function rescaleFrames(frames: FrameData[], from: CanvasSize, to: CanvasSize): FrameData[] {
+  const scaleX = to.width / from.width;
+  const scaleY = to.height / from.height;
+  const uniformScale = Math.min(scaleX, scaleY);
+
+  if (scaleX === 1 && scaleY === 1) return frames;
+
+  return frames.map(frame => ({
+    ...frame,
+    x: Math.round(frame.x * scaleX),
+    y: Math.round(frame.y * scaleY),
+    width: Math.max(1, Math.round(frame.width * scaleX)),
+    height: Math.max(1, Math.round(frame.height * scaleY)),
+    ...(frame.cornerRadius !== undefined ? { cornerRadius: Math.round(frame.cornerRadius * uniformScale) } : {}),
+    ...(frame.properties ? {
+      properties: {
+        ...frame.properties,
+        ...(frame.properties.fontSize ? { fontSize: Math.max(1, Math.round(frame.properties.fontSize * uniformScale)) } : {}),
+      }
+    } : {}),
+  }));
+}
@@ -0,0 +1,428 @@
+/**
+ * Collaboration
+ * Live co-editing of a template. Local edits are turned into small operations (one frame
+ * property, one page field, one metadata value, ...) and exchanged on a channel per template.
+ * Operations merge last-writer-wins per property using Lamport clocks, so two people changing
+ * different frames, or different properties of the same frame, never overwrite each other.
+ * Presence (who is in the template, their colour, selection and cursor) uses the same channel.
+ *
+ * The channel is a private Supabase Realtime channel, or the local stand-in server in
+ * scripts/collab-server.mjs when VITE_COLLAB_SERVER_URL is set.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { FrameData } from '@/lib/frameSchema';
+import type { TemplatePage } from '@/lib/templatePages';
+
+export interface CollaborativeDocument {
+  pages: TemplatePage[];
+  metadata: Record<string, unknown>;
+}
+
+// =====================================================
+// OPERATIONS
+// =====================================================
+
+export type OperationBody =
+  | { type: 'frame.add'; pageId: string; frame: FrameData; index: number }
+  | { type: 'frame.remove'; pageId: string; frameId: string }
+  | { type: 'frame.set'; pageId: string; frameId: string; key: string; value: unknown }
+  | { type: 'frame.order'; pageId: string; frameIds: string[] }
+  | { type: 'page.add'; page: TemplatePage; index: number }
+  | { type: 'page.remove'; pageId: string }
+  | { type: 'page.set'; pageId: string; key: 'name' | 'backgroundUrl'; value: string }
+  | { type: 'page.order'; pageIds: string[] }
+  | { type: 'meta.set'; key: string; value: unknown };
+
+export type Operation = OperationBody & { clock: number; sessionId: string };
+
+export interface OperationStamp {
+  clock: number;
+  sessionId: string;
+}
+
+const PAGE_KEYS = ['name', 'backgroundUrl'] as const;
+const FRAME_PROPERTIES_PREFIX = 'properties.';
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The property an operation writes. Operations on the same key are ordered by their stamp;
+ * adding and removing the same frame or page share a key so the later one wins.
+ */
+export function getOperationKey(op: OperationBody): string {
+  switch (op.type) {
+    case 'frame.add': return `frame:${op.frame.id}`;
+    case 'frame.remove': return `frame:${op.frameId}`;
+    case 'frame.set': return `frame:${op.frameId}:${op.key}`;
+    case 'frame.order': return `order:${op.pageId}`;
+    case 'page.add': return `page:${op.page.id}`;
+    case 'page.remove': return `page:${op.pageId}`;
+    case 'page.set': return `page:${op.pageId}:${op.key}`;
+    case 'page.order': return 'order:pages';
+    case 'meta.set': return `meta:${op.key}`;
+  }
+}
+
+/**
+ * Whether a stamp is newer than another; the session ID breaks ties between equal clocks
+ */
+export function isNewerStamp(stamp: OperationStamp, than: OperationStamp | undefined): boolean {
+  if (!than) return true;
+  return stamp.clock > than.clock || (stamp.clock === than.clock && stamp.sessionId > than.sessionId);
+}
+
+/**
+ * The keys a frame's properties are merged by, with style properties one level down
+ */
+function getFrameKeys(frame: FrameData): string[] {
+  const keys = Object.keys(frame).filter(key => key !== 'id' && key !== 'properties');
+  const propertyKeys = Object.keys(frame.properties || {}).map(key => FRAME_PROPERTIES_PREFIX + key);
+  return [...keys, ...propertyKeys];
+}
+
+function getFrameValue(frame: FrameData, key: string): unknown {
+  if (key.startsWith(FRAME_PROPERTIES_PREFIX)) {
+    return (frame.properties as Record<string, unknown> | undefined)?.[key.slice(FRAME_PROPERTIES_PREFIX.length)];
+  }
+  return (frame as Record<string, unknown>)[key];
+}
+
+function setFrameValue(frame: FrameData, key: string, value: unknown): FrameData {
+  if (key.startsWith(FRAME_PROPERTIES_PREFIX)) {
+    return {
+      ...frame,
+      properties: { ...frame.properties, [key.slice(FRAME_PROPERTIES_PREFIX.length)]: value },
+    };
+  }
+  return { ...frame, [key]: value };
+}
+
+/**
+ * Put items in the order of a list of IDs; items the list doesn't mention keep their place at the end
+ */
+function reorderById<T extends { id?: string }>(items: T[], ids: string[]): T[] {
+  const position = new Map(ids.map((id, index) => [id, index]));
+  return [...items].sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+}
+
+/**
+ * Describe the change between two documents as operations
+ */
+export function diffDocuments(prev: CollaborativeDocument, next: CollaborativeDocument): OperationBody[] {
+  const ops: OperationBody[] = [];
+  const prevPages = new Map(prev.pages.map(page => [page.id, page]));
+  const nextPageIds = new Set(next.pages.map(page => page.id));
+
+  prev.pages.forEach(page => {
+    if (!nextPageIds.has(page.id)) ops.push({ type: 'page.remove', pageId: page.id });
+  });
+
+  next.pages.forEach((page, index) => {
+    const before = prevPages.get(page.id);
+    if (!before) {
+      ops.push({ type: 'page.add', page, index });
+      return;
+    }
+
+    PAGE_KEYS.forEach(key => {
+      if (before[key] !== page[key]) ops.push({ type: 'page.set', pageId: page.id, key, value: page[key] });
+    });
+
+    const beforeFrames = new Map(before.frames.map(frame => [frame.id, frame]));
+    const nextFrameIds = new Set(page.frames.map(frame => frame.id));
+
+    before.frames.forEach(frame => {
+      if (!nextFrameIds.has(frame.id)) ops.push({ type: 'frame.remove', pageId: page.id, frameId: frame.id });
+    });
+
+    page.frames.forEach((frame, frameIndex) => {
+      const beforeFrame = beforeFrames.get(frame.id);
+      if (!beforeFrame) {
+        ops.push({ type: 'frame.add', pageId: page.id, frame, index: frameIndex });
+        return;
+      }
+
+      const keys = new Set([...getFrameKeys(beforeFrame), ...getFrameKeys(frame)]);
+      keys.forEach(key => {
+        const value = getFrameValue(frame, key);
+        if (!isEqual(getFrameValue(beforeFrame, key), value)) {
+          ops.push({ type: 'frame.set', pageId: page.id, frameId: frame.id, key, value });
+        }
+      });
+    });
+
+    const keptBefore = before.frames.filter(frame => nextFrameIds.has(frame.id)).map(frame => frame.id);
+    const keptAfter = page.frames.filter(frame => beforeFrames.has(frame.id)).map(frame => frame.id);
+    if (!isEqual(keptBefore, keptAfter)) {
+      ops.push({ type: 'frame.order', pageId: page.id, frameIds: page.frames.map(frame => frame.id) });
+    }
+  });
+
+  const keptPagesBefore = prev.pages.filter(page => nextPageIds.has(page.id)).map(page => page.id);
+  const keptPagesAfter = next.pages.filter(page => prevPages.has(page.id)).map(page => page.id);
+  if (!isEqual(keptPagesBefore, keptPagesAfter)) {
+    ops.push({ type: 'page.order', pageIds: next.pages.map(page => page.id) });
+  }
+
+  const metadataKeys = new Set([...Object.keys(prev.metadata), ...Object.keys(next.metadata)]);
+  metadataKeys.forEach(key => {
+    if (!isEqual(prev.metadata[key], next.metadata[key])) {
+      ops.push({ type: 'meta.set', key, value: next.metadata[key] });
+    }
+  });
+
+  return ops;
+}
+
+/**
+ * Apply an operation. Operations on frames or pages that no longer exist are ignored.
+ */
+export function applyOperation<T extends CollaborativeDocument>(doc: T, op: OperationBody): T {
+  const updatePage = (pageId: string, updater: (page: TemplatePage) => TemplatePage): T => ({
+    ...doc,
+    pages: doc.pages.map(page => (page.id === pageId ? updater(page) : page)),
+  });
+
+  switch (op.type) {
+    case 'frame.add':
+      return updatePage(op.pageId, page => {
+        if (page.frames.some(frame => frame.id === op.frame.id)) return page;
+        const frames = [...page.frames];
+        frames.splice(Math.min(op.index, frames.length), 0, op.frame);
+        return { ...page, frames };
+      });
+    case 'frame.remove':
+      return updatePage(op.pageId, page => ({ ...page, frames: page.frames.filter(frame => frame.id !== op.frameId) }));
+    case 'frame.set':
+      return updatePage(op.pageId, page => ({
+        ...page,
+        frames: page.frames.map(frame => (frame.id === op.frameId ? setFrameValue(frame, op.key, op.value) : frame)),
+      }));
+    case 'frame.order':
+      return updatePage(op.pageId, page => ({ ...page, frames: reorderById(page.frames, op.frameIds) }));
+    case 'page.add': {
+      if (doc.pages.some(page => page.id === op.page.id)) return doc;
+      const pages = [...doc.pages];
+      pages.splice(Math.min(op.index, pages.length), 0, op.page);
+      return { ...doc, pages };
+    }
+    case 'page.remove': {
+      // A template always keeps at least one page
+      const pages = doc.pages.filter(page => page.id !== op.pageId);
+      return pages.length > 0 ? { ...doc, pages } : doc;
+    }
+    case 'page.set':
+      return updatePage(op.pageId, page => ({ ...page, [op.key]: op.value }));
+    case 'page.order':
+      return { ...doc, pages: reorderById(doc.pages, op.pageIds) };
+    case 'meta.set':
+      return { ...doc, metadata: { ...doc.metadata, [op.key]: op.value } };
+  }
+}
+
+/**
+ * The operation that undoes another, given the document it is about to be applied to
+ */
+export function invertOperation(doc: CollaborativeDocument, op: OperationBody): OperationBody | null {
+  const page = 'pageId' in op ? doc.pages.find(p => p.id === op.pageId) : undefined;
+
+  switch (op.type) {
+    case 'frame.add':
+      return { type: 'frame.remove', pageId: op.pageId, frameId: op.frame.id };
+    case 'frame.remove': {
+      const index = page?.frames.findIndex(frame => frame.id === op.frameId) ?? -1;
+      return index < 0 ? null : { type: 'frame.add', pageId: op.pageId, frame: page.frames[index], index };
+    }
+    case 'frame.set': {
+      const frame = page?.frames.find(f => f.id === op.frameId);
+      return frame ? { ...op, value: getFrameValue(frame, op.key) } : null;
+    }
+    case 'frame.order':
+      return page ? { ...op, frameIds: page.frames.map(frame => frame.id) } : null;
+    case 'page.add':
+      return { type: 'page.remove', pageId: op.page.id };
+    case 'page.remove': {
+      const index = doc.pages.findIndex(p => p.id === op.pageId);
+      return index < 0 ? null : { type: 'page.add', page: doc.pages[index], index };
+    }
+    case 'page.set':
+      return page ? { ...op, value: page[op.key] } : null;
+    case 'page.order':
+      return { ...op, pageIds: doc.pages.map(p => p.id) };
+    case 'meta.set':
+      return { ...op, value: doc.metadata[op.key] };
+  }
+}
+
+// =====================================================
+// PRESENCE
+// =====================================================
+
+export interface CollaboratorPresence {
+  sessionId: string;
+  userId: string;
+  name: string;
+  color: string;
+  pageId: string | null;
+  selectedFrameId: string | null;
+}
+
+export interface CursorPosition {
+  sessionId: string;
+  pageId: string;
+  x: number;
+  y: number;
+}
+
+const COLLABORATOR_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#c026d3', '#ca8a04'];
+
+/**
+ * A stable colour for a user
+ */
+export function getCollaboratorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+// =====================================================
+// CHANNEL
+// =====================================================
+
+export type CollaborationEvent =
+  | { event: 'ops'; payload: { ops: Operation[] } }
+  | { event: 'cursor'; payload: { sessionId: string; pageId: string | null; x: number; y: number } }
+  | { event: 'sync_request'; payload: { sessionId: string } }
+  | { event: 'sync_state'; payload: { to: string; document: CollaborativeDocument; stamps: [string, OperationStamp][]; clock: number } };
+
+const COLLABORATION_EVENTS: CollaborationEvent['event'][] = ['ops', 'cursor', 'sync_request', 'sync_state'];
+
+export interface CollaborationHandlers {
+  onEvent: (event: CollaborationEvent) => void;
+  onPresence: (collaborators: CollaboratorPresence[]) => void;
+  onStatus: (connected: boolean) => void;
+}
+
+export interface CollaborationChannel {
+  send: (event: CollaborationEvent) => void;
+  track: (presence: CollaboratorPresence) => void;
+  leave: () => void;
+}
+
+/**
+ * Join a template's collaboration channel
+ */
+export function joinCollaborationChannel(
+  templateId: string,
+  presence: CollaboratorPresence,
+  handlers: CollaborationHandlers
+): CollaborationChannel {
+  const topic = `template:${templateId}`;
+  const localServerUrl = import.meta.env.VITE_COLLAB_SERVER_URL as string | undefined;
+
+  return localServerUrl
+    ? joinLocalChannel(localServerUrl, topic, presence, handlers)
+    : joinRealtimeChannel(topic, presence, handlers);
+}
+
+/**
+ * Supabase Realtime: broadcast for operations and cursors, presence for who is here.
+ * The channel is private; migration 019 limits it to people who can open the template.
+ */
+function joinRealtimeChannel(
+  topic: string,
+  presence: CollaboratorPresence,
+  handlers: CollaborationHandlers
+): CollaborationChannel {
+  const channel = supabase.channel(topic, {
+    config: {
+      private: true,
+      broadcast: { self: false },
+      presence: { key: presence.sessionId },
+    },
+  });
+
+  COLLABORATION_EVENTS.forEach(event => {
+    channel.on('broadcast', { event }, ({ payload }) => {
+      handlers.onEvent({ event, payload } as CollaborationEvent);
+    });
+  });
+
+  channel.on('presence', { event: 'sync' }, () => {
+    const state = channel.presenceState<CollaboratorPresence>();
+    handlers.onPresence(Object.values(state).map(entries => entries[0]));
+  });
+
+  channel.subscribe((status) => {
+    if (status === 'SUBSCRIBED') {
+      channel.track(presence);
+      handlers.onStatus(true);
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+      handlers.onStatus(false);
+    }
+  });
+
+  return {
+    send: (event) => {
+      channel.send({ type: 'broadcast', event: event.event, payload: event.payload });
+    },
+    track: (next) => {
+      channel.track(next);
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    },
+  };
+}
+
+/**
+ * The local stand-in server relays the same events over a plain WebSocket
+ */
+function joinLocalChannel(
+  url: string,
+  topic: string,
+  presence: CollaboratorPresence,
+  handlers: CollaborationHandlers
+): CollaborationChannel {
+  const socket = new WebSocket(url);
+  const queue: string[] = [];
+
+  const post = (message: object) => {
+    const data = JSON.stringify(message);
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(data);
+    } else {
+      queue.push(data);
+    }
+  };
+
+  socket.onopen = () => {
+    socket.send(JSON.stringify({ type: 'join', topic, presence }));
+    queue.splice(0).forEach(data => socket.send(data));
+    handlers.onStatus(true);
+  };
+
+  socket.onmessage = (message) => {
+    try {
+      const data = JSON.parse(message.data);
+      if (data.type === 'broadcast') {
+        handlers.onEvent({ event: data.event, payload: data.payload });
+      } else if (data.type === 'presence') {
+        handlers.onPresence(data.presences);
+      }
+    } catch (error) {
+      console.warn('Ignoring malformed collaboration message:', error);
+    }
+  };
+
+  socket.onclose = () => handlers.onStatus(false);
+
+  return {
+    send: (event) => post({ type: 'broadcast', event: event.event, payload: event.payload }),
+    track: (next) => post({ type: 'track', presence: next }),
+    leave: () => socket.close(),
+  };
+}
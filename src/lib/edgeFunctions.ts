@@ -0,0 +1,17 @@
+/**
+ * Edge Function Helpers
+ * Shared handling for calls made with `supabase.functions.invoke`
+ */
+
+/**
+ * Read the error message an Edge Function returned
+ */
+export async function getFunctionError(error: { message?: string; context?: Response }, fallback: string): Promise<string> {
+  try {
+    const body = await error?.context?.json();
+    if (body?.error) return body.error;
+  } catch {
+    // Not a JSON error response
+  }
+  return error?.message || fallback;
+}
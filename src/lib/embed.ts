@@ -0,0 +1,109 @@
+/**
+ * Embedded Generator
+ * Message protocol between `/embed/:templateId` and the page hosting it through
+ * `public/embed.js`. The generator sends events (`ready`, `resize`, `fieldChanged`,
+ * `generated`, `error`) and accepts commands (`setField`, `download`), only ever
+ * talking to an origin on the template's allowed list.
+ */
+
+import { updateTemplate } from '@/lib/supabase';
+import type { Template } from '@/integrations/supabase/types';
+
+/** Marks messages as ours so hosts can ignore everything else on the channel */
+export const EMBED_MESSAGE_SOURCE = 'dynamicflyer';
+
+export interface EmbedField {
+  key: string | null;
+  frameId: string;
+  label: string;
+}
+
+export type EmbedEvent =
+  | { type: 'ready'; templateId: string; name: string; fields: EmbedField[] }
+  | { type: 'resize'; height: number }
+  | { type: 'fieldChanged'; key: string | null; frameId: string; value: string; rawValue: string }
+  | { type: 'generated'; url: string; blob: Blob; fileName: string; mimeType: string } // url is revoked on the next design
+  | { type: 'error'; message: string };
+
+export type EmbedCommand =
+  | { command: 'setField'; key: string; value: string }
+  | { command: 'download' };
+
+/**
+ * Turn what someone typed into an origin (`https://example.org`), or null if it isn't one.
+ * A bare host is taken to be https.
+ */
+export function normalizeOrigin(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether an origin may embed a template
+ */
+export function isOriginAllowed(origin: string | null, template: Pick<Template, 'embed_allowed_origins'>): boolean {
+  return !!origin && (template.embed_allowed_origins || []).includes(origin);
+}
+
+/**
+ * Origin of the page this window is embedded in, if it can be told
+ */
+export function getEmbedParentOrigin(): string | null {
+  if (window.parent === window) return null;
+
+  // Chrome and Safari report the embedding page directly; elsewhere the referrer does
+  const ancestors = window.location.ancestorOrigins;
+  if (ancestors && ancestors.length > 0) return ancestors[0];
+
+  try {
+    return document.referrer ? new URL(document.referrer).origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send an event to the embedding page
+ */
+export function postEmbedEvent(targetOrigin: string, event: EmbedEvent): void {
+  window.parent.postMessage({ source: EMBED_MESSAGE_SOURCE, ...event }, targetOrigin);
+}
+
+/**
+ * Read a command from a postMessage payload, or null if it isn't one
+ */
+export function parseEmbedCommand(data: unknown): EmbedCommand | null {
+  if (!data || typeof data !== 'object') return null;
+  const message = data as Record<string, unknown>;
+  if (message.source !== EMBED_MESSAGE_SOURCE) return null;
+
+  if (message.command === 'setField' && typeof message.key === 'string') {
+    return { command: 'setField', key: message.key, value: String(message.value ?? '') };
+  }
+  if (message.command === 'download') return { command: 'download' };
+  return null;
+}
+
+/**
+ * HTML a site pastes to embed a template's generator
+ */
+export function getEmbedSnippet(templateId: string): string {
+  return [
+    `<div data-dynamicflyer-template="${templateId}"></div>`,
+    `<script src="${window.location.origin}/embed.js" async></script>`,
+  ].join('\n');
+}
+
+/**
+ * Save the origins allowed to embed a template
+ */
+export async function setEmbedAllowedOrigins(templateId: string, origins: string[]): Promise<Template> {
+  return updateTemplate(templateId, { embed_allowed_origins: origins });
+}
@@ -0,0 +1,36 @@
+/**
+ * Entitlements
+ * Reads the current user's plan limits and usage as enforced by the database.
+ * Template and export limits are checked by triggers; the client only displays the result.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type Entitlements = Database['public']['Functions']['get_my_entitlements']['Returns'][number];
+
+// HINT the database attaches to limit violations
+export const PLAN_LIMIT_HINT = 'plan_limit';
+
+/**
+ * Check whether an error is the database rejecting an action over the plan's limits
+ */
+export function isPlanLimitError(error: unknown): error is { message: string; hint: string } {
+  return typeof error === 'object' && error !== null && (error as { hint?: string }).hint === PLAN_LIMIT_HINT;
+}
+
+/**
+ * Get the signed-in user's plan, limits and current usage
+ */
+export async function getMyEntitlements(): Promise<Entitlements | null> {
+  const { data, error } = await supabase.rpc('get_my_entitlements');
+  if (error) throw error;
+  return data?.[0] || null;
+}
+
+/**
+ * Check whether a limit has been used up (-1 means unlimited)
+ */
+export function isLimitReached(used: number, limit: number): boolean {
+  return limit !== -1 && used >= limit;
+}
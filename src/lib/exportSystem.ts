@@ -3,17 +3,23 @@
  * Handles template exports with watermarking and format options
  */
 
-import { addWatermarkToCanvas, shouldApplyWatermark } from './watermark';
-import { checkFeatureAccess } from './featureGating';
+import { addWatermarkToCanvas, getWatermarkText, shouldApplyWatermark } from './watermark';
+import { checkFeatureAccess, getFeatureGate, getFeatureLimits } from './featureGating';
+import { loadPlans } from './plans';
 import { trackUsage } from './usageTracking';
 import { toast } from 'sonner';
+import type { CanvasSize } from './canvasSize';
+import type { FlyerSource } from './renderEngine';
+import { buildFlyerSvg } from './svgExport';
 
 export interface ExportOptions {
-  format: 'png' | 'jpg' | 'pdf' | 'webp';
+  format: 'png' | 'jpg' | 'pdf' | 'webp' | 'svg';
   quality: number; // 0-100
   resolution: 'low' | 'medium' | 'high' | 'ultra';
   watermark: boolean;
   filename?: string;
+  canvasSize?: CanvasSize; // Template design size; defaults to the source canvas size
+  source?: FlyerSource; // Frames and inputs to build vector output from; required for SVG
 }
 
 export interface ExportResult {
@@ -23,13 +29,38 @@ export interface ExportResult {
   filename?: string;
 }
 
+// Multipliers applied to the template's own canvas size
 export const EXPORT_RESOLUTIONS = {
-  low: { width: 600, height: 400, scale: 0.5 },
-  medium: { width: 1200, height: 800, scale: 1.0 },
-  high: { width: 2400, height: 1600, scale: 2.0 },
-  ultra: { width: 4800, height: 3200, scale: 4.0 },
+  low: { scale: 0.5 },
+  medium: { scale: 1.0 },
+  high: { scale: 2.0 },
+  ultra: { scale: 4.0 },
 };
 
+/**
+ * Get output pixel dimensions for a template size at an export resolution
+ */
+export function getExportDimensions(
+  size: CanvasSize,
+  resolution: keyof typeof EXPORT_RESOLUTIONS
+): CanvasSize {
+  const { scale } = EXPORT_RESOLUTIONS[resolution];
+  return {
+    width: Math.round(size.width * scale),
+    height: Math.round(size.height * scale),
+  };
+}
+
+/**
+ * Failed export result naming the plan that unlocks a feature
+ */
+function featureGateError(feature: string): ExportResult {
+  return {
+    success: false,
+    error: getFeatureGate(feature)?.message || 'Upgrade your plan to use this export option',
+  };
+}
+
 /**
  * Export template with options
  */
@@ -40,6 +71,9 @@ export async function exportTemplate(
   userId: string
 ): Promise<ExportResult> {
   try {
+    // Gates and watermarks below read the plan catalog
+    await loadPlans().catch((error) => console.warn('Failed to load plans, using the free plan:', error));
+
     // Check if user can export
     if (!checkFeatureAccess('export_template', subscriptionTier)) {
       return {
@@ -51,25 +85,26 @@ export async function exportTemplate(
     // Check high-resolution export access
     if (options.resolution === 'high' || options.resolution === 'ultra') {
       if (!checkFeatureAccess('high_res_export', subscriptionTier)) {
-        return {
-          success: false,
-          error: 'High-resolution export requires Student Pro or higher'
-        };
+        return featureGateError('high_res_export');
       }
     }
 
     // Check PDF export access
     if (options.format === 'pdf') {
       if (!checkFeatureAccess('pdf_export', subscriptionTier)) {
-        return {
-          success: false,
-          error: 'PDF export requires Creator Pro or higher'
-        };
+        return featureGateError('pdf_export');
+      }
+    }
+
+    // Check SVG export access
+    if (options.format === 'svg') {
+      if (!checkFeatureAccess('svg_export', subscriptionTier)) {
+        return featureGateError('svg_export');
       }
     }
 
     // Create export canvas with proper resolution
-    const exportCanvas = createExportCanvas(canvas, options.resolution);
+    const exportCanvas = createExportCanvas(canvas, options.resolution, options.canvasSize);
     
     // Apply watermark if needed
     let finalCanvas = exportCanvas;
@@ -101,13 +136,18 @@ export async function exportTemplate(
         exportData = await exportToPDF(finalCanvas, options);
         filename = `${options.filename || 'template'}.pdf`;
         break;
+
+      case 'svg':
+        exportData = await exportToSVG(options, subscriptionTier);
+        filename = `${options.filename || 'template'}.svg`;
+        break;
         
       default:
         throw new Error(`Unsupported export format: ${options.format}`);
     }
 
-    // Track usage
-    await trackUsage(userId, {
+    // Track usage; the database rejects exports over the monthly quota
+    const usage = await trackUsage(userId, {
       action: 'template_exported',
       metadata: {
         format: options.format,
@@ -115,7 +155,14 @@ export async function exportTemplate(
         quality: options.quality,
         watermark: options.watermark,
       }
-    }, subscriptionTier, {} as any);
+    });
+
+    if (usage.limitReached) {
+      return {
+        success: false,
+        error: usage.reason
+      };
+    }
 
     return {
       success: true,
@@ -137,9 +184,13 @@ export async function exportTemplate(
  */
 function createExportCanvas(
   sourceCanvas: HTMLCanvasElement,
-  resolution: keyof typeof EXPORT_RESOLUTIONS
+  resolution: keyof typeof EXPORT_RESOLUTIONS,
+  canvasSize?: CanvasSize
 ): HTMLCanvasElement {
-  const res = EXPORT_RESOLUTIONS[resolution];
+  const res = getExportDimensions(
+    canvasSize || { width: sourceCanvas.width, height: sourceCanvas.height },
+    resolution
+  );
   const exportCanvas = document.createElement('canvas');
   exportCanvas.width = res.width;
   exportCanvas.height = res.height;
@@ -240,6 +291,51 @@ async function exportToPDF(canvas: HTMLCanvasElement, options: ExportOptions): P
   }
 }
 
+/**
+ * Export template as a vector SVG
+ */
+async function exportToSVG(options: ExportOptions, subscriptionTier: string): Promise<Blob> {
+  if (!options.source) {
+    throw new Error('SVG export needs the template frames and inputs');
+  }
+
+  const watermarkText = options.watermark && shouldApplyWatermark(subscriptionTier)
+    ? getWatermarkText(subscriptionTier)
+    : undefined;
+
+  const svg = await buildFlyerSvg(options.source, { watermarkText });
+  return new Blob([svg], { type: 'image/svg+xml' });
+}
+
+/**
+ * Render a vector SVG without recording an export against the user's quota, for callers
+ * that count the output themselves (the public generator records template generations)
+ */
+export async function renderSVGExport(
+  options: ExportOptions,
+  subscriptionTier: string
+): Promise<ExportResult> {
+  try {
+    await loadPlans().catch((error) => console.warn('Failed to load plans, using the free plan:', error));
+
+    if (!checkFeatureAccess('svg_export', subscriptionTier)) {
+      return featureGateError('svg_export');
+    }
+
+    return {
+      success: true,
+      data: await exportToSVG(options, subscriptionTier),
+      filename: `${options.filename || 'template'}.svg`
+    };
+  } catch (error) {
+    console.error('SVG export failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'SVG export failed'
+    };
+  }
+}
+
 /**
  * Download exported file
  */
@@ -280,15 +376,17 @@ export function downloadExport(
  * Get available export formats for subscription tier
  */
 export function getAvailableExportFormats(subscriptionTier: string): string[] {
+  const limits = getFeatureLimits(subscriptionTier);
   const formats = ['png', 'jpg', 'webp'];
-  
-  if (subscriptionTier === 'creator_pro' || 
-      subscriptionTier === 'department' || 
-      subscriptionTier === 'church' || 
-      subscriptionTier === 'faculty') {
+
+  if (limits.pdfExport) {
     formats.push('pdf');
   }
-  
+
+  if (limits.svgExport) {
+    formats.push('svg');
+  }
+
   return formats;
 }
 
@@ -297,22 +395,12 @@ export function getAvailableExportFormats(subscriptionTier: string): string[] {
  */
 export function getAvailableResolutions(subscriptionTier: string): string[] {
   const resolutions = ['low', 'medium'];
-  
-  if (subscriptionTier === 'student_pro' || 
-      subscriptionTier === 'creator_pro' || 
-      subscriptionTier === 'department' || 
-      subscriptionTier === 'church' || 
-      subscriptionTier === 'faculty') {
-    resolutions.push('high');
-  }
-  
-  if (subscriptionTier === 'creator_pro' || 
-      subscriptionTier === 'department' || 
-      subscriptionTier === 'church' || 
-      subscriptionTier === 'faculty') {
-    resolutions.push('ultra');
+
+  // Same gate exportTemplate applies to high and ultra
+  if (getFeatureLimits(subscriptionTier).highResExport) {
+    resolutions.push('high', 'ultra');
   }
-  
+
   return resolutions;
 }
 
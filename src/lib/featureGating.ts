@@ -1,22 +1,13 @@
 /**
  * Feature Gating System
- * Controls access to features based on subscription tiers and usage limits
+ * Controls access to features based on subscription tiers and usage limits.
+ * Which plan unlocks a feature comes from the `plans` table (see ./plans).
  */
 
 import { toast } from 'sonner';
+import { getLowestPlanWith, getPlan, FREE_PLAN_ID, type PlanFeatures, type PlanLimits } from './plans';
 
-export interface FeatureLimits {
-  templates: number;
-  exports: number;
-  storage: string;
-  customFonts: boolean;
-  pdfExport: boolean;
-  highResExport: boolean;
-  bulkGeneration: boolean;
-  whiteLabel: boolean;
-  apiAccess: boolean;
-  prioritySupport: boolean;
-}
+export interface FeatureLimits extends PlanLimits, PlanFeatures {}
 
 export interface FeatureGate {
   feature: string;
@@ -25,135 +16,89 @@ export interface FeatureGate {
   upgradeUrl?: string;
 }
 
-export const FEATURE_GATES: Record<string, FeatureGate> = {
+interface FeatureGateDefinition {
+  feature: string;
+  entitlement?: keyof PlanFeatures; // Plan flag that unlocks the feature; none = every plan
+  message: string; // `{plan}` is replaced with the lowest plan that unlocks the feature
+  upgradeUrl?: string;
+}
+
+export const FEATURE_GATES: Record<string, FeatureGateDefinition> = {
   create_template: {
     feature: 'Create Template',
-    requiredTier: 'free',
     message: 'You can create templates with your current plan.',
   },
   export_template: {
     feature: 'Export Template',
-    requiredTier: 'free',
     message: 'You can export templates with your current plan.',
   },
   upload_font: {
     feature: 'Upload Custom Font',
-    requiredTier: 'student_pro',
-    message: 'Custom font uploads require Student Pro or higher.',
+    entitlement: 'customFonts',
+    message: 'Custom font uploads require {plan} or higher.',
     upgradeUrl: '/dashboard/subscription',
   },
   pdf_export: {
     feature: 'PDF Export',
-    requiredTier: 'creator_pro',
-    message: 'PDF export requires Creator Pro or higher.',
+    entitlement: 'pdfExport',
+    message: 'PDF export requires {plan} or higher.',
+    upgradeUrl: '/dashboard/subscription',
+  },
+  svg_export: {
+    feature: 'SVG Export',
+    entitlement: 'svgExport',
+    message: 'SVG export requires {plan} or higher.',
     upgradeUrl: '/dashboard/subscription',
   },
   high_res_export: {
     feature: 'High-Resolution Export',
-    requiredTier: 'student_pro',
-    message: 'High-resolution exports require Student Pro or higher.',
+    entitlement: 'highResExport',
+    message: 'High-resolution exports require {plan} or higher.',
     upgradeUrl: '/dashboard/subscription',
   },
   bulk_generation: {
     feature: 'Bulk Generation',
-    requiredTier: 'department',
-    message: 'Bulk generation requires Department plan or higher.',
+    entitlement: 'bulkGeneration',
+    message: 'Bulk generation requires {plan} or higher.',
     upgradeUrl: '/dashboard/subscription',
   },
   white_label: {
     feature: 'White Label',
-    requiredTier: 'church',
-    message: 'White label features require Church plan or higher.',
+    entitlement: 'whiteLabel',
+    message: 'White label features require {plan} or higher.',
     upgradeUrl: '/dashboard/subscription',
   },
   api_access: {
     feature: 'API Access',
-    requiredTier: 'faculty',
-    message: 'API access requires Faculty plan or higher.',
+    entitlement: 'apiAccess',
+    message: 'API access requires {plan} or higher.',
     upgradeUrl: '/dashboard/subscription',
   },
   priority_support: {
     feature: 'Priority Support',
-    requiredTier: 'student_pro',
-    message: 'Priority support requires Student Pro or higher.',
+    entitlement: 'prioritySupport',
+    message: 'Priority support requires {plan} or higher.',
     upgradeUrl: '/dashboard/subscription',
   },
 };
 
-export const SUBSCRIPTION_FEATURES: Record<string, FeatureLimits> = {
-  free: {
-    templates: 3,
-    exports: 10,
-    storage: '100MB',
-    customFonts: false,
-    pdfExport: false,
-    highResExport: false,
-    bulkGeneration: false,
-    whiteLabel: false,
-    apiAccess: false,
-    prioritySupport: false,
-  },
-  student_pro: {
-    templates: 30,
-    exports: 150,
-    storage: '1GB',
-    customFonts: true,
-    pdfExport: false,
-    highResExport: true,
-    bulkGeneration: false,
-    whiteLabel: false,
-    apiAccess: false,
-    prioritySupport: true,
-  },
-  creator_pro: {
-    templates: -1, // Unlimited
-    exports: 600,
-    storage: '5GB',
-    customFonts: true,
-    pdfExport: true,
-    highResExport: true,
-    bulkGeneration: false,
-    whiteLabel: false,
-    apiAccess: false,
-    prioritySupport: true,
-  },
-  department: {
-    templates: -1,
-    exports: 1200,
-    storage: '10GB',
-    customFonts: true,
-    pdfExport: true,
-    highResExport: true,
-    bulkGeneration: true,
-    whiteLabel: false,
-    apiAccess: false,
-    prioritySupport: true,
-  },
-  church: {
-    templates: -1,
-    exports: 2500,
-    storage: '20GB',
-    customFonts: true,
-    pdfExport: true,
-    highResExport: true,
-    bulkGeneration: true,
-    whiteLabel: true,
-    apiAccess: false,
-    prioritySupport: true,
-  },
-  faculty: {
-    templates: -1,
-    exports: 6000,
-    storage: '50GB',
-    customFonts: true,
-    pdfExport: true,
-    highResExport: true,
-    bulkGeneration: true,
-    whiteLabel: true,
-    apiAccess: true,
-    prioritySupport: true,
-  },
-};
+/**
+ * Get a feature's gate, with the plan that unlocks it resolved from the current plans
+ */
+export function getFeatureGate(feature: string): FeatureGate | null {
+  const definition = FEATURE_GATES[feature];
+  if (!definition) return null;
+
+  const requiredPlan = definition.entitlement ? getLowestPlanWith(definition.entitlement) : null;
+  const planName = requiredPlan?.name || 'a higher plan';
+
+  return {
+    feature: definition.feature,
+    requiredTier: requiredPlan?.id || FREE_PLAN_ID,
+    message: definition.message.replace('{plan}', planName),
+    upgradeUrl: definition.upgradeUrl,
+  };
+}
 
 /**
  * Check if user can access a feature
@@ -169,23 +114,20 @@ export function canAccessFeature(
   const gate = FEATURE_GATES[feature];
   if (!gate) return true; // No gate defined, allow access
 
-  const currentTierIndex = getTierIndex(currentTier);
-  const requiredTierIndex = getTierIndex(gate.requiredTier);
+  const limits = getFeatureLimits(currentTier);
 
-  if (currentTierIndex < requiredTierIndex) {
+  if (gate.entitlement && !limits[gate.entitlement]) {
     return false;
   }
 
   // Check usage limits for specific features
   if (feature === 'create_template' && usageStats) {
-    const limits = SUBSCRIPTION_FEATURES[currentTier];
     if (limits.templates !== -1 && usageStats.templates_created >= limits.templates) {
       return false;
     }
   }
 
   if (feature === 'export_template' && usageStats) {
-    const limits = SUBSCRIPTION_FEATURES[currentTier];
     if (limits.exports !== -1 && usageStats.monthly_exports >= limits.exports) {
       return false;
     }
@@ -194,14 +136,6 @@ export function canAccessFeature(
   return true;
 }
 
-/**
- * Get tier index for comparison
- */
-function getTierIndex(tier: string): number {
-  const tierOrder = ['free', 'student_pro', 'creator_pro', 'department', 'church', 'faculty'];
-  return tierOrder.indexOf(tier);
-}
-
 /**
  * Check feature access and show upgrade prompt if needed
  */
@@ -216,7 +150,7 @@ export function checkFeatureAccess(
   const hasAccess = canAccessFeature(feature, currentTier, usageStats);
   
   if (!hasAccess) {
-    const gate = FEATURE_GATES[feature];
+    const gate = getFeatureGate(feature);
     if (gate) {
       showUpgradePrompt(gate);
     }
@@ -245,7 +179,8 @@ function showUpgradePrompt(gate: FeatureGate): void {
  * Get feature limits for current tier
  */
 export function getFeatureLimits(tier: string): FeatureLimits {
-  return SUBSCRIPTION_FEATURES[tier] || SUBSCRIPTION_FEATURES.free;
+  const plan = getPlan(tier);
+  return { ...plan.limits, ...plan.entitlements };
 }
 
 /**
@@ -255,8 +190,8 @@ export function hasReachedTemplateLimit(
   currentTier: string,
   templatesCreated: number
 ): boolean {
-  const limits = SUBSCRIPTION_FEATURES[currentTier];
-  if (!limits || limits.templates === -1) return false;
+  const limits = getFeatureLimits(currentTier);
+  if (limits.templates === -1) return false;
   return templatesCreated >= limits.templates;
 }
 
@@ -267,8 +202,8 @@ export function hasReachedExportLimit(
   currentTier: string,
   monthlyExports: number
 ): boolean {
-  const limits = SUBSCRIPTION_FEATURES[currentTier];
-  if (!limits || limits.exports === -1) return false;
+  const limits = getFeatureLimits(currentTier);
+  if (limits.exports === -1) return false;
   return monthlyExports >= limits.exports;
 }
 
@@ -279,8 +214,8 @@ export function getRemainingTemplates(
   currentTier: string,
   templatesCreated: number
 ): number {
-  const limits = SUBSCRIPTION_FEATURES[currentTier];
-  if (!limits || limits.templates === -1) return -1; // Unlimited
+  const limits = getFeatureLimits(currentTier);
+  if (limits.templates === -1) return -1; // Unlimited
   return Math.max(0, limits.templates - templatesCreated);
 }
 
@@ -291,8 +226,8 @@ export function getRemainingExports(
   currentTier: string,
   monthlyExports: number
 ): number {
-  const limits = SUBSCRIPTION_FEATURES[currentTier];
-  if (!limits || limits.exports === -1) return -1; // Unlimited
+  const limits = getFeatureLimits(currentTier);
+  if (limits.exports === -1) return -1; // Unlimited
   return Math.max(0, limits.exports - monthlyExports);
 }
 
@@ -323,8 +258,7 @@ export function getUpgradeRecommendation(
     monthly_exports: number;
   }
 ): string | null {
-  const limits = SUBSCRIPTION_FEATURES[currentTier];
-  if (!limits) return null;
+  const limits = getFeatureLimits(currentTier);
 
   // Check if user is hitting limits
   if (limits.templates !== -1 && usageStats.templates_created >= limits.templates * 0.8) {
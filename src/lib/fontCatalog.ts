@@ -0,0 +1,153 @@
+/**
+ * Font Catalog
+ * Open-licence fonts bundled with the app under `public/fonts/<id>/` (Latin woff2 subsets
+ * with their licence files), so text renders the same on every machine without a CDN.
+ * Variable families cover their whole weight range with one file per style.
+ * Imports nothing, so the API's renderer can read it too.
+ */
+
+export const FONT_CATEGORIES = [
+  { value: 'sans-serif', label: 'Sans Serif' },
+  { value: 'serif', label: 'Serif' },
+  { value: 'display', label: 'Display' },
+  { value: 'handwriting', label: 'Handwriting' },
+  { value: 'monospace', label: 'Monospace' },
+] as const;
+
+export type FontCategory = typeof FONT_CATEGORIES[number]['value'];
+
+export const FONT_WEIGHTS = [
+  { value: 100, label: 'Thin' },
+  { value: 200, label: 'Extra Light' },
+  { value: 300, label: 'Light' },
+  { value: 400, label: 'Regular' },
+  { value: 500, label: 'Medium' },
+  { value: 600, label: 'Semi Bold' },
+  { value: 700, label: 'Bold' },
+  { value: 800, label: 'Extra Bold' },
+  { value: 900, label: 'Black' },
+] as const;
+
+export type FontWeight = typeof FONT_WEIGHTS[number]['value'];
+export type FontStyle = 'normal' | 'italic';
+
+// One font file, in the shape the font loader takes
+export interface CatalogFontFace {
+  id: string;
+  family: string;
+  weight: string;
+  style: FontStyle;
+  format: 'woff2';
+  url: string; // Relative to the site root
+}
+
+export interface CatalogFont {
+  id: string; // Folder under public/fonts
+  family: string;
+  category: FontCategory;
+  minWeight: FontWeight;
+  maxWeight: FontWeight;
+  variable: boolean; // One wght-axis file per style; otherwise a single 400 file
+  italic: boolean;
+  license: 'OFL-1.1' | 'Apache-2.0';
+}
+
+const variable = (
+  id: string,
+  family: string,
+  category: FontCategory,
+  minWeight: FontWeight,
+  maxWeight: FontWeight,
+  italic: boolean,
+  license: CatalogFont['license'] = 'OFL-1.1'
+): CatalogFont => ({ id, family, category, minWeight, maxWeight, variable: true, italic, license });
+
+const regular = (
+  id: string,
+  family: string,
+  category: FontCategory,
+  license: CatalogFont['license'] = 'OFL-1.1'
+): CatalogFont => ({ id, family, category, minWeight: 400, maxWeight: 400, variable: false, italic: false, license });
+
+export const FONT_CATALOG: CatalogFont[] = [
+  variable('dm-sans', 'DM Sans', 'sans-serif', 100, 900, true),
+  variable('inter', 'Inter', 'sans-serif', 100, 900, true),
+  variable('montserrat', 'Montserrat', 'sans-serif', 100, 900, true),
+  variable('nunito', 'Nunito', 'sans-serif', 200, 900, true),
+  variable('open-sans', 'Open Sans', 'sans-serif', 300, 800, true),
+  variable('outfit', 'Outfit', 'sans-serif', 100, 900, false),
+  variable('raleway', 'Raleway', 'sans-serif', 100, 900, true),
+  variable('roboto', 'Roboto', 'sans-serif', 100, 900, true),
+  variable('work-sans', 'Work Sans', 'sans-serif', 100, 900, true),
+  variable('eb-garamond', 'EB Garamond', 'serif', 400, 800, true),
+  variable('lora', 'Lora', 'serif', 400, 700, true),
+  variable('merriweather', 'Merriweather', 'serif', 300, 900, true),
+  variable('playfair-display', 'Playfair Display', 'serif', 400, 900, true),
+  variable('roboto-slab', 'Roboto Slab', 'serif', 100, 900, false, 'Apache-2.0'),
+  variable('source-serif-4', 'Source Serif 4', 'serif', 200, 900, true),
+  regular('abril-fatface', 'Abril Fatface', 'display'),
+  regular('anton', 'Anton', 'display'),
+  regular('bebas-neue', 'Bebas Neue', 'display'),
+  regular('lobster', 'Lobster', 'display'),
+  variable('oswald', 'Oswald', 'display', 200, 700, false),
+  variable('caveat', 'Caveat', 'handwriting', 400, 700, false),
+  variable('dancing-script', 'Dancing Script', 'handwriting', 400, 700, false),
+  regular('great-vibes', 'Great Vibes', 'handwriting'),
+  regular('pacifico', 'Pacifico', 'handwriting'),
+  regular('permanent-marker', 'Permanent Marker', 'handwriting', 'Apache-2.0'),
+  variable('fira-code', 'Fira Code', 'monospace', 300, 700, false),
+  variable('jetbrains-mono', 'JetBrains Mono', 'monospace', 100, 800, true),
+];
+
+// Web-safe families offered only when the browser actually has them installed
+export const SYSTEM_FONTS = [
+  'Arial',
+  'Helvetica',
+  'Verdana',
+  'Tahoma',
+  'Trebuchet MS',
+  'Times New Roman',
+  'Georgia',
+  'Courier New',
+  'Impact',
+  'Comic Sans MS',
+];
+
+const catalogByFamily = new Map(FONT_CATALOG.map(font => [font.family, font]));
+
+/**
+ * Find a bundled font by family name
+ */
+export function getCatalogFont(family: string): CatalogFont | undefined {
+  return catalogByFamily.get(family);
+}
+
+/**
+ * Weights a bundled font can draw
+ */
+export function getCatalogFontWeights(font: CatalogFont): FontWeight[] {
+  return FONT_WEIGHTS.map(weight => weight.value).filter(weight => weight >= font.minWeight && weight <= font.maxWeight);
+}
+
+/**
+ * The font files of a bundled family, in the shape the font loader takes
+ */
+export function getCatalogFontFaces(font: CatalogFont, styles: FontStyle[] = ['normal', 'italic']): CatalogFontFace[] {
+  return styles
+    .filter(style => style === 'normal' || font.italic)
+    .map((style): CatalogFontFace => ({
+      id: `catalog:${font.id}:${style}`,
+      family: font.family,
+      weight: font.variable ? `${font.minWeight} ${font.maxWeight}` : '400',
+      style,
+      format: 'woff2',
+      url: `/fonts/${font.id}/${font.id}-latin-${font.variable ? 'wght' : '400'}-${style}.woff2`,
+    }));
+}
+
+/**
+ * Label for a weight, e.g. "Semi Bold"
+ */
+export function getFontWeightLabel(weight: number): string {
+  return FONT_WEIGHTS.find(option => option.value === weight)?.label || String(weight);
+}
@@ -1,17 +1,51 @@
 /**
  * Font Management Utilities
- * Handle custom font upload, loading, and application
+ * Handle custom font upload, loading, and application. Uploaded fonts are stored in the
+ * user-fonts bucket and recorded on the templates that use them.
  */
 
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { FrameData } from '@/lib/frameSchema';
+import {
+  FONT_CATALOG,
+  SYSTEM_FONTS,
+  getCatalogFont,
+  getCatalogFontFaces,
+  getCatalogFontWeights,
+  type FontCategory,
+  type FontStyle,
+} from '@/lib/fontCatalog';
+
+export type FontFormat = Tables<'fonts'>['format'];
+
+/**
+ * A font file uploaded to the user-fonts bucket
+ */
 export interface CustomFont {
   id: string;
-  name: string;
+  name: string; // Original file name
   family: string;
   url: string;
-  weight?: string;
-  style?: string;
+  weight: string;
+  style: string;
+  format: FontFormat;
+  fileSize: number;
+  userId: string;
+  organizationId: string | null;
   isLoaded: boolean;
-  file?: File;
+}
+
+/**
+ * What a template records about each uploaded font its text uses
+ */
+export interface TemplateFont {
+  id: string;
+  family: string;
+  weight: string;
+  style: string;
+  format: FontFormat;
+  url: string;
 }
 
 export interface FontValidationResult {
@@ -20,8 +54,46 @@ export interface FontValidationResult {
   fontFamily?: string;
   weight?: string;
   style?: string;
+  format?: FontFormat;
 }
 
+/**
+ * A family the font picker offers, with the weights and styles it can really draw
+ */
+export interface FontOption {
+  family: string;
+  source: 'uploaded' | 'bundled' | 'system';
+  category?: FontCategory;
+  weights: number[];
+  italic: boolean;
+}
+
+export interface FontUploadDetails {
+  family: string;
+  weight: string;
+  style: string;
+}
+
+const FONT_BUCKET = 'user-fonts';
+
+const FONT_FORMATS: Record<string, FontFormat> = {
+  woff2: 'woff2',
+  woff: 'woff',
+  ttf: 'truetype',
+  otf: 'opentype',
+};
+
+const FONT_CONTENT_TYPES: Record<FontFormat, string> = {
+  woff2: 'font/woff2',
+  woff: 'font/woff',
+  truetype: 'font/ttf',
+  opentype: 'font/otf',
+};
+
+// Fonts added to the document this session, by URL, so each file is fetched once
+const fontLoads = new Map<string, Promise<boolean>>();
+const loadedFonts = new Map<string, TemplateFont>();
+
 /**
  * Validate font file
  */
@@ -61,124 +133,228 @@ export const validateFontFile = (file: File): FontValidationResult => {
     .replace(/[-_]/g, ' ')
     .replace(/\b\w/g, l => l.toUpperCase());
 
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const typeExtension = file.type.split('/').pop()?.replace(/^(x-)?font-/, '') || '';
+
   return {
     isValid: true,
     fontFamily,
-    weight: 'normal',
-    style: 'normal'
+    weight: '400',
+    style: 'normal',
+    format: FONT_FORMATS[extension] || FONT_FORMATS[typeExtension] || 'woff2'
   };
 };
 
 /**
- * Load custom font into the document
+ * Load a font into the document. Safe to call repeatedly; each URL is only fetched once.
  */
-export const loadCustomFont = async (font: CustomFont): Promise<boolean> => {
-  try {
-    // Create font face
-    const fontFace = new FontFace(font.family, `url(${font.url})`, {
+export const loadCustomFont = (font: TemplateFont): Promise<boolean> => {
+  const existing = fontLoads.get(font.url);
+  if (existing) return existing;
+
+  const load = (async () => {
+    const fontFace = new FontFace(font.family, `url("${font.url}") format("${font.format}")`, {
       weight: font.weight || 'normal',
       style: font.style || 'normal'
     });
 
-    // Load the font
-    const loadedFont = await fontFace.load();
-    
-    // Add to document fonts
-    document.fonts.add(loadedFont);
-    
-    return true;
-  } catch (error) {
-    console.error('Error loading font:', error);
-    return false;
-  }
+    // Added before loading so the document's loadingdone event tells canvases to redraw
+    document.fonts.add(fontFace);
+    try {
+      await fontFace.load();
+      loadedFonts.set(font.url, font);
+      return true;
+    } catch (error) {
+      console.error(`Error loading font ${font.family}:`, error);
+      document.fonts.delete(fontFace);
+      fontLoads.delete(font.url);
+      return false;
+    }
+  })();
+
+  fontLoads.set(font.url, load);
+  return load;
 };
 
 /**
- * Load font from file and create object URL
+ * Load several fonts, e.g. every font a template uses
  */
-export const loadFontFromFile = async (file: File): Promise<CustomFont> => {
-  const validation = validateFontFile(file);
-  
-  if (!validation.isValid) {
-    throw new Error(validation.error);
-  }
+export const loadFonts = async (fonts: TemplateFont[]): Promise<void> => {
+  await Promise.all(fonts.map(loadCustomFont));
+};
 
-  const fontId = `custom-font-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  const url = URL.createObjectURL(file);
-
-  const font: CustomFont = {
-    id: fontId,
-    name: file.name,
-    family: validation.fontFamily!,
-    url,
-    weight: validation.weight,
-    style: validation.style,
-    isLoaded: false,
-    file
-  };
+/**
+ * Load a bundled font family from the catalog. Resolves false for families not in it.
+ */
+export const loadCatalogFont = async (family: string, styles?: FontStyle[]): Promise<boolean> => {
+  const font = getCatalogFont(family);
+  if (!font) return false;
+  const results = await Promise.all(getCatalogFontFaces(font, styles).map(loadCustomFont));
+  return results.every(Boolean);
+};
 
-  // Load the font
-  const success = await loadCustomFont(font);
-  font.isLoaded = success;
+/**
+ * Uploaded and bundled fonts loaded into the document this session
+ */
+export const getLoadedFonts = (): TemplateFont[] => [...loadedFonts.values()];
 
-  return font;
+/**
+ * Get the families of the uploaded and bundled fonts loaded this session
+ */
+export const getAvailableFonts = (): string[] => {
+  return [...new Set(getLoadedFonts().map(font => font.family))];
 };
 
+const toCustomFont = (row: Tables<'fonts'>): CustomFont => ({
+  id: row.id,
+  name: row.file_name,
+  family: row.family,
+  url: row.url,
+  weight: row.weight,
+  style: row.style,
+  format: row.format,
+  fileSize: row.file_size,
+  userId: row.user_id,
+  organizationId: row.organization_id,
+  isLoaded: loadedFonts.has(row.url),
+});
+
 /**
- * Get all available fonts (system + custom)
+ * Get the uploaded fonts of a workspace: the user's own, or an organization's shared fonts
  */
-export const getAvailableFonts = (): string[] => {
-  // Only return custom fonts, not system fonts (to avoid duplicates)
-  const customFonts = getCustomFonts();
-  const customFontNames = customFonts.map(font => font.family);
+export const getCustomFonts = async (organizationId: string | null): Promise<CustomFont[]> => {
+  let query = supabase.from('fonts').select('*').order('family').order('weight');
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  } else {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+    query = query.is('organization_id', null).eq('user_id', user.id);
+  }
 
-  return customFontNames;
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error loading fonts:', error);
+    throw error;
+  }
+  return (data || []).map(toCustomFont);
 };
 
 /**
- * Save custom font to localStorage
+ * Upload a font file to a workspace and load it
  */
-export const saveCustomFont = (font: CustomFont): void => {
-  try {
-    const existingFonts = getCustomFonts();
-    const updatedFonts = [...existingFonts.filter(f => f.id !== font.id), font];
-    localStorage.setItem('customFonts', JSON.stringify(updatedFonts));
-  } catch (error) {
+export const uploadCustomFont = async (
+  file: File,
+  details: FontUploadDetails,
+  organizationId: string | null
+): Promise<CustomFont> => {
+  const validation = validateFontFile(file);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Please sign in again');
+
+  const format = validation.format!;
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'woff2';
+  const storagePath = `${user.id}/${crypto.randomUUID()}.${extension}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(FONT_BUCKET)
+    .upload(storagePath, file, { contentType: FONT_CONTENT_TYPES[format], cacheControl: '31536000' });
+  if (uploadError) {
+    console.error('Error uploading font file:', uploadError);
+    throw new Error('Failed to upload font');
+  }
+
+  const { data: urlData } = supabase.storage.from(FONT_BUCKET).getPublicUrl(storagePath);
+
+  const { data, error } = await supabase
+    .from('fonts')
+    .insert({
+      user_id: user.id,
+      organization_id: organizationId,
+      family: details.family.trim() || validation.fontFamily!,
+      weight: details.weight,
+      style: details.style === 'italic' ? 'italic' : 'normal',
+      format,
+      file_name: file.name,
+      file_size: file.size,
+      storage_path: storagePath,
+      url: urlData.publicUrl,
+    })
+    .select()
+    .single();
+
+  if (error) {
     console.error('Error saving font:', error);
+    // Don't leave an orphaned file behind
+    await supabase.storage.from(FONT_BUCKET).remove([storagePath]);
+    throw new Error('Failed to save font');
   }
+
+  const font = toCustomFont(data);
+  font.isLoaded = await loadCustomFont(font);
+  return font;
 };
 
 /**
- * Get custom fonts from localStorage
+ * Delete an uploaded font and its file. Templates that use it fall back to the default font.
  */
-export const getCustomFonts = (): CustomFont[] => {
-  try {
-    const fonts = localStorage.getItem('customFonts');
-    return fonts ? JSON.parse(fonts) : [];
-  } catch (error) {
-    console.error('Error loading fonts:', error);
-    return [];
+export const deleteCustomFont = async (font: CustomFont): Promise<void> => {
+  const { data, error } = await supabase
+    .from('fonts')
+    .delete()
+    .eq('id', font.id)
+    .select('storage_path')
+    .single();
+
+  if (error) {
+    console.error('Error deleting font:', error);
+    throw new Error('Failed to delete font');
   }
+
+  const { error: storageError } = await supabase.storage.from(FONT_BUCKET).remove([data.storage_path]);
+  if (storageError) console.warn('Failed to delete font file:', storageError);
 };
 
 /**
- * Delete custom font
+ * Read the fonts recorded on a template or version
  */
-export const deleteCustomFont = (fontId: string): void => {
-  try {
-    const fonts = getCustomFonts();
-    const fontToDelete = fonts.find(f => f.id === fontId);
-    
-    if (fontToDelete) {
-      // Revoke object URL to free memory
-      URL.revokeObjectURL(fontToDelete.url);
-    }
+export const parseTemplateFonts = (value: Json | null | undefined): TemplateFont[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((font): font is Record<string, Json> =>
+    !!font && typeof font === 'object' && !Array.isArray(font) &&
+    typeof font.family === 'string' && typeof font.url === 'string'
+  ).map(font => ({
+    id: String(font.id ?? ''),
+    family: font.family as string,
+    weight: typeof font.weight === 'string' ? font.weight : 'normal',
+    style: typeof font.style === 'string' ? font.style : 'normal',
+    format: (Object.values(FONT_FORMATS).includes(font.format as FontFormat) ? font.format : 'woff2') as FontFormat,
+    url: font.url as string,
+  }));
+};
 
-    const updatedFonts = fonts.filter(f => f.id !== fontId);
-    localStorage.setItem('customFonts', JSON.stringify(updatedFonts));
-  } catch (error) {
-    console.error('Error deleting font:', error);
-  }
+/**
+ * Work out which uploaded fonts a template's text uses. Families no longer in the workspace
+ * keep the font recorded before, so a deleted or unloaded font list doesn't drop them.
+ */
+export const getTemplateFonts = (
+  frames: FrameData[],
+  available: CustomFont[],
+  previous: TemplateFont[]
+): TemplateFont[] => {
+  const families = new Set(
+    frames.filter(frame => frame.type === 'text' && frame.properties?.fontFamily).map(frame => frame.properties!.fontFamily!)
+  );
+
+  return [...families].flatMap(family => {
+    const matches = available.filter(font => font.family === family);
+    const fonts = matches.length > 0 ? matches : previous.filter(font => font.family === family);
+    return fonts.map(({ id, family, weight, style, format, url }) => ({ id, family, weight, style, format, url }));
+  });
 };
 
 /**
@@ -202,9 +378,77 @@ export const isFontLoaded = (fontFamily: string): boolean => {
 };
 
 /**
- * Wait for font to load
+ * Whether a system font is installed, by comparing its text width against each generic fallback
+ */
+export const isSystemFontInstalled = (fontFamily: string): boolean => {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return false;
+
+  const sample = 'mmmmmmmmmmlli1WQ@';
+  return ['monospace', 'serif', 'sans-serif'].some(fallback => {
+    ctx.font = `72px ${fallback}`;
+    const fallbackWidth = ctx.measureText(sample).width;
+    ctx.font = `72px "${fontFamily}", ${fallback}`;
+    return ctx.measureText(sample).width !== fallbackWidth;
+  });
+};
+
+let installedSystemFonts: string[] | null = null;
+
+/**
+ * Web-safe fonts this browser can actually draw
+ */
+export const getInstalledSystemFonts = (): string[] => {
+  if (!installedSystemFonts) installedSystemFonts = SYSTEM_FONTS.filter(isSystemFontInstalled);
+  return installedSystemFonts;
+};
+
+/**
+ * Normalise a CSS font weight to a number, e.g. "bold" to 700
+ */
+export const parseFontWeight = (weight: string | number | undefined): number => {
+  if (weight === 'bold') return 700;
+  const value = Number(weight);
+  return Number.isFinite(value) && value > 0 ? value : 400;
+};
+
+/**
+ * Every family that can render here: the workspace's uploads, the bundled catalog, then
+ * installed web-safe fonts (browsers synthesise their bold and italic)
  */
-export const waitForFontLoad = (fontFamily: string, timeout: number = 5000): Promise<boolean> => {
+export const getFontOptions = (customFonts: CustomFont[]): FontOption[] => {
+  const uploaded = new Map<string, FontOption>();
+  customFonts.forEach(font => {
+    const option = uploaded.get(font.family) || { family: font.family, source: 'uploaded' as const, weights: [], italic: false };
+    const weight = parseFontWeight(font.weight);
+    if (!option.weights.includes(weight)) option.weights = [...option.weights, weight].sort((a, b) => a - b);
+    option.italic = option.italic || font.style === 'italic';
+    uploaded.set(font.family, option);
+  });
+
+  const bundled = FONT_CATALOG
+    .filter(font => !uploaded.has(font.family))
+    .map((font): FontOption => ({
+      family: font.family,
+      source: 'bundled',
+      category: font.category,
+      weights: getCatalogFontWeights(font),
+      italic: font.italic,
+    }));
+
+  const system = getInstalledSystemFonts()
+    .filter(family => !uploaded.has(family))
+    .map((family): FontOption => ({ family, source: 'system', weights: [400, 700], italic: true }));
+
+  return [...uploaded.values(), ...bundled, ...system];
+};
+
+/**
+ * Wait for font to load. Bundled families are fetched first.
+ */
+export const waitForFontLoad = async (fontFamily: string, timeout: number = 5000): Promise<boolean> => {
+  if (getCatalogFont(fontFamily)) return loadCatalogFont(fontFamily);
+
   return new Promise((resolve) => {
     if (isFontLoaded(fontFamily)) {
       resolve(true);
@@ -240,23 +484,12 @@ export const getFontPreviewText = (): string => {
 /**
  * Generate font CSS
  */
-export const generateFontCSS = (font: CustomFont): string => {
+export const generateFontCSS = (font: TemplateFont): string => {
   return `
 @font-face {
   font-family: "${font.family}";
-  src: url("${font.url}") format("${getFontFormat(font.url)}");
+  src: url("${font.url}") format("${font.format}");
   font-weight: ${font.weight || 'normal'};
   font-style: ${font.style || 'normal'};
 }`;
 };
-
-/**
- * Get font format from URL
- */
-const getFontFormat = (url: string): string => {
-  if (url.includes('.woff2')) return 'woff2';
-  if (url.includes('.woff')) return 'woff';
-  if (url.includes('.ttf')) return 'truetype';
-  if (url.includes('.otf')) return 'opentype';
-  return 'woff2';
-}; 
\ No newline at end of file
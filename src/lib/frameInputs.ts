@@ -0,0 +1,153 @@
+/**
+ * Frame Inputs
+ * Typed inputs for text frames (choices, dates, numbers, phone numbers and emails) and the
+ * formatting that turns what someone enters into the text drawn on the flyer
+ */
+
+import { format, isValid, parseISO } from 'date-fns';
+import type { FrameData, FrameInput, FrameInputType } from '@/lib/frameSchema';
+
+export const INPUT_TYPE_LABELS: Record<FrameInputType, string> = {
+  text: 'Free text',
+  select: 'Choice list',
+  date: 'Date',
+  number: 'Number',
+  phone: 'Phone number',
+  email: 'Email',
+};
+
+export const DEFAULT_DATE_FORMAT = 'EEEE, d MMMM yyyy';
+
+export const DATE_FORMAT_PRESETS = [
+  'EEEE, d MMMM yyyy',
+  'd MMMM yyyy',
+  'MMMM d, yyyy',
+  'EEE, MMM d',
+  'dd/MM/yyyy',
+  'MM/dd/yyyy',
+  'yyyy-MM-dd',
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_DIGITS = { min: 7, max: 15 };
+
+/**
+ * The input type of a text frame; frames without one take free text
+ */
+export function getFrameInputType(frame: FrameData): FrameInputType {
+  return frame.input?.type || 'text';
+}
+
+/**
+ * Format a date with a creator's pattern, falling back to the default if the pattern is invalid
+ */
+export function formatDate(date: Date, pattern?: string): string {
+  try {
+    return format(date, pattern || DEFAULT_DATE_FORMAT);
+  } catch {
+    return format(date, DEFAULT_DATE_FORMAT);
+  }
+}
+
+/**
+ * Read a date entered as "yyyy-MM-dd" (or anything else the browser can parse)
+ */
+export function parseDateValue(raw: string): Date | null {
+  const iso = parseISO(raw);
+  if (isValid(iso)) return iso;
+  const parsed = new Date(raw);
+  return raw.trim() && isValid(parsed) ? parsed : null;
+}
+
+/**
+ * Lay out the digits of a phone number on a pattern where "#" stands for a digit. Digits the
+ * pattern already spells out (a country code) or a leading trunk 0 aren't repeated.
+ */
+export function formatPhoneNumber(raw: string, pattern?: string): string {
+  if (!pattern) return raw.trim().replace(/\s+/g, ' ');
+
+  let digits = raw.replace(/\D/g, '');
+  const slots = pattern.split('').filter(char => char === '#').length;
+  const prefixDigits = pattern.slice(0, pattern.indexOf('#') >= 0 ? pattern.indexOf('#') : pattern.length).replace(/\D/g, '');
+  if (prefixDigits && digits.startsWith(prefixDigits) && digits.length > slots) {
+    digits = digits.slice(prefixDigits.length);
+  } else if (digits.length === slots + 1 && digits.startsWith('0')) {
+    digits = digits.slice(1);
+  }
+  if (!digits) return '';
+
+  let result = '';
+  let index = 0;
+  for (const char of pattern) {
+    if (index >= digits.length) break;
+    result += char === '#' ? digits[index++] : char;
+  }
+  return result + digits.slice(index);
+}
+
+/**
+ * Format a number with the creator's decimals, prefix and suffix
+ */
+export function formatNumber(raw: string, input: FrameInput): string {
+  const value = Number(raw);
+  if (!raw.trim() || !Number.isFinite(value)) return raw;
+
+  const digits = input.decimals !== undefined
+    ? { minimumFractionDigits: input.decimals, maximumFractionDigits: input.decimals }
+    : { maximumFractionDigits: 6 };
+  return `${input.prefix || ''}${new Intl.NumberFormat('en-US', digits).format(value)}${input.suffix || ''}`;
+}
+
+/**
+ * The text drawn on the flyer for what someone entered in a frame
+ */
+export function formatFrameInput(frame: FrameData, raw: string): string {
+  const input = frame.input;
+  if (!input) return raw;
+
+  switch (input.type) {
+    case 'date': {
+      const date = parseDateValue(raw);
+      return date ? formatDate(date, input.dateFormat) : raw;
+    }
+    case 'number':
+      return formatNumber(raw, input);
+    case 'phone':
+      return formatPhoneNumber(raw, input.phoneFormat);
+    case 'email':
+      return raw.trim().toLowerCase();
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Check an entry matches its frame's input type and return the problem, or null if it's valid.
+ * Empty entries pass; whether a frame is required is a validation rule.
+ */
+export function validateFrameInput(frame: FrameData, raw: string): string | null {
+  const input = frame.input;
+  if (!input || !raw.trim()) return null;
+
+  switch (input.type) {
+    case 'select':
+      return (input.options || []).some(option => option.trim() === raw) ? null : 'Choose one of the options';
+    case 'date':
+      return parseDateValue(raw) ? null : 'Enter a valid date';
+    case 'number': {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) return 'Enter a number';
+      if (input.min !== undefined && value < input.min) return `Enter ${input.min} or more`;
+      if (input.max !== undefined && value > input.max) return `Enter ${input.max} or less`;
+      return null;
+    }
+    case 'phone': {
+      const digits = raw.replace(/\D/g, '').length;
+      return digits >= PHONE_DIGITS.min && digits <= PHONE_DIGITS.max ? null : 'Enter a valid phone number';
+    }
+    case 'email':
+      return EMAIL_PATTERN.test(raw.trim()) ? null : 'Enter a valid email address';
+    default:
+      return null;
+  }
+}
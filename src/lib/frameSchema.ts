@@ -0,0 +1,214 @@
+/**
+ * Frame Schema
+ * Single versioned definition of the frames stored in `templates.frames`,
+ * with migrations that upgrade older rows when a template is loaded
+ */
+
+import { z } from 'zod';
+
+/**
+ * Version written with every saved template.
+ * Bump this and add an entry to FRAME_MIGRATIONS whenever the frame shape changes.
+ *
+ * 1 - legacy rows: flat text frames (`content`, `fontSize`, ... at the top level)
+ *     or editor frames without guaranteed `shape`/`rotation`
+ * 2 - editor frames with text styling under `properties`
+ * 3 - numeric font weights (100-900) and an optional italic `fontStyle`
+ */
+export const CURRENT_FRAME_SCHEMA_VERSION = 3;
+
+export const FRAME_SHAPES = ['rectangle', 'circle', 'rounded-rectangle', 'polygon'] as const;
+
+export const framePropertiesSchema = z.object({
+  fontSize: z.number().positive().optional(),
+  fontFamily: z.string().optional(),
+  fontWeight: z.number().int().min(100).max(900).optional(),
+  fontStyle: z.enum(['normal', 'italic']).optional(),
+  color: z.string().optional(),
+  textAlign: z.string().optional(),
+  placeholder: z.string().optional(),
+  content: z.string().optional(),
+});
+
+export const FRAME_INPUT_TYPES = ['text', 'select', 'date', 'number', 'phone', 'email'] as const;
+
+// The control the public generator shows for a text frame, and how its value is formatted
+export const frameInputSchema = z.object({
+  type: z.enum(FRAME_INPUT_TYPES),
+  options: z.array(z.string()).optional(), // select choices
+  optionStyle: z.enum(['dropdown', 'radio']).optional(),
+  dateFormat: z.string().optional(), // date-fns pattern, e.g. "EEEE, d MMMM yyyy"
+  decimals: z.number().int().min(0).max(6).optional(),
+  prefix: z.string().optional(),
+  suffix: z.string().optional(),
+  min: z.number().finite().optional(),
+  max: z.number().finite().optional(),
+  phoneFormat: z.string().optional(), // "#" stands for a digit, e.g. "+233 ## ### ####"
+});
+
+// Rules the public generator checks people's entries against
+export const frameValidationSchema = z.object({
+  required: z.boolean().optional(),
+  minLength: z.number().int().nonnegative().optional(),
+  maxLength: z.number().int().positive().optional(),
+  pattern: z.string().optional(),
+  patternMessage: z.string().optional(),
+  minImageWidth: z.number().int().positive().optional(),
+  minImageHeight: z.number().int().positive().optional(),
+  aspectRatio: z.number().positive().optional(), // width / height
+});
+
+export const frameSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['image', 'text']),
+  x: z.number().finite(),
+  y: z.number().finite(),
+  width: z.number().finite().nonnegative(),
+  height: z.number().finite().nonnegative(),
+  rotation: z.number().finite().default(0),
+  shape: z.enum(FRAME_SHAPES).default('rectangle'),
+  cornerRadius: z.number().nonnegative().optional(),
+  polygonSides: z.number().int().min(3).optional(), // Number of sides for polygon (6 = hexagon, 8 = octagon, etc.)
+  visible: z.boolean().optional(),
+  locked: z.boolean().optional(),
+  properties: framePropertiesSchema.optional(),
+  validation: frameValidationSchema.optional(),
+  input: frameInputSchema.optional(),
+  key: z.string().optional(), // Field key that prefilled generator links use
+});
+
+export const framesSchema = z.array(frameSchema);
+
+export type FrameShape = typeof FRAME_SHAPES[number];
+export type FrameProperties = z.infer<typeof framePropertiesSchema>;
+export type FrameValidation = z.infer<typeof frameValidationSchema>;
+export type FrameInputType = typeof FRAME_INPUT_TYPES[number];
+export type FrameInput = z.infer<typeof frameInputSchema>;
+export type FrameData = z.infer<typeof frameSchema>;
+
+/**
+ * Raised when stored frames cannot be upgraded to the current schema
+ */
+export class FrameSchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly templateId?: string,
+    public readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = 'FrameSchemaError';
+  }
+}
+
+type RawFrame = Record<string, unknown>;
+
+const LEGACY_TEXT_KEYS = ['content', 'fontSize', 'fontFamily', 'fontWeight', 'color', 'textAlign', 'placeholder'];
+
+const toNumber = (value: unknown) =>
+  typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+
+/**
+ * v1 -> v2: move flat text styling into `properties` and fill in geometry defaults
+ */
+const migrateV1ToV2 = (frames: RawFrame[]): RawFrame[] =>
+  frames.map(frame => {
+    const { properties, ...rest } = frame;
+    const nextProperties: RawFrame = { ...(properties as RawFrame || {}) };
+
+    LEGACY_TEXT_KEYS.forEach(key => {
+      if (key in rest) {
+        if (nextProperties[key] === undefined) nextProperties[key] = rest[key];
+        delete rest[key];
+      }
+    });
+
+    ['x', 'y', 'width', 'height', 'rotation'].forEach(key => {
+      rest[key] = toNumber(rest[key]);
+    });
+
+    return {
+      ...rest,
+      rotation: rest.rotation ?? 0,
+      shape: rest.shape ?? 'rectangle',
+      ...(Object.keys(nextProperties).length > 0 ? { properties: nextProperties } : {}),
+    };
+  });
+
+const LEGACY_FONT_WEIGHTS: Record<string, number> = { normal: 400, bold: 700 };
+
+/**
+ * v2 -> v3: keyword font weights become numbers
+ */
+const migrateV2ToV3 = (frames: RawFrame[]): RawFrame[] =>
+  frames.map(frame => {
+    const properties = frame.properties as RawFrame | undefined;
+    if (!properties || properties.fontWeight === undefined) return frame;
+
+    const weight = properties.fontWeight;
+    return {
+      ...frame,
+      properties: {
+        ...properties,
+        fontWeight: typeof weight === 'string' ? LEGACY_FONT_WEIGHTS[weight] ?? toNumber(weight) : weight,
+      },
+    };
+  });
+
+const FRAME_MIGRATIONS: Record<number, (frames: RawFrame[]) => RawFrame[]> = {
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+};
+
+/**
+ * Upgrade stored frames to the current schema version and validate them
+ */
+export function migrateFrames(
+  rawFrames: unknown,
+  schemaVersion: number | null | undefined,
+  templateId?: string
+): FrameData[] {
+  if (rawFrames === null || rawFrames === undefined) return [];
+
+  let frames: unknown = rawFrames;
+  if (typeof frames === 'string') {
+    try {
+      frames = JSON.parse(frames);
+    } catch {
+      throw new FrameSchemaError('Template frames are not valid JSON', templateId);
+    }
+  }
+
+  if (!Array.isArray(frames)) {
+    throw new FrameSchemaError('Template frames must be a list of frames', templateId);
+  }
+
+  let version = schemaVersion || 1;
+  if (version > CURRENT_FRAME_SCHEMA_VERSION) {
+    throw new FrameSchemaError(
+      `Template was saved with frame schema v${version}, but this app only supports up to v${CURRENT_FRAME_SCHEMA_VERSION}. Please refresh the page.`,
+      templateId
+    );
+  }
+
+  let migrated = frames as RawFrame[];
+  while (version < CURRENT_FRAME_SCHEMA_VERSION) {
+    const migrate = FRAME_MIGRATIONS[version];
+    if (!migrate) {
+      throw new FrameSchemaError(`No migration from frame schema v${version}`, templateId);
+    }
+    migrated = migrate(migrated);
+    version++;
+  }
+
+  const result = framesSchema.safeParse(migrated);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `frames.${issue.path.join('.')}: ${issue.message}`);
+    throw new FrameSchemaError(
+      `Template has ${issues.length} invalid frame field${issues.length === 1 ? '' : 's'}: ${issues.slice(0, 3).join('; ')}`,
+      templateId,
+      issues
+    );
+  }
+
+  return result.data;
+}
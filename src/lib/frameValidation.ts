@@ -0,0 +1,134 @@
+/**
+ * Frame Validation
+ * Checks people's entries in the public generator against the rules creators set on
+ * each frame: required, input type, text length and pattern, and photo size and shape
+ */
+
+import type { FrameData, FrameValidation } from '@/lib/frameSchema';
+import { validateFrameInput } from '@/lib/frameInputs';
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/** What someone has entered for one frame */
+export interface FrameEntry {
+  text?: string;
+  /** What was typed or picked, before formatting; defaults to text */
+  raw?: string;
+  image?: ImageDimensions | null;
+}
+
+export const ASPECT_RATIO_PRESETS = [
+  { label: '1:1 (square)', value: 1 },
+  { label: '4:5 (portrait)', value: 4 / 5 },
+  { label: '3:4 (portrait)', value: 3 / 4 },
+  { label: '2:3 (portrait)', value: 2 / 3 },
+  { label: '3:2 (landscape)', value: 3 / 2 },
+  { label: '16:9 (landscape)', value: 16 / 9 },
+];
+
+// Photos within 5% of the required shape are accepted; they're cropped to the frame anyway
+const ASPECT_RATIO_TOLERANCE = 0.05;
+
+/**
+ * Whether a frame has any rules set
+ */
+export function hasValidationRules(validation: FrameValidation | undefined): boolean {
+  return !!validation && Object.values(validation).some(value => value !== undefined && value !== false && value !== '');
+}
+
+/**
+ * Compile a creator's pattern, or return null if it isn't a valid regular expression
+ */
+export function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Label for an aspect ratio, e.g. "4:5 (portrait)"
+ */
+export function getAspectRatioLabel(ratio: number): string {
+  const preset = ASPECT_RATIO_PRESETS.find(p => Math.abs(p.value - ratio) < 0.001);
+  return preset ? preset.label : `${ratio.toFixed(2)}:1`;
+}
+
+/**
+ * Check text against a frame's input type and rules and return the first problem, or null
+ * if it's valid. Length and pattern rules apply to the formatted text drawn on the flyer.
+ */
+export function validateTextEntry(frame: FrameData, text: string, raw: string = text): string | null {
+  const rules: FrameValidation = frame.validation || {};
+
+  if (!text.trim()) {
+    return rules.required ? 'This field is required' : null;
+  }
+  const inputError = validateFrameInput(frame, raw);
+  if (inputError) return inputError;
+
+  if (rules.minLength && text.length < rules.minLength) {
+    return `Enter at least ${rules.minLength} characters`;
+  }
+  if (rules.maxLength && text.length > rules.maxLength) {
+    return `Keep it to ${rules.maxLength} characters or fewer`;
+  }
+  if (rules.pattern) {
+    // A broken pattern is the creator's mistake, so it doesn't block anyone
+    const regex = compilePattern(rules.pattern);
+    if (regex && !regex.test(text)) {
+      return rules.patternMessage || 'This doesn\'t match the required format';
+    }
+  }
+  return null;
+}
+
+/**
+ * Check an uploaded photo against a frame's rules and return the first problem, or null
+ */
+export function validateImageEntry(frame: FrameData, image: ImageDimensions | null | undefined): string | null {
+  const rules = frame.validation;
+  if (!rules) return null;
+
+  if (!image) {
+    return rules.required ? 'Please add a photo' : null;
+  }
+
+  const minWidth = rules.minImageWidth || 0;
+  const minHeight = rules.minImageHeight || 0;
+  if (image.width < minWidth || image.height < minHeight) {
+    const required = minWidth && minHeight
+      ? `${minWidth}×${minHeight} pixels`
+      : minWidth ? `${minWidth} pixels wide` : `${minHeight} pixels tall`;
+    return `Photo must be at least ${required} (this one is ${image.width}×${image.height})`;
+  }
+
+  if (rules.aspectRatio) {
+    const ratio = image.width / image.height;
+    if (Math.abs(ratio - rules.aspectRatio) / rules.aspectRatio > ASPECT_RATIO_TOLERANCE) {
+      return `Photo must be ${getAspectRatioLabel(rules.aspectRatio)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check every frame's entry and return the problems by frame ID
+ */
+export function validateFrameEntries(frames: FrameData[], entries: Record<string, FrameEntry>): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  frames.forEach(frame => {
+    const entry = entries[frame.id] || {};
+    const error = frame.type === 'text'
+      ? validateTextEntry(frame, entry.text || '', entry.raw)
+      : validateImageEntry(frame, entry.image);
+    if (error) errors[frame.id] = error;
+  });
+
+  return errors;
+}
@@ -66,8 +66,8 @@ export const calculateFitToContainer = (
  * This ensures frame positions match between editor and public generator
  */
 export const drawBackgroundImage = (
-  ctx: CanvasRenderingContext2D,
-  image: HTMLImageElement,
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  image: CanvasImageSource & { width: number; height: number },
   canvasWidth: number,
   canvasHeight: number
 ) => {
@@ -178,7 +178,7 @@ export const loadImage = (src: string): Promise<HTMLImageElement> => {
  * Crops and scales an image to fit within a frame while maintaining aspect ratio
  */
 export const cropImageToFrame = (
-  image: HTMLImageElement,
+  image: { width: number; height: number },
   frameWidth: number,
   frameHeight: number
 ) => {
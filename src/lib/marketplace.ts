@@ -0,0 +1,338 @@
+/**
+ * Marketplace
+ * Creators sell personal templates for a price in GHS. A listing sells the version saved
+ * when it was submitted and is only shown once a marketplace reviewer approves it. Buyers
+ * pay through Paystack and get a licensed copy that they can edit but never list.
+ * Listing, review, delivery and payouts are all enforced by the database.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Template } from '@/integrations/supabase/types';
+import { initializePayment, verifyPayment } from '@/integrations/paystack/client';
+
+type Functions = Database['public']['Functions'];
+
+export type ListingStatus = Template['listing_status'];
+export type ListingDecision = 'approved' | 'rejected';
+export type MarketplaceListing = Functions['get_marketplace_listings']['Returns'][number];
+export type ListingForReview = Functions['get_marketplace_review_queue']['Returns'][number];
+export type MarketplaceBalance = Functions['get_marketplace_balance']['Returns'][number];
+export type TemplatePurchase = Database['public']['Tables']['template_purchases']['Row'];
+export type MarketplacePayout = Database['public']['Tables']['marketplace_payouts']['Row'];
+export type PayoutMethod = MarketplacePayout['method'];
+
+export const MIN_LISTING_PRICE = 1;
+export const MAX_LISTING_PRICE = 10000;
+export const MIN_PAYOUT_AMOUNT = 50;
+
+export const LISTING_STATUS_LABELS: Record<ListingStatus, string> = {
+  unlisted: 'Not for sale',
+  in_review: 'In Review',
+  approved: 'On Sale',
+  rejected: 'Changes Requested',
+};
+
+// Template types buyers can filter by, as chosen in the editor
+export const MARKETPLACE_TEMPLATE_TYPES = [
+  { value: 'flyer', label: 'Flyers' },
+  { value: 'certificate', label: 'Certificates' },
+  { value: 'brochure', label: 'Brochures' },
+  { value: 'business_card', label: 'Business Cards' },
+  { value: 'invitation', label: 'Invitations' },
+  { value: 'social_media', label: 'Social Media' },
+  { value: 'marketing', label: 'Marketing' },
+  { value: 'other', label: 'Other' },
+];
+
+export const PAYOUT_METHOD_LABELS: Record<PayoutMethod, string> = {
+  mobile_money: 'Mobile Money',
+  bank_transfer: 'Bank Transfer',
+};
+
+/**
+ * Whether a template is a licensed copy bought in the marketplace
+ */
+export function isLicensedCopy(template: Pick<Template, 'license_purchase_id'>): boolean {
+  return !!template.license_purchase_id;
+}
+
+/**
+ * Whether a template can be offered for sale
+ */
+export function canListTemplate(template: Pick<Template, 'organization_id' | 'license_purchase_id'>): boolean {
+  return !template.organization_id && !isLicensedCopy(template);
+}
+
+/**
+ * Format a GHS amount, e.g. "GHS 25.00"
+ */
+export function formatCedis(amount: number): string {
+  return `GHS ${Number(amount).toFixed(2)}`;
+}
+
+/**
+ * Approved listings, newest first, optionally filtered by a search term and template type
+ */
+export async function getMarketplaceListings(search?: string, templateType?: string): Promise<MarketplaceListing[]> {
+  const { data, error } = await supabase.rpc('get_marketplace_listings', {
+    p_search: search?.trim() || null,
+    p_template_type: templateType || null,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Submit a personal template for sale at its latest saved version
+ */
+export async function submitListing(templateId: string, price: number, comment?: string): Promise<void> {
+  const { error } = await supabase.rpc('submit_marketplace_listing', {
+    p_template_id: templateId,
+    p_price: price,
+    p_comment: comment || null,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Take a template off the marketplace. Buyers keep their copies.
+ */
+export async function withdrawListing(templateId: string): Promise<void> {
+  const { error } = await supabase.rpc('withdraw_marketplace_listing', { p_template_id: templateId });
+  if (error) throw error;
+}
+
+/**
+ * The signed-in user's templates that are listed or have been submitted
+ */
+export async function getMyListings(): Promise<Template[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('templates')
+    .select('*')
+    .eq('user_id', user.id)
+    .is('organization_id', null)
+    .neq('listing_status', 'unlisted')
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Personal templates that could be put up for sale
+ */
+export async function getListableTemplates(): Promise<Template[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('templates')
+    .select('*')
+    .eq('user_id', user.id)
+    .is('organization_id', null)
+    .is('license_purchase_id', null)
+    .eq('listing_status', 'unlisted')
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Whether the signed-in user reviews marketplace listings and payouts
+ */
+export async function isMarketplaceReviewer(): Promise<boolean> {
+  const { data, error } = await supabase.rpc('is_marketplace_reviewer');
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * Listings waiting for review, oldest first
+ */
+export async function getListingReviewQueue(): Promise<ListingForReview[]> {
+  const { data, error } = await supabase.rpc('get_marketplace_review_queue');
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Approve or reject a listing in review. Rejections need a comment.
+ */
+export async function reviewListing(templateId: string, decision: ListingDecision, comment?: string): Promise<void> {
+  const { error } = await supabase.rpc('review_marketplace_listing', {
+    p_template_id: templateId,
+    p_decision: decision,
+    p_comment: comment || null,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Start Paystack checkout for a listing; returns the URL to send the buyer to
+ */
+export async function buyTemplate(templateId: string): Promise<string> {
+  const { authorization_url } = await initializePayment({
+    template_id: templateId,
+    callback_url: `${window.location.origin}/dashboard/marketplace?tab=purchases`,
+  });
+  return authorization_url;
+}
+
+/**
+ * Confirm a purchase when the buyer returns from checkout. Returns their copy's template ID
+ * if it could be made, and whether they had already bought the template.
+ */
+export async function verifyTemplatePurchase(reference: string): Promise<{ templateId: string | null; duplicate: boolean }> {
+  const { licensed_template_id, duplicate_purchase } = await verifyPayment(reference);
+  return { templateId: licensed_template_id || null, duplicate: !!duplicate_purchase };
+}
+
+/**
+ * The signed-in user's completed purchases, including payments made twice, newest first
+ */
+export async function getMyPurchases(): Promise<TemplatePurchase[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('template_purchases')
+    .select('*')
+    .eq('buyer_id', user.id)
+    .neq('status', 'pending')
+    .order('paid_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Make the licensed copy of a purchase again if it's missing; returns its template ID
+ */
+export async function claimPurchasedTemplate(purchaseId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('claim_purchased_template', { p_purchase_id: purchaseId });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * The signed-in user's sales, newest first
+ */
+export async function getMySales(): Promise<TemplatePurchase[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('template_purchases')
+    .select('*')
+    .eq('seller_id', user.id)
+    .eq('status', 'paid')
+    .order('paid_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * What the signed-in user has earned, been paid and can request
+ */
+export async function getMarketplaceBalance(): Promise<MarketplaceBalance> {
+  const { data, error } = await supabase.rpc('get_marketplace_balance');
+  if (error) throw error;
+  return data[0];
+}
+
+/**
+ * Payouts the signed-in user has requested, newest first
+ */
+export async function getMyPayouts(): Promise<MarketplacePayout[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('marketplace_payouts')
+    .select('*')
+    .eq('seller_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Request the whole available balance to a mobile money or bank account
+ */
+export async function requestPayout(method: PayoutMethod, accountDetails: string): Promise<MarketplacePayout> {
+  const { data, error } = await supabase.rpc('request_marketplace_payout', {
+    p_method: method,
+    p_account_details: accountDetails,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Payouts waiting to be sent, oldest first (reviewers only)
+ */
+export async function getPayoutQueue(): Promise<MarketplacePayout[]> {
+  const { data, error } = await supabase
+    .from('marketplace_payouts')
+    .select('*')
+    .eq('status', 'requested')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Payments for templates the buyer already owned, oldest first (reviewers only)
+ */
+export async function getRefundQueue(): Promise<TemplatePurchase[]> {
+  const { data, error } = await supabase
+    .from('template_purchases')
+    .select('*')
+    .eq('status', 'duplicate')
+    .order('paid_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Record that a duplicate payment was refunded in Paystack
+ */
+export async function refundDuplicatePurchase(purchaseId: string, reference: string): Promise<void> {
+  const { error } = await supabase.rpc('refund_duplicate_purchase', {
+    p_purchase_id: purchaseId,
+    p_reference: reference,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Record that a payout was sent with its transfer reference, or cancel it
+ */
+export async function processPayout(
+  payoutId: string,
+  decision: 'paid' | 'cancelled',
+  reference?: string,
+  note?: string
+): Promise<void> {
+  const { error } = await supabase.rpc('process_marketplace_payout', {
+    p_payout_id: payoutId,
+    p_decision: decision,
+    p_reference: reference || null,
+    p_note: note || null,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,40 @@
+/**
+ * Notifications
+ * In-app notifications for the signed-in user, such as review requests, review decisions
+ * and marketplace sales.
+ * Rows are written by database functions; the client only reads and marks them read.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type Notification = Database['public']['Tables']['notifications']['Row'];
+
+/**
+ * Get the signed-in user's most recent notifications
+ */
+export async function getNotifications(limit: number = 20): Promise<Notification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Mark notifications as read
+ */
+export async function markNotificationsRead(notificationIds: string[]): Promise<void> {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', notificationIds)
+    .is('read_at', null);
+
+  if (error) throw error;
+}
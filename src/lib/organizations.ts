@@ -0,0 +1,333 @@
+/**
+ * Organizations
+ * Team workspaces: organizations, their members and roles, email invites, and which
+ * workspace (personal or an organization) the dashboard is currently showing.
+ * Role rules are enforced by RLS and the membership functions in the database.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { getFunctionError } from '@/lib/edgeFunctions';
+
+export type Organization = Database['public']['Tables']['organizations']['Row'];
+export type OrganizationRole = Database['public']['Tables']['organization_members']['Row']['role'];
+export type InviteRole = Database['public']['Tables']['organization_invites']['Row']['role'];
+export type OrganizationInvite = Database['public']['Tables']['organization_invites']['Row'];
+
+export interface OrganizationMembership {
+  organization: Organization;
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  role: OrganizationRole;
+  email: string | null;
+  fullName: string | null;
+  avatarUrl: string | null;
+  joinedAt: string;
+}
+
+export interface InviteResult {
+  inviteId: string;
+  inviteUrl: string;
+  emailSent: boolean;
+}
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Full control, including billing and deleting the organization',
+  admin: 'Manages members and invites, and can delete templates',
+  editor: 'Creates and edits shared templates',
+  viewer: 'Sees and uses shared templates',
+};
+
+/**
+ * Whether a role can create and edit templates in the organization library
+ */
+export function canEditTemplates(role?: OrganizationRole | null): boolean {
+  return role === 'owner' || role === 'admin' || role === 'editor';
+}
+
+/**
+ * Whether a role can invite, remove and change members
+ */
+export function canManageMembers(role?: OrganizationRole | null): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+// =====================================================
+// ACTIVE WORKSPACE
+// =====================================================
+
+const WORKSPACE_STORAGE_KEY = 'genedit_workspace';
+
+let activeWorkspaceId: string | null = readStoredWorkspace();
+const listeners = new Set<(organizationId: string | null) => void>();
+const membershipListeners = new Set<() => void>();
+
+/**
+ * Read the last used workspace from storage
+ */
+function readStoredWorkspace(): string | null {
+  try {
+    return localStorage.getItem(WORKSPACE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the organization the dashboard is working in, or null for the personal workspace
+ */
+export function getActiveWorkspaceId(): string | null {
+  return activeWorkspaceId;
+}
+
+/**
+ * Switch between the personal workspace (null) and an organization
+ */
+export function setActiveWorkspaceId(organizationId: string | null): void {
+  if (organizationId === activeWorkspaceId) return;
+  activeWorkspaceId = organizationId;
+
+  try {
+    if (organizationId) {
+      localStorage.setItem(WORKSPACE_STORAGE_KEY, organizationId);
+    } else {
+      localStorage.removeItem(WORKSPACE_STORAGE_KEY);
+    }
+  } catch {
+    // Storage can be blocked; the choice still lasts for this page
+  }
+
+  listeners.forEach((listener) => listener(organizationId));
+}
+
+/**
+ * Be notified whenever the active workspace changes
+ */
+export function subscribeToWorkspace(listener: (organizationId: string | null) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Be notified when the user creates, joins, leaves or deletes an organization
+ */
+export function subscribeToMemberships(listener: () => void): () => void {
+  membershipListeners.add(listener);
+  return () => {
+    membershipListeners.delete(listener);
+  };
+}
+
+const notifyMembershipsChanged = () => membershipListeners.forEach((listener) => listener());
+
+// =====================================================
+// ORGANIZATIONS AND MEMBERS
+// =====================================================
+
+/**
+ * Get the organizations the signed-in user belongs to, with their role in each
+ */
+export async function getMyOrganizations(): Promise<OrganizationMembership[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role, organizations(*)')
+    .eq('user_id', user.id);
+
+  if (error) throw error;
+
+  return (data || [])
+    .filter((row) => row.organizations)
+    .map((row) => ({
+      organization: row.organizations as unknown as Organization,
+      role: row.role,
+    }))
+    .sort((a, b) => a.organization.name.localeCompare(b.organization.name));
+}
+
+/**
+ * Create an organization with the signed-in user as its owner
+ */
+export async function createOrganization(name: string, description?: string): Promise<Organization> {
+  const { data, error } = await supabase.rpc('create_organization', {
+    p_name: name,
+    p_description: description || null,
+  });
+
+  if (error) throw error;
+  notifyMembershipsChanged();
+  return data;
+}
+
+/**
+ * Update an organization's name and description
+ */
+export async function updateOrganization(
+  organizationId: string,
+  updates: Pick<Database['public']['Tables']['organizations']['Update'], 'name' | 'description' | 'logo_url'>
+): Promise<void> {
+  const { error } = await supabase
+    .from('organizations')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', organizationId);
+
+  if (error) throw error;
+}
+
+/**
+ * Delete an organization. Only owners can; its templates are deleted with it.
+ */
+export async function deleteOrganization(organizationId: string): Promise<void> {
+  const { error } = await supabase.from('organizations').delete().eq('id', organizationId);
+  if (error) throw error;
+  if (activeWorkspaceId === organizationId) setActiveWorkspaceId(null);
+  notifyMembershipsChanged();
+}
+
+/**
+ * Get an organization's members with their profile details
+ */
+export async function getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const { data: members, error } = await supabase
+    .from('organization_members')
+    .select('user_id, role, created_at')
+    .eq('organization_id', organizationId)
+    .order('created_at');
+
+  if (error) throw error;
+  if (!members?.length) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, avatar_url')
+    .in('id', members.map((member) => member.user_id));
+
+  if (profilesError) throw profilesError;
+  const profilesById = new Map((profiles || []).map((profile) => [profile.id, profile]));
+
+  return members.map((member) => {
+    const profile = profilesById.get(member.user_id);
+    return {
+      userId: member.user_id,
+      role: member.role,
+      email: profile?.email || null,
+      fullName: profile?.full_name || null,
+      avatarUrl: profile?.avatar_url || null,
+      joinedAt: member.created_at,
+    };
+  });
+}
+
+/**
+ * Change a member's role
+ */
+export async function updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<void> {
+  const { error } = await supabase.rpc('update_organization_member_role', {
+    p_organization_id: organizationId,
+    p_user_id: userId,
+    p_role: role,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Remove a member from an organization
+ */
+export async function removeMember(organizationId: string, userId: string): Promise<void> {
+  const { error } = await supabase.rpc('remove_organization_member', {
+    p_organization_id: organizationId,
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Leave an organization, switching back to the personal workspace if it was active
+ */
+export async function leaveOrganization(organizationId: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Please sign in again');
+
+  await removeMember(organizationId, user.id);
+  if (activeWorkspaceId === organizationId) setActiveWorkspaceId(null);
+  notifyMembershipsChanged();
+}
+
+// =====================================================
+// INVITES
+// =====================================================
+
+/**
+ * Get an organization's open invites
+ */
+export async function getOrganizationInvites(organizationId: string): Promise<OrganizationInvite[]> {
+  const { data, error } = await supabase
+    .from('organization_invites')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Invite someone by email. The signed link is returned so it can be shared directly
+ * when no email was sent (the address already has an account).
+ */
+export async function inviteMember(organizationId: string, email: string, role: InviteRole): Promise<InviteResult> {
+  const { data, error } = await supabase.functions.invoke('organization-invite', {
+    body: { organization_id: organizationId, email, role },
+  });
+
+  if (error) {
+    const message = await getFunctionError(error, 'Failed to send invite');
+    console.error('Organization invite error:', message);
+    throw new Error(message);
+  }
+
+  return { inviteId: data.invite_id, inviteUrl: data.invite_url, emailSent: data.email_sent };
+}
+
+/**
+ * Revoke an invite that hasn't been accepted
+ */
+export async function revokeInvite(inviteId: string): Promise<void> {
+  const { error } = await supabase.from('organization_invites').delete().eq('id', inviteId);
+  if (error) throw error;
+}
+
+/**
+ * Accept an invite link for the signed-in user
+ */
+export async function acceptInvite(token: string): Promise<{ organizationId: string; organizationName: string; role: OrganizationRole }> {
+  const { data, error } = await supabase.functions.invoke('organization-invite-accept', {
+    body: { token },
+  });
+
+  if (error) {
+    const message = await getFunctionError(error, 'Failed to accept invite');
+    console.error('Organization invite accept error:', message);
+    throw new Error(message);
+  }
+
+  notifyMembershipsChanged();
+  return { organizationId: data.organization_id, organizationName: data.organization_name, role: data.role };
+}
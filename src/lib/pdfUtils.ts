@@ -8,8 +8,13 @@ interface PDFExportOptions {
   orientation?: 'portrait' | 'landscape';
   margin?: number;
   filename?: string;
+  imageFormat?: 'PNG' | 'JPEG';
+  pageSize?: 'format' | 'canvas'; // 'canvas' sizes each page to the design width (96 DPI) with no margins
 }
 
+// CSS pixels to millimetres
+const PX_TO_MM = 25.4 / 96;
+
 /**
  * Convert canvas to PDF with high quality
  */
@@ -73,9 +78,11 @@ export const exportCanvasToPDF = async (
 
 /**
  * Export multiple canvases to a single PDF
+ * Accepts an async iterable so large runs can render one page at a time
+ * With `pageSize: 'canvas'` every page matches its design size, for booklets and brochures
  */
 export const exportMultipleCanvasesToPDF = async (
-  canvases: HTMLCanvasElement[],
+  canvases: HTMLCanvasElement[] | AsyncIterable<HTMLCanvasElement>,
   options: PDFExportOptions = {}
 ): Promise<void> => {
   const {
@@ -85,35 +92,53 @@ export const exportMultipleCanvasesToPDF = async (
     format = 'A4',
     orientation = 'portrait',
     margin = 20,
-    filename = 'flyers.pdf'
+    filename = 'flyers.pdf',
+    imageFormat = 'PNG',
+    pageSize = 'format'
   } = options;
 
   try {
-    const pdf = new jsPDF({
-      orientation,
-      unit: 'mm',
-      format
-    });
+    const mimeType = imageFormat === 'JPEG' ? 'image/jpeg' : 'image/png';
+    let pdf: jsPDF | null = null;
 
-    const pdfWidth = pdf.internal.pageSize.getWidth();
-    const pdfHeight = pdf.internal.pageSize.getHeight();
-    const maxWidth = pdfWidth - (margin * 2);
-    const maxHeight = pdfHeight - (margin * 2);
-    const scaleX = maxWidth / width;
-    const scaleY = maxHeight / height;
-    const scale = Math.min(scaleX, scaleY);
-    const finalWidth = width * scale;
-    const finalHeight = height * scale;
-    const x = (pdfWidth - finalWidth) / 2;
-    const y = (pdfHeight - finalHeight) / 2;
+    for await (const canvas of canvases) {
+      // Canvas-sized pages keep the design width and follow each page's own aspect ratio
+      const pageFormat: string | number[] = pageSize === 'canvas'
+        ? [width * PX_TO_MM, (width * PX_TO_MM * canvas.height) / canvas.width]
+        : format;
+      const pageOrientation = pageSize === 'canvas'
+        ? (canvas.width > canvas.height ? 'landscape' : 'portrait')
+        : orientation;
 
-    for (let i = 0; i < canvases.length; i++) {
-      if (i > 0) {
-        pdf.addPage();
+      if (!pdf) {
+        pdf = new jsPDF({
+          orientation: pageOrientation,
+          unit: 'mm',
+          format: pageFormat
+        });
+      } else {
+        pdf.addPage(pageFormat, pageOrientation);
       }
 
-      const dataURL = canvases[i].toDataURL('image/png', quality);
-      pdf.addImage(dataURL, 'PNG', x, y, finalWidth, finalHeight);
+      const pdfWidth = pdf.internal.pageSize.getWidth();
+      const pdfHeight = pdf.internal.pageSize.getHeight();
+      const pageMargin = pageSize === 'canvas' ? 0 : margin;
+      const imageWidth = pageSize === 'canvas' ? canvas.width : width;
+      const imageHeight = pageSize === 'canvas' ? canvas.height : height;
+      const maxWidth = pdfWidth - (pageMargin * 2);
+      const maxHeight = pdfHeight - (pageMargin * 2);
+      const scale = Math.min(maxWidth / imageWidth, maxHeight / imageHeight);
+      const finalWidth = imageWidth * scale;
+      const finalHeight = imageHeight * scale;
+      const x = (pdfWidth - finalWidth) / 2;
+      const y = (pdfHeight - finalHeight) / 2;
+
+      const dataURL = canvas.toDataURL(mimeType, quality);
+      pdf.addImage(dataURL, imageFormat, x, y, finalWidth, finalHeight);
+    }
+
+    if (!pdf) {
+      throw new Error('No pages to export');
     }
 
     pdf.save(filename);
@@ -124,6 +149,131 @@ export const exportMultipleCanvasesToPDF = async (
   }
 };
 
+interface PrintPDFOptions {
+  trimWidthMm: number;
+  trimHeightMm: number;
+  bleedMm?: number;
+  cropMarks?: boolean;
+  registrationMarks?: boolean;
+  quality?: number;
+  filename?: string;
+}
+
+// Crop marks start this far outside the bleed edge and run this long
+const MARK_OFFSET_MM = 2;
+const MARK_LENGTH_MM = 6;
+const MARK_LINE_WIDTH_MM = 0.25;
+const REGISTRATION_RADIUS_MM = 2.5;
+
+/**
+ * Draw crop marks at each corner of the trim box
+ */
+const drawCropMarks = (pdf: jsPDF, left: number, top: number, right: number, bottom: number, bleed: number) => {
+  const start = bleed + MARK_OFFSET_MM;
+  const end = start + MARK_LENGTH_MM;
+
+  [[left, -1], [right, 1]].forEach(([x, dx]) => {
+    [[top, -1], [bottom, 1]].forEach(([y, dy]) => {
+      pdf.line(x + dx * start, y, x + dx * end, y);
+      pdf.line(x, y + dy * start, x, y + dy * end);
+    });
+  });
+};
+
+/**
+ * Draw a registration target centred on each side of the trim box
+ */
+const drawRegistrationMarks = (pdf: jsPDF, left: number, top: number, right: number, bottom: number, bleed: number) => {
+  const distance = bleed + MARK_OFFSET_MM + MARK_LENGTH_MM / 2;
+  const centreX = (left + right) / 2;
+  const centreY = (top + bottom) / 2;
+  const size = REGISTRATION_RADIUS_MM * 1.6;
+
+  [
+    [centreX, top - distance],
+    [centreX, bottom + distance],
+    [left - distance, centreY],
+    [right + distance, centreY],
+  ].forEach(([x, y]) => {
+    pdf.circle(x, y, REGISTRATION_RADIUS_MM, 'S');
+    pdf.line(x - size, y, x + size, y);
+    pdf.line(x, y - size, x, y + size);
+  });
+};
+
+/**
+ * Export print-ready pages: each page is the exact trim size plus bleed,
+ * with an optional slug around it holding crop and registration marks.
+ * Canvases must already include the bleed and be rendered at the target DPI.
+ */
+export const exportCanvasesToPrintPDF = async (
+  canvases: HTMLCanvasElement[] | AsyncIterable<HTMLCanvasElement>,
+  options: PrintPDFOptions
+): Promise<void> => {
+  const {
+    trimWidthMm,
+    trimHeightMm,
+    bleedMm = 0,
+    cropMarks = true,
+    registrationMarks = true,
+    quality = 0.95,
+    filename = 'print.pdf'
+  } = options;
+
+  try {
+    const hasMarks = cropMarks || registrationMarks;
+    const slug = hasMarks ? bleedMm + MARK_OFFSET_MM + MARK_LENGTH_MM + 2 : bleedMm;
+    const pageWidth = trimWidthMm + slug * 2;
+    const pageHeight = trimHeightMm + slug * 2;
+    const orientation = pageWidth > pageHeight ? 'landscape' : 'portrait';
+
+    const trimLeft = slug;
+    const trimTop = slug;
+    const trimRight = slug + trimWidthMm;
+    const trimBottom = slug + trimHeightMm;
+
+    let pdf: jsPDF | null = null;
+
+    for await (const canvas of canvases) {
+      if (!pdf) {
+        pdf = new jsPDF({
+          orientation,
+          unit: 'mm',
+          format: [pageWidth, pageHeight]
+        });
+      } else {
+        pdf.addPage([pageWidth, pageHeight], orientation);
+      }
+
+      // JPEG keeps 300 DPI pages at a size print shops accept
+      const dataURL = canvas.toDataURL('image/jpeg', quality);
+      pdf.addImage(
+        dataURL,
+        'JPEG',
+        trimLeft - bleedMm,
+        trimTop - bleedMm,
+        trimWidthMm + bleedMm * 2,
+        trimHeightMm + bleedMm * 2
+      );
+
+      pdf.setDrawColor(0, 0, 0);
+      pdf.setLineWidth(MARK_LINE_WIDTH_MM);
+      if (cropMarks) drawCropMarks(pdf, trimLeft, trimTop, trimRight, trimBottom, bleedMm);
+      if (registrationMarks) drawRegistrationMarks(pdf, trimLeft, trimTop, trimRight, trimBottom, bleedMm);
+    }
+
+    if (!pdf) {
+      throw new Error('No pages to export');
+    }
+
+    pdf.save(filename);
+
+  } catch (error) {
+    console.error('Error exporting print PDF:', error);
+    throw new Error('Failed to export print PDF');
+  }
+};
+
 /**
  * Export canvas with custom dimensions
  */
@@ -0,0 +1,237 @@
+/**
+ * Plans
+ * Loads subscription plans and event packages from the database, the one place their
+ * prices, limits, features and watermark settings are defined.
+ * Synchronous readers (feature gates, watermarks) use the cached catalog; until it has
+ * loaded, or for an unknown tier, they fall back to the free plan.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type PlanRow = Database['public']['Tables']['plans']['Row'];
+type EventPackageRow = Database['public']['Tables']['event_packages']['Row'];
+
+export interface PlanLimits {
+  templates: number; // -1 = unlimited
+  exports: number; // Per month, -1 = unlimited
+  storage: string;
+}
+
+export interface PlanFeatures {
+  customFonts: boolean;
+  pdfExport: boolean;
+  svgExport: boolean;
+  highResExport: boolean;
+  bulkGeneration: boolean;
+  whiteLabel: boolean;
+  apiAccess: boolean;
+  prioritySupport: boolean;
+}
+
+export interface Plan {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  currency: string;
+  interval: 'month' | 'year';
+  features: string[]; // Pricing page bullets
+  limits: PlanLimits;
+  entitlements: PlanFeatures;
+  watermarkText: string | null; // null = exports are not watermarked
+  sortOrder: number;
+  isPublic: boolean;
+  isFeatured: boolean;
+}
+
+export interface EventPackage {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  currency: string;
+  includes: string[];
+}
+
+export interface PlanCatalog {
+  plans: Plan[];
+  packages: EventPackage[];
+}
+
+export const FREE_PLAN_ID = 'free';
+
+// Stands in for the free plan until the catalog has loaded; the database still enforces the real limits
+const FALLBACK_PLAN: Plan = {
+  id: FREE_PLAN_ID,
+  name: 'Free',
+  description: null,
+  price: 0,
+  currency: 'GHS',
+  interval: 'month',
+  features: [],
+  limits: { templates: 3, exports: 10, storage: '100MB' },
+  entitlements: {
+    customFonts: false,
+    pdfExport: false,
+    svgExport: false,
+    highResExport: false,
+    bulkGeneration: false,
+    whiteLabel: false,
+    apiAccess: false,
+    prioritySupport: false,
+  },
+  watermarkText: 'Infinity Generation',
+  sortOrder: 0,
+  isPublic: true,
+  isFeatured: false,
+};
+
+let catalog: PlanCatalog | null = null;
+let pending: Promise<PlanCatalog> | null = null;
+const listeners = new Set<(catalog: PlanCatalog) => void>();
+
+/**
+ * Map a database row to a plan
+ */
+function toPlan(row: PlanRow): Plan {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    price: Number(row.price),
+    currency: row.currency,
+    interval: row.billing_interval,
+    features: row.features || [],
+    limits: {
+      templates: row.templates_limit,
+      exports: row.monthly_exports_limit,
+      storage: row.storage_limit,
+    },
+    entitlements: {
+      customFonts: row.custom_fonts,
+      pdfExport: row.pdf_export,
+      svgExport: row.svg_export,
+      highResExport: row.high_res_export,
+      bulkGeneration: row.bulk_generation,
+      whiteLabel: row.white_label,
+      apiAccess: row.api_access,
+      prioritySupport: row.priority_support,
+    },
+    watermarkText: row.watermark_text,
+    sortOrder: row.sort_order,
+    isPublic: row.is_public,
+    isFeatured: row.is_featured,
+  };
+}
+
+/**
+ * Map a database row to an event package
+ */
+function toEventPackage(row: EventPackageRow): EventPackage {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    price: Number(row.price),
+    currency: row.currency,
+    includes: row.includes || [],
+  };
+}
+
+/**
+ * Fetch plans and active event packages
+ */
+async function fetchCatalog(): Promise<PlanCatalog> {
+  const [plansResult, packagesResult] = await Promise.all([
+    supabase.from('plans').select('*').order('sort_order'),
+    supabase.from('event_packages').select('*').eq('is_active', true).order('sort_order'),
+  ]);
+
+  if (plansResult.error) throw plansResult.error;
+  if (packagesResult.error) throw packagesResult.error;
+
+  return {
+    plans: (plansResult.data || []).map(toPlan),
+    packages: (packagesResult.data || []).map(toEventPackage),
+  };
+}
+
+/**
+ * Load the plan catalog, reusing the cached copy unless forced
+ */
+export async function loadPlans(force = false): Promise<PlanCatalog> {
+  if (catalog && !force) return catalog;
+
+  if (!pending) {
+    pending = fetchCatalog()
+      .then((result) => {
+        catalog = result;
+        listeners.forEach((listener) => listener(result));
+        return result;
+      })
+      .finally(() => {
+        pending = null;
+      });
+  }
+
+  return pending;
+}
+
+/**
+ * Get the cached catalog, or null if it hasn't loaded yet
+ */
+export function getCachedCatalog(): PlanCatalog | null {
+  return catalog;
+}
+
+/**
+ * Be notified whenever the catalog is (re)loaded
+ */
+export function subscribeToPlans(listener: (catalog: PlanCatalog) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Get plans offered on the pricing page, lowest tier first
+ */
+export function getPublicPlans(): Plan[] {
+  return (catalog?.plans || [FALLBACK_PLAN]).filter((plan) => plan.isPublic);
+}
+
+/**
+ * Get a plan by ID, falling back to the free plan
+ */
+export function getPlan(planId?: string | null): Plan {
+  const plans = catalog?.plans || [];
+  const id = (planId || FREE_PLAN_ID).toLowerCase();
+  return plans.find((plan) => plan.id === id)
+    || plans.find((plan) => plan.id === FREE_PLAN_ID)
+    || FALLBACK_PLAN;
+}
+
+/**
+ * Get the next public plan above a tier, if any
+ */
+export function getNextPlan(planId?: string | null): Plan | null {
+  const current = getPlan(planId);
+  return getPublicPlans().find((plan) => plan.sortOrder > current.sortOrder) || null;
+}
+
+/**
+ * Get the lowest public plan that includes a feature
+ */
+export function getLowestPlanWith(feature: keyof PlanFeatures): Plan | null {
+  return getPublicPlans().find((plan) => plan.entitlements[feature]) || null;
+}
+
+/**
+ * Get an event package by ID
+ */
+export function getEventPackage(packageId: string): EventPackage | null {
+  const id = packageId.toLowerCase();
+  return catalog?.packages.find((eventPackage) => eventPackage.id === id) || null;
+}
@@ -0,0 +1,175 @@
+/**
+ * Prefilled Generator Links
+ * Text frames with a field key can be prefilled from the generator link's query string
+ * (`/flyer/:templateId?name=Ama&dept=Physics`). Signed links carry their fields in a
+ * `prefill` token checked by the prefill-link-verify Edge Function, and those fields are locked.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { FrameData } from '@/lib/frameSchema';
+import type { TemplatePage } from '@/lib/templatePages';
+import { getFunctionError } from '@/lib/edgeFunctions';
+
+/** Query parameter that carries a signed prefill token */
+export const PREFILL_TOKEN_PARAM = 'prefill';
+
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export interface PrefillValues {
+  /** Values by frame ID */
+  values: Record<string, string>;
+  /** Frames whose values came from a signed link */
+  lockedFrameIds: string[];
+}
+
+export interface SignedPrefillLink {
+  token: string;
+  url: string;
+  expiresAt: string | null;
+}
+
+/**
+ * Clean up a field key as it's typed: lowercase letters, digits and underscores
+ */
+export function normalizeFieldKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+/, '')
+    .slice(0, 40);
+}
+
+/**
+ * Whether a field key can be used in a link
+ */
+export function isValidFieldKey(key: string): boolean {
+  return FIELD_KEY_PATTERN.test(key) && key !== PREFILL_TOKEN_PARAM;
+}
+
+/**
+ * Suggest a key for a frame from its placeholder, avoiding keys already in use
+ */
+export function suggestFieldKey(frame: FrameData, takenKeys: Set<string>): string {
+  const base = normalizeFieldKey(frame.properties?.placeholder || '').replace(/_+$/, '') || 'field';
+  let key = base === PREFILL_TOKEN_PARAM ? `${base}_1` : base;
+  for (let i = 2; takenKeys.has(key); i++) key = `${base}_${i}`;
+  return key;
+}
+
+/**
+ * Text frames on every page that can be prefilled
+ */
+export function getPrefillableFrames(pages: TemplatePage[]): FrameData[] {
+  return pages.flatMap(page => page.frames).filter(frame => frame.type === 'text');
+}
+
+/**
+ * Field keys used by more than one frame; links can't tell those frames apart
+ */
+export function getDuplicateFieldKeys(frames: FrameData[]): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  frames.forEach(frame => {
+    if (!frame.key) return;
+    if (seen.has(frame.key)) duplicates.add(frame.key);
+    seen.add(frame.key);
+  });
+  return duplicates;
+}
+
+/**
+ * Map field values to the frames with those keys
+ */
+function mapFieldsToFrames(frames: FrameData[], fields: Record<string, string>): Record<string, string> {
+  const values: Record<string, string> = {};
+  frames.forEach(frame => {
+    if (frame.key && Object.prototype.hasOwnProperty.call(fields, frame.key)) {
+      values[frame.id] = fields[frame.key];
+    }
+  });
+  return values;
+}
+
+/**
+ * Read prefill values from a generator link. Signed fields win over plain query parameters.
+ * Throws if the link has a signed token that isn't valid.
+ */
+export async function getPrefillValues(
+  templateId: string,
+  frames: FrameData[],
+  searchParams: URLSearchParams
+): Promise<PrefillValues> {
+  const queryFields: Record<string, string> = {};
+  searchParams.forEach((value, key) => {
+    if (key !== PREFILL_TOKEN_PARAM) queryFields[key] = value;
+  });
+  const values = mapFieldsToFrames(frames, queryFields);
+
+  const token = searchParams.get(PREFILL_TOKEN_PARAM);
+  if (!token) return { values, lockedFrameIds: [] };
+
+  const { data, error } = await supabase.functions.invoke('prefill-link-verify', {
+    body: { template_id: templateId, token },
+  });
+
+  if (error) {
+    const message = await getFunctionError(error, 'This personalised link could not be checked');
+    console.error('Prefill link verify error:', message);
+    throw new Error(message);
+  }
+
+  const signedValues = mapFieldsToFrames(frames, data.fields || {});
+  return {
+    values: { ...values, ...signedValues },
+    lockedFrameIds: Object.keys(signedValues),
+  };
+}
+
+/**
+ * Build an unsigned generator link that prefills fields people can still change
+ */
+export function buildPrefillUrl(templateId: string, fields: Record<string, string>): string {
+  const params = new URLSearchParams(Object.entries(fields).filter(([, value]) => value !== ''));
+  const query = params.toString();
+  return `${window.location.origin}/flyer/${templateId}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Create a signed link whose fields are prefilled and locked
+ */
+export async function createSignedPrefillLink(
+  templateId: string,
+  fields: Record<string, string>,
+  expiresInDays: number | null
+): Promise<SignedPrefillLink> {
+  const { data, error } = await supabase.functions.invoke('prefill-link', {
+    body: { template_id: templateId, action: 'sign', fields, expires_in_days: expiresInDays },
+  });
+
+  if (error) {
+    const message = await getFunctionError(error, 'Failed to create link');
+    console.error('Prefill link error:', message);
+    throw new Error(message);
+  }
+
+  // Links point at the site the creator is using, like the regular share link
+  const url = `${window.location.origin}/flyer/${templateId}?${PREFILL_TOKEN_PARAM}=${encodeURIComponent(data.token)}`;
+  return { token: data.token, url, expiresAt: data.expires_at };
+}
+
+/**
+ * Get the template's link key for signing links elsewhere, optionally replacing it first
+ */
+export async function getPrefillLinkKey(templateId: string, rotate: boolean = false): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('prefill-link', {
+    body: { template_id: templateId, action: rotate ? 'rotate_key' : 'get_key' },
+  });
+
+  if (error) {
+    const message = await getFunctionError(error, 'Failed to load the link key');
+    console.error('Prefill link key error:', message);
+    throw new Error(message);
+  }
+
+  return data.key;
+}
@@ -0,0 +1,134 @@
+/**
+ * Print Export
+ * Physical sizes, bleed and resolution checks for print-ready PDFs
+ */
+
+import { findCanvasPreset, type CanvasSize } from './canvasSize';
+
+export interface PrintSettings {
+  dpi: number; // Resolution the pages are rendered and embedded at
+  bleedMm: number; // Extra artwork beyond the trim edge on every side
+  cropMarks: boolean;
+  registrationMarks: boolean;
+}
+
+export interface PhysicalSize {
+  widthMm: number;
+  heightMm: number;
+}
+
+export const MM_PER_INCH = 25.4;
+
+// Design resolution assumed for templates that don't set one and aren't a print preset
+export const DEFAULT_DESIGN_DPI = 150;
+
+export const PRINT_DPI_OPTIONS = [150, 300, 600];
+export const PRINT_BLEED_OPTIONS_MM = [0, 3, 5];
+export const DESIGN_DPI_OPTIONS = [72, 96, 150, 300];
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  dpi: 300,
+  bleedMm: 3,
+  cropMarks: true,
+  registrationMarks: true,
+};
+
+// Largest side a browser canvas can reliably allocate
+const MAX_PRINT_CANVAS_SIDE = 16384;
+
+/**
+ * Resolve the DPI a template was designed at, which maps its pixels to a physical size
+ */
+export function getTemplateDesignDpi(
+  template: { print_dpi?: number | null } | null | undefined,
+  size: CanvasSize
+): number {
+  return template?.print_dpi || findCanvasPreset(size)?.dpi || DEFAULT_DESIGN_DPI;
+}
+
+/**
+ * Get the trim size of a design in millimetres
+ */
+export function getPhysicalSize(size: CanvasSize, designDpi: number): PhysicalSize {
+  return {
+    widthMm: (size.width / designDpi) * MM_PER_INCH,
+    heightMm: (size.height / designDpi) * MM_PER_INCH,
+  };
+}
+
+/**
+ * Format a trim size for display, e.g. "210 × 297 mm"
+ */
+export function formatPhysicalSize(size: PhysicalSize): string {
+  const format = (mm: number) => (Math.round(mm * 10) / 10).toString();
+  return `${format(size.widthMm)} × ${format(size.heightMm)} mm`;
+}
+
+/**
+ * Convert millimetres to output pixels at a DPI
+ */
+export function mmToPixels(mm: number, dpi: number): number {
+  return Math.round((mm / MM_PER_INCH) * dpi);
+}
+
+/**
+ * Get the render scale that turns design pixels into output pixels at the target DPI
+ */
+export function getPrintScale(designDpi: number, targetDpi: number): number {
+  return targetDpi / designDpi;
+}
+
+/**
+ * Check that a print render fits in a browser canvas
+ */
+export function validatePrintSize(size: CanvasSize, designDpi: number, settings: PrintSettings): string | null {
+  const scale = getPrintScale(designDpi, settings.dpi);
+  const bleedPx = mmToPixels(settings.bleedMm, settings.dpi);
+  const largestSide = Math.max(size.width, size.height) * scale + bleedPx * 2;
+  if (largestSide > MAX_PRINT_CANVAS_SIDE) {
+    return `This design is too large to render at ${settings.dpi} DPI. Choose a lower resolution.`;
+  }
+  return null;
+}
+
+/**
+ * Surround a rendered page with bleed by extending its edge pixels outward.
+ * Trim stays exactly at the original canvas bounds.
+ */
+export function addBleed(source: HTMLCanvasElement, bleedPx: number): HTMLCanvasElement {
+  if (bleedPx <= 0) return source;
+
+  const { width, height } = source;
+  const canvas = document.createElement('canvas');
+  canvas.width = width + bleedPx * 2;
+  canvas.height = height + bleedPx * 2;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.imageSmoothingEnabled = false;
+
+  // Edges: stretch the outermost row/column of pixels across the bleed
+  ctx.drawImage(source, 0, 0, width, 1, bleedPx, 0, width, bleedPx);
+  ctx.drawImage(source, 0, height - 1, width, 1, bleedPx, height + bleedPx, width, bleedPx);
+  ctx.drawImage(source, 0, 0, 1, height, 0, bleedPx, bleedPx, height);
+  ctx.drawImage(source, width - 1, 0, 1, height, width + bleedPx, bleedPx, bleedPx, height);
+
+  // Corners: fill with the corner pixel
+  ctx.drawImage(source, 0, 0, 1, 1, 0, 0, bleedPx, bleedPx);
+  ctx.drawImage(source, width - 1, 0, 1, 1, width + bleedPx, 0, bleedPx, bleedPx);
+  ctx.drawImage(source, 0, height - 1, 1, 1, 0, height + bleedPx, bleedPx, bleedPx);
+  ctx.drawImage(source, width - 1, height - 1, 1, 1, width + bleedPx, height + bleedPx, bleedPx, bleedPx);
+
+  ctx.drawImage(source, bleedPx, bleedPx);
+  return canvas;
+}
+
+/**
+ * Get the resolution a placed photo will print at.
+ * `imageScale` is design pixels per source pixel; `outputScale` caps it at the resolution the photo was stored at.
+ */
+export function getEffectiveImageDpi(imageScale: number, designDpi: number, outputScale: number = Infinity): number {
+  const sourcePixelsPerDesignPixel = Math.min(1 / imageScale, outputScale);
+  return Math.round(designDpi * sourcePixelsPerDesignPixel);
+}
@@ -0,0 +1,413 @@
+/**
+ * Flyer Render Engine
+ * Single headless renderer shared by the editor, the preview and the public generator.
+ * Draws a template, its frames and the user inputs onto any 2D context
+ * (DOM canvas, OffscreenCanvas, or node-canvas) so a given input always gives the same pixels.
+ */
+
+// Explicit extensions so the API's Edge Function can import this file with Deno
+import type { FrameData } from './frameSchema.ts';
+import { drawBackgroundImage, cropImageToFrame } from './imageUtils.ts';
+
+export type RenderContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Any drawable image that also reports its intrinsic size
+export type RenderImage = CanvasImageSource & { width: number; height: number };
+
+export type ImageLoader = (src: string) => Promise<RenderImage>;
+export type FontWaiter = (fontFamily: string) => Promise<boolean>;
+
+export interface FrameInput {
+  type: 'image' | 'text';
+  value: string;
+}
+
+export type FrameInputs = Record<string, FrameInput | undefined>;
+
+export interface RenderScene {
+  width: number;
+  height: number;
+  frames: FrameData[];
+  inputs?: FrameInputs;
+  background?: RenderImage | null;
+  images?: Record<string, RenderImage | undefined>;
+  backgroundColor?: string;
+}
+
+export interface RenderOptions {
+  /**
+   * 'output' draws only what ends up in the exported file.
+   * 'design' also shades empty frames so they can be seen while editing.
+   */
+  mode?: 'output' | 'design';
+  /**
+   * Fall back to a text frame's placeholder when it has no value (default true).
+   * Bulk runs turn this off so an empty cell prints as blank, not as "Enter your name".
+   */
+  showPlaceholders?: boolean;
+}
+
+export interface FlyerSource {
+  width: number;
+  height: number;
+  backgroundUrl?: string | null;
+  frames: FrameData[];
+  inputs?: FrameInputs;
+  backgroundColor?: string;
+}
+
+export interface RenderAssetOptions {
+  loadImage: ImageLoader;
+  waitForFont?: FontWaiter;
+}
+
+const DEFAULT_FONT_FAMILY = 'Arial';
+const DEFAULT_FONT_SIZE = 24;
+const DEFAULT_CORNER_RADIUS = 10;
+const DEFAULT_POLYGON_SIDES = 6;
+const TEXT_PADDING = 10;
+const LINE_HEIGHT_RATIO = 1.2;
+
+// Fonts every renderer can be expected to have without loading
+const BUILT_IN_FONTS = ['Arial', 'sans-serif', 'serif', 'monospace'];
+
+// The path-building subset of a 2D context, so shapes can also be traced into SVG paths
+export type ShapePathTarget = Pick<CanvasPath, 'moveTo' | 'lineTo' | 'quadraticCurveTo' | 'arc' | 'rect' | 'closePath'> &
+  Pick<CanvasDrawPath, 'beginPath'>;
+
+/**
+ * Trace the frame's shape as the current path (used for clipping and outlines)
+ */
+export function createShapePath(ctx: ShapePathTarget, frame: FrameData): void {
+  ctx.beginPath();
+
+  switch (frame.shape) {
+    case 'circle': {
+      const centerX = frame.x + frame.width / 2;
+      const centerY = frame.y + frame.height / 2;
+      const radius = Math.min(frame.width, frame.height) / 2;
+      ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+      break;
+    }
+    case 'rounded-rectangle': {
+      const cornerRadius = frame.cornerRadius ?? DEFAULT_CORNER_RADIUS;
+      ctx.moveTo(frame.x + cornerRadius, frame.y);
+      ctx.lineTo(frame.x + frame.width - cornerRadius, frame.y);
+      ctx.quadraticCurveTo(frame.x + frame.width, frame.y, frame.x + frame.width, frame.y + cornerRadius);
+      ctx.lineTo(frame.x + frame.width, frame.y + frame.height - cornerRadius);
+      ctx.quadraticCurveTo(frame.x + frame.width, frame.y + frame.height, frame.x + frame.width - cornerRadius, frame.y + frame.height);
+      ctx.lineTo(frame.x + cornerRadius, frame.y + frame.height);
+      ctx.quadraticCurveTo(frame.x, frame.y + frame.height, frame.x, frame.y + frame.height - cornerRadius);
+      ctx.lineTo(frame.x, frame.y + cornerRadius);
+      ctx.quadraticCurveTo(frame.x, frame.y, frame.x + cornerRadius, frame.y);
+      ctx.closePath();
+      break;
+    }
+    case 'polygon': {
+      const sides = frame.polygonSides || DEFAULT_POLYGON_SIDES;
+      const centerX = frame.x + frame.width / 2;
+      const centerY = frame.y + frame.height / 2;
+      const radius = Math.min(frame.width, frame.height) / 2;
+
+      for (let i = 0; i < sides; i++) {
+        const angle = (i * 2 * Math.PI) / sides - Math.PI / 2; // Start from top
+        const x = centerX + radius * Math.cos(angle);
+        const y = centerY + radius * Math.sin(angle);
+
+        if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      }
+      ctx.closePath();
+      break;
+    }
+    default:
+      ctx.rect(frame.x, frame.y, frame.width, frame.height);
+  }
+}
+
+/**
+ * Rotate the context around the frame's center
+ */
+export function applyFrameRotation(ctx: RenderContext2D, frame: FrameData): void {
+  const centerX = frame.x + frame.width / 2;
+  const centerY = frame.y + frame.height / 2;
+  ctx.translate(centerX, centerY);
+  ctx.rotate(((frame.rotation || 0) * Math.PI) / 180);
+  ctx.translate(-centerX, -centerY);
+}
+
+/**
+ * Build the CSS font shorthand used for a text frame
+ */
+export function getFrameFont(frame: FrameData): string {
+  const fontFamily = frame.properties?.fontFamily || DEFAULT_FONT_FAMILY;
+  const fontSize = frame.properties?.fontSize || DEFAULT_FONT_SIZE;
+  const fontWeight = frame.properties?.fontWeight || 400;
+  const fontStyle = frame.properties?.fontStyle || 'normal';
+  return `${fontStyle} ${fontWeight} ${fontSize}px "${fontFamily}"`;
+}
+
+/**
+ * Resolve the text a frame should display: user input first, then the placeholder
+ */
+export function getFrameText(frame: FrameData, input?: FrameInput, showPlaceholder = true): string {
+  const value = input?.type === 'text' ? input.value : '';
+  return value || (showPlaceholder ? frame.properties?.placeholder || '' : '');
+}
+
+/**
+ * Break text into lines that fit the frame width, truncated to the lines that fit its height
+ */
+export function layoutTextLines(ctx: RenderContext2D, text: string, frame: FrameData): string[] {
+  const fontSize = frame.properties?.fontSize || DEFAULT_FONT_SIZE;
+  const lineHeight = fontSize * LINE_HEIGHT_RATIO;
+  const maxLines = Math.floor(frame.height / lineHeight) || 1;
+  const maxWidth = frame.width - TEXT_PADDING * 2;
+
+  const lines: string[] = [];
+  let currentLine = '';
+
+  for (const word of text.split(/\s+/)) {
+    const testLine = currentLine ? `${currentLine} ${word}` : word;
+    if (ctx.measureText(testLine).width > maxWidth && currentLine) {
+      lines.push(currentLine);
+      currentLine = word;
+    } else {
+      currentLine = testLine;
+    }
+  }
+  if (currentLine) lines.push(currentLine);
+
+  return lines.slice(0, maxLines);
+}
+
+export interface TextLayout {
+  lines: string[];
+  x: number;
+  startY: number; // Vertical centre of the first line
+  lineHeight: number;
+  align: CanvasTextAlign;
+}
+
+/**
+ * Position a frame's text lines; shared by the canvas renderer and the SVG exporter.
+ * Expects `ctx.font` to already be set to the frame's font for measuring.
+ */
+export function layoutTextFrame(ctx: RenderContext2D, frame: FrameData, text: string): TextLayout {
+  const properties = frame.properties || {};
+  const fontSize = properties.fontSize || DEFAULT_FONT_SIZE;
+  const lineHeight = fontSize * LINE_HEIGHT_RATIO;
+
+  const x = properties.textAlign === 'left' ? frame.x + TEXT_PADDING :
+            properties.textAlign === 'right' ? frame.x + frame.width - TEXT_PADDING :
+            frame.x + frame.width / 2;
+
+  const lines = layoutTextLines(ctx, text, frame);
+  const totalHeight = lines.length * lineHeight;
+  const startY = frame.y + (frame.height - totalHeight) / 2 + lineHeight / 2;
+
+  return {
+    lines,
+    x,
+    startY,
+    lineHeight,
+    align: (properties.textAlign as CanvasTextAlign) || 'center',
+  };
+}
+
+/**
+ * Draw text into a frame, clipped to its shape
+ */
+export function drawTextFrame(ctx: RenderContext2D, frame: FrameData, text: string): void {
+  if (!text) return;
+
+  ctx.save();
+  applyFrameRotation(ctx, frame);
+  createShapePath(ctx, frame);
+  ctx.clip();
+
+  ctx.font = getFrameFont(frame);
+  ctx.fillStyle = frame.properties?.color || '#000000';
+  ctx.textBaseline = 'middle';
+
+  const { lines, x, startY, lineHeight, align } = layoutTextFrame(ctx, frame, text);
+  ctx.textAlign = align;
+
+  lines.forEach((line, index) => {
+    ctx.fillText(line, x, startY + index * lineHeight);
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Draw an image into a frame, clipped to its shape.
+ * Images already cropped to the frame (e.g. from the image editor) are drawn as-is,
+ * anything else is center-cropped to cover the frame.
+ */
+export function drawImageFrame(
+  ctx: RenderContext2D,
+  frame: FrameData,
+  image: RenderImage,
+  options: { prefitted?: boolean } = {}
+): void {
+  ctx.save();
+  applyFrameRotation(ctx, frame);
+  createShapePath(ctx, frame);
+  ctx.clip();
+
+  if (options.prefitted) {
+    ctx.drawImage(image, frame.x, frame.y, frame.width, frame.height);
+  } else {
+    const { sourceX, sourceY, sourceWidth, sourceHeight } = cropImageToFrame(image, frame.width, frame.height);
+    ctx.drawImage(
+      image,
+      sourceX, sourceY, sourceWidth, sourceHeight,
+      frame.x, frame.y, frame.width, frame.height
+    );
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Shade an empty frame so it is visible on the design surface
+ */
+function drawEmptyFrame(ctx: RenderContext2D, frame: FrameData): void {
+  ctx.save();
+  applyFrameRotation(ctx, frame);
+  createShapePath(ctx, frame);
+  ctx.fillStyle = frame.type === 'image' ? 'rgba(156, 163, 175, 0.3)' : 'rgba(156, 163, 175, 0.1)';
+  ctx.fill();
+
+  if (frame.type === 'image') {
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '16px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('📷', frame.x + frame.width / 2, frame.y + frame.height / 2);
+  }
+  ctx.restore();
+}
+
+/**
+ * Check whether an image input was already cropped to its frame
+ */
+export function isPrefittedImage(input?: FrameInput): boolean {
+  return !!input && input.type === 'image' && input.value.startsWith('data:');
+}
+
+/**
+ * Draw a fully resolved scene synchronously.
+ * All images must already be loaded; use renderFlyer to load them first.
+ */
+export function renderScene(ctx: RenderContext2D, scene: RenderScene, options: RenderOptions = {}): void {
+  const { mode = 'output', showPlaceholders = true } = options;
+  const inputs = scene.inputs || {};
+
+  ctx.fillStyle = scene.backgroundColor || '#ffffff';
+  ctx.fillRect(0, 0, scene.width, scene.height);
+
+  if (scene.background) {
+    drawBackgroundImage(ctx, scene.background, scene.width, scene.height);
+  }
+
+  for (const frame of scene.frames) {
+    if (frame.visible === false) continue;
+
+    try {
+      if (frame.type === 'image') {
+        const image = scene.images?.[frame.id];
+        if (image) {
+          drawImageFrame(ctx, frame, image, { prefitted: isPrefittedImage(inputs[frame.id]) });
+        } else if (mode === 'design') {
+          drawEmptyFrame(ctx, frame);
+        }
+      } else {
+        if (mode === 'design') drawEmptyFrame(ctx, frame);
+        drawTextFrame(ctx, frame, getFrameText(frame, inputs[frame.id], showPlaceholders));
+      }
+    } catch (frameError) {
+      console.error(`Error rendering frame ${frame.id}:`, frameError);
+    }
+  }
+}
+
+/**
+ * Collect the font families a set of frames needs that are not built in
+ */
+export function getRequiredFonts(frames: FrameData[]): string[] {
+  const families = new Set<string>();
+  frames.forEach(frame => {
+    if (frame.type !== 'text') return;
+    const family = frame.properties?.fontFamily || DEFAULT_FONT_FAMILY;
+    if (!BUILT_IN_FONTS.includes(family)) families.add(family);
+  });
+  return [...families];
+}
+
+/**
+ * Load the background, user images and fonts a flyer needs
+ */
+export async function loadFlyerAssets(
+  source: FlyerSource,
+  { loadImage, waitForFont }: RenderAssetOptions
+): Promise<Pick<RenderScene, 'background' | 'images'>> {
+  const inputs = source.inputs || {};
+
+  const backgroundPromise = source.backgroundUrl
+    ? loadImage(source.backgroundUrl).catch(error => {
+        console.error('Failed to load background image:', error);
+        return null;
+      })
+    : Promise.resolve(null);
+
+  const imageEntries = await Promise.all(
+    source.frames
+      .filter(frame => frame.type === 'image' && inputs[frame.id]?.type === 'image' && inputs[frame.id]?.value)
+      .map(async frame => {
+        try {
+          return [frame.id, await loadImage(inputs[frame.id]!.value)] as const;
+        } catch (error) {
+          console.error(`Failed to load image for frame ${frame.id}:`, error);
+          return [frame.id, undefined] as const;
+        }
+      })
+  );
+
+  if (waitForFont) {
+    await Promise.all(
+      getRequiredFonts(source.frames).map(family =>
+        waitForFont(family).catch(error => console.warn('Font load timeout:', error))
+      )
+    );
+  }
+
+  return {
+    background: await backgroundPromise,
+    images: Object.fromEntries(imageEntries),
+  };
+}
+
+/**
+ * Load every asset of a flyer and draw it onto the given context
+ */
+export async function renderFlyer(
+  ctx: RenderContext2D,
+  source: FlyerSource,
+  assetOptions: RenderAssetOptions,
+  options: RenderOptions = {}
+): Promise<void> {
+  const assets = await loadFlyerAssets(source, assetOptions);
+  renderScene(ctx, {
+    width: source.width,
+    height: source.height,
+    frames: source.frames,
+    inputs: source.inputs,
+    backgroundColor: source.backgroundColor,
+    ...assets,
+  }, options);
+}
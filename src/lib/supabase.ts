@@ -12,6 +12,12 @@ import type {
   TablesInsert,
   TablesUpdate 
 } from "@/integrations/supabase/types";
+import { migrateFrames, CURRENT_FRAME_SCHEMA_VERSION } from "@/lib/frameSchema";
+import { migratePages } from "@/lib/templatePages";
+import { getMyEntitlements, isLimitReached } from "@/lib/entitlements";
+import { trackTemplateEvent } from "@/lib/analytics";
+import { getActiveWorkspaceId } from "@/lib/organizations";
+import { isTemplateLive } from "@/lib/templateReviews";
 
 // =====================================================
 // AUTHENTICATION
@@ -171,9 +177,10 @@ export async function getCurrentProfile(): Promise<Profile | null> {
 // =====================================================
 
 /**
- * Get all templates for the current user with enhanced session handling
+ * Get the current user's personal templates, or an organization's shared library,
+ * with enhanced session handling
  */
-export async function getUserTemplates(): Promise<Template[]> {
+export async function getUserTemplates(organizationId: string | null = null): Promise<Template[]> {
   try {
     // First try to get the current session
     let { data: { session }, error: sessionError } = await supabase.auth.getSession();
@@ -194,11 +201,12 @@ export async function getUserTemplates(): Promise<Template[]> {
     const user = session.user;
     console.log('📋 Fetching templates for user:', user.email);
 
-    const { data, error } = await supabase
-      .from('templates')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
+    let query = supabase.from('templates').select('*');
+    query = organizationId
+      ? query.eq('organization_id', organizationId)
+      : query.eq('user_id', user.id).is('organization_id', null);
+
+    const { data, error } = await query.order('created_at', { ascending: false });
 
     if (error) {
       console.error('❌ Error fetching templates:', error);
@@ -366,6 +374,23 @@ export async function getPopularTags(limit: number = 20) {
   }
 }
 
+/**
+ * Upgrade and validate a stored template's frames and pages JSON
+ */
+function withMigratedFrames(data: Template): TemplateWithFrames {
+  const frames = migrateFrames(data.frames, data.schema_version, data.id);
+
+  return {
+    ...data,
+    frames,
+    pages: migratePages(data.pages, data.schema_version, data.id, {
+      backgroundUrl: data.background_url,
+      frames
+    }),
+    schema_version: CURRENT_FRAME_SCHEMA_VERSION
+  };
+}
+
 /**
  * Get a specific template by ID (with proper permissions check)
  */
@@ -379,13 +404,7 @@ export async function getTemplate(templateId: string): Promise<TemplateWithFrame
   if (error && error.code !== 'PGRST116') throw error;
   if (!data) return null;
 
-  // Parse the frames JSON into typed Frame objects
-  const template: TemplateWithFrames = {
-    ...data,
-    frames: (data.frames as unknown as Frame[]) || []
-  };
-
-  return template;
+  return withMigratedFrames(data);
 }
 
 /**
@@ -419,19 +438,26 @@ export async function getPublicTemplate(templateId: string): Promise<TemplateWit
 
     console.log('Template found:', data);
 
-    // Try to increment view count, but don't fail if it doesn't work
-    try {
-      await supabase.rpc('increment_template_view', { template_uuid: templateId });
-      console.log('View count incremented');
-    } catch (viewError) {
-      console.warn('Failed to increment view count:', viewError);
-      // Don't throw - this is not critical
+    // Organization members can read their drafts, but the public link waits for approval
+    if (!isTemplateLive(data)) return null;
+
+    // A pinned share link serves its published version, not the latest save
+    let content: Template = data;
+    if (data.published_version_id) {
+      const { data: version, error: versionError } = await supabase
+        .from('template_versions')
+        .select('name, description, template_type, background_url, frames, pages, schema_version, canvas_width, canvas_height, print_dpi, fonts')
+        .eq('id', data.published_version_id)
+        .single();
+
+      if (versionError) throw versionError;
+      content = { ...data, ...version, template_type: version.template_type || data.template_type };
     }
 
-    const template: TemplateWithFrames = {
-      ...data,
-      frames: (data.frames as unknown as Frame[]) || []
-    };
+    // Record the view (also bumps the view count); never fails the page
+    await trackTemplateEvent(templateId, 'view');
+
+    const template = withMigratedFrames(content);
 
     console.log('Returning template with frames:', template.frames?.length || 0);
     return template;
@@ -468,10 +494,14 @@ export async function createTemplate(
 
   console.log('✅ User authenticated for create:', { userId: user.id, email: user.email });
 
-  // Ensure user_id is set correctly
+  // Ensure user_id, workspace and frame schema version are set correctly
   const templateDataWithUserId = {
     ...templateData,
-    user_id: user.id
+    user_id: user.id,
+    organization_id: templateData.organization_id !== undefined
+      ? templateData.organization_id
+      : getActiveWorkspaceId(),
+    schema_version: CURRENT_FRAME_SCHEMA_VERSION
   };
 
   console.log('📝 Inserting template with data:', templateDataWithUserId);
@@ -544,7 +574,7 @@ export async function updateTemplate(
     const { data: existingTemplate, error: checkError } = await Promise.race([
       supabase
         .from('templates')
-        .select('id, user_id, name')
+        .select('id, user_id, organization_id, name')
         .eq('id', templateId)
         .single(),
       timeoutPromise
@@ -565,7 +595,9 @@ export async function updateTemplate(
 
     console.log('✅ Template found:', existingTemplate);
 
-    if (existingTemplate.user_id !== user.id) {
+    // Organization templates are shared; RLS decides whether this member may edit them
+    const isOrganizationTemplate = !!existingTemplate.organization_id;
+    if (!isOrganizationTemplate && existingTemplate.user_id !== user.id) {
       console.error('❌ Template ownership mismatch:', { 
         templateUserId: existingTemplate.user_id, 
         currentUserId: user.id 
@@ -577,15 +609,21 @@ export async function updateTemplate(
     const cleanUpdates = { ...updates };
     delete cleanUpdates.user_id;
 
+    // Frames are always written in the current schema
+    if (cleanUpdates.frames !== undefined || cleanUpdates.pages !== undefined) {
+      cleanUpdates.schema_version = CURRENT_FRAME_SCHEMA_VERSION;
+    }
+
     console.log('📝 Updating template with:', cleanUpdates);
 
+    let updateQuery = supabase
+      .from('templates')
+      .update(cleanUpdates)
+      .eq('id', templateId);
+    if (!isOrganizationTemplate) updateQuery = updateQuery.eq('user_id', user.id);
+
     const { data, error } = await Promise.race([
-      supabase
-        .from('templates')
-        .update(cleanUpdates)
-        .eq('id', templateId)
-        .eq('user_id', user.id)
-        .select(),
+      updateQuery.select(),
       timeoutPromise
     ]);
 
@@ -603,7 +641,9 @@ export async function updateTemplate(
 
     const result = data && Array.isArray(data) ? data[0] : data;
     if (!result) {
-      throw new Error('Template updated but no data returned');
+      throw new Error(isOrganizationTemplate
+        ? 'You do not have permission to edit this template'
+        : 'Template updated but no data returned');
     }
 
     console.log('✅ Template updated successfully:', result);
@@ -641,11 +681,11 @@ export async function updateTemplateFrames(
 // =====================================================
 
 /**
- * Track a template generation (for analytics)
+ * Track a template generation (for analytics and generation.created webhooks)
  */
-export async function trackTemplateGeneration(templateId: string): Promise<void> {
-  // Increment the generation count
-  await supabase.rpc('increment_template_generation', { template_uuid: templateId });
+export async function trackTemplateGeneration(templateId: string, format = 'png'): Promise<void> {
+  // Record the download event (also bumps the generation count)
+  await trackTemplateEvent(templateId, 'download', { format });
 
   // Track the generation event
   const { error } = await supabase
@@ -653,6 +693,7 @@ export async function trackTemplateGeneration(templateId: string): Promise<void>
     .insert({
       template_id: templateId,
       user_agent: navigator.userAgent,
+      format, // Sent to generation.created webhooks
       // Note: IP address will be handled by the database if needed
     });
 
@@ -897,36 +938,19 @@ export function getTemplateShareUrl(templateId: string): string {
  * Check if user has reached their template limit
  */
 export async function checkTemplateLimit(): Promise<boolean> {
-  const profile = await getCurrentProfile();
-  if (!profile) return false;
+  const entitlements = await getMyEntitlements();
+  if (!entitlements) return false;
 
-  const templates = await getUserTemplates();
-  return templates.length >= profile.templates_limit;
+  return isLimitReached(entitlements.templates_used, entitlements.templates_limit);
 }
 
 /**
- * Check if user has reached their monthly export limit
+ * Check if user has reached their monthly export limit.
+ * The count is kept by the database as exports are logged.
  */
 export async function checkExportLimit(): Promise<boolean> {
-  const profile = await getCurrentProfile();
-  if (!profile) return false;
+  const entitlements = await getMyEntitlements();
+  if (!entitlements) return false;
 
-  return profile.monthly_exports >= profile.monthly_exports_limit;
+  return isLimitReached(entitlements.monthly_exports_used, entitlements.monthly_exports_limit);
 }
-
-/**
- * Increment user's monthly export count
- */
-export async function incrementExportCount(): Promise<void> {
-  const session = await getSession();
-  if (!session?.user) return;
-
-  const { error } = await supabase
-    .from('profiles')
-    .update({ 
-      monthly_exports: (supabase as any).raw('monthly_exports + 1') 
-    })
-    .eq('id', session.user.id);
-
-  if (error) console.warn('Failed to increment export count:', error);
-} 
\ No newline at end of file
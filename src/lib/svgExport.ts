@@ -0,0 +1,226 @@
+/**
+ * SVG Export
+ * Builds a vector SVG of a flyer: live <text> for text frames, clip paths for frame shapes,
+ * and embedded images for the background and user photos, for finishing in Illustrator or Inkscape
+ */
+
+import type { FrameData } from './frameSchema';
+import {
+  createShapePath,
+  getFrameFont,
+  getFrameText,
+  getRequiredFonts,
+  isPrefittedImage,
+  layoutTextFrame,
+  type FlyerSource,
+  type ShapePathTarget,
+} from './renderEngine';
+import { getLoadedFonts, waitForFontLoad } from './fontUtils';
+
+export interface SvgExportOptions {
+  embedFonts?: boolean; // Inline uploaded fonts as data URLs; otherwise fonts are referenced by name
+  showPlaceholders?: boolean;
+  watermarkText?: string;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+/**
+ * Escape text for use in SVG content and attributes
+ */
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Records canvas path commands as SVG path data
+ */
+class SvgPathRecorder implements ShapePathTarget {
+  private commands: string[] = [];
+
+  beginPath() {
+    this.commands = [];
+  }
+
+  moveTo(x: number, y: number) {
+    this.commands.push(`M${round(x)} ${round(y)}`);
+  }
+
+  lineTo(x: number, y: number) {
+    this.commands.push(`L${round(x)} ${round(y)}`);
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+    this.commands.push(`Q${round(cpx)} ${round(cpy)} ${round(x)} ${round(y)}`);
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    const point = (angle: number) => `${round(x + radius * Math.cos(angle))} ${round(y + radius * Math.sin(angle))}`;
+    const sweep = counterclockwise ? 0 : 1;
+    const span = Math.abs(endAngle - startAngle);
+
+    this.commands.push(`${this.commands.length ? 'L' : 'M'}${point(startAngle)}`);
+    if (span >= 2 * Math.PI - 1e-6) {
+      // A full circle can't be one SVG arc; draw two halves
+      const midAngle = startAngle + Math.PI;
+      this.commands.push(`A${round(radius)} ${round(radius)} 0 1 ${sweep} ${point(midAngle)}`);
+      this.commands.push(`A${round(radius)} ${round(radius)} 0 1 ${sweep} ${point(startAngle)}`);
+    } else {
+      const largeArc = span > Math.PI ? 1 : 0;
+      this.commands.push(`A${round(radius)} ${round(radius)} 0 ${largeArc} ${sweep} ${point(endAngle)}`);
+    }
+  }
+
+  rect(x: number, y: number, width: number, height: number) {
+    this.commands.push(`M${round(x)} ${round(y)}h${round(width)}v${round(height)}h${round(-width)}Z`);
+  }
+
+  closePath() {
+    this.commands.push('Z');
+  }
+
+  toString() {
+    return this.commands.join('');
+  }
+}
+
+/**
+ * Get a frame's shape as SVG path data
+ */
+export function getFrameShapePath(frame: FrameData): string {
+  const recorder = new SvgPathRecorder();
+  createShapePath(recorder, frame);
+  return recorder.toString();
+}
+
+/**
+ * Read any image URL (remote, blob or data) as a data URL so the SVG is self-contained
+ */
+async function toDataUrl(url: string): Promise<string> {
+  if (url.startsWith('data:')) return url;
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  const blob = await response.blob();
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Build @font-face rules for the uploaded and bundled fonts a set of frames uses
+ */
+async function buildFontFaces(frames: FrameData[]): Promise<string> {
+  const required = getRequiredFonts(frames);
+  const fonts = getLoadedFonts().filter(font => required.includes(font.family));
+
+  const rules = await Promise.all(fonts.map(async font => {
+    try {
+      const src = await toDataUrl(font.url);
+      return `@font-face { font-family: "${escapeXml(font.family)}"; src: url("${src}"); font-weight: ${font.weight || 'normal'}; font-style: ${font.style || 'normal'}; }`;
+    } catch (error) {
+      console.warn(`Could not embed font ${font.family}, referencing it by name:`, error);
+      return '';
+    }
+  }));
+
+  return rules.filter(Boolean).join('\n');
+}
+
+/**
+ * Wrap frame content in its rotation and shape clip
+ */
+function wrapFrame(frame: FrameData, clipId: string, content: string): string {
+  const centerX = round(frame.x + frame.width / 2);
+  const centerY = round(frame.y + frame.height / 2);
+  const rotation = frame.rotation ? ` transform="rotate(${round(frame.rotation)} ${centerX} ${centerY})"` : '';
+  return `<g id="${escapeXml(frame.id)}"${rotation}><g clip-path="url(#${clipId})">${content}</g></g>`;
+}
+
+/**
+ * Build an SVG document for a flyer
+ */
+export async function buildFlyerSvg(source: FlyerSource, options: SvgExportOptions = {}): Promise<string> {
+  const { embedFonts = true, showPlaceholders = false, watermarkText } = options;
+  const inputs = source.inputs || {};
+  const frames = source.frames.filter(frame => frame.visible !== false);
+
+  // Text is measured with the same fonts the canvas renderer uses so lines break identically
+  await Promise.all(getRequiredFonts(frames).map(family =>
+    waitForFontLoad(family).catch(error => console.warn('Font load timeout:', error))
+  ));
+  const measureCtx = document.createElement('canvas').getContext('2d');
+  if (!measureCtx) throw new Error('Failed to get canvas context');
+
+  const defs: string[] = [];
+  const body: string[] = [];
+
+  body.push(`<rect width="${source.width}" height="${source.height}" fill="${escapeXml(source.backgroundColor || '#ffffff')}"/>`);
+
+  if (source.backgroundUrl) {
+    const href = await toDataUrl(source.backgroundUrl);
+    // Matches drawBackgroundImage: scaled to fit and centred
+    body.push(`<image id="background" x="0" y="0" width="${source.width}" height="${source.height}" preserveAspectRatio="xMidYMid meet" href="${href}" xlink:href="${href}"/>`);
+  }
+
+  for (const [index, frame] of frames.entries()) {
+    const clipId = `clip-${index}`;
+
+    if (frame.type === 'image') {
+      const input = inputs[frame.id];
+      if (input?.type !== 'image' || !input.value) continue;
+
+      const href = await toDataUrl(input.value);
+      // Prefitted images are already cropped to the frame; others are centre-cropped to cover it
+      const aspect = isPrefittedImage(input) ? 'none' : 'xMidYMid slice';
+      defs.push(`<clipPath id="${clipId}"><path d="${getFrameShapePath(frame)}"/></clipPath>`);
+      body.push(wrapFrame(frame, clipId,
+        `<image x="${round(frame.x)}" y="${round(frame.y)}" width="${round(frame.width)}" height="${round(frame.height)}" preserveAspectRatio="${aspect}" href="${href}" xlink:href="${href}"/>`
+      ));
+      continue;
+    }
+
+    const text = getFrameText(frame, inputs[frame.id], showPlaceholders);
+    if (!text) continue;
+
+    measureCtx.font = getFrameFont(frame);
+    const { lines, x, startY, lineHeight, align } = layoutTextFrame(measureCtx, frame, text);
+    const anchor = align === 'left' || align === 'start' ? 'start' : align === 'right' || align === 'end' ? 'end' : 'middle';
+    const properties = frame.properties || {};
+
+    const tspans = lines.map((line, lineIndex) =>
+      `<tspan x="${round(x)}" y="${round(startY + lineIndex * lineHeight)}">${escapeXml(line)}</tspan>`
+    ).join('');
+
+    defs.push(`<clipPath id="${clipId}"><path d="${getFrameShapePath(frame)}"/></clipPath>`);
+    body.push(wrapFrame(frame, clipId,
+      `<text font-family="${escapeXml(properties.fontFamily || 'Arial')}" font-size="${properties.fontSize || 24}" font-weight="${properties.fontWeight || 400}" font-style="${properties.fontStyle || 'normal'}" fill="${escapeXml(properties.color || '#000000')}" text-anchor="${anchor}" dominant-baseline="central" xml:space="preserve">${tspans}</text>`
+    ));
+  }
+
+  if (watermarkText) {
+    body.push(`<text x="${source.width - 10}" y="${source.height - 10}" font-family="Arial, sans-serif" font-size="10" fill="#000000" fill-opacity="0.2" text-anchor="end">${escapeXml(watermarkText)}</text>`);
+  }
+
+  const fontFaces = embedFonts ? await buildFontFaces(frames) : '';
+  if (fontFaces) defs.unshift(`<style>${fontFaces}</style>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="${SVG_NS}" xmlns:xlink="${XLINK_NS}" width="${source.width}" height="${source.height}" viewBox="0 0 ${source.width} ${source.height}">`,
+    `<defs>${defs.join('')}</defs>`,
+    ...body,
+    '</svg>',
+  ].join('\n');
+}
@@ -0,0 +1,143 @@
+/**
+ * Template Pages
+ * Ordered pages for multi-page templates such as brochures and programme booklets.
+ * Single-page templates keep only `background_url` and `frames`; multi-page templates also
+ * store every page in `templates.pages`, with the first page mirrored into those columns.
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+import { FrameSchemaError, migrateFrames, type FrameData } from './frameSchema';
+
+export interface TemplatePage {
+  id: string;
+  name: string;
+  backgroundUrl: string;
+  frames: FrameData[];
+}
+
+// Shape of each entry in the `templates.pages` column
+interface StoredTemplatePage {
+  id: string;
+  name: string;
+  background_url: string | null;
+  frames: FrameData[];
+}
+
+export const MAX_TEMPLATE_PAGES = 24;
+
+const createId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Display name for a page
+ */
+export function getPageLabel(page: TemplatePage, index: number): string {
+  return page.name.trim() || `Page ${index + 1}`;
+}
+
+/**
+ * Create an empty page
+ */
+export function createBlankPage(backgroundUrl: string = ''): TemplatePage {
+  return {
+    id: createId('page'),
+    name: '',
+    backgroundUrl,
+    frames: [],
+  };
+}
+
+/**
+ * Copy a page with fresh page and frame IDs.
+ * Frame IDs key the public generator's inputs, so they must stay unique across pages.
+ */
+export function duplicatePage(page: TemplatePage): TemplatePage {
+  return {
+    ...page,
+    id: createId('page'),
+    name: page.name ? `${page.name} (copy)` : '',
+    frames: page.frames.map(frame => ({ ...frame, id: createId('frame') })),
+  };
+}
+
+/**
+ * Move a page to a new position
+ */
+export function movePage(pages: TemplatePage[], fromIndex: number, toIndex: number): TemplatePage[] {
+  if (toIndex < 0 || toIndex >= pages.length || fromIndex === toIndex) return pages;
+  const next = [...pages];
+  const [page] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, page);
+  return next;
+}
+
+/**
+ * Get every frame across all pages
+ */
+export function getAllPageFrames(pages: TemplatePage[]): FrameData[] {
+  return pages.flatMap(page => page.frames);
+}
+
+/**
+ * Build the page list for a stored template, upgrading each page's frames to the current schema.
+ * Templates without stored pages become a single page made from their legacy columns.
+ */
+export function migratePages(
+  rawPages: unknown,
+  schemaVersion: number | null | undefined,
+  templateId: string | undefined,
+  firstPage: { backgroundUrl: string | null; frames: FrameData[] }
+): TemplatePage[] {
+  let pages: unknown = rawPages;
+  if (typeof pages === 'string') {
+    try {
+      pages = JSON.parse(pages);
+    } catch {
+      throw new FrameSchemaError('Template pages are not valid JSON', templateId);
+    }
+  }
+
+  if (pages === null || pages === undefined || (Array.isArray(pages) && pages.length === 0)) {
+    return [{
+      id: 'page_1',
+      name: '',
+      backgroundUrl: firstPage.backgroundUrl || '',
+      frames: firstPage.frames,
+    }];
+  }
+
+  if (!Array.isArray(pages)) {
+    throw new FrameSchemaError('Template pages must be a list of pages', templateId);
+  }
+
+  return pages.map((page: Partial<StoredTemplatePage>, index) => {
+    try {
+      return {
+        id: page.id || `page_${index + 1}`,
+        name: page.name || '',
+        backgroundUrl: page.background_url || '',
+        frames: migrateFrames(page.frames, schemaVersion, templateId),
+      };
+    } catch (error) {
+      if (error instanceof FrameSchemaError) {
+        throw new FrameSchemaError(`Page ${index + 1}: ${error.message}`, templateId, error.issues);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Convert pages to the stored form. Single-page templates store no pages.
+ */
+export function serializePages(pages: TemplatePage[]): Json | null {
+  if (pages.length <= 1) return null;
+
+  const stored: StoredTemplatePage[] = pages.map(page => ({
+    id: page.id,
+    name: page.name,
+    background_url: page.backgroundUrl || null,
+    frames: page.frames,
+  }));
+
+  return stored as unknown as Json;
+}
@@ -0,0 +1,73 @@
+/**
+ * Template Reviews
+ * Approval workflow for organization templates: editors submit a template, owners and
+ * admins approve or reject it, and only approved templates have a working public link.
+ * Personal templates skip review. Transitions are enforced by the database.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Template } from '@/integrations/supabase/types';
+
+export type ReviewStatus = Database['public']['Tables']['templates']['Row']['review_status'];
+export type ReviewDecision = 'approved' | 'rejected';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  approved: 'Approved',
+  rejected: 'Changes Requested',
+};
+
+/**
+ * Whether a template needs approval before its public link works
+ */
+export function requiresReview(template: Pick<Template, 'organization_id'>): boolean {
+  return !!template.organization_id;
+}
+
+/**
+ * Whether a template's public link currently resolves
+ */
+export function isTemplateLive(template: Pick<Template, 'is_public' | 'organization_id' | 'review_status'>): boolean {
+  return template.is_public && (!requiresReview(template) || template.review_status === 'approved');
+}
+
+/**
+ * Submit an organization template for review, with an optional note for the reviewers
+ */
+export async function submitTemplateForReview(templateId: string, comment?: string): Promise<void> {
+  const { error } = await supabase.rpc('submit_template_for_review', {
+    p_template_id: templateId,
+    p_comment: comment || null,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Approve or reject a template that is in review. Rejections need a comment.
+ */
+export async function reviewTemplate(templateId: string, decision: ReviewDecision, comment?: string): Promise<void> {
+  const { error } = await supabase.rpc('review_template', {
+    p_template_id: templateId,
+    p_decision: decision,
+    p_comment: comment || null,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Get an organization's templates that are waiting for review, oldest first
+ */
+export async function getReviewQueue(organizationId: string): Promise<Template[]> {
+  const { data, error } = await supabase
+    .from('templates')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('review_status', 'in_review')
+    .order('updated_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
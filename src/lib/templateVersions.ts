@@ -0,0 +1,195 @@
+/**
+ * Template Versions
+ * Immutable snapshots written by the database on every save. Versions can be compared
+ * frame by frame, restored (which saves a new version), branched into a new template,
+ * or pinned as the version a template's share link serves. Duplicating a template copies
+ * the same content columns.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Template, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { CURRENT_FRAME_SCHEMA_VERSION, migrateFrames, type FrameData } from '@/lib/frameSchema';
+import { migratePages, serializePages, type TemplatePage } from '@/lib/templatePages';
+import { createTemplate, getTemplate, updateTemplate } from '@/lib/supabase';
+
+export type TemplateVersionRow = Database['public']['Tables']['template_versions']['Row'];
+export type TemplateVersionSummary = Pick<TemplateVersionRow, 'id' | 'version_number' | 'name' | 'created_by' | 'created_at'>;
+
+export interface TemplateVersion {
+  row: TemplateVersionRow;
+  pages: TemplatePage[];
+}
+
+export interface FrameMove {
+  frame: FrameData;
+  previous: FrameData;
+}
+
+export interface FrameDiff {
+  added: FrameData[];
+  removed: FrameData[];
+  moved: FrameMove[];
+}
+
+/**
+ * Label for a version, e.g. "v3"
+ */
+export function getVersionLabel(version: Pick<TemplateVersionRow, 'version_number'>): string {
+  return `v${version.version_number}`;
+}
+
+/**
+ * Get a template's versions, newest first
+ */
+export async function getTemplateVersions(templateId: string): Promise<TemplateVersionSummary[]> {
+  const { data, error } = await supabase
+    .from('template_versions')
+    .select('id, version_number, name, created_by, created_at')
+    .eq('template_id', templateId)
+    .order('version_number', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Get one version with its pages upgraded to the current frame schema
+ */
+export async function getTemplateVersion(versionId: string): Promise<TemplateVersion> {
+  const { data, error } = await supabase
+    .from('template_versions')
+    .select('*')
+    .eq('id', versionId)
+    .single();
+
+  if (error) throw error;
+
+  const frames = migrateFrames(data.frames, data.schema_version, data.template_id);
+  return {
+    row: data,
+    pages: migratePages(data.pages, data.schema_version, data.template_id, {
+      backgroundUrl: data.background_url,
+      frames,
+    }),
+  };
+}
+
+type ContentRow = Pick<TemplateVersionRow, 'name' | 'description' | 'template_type' | 'canvas_width' | 'canvas_height' | 'print_dpi' | 'fonts'>;
+
+/**
+ * Template columns that hold a template's or version's content, in the current frame schema
+ */
+function getTemplateContent(row: ContentRow, pages: TemplatePage[]): TablesUpdate<'templates'> {
+  return {
+    name: row.name,
+    description: row.description,
+    template_type: row.template_type || 'flyer',
+    background_url: pages[0].backgroundUrl || null,
+    frames: pages[0].frames as unknown as TablesUpdate<'templates'>['frames'],
+    pages: serializePages(pages),
+    schema_version: CURRENT_FRAME_SCHEMA_VERSION,
+    canvas_width: row.canvas_width,
+    canvas_height: row.canvas_height,
+    print_dpi: row.print_dpi,
+    fonts: row.fonts,
+  };
+}
+
+/**
+ * Return a template to an earlier version. History is kept: this saves a new version.
+ */
+export async function restoreTemplateVersion(templateId: string, versionId: string): Promise<Template> {
+  const version = await getTemplateVersion(versionId);
+  return updateTemplate(templateId, getTemplateContent(version.row, version.pages));
+}
+
+/**
+ * Create a new, unshared template from a version. Branches of a licensed marketplace copy
+ * keep its licence, so they can't be listed either.
+ */
+export async function branchTemplateVersion(versionId: string): Promise<Template> {
+  const version = await getTemplateVersion(versionId);
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Please sign in again');
+
+  const { data: source, error } = await supabase
+    .from('templates')
+    .select('license_purchase_id')
+    .eq('id', version.row.template_id)
+    .single();
+
+  if (error) throw error;
+
+  const content = getTemplateContent(version.row, version.pages);
+  return createTemplate({
+    ...content,
+    name: `${version.row.name} (${getVersionLabel(version.row)})`,
+    user_id: user.id,
+    is_public: false,
+    license_purchase_id: source.license_purchase_id,
+  } as TablesInsert<'templates'>);
+}
+
+/**
+ * Copy a template with all of its pages into a new, unshared template in a workspace.
+ * Like branches, copies of a licensed marketplace copy keep its licence.
+ */
+export async function duplicateTemplate(templateId: string, organizationId: string | null): Promise<Template> {
+  const source = await getTemplate(templateId);
+  if (!source) throw new Error('Template not found');
+
+  return createTemplate({
+    ...getTemplateContent(source, source.pages),
+    name: `${source.name} (Copy)`,
+    tags: source.tags,
+    is_public: false,
+    organization_id: organizationId,
+    license_purchase_id: source.license_purchase_id,
+  } as TablesInsert<'templates'>);
+}
+
+/**
+ * Pin a template's share link to a version, or pass null to serve the latest save
+ */
+export async function setPublishedVersion(templateId: string, versionId: string | null): Promise<Template> {
+  return updateTemplate(templateId, { published_version_id: versionId });
+}
+
+/**
+ * Compare the frames of two versions of a page. Frames are matched by ID; a frame whose
+ * position, size or rotation changed counts as moved.
+ */
+export function diffFrames(base: FrameData[], compare: FrameData[]): FrameDiff {
+  const baseById = new Map(base.map(frame => [frame.id, frame]));
+  const compareIds = new Set(compare.map(frame => frame.id));
+
+  const diff: FrameDiff = { added: [], removed: [], moved: [] };
+
+  compare.forEach(frame => {
+    const previous = baseById.get(frame.id);
+    if (!previous) {
+      diff.added.push(frame);
+    } else if (
+      previous.x !== frame.x ||
+      previous.y !== frame.y ||
+      previous.width !== frame.width ||
+      previous.height !== frame.height ||
+      previous.rotation !== frame.rotation
+    ) {
+      diff.moved.push({ frame, previous });
+    }
+  });
+
+  base.forEach(frame => {
+    if (!compareIds.has(frame.id)) diff.removed.push(frame);
+  });
+
+  return diff;
+}
+
+/**
+ * Find the page in another version that corresponds to a page, by ID and then by position
+ */
+export function findMatchingPage(pages: TemplatePage[], page: TemplatePage, index: number): TemplatePage | null {
+  return pages.find(p => p.id === page.id) || pages[index] || null;
+}
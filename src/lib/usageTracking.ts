@@ -5,6 +5,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { logFeatureUsage } from './featureGating';
+import { isPlanLimitError } from './entitlements';
 import { toast } from 'sonner';
 
 export interface UsageAction {
@@ -23,123 +24,45 @@ export interface UsageMetrics {
 }
 
 /**
- * Track user action and check limits
+ * Track user action. Limits are enforced by the database when the action is logged,
+ * so a rejected log means the action is over the plan's limits.
  */
 export async function trackUsage(
   userId: string,
-  action: UsageAction,
-  currentTier: string,
-  usageStats: UsageMetrics
-): Promise<{ allowed: boolean; reason?: string }> {
+  action: UsageAction
+): Promise<{ allowed: boolean; reason?: string; limitReached?: boolean }> {
   try {
-    // Check if action is allowed based on current tier and usage
-    const isAllowed = await checkUsageLimits(action, currentTier, usageStats);
-    
-    if (!isAllowed.allowed) {
-      return isAllowed;
-    }
-    
-    // Log the action
     await logUsageAction(userId, action);
-    
-    // Update usage stats in real-time
-    await updateUsageStats(userId, action);
-    
     return { allowed: true };
   } catch (error) {
+    if (isPlanLimitError(error)) {
+      return { allowed: false, reason: error.message, limitReached: true };
+    }
     console.error('Usage tracking error:', error);
     return { allowed: false, reason: 'Failed to track usage' };
   }
 }
 
 /**
- * Check if action is allowed based on usage limits
- */
-async function checkUsageLimits(
-  action: UsageAction,
-  currentTier: string,
-  usageStats: UsageMetrics
-): Promise<{ allowed: boolean; reason?: string }> {
-  const limits = getTierLimits(currentTier);
-  
-  switch (action.action) {
-    case 'template_created':
-      if (limits.templates !== -1 && usageStats.templates_created >= limits.templates) {
-        return {
-          allowed: false,
-          reason: `Template limit reached (${limits.templates}). Upgrade your plan to create more templates.`
-        };
-      }
-      break;
-      
-    case 'template_exported':
-      if (limits.exports !== -1 && usageStats.monthly_exports >= limits.exports) {
-        return {
-          allowed: false,
-          reason: `Monthly export limit reached (${limits.exports}). Upgrade your plan for more exports.`
-        };
-      }
-      break;
-      
-    case 'font_uploaded':
-      if (!limits.customFonts) {
-        return {
-          allowed: false,
-          reason: 'Custom font uploads require Student Pro or higher.'
-        };
-      }
-      break;
-      
-    case 'storage_used':
-      const currentStorage = parseStorageSize(usageStats.storage_used);
-      const maxStorage = parseStorageSize(limits.storage);
-      if (currentStorage >= maxStorage) {
-        return {
-          allowed: false,
-          reason: `Storage limit reached (${limits.storage}). Upgrade your plan for more storage.`
-        };
-      }
-      break;
-  }
-  
-  return { allowed: true };
-}
-
-/**
- * Get tier limits
+ * Log a run of exports before producing them. The database logs the whole run or, when it
+ * would go over the monthly quota, none of it.
  */
-function getTierLimits(tier: string) {
-  const tierLimits = {
-    free: { templates: 3, exports: 10, storage: '100MB', customFonts: false },
-    student_pro: { templates: 20, exports: 100, storage: '1GB', customFonts: true },
-    creator_pro: { templates: -1, exports: 500, storage: '5GB', customFonts: true },
-    department: { templates: -1, exports: 1000, storage: '10GB', customFonts: true },
-    church: { templates: -1, exports: 2000, storage: '20GB', customFonts: true },
-    faculty: { templates: -1, exports: 5000, storage: '50GB', customFonts: true },
-  };
-  
-  return tierLimits[tier as keyof typeof tierLimits] || tierLimits.free;
-}
+export async function reserveExports(
+  count: number,
+  usage: Pick<UsageAction, 'resource_id' | 'metadata'> = {}
+): Promise<{ allowed: boolean; reason?: string; limitReached?: boolean }> {
+  const { error } = await supabase.rpc('reserve_exports', {
+    p_count: count,
+    p_resource_id: usage.resource_id ?? null,
+    p_metadata: usage.metadata || {},
+  });
 
-/**
- * Parse storage size string to bytes
- */
-function parseStorageSize(size: string): number {
-  const units: Record<string, number> = {
-    'B': 1,
-    'KB': 1024,
-    'MB': 1024 * 1024,
-    'GB': 1024 * 1024 * 1024,
-    'TB': 1024 * 1024 * 1024 * 1024,
-  };
-  
-  const match = size.match(/^(\d+(?:\.\d+)?)\s*([KMGT]?B)$/i);
-  if (!match) return 0;
-  
-  const value = parseFloat(match[1]);
-  const unit = match[2].toUpperCase();
-  
-  return value * (units[unit] || 1);
+  if (!error) return { allowed: true };
+  if (isPlanLimitError(error)) {
+    return { allowed: false, reason: error.message, limitReached: true };
+  }
+  console.error('Failed to reserve exports:', error);
+  return { allowed: false, reason: 'Failed to track usage' };
 }
 
 /**
@@ -166,41 +89,6 @@ async function logUsageAction(userId: string, action: UsageAction): Promise<void
   }
 }
 
-/**
- * Update usage stats in real-time
- */
-async function updateUsageStats(userId: string, action: UsageAction): Promise<void> {
-  try {
-    // Get current profile
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('monthly_exports')
-      .eq('id', userId)
-      .single();
-    
-    if (profileError) throw profileError;
-    
-    // Update based on action
-    const updates: Record<string, any> = {};
-    
-    if (action.action === 'template_exported') {
-      updates.monthly_exports = (profile.monthly_exports || 0) + 1;
-    }
-    
-    if (Object.keys(updates).length > 0) {
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update(updates)
-        .eq('id', userId);
-      
-      if (updateError) throw updateError;
-    }
-  } catch (error) {
-    console.error('Failed to update usage stats:', error);
-    throw error;
-  }
-}
-
 /**
  * Get current usage statistics
  */
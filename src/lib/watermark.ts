@@ -1,8 +1,11 @@
 /**
  * Watermark System
- * Adds watermarks to exports based on subscription tier
+ * Adds watermarks to exports based on subscription tier.
+ * Whether a tier is watermarked, and with what text, comes from its plan (see ./plans).
  */
 
+import { getPlan } from './plans';
+
 export interface WatermarkConfig {
   text: string;
   fontSize: number;
@@ -25,7 +28,8 @@ export const DEFAULT_WATERMARK: WatermarkConfig = {
   spacing: 100,
 };
 
-export const SUBSCRIPTION_WATERMARKS = {
+// Styling per tier; the text normally comes from the plan
+export const SUBSCRIPTION_WATERMARKS: Record<string, WatermarkConfig> = {
   free: {
     ...DEFAULT_WATERMARK,
     text: 'Infinity Generation',
@@ -77,14 +81,14 @@ export const SUBSCRIPTION_WATERMARKS = {
  */
 export function addWatermarkToCanvas(
   canvas: HTMLCanvasElement,
-  subscriptionTier: keyof typeof SUBSCRIPTION_WATERMARKS = 'free',
+  subscriptionTier: string = 'free',
   customText?: string
 ): HTMLCanvasElement {
   const ctx = canvas.getContext('2d');
   if (!ctx) return canvas;
 
-  const watermark = SUBSCRIPTION_WATERMARKS[subscriptionTier];
-  const text = customText || watermark.text;
+  const watermark = getWatermarkStyle(subscriptionTier);
+  const text = customText || getWatermarkText(subscriptionTier);
   
   // Create a new canvas with watermark
   const watermarkedCanvas = document.createElement('canvas');
@@ -188,7 +192,7 @@ function calculateWatermarkPositions(
  */
 export function addWatermarkToImageData(
   imageData: ImageData,
-  subscriptionTier: keyof typeof SUBSCRIPTION_WATERMARKS = 'free',
+  subscriptionTier: string = 'free',
   customText?: string
 ): ImageData {
   // Convert ImageData to canvas for watermarking
@@ -216,15 +220,21 @@ export function addWatermarkToImageData(
  * Check if watermark should be applied
  */
 export function shouldApplyWatermark(subscriptionTier: string): boolean {
-  return subscriptionTier === 'free';
+  return getPlan(subscriptionTier).watermarkText !== null;
 }
 
 /**
  * Get watermark text for subscription tier
  */
 export function getWatermarkText(subscriptionTier: string): string {
-  const watermark = SUBSCRIPTION_WATERMARKS[subscriptionTier as keyof typeof SUBSCRIPTION_WATERMARKS];
-  return watermark ? watermark.text : DEFAULT_WATERMARK.text;
+  return getPlan(subscriptionTier).watermarkText || getWatermarkStyle(subscriptionTier).text;
+}
+
+/**
+ * Get watermark styling for subscription tier
+ */
+function getWatermarkStyle(subscriptionTier: string): WatermarkConfig {
+  return SUBSCRIPTION_WATERMARKS[subscriptionTier] || SUBSCRIPTION_WATERMARKS.free;
 }
 
 /**
@@ -0,0 +1,121 @@
+/**
+ * Webhooks
+ * Endpoints that are sent signed event notifications, and the log of their deliveries.
+ * Endpoints are changed through the webhooks Edge Function, which also keeps their
+ * signing secrets.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { getFunctionError } from '@/lib/edgeFunctions';
+
+export type WebhookEndpoint = Database['public']['Tables']['webhook_endpoints']['Row'];
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row'];
+export type WebhookEvent = WebhookEndpoint['events'][number];
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string; description: string; accountOnly?: boolean }[] = [
+  { value: 'generation.created', label: 'Flyer generated', description: 'Someone downloads a flyer or renders one through the API' },
+  { value: 'template.published', label: 'Template published', description: 'A template\'s share link goes live or serves a new version' },
+  { value: 'download_limit.reached', label: 'Download limit reached', description: 'A template reaches its download limit' },
+  { value: 'subscription.changed', label: 'Plan changed', description: 'Your account moves to another plan', accountOnly: true },
+];
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  active?: boolean;
+}
+
+/**
+ * Call the webhooks Edge Function, surfacing its error message
+ */
+async function invokeWebhooks<T>(body: Record<string, unknown>, fallback: string): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('webhooks', { body });
+
+  if (error) {
+    const message = await getFunctionError(error, fallback);
+    console.error('Webhooks error:', message);
+    throw new Error(message);
+  }
+
+  return data as T;
+}
+
+/**
+ * Endpoints of the personal workspace or an organization, newest first
+ */
+export async function listWebhookEndpoints(organizationId: string | null): Promise<WebhookEndpoint[]> {
+  let query = supabase.from('webhook_endpoints').select('*').order('created_at', { ascending: false });
+  query = organizationId ? query.eq('organization_id', organizationId) : query.is('organization_id', null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * The most recent deliveries to an endpoint
+ */
+export async function listWebhookDeliveries(endpointId: string, limit = 50): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('endpoint_id', endpointId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Register an endpoint; the signing secret is returned with it
+ */
+export async function createWebhookEndpoint(
+  input: WebhookEndpointInput,
+  organizationId: string | null,
+  templateId: string | null
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  return invokeWebhooks(
+    { action: 'create', ...input, organization_id: organizationId, template_id: templateId },
+    'Failed to add webhook endpoint'
+  );
+}
+
+/**
+ * Change an endpoint's URL, events, description or whether it's active
+ */
+export async function updateWebhookEndpoint(id: string, changes: Partial<WebhookEndpointInput>): Promise<WebhookEndpoint> {
+  const { endpoint } = await invokeWebhooks<{ endpoint: WebhookEndpoint }>(
+    { action: 'update', id, ...changes },
+    'Failed to update webhook endpoint'
+  );
+  return endpoint;
+}
+
+/**
+ * Delete an endpoint and its delivery log
+ */
+export async function deleteWebhookEndpoint(id: string): Promise<void> {
+  await invokeWebhooks({ action: 'delete', id }, 'Failed to delete webhook endpoint');
+}
+
+/**
+ * Read an endpoint's signing secret
+ */
+export async function getWebhookSecret(id: string): Promise<string> {
+  const { secret } = await invokeWebhooks<{ secret: string }>({ action: 'secret', id }, 'Failed to load signing secret');
+  return secret;
+}
+
+/**
+ * Send a delivery's event again now, as a new delivery
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<WebhookDelivery> {
+  const { delivery } = await invokeWebhooks<{ delivery: WebhookDelivery }>(
+    { action: 'redeliver', delivery_id: deliveryId },
+    'Failed to redeliver webhook'
+  );
+  return delivery;
+}
@@ -0,0 +1,75 @@
+/**
+ * Accept Invite Page
+ * Redeems an organization invite link and opens the organization's workspace
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { acceptInvite, setActiveWorkspaceId } from '@/lib/organizations';
+import { toast } from 'sonner';
+
+export default function AcceptInvite() {
+  const navigate = useNavigate();
+  const { token } = useParams<{ token: string }>();
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Invites are single use, so never redeem twice from the same page
+  const attemptedRef = useRef(false);
+
+  useEffect(() => {
+    if (attemptedRef.current) return;
+    attemptedRef.current = true;
+
+    if (!token) {
+      setErrorMessage('This invite link is incomplete');
+      return;
+    }
+
+    const redeem = async () => {
+      try {
+        const result = await acceptInvite(token);
+        setActiveWorkspaceId(result.organizationId);
+        toast.success(`You joined ${result.organizationName}`);
+        navigate('/dashboard', { replace: true });
+      } catch (error) {
+        setErrorMessage((error as Error).message);
+      }
+    };
+
+    redeem();
+  }, [token, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center px-4">
+      <Card className="max-w-md w-full text-center">
+        <CardHeader>
+          <div className="flex justify-center mb-4">
+            {errorMessage ? (
+              <AlertCircle className="h-12 w-12 text-red-500" />
+            ) : (
+              <Loader2 className="h-12 w-12 text-amber-500 animate-spin" />
+            )}
+          </div>
+          <CardTitle className="text-xl font-bold text-gray-900">
+            {errorMessage ? 'Invite Not Accepted' : 'Joining Organization'}
+          </CardTitle>
+          <CardDescription className={errorMessage ? 'text-red-700' : 'text-gray-600'}>
+            {errorMessage || 'Please wait while we add you to the team...'}
+          </CardDescription>
+        </CardHeader>
+        {errorMessage && (
+          <CardContent>
+            <Button
+              onClick={() => navigate('/dashboard')}
+              className="w-full bg-gradient-to-r from-amber-400 to-yellow-500 hover:from-amber-500 hover:to-yellow-600 text-white"
+            >
+              Go to Dashboard
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -7,59 +7,88 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { 
   BarChart3, 
   TrendingUp, 
-  Users, 
   Download, 
   Eye, 
   Share2, 
   Calendar,
   ArrowUpRight,
   ArrowDownRight,
-  Activity
+  Activity,
+  Play,
+  Upload
 } from 'lucide-react';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Area, AreaChart, CartesianGrid, XAxis } from 'recharts';
+import ConversionFunnel from '@/components/dashboard/ConversionFunnel';
 import { useAuth } from '@/hooks/useAuth';
 import { getUserTemplates } from '@/lib/supabase';
-import { supabase } from '@/integrations/supabase/client';
+import { Template } from '@/integrations/supabase/types';
+import {
+  ANALYTICS_RANGES,
+  getAnalyticsSummary,
+  getAnalyticsTimeSeries,
+  getRecentActivity,
+  getTopTemplates,
+  type AnalyticsActivity,
+  type AnalyticsChange,
+  type AnalyticsDay,
+  type AnalyticsRange,
+  type AnalyticsSummary,
+  type AnalyticsTopTemplate,
+} from '@/lib/analytics';
+import { downloadBlob } from '@/lib/bulkGeneration';
+import { toast } from 'sonner';
 
 interface AnalyticsData {
-  totalTemplates: number;
-  totalViews: number;
-  totalDownloads: number;
-  totalShares: number;
-  viewsThisMonth: number;
-  downloadsThisMonth: number;
-  sharesThisMonth: number;
-  viewsChange: number;
-  downloadsChange: number;
-  sharesChange: number;
-  popularTemplates: Array<{
-    id: string;
-    name: string;
-    views: number;
-    downloads: number;
-    shares: number;
-    type: string;
-  }>;
-  recentActivity: Array<{
-    id: string;
-    templateName: string;
-    action: 'view' | 'download' | 'share';
-    timestamp: string;
-  }>;
+  templates: Template[];
+  summary: AnalyticsSummary;
+  series: AnalyticsDay[];
+  popularTemplates: AnalyticsTopTemplate[];
+  recentActivity: AnalyticsActivity[];
 }
 
+const chartConfig = {
+  views: { label: 'Views', color: '#3b82f6' },
+  downloads: { label: 'Downloads', color: '#22c55e' },
+  shares: { label: 'Shares', color: '#a855f7' },
+} satisfies ChartConfig;
+
 export default function Analytics() {
   const { user } = useAuth();
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
-  const [timeRange, setTimeRange] = useState('30d');
-  const [templates, setTemplates] = useState([]);
+  const [timeRange, setTimeRange] = useState<AnalyticsRange>('30d');
 
   useEffect(() => {
     let mounted = true;
     
     const loadData = async () => {
-      if (user?.id && mounted) {
-        await loadAnalytics();
+      if (!user?.id) return;
+
+      setLoading(true);
+      try {
+        const [userTemplates, summary, series, popularTemplates, recentActivity] = await Promise.all([
+          getUserTemplates(),
+          getAnalyticsSummary(timeRange),
+          getAnalyticsTimeSeries(timeRange),
+          getTopTemplates(timeRange),
+          getRecentActivity(),
+        ]);
+
+        if (mounted) {
+          setAnalytics({
+            templates: userTemplates,
+            summary,
+            series,
+            popularTemplates,
+            recentActivity,
+          });
+        }
+      } catch (error) {
+        console.error('Error loading analytics:', error);
+        if (mounted) toast.error('Failed to load analytics');
+      } finally {
+        if (mounted) setLoading(false);
       }
     };
     
@@ -70,79 +99,16 @@ export default function Analytics() {
     };
   }, [user?.id, timeRange]); // Use user.id to prevent unnecessary re-renders
 
-  const loadAnalytics = async () => {
-    if (!user) return;
-    
-    setLoading(true);
-    try {
-      // Load user's templates
-      const userTemplates = await getUserTemplates();
-      setTemplates(userTemplates);
-
-      // Calculate real analytics data from database
-      let totalViews = 0;
-      let totalDownloads = 0;
-      let totalShares = 0;
-      const popularTemplatesData = [];
-
-      // Get real data for each template
-      for (const template of userTemplates) {
-        totalViews += template.view_count || 0;
-        totalDownloads += template.generation_count || 0;
-        
-        popularTemplatesData.push({
-          id: template.id,
-          name: template.name,
-          views: template.view_count || 0,
-          downloads: template.generation_count || 0,
-          shares: 0, // You can implement sharing tracking later
-          type: template.template_type
-        });
-      }
-
-      // Sort by downloads for popular templates
-      popularTemplatesData.sort((a, b) => b.downloads - a.downloads);
-
-      // Get recent activity from template_generations table
-      const { data: recentGenerations } = await supabase
-        .from('template_generations')
-        .select(`
-          created_at,
-          template_id,
-          templates!inner(name)
-        `)
-        .eq('templates.user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(10);
-
-      const recentActivity = (recentGenerations || []).map((gen, index) => ({
-        id: index.toString(),
-        templateName: gen.templates?.name || 'Unknown Template',
-        action: 'download' as const,
-        timestamp: gen.created_at
-      }));
-
-      const realAnalytics: AnalyticsData = {
-        totalTemplates: userTemplates.length,
-        totalViews,
-        totalDownloads,
-        totalShares,
-        viewsThisMonth: Math.floor(totalViews * 0.15), // Estimate this month's views
-        downloadsThisMonth: Math.floor(totalDownloads * 0.12), // Estimate this month's downloads
-        sharesThisMonth: totalShares,
-        viewsChange: 12.5,
-        downloadsChange: -3.2,
-        sharesChange: 45.8,
-        popularTemplates: popularTemplatesData.slice(0, 5),
-        recentActivity
-      };
-
-      setAnalytics(realAnalytics);
-    } catch (error) {
-      console.error('Error loading analytics:', error);
-    } finally {
-      setLoading(false);
-    }
+  // Download the daily series as CSV
+  const handleExportReport = () => {
+    if (!analytics) return;
+    const rows = [
+      'date,views,starts,uploads,downloads,shares',
+      ...analytics.series.map(day =>
+        [day.day, day.views, day.starts, day.uploads, day.downloads, day.shares].join(',')
+      ),
+    ];
+    downloadBlob(new Blob([rows.join('\n')], { type: 'text/csv' }), `analytics-${timeRange}.csv`);
   };
 
   const formatNumber = (num: number) => {
@@ -160,9 +126,23 @@ export default function Analytics() {
     });
   };
 
+  const formatDay = (day: string) => {
+    return new Date(`${day}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  // Share of a count against a base, without dividing by zero
+  const formatRate = (count: number, base: number) => {
+    return base > 0 ? `${((count / base) * 100).toFixed(1)}%` : '—';
+  };
+
   const getActionIcon = (action: string) => {
     switch (action) {
       case 'view': return <Eye className="h-4 w-4 text-blue-500" />;
+      case 'start': return <Play className="h-4 w-4 text-amber-500" />;
+      case 'upload': return <Upload className="h-4 w-4 text-sky-500" />;
       case 'download': return <Download className="h-4 w-4 text-green-500" />;
       case 'share': return <Share2 className="h-4 w-4 text-purple-500" />;
       default: return <Activity className="h-4 w-4 text-gray-500" />;
@@ -172,12 +152,35 @@ export default function Analytics() {
   const getActionLabel = (action: string) => {
     switch (action) {
       case 'view': return 'Viewed';
+      case 'start': return 'Started';
+      case 'upload': return 'Uploaded a photo';
       case 'download': return 'Downloaded';
       case 'share': return 'Shared';
       default: return 'Activity';
     }
   };
 
+  const renderChange = (change: AnalyticsChange) => {
+    if (change.changePercent === null) {
+      return (
+        <div className="text-xs text-muted-foreground">
+          No data for the previous {ANALYTICS_RANGES[timeRange].days} days
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center text-xs text-muted-foreground">
+        {change.changePercent >= 0 ? (
+          <ArrowUpRight className="h-3 w-3 text-green-500 mr-1" />
+        ) : (
+          <ArrowDownRight className="h-3 w-3 text-red-500 mr-1" />
+        )}
+        {Math.abs(change.changePercent)}% from previous {ANALYTICS_RANGES[timeRange].days} days
+      </div>
+    );
+  };
+
   if (loading) {
     return (
       <div className="container mx-auto p-6">
@@ -204,6 +207,8 @@ export default function Analytics() {
     );
   }
 
+  const { summary } = analytics;
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       {/* Header */}
@@ -217,18 +222,21 @@ export default function Analytics() {
           <p className="text-gray-600 mt-1">Track your template performance and user engagement</p>
         </div>
         <div className="flex items-center gap-4">
-          <Select value={timeRange} onValueChange={setTimeRange}>
-            <SelectTrigger className="w-32">
+          <Select value={timeRange} onValueChange={(value) => setTimeRange(value as AnalyticsRange)}>
+            <SelectTrigger className="w-36">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="7d">Last 7 days</SelectItem>
-              <SelectItem value="30d">Last 30 days</SelectItem>
-              <SelectItem value="90d">Last 90 days</SelectItem>
-              <SelectItem value="1y">Last year</SelectItem>
+              {(Object.keys(ANALYTICS_RANGES) as AnalyticsRange[]).map((range) => (
+                <SelectItem key={range} value={range}>{ANALYTICS_RANGES[range].label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
-          <Button variant="outline" className="border-amber-200 text-amber-700 hover:bg-amber-50">
+          <Button
+            variant="outline"
+            className="border-amber-200 text-amber-700 hover:bg-amber-50"
+            onClick={handleExportReport}
+          >
             <Calendar className="h-4 w-4 mr-2" />
             Export Report
           </Button>
@@ -239,19 +247,12 @@ export default function Analytics() {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Views</CardTitle>
+            <CardTitle className="text-sm font-medium">Views</CardTitle>
             <Eye className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatNumber(analytics.totalViews)}</div>
-            <div className="flex items-center text-xs text-muted-foreground">
-              {analytics.viewsChange > 0 ? (
-                <ArrowUpRight className="h-3 w-3 text-green-500 mr-1" />
-              ) : (
-                <ArrowDownRight className="h-3 w-3 text-red-500 mr-1" />
-              )}
-              {Math.abs(analytics.viewsChange)}% from last month
-            </div>
+            <div className="text-2xl font-bold">{formatNumber(summary.view.current)}</div>
+            {renderChange(summary.view)}
           </CardContent>
         </Card>
 
@@ -261,15 +262,8 @@ export default function Analytics() {
             <Download className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatNumber(analytics.totalDownloads)}</div>
-            <div className="flex items-center text-xs text-muted-foreground">
-              {analytics.downloadsChange > 0 ? (
-                <ArrowUpRight className="h-3 w-3 text-green-500 mr-1" />
-              ) : (
-                <ArrowDownRight className="h-3 w-3 text-red-500 mr-1" />
-              )}
-              {Math.abs(analytics.downloadsChange)}% from last month
-            </div>
+            <div className="text-2xl font-bold">{formatNumber(summary.download.current)}</div>
+            {renderChange(summary.download)}
           </CardContent>
         </Card>
 
@@ -279,15 +273,8 @@ export default function Analytics() {
             <Share2 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatNumber(analytics.totalShares)}</div>
-            <div className="flex items-center text-xs text-muted-foreground">
-              {analytics.sharesChange > 0 ? (
-                <ArrowUpRight className="h-3 w-3 text-green-500 mr-1" />
-              ) : (
-                <ArrowDownRight className="h-3 w-3 text-red-500 mr-1" />
-              )}
-              {Math.abs(analytics.sharesChange)}% from last month
-            </div>
+            <div className="text-2xl font-bold">{formatNumber(summary.share.current)}</div>
+            {renderChange(summary.share)}
           </CardContent>
         </Card>
 
@@ -297,7 +284,7 @@ export default function Analytics() {
             <BarChart3 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{analytics.totalTemplates}</div>
+            <div className="text-2xl font-bold">{analytics.templates.length}</div>
             <div className="text-xs text-muted-foreground">
               Active templates
             </div>
@@ -309,55 +296,42 @@ export default function Analytics() {
       <Tabs defaultValue="overview" className="space-y-6">
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
+          <TabsTrigger value="funnel">Funnel</TabsTrigger>
           <TabsTrigger value="templates">Popular Templates</TabsTrigger>
           <TabsTrigger value="activity">Recent Activity</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Monthly Performance</CardTitle>
-                <CardDescription>Views, downloads, and shares this month</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">Views</span>
-                    <span className="text-sm text-muted-foreground">{analytics.viewsThisMonth}</span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div 
-                      className="bg-blue-500 h-2 rounded-full" 
-                      style={{ width: `${(analytics.viewsThisMonth / analytics.totalViews) * 100}%` }}
-                    ></div>
-                  </div>
-                  
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">Downloads</span>
-                    <span className="text-sm text-muted-foreground">{analytics.downloadsThisMonth}</span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div 
-                      className="bg-green-500 h-2 rounded-full" 
-                      style={{ width: `${(analytics.downloadsThisMonth / analytics.totalDownloads) * 100}%` }}
-                    ></div>
-                  </div>
-                  
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">Shares</span>
-                    <span className="text-sm text-muted-foreground">{analytics.sharesThisMonth}</span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div 
-                      className="bg-purple-500 h-2 rounded-full" 
-                      style={{ width: `${(analytics.sharesThisMonth / analytics.totalShares) * 100}%` }}
-                    ></div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="h-5 w-5" />
+                Daily Activity
+              </CardTitle>
+              <CardDescription>Views, downloads, and shares per day, {ANALYTICS_RANGES[timeRange].label.toLowerCase()}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="h-72 w-full">
+                <AreaChart data={analytics.series} margin={{ left: 12, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="day"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    minTickGap={32}
+                    tickFormatter={formatDay}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(day) => formatDay(String(day))} />} />
+                  <Area dataKey="views" type="monotone" fill="var(--color-views)" fillOpacity={0.2} stroke="var(--color-views)" />
+                  <Area dataKey="downloads" type="monotone" fill="var(--color-downloads)" fillOpacity={0.2} stroke="var(--color-downloads)" />
+                  <Area dataKey="shares" type="monotone" fill="var(--color-shares)" fillOpacity={0.2} stroke="var(--color-shares)" />
+                </AreaChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
 
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card>
               <CardHeader>
                 <CardTitle>Engagement Rate</CardTitle>
@@ -368,19 +342,21 @@ export default function Analytics() {
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium">Download Rate</span>
                     <span className="text-sm font-bold text-green-600">
-                      {((analytics.totalDownloads / analytics.totalViews) * 100).toFixed(1)}%
+                      {formatRate(summary.download.current, summary.view.current)}
                     </span>
                   </div>
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium">Share Rate</span>
                     <span className="text-sm font-bold text-purple-600">
-                      {((analytics.totalShares / analytics.totalViews) * 100).toFixed(1)}%
+                      {formatRate(summary.share.current, summary.view.current)}
                     </span>
                   </div>
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium">Avg. Views per Template</span>
                     <span className="text-sm font-bold text-blue-600">
-                      {Math.round(analytics.totalViews / analytics.totalTemplates)}
+                      {analytics.templates.length > 0
+                        ? Math.round(summary.view.current / analytics.templates.length)
+                        : 0}
                     </span>
                   </div>
                 </div>
@@ -389,16 +365,23 @@ export default function Analytics() {
           </div>
         </TabsContent>
 
+        <TabsContent value="funnel" className="space-y-6">
+          <ConversionFunnel templates={analytics.templates} timeRange={timeRange} />
+        </TabsContent>
+
         <TabsContent value="templates" className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle>Popular Templates</CardTitle>
-              <CardDescription>Your most viewed and downloaded templates</CardDescription>
+              <CardDescription>Your most downloaded and viewed templates, {ANALYTICS_RANGES[timeRange].label.toLowerCase()}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
+                {analytics.popularTemplates.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Create a template to see how it performs.</p>
+                )}
                 {analytics.popularTemplates.map((template, index) => (
-                  <div key={template.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div key={template.template_id} className="flex items-center justify-between p-4 border rounded-lg">
                     <div className="flex items-center space-x-4">
                       <div className="w-8 h-8 bg-gray-100 rounded-lg flex items-center justify-center text-sm font-medium">
                         {index + 1}
@@ -406,7 +389,7 @@ export default function Analytics() {
                       <div>
                         <h4 className="font-medium">{template.name}</h4>
                         <Badge variant="secondary" className="text-xs">
-                          {template.type}
+                          {template.template_type}
                         </Badge>
                       </div>
                     </div>
@@ -439,6 +422,9 @@ export default function Analytics() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
+                {analytics.recentActivity.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No activity yet. Share a generator link to get started.</p>
+                )}
                 {analytics.recentActivity.map((activity) => (
                   <div key={activity.id} className="flex items-center space-x-4 p-4 border rounded-lg">
                     {getActionIcon(activity.action)}
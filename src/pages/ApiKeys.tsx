@@ -0,0 +1,331 @@
+/**
+ * API Keys Page
+ * Create and revoke keys for the public REST API, with examples of calling it
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, KeyRound, Loader2, Plus, Terminal, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { FeatureGate } from '@/components/shared/FeatureGate';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { canManageMembers } from '@/lib/organizations';
+import {
+  API_BASE_URL,
+  API_SCOPES,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  type ApiKey,
+  type ApiScope,
+} from '@/lib/apiKeys';
+import { toast } from 'sonner';
+
+const copyText = async (text: string, label: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success(`${label} copied`);
+  } catch {
+    toast.error('Could not copy. Select and copy it instead.');
+  }
+};
+
+export default function ApiKeys() {
+  const { organizations, activeOrganization, activeRole, loading: workspaceLoading } = useWorkspace();
+
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiScope[]>(API_SCOPES.map(scope => scope.value));
+  const [creating, setCreating] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  // Organization keys render the organization's templates, so only its managers can create them
+  const canCreate = !activeOrganization || canManageMembers(activeRole);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      setKeys(await listApiKeys());
+    } catch (error) {
+      console.error('Error loading API keys:', error);
+      toast.error('Failed to load API keys');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const toggleScope = (scope: ApiScope, checked: boolean) => {
+    setScopes(prev => (checked ? [...prev, scope] : prev.filter(s => s !== scope)));
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || scopes.length === 0) return;
+
+    setCreating(true);
+    try {
+      const result = await createApiKey(name.trim(), scopes, activeOrganization?.id || null);
+      setKeys(prev => [result.apiKey, ...prev]);
+      setNewKey(result.key);
+      setName('');
+      toast.success('API key created. Copy it now; it won\'t be shown again.');
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    try {
+      const revoked = await revokeApiKey(apiKey.id);
+      setKeys(prev => prev.map(k => (k.id === revoked.id ? revoked : k)));
+      toast.success(`${apiKey.name} revoked`);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const getWorkspaceName = (organizationId: string | null) => {
+    if (!organizationId) return 'Personal';
+    return organizations.find(({ organization }) => organization.id === organizationId)?.organization.name || 'Organization';
+  };
+
+  if (workspaceLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-amber-500" />
+      </div>
+    );
+  }
+
+  const exampleKey = newKey || 'dfk_your_key';
+  const examples = [
+    {
+      label: 'List templates',
+      command: `curl ${API_BASE_URL}/templates \\\n  -H "Authorization: Bearer ${exampleKey}"`,
+    },
+    {
+      label: 'Get a template\'s fields',
+      command: `curl ${API_BASE_URL}/templates/TEMPLATE_ID \\\n  -H "Authorization: Bearer ${exampleKey}"`,
+    },
+    {
+      label: 'Render a flyer',
+      command: `curl -X POST ${API_BASE_URL}/templates/TEMPLATE_ID/render \\\n  -H "Authorization: Bearer ${exampleKey}" \\\n  -H "Content-Type: application/json" \\\n  -d '{"format": "png", "inputs": {"name": "Ama Mensah", "photo": "${new URL(API_BASE_URL).origin}/storage/v1/object/public/generated-flyers/ama.jpg"}}' \\\n  -o flyer.png`,
+    },
+  ];
+
+  return (
+    <div className="space-y-8 p-8 md:p-12">
+      <motion.div initial={{ opacity: 0, y: 15 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-3xl font-bold text-gray-900">
+          <span className="bg-gradient-to-r from-amber-400 to-yellow-500 bg-clip-text text-transparent">
+            API Keys
+          </span>
+        </h1>
+        <p className="text-gray-600 mt-1">
+          Generate flyers from your own code. Each request counts as an API call, and each render as an export.
+        </p>
+      </motion.div>
+
+      <FeatureGate feature="api_access" className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              Create a Key
+            </CardTitle>
+            <CardDescription>
+              Keys reach the templates of the workspace they're created in:{' '}
+              <strong>{activeOrganization ? activeOrganization.name : 'your personal workspace'}</strong>.
+              Switch workspace from the sidebar to create a key for another.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!canCreate ? (
+              <p className="text-sm text-muted-foreground">
+                Only owners and admins can create keys for {activeOrganization?.name}.
+              </p>
+            ) : (
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="api-key-name">Name</Label>
+                  <Input
+                    id="api-key-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Student portal"
+                    maxLength={100}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Scopes</Label>
+                  {API_SCOPES.map((scope) => (
+                    <div key={scope.value} className="flex items-start gap-2">
+                      <Checkbox
+                        id={`scope-${scope.value}`}
+                        checked={scopes.includes(scope.value)}
+                        onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                      />
+                      <Label htmlFor={`scope-${scope.value}`} className="font-normal leading-tight">
+                        {scope.label}
+                        <span className="block text-xs text-muted-foreground">{scope.description}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <Button type="submit" disabled={creating || !name.trim() || scopes.length === 0}>
+                  {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Key
+                </Button>
+              </form>
+            )}
+
+            {newKey && (
+              <div className="mt-6 space-y-2 rounded-lg border border-amber-200 bg-amber-50 p-4">
+                <p className="text-sm font-medium">Copy your new key now. It won't be shown again.</p>
+                <div className="flex gap-2">
+                  <Input value={newKey} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                  <Button type="button" variant="outline" onClick={() => copyText(newKey, 'Key')}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Your Keys
+            </CardTitle>
+            <CardDescription>Revoked keys stop working immediately</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+            ) : keys.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You haven't created any API keys yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Workspace</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead className="text-right"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {keys.map((apiKey) => (
+                    <TableRow key={apiKey.id} className={apiKey.revoked_at ? 'opacity-60' : undefined}>
+                      <TableCell>
+                        <div className="font-medium">{apiKey.name}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{apiKey.key_prefix}…</div>
+                      </TableCell>
+                      <TableCell>{getWorkspaceName(apiKey.organization_id)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {apiKey.scopes.map((scope) => (
+                            <Badge key={scope} variant="secondary" className="text-xs">{scope}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {apiKey.last_used_at
+                          ? formatDistanceToNow(new Date(apiKey.last_used_at), { addSuffix: true })
+                          : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(apiKey.created_at).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {apiKey.revoked_at ? (
+                          <Badge variant="outline">Revoked</Badge>
+                        ) : (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm">
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Revoke
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Revoke {apiKey.name}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Anything using this key will stop working. This can't be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleRevoke(apiKey)}>Revoke</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Terminal className="h-5 w-5" />
+              Using the API
+            </CardTitle>
+            <CardDescription>
+              Fill fields by their field key (set in the editor) or frame ID. Images are https URLs.
+              Renders return a PNG of one page or a PDF of every page; pass <code>page</code> or <code>scale</code> to change that.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {examples.map((example) => (
+              <div key={example.label} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">{example.label}</p>
+                  <Button variant="ghost" size="sm" onClick={() => copyText(example.command, 'Command')}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <pre className="overflow-x-auto rounded-md bg-gray-900 p-3 text-xs text-gray-100">{example.command}</pre>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </FeatureGate>
+    </div>
+  );
+}
@@ -0,0 +1,517 @@
+/**
+ * Bulk Generator Page
+ * Generate one personalized flyer per row of a CSV/Excel sheet
+ */
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft,
+  FileSpreadsheet,
+  Upload,
+  Type,
+  Image as ImageIcon,
+  Download,
+  AlertTriangle,
+  CheckCircle2,
+  Loader2,
+  X,
+  Lock
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { reserveExports } from '@/lib/usageTracking';
+import { getTemplate } from '@/lib/supabase';
+import { canAccessFeature, getFeatureGate } from '@/lib/featureGating';
+import { getTemplateCanvasSize } from '@/lib/canvasSize';
+import { parseTemplateFonts } from '@/lib/fontUtils';
+import {
+  parseDataFile,
+  autoMapColumns,
+  renderRow,
+  generateBulk,
+  buildFailureReport,
+  downloadBlob,
+  BULK_ACCEPTED_FILES,
+  BulkDataset,
+  BulkOutputFormat,
+  BulkProgress,
+  BulkGenerationResult,
+  BulkTemplate,
+  ColumnMapping
+} from '@/lib/bulkGeneration';
+import type { TemplateWithFrames } from '@/integrations/supabase/types';
+
+// Radix Select doesn't allow empty values
+const UNMAPPED = '__unmapped__';
+const PREVIEW_ROWS = 3;
+
+// Internal template dimensions used by the editor
+
+export default function BulkGenerator() {
+  const { templateId } = useParams<{ templateId: string }>();
+  const navigate = useNavigate();
+  const { profile } = useAuth();
+
+  const [template, setTemplate] = useState<TemplateWithFrames | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dataset, setDataset] = useState<BulkDataset | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fileNameColumn, setFileNameColumn] = useState<string>(UNMAPPED);
+  const [format, setFormat] = useState<BulkOutputFormat>('zip-png');
+  const [scale, setScale] = useState('1');
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [result, setResult] = useState<BulkGenerationResult | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const tier = profile?.subscription_tier || 'free';
+  const hasAccess = canAccessFeature('bulk_generation', tier);
+  const frames = template?.frames || [];
+
+  // Load template
+  useEffect(() => {
+    if (!templateId) return;
+
+    const loadTemplate = async () => {
+      try {
+        setLoading(true);
+        const data = await getTemplate(templateId);
+        if (!data) throw new Error('Template not found');
+        setTemplate(data);
+      } catch (error) {
+        console.error('Error loading template:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load template');
+        navigate('/dashboard');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTemplate();
+  }, [templateId, navigate]);
+
+  const bulkTemplate = useMemo<BulkTemplate | null>(() => template && {
+    name: template.name,
+    ...getTemplateCanvasSize(template),
+    backgroundUrl: template.background_url,
+    frames: template.frames,
+    fonts: parseTemplateFonts(template.fonts),
+  }, [template]);
+
+  // Render a few rows so the mapping can be checked before the full run
+  useEffect(() => {
+    if (!bulkTemplate || !dataset) return;
+
+    let cancelled = false;
+    const renderPreviews = async () => {
+      try {
+        setPreviewError(null);
+        const urls = [];
+        for (const row of dataset.rows.slice(0, PREVIEW_ROWS)) {
+          const canvas = await renderRow(bulkTemplate, mapping, row, { scale: 0.5 });
+          urls.push(canvas.toDataURL('image/jpeg', 0.8));
+        }
+        if (!cancelled) setPreviews(urls);
+      } catch (error) {
+        console.error('Error rendering preview:', error);
+        if (!cancelled) setPreviewError(error instanceof Error ? error.message : 'Failed to render preview');
+      }
+    };
+
+    const timer = setTimeout(renderPreviews, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [bulkTemplate, dataset, mapping]);
+
+  const handleFileSelect = async (file: File | undefined) => {
+    if (!file || !template) return;
+
+    try {
+      const parsed = await parseDataFile(file);
+      setDataset(parsed);
+      setMapping(autoMapColumns(template.frames, parsed.columns));
+      setFileNameColumn(UNMAPPED);
+      setResult(null);
+      setProgress(null);
+      toast.success(`Loaded ${parsed.rows.length} rows from ${parsed.fileName}`);
+    } catch (error) {
+      console.error('Error reading data file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read file');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleMappingChange = (frameId: string, column: string) => {
+    setMapping(prev => ({ ...prev, [frameId]: column === UNMAPPED ? undefined : column }));
+  };
+
+  const handleGenerate = async () => {
+    if (!bulkTemplate || !dataset) return;
+
+    if (!Object.values(mapping).some(Boolean)) {
+      toast.error('Map at least one column to a frame');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setGenerating(true);
+    setResult(null);
+
+    try {
+      // Every row is an export; the run only starts if the monthly quota covers all of them
+      const reservation = await reserveExports(dataset.rows.length, {
+        resource_id: template?.id,
+        metadata: { bulk: true, format },
+      });
+      if (!reservation.allowed) {
+        toast.error(reservation.reason || 'Monthly export limit reached');
+        return;
+      }
+
+      const runResult = await generateBulk({
+        template: bulkTemplate,
+        dataset,
+        mapping,
+        format,
+        scale: Number(scale),
+        fileNameColumn: fileNameColumn === UNMAPPED ? undefined : fileNameColumn,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      setResult(runResult);
+
+      if (runResult.cancelled) {
+        toast.info('Bulk generation cancelled');
+      } else if (runResult.failures.length > 0) {
+        toast.warning(`Generated ${runResult.generated} flyers, ${runResult.failures.length} rows failed`);
+      } else {
+        toast.success(`Generated ${runResult.generated} flyers`);
+      }
+    } catch (error) {
+      console.error('Bulk generation failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Bulk generation failed');
+    } finally {
+      abortRef.current = null;
+      setGenerating(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    if (!dataset || !result) return;
+    downloadBlob(buildFailureReport(dataset.columns, result.failures), `${template?.name || 'bulk'}-failed-rows.csv`);
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!hasAccess) {
+    const gate = getFeatureGate('bulk_generation')!;
+    return (
+      <div className="container mx-auto p-6">
+        <Card className="max-w-lg mx-auto border-amber-200 bg-gradient-to-br from-amber-50 to-yellow-50 text-center">
+          <CardHeader>
+            <div className="flex justify-center mb-2">
+              <Lock className="h-8 w-8 text-amber-600" />
+            </div>
+            <CardTitle className="text-amber-800">{gate.feature}</CardTitle>
+            <CardDescription className="text-amber-700">{gate.message}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button
+              onClick={() => navigate(gate.upgradeUrl || '/dashboard/subscription')}
+              className="bg-gradient-to-r from-amber-400 to-yellow-500 hover:from-amber-500 hover:to-yellow-600 text-white"
+            >
+              View Plans
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const mappedCount = Object.values(mapping).filter(Boolean).length;
+  const percent = progress ? Math.round((progress.completed / Math.max(progress.total, 1)) * 100) : 0;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/dashboard')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              <span className="bg-gradient-to-r from-amber-400 to-yellow-500 bg-clip-text text-transparent">
+                Bulk Generation
+              </span>
+            </h1>
+            <p className="text-gray-600 mt-1">{template?.name} — one flyer per spreadsheet row</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Step 1: Upload */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-amber-600" />
+            1. Upload your data
+          </CardTitle>
+          <CardDescription>
+            CSV or Excel (.xlsx) file with a header row. Image columns should contain public image URLs.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={BULK_ACCEPTED_FILES}
+            className="hidden"
+            onChange={(e) => handleFileSelect(e.target.files?.[0])}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={generating}>
+            <Upload className="h-4 w-4 mr-2" />
+            {dataset ? 'Choose another file' : 'Choose file'}
+          </Button>
+          {dataset && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Badge variant="secondary">{dataset.fileName}</Badge>
+              <span>{dataset.rows.length} rows · {dataset.columns.length} columns</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {dataset && (
+        <>
+          {/* Step 2: Map columns */}
+          <Card>
+            <CardHeader>
+              <CardTitle>2. Map columns to frames</CardTitle>
+              <CardDescription>
+                {mappedCount} of {frames.length} frames mapped. Unmapped text frames keep their placeholder text.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {frames.map(frame => (
+                <div key={frame.id} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+                  <div className="flex items-center gap-2 sm:w-64 min-w-0">
+                    {frame.type === 'text' ? (
+                      <Type className="h-4 w-4 text-gray-500 shrink-0" />
+                    ) : (
+                      <ImageIcon className="h-4 w-4 text-gray-500 shrink-0" />
+                    )}
+                    <span className="text-sm font-medium truncate">
+                      {frame.properties?.placeholder || (frame.type === 'text' ? 'Text frame' : 'Image frame')}
+                    </span>
+                  </div>
+                  <Select
+                    value={mapping[frame.id] || UNMAPPED}
+                    onValueChange={(value) => handleMappingChange(frame.id, value)}
+                    disabled={generating}
+                  >
+                    <SelectTrigger className="sm:w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {dataset.columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Step 3: Preview */}
+          <Card>
+            <CardHeader>
+              <CardTitle>3. Preview</CardTitle>
+              <CardDescription>First {Math.min(PREVIEW_ROWS, dataset.rows.length)} rows</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {previewError ? (
+                <div className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertTriangle className="h-4 w-4" />
+                  {previewError}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {previews.map((url, index) => (
+                    <div key={index} className="space-y-1">
+                      <img src={url} alt={`Row ${dataset.rowNumbers[index]} preview`} className="w-full rounded-lg border shadow-sm" />
+                      <p className="text-xs text-gray-500">Row {dataset.rowNumbers[index]}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Step 4: Generate */}
+          <Card>
+            <CardHeader>
+              <CardTitle>4. Generate</CardTitle>
+              <CardDescription>All {dataset.rows.length} flyers are rendered in your browser</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Output</Label>
+                  <Select value={format} onValueChange={(value) => setFormat(value as BulkOutputFormat)} disabled={generating}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="zip-png">ZIP of PNG files</SelectItem>
+                      <SelectItem value="zip-jpg">ZIP of JPG files</SelectItem>
+                      <SelectItem value="pdf">Single PDF (one page per row)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Quality</Label>
+                  <Select value={scale} onValueChange={setScale} disabled={generating}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">Standard (1x)</SelectItem>
+                      <SelectItem value="2">High (2x)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>File names from</Label>
+                  <Select
+                    value={fileNameColumn}
+                    onValueChange={setFileNameColumn}
+                    disabled={generating || format === 'pdf'}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Row number</SelectItem>
+                      {dataset.columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {progress && (
+                <div className="space-y-2">
+                  <Progress value={percent} />
+                  <div className="flex justify-between text-sm text-gray-600">
+                    <span>{progress.completed} of {progress.total} rows</span>
+                    {progress.failed > 0 && <span className="text-red-600">{progress.failed} failed</span>}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <Button
+                  onClick={handleGenerate}
+                  disabled={generating || mappedCount === 0}
+                  className="bg-gradient-to-r from-amber-400 to-yellow-500 hover:from-amber-500 hover:to-yellow-600 text-white"
+                >
+                  {generating ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  {generating ? 'Generating...' : `Generate ${dataset.rows.length} flyers`}
+                </Button>
+                {generating && (
+                  <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Report */}
+          {result && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {result.failures.length === 0 ? (
+                    <CheckCircle2 className="h-5 w-5 text-green-600" />
+                  ) : (
+                    <AlertTriangle className="h-5 w-5 text-amber-600" />
+                  )}
+                  {result.generated} generated, {result.failures.length} failed
+                </CardTitle>
+                {result.failures.length > 0 && (
+                  <CardDescription>
+                    Fix these rows and upload them again. The report is also included in ZIP downloads.
+                  </CardDescription>
+                )}
+              </CardHeader>
+              {result.failures.length > 0 && (
+                <CardContent className="space-y-4">
+                  <Button variant="outline" size="sm" onClick={handleDownloadReport}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download failed rows (CSV)
+                  </Button>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">Row</TableHead>
+                        <TableHead>Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.failures.slice(0, 50).map(failure => (
+                        <TableRow key={failure.row}>
+                          <TableCell>{failure.row}</TableCell>
+                          <TableCell className="text-red-600 break-all">{failure.reason}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {result.failures.length > 50 && (
+                    <p className="text-xs text-gray-500">
+                      Showing 50 of {result.failures.length}. Download the CSV for the full list.
+                    </p>
+                  )}
+                </CardContent>
+              )}
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -18,14 +18,16 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useAuth } from '@/hooks/useAuth';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { canEditTemplates } from '@/lib/organizations';
 import { Template } from '@/integrations/supabase/types';
 import { 
   getUserTemplates,
   searchTemplates,
   deleteTemplate as apiDeleteTemplate,
-  createTemplate,
   getPopularTags
 } from '@/lib/supabase';
+import { duplicateTemplate } from '@/lib/templateVersions';
 import TemplateGrid from '@/components/dashboard/TemplateGrid';
 import { toast } from 'sonner';
 
@@ -35,6 +37,8 @@ export default function Dashboard() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { user, profile, initializing } = useAuth();
+  const { activeOrganizationId, activeOrganization, activeRole, loading: workspaceLoading } = useWorkspace();
+  const canCreate = !activeOrganizationId || canEditTemplates(activeRole);
   
   // Data state with persistence
   const [templates, setTemplates] = useState<Template[]>([]);
@@ -52,6 +56,7 @@ export default function Dashboard() {
   const lastLoadTimeRef = useRef<number>(0);
   const isLoadingRef = useRef(false);
   const isMountedRef = useRef(true);
+  const loadedWorkspaceRef = useRef<string | null>(null); // Workspace the cached templates belong to
 
   // Cleanup on unmount
   useEffect(() => {
@@ -79,7 +84,8 @@ export default function Dashboard() {
     // Check if we recently loaded data (within 30 seconds) unless forced
     const now = Date.now();
     const timeSinceLastLoad = now - lastLoadTimeRef.current;
-    if (dataLoadedRef.current && timeSinceLastLoad < 30000 && !forceReload) {
+    const sameWorkspace = loadedWorkspaceRef.current === activeOrganizationId;
+    if (dataLoadedRef.current && sameWorkspace && timeSinceLastLoad < 30000 && !forceReload) {
       console.log('📊 Using cached data (loaded', Math.round(timeSinceLastLoad / 1000), 'seconds ago)');
       setLoading(false);
       return;
@@ -93,7 +99,7 @@ export default function Dashboard() {
 
       // Load templates and popular tags in parallel
       const [templatesData, tagsData] = await Promise.all([
-        getUserTemplates().catch(error => {
+        getUserTemplates(activeOrganizationId).catch(error => {
           console.error('Failed to load templates:', error);
           return [];
         }),
@@ -107,6 +113,7 @@ export default function Dashboard() {
         setTemplates(templatesData);
         setPopularTags(tagsData);
         dataLoadedRef.current = true;
+        loadedWorkspaceRef.current = activeOrganizationId;
         lastLoadTimeRef.current = now;
         console.log('✅ Dashboard data loaded:', templatesData.length, 'templates');
       }
@@ -121,7 +128,7 @@ export default function Dashboard() {
       }
       isLoadingRef.current = false;
     }
-  }, [user, profile]);
+  }, [user, profile, activeOrganizationId]);
 
   /**
    * Handle tab focus/visibility changes
@@ -165,13 +172,13 @@ export default function Dashboard() {
   }, [handleFocusOrVisible]);
 
   /**
-   * Load initial data when user/profile changes
+   * Load initial data when user/profile or workspace changes
    */
   useEffect(() => {
-    if (!initializing && user && profile) {
+    if (!initializing && !workspaceLoading && user && profile) {
       loadInitialData();
     }
-  }, [user, profile, initializing, loadInitialData]);
+  }, [user, profile, initializing, workspaceLoading, loadInitialData]);
 
   /**
    * Filter templates based on search and category
@@ -209,9 +216,14 @@ export default function Dashboard() {
       return;
     }
 
+    if (!canCreate) {
+      toast.error('Viewers can use shared templates but not create them');
+      return;
+    }
+
     // Navigate directly to the editor - template will be created when user uploads background
     navigate('/dashboard/editor/new');
-  }, [user, navigate]);
+  }, [user, canCreate, navigate]);
 
   /**
    * Handle template editing
@@ -246,16 +258,7 @@ export default function Dashboard() {
     }
 
     try {
-      const duplicatedTemplate = await createTemplate({
-        name: `${template.name} (Copy)`,
-        description: template.description,
-        template_type: template.template_type,
-        is_public: false,
-        frames: template.frames,
-        tags: template.tags,
-        background_url: template.background_url,
-        user_id: user.id,
-      });
+      const duplicatedTemplate = await duplicateTemplate(template.id, activeOrganizationId);
 
       // Update local state immediately
       setTemplates(prev => [duplicatedTemplate, ...prev]);
@@ -264,7 +267,7 @@ export default function Dashboard() {
       console.error('Error duplicating template:', error);
       toast.error('Failed to duplicate template');
     }
-  }, [user]);
+  }, [user, activeOrganizationId]);
 
   if (initializing) {
     return (
@@ -291,16 +294,22 @@ export default function Dashboard() {
         <div>
           <div className="flex items-center gap-2 text-amber-600 mb-2">
             <LayoutList className="h-4 w-4" />
-            <span className="text-[10px] font-bold uppercase tracking-widest">Workspace</span>
+            <span className="text-[10px] font-bold uppercase tracking-widest">
+              {activeOrganization ? activeOrganization.name : 'Workspace'}
+            </span>
           </div>
           <motion.h1 
             initial={{ opacity: 0, y: 15 }}
             animate={{ opacity: 1, y: 0 }}
             className="text-4xl font-black text-slate-900 tracking-tight"
           >
-            My <span className="bg-gradient-to-r from-amber-500 to-yellow-600 bg-clip-text text-transparent">Templates</span>
+            {activeOrganization ? 'Team' : 'My'} <span className="bg-gradient-to-r from-amber-500 to-yellow-600 bg-clip-text text-transparent">Templates</span>
           </motion.h1>
-          <p className="mt-2 text-slate-500 font-medium">Create, manage and distribute your modular designs.</p>
+          <p className="mt-2 text-slate-500 font-medium">
+            {activeOrganization
+              ? 'Templates shared with everyone in this organization.'
+              : 'Create, manage and distribute your modular designs.'}
+          </p>
         </div>
         
         <motion.div 
@@ -329,6 +338,7 @@ export default function Dashboard() {
           
           <Button 
             onClick={handleCreateTemplate}
+            disabled={!canCreate}
             className="h-11 px-6 bg-slate-900 hover:bg-slate-800 text-white border-0 shadow-lg shadow-slate-200 rounded-xl transition-all hover:scale-[1.02] active:scale-[0.98]"
           >
             <Plus className="mr-2 h-5 w-5 text-amber-400" />
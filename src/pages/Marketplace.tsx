@@ -0,0 +1,208 @@
+/**
+ * Marketplace Page
+ * Public catalogue of approved template listings. Buyers pay with Paystack and find their
+ * licensed copy in their dashboard.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { CheckCircle, ImageIcon, Loader2, Search, ShoppingBag, Sparkles, Store } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  MARKETPLACE_TEMPLATE_TYPES,
+  buyTemplate,
+  formatCedis,
+  getMarketplaceListings,
+  getMyPurchases,
+  type MarketplaceListing,
+} from '@/lib/marketplace';
+import { toast } from 'sonner';
+
+const ALL_TYPES = 'all';
+
+export default function Marketplace() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [listings, setListings] = useState<MarketplaceListing[]>([]);
+  const [ownedIds, setOwnedIds] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState('');
+  const [templateType, setTemplateType] = useState(ALL_TYPES);
+  const [loading, setLoading] = useState(true);
+  const [buyingId, setBuyingId] = useState<string | null>(null);
+
+  const loadListings = useCallback(async () => {
+    setLoading(true);
+    try {
+      setListings(await getMarketplaceListings(search, templateType === ALL_TYPES ? undefined : templateType));
+    } catch (error) {
+      console.error('Error loading marketplace:', error);
+      toast.error('Failed to load the marketplace');
+    } finally {
+      setLoading(false);
+    }
+  }, [search, templateType]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadListings, 300);
+    return () => clearTimeout(timer);
+  }, [loadListings]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    getMyPurchases()
+      .then(purchases => setOwnedIds(new Set(
+        purchases.filter(purchase => purchase.status === 'paid').map(purchase => purchase.template_id).filter(Boolean)
+      )))
+      .catch(error => console.error('Error loading purchases:', error));
+  }, [user?.id]);
+
+  const handleBuy = async (listing: MarketplaceListing) => {
+    if (!user) {
+      toast.info('Sign in to buy templates');
+      navigate('/login');
+      return;
+    }
+
+    setBuyingId(listing.id);
+    try {
+      window.location.href = await buyTemplate(listing.id);
+    } catch (error) {
+      console.error('Error starting checkout:', error);
+      toast.error((error as Error).message || 'Failed to start checkout');
+      setBuyingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <header className="border-b bg-white">
+        <div className="max-w-7xl mx-auto flex items-center justify-between px-6 py-4">
+          <Link to="/" className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-amber-400 to-yellow-500 shadow-lg shadow-amber-200">
+              <Sparkles className="h-5 w-5 text-white" />
+            </div>
+            <span className="text-lg font-bold text-slate-900 tracking-tight">GenEdit</span>
+          </Link>
+          <Button variant="outline" asChild>
+            <Link to={user ? '/dashboard/marketplace' : '/signup'}>
+              <Store className="h-4 w-4 mr-2" />
+              Sell your templates
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto space-y-8 px-6 py-10">
+        <motion.div initial={{ opacity: 0, y: 15 }} animate={{ opacity: 1, y: 0 }}>
+          <h1 className="text-3xl font-bold text-gray-900">
+            <span className="bg-gradient-to-r from-amber-400 to-yellow-500 bg-clip-text text-transparent">
+              Template Marketplace
+            </span>
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Ready-made designs from other creators. Buy once and get your own copy to edit and share.
+          </p>
+        </motion.div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search templates"
+              className="pl-9"
+            />
+          </div>
+          <Select value={templateType} onValueChange={setTemplateType}>
+            <SelectTrigger className="sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TYPES}>All types</SelectItem>
+              {MARKETPLACE_TEMPLATE_TYPES.map(type => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <Loader2 className="h-8 w-8 animate-spin text-amber-500" />
+          </div>
+        ) : listings.length === 0 ? (
+          <div className="text-center py-20 text-gray-500">
+            <ShoppingBag className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+            No templates match your search yet.
+          </div>
+        ) : (
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {listings.map(listing => {
+              const owned = ownedIds.has(listing.id);
+              const own = listing.seller_id === user?.id;
+
+              return (
+                <Card key={listing.id} className="overflow-hidden">
+                  <div
+                    className="bg-gray-100 flex items-center justify-center overflow-hidden"
+                    style={{ aspectRatio: `${listing.canvas_width} / ${listing.canvas_height}` }}
+                  >
+                    {listing.preview_url ? (
+                      <img src={listing.preview_url} alt={listing.name} className="h-full w-full object-cover" loading="lazy" />
+                    ) : (
+                      <ImageIcon className="h-10 w-10 text-gray-300" />
+                    )}
+                  </div>
+                  <CardContent className="p-4 space-y-3">
+                    <div>
+                      <h3 className="font-semibold truncate">{listing.name}</h3>
+                      <p className="text-xs text-muted-foreground truncate">by {listing.seller_name}</p>
+                    </div>
+                    {listing.description && (
+                      <p className="text-sm text-gray-600 line-clamp-2">{listing.description}</p>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <span className="text-lg font-bold">{formatCedis(listing.price)}</span>
+                      {listing.sales_count > 0 && (
+                        <Badge variant="secondary">{listing.sales_count} sold</Badge>
+                      )}
+                    </div>
+                    {owned ? (
+                      <Button variant="outline" className="w-full" asChild>
+                        <Link to="/dashboard/marketplace?tab=purchases">
+                          <CheckCircle className="h-4 w-4 mr-2 text-emerald-500" />
+                          Owned
+                        </Link>
+                      </Button>
+                    ) : (
+                      <Button
+                        className="w-full bg-gradient-to-r from-amber-400 to-yellow-500 hover:from-amber-500 hover:to-yellow-600 text-white"
+                        disabled={own || buyingId !== null}
+                        onClick={() => handleBuy(listing)}
+                      >
+                        {buyingId === listing.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <ShoppingBag className="h-4 w-4 mr-2" />
+                        )}
+                        {own ? 'Your listing' : 'Buy'}
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
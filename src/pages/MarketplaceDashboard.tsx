@@ -0,0 +1,221 @@
+/**
+ * Marketplace Dashboard Page
+ * Sell templates, find the templates you've bought and, for reviewers, review listings and
+ * payouts. Buyers return here from Paystack checkout to have their purchase confirmed.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ExternalLink, Loader2, PackageOpen, ShoppingBag, Store } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import MarketplaceSelling from '@/components/dashboard/MarketplaceSelling';
+import ListingReviewQueue from '@/components/dashboard/ListingReviewQueue';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import {
+  claimPurchasedTemplate,
+  formatCedis,
+  getMyPurchases,
+  isMarketplaceReviewer,
+  verifyTemplatePurchase,
+  type TemplatePurchase,
+} from '@/lib/marketplace';
+import { toast } from 'sonner';
+
+const TABS = ['selling', 'purchases', 'review'];
+
+export default function MarketplaceDashboard() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { activeOrganization, switchWorkspace } = useWorkspace();
+
+  const [purchases, setPurchases] = useState<TemplatePurchase[]>([]);
+  const [loadingPurchases, setLoadingPurchases] = useState(true);
+  const [isReviewer, setIsReviewer] = useState(false);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const verifiedRef = useRef<string | null>(null);
+
+  const requestedTab = searchParams.get('tab');
+  const tab = requestedTab && TABS.includes(requestedTab) ? requestedTab : 'selling';
+  const reference = searchParams.get('reference') || searchParams.get('trxref');
+
+  const loadPurchases = useCallback(async () => {
+    try {
+      setPurchases(await getMyPurchases());
+    } catch (error) {
+      console.error('Error loading purchases:', error);
+      toast.error('Failed to load your purchases');
+    } finally {
+      setLoadingPurchases(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPurchases();
+    isMarketplaceReviewer()
+      .then(setIsReviewer)
+      .catch(error => console.error('Error checking reviewer access:', error));
+  }, [loadPurchases]);
+
+  // Confirm a purchase once when the buyer comes back from checkout
+  useEffect(() => {
+    if (!reference || verifiedRef.current === reference) return;
+    verifiedRef.current = reference;
+
+    setVerifying(true);
+    verifyTemplatePurchase(reference)
+      .then(({ templateId, duplicate }) => {
+        if (duplicate) {
+          toast.info('You already own this template, so this payment will be refunded.');
+        } else {
+          toast.success(templateId
+            ? 'Purchase complete. Your copy is in your personal templates.'
+            : 'Purchase complete. Get your copy from the list below.');
+        }
+        return loadPurchases();
+      })
+      .catch(error => {
+        console.error('Error verifying purchase:', error);
+        toast.error(error.message || 'We could not confirm your payment yet. Refresh in a moment.');
+      })
+      .finally(() => {
+        setVerifying(false);
+        setSearchParams({ tab: 'purchases' }, { replace: true });
+      });
+  }, [reference, loadPurchases, setSearchParams]);
+
+  // Licensed copies live in the personal workspace
+  const openTemplate = (templateId: string) => {
+    if (activeOrganization) switchWorkspace(null);
+    navigate(`/dashboard/editor/${templateId}`);
+  };
+
+  const handleClaim = async (purchase: TemplatePurchase) => {
+    setClaimingId(purchase.id);
+    try {
+      const templateId = await claimPurchasedTemplate(purchase.id);
+      setPurchases(prev => prev.map(p => (p.id === purchase.id ? { ...p, licensed_template_id: templateId } : p)));
+      toast.success(`"${purchase.template_name}" was added to your templates`);
+    } catch (error) {
+      console.error('Error claiming template:', error);
+      toast.error((error as Error).message || 'Failed to add the template to your account');
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8 p-8 md:p-12">
+      <motion.div
+        initial={{ opacity: 0, y: 15 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col md:flex-row md:items-end md:justify-between gap-4"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            <span className="bg-gradient-to-r from-amber-400 to-yellow-500 bg-clip-text text-transparent">
+              Marketplace
+            </span>
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Sell your personal templates and keep track of the ones you've bought.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/marketplace">
+            <Store className="h-4 w-4 mr-2" />
+            Browse the marketplace
+          </Link>
+        </Button>
+      </motion.div>
+
+      <Tabs value={tab} onValueChange={(value) => setSearchParams({ tab: value })} className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="selling">Selling</TabsTrigger>
+          <TabsTrigger value="purchases">Purchases</TabsTrigger>
+          {isReviewer && <TabsTrigger value="review">Review</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="selling">
+          <MarketplaceSelling />
+        </TabsContent>
+
+        <TabsContent value="purchases">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShoppingBag className="h-5 w-5" />
+                Your Purchases
+              </CardTitle>
+              <CardDescription>
+                Each purchase gives you a licensed copy in your personal workspace. You can edit and share it, but not resell it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loadingPurchases || verifying ? (
+                <div className="flex items-center justify-center py-10">
+                  <Loader2 className="h-8 w-8 animate-spin text-amber-500" />
+                </div>
+              ) : purchases.length === 0 ? (
+                <p className="text-sm text-muted-foreground">You haven't bought any templates yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Template</TableHead>
+                      <TableHead>Bought</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead className="text-right">Your copy</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {purchases.map(purchase => (
+                      <TableRow key={purchase.id}>
+                        <TableCell className="font-medium">{purchase.template_name}</TableCell>
+                        <TableCell>{purchase.paid_at ? format(new Date(purchase.paid_at), 'MMM d, yyyy') : '-'}</TableCell>
+                        <TableCell>{formatCedis(purchase.price)}</TableCell>
+                        <TableCell className="text-right">
+                          {purchase.status !== 'paid' ? (
+                            <span className="text-sm text-muted-foreground">
+                              {purchase.status === 'refunded' ? 'Paid twice, refunded' : 'Paid twice, refund on its way'}
+                            </span>
+                          ) : purchase.licensed_template_id ? (
+                            <Button variant="outline" size="sm" onClick={() => openTemplate(purchase.licensed_template_id!)}>
+                              <ExternalLink className="h-4 w-4 mr-2" />
+                              Open
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={claimingId === purchase.id}
+                              onClick={() => handleClaim(purchase)}
+                            >
+                              <PackageOpen className="h-4 w-4 mr-2" />
+                              Get copy
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {isReviewer && (
+          <TabsContent value="review">
+            <ListingReviewQueue />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 /**
  * Public Generator Page
- * End-user interface for personalizing templates
+ * End-user interface for personalizing templates; `/embed/:templateId` renders it with
+ * minimal chrome for iframes on other sites
  */
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { 
   Download, 
@@ -24,11 +25,17 @@ import {
   BarChart3,
   Sparkles,
   Search,
-  Maximize2
+  Maximize2,
+  ChevronLeft,
+  ChevronRight,
+  Printer,
+  PenTool,
+  AlertCircle,
+  Lock
 } from 'lucide-react';
+import JSZip from 'jszip';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -37,101 +44,69 @@ import { getPublicTemplate, trackTemplateGeneration } from '@/lib/supabase';
 import { supabase } from '@/integrations/supabase/client';
 import { Template, TemplateWithFrames } from '@/integrations/supabase/types';
 import { uploadImage } from '@/lib/supabase';
-import { exportCanvasToPDF, getPDFExportOptions } from '@/lib/pdfUtils';
+import { exportCanvasToPDF, exportCanvasesToPrintPDF, exportMultipleCanvasesToPDF, getPDFExportOptions } from '@/lib/pdfUtils';
 import { addWatermarkToCanvas, shouldApplyWatermark } from '@/lib/watermark';
-import { getAvailableFonts, applyFontToContext, waitForFontLoad } from '@/lib/fontUtils';
-import { drawBackgroundImage, loadImage, cropImageToFrame, createCroppedCanvas } from '@/lib/imageUtils';
+import { loadPlans } from '@/lib/plans';
+import { trackTemplateEvent } from '@/lib/analytics';
+import { getAvailableFonts, loadFonts, parseTemplateFonts, waitForFontLoad } from '@/lib/fontUtils';
+import { loadImage, createCroppedCanvas } from '@/lib/imageUtils';
+import { validateFrameEntries, validateImageEntry, type FrameEntry, type ImageDimensions } from '@/lib/frameValidation';
+import { formatFrameInput } from '@/lib/frameInputs';
+import { PREFILL_TOKEN_PARAM, getPrefillValues } from '@/lib/prefill';
+import {
+  getEmbedParentOrigin,
+  isOriginAllowed,
+  parseEmbedCommand,
+  postEmbedEvent,
+  type EmbedCommand,
+  type EmbedEvent,
+} from '@/lib/embed';
+import { getTemplateCanvasSize } from '@/lib/canvasSize';
+import { TemplatePage, getAllPageFrames, getPageLabel } from '@/lib/templatePages';
+import { downloadBlob } from '@/lib/bulkGeneration';
+import { renderSVGExport, downloadExport } from '@/lib/exportSystem';
+import {
+  DEFAULT_PRINT_SETTINGS,
+  PrintSettings,
+  addBleed,
+  getEffectiveImageDpi,
+  getPhysicalSize,
+  getPrintScale,
+  getTemplateDesignDpi,
+  mmToPixels,
+  validatePrintSize
+} from '@/lib/printExport';
+import { renderFlyer, FrameInputs } from '@/lib/renderEngine';
+import { FrameData } from '@/components/editor/EnhancedCanvasEditor';
 import ImageEditorModal from '@/components/ImageEditorModal';
-
-interface FrameData {
-  id: string;
-  type: 'image' | 'text';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  rotation: number;
-  shape: 'rectangle' | 'circle' | 'rounded-rectangle' | 'polygon';
-  cornerRadius?: number;
-  polygonSides?: number;
-  properties?: {
-    fontSize?: number;
-    fontFamily?: string;
-    color?: string;
-    textAlign?: string;
-    placeholder?: string;
-    content?: string;
-  };
-}
+import TextFrameInput from '@/components/TextFrameInput';
+import PrintExportDialog, { PrintImageResolution } from '@/components/PrintExportDialog';
 
 interface UserData {
   [frameId: string]: {
     type: 'image' | 'text';
     value: string | File;
+    rawValue?: string; // What was typed or picked, before formatting
     uploadedUrl?: string;
     transformData?: any;
     originalFile?: File; // Store original file for re-editing
+    imageSize?: ImageDimensions; // Size of the original photo, for validation rules
   };
 }
 
-// Shape drawing helper function (moved outside component to prevent re-renders)
-const createShapePath = (ctx: CanvasRenderingContext2D, frame: FrameData) => {
-  ctx.beginPath();
-  
-  switch (frame.shape) {
-    case 'circle': {
-      const centerX = frame.x + frame.width / 2;
-      const centerY = frame.y + frame.height / 2;
-      const radius = Math.min(frame.width, frame.height) / 2;
-      ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-      break;
-    }
-    case 'rounded-rectangle': {
-      const cornerRadius = frame.cornerRadius || 10;
-      ctx.moveTo(frame.x + cornerRadius, frame.y);
-      ctx.lineTo(frame.x + frame.width - cornerRadius, frame.y);
-      ctx.quadraticCurveTo(frame.x + frame.width, frame.y, frame.x + frame.width, frame.y + cornerRadius);
-      ctx.lineTo(frame.x + frame.width, frame.y + frame.height - cornerRadius);
-      ctx.quadraticCurveTo(frame.x + frame.width, frame.y + frame.height, frame.x + frame.width - cornerRadius, frame.y + frame.height);
-      ctx.lineTo(frame.x + cornerRadius, frame.y + frame.height);
-      ctx.quadraticCurveTo(frame.x, frame.y + frame.height, frame.x, frame.y + frame.height - cornerRadius);
-      ctx.lineTo(frame.x, frame.y + cornerRadius);
-      ctx.quadraticCurveTo(frame.x, frame.y, frame.x + cornerRadius, frame.y);
-      break;
-    }
-    case 'polygon': {
-      const sides = frame.polygonSides || 6;
-      const centerX = frame.x + frame.width / 2;
-      const centerY = frame.y + frame.height / 2;
-      const radius = Math.min(frame.width, frame.height) / 2;
-      
-      for (let i = 0; i < sides; i++) {
-        const angle = (i * 2 * Math.PI) / sides - Math.PI / 2;
-        const x = centerX + radius * Math.cos(angle);
-        const y = centerY + radius * Math.sin(angle);
-        
-        if (i === 0) {
-          ctx.moveTo(x, y);
-        } else {
-          ctx.lineTo(x, y);
-        }
-      }
-      ctx.closePath();
-      break;
-    }
-    default:
-      ctx.rect(frame.x, frame.y, frame.width, frame.height);
-  }
-};
+interface PublicGeneratorProps {
+  embed?: boolean;
+}
 
-export default function PublicGenerator() {
+export default function PublicGenerator({ embed = false }: PublicGeneratorProps) {
   const { templateId } = useParams<{ templateId: string }>();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   
   // Template state
   const [template, setTemplate] = useState<TemplateWithFrames | null>(null);
-  const [frames, setFrames] = useState<FrameData[]>([]);
-  const [backgroundUrl, setBackgroundUrl] = useState<string>('');
+  const [pages, setPages] = useState<TemplatePage[]>([]);
+  const [currentPageIndex, setCurrentPageIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [downloadCount, setDownloadCount] = useState<number>(0);
@@ -152,12 +127,38 @@ export default function PublicGenerator() {
   const [imageEditorOpen, setImageEditorOpen] = useState(false);
   const [editingFrame, setEditingFrame] = useState<FrameData | null>(null);
   const [editingImageFile, setEditingImageFile] = useState<File | null>(null);
+  const [editingImageSize, setEditingImageSize] = useState<ImageDimensions | null>(null);
+
+  // Validation state: photos rejected on upload, and fields whose errors are shown
+  const [uploadErrors, setUploadErrors] = useState<Record<string, string>>({});
+  const [touchedFrames, setTouchedFrames] = useState<Record<string, boolean>>({});
+  const [lockedFrameIds, setLockedFrameIds] = useState<string[]>([]); // Set by a signed link
 
   // Canvas refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const bgImageRef = useRef<HTMLImageElement | null>(null);
-  const [canvasSize, setCanvasSize] = useState({ width: 1200, height: 800 });
+  const startedRef = useRef(false); // Whether this visit has already been counted as a start
+  const prefillAppliedRef = useRef(false); // Link values only fill the form once, not on every refresh
+
+  // Embedding: the host page's origin, checked against the template's allowed list
+  const [embedOrigin] = useState(() => (embed ? getEmbedParentOrigin() : null));
+  const embedAllowed = embed && !!template && isOriginAllowed(embedOrigin, template);
+  const embedRootRef = useRef<HTMLDivElement>(null);
+  const embedReadyRef = useRef(false);
+  const embedCommandRef = useRef<(command: EmbedCommand) => void>(() => {});
+  const embedResultUrlRef = useRef<string | null>(null); // Last `generated` URL handed to the host
+  const bgImagesRef = useRef<Map<string, HTMLImageElement>>(new Map());
+  const canvasSize = getTemplateCanvasSize(template);
+
+  const [printDialogOpen, setPrintDialogOpen] = useState(false);
+
+  // Physical size and the resolution photos are kept at for print
+  const designDpi = getTemplateDesignDpi(template, canvasSize);
+  const imageOutputScale = Math.min(4, Math.max(2, getPrintScale(designDpi, DEFAULT_PRINT_SETTINGS.dpi)));
+
+  const currentPage = pages[currentPageIndex];
+  const isMultiPage = pages.length > 1;
   const [availableFonts, setAvailableFonts] = useState<string[]>([]);
+  const templateFonts = useMemo(() => parseTemplateFonts(template?.fonts), [template?.fonts]);
 
   // Load template data
   useEffect(() => {
@@ -181,20 +182,15 @@ export default function PublicGenerator() {
         }
 
         setTemplate(templateData);
-        setBackgroundUrl(templateData.background_url || '');
+        setPages(templateData.pages);
+        setCurrentPageIndex(0);
         
         // Set download count from template data
         if (templateData.generation_count) {
           setDownloadCount(templateData.generation_count);
         }
         
-        if (templateData.frames && Array.isArray(templateData.frames)) {
-          setFrames(templateData.frames as FrameData[]);
-          console.log('Frames loaded:', templateData.frames.length);
-        } else {
-          console.log('No frames found in template');
-          setFrames([]);
-        }
+        console.log('Pages loaded:', templateData.pages.length);
         
         // Try to get creator name if available
         try {
@@ -212,6 +208,9 @@ export default function PublicGenerator() {
           console.warn('Failed to fetch creator info:', profileCatchError);
         }
 
+        // Whether the creator's plan watermarks exports comes from the plan catalog
+        loadPlans().catch((plansError) => console.warn('Failed to load plans:', plansError));
+
         // Generate share link
         const link = `${window.location.origin}/flyer/${templateId}`;
         setShareLink(link);
@@ -238,6 +237,36 @@ export default function PublicGenerator() {
     loadTemplate();
   }, [templateId, lastRefresh]);
 
+  // Fill text fields from the link's query string or signed prefill token
+  useEffect(() => {
+    if (!templateId || pages.length === 0 || prefillAppliedRef.current) return;
+    prefillAppliedRef.current = true;
+
+    const textFrames = getAllPageFrames(pages).filter(frame => frame.type === 'text');
+    getPrefillValues(templateId, textFrames, searchParams)
+      .catch((prefillError) => {
+        toast.error(prefillError instanceof Error ? prefillError.message : 'This personalised link could not be checked', {
+          description: 'You can still fill in the details yourself.',
+        });
+        // Plain query parameters still apply when the signed part is bad
+        const params = new URLSearchParams(searchParams);
+        params.delete(PREFILL_TOKEN_PARAM);
+        return getPrefillValues(templateId, textFrames, params);
+      })
+      .then(({ values, lockedFrameIds: locked }) => {
+        if (Object.keys(values).length === 0) return;
+        setUserData(prev => {
+          const next = { ...prev };
+          textFrames.forEach(frame => {
+            if (values[frame.id] === undefined) return;
+            next[frame.id] = { type: 'text', value: formatFrameInput(frame, values[frame.id]), rawValue: values[frame.id] };
+          });
+          return next;
+        });
+        setLockedFrameIds(locked);
+      });
+  }, [templateId, pages, searchParams]);
+
   // Helper function to resolve image source correctly (string or File)
   const resolveImageSource = useCallback((src: string | File): string => {
     if (typeof src === 'string') return src;
@@ -249,146 +278,53 @@ export default function PublicGenerator() {
     }
   }, []);
 
-  // Render canvas content to a given context (for display and export)
-  const renderCanvasToContext = useCallback(async (ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    try {
-      // Clear canvas with white background
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, width, height);
-      
-      if (!backgroundUrl) {
-        console.log('No background URL, rendering blank canvas');
-        return;
-      }
-
-      // Load and draw background image
-      try {
-        let bgImage = bgImageRef.current;
-        if (!bgImage || bgImage.src !== backgroundUrl) {
-          bgImage = await loadImage(backgroundUrl);
-          bgImageRef.current = bgImage;
-        }
-        drawBackgroundImage(ctx, bgImage, width, height);
-      } catch (bgError) {
-        console.error('Failed to load background image:', bgError);
-      }
-
-      // Draw user data in frames
-      for (const frame of frames) {
-        const input = userData[frame.id];
-        
-        // Ensure we render text frames even if no input yet (for placeholders)
-        if (!input && frame.type !== 'text') continue;
+  // Load images through the shared loader, reusing cached page backgrounds
+  const loadRenderImage = useCallback(async (src: string) => {
+    const cached = bgImagesRef.current.get(src);
+    if (cached) return cached;
+    const image = await loadImage(src);
+    if (pages.some(page => page.backgroundUrl === src)) bgImagesRef.current.set(src, image);
+    return image;
+  }, [pages]);
 
-        try {
-          if (frame.type === 'image') {
-            const imageSrc = input.uploadedUrl || input.value;
-            const finalSrc = resolveImageSource(imageSrc);
-            if (!finalSrc) continue;
+  // Map the user's entries to render engine inputs
+  const getFrameInputs = useCallback(() => {
+    const inputs: FrameInputs = {};
+    Object.entries(userData).forEach(([frameId, input]) => {
+      const value = input.type === 'image'
+        ? resolveImageSource(input.uploadedUrl || input.value)
+        : typeof input.value === 'string' ? input.value : '';
+      inputs[frameId] = { type: input.type, value };
+    });
+    return inputs;
+  }, [userData, resolveImageSource]);
 
-            const userImage = await loadImage(finalSrc);
-            
-            ctx.save();
-            
-            // Move to frame center and apply rotation
-            const centerX = frame.x + frame.width / 2;
-            const centerY = frame.y + frame.height / 2;
-            ctx.translate(centerX, centerY);
-            ctx.rotate((frame.rotation || 0) * Math.PI / 180);
-            ctx.translate(-centerX, -centerY);
-            
-            // Create clipping path for shape
-            createShapePath(ctx, frame);
-            ctx.clip();
-            
-            // If it's a data URL (edited image), it's already cropped/transformed
-            if (typeof imageSrc === 'string' && imageSrc.startsWith('data:')) {
-              ctx.drawImage(userImage, frame.x, frame.y, frame.width, frame.height);
-            } else {
-              // Standard unedited file - crop to fit
-              const crop = cropImageToFrame(userImage, frame.width, frame.height);
-              ctx.drawImage(
-                userImage,
-                crop.sourceX, crop.sourceY, crop.sourceWidth, crop.sourceHeight,
-                frame.x, frame.y, crop.drawWidth, crop.drawHeight
-              );
-            }
-            
-            ctx.restore();
+  // Render a page to a given context (for display and export)
+  const renderCanvasToContext = useCallback(async (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    page: TemplatePage | undefined = currentPage
+  ) => {
+    if (!page) return;
 
-          } else if (frame.type === 'text') {
-            const text = (input?.type === 'text' ? (input.value as string) : '') || frame.properties?.placeholder || '';
-            const properties = frame.properties || {};
-            const fontFamily = properties.fontFamily || 'Arial';
-            const fontSize = properties.fontSize || 24;
-            
-            ctx.save();
-            
-            // Move to frame center and apply rotation
-            const centerX = frame.x + frame.width / 2;
-            const centerY = frame.y + frame.height / 2;
-            ctx.translate(centerX, centerY);
-            ctx.rotate((frame.rotation || 0) * Math.PI / 180);
-            ctx.translate(-centerX, -centerY);
-            
-            // Create clipping path
-            createShapePath(ctx, frame);
-            ctx.clip();
-            
-            // Load and apply font
-            if (fontFamily !== 'Arial' && fontFamily !== 'sans-serif') {
-              await waitForFontLoad(fontFamily).catch(e => console.warn('Font load timeout:', e));
-            }
-
-            applyFontToContext(ctx, fontFamily, fontSize);
-            ctx.fillStyle = properties.color || '#000000';
-            ctx.textAlign = (properties.textAlign as CanvasTextAlign) || 'center';
-            ctx.textBaseline = 'middle';
-
-            // Calculate text alignment position
-            const textX = (properties.textAlign === 'left') ? frame.x + 10 : 
-                          (properties.textAlign === 'right') ? frame.x + frame.width - 10 : 
-                          frame.x + frame.width / 2;
-            
-            // Word wrapping logic
-            const words = text.split(/\s+/);
-            const lineHeight = fontSize * 1.2;
-            const maxLines = Math.floor(frame.height / lineHeight) || 1;
-            
-            const lines: string[] = [];
-            let currentLine = '';
-
-            for (const word of words) {
-              const testLine = currentLine ? `${currentLine} ${word}` : word;
-              const metrics = ctx.measureText(testLine);
-              if (metrics.width > frame.width - 20 && currentLine) {
-                lines.push(currentLine);
-                currentLine = word;
-              } else {
-                currentLine = testLine;
-              }
-            }
-            if (currentLine) lines.push(currentLine);
-
-            const finalLines = lines.slice(0, maxLines);
-            const totalHeight = finalLines.length * lineHeight;
-            const startY = frame.y + (frame.height - totalHeight) / 2 + lineHeight / 2;
-
-            finalLines.forEach((line, index) => {
-              ctx.fillText(line, textX, startY + (index * lineHeight));
-            });
-            
-            ctx.restore();
-          }
-        } catch (frameError) {
-          console.error(`Error rendering frame ${frame.id}:`, frameError);
-          ctx.restore(); // Ensure context is restored on error
-        }
-      }
+    try {
+      // The creator's uploaded fonts, fetched once, so text never falls back to Arial
+      await loadFonts(templateFonts);
+      await renderFlyer(ctx, {
+        width,
+        height,
+        backgroundUrl: page.backgroundUrl,
+        frames: page.frames,
+        inputs: getFrameInputs(),
+      }, {
+        loadImage: loadRenderImage,
+        waitForFont: waitForFontLoad,
+      });
     } catch (globalError) {
       console.error('Fatal error in renderCanvasToContext:', globalError);
     }
-  }, [backgroundUrl, frames, userData, resolveImageSource]);
+  }, [currentPage, getFrameInputs, loadRenderImage, templateFonts]);
 
   // Canvas display logic with DPR support
   const initializeCanvas = useCallback((canvas: HTMLCanvasElement, width: number, height: number) => {
@@ -409,14 +345,13 @@ export default function PublicGenerator() {
     const canvas = canvasRef.current;
     if (!canvas) return;
     
-    const baseWidth = 1200;
-    const baseHeight = 800;
+    const { width: baseWidth, height: baseHeight } = getTemplateCanvasSize(template);
     
     const ctx = initializeCanvas(canvas, baseWidth, baseHeight);
     if (!ctx) return;
     
     await renderCanvasToContext(ctx, baseWidth, baseHeight);
-  }, [renderCanvasToContext, initializeCanvas]);
+  }, [renderCanvasToContext, initializeCanvas, template]);
 
   // Effect to re-render when anything meaningful changes
   useEffect(() => {
@@ -427,14 +362,62 @@ export default function PublicGenerator() {
       }, 50);
       return () => clearTimeout(timer);
     }
-  }, [renderCanvas, userData, backgroundUrl, frames, loading, template]);
+  }, [renderCanvas, userData, currentPage, loading, template]);
+
+  // Reaching the review step counts as opening the preview
+  useEffect(() => {
+    if (template && currentStep === 3) trackTemplateEvent(template.id, 'preview');
+  }, [template, currentStep]);
+
+  // Revoke the host's URL for the last design when the generator closes
+  useEffect(() => () => {
+    if (embedResultUrlRef.current) URL.revokeObjectURL(embedResultUrlRef.current);
+  }, []);
+
+  // Tell the embedding page about something; a no-op outside allowed embeds
+  const sendEmbedEvent = (event: EmbedEvent) => {
+    if (embedAllowed && embedOrigin) postEmbedEvent(embedOrigin, event);
+  };
+
+  // Count the first input of a visit as a start
+  const trackStart = () => {
+    if (startedRef.current || !template) return;
+    startedRef.current = true;
+    trackTemplateEvent(template.id, 'start');
+  };
 
   // Handle file selection from step 2
   const handleFileUpload = async (frameId: string, file: File) => {
-    const frame = frames.find(f => f.id === frameId);
+    const frame = getAllPageFrames(pages).find(f => f.id === frameId);
     if (!frame) return;
+    trackStart();
+
+    // Check the photo against the creator's rules before opening the editor
+    const objectUrl = URL.createObjectURL(file);
+    let imageSize: ImageDimensions;
+    try {
+      const image = await loadImage(objectUrl);
+      imageSize = { width: image.naturalWidth, height: image.naturalHeight };
+    } catch (error) {
+      console.error('Error reading uploaded image:', error);
+      toast.error('That file could not be read as an image');
+      return;
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+    }
+
+    const uploadError = validateImageEntry(frame, imageSize);
+    setUploadErrors(prev => {
+      const { [frameId]: _previous, ...rest } = prev;
+      return uploadError ? { ...rest, [frameId]: uploadError } : rest;
+    });
+    setTouchedFrames(prev => ({ ...prev, [frameId]: true }));
+    if (uploadError) return;
+
+    if (template) trackTemplateEvent(template.id, 'upload');
     setEditingFrame(frame);
     setEditingImageFile(file);
+    setEditingImageSize(imageSize);
     setImageEditorOpen(true);
   };
 
@@ -449,75 +432,118 @@ export default function PublicGenerator() {
         value: editedImageUrl,
         uploadedUrl: editedImageUrl,
         transformData,
-        originalFile: editingImageFile || undefined
+        originalFile: editingImageFile || undefined,
+        imageSize: editingImageSize || undefined
       }
     }));
 
     setImageEditorOpen(false);
     setEditingFrame(null);
     setEditingImageFile(null);
+    setEditingImageSize(null);
+    if (template) trackTemplateEvent(template.id, 'edit');
     toast.success('Image applied successfully');
   };
 
-  // Handle text input
+  // Handle text input; the formatted value is what gets drawn
   const handleTextInput = (frameId: string, text: string) => {
+    if (lockedFrameIds.includes(frameId)) return;
+    const frame = getAllPageFrames(pages).find(f => f.id === frameId);
+    const value = frame ? formatFrameInput(frame, text) : text;
+    trackStart();
     setUserData(prev => ({
       ...prev,
       [frameId]: {
         type: 'text',
-        value: text
+        value,
+        rawValue: text
       }
     }));
+    sendEmbedEvent({ type: 'fieldChanged', key: frame?.key || null, frameId, value, rawValue: text });
+  };
+
+  // Render one page to a new canvas at the given scale
+  const renderPageAtScale = async (page: TemplatePage, scale: number) => {
+    const exportCanvas = document.createElement('canvas');
+    const exportCtx = exportCanvas.getContext('2d');
+    if (!exportCtx) throw new Error('Failed to get export canvas context');
+    
+    const { width: baseWidth, height: baseHeight } = canvasSize;
+    exportCanvas.width = Math.round(baseWidth * scale);
+    exportCanvas.height = Math.round(baseHeight * scale);
+    
+    exportCtx.scale(scale, scale);
+    
+    await renderCanvasToContext(exportCtx, baseWidth, baseHeight, page);
+    return exportCanvas;
+  };
+
+  // Render one page at export resolution, cropped to its background and watermarked if needed
+  const renderPageForExport = async (page: TemplatePage) => {
+    const exportCanvas = await renderPageAtScale(page, 2); // 2x for better quality
+    
+    // Load background image for cropping to content bounds
+    const bgImage = await loadRenderImage(page.backgroundUrl);
+    const croppedCanvas = createCroppedCanvas(exportCanvas, bgImage);
+    
+    // Apply watermark if on free tier
+    return shouldApplyWatermark(subscriptionTier) ? 
+      addWatermarkToCanvas(croppedCanvas, 'free', creatorName) : croppedCanvas;
   };
 
   // Generate and download personalized design
   const handleDownload = async () => {
     setGenerating(true);
     try {
-      // Create high-resolution export canvas
-      const exportCanvas = document.createElement('canvas');
-      const exportCtx = exportCanvas.getContext('2d');
-      if (!exportCtx) throw new Error('Failed to get export canvas context');
-      
-      const scale = 2; // 2x for better quality
-      const baseWidth = 1200;
-      const baseHeight = 800;
-      exportCanvas.width = baseWidth * scale;
-      exportCanvas.height = baseHeight * scale;
-      
-      exportCtx.scale(scale, scale);
-      
-      await renderCanvasToContext(exportCtx, baseWidth, baseHeight);
-      
-      // Load background image for cropping to content bounds
-      const bgImage = await loadImage(backgroundUrl);
-      const croppedCanvas = createCroppedCanvas(exportCanvas, bgImage);
-      
-      // Apply watermark if on free tier
-      const finalCanvas = shouldApplyWatermark(subscriptionTier) ? 
-        addWatermarkToCanvas(croppedCanvas, 'free', creatorName) : croppedCanvas;
-      
-      const dataURL = finalCanvas.toDataURL('image/png', 1.0);
+      const baseName = template?.name || 'personalized-flyer';
+      let download: Blob;
+
+      if (isMultiPage) {
+        // One image per page, bundled into a ZIP
+        const zip = new JSZip();
+        for (const [index, page] of pages.entries()) {
+          const pageCanvas = await renderPageForExport(page);
+          const pageData = pageCanvas.toDataURL('image/png', 1.0).split(',')[1];
+          zip.file(`${baseName}-page-${String(index + 1).padStart(2, '0')}.png`, pageData, { base64: true });
+        }
+        download = await zip.generateAsync({ type: 'blob' });
+      } else {
+        const pageCanvas = await renderPageForExport(currentPage);
+        download = await new Promise<Blob>((resolve, reject) => {
+          pageCanvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to create image'))), 'image/png', 1.0);
+        });
+      }
+      const fileName = `${baseName}.${isMultiPage ? 'zip' : 'png'}`;
       
       // Track generation
       if (template?.id) {
         try {
-          await trackTemplateGeneration(template.id);
+          await trackTemplateGeneration(template.id, isMultiPage ? 'zip' : 'png');
           setDownloadCount(prev => prev + 1);
         } catch (e) {
           console.warn('Failed to track generation:', e);
         }
       }
       
-      const link = document.createElement('a');
-      link.download = `${template?.name || 'personalized-flyer'}.png`;
-      link.href = dataURL;
-      link.click();
+      downloadBlob(download, fileName);
+      // The host gets its own URL, valid until the next design; the download's is revoked right after
+      if (embedAllowed) {
+        if (embedResultUrlRef.current) URL.revokeObjectURL(embedResultUrlRef.current);
+        embedResultUrlRef.current = URL.createObjectURL(download);
+        sendEmbedEvent({
+          type: 'generated',
+          url: embedResultUrlRef.current,
+          blob: download,
+          fileName,
+          mimeType: download.type || (isMultiPage ? 'application/zip' : 'image/png')
+        });
+      }
 
       toast.success('Design downloaded successfully!');
     } catch (error) {
       console.error('Error generating design:', error);
       toast.error('Failed to generate design');
+      sendEmbedEvent({ type: 'error', message: 'Failed to generate design' });
     } finally {
       setGenerating(false);
     }
@@ -528,14 +554,34 @@ export default function PublicGenerator() {
     setGenerating(true);
     try {
       const filename = `${template?.name || 'personalized-flyer'}.pdf`;
+      if (isMultiPage) {
+        // One PDF page per template page, rendered as they are added
+        const renderPages = async function* () {
+          for (const page of pages) {
+            yield await renderPageForExport(page);
+          }
+        };
+        await exportMultipleCanvasesToPDF(renderPages(), {
+          width: canvasSize.width,
+          height: canvasSize.height,
+          quality: 0.92,
+          imageFormat: 'JPEG',
+          pageSize: 'canvas',
+          filename
+        });
+        if (template) trackTemplateGeneration(template.id, 'pdf');
+        toast.success('PDF exported successfully!');
+        return;
+      }
       await exportCanvasToPDF(canvasRef.current, {
-        width: 1200,
-        height: 800,
+        width: canvasSize.width,
+        height: canvasSize.height,
         quality: 1.0,
         format: 'A4',
-        orientation: 'portrait',
+        orientation: canvasSize.width > canvasSize.height ? 'landscape' : 'portrait',
         filename
       });
+      if (template) trackTemplateGeneration(template.id, 'pdf');
       toast.success('PDF exported successfully!');
     } catch (error) {
       console.error('Error exporting PDF:', error);
@@ -545,6 +591,115 @@ export default function PublicGenerator() {
     }
   };
 
+  // Print-ready PDF: full trim size at the chosen DPI, with bleed and printer's marks
+  const handleExportPrintPDF = async (settings: PrintSettings) => {
+    const sizeError = validatePrintSize(canvasSize, designDpi, settings);
+    if (sizeError) {
+      toast.error(sizeError);
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const trimSize = getPhysicalSize(canvasSize, designDpi);
+      const scale = getPrintScale(designDpi, settings.dpi);
+      const bleedPx = mmToPixels(settings.bleedMm, settings.dpi);
+
+      const renderPages = async function* () {
+        for (const page of pages) {
+          const pageCanvas = await renderPageAtScale(page, scale);
+          const marked = shouldApplyWatermark(subscriptionTier) ?
+            addWatermarkToCanvas(pageCanvas, 'free', creatorName) : pageCanvas;
+          yield addBleed(marked, bleedPx);
+        }
+      };
+
+      await exportCanvasesToPrintPDF(renderPages(), {
+        trimWidthMm: trimSize.widthMm,
+        trimHeightMm: trimSize.heightMm,
+        bleedMm: settings.bleedMm,
+        cropMarks: settings.cropMarks,
+        registrationMarks: settings.registrationMarks,
+        filename: `${template?.name || 'personalized-flyer'}-print.pdf`
+      });
+      setPrintDialogOpen(false);
+      if (template) trackTemplateGeneration(template.id, 'print_pdf');
+      toast.success('Print-ready PDF exported!');
+    } catch (error) {
+      console.error('Error exporting print PDF:', error);
+      toast.error('Failed to export print PDF');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // Vector SVG with live text; multi-page templates get one SVG per page in a ZIP
+  const handleExportSVG = async () => {
+    if (!canvasRef.current || !template) return;
+    setGenerating(true);
+    try {
+      const baseName = template.name || 'personalized-flyer';
+      const inputs = getFrameInputs();
+      const exportPage = async (page: TemplatePage, filename: string) => {
+        const result = await renderSVGExport({
+          format: 'svg',
+          quality: 100,
+          resolution: 'medium',
+          watermark: true,
+          filename,
+          canvasSize,
+          source: {
+            ...canvasSize,
+            backgroundUrl: page.backgroundUrl,
+            frames: page.frames,
+            inputs,
+          },
+        }, subscriptionTier);
+        if (!result.success || !result.data) throw new Error(result.error || 'SVG export failed');
+        return result;
+      };
+
+      if (isMultiPage) {
+        const zip = new JSZip();
+        for (const [index, page] of pages.entries()) {
+          const result = await exportPage(page, `${baseName}-page-${String(index + 1).padStart(2, '0')}`);
+          zip.file(result.filename!, result.data!);
+        }
+        downloadBlob(await zip.generateAsync({ type: 'blob' }), `${baseName}-svg.zip`);
+        toast.success('SVG pages exported successfully!');
+      } else {
+        const result = await exportPage(currentPage, baseName);
+        downloadExport(result.data!, result.filename!, 'svg');
+      }
+      trackTemplateGeneration(template.id, 'svg');
+    } catch (error) {
+      console.error('Error exporting SVG:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export SVG');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // Share the generator link, natively where supported
+  const handleShare = async () => {
+    if (!template || !shareLink) return;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: template.name, url: shareLink });
+        trackTemplateEvent(template.id, 'share', { method: 'native' });
+      } else {
+        await navigator.clipboard.writeText(shareLink);
+        trackTemplateEvent(template.id, 'share', { method: 'link' });
+        toast.success('Link copied to clipboard!');
+      }
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; that's not a failure
+      if (error instanceof Error && error.name === 'AbortError') return;
+      console.error('Error sharing generator:', error);
+      toast.error('Failed to share link');
+    }
+  };
+
   const steps = [
     { id: 1, name: 'Details', icon: '📝' },
     { id: 2, name: 'Photo', icon: '🖼️' },
@@ -552,8 +707,125 @@ export default function PublicGenerator() {
     { id: 4, name: 'Get it', icon: '📥' }
   ];
 
-  const textFrames = frames.filter(f => f.type === 'text');
-  const imageFrames = frames.filter(f => f.type === 'image');
+  // Inputs are collected for every page; editing one jumps the preview to its page
+  const allFrames = getAllPageFrames(pages);
+  const textFrames = allFrames.filter(f => f.type === 'text');
+  const imageFrames = allFrames.filter(f => f.type === 'image');
+
+  const showFramePage = (frameId: string) => {
+    const pageIndex = pages.findIndex(page => page.frames.some(f => f.id === frameId));
+    if (pageIndex >= 0 && pageIndex !== currentPageIndex) setCurrentPageIndex(pageIndex);
+  };
+
+  const getFramePageLabel = (frameId: string) => {
+    const pageIndex = pages.findIndex(page => page.frames.some(f => f.id === frameId));
+    return isMultiPage && pageIndex >= 0 ? getPageLabel(pages[pageIndex], pageIndex) : null;
+  };
+
+  // Print resolution of each placed photo, for low-DPI warnings
+  const imageResolutions: PrintImageResolution[] = imageFrames
+    .filter(frame => userData[frame.id]?.transformData?.scale)
+    .map(frame => ({
+      frameId: frame.id,
+      label: `Photo Layer ${frame.id.slice(-4)}`,
+      effectiveDpi: getEffectiveImageDpi(userData[frame.id].transformData.scale, designDpi, imageOutputScale)
+    }));
+
+  // Check entries against the creator's validation rules; downloads wait until they pass
+  const frameEntries: Record<string, FrameEntry> = {};
+  allFrames.forEach(frame => {
+    const input = userData[frame.id];
+    frameEntries[frame.id] = frame.type === 'text'
+      ? { text: typeof input?.value === 'string' ? input.value : '', raw: input?.rawValue }
+      : { image: input?.value ? input.imageSize || null : null };
+  });
+  // Values locked by a signed link can't be changed here, so they aren't held to the rules
+  const fieldErrors = {
+    ...validateFrameEntries(allFrames.filter(frame => !lockedFrameIds.includes(frame.id)), frameEntries),
+    ...uploadErrors
+  };
+  const isFormValid = Object.keys(fieldErrors).length === 0;
+  const getFieldError = (frameId: string) => (touchedFrames[frameId] ? fieldErrors[frameId] : undefined);
+
+  // Show errors for the current step's fields and stay on it until they're fixed
+  const handleContinue = () => {
+    const stepFrames = currentStep === 1 ? textFrames : currentStep === 2 ? imageFrames : [];
+    const invalid = stepFrames.filter(frame => fieldErrors[frame.id]);
+    if (invalid.length > 0) {
+      setTouchedFrames(prev => ({ ...prev, ...Object.fromEntries(invalid.map(frame => [frame.id, true])) }));
+      showFramePage(invalid[0].id);
+      toast.error(invalid.length === 1 ? 'Please fix the highlighted field' : `Please fix the ${invalid.length} highlighted fields`);
+      return;
+    }
+    setCurrentStep(prev => prev + 1);
+  };
+
+  const goToFirstError = () => {
+    const frame = allFrames.find(f => fieldErrors[f.id]);
+    if (!frame) return;
+    setTouchedFrames(prev => ({ ...prev, [frame.id]: true }));
+    setCurrentStep(frame.type === 'text' ? 1 : 2);
+    showFramePage(frame.id);
+  };
+
+  // Commands from the embedding page act on the latest state
+  useEffect(() => {
+    embedCommandRef.current = (command: EmbedCommand) => {
+      if (command.command === 'setField') {
+        const frame = textFrames.find(f => f.key === command.key) || textFrames.find(f => f.id === command.key);
+        if (!frame) {
+          sendEmbedEvent({ type: 'error', message: `This design has no field "${command.key}"` });
+        } else if (lockedFrameIds.includes(frame.id)) {
+          sendEmbedEvent({ type: 'error', message: `The field "${command.key}" can't be changed` });
+        } else {
+          handleTextInput(frame.id, command.value);
+        }
+        return;
+      }
+
+      if (!isFormValid) {
+        goToFirstError();
+        sendEmbedEvent({ type: 'error', message: 'Some details need fixing before downloading' });
+        return;
+      }
+      if (!generating) handleDownload();
+    };
+  });
+
+  useEffect(() => {
+    if (!embedAllowed) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== embedOrigin || event.source !== window.parent) return;
+      const command = parseEmbedCommand(event.data);
+      if (command) embedCommandRef.current(command);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [embedAllowed, embedOrigin]);
+
+  useEffect(() => {
+    if (!embedAllowed || !template || pages.length === 0 || embedReadyRef.current) return;
+    embedReadyRef.current = true;
+    postEmbedEvent(embedOrigin!, {
+      type: 'ready',
+      templateId: template.id,
+      name: template.name,
+      fields: getAllPageFrames(pages)
+        .filter(frame => frame.type === 'text')
+        .map(frame => ({ key: frame.key || null, frameId: frame.id, label: frame.properties?.placeholder || '' }))
+    });
+  }, [embedAllowed, embedOrigin, template, pages]);
+
+  // Keep the host's iframe as tall as the generator
+  useEffect(() => {
+    const root = embedRootRef.current;
+    if (!embedAllowed || loading || !root) return;
+    const observer = new ResizeObserver(() => {
+      postEmbedEvent(embedOrigin!, { type: 'resize', height: Math.ceil(root.getBoundingClientRect().height) });
+    });
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, [embedAllowed, embedOrigin, loading]);
 
   if (loading) {
     return (
@@ -576,8 +848,24 @@ export default function PublicGenerator() {
           </div>
           <h2 className="text-2xl font-bold mb-2">Oops! Something went wrong</h2>
           <p className="text-white/60 mb-8">{error || 'Template not found'}</p>
-          <Button onClick={() => navigate('/')} className="w-full bg-amber-500 hover:bg-amber-600">
-            Back to Home
+          {!embed && (
+            <Button onClick={() => navigate('/')} className="w-full bg-amber-500 hover:bg-amber-600">
+              Back to Home
+            </Button>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  if (embed && !embedAllowed) {
+    return (
+      <div className="min-h-screen bg-[#0E1318] flex items-center justify-center p-6">
+        <Card className="max-w-md w-full bg-[#141A21] border-white/5 p-8 text-center rounded-[32px] text-white">
+          <h2 className="text-xl font-bold mb-2">This design can't be shown here</h2>
+          <p className="text-white/60 mb-8">Its creator hasn't allowed it to be embedded on this site.</p>
+          <Button asChild className="w-full bg-amber-500 hover:bg-amber-600">
+            <a href={`/flyer/${template.id}`} target="_blank" rel="noopener noreferrer">Open the Generator</a>
           </Button>
         </Card>
       </div>
@@ -585,29 +873,33 @@ export default function PublicGenerator() {
   }
 
   return (
-    <div className="min-h-screen bg-[#0E1318] text-white flex flex-col font-sans">
+    <div ref={embedRootRef} className={`${embed ? '' : 'min-h-screen '}bg-[#0E1318] text-white flex flex-col font-sans`}>
       {/* Background Watermark */}
-      <div className="fixed inset-0 pointer-events-none opacity-[0.03] flex items-center justify-center select-none overflow-hidden">
-        <h1 className="text-[25vw] font-black rotate-[-15deg] whitespace-nowrap">INFINITY GENERATION</h1>
-      </div>
+      {!embed && (
+        <div className="fixed inset-0 pointer-events-none opacity-[0.03] flex items-center justify-center select-none overflow-hidden">
+          <h1 className="text-[25vw] font-black rotate-[-15deg] whitespace-nowrap">INFINITY GENERATION</h1>
+        </div>
+      )}
 
       {/* Header */}
-      <header className="h-16 border-b border-white/5 bg-[#141A21]/80 backdrop-blur-xl sticky top-0 z-50 px-4">
-        <div className="max-w-[1600px] mx-auto h-full flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            <Button variant="ghost" size="icon" onClick={() => navigate('/')} className="hover:bg-white/5">
-              <ArrowLeft className="h-5 w-5" />
-            </Button>
-            <div className="h-6 w-[1px] bg-white/10 hidden sm:block" />
-            <h1 className="font-bold text-lg truncate max-w-[200px] sm:max-w-none">{template.name}</h1>
-          </div>
-          <div className="flex items-center gap-4">
-            <Badge variant="outline" className="bg-amber-500/10 text-amber-500 border-amber-500/20 px-3 py-1">
-              Customizer Pro
-            </Badge>
+      {!embed && (
+        <header className="h-16 border-b border-white/5 bg-[#141A21]/80 backdrop-blur-xl sticky top-0 z-50 px-4">
+          <div className="max-w-[1600px] mx-auto h-full flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate('/')} className="hover:bg-white/5">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div className="h-6 w-[1px] bg-white/10 hidden sm:block" />
+              <h1 className="font-bold text-lg truncate max-w-[200px] sm:max-w-none">{template.name}</h1>
+            </div>
+            <div className="flex items-center gap-4">
+              <Badge variant="outline" className="bg-amber-500/10 text-amber-500 border-amber-500/20 px-3 py-1">
+                Customizer Pro
+              </Badge>
+            </div>
           </div>
-        </div>
-      </header>
+        </header>
+      )}
 
       {/* Main UI */}
       <main className="flex-1 max-w-[1600px] mx-auto w-full p-4 sm:p-6 lg:p-8 flex flex-col lg:flex-row gap-8 relative z-10 transition-all">
@@ -633,10 +925,30 @@ export default function PublicGenerator() {
 
           {/* Canvas Viewport */}
           <div className="flex-1 bg-black/40 rounded-[32px] border border-white/5 relative overflow-hidden flex items-center justify-center p-4 sm:p-8 group min-h-[400px]">
-            <div className="relative transform-gpu transition-all duration-300 shadow-2xl w-full max-w-[1200px] aspect-[3/2]" style={{ transform: `translate(${panOffset.x}px, ${panOffset.y}px) scale(${zoom})` }}>
+            <div
+              className="relative transform-gpu transition-all duration-300 shadow-2xl"
+              style={{
+                // Fit the template's own aspect ratio within the viewport, never wider than its native size
+                // Embedded, the viewport follows the content, so a fixed height caps it instead of vh
+                width: `min(100%, ${canvasSize.width}px, calc(${embed ? '560px' : '70vh'} * ${canvasSize.width / canvasSize.height}))`,
+                aspectRatio: `${canvasSize.width} / ${canvasSize.height}`,
+                transform: `translate(${panOffset.x}px, ${panOffset.y}px) scale(${zoom})`
+              }}
+            >
               <canvas ref={canvasRef} className="rounded-lg bg-white shadow-2xl w-full h-full block" />
             </div>
 
+            {/* Page Navigation */}
+            {isMultiPage && (
+              <div className="absolute top-6 left-1/2 -translate-x-1/2 flex items-center gap-2 px-2 py-1.5 bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl">
+                <Button variant="ghost" size="icon" className="h-8 w-8 text-white/60" disabled={currentPageIndex === 0} onClick={() => setCurrentPageIndex(prev => prev - 1)}><ChevronLeft className="h-4 w-4" /></Button>
+                <span className="text-[10px] font-bold uppercase tracking-widest min-w-[96px] text-center">
+                  {getPageLabel(currentPage, currentPageIndex)} · {currentPageIndex + 1}/{pages.length}
+                </span>
+                <Button variant="ghost" size="icon" className="h-8 w-8 text-white/60" disabled={currentPageIndex === pages.length - 1} onClick={() => setCurrentPageIndex(prev => prev + 1)}><ChevronRight className="h-4 w-4" /></Button>
+              </div>
+            )}
+
             {/* View Controls */}
             <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-3 px-4 py-2 bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity">
               <Button variant="ghost" size="icon" className="h-8 w-8 text-white/60" onClick={() => setZoom(Math.max(0.1, zoom - 0.1))}><Search className="h-4 w-4 rotate-[-90deg]" /></Button>
@@ -675,13 +987,35 @@ export default function PublicGenerator() {
                       <div key={frame.id} className="space-y-3">
                         <Label className="text-[10px] font-bold uppercase tracking-widest text-white/60 flex items-center gap-2">
                           <Type className="h-3 w-3" /> {frame.properties?.placeholder || 'Detail'}
+                          {getFramePageLabel(frame.id) && <span className="text-white/30">· {getFramePageLabel(frame.id)}</span>}
                         </Label>
-                        <Input
-                          value={userData[frame.id]?.value as string || ''}
-                          onChange={(e) => handleTextInput(frame.id, e.target.value)}
-                          placeholder="Type something..."
-                          className="bg-white/5 border-white/10 text-white h-12 rounded-xl focus:border-amber-500/50 transition-all placeholder:text-white/30"
-                        />
+                        {lockedFrameIds.includes(frame.id) ? (
+                          <div
+                            className="flex items-center justify-between gap-3 rounded-xl bg-white/5 border border-white/10 px-4 py-3 text-sm text-white/80"
+                            onClick={() => showFramePage(frame.id)}
+                          >
+                            <span className="truncate">{userData[frame.id]?.value as string}</span>
+                            <span className="flex items-center gap-1.5 text-[10px] uppercase tracking-widest text-white/40 shrink-0">
+                              <Lock className="h-3 w-3" /> Set by your link
+                            </span>
+                          </div>
+                        ) : (
+                          <TextFrameInput
+                            frame={frame}
+                            value={userData[frame.id]?.rawValue ?? (userData[frame.id]?.value as string || '')}
+                            onChange={(text) => handleTextInput(frame.id, text)}
+                            onFocus={() => showFramePage(frame.id)}
+                            onBlur={() => setTouchedFrames(prev => ({ ...prev, [frame.id]: true }))}
+                            invalid={!!getFieldError(frame.id)}
+                          />
+                        )}
+                        {getFieldError(frame.id) ? (
+                          <p className="text-xs text-red-400 flex items-center gap-1.5"><AlertCircle className="h-3 w-3" /> {getFieldError(frame.id)}</p>
+                        ) : frame.validation?.maxLength ? (
+                          <p className="text-[10px] text-white/30 text-right">
+                            {(userData[frame.id]?.value as string || '').length}/{frame.validation.maxLength}
+                          </p>
+                        ) : null}
                       </div>
                     )) : (
                       <div className="py-8 text-center text-white/20 border border-dashed border-white/5 rounded-2xl">
@@ -698,10 +1032,12 @@ export default function PublicGenerator() {
                       <div key={frame.id} className="space-y-4">
                         <Label className="text-[10px] font-bold uppercase tracking-widest text-white/40 flex items-center gap-2">
                           <ImageIcon className="h-3 w-3" /> Photo Layer {frame.id.slice(-4)}
+                          {getFramePageLabel(frame.id) && <span className="text-white/30">· {getFramePageLabel(frame.id)}</span>}
                         </Label>
                         <div 
                           className="relative aspect-video rounded-2xl border border-white/5 bg-black/40 overflow-hidden group cursor-pointer"
                           onClick={() => {
+                            showFramePage(frame.id);
                             const input = document.createElement('input');
                             input.type = 'file';
                             input.accept = 'image/*';
@@ -722,6 +1058,9 @@ export default function PublicGenerator() {
                           )}
                           <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"><Button variant="outline" className="rounded-full bg-white/5">Change</Button></div>
                         </div>
+                        {getFieldError(frame.id) && (
+                          <p className="text-xs text-red-400 flex items-center gap-1.5"><AlertCircle className="h-3 w-3" /> {getFieldError(frame.id)}</p>
+                        )}
                       </div>
                     )) : (
                       <div className="py-8 text-center text-white/20 border border-dashed border-white/5 rounded-2xl">
@@ -744,25 +1083,60 @@ export default function PublicGenerator() {
 
                 {currentStep === 4 && (
                   <div className="space-y-6 flex flex-col items-center pt-6">
+                    {!isFormValid && (
+                      <div className="w-full p-4 rounded-2xl border border-red-500/20 bg-red-500/10 text-sm text-red-300 flex items-start gap-3">
+                        <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                        <div className="space-y-2">
+                          <p>Some details need fixing before you can download.</p>
+                          <button onClick={goToFirstError} className="font-bold underline underline-offset-2">Fix now</button>
+                        </div>
+                      </div>
+                    )}
                     <div className="w-24 h-24 bg-green-500/10 rounded-[40px] flex items-center justify-center border border-green-500/20 rotate-12 mb-4">
                         <Check className="h-10 w-10 text-green-500 -rotate-12" />
                     </div>
                     <Button 
                       onClick={handleDownload} 
-                      disabled={generating}
+                      disabled={generating || !isFormValid}
                       className="w-full h-14 bg-white text-black hover:bg-white/90 rounded-2xl font-bold text-lg flex gap-3 shadow-[0_0_30px_rgba(255,255,255,0.1)]"
                     >
                       {generating ? <RefreshCw className="h-5 w-5 animate-spin" /> : <Download className="h-5 w-5" />}
-                      Download Design
+                      {isMultiPage ? `Download ${pages.length} Pages (ZIP)` : 'Download Design'}
                     </Button>
                     <Button 
                         variant="ghost" 
                         onClick={handleExportPDF} 
-                        disabled={generating}
+                        disabled={generating || !isFormValid}
                         className="w-full h-12 text-white/60 hover:text-white hover:bg-white/10"
                     >
                         Export as PDF
                     </Button>
+                    <Button 
+                        variant="ghost" 
+                        onClick={() => setPrintDialogOpen(true)} 
+                        disabled={generating || !isFormValid}
+                        className="w-full h-12 text-white/60 hover:text-white hover:bg-white/10"
+                    >
+                        <Printer className="h-4 w-4 mr-2" /> Print-Ready PDF
+                    </Button>
+                    <Button 
+                        variant="ghost" 
+                        onClick={handleExportSVG} 
+                        disabled={generating || !isFormValid}
+                        className="w-full h-12 text-white/60 hover:text-white hover:bg-white/10"
+                    >
+                        <PenTool className="h-4 w-4 mr-2" /> Export as SVG
+                    </Button>
+                    {!embed && (
+                      <Button 
+                          variant="ghost" 
+                          onClick={handleShare} 
+                          disabled={!shareLink}
+                          className="w-full h-12 text-white/60 hover:text-white hover:bg-white/10"
+                      >
+                          <Share2 className="h-4 w-4 mr-2" /> Share with Friends
+                      </Button>
+                    )}
                   </div>
                 )}
               </div>
@@ -772,7 +1146,7 @@ export default function PublicGenerator() {
             {currentStep < 4 && (
               <div className="p-6 sm:p-8 border-t border-white/5 flex items-center gap-4 bg-[#181F27]/50 backdrop-blur-md">
                 <Button variant="ghost" disabled={currentStep === 1} onClick={() => setCurrentStep(prev => prev - 1)} className="text-white/60">Back</Button>
-                <Button onClick={() => setCurrentStep(prev => prev + 1)} className="flex-1 h-12 bg-amber-500 hover:bg-amber-600 font-bold rounded-xl shadow-lg shadow-amber-900/20">
+                <Button onClick={handleContinue} className="flex-1 h-12 bg-amber-500 hover:bg-amber-600 font-bold rounded-xl shadow-lg shadow-amber-900/20">
                   {currentStep === 3 ? 'Finalize' : 'Continue'}
                 </Button>
               </div>
@@ -781,6 +1155,17 @@ export default function PublicGenerator() {
         </div>
       </main>
 
+      {embed && (
+        <a
+          href={`/flyer/${template.id}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="pb-4 text-center text-[10px] font-bold uppercase tracking-widest text-white/30 hover:text-white/60"
+        >
+          Powered by DynamicFlyer
+        </a>
+      )}
+
       <ImageEditorModal
         open={imageEditorOpen}
         onClose={() => { setImageEditorOpen(false); setEditingFrame(null); }}
@@ -788,6 +1173,17 @@ export default function PublicGenerator() {
         frame={editingFrame!}
         onApply={handleImageEditorComplete}
         previousTransformData={editingFrame ? userData[editingFrame.id]?.transformData : undefined}
+        outputScale={imageOutputScale}
+      />
+
+      <PrintExportDialog
+        open={printDialogOpen}
+        onClose={() => setPrintDialogOpen(false)}
+        trimSize={getPhysicalSize(canvasSize, designDpi)}
+        designDpi={designDpi}
+        imageResolutions={imageResolutions}
+        exporting={generating}
+        onExport={handleExportPrintPDF}
       />
     </div>
   );
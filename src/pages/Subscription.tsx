@@ -11,7 +11,8 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useSubscription } from '@/hooks/useSubscription';
-import { SUBSCRIPTION_PLANS, EVENT_PACKAGES, formatAmount } from '@/integrations/paystack/client';
+import { usePlans } from '@/hooks/usePlans';
+import { formatAmount } from '@/integrations/paystack/client';
 import { toast } from 'sonner';
 
 export default function Subscription() {
@@ -23,6 +24,7 @@ export default function Subscription() {
     purchaseEventPackage,
     processingPayment 
   } = useSubscription();
+  const { plans, packages, loading: plansLoading } = usePlans();
 
   const [selectedTab, setSelectedTab] = useState('plans');
 
@@ -149,7 +151,10 @@ export default function Subscription() {
               animate={{ opacity: 1, y: 0 }}
               className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8"
             >
-              {Object.values(SUBSCRIPTION_PLANS).map((plan) => (
+              {plansLoading && (
+                <p className="col-span-full text-center text-gray-500">Loading plans...</p>
+              )}
+              {plans.map((plan) => (
                 <Card 
                   key={plan.id} 
                   className={`relative overflow-hidden transition-all duration-300 hover:shadow-xl ${
@@ -169,7 +174,7 @@ export default function Subscription() {
                       <div className={`p-3 rounded-lg bg-white/80 ${getPlanColor(plan.id)}`}>
                         {getPlanIcon(plan.id)}
                       </div>
-                      {plan.id === 'creator_pro' && (
+                      {plan.isFeatured && (
                         <Badge variant="secondary" className="bg-purple-100 text-purple-800">
                           Most Popular
                         </Badge>
@@ -185,7 +190,7 @@ export default function Subscription() {
                         {plan.price === 0 ? 'Free' : `₵${plan.price}`}
                       </span>
                       {plan.price > 0 && (
-                        <span className="text-gray-600">/month</span>
+                        <span className="text-gray-600">/{plan.interval}</span>
                       )}
                     </div>
                   </CardHeader>
@@ -231,7 +236,7 @@ export default function Subscription() {
               animate={{ opacity: 1, y: 0 }}
               className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8"
             >
-              {Object.values(EVENT_PACKAGES).map((eventPackage) => (
+              {packages.map((eventPackage) => (
                 <Card 
                   key={eventPackage.id} 
                   className="relative overflow-hidden transition-all duration-300 hover:shadow-xl hover:scale-105"
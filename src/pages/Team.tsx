@@ -0,0 +1,533 @@
+/**
+ * Team Page
+ * Create organizations, invite members by email and manage their roles
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Building2, Copy, Loader2, LogOut, Mail, Plus, Trash2, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import ReviewQueue from '@/components/dashboard/ReviewQueue';
+import {
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  canManageMembers,
+  createOrganization,
+  deleteOrganization,
+  getOrganizationInvites,
+  getOrganizationMembers,
+  inviteMember,
+  leaveOrganization,
+  removeMember,
+  revokeInvite,
+  updateMemberRole,
+  type InviteRole,
+  type OrganizationInvite,
+  type OrganizationMember,
+  type OrganizationRole,
+} from '@/lib/organizations';
+import { toast } from 'sonner';
+
+export default function Team() {
+  const { user } = useAuth();
+  const {
+    organizations,
+    activeOrganization,
+    activeRole,
+    loading: workspaceLoading,
+    switchWorkspace,
+  } = useWorkspace();
+
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invites, setInvites] = useState<OrganizationInvite[]>([]);
+  const [loadingMembers, setLoadingMembers] = useState(false);
+
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InviteRole>('editor');
+  const [inviting, setInviting] = useState(false);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+
+  const organizationId = activeOrganization?.id || null;
+  const canManage = canManageMembers(activeRole);
+  const isOwner = activeRole === 'owner';
+
+  /**
+   * Load members, and invites for those who can see them
+   */
+  const loadTeam = useCallback(async () => {
+    if (!organizationId) return;
+
+    setLoadingMembers(true);
+    try {
+      const [memberList, inviteList] = await Promise.all([
+        getOrganizationMembers(organizationId),
+        canManage ? getOrganizationInvites(organizationId) : Promise.resolve([]),
+      ]);
+      setMembers(memberList);
+      setInvites(inviteList);
+    } catch (error) {
+      console.error('Error loading team:', error);
+      toast.error('Failed to load team members');
+    } finally {
+      setLoadingMembers(false);
+    }
+  }, [organizationId, canManage]);
+
+  useEffect(() => {
+    setInviteLink(null);
+    loadTeam();
+  }, [loadTeam]);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+
+    setCreating(true);
+    try {
+      const organization = await createOrganization(newName, newDescription);
+      switchWorkspace(organization.id);
+      setNewName('');
+      setNewDescription('');
+      toast.success(`${organization.name} created`);
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      toast.error((error as Error).message || 'Failed to create organization');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!organizationId || !inviteEmail.trim()) return;
+
+    setInviting(true);
+    setInviteLink(null);
+    try {
+      const result = await inviteMember(organizationId, inviteEmail, inviteRole);
+      if (result.emailSent) {
+        toast.success(`Invite sent to ${inviteEmail}`);
+      } else {
+        setInviteLink(result.inviteUrl);
+        toast.success('Invite created. Share the link below with them.');
+      }
+      setInviteEmail('');
+      loadTeam();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!inviteLink) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast.success('Invite link copied');
+    } catch {
+      toast.error('Could not copy the link. Select and copy it instead.');
+    }
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, role: OrganizationRole) => {
+    if (!organizationId) return;
+    try {
+      await updateMemberRole(organizationId, member.userId, role);
+      toast.success(`${member.fullName || member.email} is now ${ROLE_LABELS[role].toLowerCase()}`);
+      loadTeam();
+    } catch (error) {
+      console.error('Error changing role:', error);
+      toast.error((error as Error).message || 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    if (!organizationId) return;
+    try {
+      await removeMember(organizationId, member.userId);
+      toast.success(`${member.fullName || member.email} was removed`);
+      loadTeam();
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast.error((error as Error).message || 'Failed to remove member');
+    }
+  };
+
+  const handleRevoke = async (invite: OrganizationInvite) => {
+    try {
+      await revokeInvite(invite.id);
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+      toast.success(`Invite for ${invite.email} revoked`);
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      toast.error('Failed to revoke invite');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!organizationId) return;
+    try {
+      await leaveOrganization(organizationId);
+      toast.success(`You left ${activeOrganization?.name}`);
+    } catch (error) {
+      console.error('Error leaving organization:', error);
+      toast.error((error as Error).message || 'Failed to leave organization');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!organizationId) return;
+    try {
+      await deleteOrganization(organizationId);
+      toast.success(`${activeOrganization?.name} deleted`);
+    } catch (error) {
+      console.error('Error deleting organization:', error);
+      toast.error((error as Error).message || 'Failed to delete organization');
+    }
+  };
+
+  /**
+   * Roles the current user may give a member, mirroring the database rules
+   */
+  const getAssignableRoles = (member: OrganizationMember): OrganizationRole[] => {
+    if (!canManage || member.userId === user?.id) return [];
+    if (isOwner) return ['owner', 'admin', 'editor', 'viewer'];
+    return member.role === 'owner' || member.role === 'admin' ? [] : ['editor', 'viewer'];
+  };
+
+  if (workspaceLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-amber-500" />
+      </div>
+    );
+  }
+
+  const createCard = (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Plus className="h-5 w-5" />
+          Create an Organization
+        </CardTitle>
+        <CardDescription>Share a template library with your department, church or team</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="organization-name">Name</Label>
+            <Input
+              id="organization-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g. Computer Science Department"
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="organization-description">Description (optional)</Label>
+            <Textarea
+              id="organization-description"
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+          <Button type="submit" disabled={creating || !newName.trim()}>
+            {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Organization
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-8 p-8 md:p-12">
+      <motion.div initial={{ opacity: 0, y: 15 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-3xl font-bold text-gray-900">
+          <span className="bg-gradient-to-r from-amber-400 to-yellow-500 bg-clip-text text-transparent">
+            {activeOrganization ? activeOrganization.name : 'Team Workspaces'}
+          </span>
+        </h1>
+        <p className="text-gray-600 mt-1">
+          {activeOrganization
+            ? activeOrganization.description || 'Members share this organization\'s template library.'
+            : 'Organizations share one template library. Switch workspace from the sidebar.'}
+        </p>
+      </motion.div>
+
+      {!activeOrganization && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Your Organizations
+            </CardTitle>
+            <CardDescription>Open an organization to manage its members and templates</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {organizations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You aren't a member of any organization yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {organizations.map(({ organization, role }) => (
+                  <div key={organization.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div>
+                      <h4 className="font-medium">{organization.name}</h4>
+                      <Badge variant="secondary" className="text-xs">{ROLE_LABELS[role]}</Badge>
+                    </div>
+                    <Button variant="outline" onClick={() => switchWorkspace(organization.id)}>
+                      Open
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {activeOrganization && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Members
+              </CardTitle>
+              <CardDescription>Everyone with access to this organization's templates</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loadingMembers && members.length === 0 ? (
+                <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead className="text-right"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {members.map((member) => {
+                      const assignableRoles = getAssignableRoles(member);
+                      const isSelf = member.userId === user?.id;
+                      return (
+                        <TableRow key={member.userId}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {member.fullName || member.email || 'Unknown member'}
+                              {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                            </div>
+                            {member.fullName && (
+                              <div className="text-xs text-muted-foreground">{member.email}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {assignableRoles.length > 0 ? (
+                              <Select
+                                value={member.role}
+                                onValueChange={(value) => handleRoleChange(member, value as OrganizationRole)}
+                              >
+                                <SelectTrigger className="w-32">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {assignableRoles.map((role) => (
+                                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Badge variant="secondary" title={ROLE_DESCRIPTIONS[member.role]}>
+                                {ROLE_LABELS[member.role]}
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {assignableRoles.length > 0 && (
+                              <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                                <X className="h-4 w-4 mr-1" />
+                                Remove
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {canManage && <ReviewQueue organizationId={activeOrganization.id} />}
+
+          {canManage && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Mail className="h-5 w-5" />
+                  Invite Members
+                </CardTitle>
+                <CardDescription>Invite links work once, for the address they were sent to, for 7 days</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-3">
+                  <Input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="colleague@example.com"
+                    className="flex-1"
+                  />
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InviteRole)}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(isOwner ? ['admin', 'editor', 'viewer'] as const : ['editor', 'viewer'] as const).map((role) => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="submit" disabled={inviting || !inviteEmail.trim()}>
+                    {inviting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Send Invite
+                  </Button>
+                </form>
+                <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+
+                {inviteLink && (
+                  <div className="flex gap-2">
+                    <Input value={inviteLink} readOnly onFocus={(e) => e.target.select()} />
+                    <Button type="button" variant="outline" onClick={handleCopyLink}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      Copy
+                    </Button>
+                  </div>
+                )}
+
+                {invites.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Pending invite</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead className="text-right"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invites.map((invite) => (
+                        <TableRow key={invite.id}>
+                          <TableCell>{invite.email}</TableCell>
+                          <TableCell>{ROLE_LABELS[invite.role]}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {new Date(invite.expires_at) < new Date()
+                              ? 'Expired'
+                              : new Date(invite.expires_at).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => handleRevoke(invite)}>
+                              Revoke
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="border-red-100">
+            <CardHeader>
+              <CardTitle>Leave or Delete</CardTitle>
+              <CardDescription>
+                Templates you created stay with the organization when you leave
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-3">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline">
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Leave Organization
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Leave {activeOrganization.name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      You'll lose access to its templates until someone invites you again.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleLeave}>Leave</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+
+              {isOwner && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete Organization
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {activeOrganization.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This permanently deletes the organization and every template in its library.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {createCard}
+    </div>
+  );
+}
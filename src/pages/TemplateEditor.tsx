@@ -3,7 +3,7 @@
  * Canvas-based editor for creating and editing templates with Fabric.js
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { 
@@ -31,7 +31,10 @@ import {
   Grid3X3,
   Eye,
   EyeOff,
-  Sparkles
+  Sparkles,
+  History,
+  Link2,
+  X
 } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { Button } from '@/components/ui/button';
@@ -39,39 +42,108 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useAuth } from '@/hooks/useAuth';
+import { useWorkspace } from '@/hooks/useWorkspace';
 import { getTemplate, createTemplate, updateTemplate } from '@/lib/supabase';
+import { FrameSchemaError } from '@/lib/frameSchema';
+import { isPlanLimitError } from '@/lib/entitlements';
+import { requiresReview, submitTemplateForReview } from '@/lib/templateReviews';
+import { canEditTemplates } from '@/lib/organizations';
+import { getPrefillableFrames, suggestFieldKey } from '@/lib/prefill';
+import { getCustomFonts, getTemplateFonts, loadCatalogFont, loadFonts, parseTemplateFonts, type CustomFont } from '@/lib/fontUtils';
+import {
+  branchTemplateVersion,
+  diffFrames,
+  findMatchingPage,
+  getVersionLabel,
+  restoreTemplateVersion,
+  setPublishedVersion,
+  type TemplateVersion,
+  type TemplateVersionSummary
+} from '@/lib/templateVersions';
+import { DEFAULT_CANVAS_SIZE, getTemplateCanvasSize, rescaleFrames, type CanvasSize } from '@/lib/canvasSize';
+import {
+  createBlankPage,
+  duplicatePage,
+  getAllPageFrames,
+  serializePages,
+  MAX_TEMPLATE_PAGES,
+  type TemplatePage
+} from '@/lib/templatePages';
 import { supabase } from '@/integrations/supabase/client';
 import { Template, TemplateWithFrames } from '@/integrations/supabase/types';
-import EnhancedCanvasEditor, { FrameData } from '@/components/editor/EnhancedCanvasEditor';
+import EnhancedCanvasEditor, { FrameData, type CanvasCollaborator } from '@/components/editor/EnhancedCanvasEditor';
 import TemplateMetadataPanel from '@/components/editor/TemplateMetadataPanel';
 import LayersPanel from '@/components/editor/LayersPanel';
+import PageStrip from '@/components/editor/PageStrip';
 import EnhancedPropertiesPanel from '@/components/editor/EnhancedPropertiesPanel';
 import { toast } from 'sonner';
 import QRCodeGenerator from '@/components/shared/QRCodeGenerator';
 import { useUsageTracking } from '@/hooks/useUsageTracking';
-import { useCanvasHistory } from '@/hooks/useCanvasHistory';
+import { useCollaborativeEditor } from '@/hooks/useCollaborativeEditor';
 import PreviewModal from '@/components/editor/PreviewModal';
 import { NameTemplateModal } from '@/components/editor/NameTemplateModal';
+import VersionHistoryPanel from '@/components/editor/VersionHistoryPanel';
+import CollaboratorsIndicator from '@/components/editor/CollaboratorsIndicator';
+import PrefillLinksPanel from '@/components/editor/PrefillLinksPanel';
 
 
 interface EditorStateSnapshot {
-  frames: FrameData[];
+  pages: TemplatePage[];
   metadata: {
     name: string;
     description: string;
     type: string;
     tags: string[];
-    backgroundUrl: string;
+    canvasWidth: number;
+    canvasHeight: number;
+    printDpi: number | null;
+  };
+}
+
+/**
+ * Build the editor state for a loaded template. Frames arrive migrated to the current
+ * schema; this fills in editor defaults.
+ */
+function toEditorSnapshot(templateData: TemplateWithFrames): EditorStateSnapshot {
+  const templateCanvasSize = getTemplateCanvasSize(templateData);
+
+  const withEditorDefaults = (frame: FrameData): FrameData => ({
+    ...frame,
+    properties: {
+      fontSize: 16,
+      fontFamily: 'Arial',
+      color: '#000000',
+      textAlign: 'center',
+      placeholder: frame.type === 'text' ? 'Enter text here' : 'Image placeholder',
+      ...frame.properties,
+    },
+  });
+
+  return {
+    pages: templateData.pages.map(page => ({
+      ...page,
+      frames: page.frames.map(withEditorDefaults)
+    })),
+    metadata: {
+      name: templateData.name,
+      type: templateData.template_type || 'flyer',
+      description: templateData.description || '',
+      tags: templateData.tags && Array.isArray(templateData.tags) ? templateData.tags : [],
+      canvasWidth: templateCanvasSize.width,
+      canvasHeight: templateCanvasSize.height,
+      printDpi: templateData.print_dpi ?? null
+    }
   };
 }
 
 export default function TemplateEditor() {
   const { templateId } = useParams<{ templateId: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
+  const { organizations, activeOrganizationId, loading: workspaceLoading } = useWorkspace();
   const { trackTemplateCreation } = useUsageTracking();
 
-  // Unified Template State with History
+  // Unified Template State, shared live with collaborators, with per-user history
   const { 
     state: editorState, 
     setState: setEditorState, 
@@ -79,20 +151,38 @@ export default function TemplateEditor() {
     redo, 
     canUndo, 
     canRedo,
-    resetHistory 
-  } = useCanvasHistory<EditorStateSnapshot>({
-    frames: [],
+    resetHistory,
+    collaborators,
+    cursors,
+    connected,
+    updatePresence,
+    moveCursor
+  } = useCollaborativeEditor<EditorStateSnapshot>({
+    pages: [createBlankPage()],
     metadata: {
       name: '',
       description: '',
       type: 'flyer',
       tags: [],
-      backgroundUrl: ''
+      canvasWidth: DEFAULT_CANVAS_SIZE.width,
+      canvasHeight: DEFAULT_CANVAS_SIZE.height,
+      printDpi: null
     }
+  }, {
+    templateId: templateId && templateId !== 'new' ? templateId : null,
+    user: user ? { id: user.id, name: profile?.full_name || user.email?.split('@')[0] || 'Someone' } : null
   });
 
-  const frames = editorState.frames;
+  const [activePageId, setActivePageId] = useState<string | null>(null);
+
+  const pages = editorState.pages;
+  // Fall back to the first page when the active one was removed (e.g. by undo)
+  const activePageIndex = Math.max(0, pages.findIndex(p => p.id === activePageId));
+  const activePage = pages[activePageIndex];
+  const frames = activePage.frames;
+  const backgroundUrl = activePage.backgroundUrl;
   const metrics = editorState.metadata;
+  const canvasSize = { width: metrics.canvasWidth, height: metrics.canvasHeight };
   
   // Helper to update specific parts of the state
   const updateState = (
@@ -102,13 +192,27 @@ export default function TemplateEditor() {
     setEditorState(updater, saveToHistory);
   };
 
+  const updateActivePage = (updater: (page: TemplatePage) => TemplatePage, saveToHistory: boolean = true) => {
+    updateState(prev => {
+      const index = Math.max(0, prev.pages.findIndex(p => p.id === activePageId));
+      return {
+        ...prev,
+        pages: prev.pages.map((page, i) => i === index ? updater(page) : page)
+      };
+    }, saveToHistory);
+  };
+
   const setFrames = (updater: FrameData[] | ((prev: FrameData[]) => FrameData[]), saveToHistory: boolean = true) => {
-    updateState(prev => ({
-      ...prev,
-      frames: typeof updater === 'function' ? updater(prev.frames) : updater
+    updateActivePage(page => ({
+      ...page,
+      frames: typeof updater === 'function' ? updater(page.frames) : updater
     }), saveToHistory);
   };
 
+  const setBackgroundUrl = (url: string) => {
+    updateActivePage(page => ({ ...page, backgroundUrl: url }));
+  };
+
   const setMetadata = (updates: Partial<EditorStateSnapshot['metadata']>, saveToHistory: boolean = true) => {
     updateState(prev => ({
       ...prev,
@@ -123,10 +227,28 @@ export default function TemplateEditor() {
   // Get selected frame object
   const selectedFrame = frames.find(f => f.id === selectedFrameId) || null;
 
+  // Let collaborators see which page and frame this user is working on
+  useEffect(() => {
+    updatePresence(activePage.id, selectedFrameId);
+  }, [activePage.id, selectedFrameId, updatePresence]);
+
+  const pageCollaborators = useMemo<CanvasCollaborator[]>(() => collaborators
+    .filter(collaborator => collaborator.pageId === activePage.id)
+    .map(collaborator => {
+      const cursor = cursors.find(c => c.sessionId === collaborator.sessionId && c.pageId === activePage.id);
+      return {
+        sessionId: collaborator.sessionId,
+        name: collaborator.name,
+        color: collaborator.color,
+        selectedFrameId: collaborator.selectedFrameId,
+        cursor: cursor ? { x: cursor.x, y: cursor.y } : null,
+      };
+    }), [collaborators, cursors, activePage.id]);
+
   // UI state
   const [saving, setSaving] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
-  const [activePanel, setActivePanel] = useState<'metadata' | 'frames' | 'properties' | 'uploads' | 'elements' | 'text'>('metadata');
+  const [activePanel, setActivePanel] = useState<'metadata' | 'frames' | 'properties' | 'uploads' | 'elements' | 'text' | 'history' | 'links'>('metadata');
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [zoom, setZoom] = useState(1);
   const [saveInProgress, setSaveInProgress] = useState(false);
@@ -138,6 +260,17 @@ export default function TemplateEditor() {
   const [showGrid, setShowGrid] = useState(false);
   const [showGuides, setShowGuides] = useState(true);
 
+  // Version comparison shown on the canvas instead of the working copy
+  const [versionComparison, setVersionComparison] = useState<{ base: TemplateVersion; compare: TemplateVersion } | null>(null);
+  const comparisonView = useMemo(() => {
+    if (!versionComparison) return null;
+    const { base, compare } = versionComparison;
+    const index = Math.min(activePageIndex, compare.pages.length - 1);
+    const page = compare.pages[index];
+    const basePage = findMatchingPage(base.pages, page, index);
+    return { page, diff: diffFrames(basePage?.frames || [], page.frames) };
+  }, [versionComparison, activePageIndex]);
+
   // Frame management functions
   const handleAddFrame = (frame: FrameData) => {
     setFrames(prev => [...prev, frame]);
@@ -169,6 +302,86 @@ export default function TemplateEditor() {
     ));
   };
 
+  // Field keys can belong to frames on any page, not just the active one
+  const handleFieldKeyChange = (frameId: string, key: string | undefined) => {
+    updateState(prev => ({
+      ...prev,
+      pages: prev.pages.map(page => ({
+        ...page,
+        frames: page.frames.map(f => f.id === frameId ? { ...f, key } : f)
+      }))
+    }), false);
+  };
+
+  const handleAssignMissingKeys = () => {
+    updateState(prev => {
+      const taken = new Set(getPrefillableFrames(prev.pages).map(f => f.key).filter(Boolean) as string[]);
+      return {
+        ...prev,
+        pages: prev.pages.map(page => ({
+          ...page,
+          frames: page.frames.map(f => {
+            if (f.type !== 'text' || f.key) return f;
+            const key = suggestFieldKey(f, taken);
+            taken.add(key);
+            return { ...f, key };
+          })
+        }))
+      };
+    });
+  };
+
+  // Resize the stage and rescale frames in a single history step so undo restores both
+  const handleCanvasSizeChange = (size: CanvasSize) => {
+    updateState(prev => {
+      const from = { width: prev.metadata.canvasWidth, height: prev.metadata.canvasHeight };
+      return {
+        pages: prev.pages.map(page => ({ ...page, frames: rescaleFrames(page.frames, from, size) })),
+        metadata: { ...prev.metadata, canvasWidth: size.width, canvasHeight: size.height }
+      };
+    });
+    toast.success(`Canvas resized to ${size.width} × ${size.height} px`);
+  };
+
+  // Page management functions
+  const selectPage = (pageId: string) => {
+    setActivePageId(pageId);
+    setSelectedFrameId(null);
+  };
+
+  const insertPage = (page: TemplatePage) => {
+    if (pages.length >= MAX_TEMPLATE_PAGES) {
+      toast.error(`Templates can have at most ${MAX_TEMPLATE_PAGES} pages`);
+      return;
+    }
+    updateState(prev => {
+      const next = [...prev.pages];
+      next.splice(activePageIndex + 1, 0, page);
+      return { ...prev, pages: next };
+    });
+    selectPage(page.id);
+  };
+
+  const handleAddPage = () => {
+    // New pages start on the current page's background so booklets stay consistent
+    insertPage(createBlankPage(backgroundUrl));
+  };
+
+  const handleDuplicatePage = (pageId: string) => {
+    const page = pages.find(p => p.id === pageId);
+    if (page) insertPage(duplicatePage(page));
+  };
+
+  const handleDeletePage = (pageId: string) => {
+    if (pages.length <= 1) return;
+    const index = pages.findIndex(p => p.id === pageId);
+    updateState(prev => ({ ...prev, pages: prev.pages.filter(p => p.id !== pageId) }));
+    if (pageId === activePage.id) {
+      const remaining = pages.filter(p => p.id !== pageId);
+      selectPage(remaining[Math.min(index, remaining.length - 1)].id);
+    }
+  };
+
   // Keyboard shortcuts for Undo/Redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -192,7 +405,8 @@ export default function TemplateEditor() {
   }, [undo, redo]);
 
   const isNewTemplate = templateId === 'new';
-  const canEditTemplate = !template || template.user_id === user?.id;
+  const templateRole = organizations.find(m => m.organization.id === template?.organization_id)?.role;
+  const canEditTemplate = !template || template.user_id === user?.id || canEditTemplates(templateRole);
 
   // Load existing template
   useEffect(() => {
@@ -201,13 +415,40 @@ export default function TemplateEditor() {
     }
   }, [templateId, isNewTemplate]);
 
+  // Uploaded fonts of the template's workspace, for the font picker
+  const [workspaceFonts, setWorkspaceFonts] = useState<CustomFont[]>([]);
+  const fontWorkspaceId = template ? template.organization_id : activeOrganizationId;
+  const templateLoaded = !!template;
+
+  useEffect(() => {
+    if (workspaceLoading || (!isNewTemplate && !templateLoaded)) return;
+    getCustomFonts(fontWorkspaceId)
+      .then(async fonts => {
+        await loadFonts(fonts);
+        setWorkspaceFonts(fonts);
+      })
+      .catch(error => console.warn('Failed to load workspace fonts:', error));
+  }, [fontWorkspaceId, workspaceLoading, isNewTemplate, templateLoaded]);
+
+  // Fonts the template already records, including any no longer in the workspace
+  useEffect(() => {
+    if (template?.fonts) loadFonts(parseTemplateFonts(template.fonts));
+  }, [template?.fonts]);
+
+  // Bundled fonts the text uses; each file is only fetched once, so this is cheap on every edit
+  useEffect(() => {
+    getAllPageFrames(pages).forEach(frame => {
+      if (frame.type === 'text' && frame.properties?.fontFamily) loadCatalogFont(frame.properties.fontFamily);
+    });
+  }, [pages]);
+
   // Check template ownership when template loads
   useEffect(() => {
-    if (template && user && template.user_id !== user.id) {
+    if (template && user && !workspaceLoading && !canEditTemplate) {
       console.warn('⚠️ Template ownership mismatch detected');
       toast.error('This template belongs to a different account. You can view it but cannot edit it.');
     }
-  }, [template, user]);
+  }, [template, user, workspaceLoading, canEditTemplate]);
 
   const loadTemplate = async () => {
     if (!templateId) return;
@@ -216,46 +457,22 @@ export default function TemplateEditor() {
       const templateData = await getTemplate(templateId);
       if (templateData) {
         setTemplate(templateData);
-        
-        let templateFrames: FrameData[] = [];
-        // Parse frames from JSON and ensure they have the new structure
-        if (templateData.frames && Array.isArray(templateData.frames)) {
-          templateFrames = templateData.frames.map((frame: any) => ({
-            ...frame,
-            rotation: frame.rotation || 0,
-            shape: frame.shape || 'rectangle',
-            properties: {
-              fontSize: 16,
-              fontFamily: 'Arial',
-              color: '#000000',
-              textAlign: 'center',
-              placeholder: frame.type === 'text' ? 'Enter text here' : 'Image placeholder',
-              ...frame.properties,
-            },
-          })) as FrameData[];
-        }
-
-        resetHistory({
-          frames: templateFrames,
-          metadata: {
-            name: templateData.name,
-            type: templateData.template_type || 'flyer',
-            description: templateData.description || '',
-            tags: templateData.tags && Array.isArray(templateData.tags) ? templateData.tags : [],
-            backgroundUrl: templateData.background_url || ''
-          }
-        });
+        const snapshot = toEditorSnapshot(templateData);
+        setActivePageId(snapshot.pages[0].id);
+        resetHistory(snapshot);
       }
     } catch (error) {
       console.error('Error loading template:', error);
-      toast.error('Failed to load template');
+      toast.error(error instanceof FrameSchemaError ? error.message : 'Failed to load template');
       navigate('/dashboard');
     }
   };
 
   const handleSave = async (overrides?: Partial<EditorStateSnapshot['metadata']>) => {
     const metadata = { ...editorState.metadata, ...overrides };
-    const { name, description, backgroundUrl, type, tags } = metadata;
+    const { name, description, type, tags, canvasWidth, canvasHeight, printDpi } = metadata;
+    // The first page is mirrored into the single-page columns
+    const firstPage = pages[0];
     
     console.log('🚀 handleSave called');
     console.log('📊 Current state:', { 
@@ -263,7 +480,8 @@ export default function TemplateEditor() {
       templateName: name, 
       isNewTemplate, 
       templateId: template?.id,
-      framesCount: frames.length 
+      framesCount: frames.length,
+      pagesCount: pages.length
     });
 
     if (!user) {
@@ -280,7 +498,7 @@ export default function TemplateEditor() {
       }
     }
 
-    if (!backgroundUrl) {
+    if (!firstPage.backgroundUrl) {
       console.warn('⚠️ No background image uploaded, proceeding anyway');
       // We don't block save anymore, but we log it
     }
@@ -319,8 +537,14 @@ export default function TemplateEditor() {
         user_id: user.id,
         name: name.trim(),
         description: description.trim() || null,
-        background_url: backgroundUrl || null,
-        frames: frames as any, 
+        background_url: firstPage.backgroundUrl || null,
+        frames: firstPage.frames as any, 
+        pages: serializePages(pages),
+        canvas_width: canvasWidth,
+        canvas_height: canvasHeight,
+        print_dpi: printDpi,
+        // Record the uploaded fonts the text uses so the public generator can load them
+        fonts: getTemplateFonts(getAllPageFrames(pages), workspaceFonts, parseTemplateFonts(template?.fonts)),
       };
 
       console.log('📝 Final template payload:', JSON.stringify(templatePayload, null, 2));
@@ -351,6 +575,10 @@ export default function TemplateEditor() {
             savedTemplate = await updateTemplate(template.id, templatePayload);
             console.log('✅ Template updated:', savedTemplate);
             toast.success('Template saved successfully!');
+            // Design changes take an approved or submitted template back to draft
+            if (['in_review', 'approved'].includes(template.review_status) && savedTemplate.review_status === 'draft') {
+              toast.info('Your changes need to be submitted for review again before the public link works');
+            }
             break;
           } catch (error) {
             retryCount++;
@@ -379,6 +607,13 @@ export default function TemplateEditor() {
       console.log('🎉 Save process completed successfully');
       return savedTemplate; // Return the saved template for chaining actions (like share)
     } catch (error: any) {
+      if (isPlanLimitError(error)) {
+        toast.error(error.message, {
+          action: { label: 'Upgrade', onClick: () => navigate('/dashboard/subscription') },
+        });
+        return null;
+      }
+
       // Supabase errors are often objects with message/code, not always Error instances
       const errorMsg = error?.message || error?.error_description || (typeof error === 'string' ? error : 'Unknown error');
       const errorCode = error?.code || 'No code';
@@ -422,6 +657,27 @@ export default function TemplateEditor() {
 
     if (!currentTemplate) return;
 
+    // Organization templates only go live once an owner or admin approves them
+    if (requiresReview(currentTemplate) && currentTemplate.review_status !== 'approved') {
+      if (currentTemplate.review_status === 'in_review') {
+        toast.info('This template is waiting for review. Its link goes live once it is approved.');
+        return;
+      }
+
+      try {
+        setSaving(true);
+        await submitTemplateForReview(currentTemplate.id);
+        setTemplate({ ...currentTemplate, is_public: true, review_status: 'in_review' });
+        toast.success('Submitted for review. You will be notified when it is approved.');
+      } catch (error) {
+        console.error('Error submitting template for review:', error);
+        toast.error((error as Error).message || 'Failed to submit template for review');
+      } finally {
+        setSaving(false);
+      }
+      return;
+    }
+
     if (!currentTemplate.is_public) {
       try {
         setSaving(true);
@@ -469,6 +725,56 @@ export default function TemplateEditor() {
     }
   };
 
+  const handleRestoreVersion = async (version: TemplateVersionSummary) => {
+    if (!template?.id) return;
+    try {
+      await restoreTemplateVersion(template.id, version.id);
+      setVersionComparison(null);
+      // Apply the restored content as an edit so collaborators receive it too
+      const restored = await getTemplate(template.id);
+      if (restored) {
+        setTemplate(restored);
+        setEditorState(toEditorSnapshot(restored));
+      }
+      toast.success(`Restored ${getVersionLabel(version)}`);
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      toast.error((error as Error).message || 'Failed to restore version');
+    }
+  };
+
+  const handleBranchVersion = async (version: TemplateVersionSummary) => {
+    try {
+      const branched = await branchTemplateVersion(version.id);
+      setVersionComparison(null);
+      toast.success(`Created "${branched.name}"`);
+      navigate(`/dashboard/editor/${branched.id}`);
+    } catch (error) {
+      if (isPlanLimitError(error)) {
+        toast.error(error.message, {
+          action: { label: 'Upgrade', onClick: () => navigate('/dashboard/subscription') },
+        });
+        return;
+      }
+      console.error('Error branching version:', error);
+      toast.error((error as Error).message || 'Failed to create a template from this version');
+    }
+  };
+
+  const handlePublishedVersionChange = async (versionId: string | null) => {
+    if (!template?.id) return;
+    try {
+      const updated = await setPublishedVersion(template.id, versionId);
+      setTemplate({ ...template, published_version_id: updated.published_version_id, updated_at: updated.updated_at });
+      toast.success(versionId
+        ? 'Share link pinned. Later saves won\'t change what people see.'
+        : 'Share link now follows the latest save');
+    } catch (error) {
+      console.error('Error pinning version:', error);
+      toast.error((error as Error).message || 'Failed to update the share link');
+    }
+  };
+
 
 
   return (
@@ -566,6 +872,13 @@ export default function TemplateEditor() {
         </div>
 
         <div className="flex items-center gap-4">
+          {template?.id && (
+            <>
+              <CollaboratorsIndicator collaborators={collaborators} connected={connected} />
+              <div className="h-6 w-[1px] bg-white/10" />
+            </>
+          )}
+
           <div className="flex items-center bg-white/5 rounded-full p-0.5 border border-white/10">
             <Button
               variant="ghost"
@@ -617,7 +930,11 @@ export default function TemplateEditor() {
               disabled={saving || !canEditTemplate}
             >
               <Sparkles className="mr-2 h-4 w-4" />
-              {saving ? 'Publishing...' : 'Share'}
+              {saving
+                ? 'Publishing...'
+                : template && requiresReview(template) && template.review_status !== 'approved'
+                  ? (template.review_status === 'in_review' ? 'In Review' : 'Submit for Review')
+                  : 'Share'}
             </Button>
           </div>
         </div>
@@ -633,7 +950,9 @@ export default function TemplateEditor() {
             { id: 'text', icon: Type, label: 'Text' },
             { id: 'uploads', icon: Upload, label: 'Uploads' },
             { id: 'frames', icon: Layers, label: 'Layers' },
-            { id: 'properties', icon: Palette, label: 'Styles', disabled: !selectedFrameId }
+            { id: 'properties', icon: Palette, label: 'Styles', disabled: !selectedFrameId },
+            { id: 'history', icon: History, label: 'History', disabled: !template?.id },
+            { id: 'links', icon: Link2, label: 'Links', disabled: !template?.id }
           ].map((item) => (
             <button
               key={item.id}
@@ -672,7 +991,8 @@ export default function TemplateEditor() {
                 <h2 className="text-xl font-bold text-[#0E1318] capitalize">
                   {activePanel === 'metadata' ? 'Design' : 
                    activePanel === 'frames' ? 'Layers' : 
-                   activePanel === 'properties' ? 'Layer Styles' : activePanel}
+                   activePanel === 'properties' ? 'Layer Styles' :
+                   activePanel === 'links' ? 'Prefilled Links' : activePanel}
                 </h2>
                 <Button 
                   variant="ghost" 
@@ -691,12 +1011,17 @@ export default function TemplateEditor() {
                     type={editorState.metadata.type}
                     description={editorState.metadata.description}
                     tags={editorState.metadata.tags}
-                    backgroundUrl={editorState.metadata.backgroundUrl}
+                    backgroundUrl={backgroundUrl}
                     onNameChange={(name) => setMetadata({ name }, false)}
                     onTypeChange={(type) => setMetadata({ type })}
                     onDescriptionChange={(description) => setMetadata({ description }, false)}
                     onTagsChange={(tags) => setMetadata({ tags })}
-                    onBackgroundChange={(backgroundUrl) => setMetadata({ backgroundUrl })}
+                    onBackgroundChange={setBackgroundUrl}
+                    canvasWidth={canvasSize.width}
+                    canvasHeight={canvasSize.height}
+                    onCanvasSizeChange={canEditTemplate ? handleCanvasSizeChange : undefined}
+                    printDpi={metrics.printDpi}
+                    onPrintDpiChange={canEditTemplate ? (printDpi) => setMetadata({ printDpi }) : undefined}
                   />
                 )}
 
@@ -710,9 +1035,9 @@ export default function TemplateEditor() {
                       const frameWidth = type === 'image' ? 200 : 300;
                       const frameHeight = type === 'image' ? 200 : 80;
                       
-                      // Calculate center position (1200x800 canvas)
-                      const centerX = 1200 / 2 - frameWidth / 2;
-                      const centerY = 800 / 2 - frameHeight / 2;
+                      // Calculate center position on the template canvas
+                      const centerX = canvasSize.width / 2 - frameWidth / 2;
+                      const centerY = canvasSize.height / 2 - frameHeight / 2;
                       const stagger = (frames.length % 10) * 20;
 
                       const newFrame: FrameData = {
@@ -728,7 +1053,7 @@ export default function TemplateEditor() {
                         locked: false,
                         properties: type === 'text' ? {
                           fontSize: 24,
-                          fontFamily: 'Arial',
+                          fontFamily: 'Inter', // Bundled, so it renders the same everywhere
                           color: '#000000',
                           textAlign: 'center',
                           placeholder: 'Enter your text here',
@@ -748,6 +1073,9 @@ export default function TemplateEditor() {
                       const frame = frames.find(f => f.id === frameId);
                       if (frame) handleDuplicateFrame(frame);
                     } : undefined}
+                    canvasWidth={canvasSize.width}
+                    canvasHeight={canvasSize.height}
+                    customFonts={workspaceFonts}
                   />
                 )}
 
@@ -764,8 +1092,8 @@ export default function TemplateEditor() {
                         const newFrame: FrameData = {
                           id: `text_${Date.now()}`,
                           type: 'text',
-                          x: 1200 / 2 - 400 / 2 + (frames.length % 10) * 20,
-                          y: 800 / 2 - 100 / 2 + (frames.length % 10) * 20,
+                          x: canvasSize.width / 2 - 400 / 2 + (frames.length % 10) * 20,
+                          y: canvasSize.height / 2 - 100 / 2 + (frames.length % 10) * 20,
                           width: 400,
                           height: 100,
                           rotation: 0,
@@ -794,8 +1122,8 @@ export default function TemplateEditor() {
                         const newFrame: FrameData = {
                           id: `text_${Date.now()}`,
                           type: 'text',
-                          x: 1200 / 2 - 300 / 2 + (frames.length % 10) * 20,
-                          y: 800 / 2 - 60 + (frames.length % 10) * 20,
+                          x: canvasSize.width / 2 - 300 / 2 + (frames.length % 10) * 20,
+                          y: canvasSize.height / 2 - 60 + (frames.length % 10) * 20,
                           width: 300,
                           height: 60,
                           rotation: 0,
@@ -818,6 +1146,31 @@ export default function TemplateEditor() {
                   </div>
                 )}
                 
+                {activePanel === 'history' && template?.id && (
+                  <VersionHistoryPanel
+                    templateId={template.id}
+                    publishedVersionId={template.published_version_id}
+                    canEdit={canEditTemplate}
+                    refreshKey={template.updated_at}
+                    isComparing={!!versionComparison}
+                    onCompare={(base, compare) => setVersionComparison({ base, compare })}
+                    onExitCompare={() => setVersionComparison(null)}
+                    onRestore={handleRestoreVersion}
+                    onBranch={handleBranchVersion}
+                    onPublishedVersionChange={handlePublishedVersionChange}
+                  />
+                )}
+
+                {activePanel === 'links' && template?.id && (
+                  <PrefillLinksPanel
+                    templateId={template.id}
+                    pages={pages}
+                    canEdit={canEditTemplate}
+                    onFieldKeyChange={handleFieldKeyChange}
+                    onAssignMissingKeys={handleAssignMissingKeys}
+                  />
+                )}
+
                 {activePanel === 'uploads' && (
                   <div className="py-20 text-center flex flex-col items-center gap-4">
                     <div className="h-16 w-16 bg-slate-100 rounded-full flex items-center justify-center text-slate-400">
@@ -839,17 +1192,36 @@ export default function TemplateEditor() {
         {/* CANVAS AREA */}
         <main className="flex-1 flex flex-col min-w-0 bg-[#F0F2F5] relative">
           <div className="flex-1 flex items-center justify-center relative min-h-0 overflow-hidden">
+            {comparisonView && (
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 rounded-full bg-white px-5 py-2 shadow-xl border border-slate-200 text-xs font-medium text-slate-700">
+                <span className="font-bold text-slate-900">
+                  {getVersionLabel(versionComparison.base.row)} → {getVersionLabel(versionComparison.compare.row)}
+                </span>
+                <span className="flex items-center gap-1.5"><span className="h-2.5 w-2.5 rounded-sm bg-emerald-500" />{comparisonView.diff.added.length} added</span>
+                <span className="flex items-center gap-1.5"><span className="h-2.5 w-2.5 rounded-sm bg-red-500" />{comparisonView.diff.removed.length} removed</span>
+                <span className="flex items-center gap-1.5"><span className="h-2.5 w-2.5 rounded-sm bg-blue-500" />{comparisonView.diff.moved.length} moved</span>
+                <button onClick={() => setVersionComparison(null)} className="text-slate-400 hover:text-black" title="Exit comparison">
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+
             {/* CANVAS WRAPPER with Elite Padding for spacious feel */}
             <div className="h-full w-full flex items-center justify-center animate-in fade-in zoom-in-95 duration-500">
               <EnhancedCanvasEditor
-                backgroundUrl={editorState.metadata.backgroundUrl}
-                frames={frames}
-                selectedFrameId={selectedFrameId}
-                onFramesChange={canEditTemplate ? (newFrames) => setFrames(newFrames, false) : undefined}
-                onFramesChangeEnd={canEditTemplate ? (newFrames) => setFrames(newFrames, true) : undefined}
+                backgroundUrl={comparisonView ? comparisonView.page.backgroundUrl : backgroundUrl}
+                frames={comparisonView ? comparisonView.page.frames : frames}
+                canvasWidth={comparisonView ? versionComparison.compare.row.canvas_width : canvasSize.width}
+                canvasHeight={comparisonView ? versionComparison.compare.row.canvas_height : canvasSize.height}
+                selectedFrameId={comparisonView ? null : selectedFrameId}
+                onFramesChange={canEditTemplate && !comparisonView ? (newFrames) => setFrames(newFrames, false) : undefined}
+                onFramesChangeEnd={canEditTemplate && !comparisonView ? (newFrames) => setFrames(newFrames, true) : undefined}
                 onFrameSelect={setSelectedFrameId}
                 onCanvasReady={setCanvasReady}
-                readOnly={!canEditTemplate}
+                readOnly={!canEditTemplate || !!comparisonView}
+                frameDiff={comparisonView?.diff}
+                collaborators={comparisonView ? undefined : pageCollaborators}
+                onCursorMove={(point) => moveCursor(activePage.id, point)}
                 externalZoom={zoom}
                 onZoomChange={setZoom}
                 interactionMode={interactionMode}
@@ -862,6 +1234,20 @@ export default function TemplateEditor() {
             </div>
           </div>
 
+          {/* PAGE STRIP */}
+          <PageStrip
+            pages={pages}
+            activePageId={activePage.id}
+            canvasWidth={canvasSize.width}
+            canvasHeight={canvasSize.height}
+            readOnly={!canEditTemplate}
+            onPageSelect={selectPage}
+            onPagesReorder={(newPages) => updateState(prev => ({ ...prev, pages: newPages }))}
+            onAddPage={handleAddPage}
+            onDuplicatePage={handleDuplicatePage}
+            onDeletePage={handleDeletePage}
+          />
+
           {/* ELITE FOOTER / STATUS BAR */}
           <footer className="h-12 bg-white border-t border-[#D2D5D9] flex items-center justify-between px-6 z-50">
             <div className="flex items-center gap-6">
@@ -870,8 +1256,8 @@ export default function TemplateEditor() {
               </button>
               <div className="h-4 w-[1px] bg-slate-200" />
               <div className="flex items-center gap-3 text-[11px] font-bold text-slate-500 uppercase tracking-widest">
-                <span className="bg-slate-100 px-2 py-0.5 rounded text-black">1</span>
-                <span>Page 1 of 1</span>
+                <span className="bg-slate-100 px-2 py-0.5 rounded text-black">{activePageIndex + 1}</span>
+                <span>Page {activePageIndex + 1} of {pages.length}</span>
               </div>
             </div>
 
@@ -921,8 +1307,10 @@ export default function TemplateEditor() {
       <PreviewModal
         isOpen={showPreview}
         onClose={() => setShowPreview(false)}
-        backgroundUrl={editorState.metadata.backgroundUrl}
+        backgroundUrl={backgroundUrl}
         frames={frames}
+        width={canvasSize.width}
+        height={canvasSize.height}
         templateName={editorState.metadata.name}
       />
 
@@ -0,0 +1,537 @@
+/**
+ * Webhooks Page
+ * Register endpoints for generation, publishing, download limit and plan events, and
+ * follow their deliveries
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { ChevronDown, ChevronUp, Copy, Eye, KeyRound, Loader2, Plus, RefreshCw, Trash2, Webhook } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { canManageMembers } from '@/lib/organizations';
+import { getUserTemplates } from '@/lib/supabase';
+import {
+  WEBHOOK_EVENTS,
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  getWebhookSecret,
+  listWebhookDeliveries,
+  listWebhookEndpoints,
+  redeliverWebhook,
+  updateWebhookEndpoint,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEvent,
+} from '@/lib/webhooks';
+import { toast } from 'sonner';
+
+const ALL_TEMPLATES = 'all';
+
+const DELIVERY_STATUS_VARIANTS: Record<WebhookDelivery['status'], 'default' | 'secondary' | 'destructive'> = {
+  succeeded: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+const copyText = async (text: string, label: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success(`${label} copied`);
+  } catch {
+    toast.error('Could not copy. Select and copy it instead.');
+  }
+};
+
+const SIGNATURE_EXAMPLE = `// Node.js: check X-DynamicFlyer-Signature before trusting a delivery
+const [t, v1] = signature.split(',').map(part => part.split('=')[1]);
+const expected = crypto.createHmac('sha256', secret).update(\`\${t}.\${rawBody}\`).digest('hex');
+const valid = crypto.timingSafeEqual(Buffer.from(v1), Buffer.from(expected));`;
+
+interface EndpointCardProps {
+  endpoint: WebhookEndpoint;
+  templateName?: string;
+  onChange: (endpoint: WebhookEndpoint) => void;
+  onDelete: (endpoint: WebhookEndpoint) => void;
+}
+
+function EndpointCard({ endpoint, templateName, onChange, onDelete }: EndpointCardProps) {
+  const [showDeliveries, setShowDeliveries] = useState(false);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<WebhookDelivery | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    setLoadingDeliveries(true);
+    try {
+      setDeliveries(await listWebhookDeliveries(endpoint.id));
+    } catch (error) {
+      console.error('Error loading deliveries:', error);
+      toast.error('Failed to load deliveries');
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  }, [endpoint.id]);
+
+  useEffect(() => {
+    if (showDeliveries) loadDeliveries();
+  }, [showDeliveries, loadDeliveries]);
+
+  const handleToggleActive = async (active: boolean) => {
+    try {
+      onChange(await updateWebhookEndpoint(endpoint.id, { active }));
+      toast.success(active ? 'Endpoint resumed' : 'Endpoint paused');
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleRevealSecret = async () => {
+    try {
+      setSecret(await getWebhookSecret(endpoint.id));
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    try {
+      const redelivery = await redeliverWebhook(delivery.id);
+      setDeliveries(prev => [redelivery, ...prev]);
+      if (redelivery.status === 'succeeded') {
+        toast.success('Redelivered');
+      } else {
+        toast.error(redelivery.error || 'The endpoint didn\'t accept the delivery. It will be retried.');
+      }
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle className="font-mono text-sm break-all">{endpoint.url}</CardTitle>
+            <CardDescription>
+              {endpoint.description ? `${endpoint.description} · ` : ''}
+              {templateName ? `Only ${templateName}` : 'Every template'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Label htmlFor={`active-${endpoint.id}`} className="text-sm text-muted-foreground">
+              {endpoint.active ? 'Active' : 'Paused'}
+            </Label>
+            <Switch id={`active-${endpoint.id}`} checked={endpoint.active} onCheckedChange={handleToggleActive} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-1">
+          {endpoint.events.map((event) => (
+            <Badge key={event} variant="secondary" className="text-xs">{event}</Badge>
+          ))}
+        </div>
+
+        {secret && (
+          <div className="flex gap-2">
+            <Input value={secret} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" onClick={() => copyText(secret, 'Signing secret')}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => setShowDeliveries(prev => !prev)}>
+            {showDeliveries ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+            Deliveries
+          </Button>
+          {!secret && (
+            <Button variant="outline" size="sm" onClick={handleRevealSecret}>
+              <KeyRound className="h-4 w-4 mr-1" />
+              Signing secret
+            </Button>
+          )}
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm">
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this endpoint?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  No more events will be sent to {endpoint.url}, and its delivery log is deleted with it.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => onDelete(endpoint)}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        {showDeliveries && (
+          loadingDeliveries && deliveries.length === 0 ? (
+            <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing has been sent to this endpoint yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead className="text-right">
+                    <Button variant="ghost" size="sm" onClick={loadDeliveries} disabled={loadingDeliveries}>
+                      <RefreshCw className={`h-4 w-4 ${loadingDeliveries ? 'animate-spin' : ''}`} />
+                    </Button>
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="font-mono text-xs">{delivery.event_type}</TableCell>
+                    <TableCell>
+                      <Badge variant={DELIVERY_STATUS_VARIANTS[delivery.status]} className="text-xs capitalize">
+                        {delivery.status}
+                      </Badge>
+                      {delivery.attempts > 1 && (
+                        <span className="ml-2 text-xs text-muted-foreground">{delivery.attempts} attempts</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {delivery.response_status ?? (delivery.error ? 'No response' : '—')}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(delivery.last_attempt_at || delivery.created_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => setViewing(delivery)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRedeliver(delivery)}
+                        disabled={redeliveringId === delivery.id}
+                      >
+                        {redeliveringId === delivery.id ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <RefreshCw className="h-4 w-4 mr-1" />
+                        )}
+                        Redeliver
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )
+        )}
+      </CardContent>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.event_type}</DialogTitle>
+            <DialogDescription>
+              Event {viewing?.event_id}
+              {viewing?.next_attempt_at && viewing.status === 'pending'
+                ? ` · next attempt ${formatDistanceToNow(new Date(viewing.next_attempt_at), { addSuffix: true })}`
+                : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm font-medium mb-1">Payload</p>
+              <pre className="max-h-64 overflow-auto rounded-md bg-gray-900 p-3 text-xs text-gray-100">
+                {JSON.stringify(viewing?.payload, null, 2)}
+              </pre>
+            </div>
+            {(viewing?.error || viewing?.response_body) && (
+              <div>
+                <p className="text-sm font-medium mb-1">Response</p>
+                <pre className="max-h-40 overflow-auto rounded-md bg-gray-100 p-3 text-xs whitespace-pre-wrap">
+                  {viewing?.response_body || viewing?.error}
+                </pre>
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default function Webhooks() {
+  const { activeOrganization, activeRole, loading: workspaceLoading } = useWorkspace();
+  const organizationId = activeOrganization?.id || null;
+  const canManage = !activeOrganization || canManageMembers(activeRole);
+
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [templateId, setTemplateId] = useState(ALL_TEMPLATES);
+  const [events, setEvents] = useState<WebhookEvent[]>(['generation.created']);
+  const [creating, setCreating] = useState(false);
+
+  const isScoped = !!organizationId || templateId !== ALL_TEMPLATES;
+
+  const loadEndpoints = useCallback(async () => {
+    if (!canManage) return;
+
+    setLoading(true);
+    try {
+      const [endpointList, templateList] = await Promise.all([
+        listWebhookEndpoints(organizationId),
+        getUserTemplates(organizationId),
+      ]);
+      setEndpoints(endpointList);
+      setTemplates(templateList.map(template => ({ id: template.id, name: template.name })));
+    } catch (error) {
+      console.error('Error loading webhooks:', error);
+      toast.error('Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, canManage]);
+
+  useEffect(() => {
+    setTemplateId(ALL_TEMPLATES);
+    loadEndpoints();
+  }, [loadEndpoints]);
+
+  // Plan changes are only sent to personal endpoints that cover every template
+  useEffect(() => {
+    if (isScoped) setEvents(prev => prev.filter(event => event !== 'subscription.changed'));
+  }, [isScoped]);
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(prev => (checked ? [...prev, event] : prev.filter(e => e !== event)));
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!url.trim() || events.length === 0) return;
+
+    setCreating(true);
+    try {
+      const result = await createWebhookEndpoint(
+        { url: url.trim(), events, description: description.trim() || undefined },
+        organizationId,
+        templateId === ALL_TEMPLATES ? null : templateId
+      );
+      setEndpoints(prev => [result.endpoint, ...prev]);
+      setUrl('');
+      setDescription('');
+      toast.success('Endpoint added. Its signing secret is under "Signing secret".');
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    try {
+      await deleteWebhookEndpoint(endpoint.id);
+      setEndpoints(prev => prev.filter(e => e.id !== endpoint.id));
+      toast.success('Endpoint deleted');
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  if (workspaceLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-amber-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 p-8 md:p-12">
+      <motion.div initial={{ opacity: 0, y: 15 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-3xl font-bold text-gray-900">
+          <span className="bg-gradient-to-r from-amber-400 to-yellow-500 bg-clip-text text-transparent">
+            Webhooks
+          </span>
+        </h1>
+        <p className="text-gray-600 mt-1">
+          Tell your own systems when flyers are generated, templates go live, limits are reached or your plan changes.
+        </p>
+      </motion.div>
+
+      {!canManage ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">
+              Only owners and admins can manage webhooks for {activeOrganization?.name}.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Plus className="h-5 w-5" />
+                Add an Endpoint
+              </CardTitle>
+              <CardDescription>
+                Events from <strong>{activeOrganization ? activeOrganization.name : 'your personal workspace'}</strong> are
+                POSTed as JSON, signed with the endpoint's secret. Failed deliveries are retried for about two days.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="webhook-url">Endpoint URL</Label>
+                    <Input
+                      id="webhook-url"
+                      type="url"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      placeholder="https://example.com/webhooks/dynamicflyer"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="webhook-description">Description (optional)</Label>
+                    <Input
+                      id="webhook-description"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="e.g. Registration system"
+                      maxLength={200}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Templates</Label>
+                  <Select value={templateId} onValueChange={setTemplateId}>
+                    <SelectTrigger className="md:w-80">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_TEMPLATES}>Every template</SelectItem>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Events</Label>
+                  {WEBHOOK_EVENTS.map((option) => {
+                    const disabled = option.accountOnly && isScoped;
+                    return (
+                      <div key={option.value} className="flex items-start gap-2">
+                        <Checkbox
+                          id={`event-${option.value}`}
+                          checked={events.includes(option.value)}
+                          disabled={disabled}
+                          onCheckedChange={(checked) => toggleEvent(option.value, checked === true)}
+                        />
+                        <Label
+                          htmlFor={`event-${option.value}`}
+                          className={`font-normal leading-tight ${disabled ? 'opacity-50' : ''}`}
+                        >
+                          {option.label} <span className="font-mono text-xs text-muted-foreground">{option.value}</span>
+                          <span className="block text-xs text-muted-foreground">
+                            {option.description}
+                            {disabled && '. Only for personal endpoints covering every template.'}
+                          </span>
+                        </Label>
+                      </div>
+                    );
+                  })}
+                </div>
+                <Button type="submit" disabled={creating || !url.trim() || events.length === 0}>
+                  {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Add Endpoint
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {loading ? (
+            <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+          ) : endpoints.length === 0 ? (
+            <Card>
+              <CardContent className="pt-6 flex items-center gap-3 text-sm text-muted-foreground">
+                <Webhook className="h-5 w-5" />
+                No endpoints yet.
+              </CardContent>
+            </Card>
+          ) : (
+            endpoints.map((endpoint) => (
+              <EndpointCard
+                key={endpoint.id}
+                endpoint={endpoint}
+                templateName={templates.find(template => template.id === endpoint.template_id)?.name}
+                onChange={(updated) => setEndpoints(prev => prev.map(e => (e.id === updated.id ? updated : e)))}
+                onDelete={handleDelete}
+              />
+            ))
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Verifying Deliveries</CardTitle>
+              <CardDescription>
+                Each request has <code>X-DynamicFlyer-Event</code>, <code>X-DynamicFlyer-Delivery</code> and{' '}
+                <code>X-DynamicFlyer-Signature: t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code>, an HMAC-SHA256 of{' '}
+                <code>&lt;timestamp&gt;.&lt;body&gt;</code>. Redeliveries keep the payload's <code>id</code>, so use it to skip
+                events you've already handled.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <pre className="overflow-x-auto rounded-md bg-gray-900 p-3 text-xs text-gray-100">{SIGNATURE_EXAMPLE}</pre>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * API Keys
+ * Keys for the public API look like `dfk_<43 base64url characters>`. Only their SHA-256 hash
+ * is stored; a key acts for its creator in the workspace it was created in, limited to its
+ * scopes. Every authenticated request is logged as an `api_call` usage event.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { HttpError } from './http.ts';
+
+export const API_KEY_PREFIX = 'dfk_';
+export const API_SCOPES = ['templates:read', 'flyers:render'] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  organizationId: string | null;
+  scopes: ApiScope[];
+}
+
+const PLAN_LIMIT_HINT = 'plan_limit';
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/**
+ * Hex SHA-256 of a key, as stored in `api_keys.key_hash`
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Create a new random key with the prefix shown in the dashboard and the hash to store
+ */
+export async function generateApiKey(): Promise<{ key: string; prefix: string; hash: string }> {
+  const key = API_KEY_PREFIX + toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6), hash: await hashApiKey(key) };
+}
+
+/**
+ * Check requested scopes are known, defaulting to all of them
+ */
+export function parseApiScopes(value: unknown): ApiScope[] {
+  if (value === undefined || value === null) return [...API_SCOPES];
+  if (!Array.isArray(value) || value.length === 0) throw new HttpError('Choose at least one scope');
+
+  const scopes = [...new Set(value)];
+  const unknown = scopes.find(scope => !API_SCOPES.includes(scope));
+  if (unknown !== undefined) throw new HttpError(`Unknown scope "${unknown}"`);
+  return scopes as ApiScope[];
+}
+
+/**
+ * Resolve the key a request was made with, or throw a 401.
+ * Keys are sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ */
+export async function authenticateApiKey(admin: SupabaseClient, req: Request): Promise<ApiKey> {
+  const key = req.headers.get('X-API-Key') || req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!key || !key.startsWith(API_KEY_PREFIX)) throw new HttpError('Missing or malformed API key', 401);
+
+  const { data, error } = await admin
+    .from('api_keys')
+    .select('id, user_id, organization_id, scopes')
+    .eq('key_hash', await hashApiKey(key))
+    .is('revoked_at', null)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new HttpError('Invalid or revoked API key', 401);
+
+  // Organization keys stop working when their creator leaves the organization
+  if (data.organization_id) {
+    const { data: membership, error: membershipError } = await admin
+      .from('organization_members')
+      .select('role')
+      .eq('organization_id', data.organization_id)
+      .eq('user_id', data.user_id)
+      .maybeSingle();
+    if (membershipError) throw membershipError;
+    if (!membership) throw new HttpError('This key\'s creator is no longer in the organization', 403);
+  }
+
+  const { error: touchError } = await admin
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id);
+  if (touchError) console.warn('Failed to update key last used time:', touchError);
+
+  return {
+    id: data.id,
+    userId: data.user_id,
+    organizationId: data.organization_id,
+    scopes: data.scopes,
+  };
+}
+
+/**
+ * Throw a 403 unless the key has a scope
+ */
+export function requireScope(apiKey: ApiKey, scope: ApiScope): void {
+  if (!apiKey.scopes.includes(scope)) throw new HttpError(`This key doesn't have the ${scope} scope`, 403);
+}
+
+/**
+ * Log a request as an `api_call`, and a render as an export too. The database rejects both
+ * when the key owner's plan doesn't allow them, which is surfaced as 403 or 429.
+ */
+export async function logApiCall(
+  admin: SupabaseClient,
+  apiKey: ApiKey,
+  endpoint: string,
+  details: { templateId?: string; exportFormat?: string } = {}
+): Promise<void> {
+  const log = (action: 'api_call' | 'template_exported', status: number) =>
+    admin.from('usage_logs').insert({
+      user_id: apiKey.userId,
+      organization_id: apiKey.organizationId,
+      action,
+      resource_id: details.templateId ?? endpoint,
+      metadata: {
+        source: 'api',
+        api_key_id: apiKey.id,
+        endpoint,
+        ...(details.exportFormat ? { export_type: details.exportFormat } : {}),
+      },
+    }).then(({ error }) => {
+      if (!error) return;
+      if (error.hint === PLAN_LIMIT_HINT) throw new HttpError(error.message, status);
+      throw error;
+    });
+
+  await log('api_call', 403);
+  if (details.exportFormat) await log('template_exported', 429);
+}
@@ -0,0 +1,218 @@
+/**
+ * API Templates
+ * Templates as the public API sees them: only those in the key's workspace, with the
+ * content their share link serves (the published version when one is pinned), and the
+ * fields a caller fills in, addressed by field key or frame ID.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { HttpError } from './http.ts';
+import type { ApiKey } from './apiKeys.ts';
+import { FrameSchemaError, migrateFrames, type FrameData } from '../../../src/lib/frameSchema.ts';
+import type { FrameInputs } from '../../../src/lib/renderEngine.ts';
+import { MAX_IMAGE_DATA_URL_LENGTH, isStorageUrl } from './flyerRenderer.ts';
+
+export const TEMPLATE_LIST_COLUMNS =
+  'id, name, description, template_type, canvas_width, canvas_height, is_public, organization_id, review_status, updated_at';
+
+const CONTENT_COLUMNS =
+  'name, description, template_type, background_url, frames, pages, schema_version, canvas_width, canvas_height, print_dpi, fonts';
+
+const DEFAULT_CANVAS_SIZE = { width: 800, height: 600 };
+const MAX_TEXT_LENGTH = 2000;
+
+export interface ApiTemplatePage {
+  backgroundUrl: string | null;
+  frames: FrameData[];
+}
+
+export interface ApiTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  width: number;
+  height: number;
+  printDpi: number | null;
+  pages: ApiTemplatePage[];
+  fonts: { family: string; weight: string; style: string; url: string }[];
+}
+
+export interface ApiField {
+  key: string | null;
+  frame_id: string;
+  page: number;
+  type: 'text' | 'image';
+  label: string;
+  input_type: string;
+  required: boolean;
+  options?: string[];
+  min_length?: number;
+  max_length?: number;
+  pattern?: string;
+}
+
+/**
+ * Limit a template query to the key's workspace
+ */
+export function inKeyWorkspace<T extends { eq(column: string, value: string): T; is(column: string, value: null): T }>(
+  query: T,
+  apiKey: ApiKey
+): T {
+  return apiKey.organizationId
+    ? query.eq('organization_id', apiKey.organizationId)
+    : query.eq('user_id', apiKey.userId).is('organization_id', null);
+}
+
+/**
+ * Whether a template's share link works; organization templates need approval first
+ */
+export function isTemplateLive(template: { is_public: boolean; organization_id: string | null; review_status: string }): boolean {
+  return template.is_public && (!template.organization_id || template.review_status === 'approved');
+}
+
+/**
+ * Load a template in the key's workspace with the content its share link serves
+ */
+export async function loadApiTemplate(admin: SupabaseClient, apiKey: ApiKey, templateId: string): Promise<ApiTemplate> {
+  const { data, error } = await inKeyWorkspace(
+    admin.from('templates').select(`id, organization_id, review_status, published_version_id, ${CONTENT_COLUMNS}`).eq('id', templateId),
+    apiKey
+  ).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new HttpError('Template not found', 404);
+
+  if (data.organization_id && data.review_status !== 'approved') {
+    throw new HttpError('This template is waiting for approval in its organization', 409);
+  }
+
+  let content = data;
+  if (data.published_version_id) {
+    const { data: version, error: versionError } = await admin
+      .from('template_versions')
+      .select(CONTENT_COLUMNS)
+      .eq('id', data.published_version_id)
+      .single();
+    if (versionError) throw versionError;
+    content = { ...data, ...version };
+  }
+
+  try {
+    const firstPageFrames = migrateFrames(content.frames, content.schema_version, data.id);
+    const storedPages = Array.isArray(content.pages) ? content.pages : [];
+    const pages: ApiTemplatePage[] = storedPages.length > 0
+      ? storedPages.map((page: { background_url?: string | null; frames?: unknown }) => ({
+          backgroundUrl: page.background_url || null,
+          frames: migrateFrames(page.frames, content.schema_version, data.id),
+        }))
+      : [{ backgroundUrl: content.background_url || null, frames: firstPageFrames }];
+
+    return {
+      id: data.id,
+      name: content.name,
+      description: content.description,
+      width: content.canvas_width || DEFAULT_CANVAS_SIZE.width,
+      height: content.canvas_height || DEFAULT_CANVAS_SIZE.height,
+      printDpi: content.print_dpi,
+      pages,
+      fonts: Array.isArray(content.fonts) ? content.fonts : [],
+    };
+  } catch (schemaError) {
+    if (schemaError instanceof FrameSchemaError) {
+      console.error('Template frames could not be read:', schemaError.issues);
+      throw new HttpError('This template could not be read. Open and save it in the editor.', 422);
+    }
+    throw schemaError;
+  }
+}
+
+/**
+ * The fields a caller can fill in, in page order
+ */
+export function getTemplateFields(template: ApiTemplate): ApiField[] {
+  return template.pages.flatMap((page, pageIndex) =>
+    page.frames
+      .filter(frame => frame.visible !== false)
+      .map((frame): ApiField => ({
+        key: frame.key || null,
+        frame_id: frame.id,
+        page: pageIndex + 1,
+        type: frame.type,
+        label: frame.properties?.placeholder || (frame.type === 'image' ? 'Photo' : 'Text'),
+        input_type: frame.type === 'image' ? 'image' : frame.input?.type || 'text',
+        required: !!frame.validation?.required,
+        ...(frame.input?.type === 'select' ? { options: frame.input.options || [] } : {}),
+        ...(frame.validation?.minLength ? { min_length: frame.validation.minLength } : {}),
+        ...(frame.validation?.maxLength ? { max_length: frame.validation.maxLength } : {}),
+        ...(frame.validation?.pattern ? { pattern: frame.validation.pattern } : {}),
+      }))
+  );
+}
+
+/**
+ * Turn `{ field key or frame ID: value }` into render inputs, checking each value against
+ * its field. Text is drawn as sent, so callers format dates and numbers themselves.
+ */
+export function resolveApiInputs(template: ApiTemplate, value: unknown): FrameInputs {
+  if (value !== undefined && (!value || typeof value !== 'object' || Array.isArray(value))) {
+    throw new HttpError('inputs must be an object of field keys and values');
+  }
+
+  const fields = getTemplateFields(template);
+  const frames = template.pages.flatMap(page => page.frames);
+  const inputs: FrameInputs = {};
+  const problems: string[] = [];
+
+  Object.entries((value || {}) as Record<string, unknown>).forEach(([name, fieldValue]) => {
+    const field = fields.find(candidate => candidate.key === name) || fields.find(candidate => candidate.frame_id === name);
+    if (!field) {
+      problems.push(`Unknown field "${name}"`);
+      return;
+    }
+    if (typeof fieldValue !== 'string') {
+      problems.push(`${name}: must be a string`);
+      return;
+    }
+
+    if (field.type === 'image') {
+      if (fieldValue.startsWith('data:image/')) {
+        if (fieldValue.length > MAX_IMAGE_DATA_URL_LENGTH) {
+          problems.push(`${name}: data:image URLs must be at most ${MAX_IMAGE_DATA_URL_LENGTH} characters`);
+          return;
+        }
+      } else if (fieldValue && !isStorageUrl(fieldValue)) {
+        problems.push(`${name}: must be a data:image URL or an image uploaded to this project's storage`);
+        return;
+      }
+    } else {
+      const frame = frames.find(candidate => candidate.id === field.frame_id);
+      const limit = Math.min(field.max_length || MAX_TEXT_LENGTH, MAX_TEXT_LENGTH);
+      if (fieldValue.length > limit) problems.push(`${name}: must be at most ${limit} characters`);
+      if (field.min_length && fieldValue && fieldValue.length < field.min_length) {
+        problems.push(`${name}: must be at least ${field.min_length} characters`);
+      }
+      if (field.options && fieldValue && !field.options.includes(fieldValue)) {
+        problems.push(`${name}: must be one of ${field.options.join(', ')}`);
+      }
+      if (frame?.validation?.pattern && fieldValue) {
+        try {
+          if (!new RegExp(frame.validation.pattern).test(fieldValue)) {
+            problems.push(`${name}: ${frame.validation.patternMessage || 'is not in the expected format'}`);
+          }
+        } catch {
+          // A pattern that doesn't compile isn't enforced, as in the generator
+        }
+      }
+    }
+
+    if (fieldValue) inputs[field.frame_id] = { type: field.type, value: fieldValue };
+  });
+
+  fields
+    .filter(field => field.required && !inputs[field.frame_id])
+    .forEach(field => problems.push(`${field.key || field.frame_id}: is required`));
+
+  if (problems.length > 0) {
+    throw new HttpError(`Invalid inputs: ${problems.slice(0, 10).join('; ')}`, 422);
+  }
+  return inputs;
+}
@@ -0,0 +1,20 @@
+/**
+ * Request Authentication
+ * Resolves the signed-in user from the Supabase JWT sent by `supabase.functions.invoke`
+ */
+
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { BillingError } from './billing.ts';
+
+/**
+ * Get the user making a request, or throw a 401
+ */
+export async function getRequestUser(admin: SupabaseClient, req: Request): Promise<User> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) throw new BillingError('Missing authorization', 401);
+
+  const { data, error } = await admin.auth.getUser(token);
+  if (error || !data.user) throw new BillingError('Invalid or expired session', 401);
+
+  return data.user;
+}
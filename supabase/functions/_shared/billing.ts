@@ -0,0 +1,405 @@
+/**
+ * Billing Fulfilment
+ * Applies Paystack payments and subscription events to `payments`, `subscriptions`, `profiles`
+ * and marketplace `template_purchases`.
+ * Every handler is idempotent by `paystack_reference` or subscription code, so the verify
+ * endpoint and webhook retries can both deliver the same event safely.
+ */
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  FREE_PLAN_ID,
+  SUBSCRIPTION_PERIOD_DAYS,
+  findBillingPlan,
+  findEventPackage,
+  getPlanName,
+  type BillingPlan,
+} from './plans.ts';
+import { PAYSTACK_CURRENCY, getTransactionMetadata, type PaystackTransaction } from './paystack.ts';
+import { HttpError } from './http.ts';
+
+export class BillingError extends HttpError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = 'BillingError';
+  }
+}
+
+export interface PaystackSubscriptionData {
+  subscription_code: string;
+  next_payment_date?: string | null;
+  customer?: { email?: string; customer_code?: string };
+}
+
+export interface PaystackInvoiceData {
+  subscription?: { subscription_code?: string };
+  transaction?: { reference?: string; amount?: number; currency?: string };
+}
+
+export interface FulfilmentResult {
+  processed: boolean; // False when the reference was already fulfilled
+  planId?: string;
+  packageId?: string;
+  licensedTemplateId?: string; // The buyer's copy of a marketplace template, once made
+  duplicatePurchase?: boolean; // The buyer already owned the template; the payment is due a refund
+}
+
+/**
+ * Create a Supabase client with the service role, bypassing RLS
+ */
+export function createAdminClient(): SupabaseClient {
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !serviceRoleKey) throw new Error('Supabase service credentials are not set');
+  return createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+}
+
+/**
+ * Map a Paystack channel to the values allowed in `payments.payment_method`
+ */
+function toPaymentMethod(channel?: string): string | null {
+  if (channel === 'card' || channel === 'mobile_money') return channel;
+  if (channel === 'bank' || channel === 'bank_transfer') return 'bank_transfer';
+  return null;
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+/**
+ * Move a profile to a plan; the profile trigger copies the plan's limits
+ */
+async function setProfilePlan(admin: SupabaseClient, userId: string, planId: string) {
+  const { error } = await admin
+    .from('profiles')
+    .update({
+      subscription_tier: planId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Make a paid plan the user's active subscription
+ */
+async function activatePlan(
+  admin: SupabaseClient,
+  userId: string,
+  plan: BillingPlan,
+  reference: string,
+  customerCode?: string
+) {
+  const now = new Date();
+
+  // A new payment replaces whatever subscription was active before
+  const { error: supersedeError } = await admin
+    .from('subscriptions')
+    .update({ status: 'inactive', updated_at: now.toISOString() })
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .or(`paystack_reference.is.null,paystack_reference.neq.${reference}`);
+
+  if (supersedeError) throw supersedeError;
+
+  const { error: subscriptionError } = await admin
+    .from('subscriptions')
+    .upsert({
+      user_id: userId,
+      plan_type: plan.id,
+      status: 'active',
+      current_period_start: now.toISOString(),
+      current_period_end: addDays(now, SUBSCRIPTION_PERIOD_DAYS).toISOString(),
+      cancel_at_period_end: false,
+      paystack_reference: reference,
+      paystack_customer_id: customerCode || null,
+    }, { onConflict: 'paystack_reference', ignoreDuplicates: true });
+
+  if (subscriptionError) throw subscriptionError;
+
+  await setProfilePlan(admin, userId, plan.id);
+}
+
+/**
+ * Claim a payment; only the first caller to flip it to successful grants the purchase
+ */
+async function claimPayment(admin: SupabaseClient, transaction: PaystackTransaction): Promise<boolean> {
+  const { data: claimed, error } = await admin
+    .from('payments')
+    .update({
+      status: 'successful',
+      paystack_transaction_id: String(transaction.id),
+      payment_method: toPaymentMethod(transaction.channel),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('paystack_reference', transaction.reference)
+    .neq('status', 'successful')
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  return Boolean(claimed);
+}
+
+/**
+ * Record a paid marketplace purchase and give the buyer their licensed copy.
+ * The price is the one fixed on the purchase at checkout.
+ */
+async function fulfilTemplatePurchase(
+  admin: SupabaseClient,
+  transaction: PaystackTransaction,
+  userId: string
+): Promise<FulfilmentResult> {
+  const reference = transaction.reference;
+  const { data: purchase, error } = await admin
+    .from('template_purchases')
+    .select('id, template_id, template_name, buyer_id, price')
+    .eq('paystack_reference', reference)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!purchase || purchase.buyer_id !== userId) {
+    throw new BillingError('Transaction is not linked to a template purchase');
+  }
+
+  if (transaction.currency !== PAYSTACK_CURRENCY || transaction.amount < Math.round(Number(purchase.price) * 100)) {
+    throw new BillingError('Transaction amount does not match the template price');
+  }
+
+  const { error: insertError } = await admin
+    .from('payments')
+    .upsert({
+      user_id: userId,
+      amount: purchase.price,
+      currency: transaction.currency,
+      status: 'pending',
+      paystack_reference: reference,
+      description: `Template: ${purchase.template_name}`,
+      metadata: { template_id: purchase.template_id, purchase_id: purchase.id },
+    }, { onConflict: 'paystack_reference', ignoreDuplicates: true });
+
+  if (insertError) throw insertError;
+
+  const claimed = await claimPayment(admin, transaction);
+
+  // Completing twice returns the copy made the first time
+  const { data: licensedTemplateId, error: completeError } = await admin
+    .rpc('complete_template_purchase', { p_reference: reference });
+
+  if (completeError) {
+    if (claimed) {
+      // Release the claim so a retry can complete the purchase
+      await admin.from('payments').update({ status: 'pending' }).eq('paystack_reference', reference);
+    }
+    throw completeError;
+  }
+
+  const { data: completed, error: statusError } = await admin
+    .from('template_purchases')
+    .select('status')
+    .eq('id', purchase.id)
+    .single();
+
+  if (statusError) throw statusError;
+
+  return {
+    processed: claimed,
+    licensedTemplateId: licensedTemplateId || undefined,
+    duplicatePurchase: completed.status !== 'paid',
+  };
+}
+
+/**
+ * Record a successful Paystack transaction and grant what was bought.
+ * Amount and currency are checked against the price quoted at checkout, not the client.
+ */
+export async function fulfilTransaction(
+  admin: SupabaseClient,
+  transaction: PaystackTransaction
+): Promise<FulfilmentResult> {
+  if (transaction.status !== 'success') {
+    throw new BillingError(`Payment was not successful (${transaction.status})`, 402);
+  }
+
+  const metadata = getTransactionMetadata(transaction);
+  const userId = typeof metadata.user_id === 'string' ? metadata.user_id : null;
+  if (userId && typeof metadata.purchase_id === 'string') {
+    return fulfilTemplatePurchase(admin, transaction, userId);
+  }
+
+  const plan = await findBillingPlan(admin, metadata.plan_id);
+  const eventPackage = plan ? null : await findEventPackage(admin, metadata.package_id, false);
+  const item = plan || eventPackage;
+
+  if (!userId || !item) {
+    throw new BillingError('Transaction is not linked to a user and a known plan or package');
+  }
+
+  const reference = transaction.reference;
+
+  // Prices can change between checkout and payment; hold the buyer to the amount they were quoted
+  const { data: quoted, error: quotedError } = await admin
+    .from('payments')
+    .select('amount')
+    .eq('paystack_reference', reference)
+    .maybeSingle();
+
+  if (quotedError) throw quotedError;
+
+  const expectedAmount = quoted ? Number(quoted.amount) : item.price;
+  if (transaction.currency !== PAYSTACK_CURRENCY || transaction.amount < Math.round(expectedAmount * 100)) {
+    throw new BillingError('Transaction amount does not match the selected plan');
+  }
+
+  const description = plan ? `Subscription: ${plan.name}` : `Event Package: ${item.name}`;
+
+  // Webhooks can arrive before the pending row exists, so make sure there is one to claim
+  const { error: insertError } = await admin
+    .from('payments')
+    .upsert({
+      user_id: userId,
+      amount: item.price,
+      currency: transaction.currency,
+      status: 'pending',
+      paystack_reference: reference,
+      description,
+      metadata: plan ? { plan_id: plan.id } : { package_id: item.id },
+    }, { onConflict: 'paystack_reference', ignoreDuplicates: true });
+
+  if (insertError) throw insertError;
+
+  const claimed = await claimPayment(admin, transaction);
+
+  const result: FulfilmentResult = {
+    processed: claimed,
+    planId: plan?.id,
+    packageId: eventPackage?.id,
+  };
+  if (!claimed || !plan) return result;
+
+  try {
+    await activatePlan(admin, userId, plan, reference, transaction.customer?.customer_code);
+  } catch (error) {
+    // Release the claim so a retry can grant the plan
+    await admin.from('payments').update({ status: 'pending' }).eq('paystack_reference', reference);
+    throw error;
+  }
+
+  return result;
+}
+
+/**
+ * Find a user by the email Paystack has for the customer
+ */
+async function findUserIdByEmail(admin: SupabaseClient, email?: string): Promise<string | null> {
+  if (!email) return null;
+  const { data, error } = await admin
+    .from('profiles')
+    .select('id')
+    .ilike('email', email.replace(/[%_\\]/g, '\\$&')) // Case-insensitive exact match
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id || null;
+}
+
+/**
+ * Link a Paystack subscription to the user's active subscription (`subscription.create`)
+ */
+export async function linkPaystackSubscription(admin: SupabaseClient, data: PaystackSubscriptionData) {
+  const userId = await findUserIdByEmail(admin, data.customer?.email);
+  if (!userId) {
+    console.warn(`No user found for Paystack subscription ${data.subscription_code}`);
+    return;
+  }
+
+  const { data: subscription, error } = await admin
+    .from('subscriptions')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!subscription) {
+    console.warn(`No active subscription to link Paystack subscription ${data.subscription_code} to`);
+    return;
+  }
+
+  const { error: updateError } = await admin
+    .from('subscriptions')
+    .update({
+      paystack_subscription_id: data.subscription_code,
+      paystack_customer_id: data.customer?.customer_code || null,
+      ...(data.next_payment_date ? { current_period_end: data.next_payment_date } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', subscription.id);
+
+  if (updateError) throw updateError;
+}
+
+/**
+ * End a Paystack subscription and drop the user back to their next best plan (`subscription.disable`)
+ */
+export async function disablePaystackSubscription(admin: SupabaseClient, subscriptionCode?: string) {
+  if (!subscriptionCode) return;
+
+  const { data: subscription, error } = await admin
+    .from('subscriptions')
+    .update({ status: 'cancelled', cancel_at_period_end: true, updated_at: new Date().toISOString() })
+    .eq('paystack_subscription_id', subscriptionCode)
+    .neq('status', 'cancelled')
+    .select('user_id')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!subscription?.user_id) return; // Unknown or already cancelled
+
+  const { data: remaining, error: remainingError } = await admin
+    .from('subscriptions')
+    .select('plan_type')
+    .eq('user_id', subscription.user_id)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (remainingError) throw remainingError;
+
+  await setProfilePlan(admin, subscription.user_id, remaining?.plan_type || FREE_PLAN_ID);
+}
+
+/**
+ * Record a failed renewal and stop the subscription renewing (`invoice.payment_failed`)
+ */
+export async function recordFailedRenewal(admin: SupabaseClient, data: PaystackInvoiceData) {
+  const subscriptionCode = data.subscription?.subscription_code;
+  if (!subscriptionCode) return;
+
+  const { data: subscription, error } = await admin
+    .from('subscriptions')
+    .update({ cancel_at_period_end: true, updated_at: new Date().toISOString() })
+    .eq('paystack_subscription_id', subscriptionCode)
+    .select('user_id, plan_type')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!subscription?.user_id || !data.transaction?.reference) return;
+
+  const { error: paymentError } = await admin
+    .from('payments')
+    .upsert({
+      user_id: subscription.user_id,
+      amount: (data.transaction.amount || 0) / 100,
+      currency: data.transaction.currency || PAYSTACK_CURRENCY,
+      status: 'failed',
+      paystack_reference: data.transaction.reference,
+      description: `Subscription renewal failed: ${await getPlanName(admin, subscription.plan_type)}`,
+      metadata: { subscription_code: subscriptionCode },
+    }, { onConflict: 'paystack_reference', ignoreDuplicates: true });
+
+  if (paymentError) throw paymentError;
+}
@@ -0,0 +1,201 @@
+/**
+ * Flyer Renderer
+ * Draws flyers for the public API with the app's own render engine on a server-side canvas,
+ * so an API render matches what the generator downloads. The server has no system fonts:
+ * bundled fonts are fetched from the site, uploaded fonts from storage, and system families
+ * are drawn in the closest bundled face.
+ */
+
+import { createCanvas, loadImage, type EmulatedCanvas2D } from 'https://deno.land/x/canvas@v1.4.2/mod.ts';
+import { jsPDF } from 'https://esm.sh/jspdf@2.5.1';
+import { renderFlyer, type FrameInputs, type RenderContext2D, type RenderImage } from '../../../src/lib/renderEngine.ts';
+import { getCatalogFont, getCatalogFontFaces } from '../../../src/lib/fontCatalog.ts';
+import { HttpError } from './http.ts';
+import type { ApiTemplate } from './apiTemplates.ts';
+
+export const RENDER_FORMATS = ['png', 'pdf'] as const;
+export type RenderFormat = typeof RENDER_FORMATS[number];
+
+const MAX_SCALE = 3;
+const MAX_OUTPUT_PIXELS = 40_000_000;
+const CSS_PIXELS_PER_MM = 96 / 25.4;
+const MAX_ASSET_BYTES = 10 * 1024 * 1024;
+const ASSET_FETCH_TIMEOUT_MS = 10_000;
+export const MAX_IMAGE_DATA_URL_LENGTH = 8 * 1024 * 1024; // About 6 MB of base64 image
+
+const SYSTEM_FONT_FALLBACKS: Record<string, string> = {
+  Arial: 'Inter',
+  Helvetica: 'Inter',
+  Verdana: 'Inter',
+  Tahoma: 'Inter',
+  'Trebuchet MS': 'Inter',
+  Impact: 'Anton',
+  'Comic Sans MS': 'Caveat',
+  'sans-serif': 'Inter',
+  'Times New Roman': 'Source Serif 4',
+  Georgia: 'Source Serif 4',
+  serif: 'Source Serif 4',
+  'Courier New': 'JetBrains Mono',
+  monospace: 'JetBrains Mono',
+};
+
+const siteUrl = () => (Deno.env.get('SITE_URL') || 'http://localhost:8080').replace(/\/$/, '');
+const storageUrl = () => `${(Deno.env.get('SUPABASE_URL') || '').replace(/\/$/, '')}/storage/v1/object/public/`;
+
+/**
+ * Whether a URL points at the project's public storage, the only place remote images and
+ * uploaded fonts are fetched from
+ */
+export function isStorageUrl(url: string): boolean {
+  try {
+    const { origin, pathname } = new URL(url);
+    const storage = new URL(storageUrl());
+    return origin === storage.origin && pathname.startsWith(storage.pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetch a font or image from the site or storage, with a time and size limit
+ */
+const fetchBytes = async (url: string) => {
+  if (!isStorageUrl(url) && !url.startsWith(`${siteUrl()}/`)) throw new Error(`${url} is not an allowed asset URL`);
+
+  const response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(ASSET_FETCH_TIMEOUT_MS) });
+  if (!response.ok || !response.body) throw new Error(`${url} returned ${response.status}`);
+  if (Number(response.headers.get('content-length')) > MAX_ASSET_BYTES) throw new Error(`${url} is too large`);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of response.body) {
+    size += chunk.byteLength;
+    if (size > MAX_ASSET_BYTES) throw new Error(`${url} is too large`);
+    chunks.push(chunk);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes;
+};
+
+/**
+ * Load a background or image input; data URLs are decoded in place, anything else must be in storage
+ */
+const loadRenderImage = async (src: string) => {
+  if (src.startsWith('data:image/')) {
+    if (src.length > MAX_IMAGE_DATA_URL_LENGTH) throw new Error('Image data URL is too large');
+    return loadImage(src);
+  }
+  return loadImage(await fetchBytes(src));
+};
+
+/**
+ * Register every font the template's text frames use on a canvas
+ */
+async function loadTemplateFonts(canvas: EmulatedCanvas2D, template: ApiTemplate): Promise<void> {
+  const families = new Set(['Arial']);
+  template.pages.forEach(page =>
+    page.frames.forEach(frame => {
+      if (frame.type === 'text') families.add(frame.properties?.fontFamily || 'Arial');
+    })
+  );
+
+  const faces = [...families].flatMap(family => {
+    const uploaded = template.fonts.filter(font => font.family === family);
+    if (uploaded.length > 0) return uploaded;
+
+    const catalogFont = getCatalogFont(SYSTEM_FONT_FALLBACKS[family] || family);
+    if (!catalogFont) return [];
+    return getCatalogFontFaces(catalogFont).map(face => ({ ...face, family, url: `${siteUrl()}${face.url}` }));
+  });
+
+  await Promise.all(
+    faces.map(async face => {
+      try {
+        canvas.loadFont(await fetchBytes(face.url), {
+          family: face.family,
+          weight: face.weight,
+          style: face.style,
+        });
+      } catch (error) {
+        console.warn(`Failed to load font ${face.family}:`, error);
+      }
+    })
+  );
+}
+
+/**
+ * Draw one page onto a new canvas at the given scale
+ */
+async function renderPage(template: ApiTemplate, pageIndex: number, inputs: FrameInputs, scale: number) {
+  const page = template.pages[pageIndex];
+  const canvas = createCanvas(Math.round(template.width * scale), Math.round(template.height * scale));
+  await loadTemplateFonts(canvas, template);
+
+  const ctx = canvas.getContext('2d') as unknown as RenderContext2D;
+  ctx.scale(scale, scale);
+  await renderFlyer(
+    ctx,
+    {
+      width: template.width,
+      height: template.height,
+      backgroundUrl: page.backgroundUrl,
+      frames: page.frames,
+      inputs,
+      backgroundColor: '#ffffff',
+    },
+    { loadImage: src => loadRenderImage(src) as unknown as Promise<RenderImage> },
+    { mode: 'output' }
+  );
+
+  return canvas;
+}
+
+/**
+ * Check a requested scale fits within the output size limit
+ */
+export function parseRenderScale(template: ApiTemplate, value: unknown): number {
+  const scale = value === undefined ? 1 : Number(value);
+  if (!Number.isFinite(scale) || scale <= 0 || scale > MAX_SCALE) {
+    throw new HttpError(`scale must be a number above 0 and up to ${MAX_SCALE}`);
+  }
+  if (template.width * template.height * scale * scale > MAX_OUTPUT_PIXELS) {
+    throw new HttpError('That scale is too large for this template');
+  }
+  return scale;
+}
+
+/**
+ * Render a template as a PNG of one page, or a PDF with a page per template page
+ */
+export async function renderTemplate(
+  template: ApiTemplate,
+  inputs: FrameInputs,
+  { format, page, scale }: { format: RenderFormat; page?: number; scale: number }
+): Promise<Uint8Array> {
+  if (format === 'png') {
+    const canvas = await renderPage(template, (page || 1) - 1, inputs, scale);
+    return canvas.toBuffer('image/png');
+  }
+
+  const pageIndexes = page ? [page - 1] : template.pages.map((_, index) => index);
+  const pageSize = [template.width / CSS_PIXELS_PER_MM, template.height / CSS_PIXELS_PER_MM];
+  const pdf = new jsPDF({
+    orientation: template.width >= template.height ? 'landscape' : 'portrait',
+    unit: 'mm',
+    format: pageSize,
+  });
+
+  for (const [position, pageIndex] of pageIndexes.entries()) {
+    if (position > 0) pdf.addPage(pageSize);
+    const canvas = await renderPage(template, pageIndex, inputs, scale);
+    pdf.addImage(canvas.toDataURL('image/png'), 'PNG', 0, 0, pageSize[0], pageSize[1]);
+  }
+
+  return new Uint8Array(pdf.output('arraybuffer'));
+}
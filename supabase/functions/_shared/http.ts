@@ -0,0 +1,11 @@
+/**
+ * HTTP Errors
+ * Errors an Edge Function returns to the caller as `{ error }` with their status code
+ */
+
+export class HttpError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Organization Invite Tokens
+ * An invite link carries `<invite id>.<expiry>.<signature>`, signed with HMAC-SHA256 and
+ * ORGANIZATION_INVITE_SECRET. The signature stops IDs being guessed or expiries extended;
+ * the `organization_invites` row still decides whether the invite is open.
+ */
+
+export const INVITE_ROLES = ['admin', 'editor', 'viewer'] as const;
+export type InviteRole = typeof INVITE_ROLES[number];
+
+export const INVITE_TTL_DAYS = 7;
+
+export interface InviteTokenPayload {
+  inviteId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Read the signing secret, failing loudly if it isn't configured
+ */
+function getInviteSecret(): string {
+  const secret = Deno.env.get('ORGANIZATION_INVITE_SECRET');
+  if (!secret) throw new Error('ORGANIZATION_INVITE_SECRET is not set');
+  return secret;
+}
+
+const toBase64Url = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/**
+ * Sign a payload with the invite secret
+ */
+async function sign(payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getInviteSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+/**
+ * Create the token for an invite link
+ */
+export async function createInviteToken(inviteId: string, expiresAt: Date): Promise<string> {
+  const payload = `${inviteId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${await sign(payload)}`;
+}
+
+/**
+ * Check an invite token's signature and expiry, returning its invite ID if both hold
+ */
+export async function verifyInviteToken(token: unknown): Promise<InviteTokenPayload | null> {
+  if (typeof token !== 'string') return null;
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [inviteId, expiresAtSeconds, signature] = parts;
+  const expected = await sign(`${inviteId}.${expiresAtSeconds}`);
+  if (expected.length !== signature.length) return null;
+
+  // Constant-time comparison
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  if (difference !== 0) return null;
+
+  const expiresAt = new Date(Number(expiresAtSeconds) * 1000);
+  if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() < Date.now()) return null;
+
+  return { inviteId, expiresAt };
+}
+
+/**
+ * Build the link an invitee opens to join
+ */
+export function getInviteUrl(token: string): string {
+  const siteUrl = Deno.env.get('SITE_URL') || 'http://localhost:8080';
+  return `${siteUrl}/invite/${encodeURIComponent(token)}`;
+}
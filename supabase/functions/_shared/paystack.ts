@@ -0,0 +1,147 @@
+/**
+ * Paystack API
+ * Server-only access to Paystack. The secret key never leaves the Edge Functions.
+ * Set PAYSTACK_BASE_URL to point at a local mock server during development.
+ */
+
+export const PAYSTACK_CURRENCY = 'GHS';
+export const PAYSTACK_CHANNELS = ['card', 'mobile_money', 'bank'];
+
+export interface PaystackTransaction {
+  id: number;
+  status: string; // 'success' | 'failed' | 'abandoned' | ...
+  reference: string;
+  amount: number; // Minor units (pesewas)
+  currency: string;
+  channel?: string;
+  paid_at?: string | null;
+  metadata?: Record<string, unknown> | string | null;
+  customer?: { email?: string; customer_code?: string };
+}
+
+interface PaystackResponse<T> {
+  status: boolean;
+  message: string;
+  data: T;
+}
+
+/**
+ * Read the Paystack secret key, failing loudly if it isn't configured
+ */
+function getSecretKey(): string {
+  const secretKey = Deno.env.get('PAYSTACK_SECRET_KEY');
+  if (!secretKey) throw new Error('PAYSTACK_SECRET_KEY is not set');
+  return secretKey;
+}
+
+function getBaseUrl(): string {
+  return (Deno.env.get('PAYSTACK_BASE_URL') || 'https://api.paystack.co').replace(/\/$/, '');
+}
+
+/**
+ * Call the Paystack API with the secret key
+ */
+async function paystackRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${getBaseUrl()}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${getSecretKey()}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  const result = await response.json().catch(() => null) as PaystackResponse<T> | null;
+  if (!response.ok || !result?.status) {
+    throw new Error(result?.message || `Paystack request failed: ${response.status}`);
+  }
+  return result.data;
+}
+
+/**
+ * Start a transaction and get the hosted checkout URL
+ */
+export function initializeTransaction(data: {
+  email: string;
+  amount: number; // GHS
+  reference: string;
+  callback_url: string;
+  metadata: Record<string, unknown>;
+}) {
+  return paystackRequest<{ authorization_url: string; access_code: string; reference: string }>(
+    '/transaction/initialize',
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        ...data,
+        amount: Math.round(data.amount * 100), // Convert to pesewas
+        currency: PAYSTACK_CURRENCY,
+        channels: PAYSTACK_CHANNELS,
+      }),
+    }
+  );
+}
+
+/**
+ * Fetch a transaction's current state from Paystack
+ */
+export function verifyTransaction(reference: string) {
+  return paystackRequest<PaystackTransaction>(`/transaction/verify/${encodeURIComponent(reference)}`);
+}
+
+/**
+ * Read transaction metadata, which Paystack may return as a JSON string
+ */
+export function getTransactionMetadata(transaction: PaystackTransaction): Record<string, unknown> {
+  const { metadata } = transaction;
+  if (!metadata) return {};
+  if (typeof metadata === 'string') {
+    try {
+      return JSON.parse(metadata);
+    } catch {
+      return {};
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Generate a unique transaction reference
+ */
+export function generateReference(prefix: string): string {
+  return `${prefix}_${Date.now()}_${crypto.randomUUID().replace(/-/g, '').slice(0, 10)}`.toUpperCase();
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Sign a payload the way Paystack signs webhooks: hex HMAC-SHA512 with the secret key
+ */
+export async function signPayload(payload: string, secretKey: string = getSecretKey()): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secretKey),
+    { name: 'HMAC', hash: 'SHA-512' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+/**
+ * Check the `x-paystack-signature` header against the raw request body
+ */
+export async function verifyWebhookSignature(rawBody: string, signature: string | null): Promise<boolean> {
+  if (!signature) return false;
+  const expected = await signPayload(rawBody);
+  if (expected.length !== signature.length) return false;
+
+  // Constant-time comparison
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,77 @@
+/**
+ * Billing Catalog
+ * Server-side prices, read from the `plans` and `event_packages` tables.
+ * The client only sends a plan or package ID; the amount charged always comes from here.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface BillingPlan {
+  id: string;
+  name: string;
+  price: number; // GHS
+  isPublic: boolean;
+}
+
+export interface EventPackage {
+  id: string;
+  name: string;
+  price: number; // GHS
+}
+
+export const FREE_PLAN_ID = 'free';
+
+// Length of a paid period when Paystack doesn't tell us the next payment date
+export const SUBSCRIPTION_PERIOD_DAYS = 30;
+
+/**
+ * Find a paid plan by ID. Older clients sent uppercase keys such as `CREATOR_PRO`.
+ * Hidden plans are still found so payments started before a plan was withdrawn can complete.
+ */
+export async function findBillingPlan(admin: SupabaseClient, planId: unknown): Promise<BillingPlan | null> {
+  if (typeof planId !== 'string' || !planId) return null;
+
+  const { data, error } = await admin
+    .from('plans')
+    .select('id, name, price, is_public')
+    .eq('id', planId.toLowerCase())
+    .gt('price', 0)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return { id: data.id, name: data.name, price: Number(data.price), isPublic: data.is_public };
+}
+
+/**
+ * Find an event package by ID, by default only if it is still on sale
+ */
+export async function findEventPackage(
+  admin: SupabaseClient,
+  packageId: unknown,
+  onSaleOnly = true
+): Promise<EventPackage | null> {
+  if (typeof packageId !== 'string' || !packageId) return null;
+
+  let query = admin
+    .from('event_packages')
+    .select('id, name, price')
+    .eq('id', packageId.toLowerCase());
+  if (onSaleOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return { id: data.id, name: data.name, price: Number(data.price) };
+}
+
+/**
+ * Get a plan's display name, falling back to its ID
+ */
+export async function getPlanName(admin: SupabaseClient, planId: string): Promise<string> {
+  const { data } = await admin.from('plans').select('name').eq('id', planId).maybeSingle();
+  return data?.name || planId;
+}
@@ -0,0 +1,156 @@
+/**
+ * Prefill Link Tokens
+ * A signed prefill link carries `?prefill=<payload>.<signature>`. The payload is base64url
+ * JSON `{ t: template id, f: { field key: value }, e?: expiry in unix seconds }` and the
+ * signature is base64url HMAC-SHA256 of the payload part, keyed with the template's link key.
+ * Registration systems can sign links the same way with a key copied from the editor.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { HttpError } from './http.ts';
+
+export const MAX_PREFILL_FIELDS = 50;
+export const MAX_PREFILL_VALUE_LENGTH = 500;
+
+export interface PrefillPayload {
+  fields: Record<string, string>;
+  expiresAt: Date | null;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+/**
+ * Create a new random link key
+ */
+export function generateLinkKey(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Sign a payload part with a template's link key
+ */
+async function sign(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload))));
+}
+
+/**
+ * Check prefill fields are plain strings within the limits
+ */
+export function parsePrefillFields(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError('Fields must be an object of field keys and values');
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) throw new HttpError('Add at least one field');
+  if (entries.length > MAX_PREFILL_FIELDS) throw new HttpError(`A link can prefill up to ${MAX_PREFILL_FIELDS} fields`);
+
+  return Object.fromEntries(entries.map(([key, fieldValue]) => {
+    if (typeof fieldValue !== 'string') throw new HttpError(`The value for "${key}" must be text`);
+    if (fieldValue.length > MAX_PREFILL_VALUE_LENGTH) {
+      throw new HttpError(`The value for "${key}" is longer than ${MAX_PREFILL_VALUE_LENGTH} characters`);
+    }
+    return [key, fieldValue];
+  }));
+}
+
+/**
+ * Create the token for a signed prefill link
+ */
+export async function createPrefillToken(
+  secret: string,
+  templateId: string,
+  fields: Record<string, string>,
+  expiresAt: Date | null
+): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify({
+    t: templateId,
+    f: fields,
+    ...(expiresAt ? { e: Math.floor(expiresAt.getTime() / 1000) } : {}),
+  })));
+  return `${payload}.${await sign(secret, payload)}`;
+}
+
+/**
+ * Check a token's signature, template and expiry, returning its fields if all hold
+ */
+export async function verifyPrefillToken(secret: string, templateId: string, token: unknown): Promise<PrefillPayload | null> {
+  if (typeof token !== 'string') return null;
+
+  const parts = token.split('.');
+  if (parts.length !== 2) return null;
+
+  const [payload, signature] = parts;
+  const expected = await sign(secret, payload);
+  if (expected.length !== signature.length) return null;
+
+  // Constant-time comparison
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  if (difference !== 0) return null;
+
+  let data: { t?: unknown; f?: unknown; e?: unknown };
+  try {
+    data = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+  } catch {
+    return null;
+  }
+  if (data.t !== templateId) return null;
+
+  const expiresAt = typeof data.e === 'number' ? new Date(data.e * 1000) : null;
+  if (expiresAt && expiresAt.getTime() < Date.now()) return null;
+
+  try {
+    return { fields: parsePrefillFields(data.f), expiresAt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get a template's link key, creating one the first time
+ */
+export async function getLinkKey(admin: SupabaseClient, templateId: string, userId?: string): Promise<string> {
+  const { data, error } = await admin
+    .from('template_link_keys')
+    .select('secret')
+    .eq('template_id', templateId)
+    .maybeSingle();
+  if (error) throw error;
+  if (data) return data.secret;
+  if (!userId) throw new HttpError('This template has no signed links', 404);
+
+  // Two requests can race to create the key; whichever insert wins is the key
+  const { error: insertError } = await admin
+    .from('template_link_keys')
+    .upsert({ template_id: templateId, secret: generateLinkKey(), created_by: userId }, { onConflict: 'template_id', ignoreDuplicates: true });
+  if (insertError) throw insertError;
+
+  return getLinkKey(admin, templateId);
+}
+
+/**
+ * Build the generator link for a template with a signed prefill token
+ */
+export function getPrefillUrl(templateId: string, token: string): string {
+  const siteUrl = Deno.env.get('SITE_URL') || 'http://localhost:8080';
+  return `${siteUrl}/flyer/${templateId}?prefill=${encodeURIComponent(token)}`;
+}
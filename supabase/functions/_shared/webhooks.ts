@@ -0,0 +1,224 @@
+/**
+ * Webhook Deliveries
+ * Each delivery is a POST of the event JSON with these headers:
+ *   X-DynamicFlyer-Event: <event type>
+ *   X-DynamicFlyer-Delivery: <delivery id>
+ *   X-DynamicFlyer-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ * keyed with the endpoint's secret. A 2xx response counts as delivered; anything else is
+ * retried with backoff until MAX_ATTEMPTS.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { HttpError } from './http.ts';
+
+export const WEBHOOK_EVENTS = [
+  'generation.created',
+  'template.published',
+  'download_limit.reached',
+  'subscription.changed',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  payload: unknown;
+  attempts: number;
+}
+
+export const MAX_ATTEMPTS = 8;
+
+// Wait before each retry; the last entry repeats if attempts outnumber it
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 360, 720, 1440];
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_LENGTH = 1000;
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array) => [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Create a new random signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${toHex(crypto.getRandomValues(new Uint8Array(32)))}`;
+}
+
+/**
+ * Check requested events are known
+ */
+export function parseWebhookEvents(value: unknown): WebhookEvent[] {
+  if (!Array.isArray(value) || value.length === 0) throw new HttpError('Choose at least one event');
+
+  const events = [...new Set(value)];
+  const unknown = events.find(event => !WEBHOOK_EVENTS.includes(event));
+  if (unknown !== undefined) throw new HttpError(`Unknown event "${unknown}"`);
+  return events as WebhookEvent[];
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+  const ipv4 = ip.match(/^(?:::ffff:)?(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (ipv4) {
+    const [a, b] = ipv4.slice(1, 3).map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127) // Carrier-grade NAT
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && (b === 0 || b === 168))
+      || (a === 198 && (b === 18 || b === 19));
+  }
+
+  if (!ip.includes(':')) return true; // Not an IP address at all
+
+  // IPv4-mapped addresses in hex form, e.g. ::ffff:7f00:1
+  const mapped = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const [high, low] = mapped.slice(1).map(part => parseInt(part, 16));
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  return ip === '::' || ip === '::1'
+    || /^f[cd]/.test(ip) // Unique local, fc00::/7
+    || /^fe[89ab]/.test(ip) // Link-local, fe80::/10
+    || ip.startsWith('ff') // Multicast
+    || ip.startsWith('64:ff9b:') // NAT64 can reach private IPv4
+    || ip.startsWith('::'); // Other IPv4-compatible and reserved forms
+}
+
+/**
+ * Resolve a webhook host and check every address it points at is public. Run before each
+ * delivery, since a name can start resolving to an internal address after it is registered.
+ */
+export async function assertPublicWebhookHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (/^[\d.]+$/.test(host) || host.includes(':')) {
+    if (isPrivateAddress(host)) throw new Error('Webhook host is not on the public internet');
+    return;
+  }
+
+  const results = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+  const addresses = results.flatMap(result => (result.status === 'fulfilled' ? result.value : []));
+  if (addresses.length === 0) throw new Error(`Could not resolve ${host}`);
+  if (addresses.some(isPrivateAddress)) throw new Error(`${host} resolves to an address that is not on the public internet`);
+}
+
+/**
+ * Check an endpoint URL is an https URL that isn't on this machine's network
+ */
+export function parseWebhookUrl(value: unknown): string {
+  let url: URL;
+  try {
+    url = new URL(typeof value === 'string' ? value.trim() : '');
+  } catch {
+    throw new HttpError('Enter a valid URL');
+  }
+
+  // The URL parser has already turned decimal and hex IPv4 forms into dotted quads
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (url.protocol !== 'https:') throw new HttpError('Webhook URLs must use https');
+  if (/^localhost$|\.localhost$|\.local$|\.internal$/i.test(host) || ((/^[\d.]+$/.test(host) || host.includes(':')) && isPrivateAddress(host))) {
+    throw new HttpError('Webhook URLs must be reachable on the public internet');
+  }
+  if (url.href.length > 2000) throw new HttpError('That URL is too long');
+  return url.href;
+}
+
+/**
+ * The signature header value for a body sent at a time
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(new Uint8Array(signature))}`;
+}
+
+/**
+ * Send one delivery and record the outcome, scheduling a retry if it failed
+ */
+export async function sendWebhookDelivery(
+  admin: SupabaseClient,
+  delivery: WebhookDelivery,
+  endpoint: { url: string; secret: string }
+): Promise<{ status: 'pending' | 'succeeded' | 'failed' }> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    await assertPublicWebhookHost(new URL(endpoint.url).hostname);
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DynamicFlyer-Webhooks/1.0',
+        'X-DynamicFlyer-Event': delivery.event_type,
+        'X-DynamicFlyer-Delivery': delivery.id,
+        'X-DynamicFlyer-Signature': await signWebhookPayload(endpoint.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_LENGTH);
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const status = succeeded ? 'succeeded' : attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+  const retryMinutes = RETRY_DELAYS_MINUTES[Math.min(attempts - 1, RETRY_DELAYS_MINUTES.length - 1)];
+
+  const { error } = await admin
+    .from('webhook_deliveries')
+    .update({
+      status,
+      attempts,
+      last_attempt_at: new Date().toISOString(),
+      next_attempt_at: status === 'pending' ? new Date(Date.now() + retryMinutes * 60_000).toISOString() : null,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error: errorMessage || (succeeded ? null : `Endpoint responded with ${responseStatus}`),
+    })
+    .eq('id', delivery.id);
+  if (error) throw error;
+
+  return { status };
+}
+
+/**
+ * Look up the URL and secret of an endpoint
+ */
+export async function getWebhookEndpointTarget(
+  admin: SupabaseClient,
+  endpointId: string
+): Promise<{ url: string; secret: string; active: boolean } | null> {
+  const { data, error } = await admin
+    .from('webhook_endpoints')
+    .select('url, active, webhook_endpoint_secrets(secret)')
+    .eq('id', endpointId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const secret = data?.webhook_endpoint_secrets?.secret;
+  if (!data || !secret) return null;
+  return { url: data.url, secret, active: data.active };
+}
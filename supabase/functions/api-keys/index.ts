@@ -0,0 +1,117 @@
+/**
+ * API Keys
+ * Creates and revokes keys for the public API. Creating one needs a plan with API access;
+ * organization keys can only be created by the organization's owners and admins. The full
+ * key is only ever returned here, once.
+ *
+ * POST { action: 'create', name, scopes?, organization_id? }
+ * -> { key, api_key }
+ * POST { action: 'revoke', id }
+ * -> { api_key }
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getRequestUser } from '../_shared/auth.ts';
+import { createAdminClient } from '../_shared/billing.ts';
+import { HttpError } from '../_shared/http.ts';
+import { generateApiKey, parseApiScopes } from '../_shared/apiKeys.ts';
+
+const MAX_ACTIVE_KEYS = 20;
+const API_KEY_COLUMNS = 'id, user_id, organization_id, name, key_prefix, scopes, last_used_at, revoked_at, created_at';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  try {
+    const admin = createAdminClient();
+    const user = await getRequestUser(admin, req);
+    const body = await req.json().catch(() => ({}));
+
+    if (body.action === 'revoke') {
+      const id = typeof body.id === 'string' ? body.id : '';
+      if (!id) throw new HttpError('Choose a key to revoke');
+
+      const { data, error } = await admin
+        .from('api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .is('revoked_at', null)
+        .select(API_KEY_COLUMNS)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) throw new HttpError('Key not found or already revoked', 404);
+
+      return jsonResponse({ api_key: data });
+    }
+
+    if (body.action !== 'create') throw new HttpError('Unknown action');
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100) throw new HttpError('Give the key a name of up to 100 characters');
+    const scopes = parseApiScopes(body.scopes);
+    const organizationId = typeof body.organization_id === 'string' && body.organization_id ? body.organization_id : null;
+
+    const { data: profile, error: profileError } = await admin
+      .from('profiles')
+      .select('subscription_tier')
+      .eq('id', user.id)
+      .maybeSingle();
+    if (profileError) throw profileError;
+
+    const { data: plan, error: planError } = await admin
+      .from('plans')
+      .select('name, api_access')
+      .eq('id', profile?.subscription_tier || 'free')
+      .maybeSingle();
+    if (planError) throw planError;
+    if (!plan?.api_access) {
+      throw new HttpError(`API access is not included in the ${plan?.name || 'Free'} plan`, 403);
+    }
+
+    if (organizationId) {
+      const { data: membership, error: membershipError } = await admin
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', organizationId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (membershipError) throw membershipError;
+      if (!membership || !['owner', 'admin'].includes(membership.role)) {
+        throw new HttpError('Only organization owners and admins can create keys for it', 403);
+      }
+    }
+
+    const { count, error: countError } = await admin
+      .from('api_keys')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('revoked_at', null);
+    if (countError) throw countError;
+    if ((count || 0) >= MAX_ACTIVE_KEYS) {
+      throw new HttpError(`You can have up to ${MAX_ACTIVE_KEYS} active keys. Revoke one first.`);
+    }
+
+    const { key, prefix, hash } = await generateApiKey();
+    const { data, error } = await admin
+      .from('api_keys')
+      .insert({
+        user_id: user.id,
+        organization_id: organizationId,
+        name,
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+    if (error) throw error;
+
+    return jsonResponse({ key, api_key: data });
+  } catch (error) {
+    if (error instanceof HttpError) return jsonResponse({ error: error.message }, error.status);
+    console.error('API key error:', error);
+    return jsonResponse({ error: 'Failed to update API keys' }, 500);
+  }
+});
@@ -0,0 +1,138 @@
+/**
+ * Public API v1
+ * REST endpoints for generating flyers from code, authenticated with an API key sent as
+ * `Authorization: Bearer <key>` or `X-API-Key: <key>`. Every request counts as an API call;
+ * renders also count as exports.
+ *
+ * GET  /api-v1/templates                       (templates:read)
+ * -> { data: [{ id, name, description, width, height, live, updated_at }] }
+ * GET  /api-v1/templates/:id                   (templates:read)
+ * -> { data: { id, name, description, width, height, pages, fields } }
+ * POST /api-v1/templates/:id/render            (flyers:render)
+ *      { inputs: { <field key or frame id>: value }, format?: 'png' | 'pdf', page?, scale? }
+ * -> the PNG or PDF file
+ */
+
+import { corsHeaders } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/billing.ts';
+import { HttpError } from '../_shared/http.ts';
+import { authenticateApiKey, logApiCall, requireScope } from '../_shared/apiKeys.ts';
+import {
+  TEMPLATE_LIST_COLUMNS,
+  getTemplateFields,
+  inKeyWorkspace,
+  isTemplateLive,
+  loadApiTemplate,
+  resolveApiInputs,
+} from '../_shared/apiTemplates.ts';
+import { RENDER_FORMATS, parseRenderScale, renderTemplate, type RenderFormat } from '../_shared/flyerRenderer.ts';
+
+const apiCorsHeaders = {
+  ...corsHeaders,
+  'Access-Control-Allow-Headers': `${corsHeaders['Access-Control-Allow-Headers']}, x-api-key`,
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const CONTENT_TYPES: Record<RenderFormat, string> = {
+  png: 'image/png',
+  pdf: 'application/pdf',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...apiCorsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: apiCorsHeaders });
+
+  // Paths arrive as /api-v1/templates/...; everything after the function name is the route
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  const route = segments.slice(segments.indexOf('api-v1') + 1);
+  const [resource, templateId, action] = route;
+
+  try {
+    if (resource !== 'templates' || route.length > 3 || (action && action !== 'render')) {
+      throw new HttpError('Not found', 404);
+    }
+
+    const admin = createAdminClient();
+    const apiKey = await authenticateApiKey(admin, req);
+
+    if (!templateId) {
+      if (req.method !== 'GET') throw new HttpError('Method not allowed', 405);
+      requireScope(apiKey, 'templates:read');
+      await logApiCall(admin, apiKey, 'GET /templates');
+
+      const { data, error } = await inKeyWorkspace(
+        admin.from('templates').select(TEMPLATE_LIST_COLUMNS),
+        apiKey
+      ).order('updated_at', { ascending: false });
+      if (error) throw error;
+
+      return json({
+        data: (data || []).map(template => ({
+          id: template.id,
+          name: template.name,
+          description: template.description,
+          template_type: template.template_type,
+          width: template.canvas_width,
+          height: template.canvas_height,
+          live: isTemplateLive(template),
+          updated_at: template.updated_at,
+        })),
+      });
+    }
+
+    if (!action) {
+      if (req.method !== 'GET') throw new HttpError('Method not allowed', 405);
+      requireScope(apiKey, 'templates:read');
+      await logApiCall(admin, apiKey, 'GET /templates/:id', { templateId });
+
+      const template = await loadApiTemplate(admin, apiKey, templateId);
+      return json({
+        data: {
+          id: template.id,
+          name: template.name,
+          description: template.description,
+          width: template.width,
+          height: template.height,
+          pages: template.pages.length,
+          fields: getTemplateFields(template),
+        },
+      });
+    }
+
+    if (req.method !== 'POST') throw new HttpError('Method not allowed', 405);
+    requireScope(apiKey, 'flyers:render');
+
+    const body = await req.json().catch(() => ({}));
+    const format: RenderFormat = body.format ?? 'png';
+    if (!RENDER_FORMATS.includes(format)) throw new HttpError(`format must be one of ${RENDER_FORMATS.join(', ')}`);
+
+    const template = await loadApiTemplate(admin, apiKey, templateId);
+    const page = body.page === undefined ? undefined : Number(body.page);
+    if (page !== undefined && !(Number.isInteger(page) && page >= 1 && page <= template.pages.length)) {
+      throw new HttpError(`page must be between 1 and ${template.pages.length}`);
+    }
+    const scale = parseRenderScale(template, body.scale);
+    const inputs = resolveApiInputs(template, body.inputs);
+
+    // Logged before rendering so a plan at its export limit is turned away without the work
+    await logApiCall(admin, apiKey, 'POST /templates/:id/render', { templateId, exportFormat: format });
+
+    const file = await renderTemplate(template, inputs, { format, page, scale });
+    return new Response(file, {
+      headers: {
+        ...apiCorsHeaders,
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="flyer-${template.id}.${format}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof HttpError) return json({ error: error.message }, error.status);
+    console.error('API error:', error);
+    return json({ error: 'Something went wrong' }, 500);
+  }
+});
@@ -0,0 +1,75 @@
+/**
+ * Organization Invite Accept
+ * Redeems a signed invite link for the signed-in user. The link only works for the email
+ * address it was sent to, once, and before it expires.
+ *
+ * POST { token }
+ * -> { organization_id, organization_name, role }
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getRequestUser } from '../_shared/auth.ts';
+import { createAdminClient } from '../_shared/billing.ts';
+import { HttpError } from '../_shared/http.ts';
+import { verifyInviteToken } from '../_shared/invites.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  try {
+    const admin = createAdminClient();
+    const user = await getRequestUser(admin, req);
+    const body = await req.json().catch(() => ({}));
+
+    const payload = await verifyInviteToken(body.token);
+    if (!payload) throw new HttpError('This invite link is invalid or has expired');
+
+    const { data: invite, error: inviteError } = await admin
+      .from('organization_invites')
+      .select('id, organization_id, email, role, invited_by, expires_at, accepted_at, organizations(name)')
+      .eq('id', payload.inviteId)
+      .maybeSingle();
+    if (inviteError) throw inviteError;
+
+    if (!invite || new Date(invite.expires_at).getTime() < Date.now()) {
+      throw new HttpError('This invite has been revoked or has expired');
+    }
+    if (invite.accepted_at) throw new HttpError('This invite has already been used');
+    if (!user.email || user.email.toLowerCase() !== invite.email.toLowerCase()) {
+      throw new HttpError(`This invite was sent to ${invite.email}. Sign in with that address to accept it.`, 403);
+    }
+
+    // Claim the invite first so two tabs can't both redeem it
+    const { data: claimed, error: claimError } = await admin
+      .from('organization_invites')
+      .update({ accepted_at: new Date().toISOString(), accepted_by: user.id })
+      .eq('id', invite.id)
+      .is('accepted_at', null)
+      .select('id');
+    if (claimError) throw claimError;
+    if (!claimed?.length) throw new HttpError('This invite has already been used');
+
+    // Someone who is already a member keeps their current role
+    const { error: memberError } = await admin
+      .from('organization_members')
+      .upsert({
+        organization_id: invite.organization_id,
+        user_id: user.id,
+        role: invite.role,
+        invited_by: invite.invited_by,
+      }, { onConflict: 'organization_id,user_id', ignoreDuplicates: true });
+    if (memberError) throw memberError;
+
+    const organization = invite.organizations as { name?: string } | null;
+    return jsonResponse({
+      organization_id: invite.organization_id,
+      organization_name: organization?.name || 'your organization',
+      role: invite.role,
+    });
+  } catch (error) {
+    if (error instanceof HttpError) return jsonResponse({ error: error.message }, error.status);
+    console.error('Organization invite accept error:', error);
+    return jsonResponse({ error: 'Failed to accept invite' }, 500);
+  }
+});
@@ -0,0 +1,109 @@
+/**
+ * Organization Invite
+ * Lets an organization owner or admin invite someone by email. Creates the invite row,
+ * signs the link and, for addresses without an account yet, emails it through Supabase Auth.
+ * People who already have an account get the link from whoever invited them.
+ *
+ * POST { organization_id, email, role }
+ * -> { invite_id, invite_url, email_sent }
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getRequestUser } from '../_shared/auth.ts';
+import { createAdminClient } from '../_shared/billing.ts';
+import { HttpError } from '../_shared/http.ts';
+import { INVITE_ROLES, INVITE_TTL_DAYS, createInviteToken, getInviteUrl, type InviteRole } from '../_shared/invites.ts';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  try {
+    const admin = createAdminClient();
+    const user = await getRequestUser(admin, req);
+    const body = await req.json().catch(() => ({}));
+
+    const organizationId = typeof body.organization_id === 'string' ? body.organization_id : '';
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    const role = body.role as InviteRole;
+
+    if (!organizationId) throw new HttpError('Choose an organization');
+    if (!EMAIL_PATTERN.test(email)) throw new HttpError('Enter a valid email address');
+    if (!INVITE_ROLES.includes(role)) throw new HttpError('Invalid role');
+
+    // Addresses are matched ignoring case, as they are for billing
+    const emailMatch = email.replace(/[%_\\]/g, '\\$&');
+
+    const { data: membership, error: membershipError } = await admin
+      .from('organization_members')
+      .select('role')
+      .eq('organization_id', organizationId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (membershipError) throw membershipError;
+
+    if (!membership || !['owner', 'admin'].includes(membership.role)) {
+      throw new HttpError('Only owners and admins can invite members', 403);
+    }
+    if (role === 'admin' && membership.role !== 'owner') {
+      throw new HttpError('Only owners can invite admins', 403);
+    }
+
+    const { data: existingProfile } = await admin
+      .from('profiles')
+      .select('id')
+      .ilike('email', emailMatch)
+      .maybeSingle();
+
+    if (existingProfile) {
+      const { data: existingMember } = await admin
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', organizationId)
+        .eq('user_id', existingProfile.id)
+        .maybeSingle();
+      if (existingMember) throw new HttpError('That person is already a member');
+    }
+
+    // Inviting the same address again replaces the open invite, which restarts its expiry
+    const { error: replaceError } = await admin
+      .from('organization_invites')
+      .delete()
+      .eq('organization_id', organizationId)
+      .ilike('email', emailMatch)
+      .is('accepted_at', null);
+    if (replaceError) throw replaceError;
+
+    const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const { data: invite, error: inviteError } = await admin
+      .from('organization_invites')
+      .insert({
+        organization_id: organizationId,
+        email,
+        role,
+        invited_by: user.id,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select('id')
+      .single();
+    if (inviteError) throw inviteError;
+
+    const inviteUrl = getInviteUrl(await createInviteToken(invite.id, expiresAt));
+
+    // Supabase Auth only emails addresses that don't have an account yet
+    let emailSent = false;
+    if (!existingProfile) {
+      const { error: emailError } = await admin.auth.admin.inviteUserByEmail(email, { redirectTo: inviteUrl });
+      if (emailError) console.warn('Invite email not sent:', emailError.message);
+      emailSent = !emailError;
+    }
+
+    return jsonResponse({ invite_id: invite.id, invite_url: inviteUrl, email_sent: emailSent });
+  } catch (error) {
+    if (error instanceof HttpError) return jsonResponse({ error: error.message }, error.status);
+    console.error('Organization invite error:', error);
+    return jsonResponse({ error: 'Failed to create invite' }, 500);
+  }
+});
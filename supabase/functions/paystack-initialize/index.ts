@@ -0,0 +1,163 @@
+/**
+ * Paystack Initialize
+ * Starts checkout for a plan, an event package or a marketplace template. The amount comes
+ * from the `plans` and `event_packages` tables or the template's approved listing, and the
+ * reference is generated here, so neither can be chosen by the browser.
+ *
+ * POST { plan_id } | { package_id } | { template_id }, plus an optional callback_url
+ * -> { authorization_url, reference }
+ */
+
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getRequestUser } from '../_shared/auth.ts';
+import { BillingError, createAdminClient } from '../_shared/billing.ts';
+import { findBillingPlan, findEventPackage } from '../_shared/plans.ts';
+import { PAYSTACK_CURRENCY, generateReference, initializeTransaction } from '../_shared/paystack.ts';
+
+/**
+ * Only redirect back to our own site after checkout
+ */
+function getCallbackUrl(requested: unknown, reference: string): string {
+  const siteUrl = Deno.env.get('SITE_URL');
+  const fallback = `${siteUrl || 'http://localhost:8080'}/dashboard/subscription/success`;
+
+  let url: URL;
+  try {
+    url = new URL(typeof requested === 'string' && requested ? requested : fallback);
+  } catch {
+    url = new URL(fallback);
+  }
+  if (siteUrl && url.origin !== new URL(siteUrl).origin) url = new URL(fallback);
+
+  url.searchParams.set('reference', reference);
+  return url.toString();
+}
+
+/**
+ * Start checkout for an approved marketplace listing, recording the pending purchase
+ */
+async function initializeTemplatePurchase(admin: SupabaseClient, user: User, templateId: string, callbackUrl: unknown) {
+  const { data: template, error } = await admin
+    .from('templates')
+    .select('id, user_id, price, listing_status, listing_version_id')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!template || template.listing_status !== 'approved' || !template.listing_version_id || !template.price) {
+    throw new BillingError('This template is not for sale', 404);
+  }
+  if (template.user_id === user.id) throw new BillingError('You cannot buy your own template');
+  if (!user.email) throw new BillingError('Add an email address to your account to buy templates');
+
+  const { data: owned, error: ownedError } = await admin
+    .from('template_purchases')
+    .select('id')
+    .eq('template_id', template.id)
+    .eq('buyer_id', user.id)
+    .eq('status', 'paid')
+    .maybeSingle();
+
+  if (ownedError) throw ownedError;
+  if (owned) throw new BillingError('You already own this template', 409);
+
+  const { data: version, error: versionError } = await admin
+    .from('template_versions')
+    .select('name')
+    .eq('id', template.listing_version_id)
+    .single();
+
+  if (versionError) throw versionError;
+
+  const reference = generateReference('TPL');
+  const { data: purchase, error: purchaseError } = await admin
+    .from('template_purchases')
+    .insert({
+      template_id: template.id,
+      version_id: template.listing_version_id,
+      template_name: version.name,
+      buyer_id: user.id,
+      seller_id: template.user_id,
+      price: template.price,
+      currency: PAYSTACK_CURRENCY,
+      paystack_reference: reference,
+    })
+    .select('id')
+    .single();
+
+  if (purchaseError) throw purchaseError;
+
+  const { error: paymentError } = await admin.from('payments').insert({
+    user_id: user.id,
+    amount: template.price,
+    currency: PAYSTACK_CURRENCY,
+    status: 'pending',
+    paystack_reference: reference,
+    description: `Template: ${version.name}`,
+    metadata: { template_id: template.id, purchase_id: purchase.id },
+  });
+  if (paymentError) throw paymentError;
+
+  const transaction = await initializeTransaction({
+    email: user.email,
+    amount: template.price,
+    reference,
+    callback_url: getCallbackUrl(callbackUrl, reference),
+    metadata: { user_id: user.id, template_id: template.id, purchase_id: purchase.id, template_name: version.name },
+  });
+
+  return { authorization_url: transaction.authorization_url, reference };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  try {
+    const admin = createAdminClient();
+    const user = await getRequestUser(admin, req);
+    const body = await req.json().catch(() => ({}));
+
+    if (typeof body.template_id === 'string' && body.template_id) {
+      return jsonResponse(await initializeTemplatePurchase(admin, user, body.template_id, body.callback_url));
+    }
+
+    const billingPlan = await findBillingPlan(admin, body.plan_id);
+    const plan = billingPlan?.isPublic ? billingPlan : null;
+    const eventPackage = plan ? null : await findEventPackage(admin, body.package_id);
+    const item = plan || eventPackage;
+    if (!item || !user.email) throw new BillingError('Invalid plan or package selected');
+
+    const reference = generateReference(plan ? 'SUB' : 'EVT');
+    const metadata = plan
+      ? { user_id: user.id, plan_id: plan.id, plan_name: plan.name }
+      : { user_id: user.id, package_id: item.id, package_name: item.name };
+
+    // Pending row first, so the webhook and verify endpoint always have something to claim
+    const { error: paymentError } = await admin.from('payments').insert({
+      user_id: user.id,
+      amount: item.price,
+      currency: PAYSTACK_CURRENCY,
+      status: 'pending',
+      paystack_reference: reference,
+      description: plan ? `Subscription: ${plan.name}` : `Event Package: ${item.name}`,
+      metadata: plan ? { plan_id: plan.id } : { package_id: item.id },
+    });
+    if (paymentError) throw paymentError;
+
+    const transaction = await initializeTransaction({
+      email: user.email,
+      amount: item.price,
+      reference,
+      callback_url: getCallbackUrl(body.callback_url, reference),
+      metadata,
+    });
+
+    return jsonResponse({ authorization_url: transaction.authorization_url, reference });
+  } catch (error) {
+    if (error instanceof BillingError) return jsonResponse({ error: error.message }, error.status);
+    console.error('Payment initialization error:', error);
+    return jsonResponse({ error: 'Failed to initialize payment' }, 500);
+  }
+});
@@ -0,0 +1,45 @@
+/**
+ * Paystack Verify
+ * Confirms a transaction with Paystack when the user returns from checkout and applies it.
+ * The webhook applies the same transaction independently; whichever runs first wins.
+ *
+ * POST { reference } -> { status: 'success', plan_id?, package_id?, licensed_template_id?, duplicate_purchase? }
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getRequestUser } from '../_shared/auth.ts';
+import { BillingError, createAdminClient, fulfilTransaction } from '../_shared/billing.ts';
+import { getTransactionMetadata, verifyTransaction } from '../_shared/paystack.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  try {
+    const admin = createAdminClient();
+    const user = await getRequestUser(admin, req);
+    const { reference } = await req.json().catch(() => ({}));
+    if (typeof reference !== 'string' || !reference) throw new BillingError('Missing payment reference');
+
+    const transaction = await verifyTransaction(reference);
+
+    // Users can only confirm their own payments
+    if (getTransactionMetadata(transaction).user_id !== user.id) {
+      throw new BillingError('Payment not found', 404);
+    }
+
+    const result = await fulfilTransaction(admin, transaction);
+
+    return jsonResponse({
+      status: 'success',
+      plan_id: result.planId,
+      package_id: result.packageId,
+      licensed_template_id: result.licensedTemplateId,
+      duplicate_purchase: result.duplicatePurchase,
+    });
+  } catch (error) {
+    if (error instanceof BillingError) return jsonResponse({ error: error.message }, error.status);
+    console.error('Payment verification error:', error);
+    return jsonResponse({ error: 'Payment verification failed' }, 500);
+  }
+});
@@ -0,0 +1,74 @@
+/**
+ * Paystack Webhook
+ * Receives Paystack events, checks their HMAC signature and applies them.
+ * Deployed without JWT verification; the signature is the authentication.
+ *
+ * Handled events: charge.success, subscription.create, subscription.disable, invoice.payment_failed
+ */
+
+import { jsonResponse } from '../_shared/cors.ts';
+import {
+  BillingError,
+  createAdminClient,
+  disablePaystackSubscription,
+  fulfilTransaction,
+  linkPaystackSubscription,
+  recordFailedRenewal,
+  type PaystackInvoiceData,
+  type PaystackSubscriptionData,
+} from '../_shared/billing.ts';
+import { verifyWebhookSignature, type PaystackTransaction } from '../_shared/paystack.ts';
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  // The signature covers the exact bytes sent, so read the body before parsing it
+  const rawBody = await req.text();
+  if (!await verifyWebhookSignature(rawBody, req.headers.get('x-paystack-signature'))) {
+    return jsonResponse({ error: 'Invalid signature' }, 401);
+  }
+
+  let event: { event?: string; data?: unknown };
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON' }, 400);
+  }
+
+  try {
+    const admin = createAdminClient();
+
+    switch (event.event) {
+      case 'charge.success':
+        await fulfilTransaction(admin, event.data as PaystackTransaction);
+        break;
+
+      case 'subscription.create':
+        await linkPaystackSubscription(admin, event.data as PaystackSubscriptionData);
+        break;
+
+      case 'subscription.disable':
+        await disablePaystackSubscription(admin, (event.data as PaystackSubscriptionData)?.subscription_code);
+        break;
+
+      case 'invoice.payment_failed':
+        await recordFailedRenewal(admin, event.data as PaystackInvoiceData);
+        break;
+
+      default:
+        // Acknowledge events we don't use so Paystack stops retrying them
+        break;
+    }
+
+    return jsonResponse({ received: true });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      // Retrying won't fix a bad event; acknowledge it and leave a trail
+      console.warn(`Ignoring ${event.event} event:`, error.message);
+      return jsonResponse({ received: true, ignored: error.message });
+    }
+    // Non-2xx makes Paystack retry later
+    console.error(`Error handling ${event.event} event:`, error);
+    return jsonResponse({ error: 'Webhook processing failed' }, 500);
+  }
+});
@@ -0,0 +1,44 @@
+/**
+ * Prefill Link Verify
+ * Checks a signed prefill link for the public generator and returns the fields it locks.
+ * Anyone with the link can call this; the signature is what's trusted.
+ *
+ * POST { template_id, token }
+ * -> { fields, expires_at }
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/billing.ts';
+import { HttpError } from '../_shared/http.ts';
+import { getLinkKey, verifyPrefillToken } from '../_shared/prefillLinks.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  try {
+    const admin = createAdminClient();
+    const body = await req.json().catch(() => ({}));
+
+    const templateId = typeof body.template_id === 'string' ? body.template_id : '';
+    if (!templateId) throw new HttpError('Missing template');
+
+    const invalid = new HttpError('This personalised link is invalid or has expired');
+    const secret = await getLinkKey(admin, templateId).catch((error) => {
+      if (error instanceof HttpError) throw invalid;
+      throw error;
+    });
+
+    const payload = await verifyPrefillToken(secret, templateId, body.token);
+    if (!payload) throw invalid;
+
+    return jsonResponse({
+      fields: payload.fields,
+      expires_at: payload.expiresAt?.toISOString() ?? null,
+    });
+  } catch (error) {
+    if (error instanceof HttpError) return jsonResponse({ error: error.message }, error.status);
+    console.error('Prefill link verify error:', error);
+    return jsonResponse({ error: 'Failed to check link' }, 500);
+  }
+});
@@ -0,0 +1,101 @@
+/**
+ * Prefill Link
+ * Lets a template's editors create signed prefill links, and read or rotate the link key
+ * that registration systems use to sign links themselves. Rotating the key breaks every
+ * signed link issued with the old one.
+ *
+ * POST { template_id, action: 'sign', fields, expires_in_days? }
+ * -> { token, url, expires_at }
+ * POST { template_id, action: 'get_key' | 'rotate_key' }
+ * -> { key }
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getRequestUser } from '../_shared/auth.ts';
+import { createAdminClient } from '../_shared/billing.ts';
+import { HttpError } from '../_shared/http.ts';
+import {
+  createPrefillToken,
+  generateLinkKey,
+  getLinkKey,
+  getPrefillUrl,
+  parsePrefillFields,
+} from '../_shared/prefillLinks.ts';
+
+const MAX_EXPIRY_DAYS = 365;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  try {
+    const admin = createAdminClient();
+    const user = await getRequestUser(admin, req);
+    const body = await req.json().catch(() => ({}));
+
+    const templateId = typeof body.template_id === 'string' ? body.template_id : '';
+    if (!templateId) throw new HttpError('Choose a template');
+
+    const { data: template, error: templateError } = await admin
+      .from('templates')
+      .select('id, user_id, organization_id')
+      .eq('id', templateId)
+      .maybeSingle();
+    if (templateError) throw templateError;
+    if (!template) throw new HttpError('Template not found', 404);
+
+    // Same people who can edit the template
+    let canEdit = template.user_id === user.id;
+    if (!canEdit && template.organization_id) {
+      const { data: membership, error: membershipError } = await admin
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', template.organization_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (membershipError) throw membershipError;
+      canEdit = !!membership && ['owner', 'admin', 'editor'].includes(membership.role);
+    }
+    if (!canEdit) throw new HttpError('Only people who can edit this template can manage its links', 403);
+
+    if (body.action === 'get_key') {
+      return jsonResponse({ key: await getLinkKey(admin, template.id, user.id) });
+    }
+
+    if (body.action === 'rotate_key') {
+      const key = generateLinkKey();
+      const { error: rotateError } = await admin
+        .from('template_link_keys')
+        .upsert({
+          template_id: template.id,
+          secret: key,
+          created_by: user.id,
+          rotated_at: new Date().toISOString(),
+        }, { onConflict: 'template_id' });
+      if (rotateError) throw rotateError;
+      return jsonResponse({ key });
+    }
+
+    if (body.action !== 'sign') throw new HttpError('Unknown action');
+
+    const fields = parsePrefillFields(body.fields);
+    const expiresInDays = body.expires_in_days == null ? null : Number(body.expires_in_days);
+    if (expiresInDays !== null && !(expiresInDays > 0 && expiresInDays <= MAX_EXPIRY_DAYS)) {
+      throw new HttpError(`Links can expire after 1 to ${MAX_EXPIRY_DAYS} days`);
+    }
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null;
+
+    const secret = await getLinkKey(admin, template.id, user.id);
+    const token = await createPrefillToken(secret, template.id, fields, expiresAt);
+
+    return jsonResponse({
+      token,
+      url: getPrefillUrl(template.id, token),
+      expires_at: expiresAt?.toISOString() ?? null,
+    });
+  } catch (error) {
+    if (error instanceof HttpError) return jsonResponse({ error: error.message }, error.status);
+    console.error('Prefill link error:', error);
+    return jsonResponse({ error: 'Failed to create link' }, 500);
+  }
+});
@@ -0,0 +1,58 @@
+/**
+ * Webhook Dispatch
+ * Sends queued webhook deliveries that are due, including retries. Run every minute by a
+ * scheduled job that sends `X-Dispatch-Secret: <WEBHOOK_DISPATCH_SECRET>`.
+ *
+ * POST
+ * -> { sent, succeeded, failed }
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/billing.ts';
+import { getWebhookEndpointTarget, sendWebhookDelivery, type WebhookDelivery } from '../_shared/webhooks.ts';
+
+const BATCH_SIZE = 50;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  const dispatchSecret = Deno.env.get('WEBHOOK_DISPATCH_SECRET');
+  if (!dispatchSecret || req.headers.get('X-Dispatch-Secret') !== dispatchSecret) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const admin = createAdminClient();
+    const { data, error } = await admin.rpc('claim_webhook_deliveries', { p_limit: BATCH_SIZE });
+    if (error) throw error;
+
+    const deliveries = (data || []) as WebhookDelivery[];
+    const targets = new Map<string, Awaited<ReturnType<typeof getWebhookEndpointTarget>>>();
+    const results = { sent: 0, succeeded: 0, failed: 0 };
+
+    for (const delivery of deliveries) {
+      if (!targets.has(delivery.endpoint_id)) {
+        targets.set(delivery.endpoint_id, await getWebhookEndpointTarget(admin, delivery.endpoint_id));
+      }
+
+      // Paused endpoints keep their queue; deliveries wait for the lease to run out and are tried again
+      const target = targets.get(delivery.endpoint_id);
+      if (!target?.active) continue;
+
+      try {
+        const { status } = await sendWebhookDelivery(admin, delivery, target);
+        results.sent++;
+        if (status === 'succeeded') results.succeeded++;
+        if (status === 'failed') results.failed++;
+      } catch (deliveryError) {
+        console.error(`Failed to record webhook delivery ${delivery.id}:`, deliveryError);
+      }
+    }
+
+    return jsonResponse(results);
+  } catch (error) {
+    console.error('Webhook dispatch error:', error);
+    return jsonResponse({ error: 'Failed to dispatch webhooks' }, 500);
+  }
+});
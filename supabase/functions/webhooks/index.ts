@@ -0,0 +1,232 @@
+/**
+ * Webhooks
+ * Manages webhook endpoints for the personal workspace or an organization (owners and
+ * admins only), optionally limited to one template. Signing secrets are only read here.
+ *
+ * POST { action: 'create', url, events, description?, organization_id?, template_id? }
+ * -> { endpoint, secret }
+ * POST { action: 'update', id, url?, events?, description?, active? }
+ * -> { endpoint }
+ * POST { action: 'delete', id }
+ * -> { deleted: true }
+ * POST { action: 'secret', id }
+ * -> { secret }
+ * POST { action: 'redeliver', delivery_id }
+ * -> { delivery }
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getRequestUser } from '../_shared/auth.ts';
+import { createAdminClient } from '../_shared/billing.ts';
+import { HttpError } from '../_shared/http.ts';
+import {
+  generateWebhookSecret,
+  getWebhookEndpointTarget,
+  parseWebhookEvents,
+  parseWebhookUrl,
+  sendWebhookDelivery,
+} from '../_shared/webhooks.ts';
+
+const MAX_ENDPOINTS = 20;
+const ENDPOINT_COLUMNS = 'id, user_id, organization_id, template_id, url, description, events, active, created_at, updated_at';
+const DELIVERY_COLUMNS =
+  'id, endpoint_id, event_id, event_type, payload, status, attempts, next_attempt_at, last_attempt_at, response_status, response_body, error, redelivery_of, created_at';
+
+/**
+ * Throw unless the user can manage webhooks in a workspace
+ */
+async function assertCanManage(admin: SupabaseClient, userId: string, organizationId: string | null) {
+  if (!organizationId) return;
+
+  const { data, error } = await admin
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data || !['owner', 'admin'].includes(data.role)) {
+    throw new HttpError('Only organization owners and admins can manage its webhooks', 403);
+  }
+}
+
+/**
+ * Load an endpoint the user can manage
+ */
+async function getManagedEndpoint(admin: SupabaseClient, userId: string, id: unknown) {
+  if (typeof id !== 'string' || !id) throw new HttpError('Choose an endpoint');
+
+  const { data, error } = await admin.from('webhook_endpoints').select(ENDPOINT_COLUMNS).eq('id', id).maybeSingle();
+  if (error) throw error;
+  if (!data || (!data.organization_id && data.user_id !== userId)) throw new HttpError('Endpoint not found', 404);
+
+  await assertCanManage(admin, userId, data.organization_id);
+  return data;
+}
+
+const parseDescription = (value: unknown) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string' || value.length > 200) throw new HttpError('Descriptions can be up to 200 characters');
+  return value.trim() || null;
+};
+
+const checkSubscriptionScope = (events: string[], organizationId: string | null, templateId: string | null) => {
+  if (events.includes('subscription.changed') && (organizationId || templateId)) {
+    throw new HttpError('Plan changes can only be sent to personal endpoints that cover every template');
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  try {
+    const admin = createAdminClient();
+    const user = await getRequestUser(admin, req);
+    const body = await req.json().catch(() => ({}));
+
+    if (body.action === 'create') {
+      const url = parseWebhookUrl(body.url);
+      const events = parseWebhookEvents(body.events);
+      const description = parseDescription(body.description);
+      const organizationId = typeof body.organization_id === 'string' && body.organization_id ? body.organization_id : null;
+      const templateId = typeof body.template_id === 'string' && body.template_id ? body.template_id : null;
+
+      await assertCanManage(admin, user.id, organizationId);
+      checkSubscriptionScope(events, organizationId, templateId);
+
+      if (templateId) {
+        const query = admin.from('templates').select('id').eq('id', templateId);
+        const { data: template, error: templateError } = await (organizationId
+          ? query.eq('organization_id', organizationId)
+          : query.eq('user_id', user.id).is('organization_id', null)
+        ).maybeSingle();
+        if (templateError) throw templateError;
+        if (!template) throw new HttpError('Template not found in this workspace', 404);
+      }
+
+      const countQuery = admin.from('webhook_endpoints').select('id', { count: 'exact', head: true });
+      const { count, error: countError } = await (organizationId
+        ? countQuery.eq('organization_id', organizationId)
+        : countQuery.eq('user_id', user.id).is('organization_id', null));
+      if (countError) throw countError;
+      if ((count || 0) >= MAX_ENDPOINTS) {
+        throw new HttpError(`A workspace can have up to ${MAX_ENDPOINTS} webhook endpoints`);
+      }
+
+      const { data: endpoint, error } = await admin
+        .from('webhook_endpoints')
+        .insert({
+          user_id: user.id,
+          organization_id: organizationId,
+          template_id: templateId,
+          url,
+          events,
+          description,
+        })
+        .select(ENDPOINT_COLUMNS)
+        .single();
+      if (error) throw error;
+
+      const secret = generateWebhookSecret();
+      const { error: secretError } = await admin
+        .from('webhook_endpoint_secrets')
+        .insert({ endpoint_id: endpoint.id, secret });
+      if (secretError) {
+        await admin.from('webhook_endpoints').delete().eq('id', endpoint.id);
+        throw secretError;
+      }
+
+      return jsonResponse({ endpoint, secret });
+    }
+
+    if (body.action === 'update') {
+      const endpoint = await getManagedEndpoint(admin, user.id, body.id);
+      const changes: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (body.url !== undefined) changes.url = parseWebhookUrl(body.url);
+      if (body.description !== undefined) changes.description = parseDescription(body.description);
+      if (body.active !== undefined) changes.active = body.active === true;
+      if (body.events !== undefined) {
+        changes.events = parseWebhookEvents(body.events);
+        checkSubscriptionScope(changes.events as string[], endpoint.organization_id, endpoint.template_id);
+      }
+
+      const { data, error } = await admin
+        .from('webhook_endpoints')
+        .update(changes)
+        .eq('id', endpoint.id)
+        .select(ENDPOINT_COLUMNS)
+        .single();
+      if (error) throw error;
+
+      return jsonResponse({ endpoint: data });
+    }
+
+    if (body.action === 'delete') {
+      const endpoint = await getManagedEndpoint(admin, user.id, body.id);
+      const { error } = await admin.from('webhook_endpoints').delete().eq('id', endpoint.id);
+      if (error) throw error;
+
+      return jsonResponse({ deleted: true });
+    }
+
+    if (body.action === 'secret') {
+      const endpoint = await getManagedEndpoint(admin, user.id, body.id);
+      const target = await getWebhookEndpointTarget(admin, endpoint.id);
+      if (!target) throw new HttpError('Endpoint not found', 404);
+
+      return jsonResponse({ secret: target.secret });
+    }
+
+    if (body.action === 'redeliver') {
+      const deliveryId = typeof body.delivery_id === 'string' ? body.delivery_id : '';
+      if (!deliveryId) throw new HttpError('Choose a delivery');
+
+      const { data: original, error: originalError } = await admin
+        .from('webhook_deliveries')
+        .select('id, endpoint_id, event_id, event_type, payload')
+        .eq('id', deliveryId)
+        .maybeSingle();
+      if (originalError) throw originalError;
+      if (!original) throw new HttpError('Delivery not found', 404);
+
+      const endpoint = await getManagedEndpoint(admin, user.id, original.endpoint_id);
+      const target = await getWebhookEndpointTarget(admin, endpoint.id);
+      if (!target) throw new HttpError('Endpoint not found', 404);
+
+      // A new delivery of the same event, so the log keeps the original attempt
+      const { data: delivery, error } = await admin
+        .from('webhook_deliveries')
+        .insert({
+          endpoint_id: endpoint.id,
+          event_id: original.event_id,
+          event_type: original.event_type,
+          payload: original.payload,
+          redelivery_of: original.id,
+          // Sent below; if that's cut short, the dispatcher picks it up once this passes
+          next_attempt_at: new Date(Date.now() + 5 * 60_000).toISOString(),
+        })
+        .select(DELIVERY_COLUMNS)
+        .single();
+      if (error) throw error;
+
+      await sendWebhookDelivery(admin, { ...delivery, attempts: 0 }, target);
+
+      const { data: result, error: resultError } = await admin
+        .from('webhook_deliveries')
+        .select(DELIVERY_COLUMNS)
+        .eq('id', delivery.id)
+        .single();
+      if (resultError) throw resultError;
+
+      return jsonResponse({ delivery: result });
+    }
+
+    throw new HttpError('Unknown action');
+  } catch (error) {
+    if (error instanceof HttpError) return jsonResponse({ error: error.message }, error.status);
+    console.error('Webhooks error:', error);
+    return jsonResponse({ error: 'Failed to update webhooks' }, 500);
+  }
+});
@@ -0,0 +1,25 @@
+-- Frame schema versioning
+-- Records which version of the frame schema each template's frames JSON was saved with.
+-- Existing rows predate versioning and are marked as v1 so the client migrates them on load.
+
+-- =====================================================
+-- TEMPLATES: SCHEMA VERSION
+-- =====================================================
+
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.templates
+  DROP CONSTRAINT IF EXISTS templates_schema_version_check;
+
+ALTER TABLE public.templates
+  ADD CONSTRAINT templates_schema_version_check CHECK (schema_version >= 1);
+
+-- Frames must always be stored as a JSON array
+ALTER TABLE public.templates
+  DROP CONSTRAINT IF EXISTS templates_frames_is_array;
+
+ALTER TABLE public.templates
+  ADD CONSTRAINT templates_frames_is_array CHECK (jsonb_typeof(frames) = 'array') NOT VALID;
+
+COMMENT ON COLUMN public.templates.schema_version IS 'Version of the frame schema used by the frames JSON (see src/lib/frameSchema.ts)';
@@ -0,0 +1,32 @@
+-- Per-template canvas size
+-- Every template so far was designed on the fixed 1200x800 editor stage, regardless of the
+-- canvas_width/canvas_height defaults in the initial schema. Backfill existing rows to that
+-- stage so their frames keep lining up, and make it the default for new rows.
+
+-- =====================================================
+-- TEMPLATES: CANVAS SIZE
+-- =====================================================
+
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS canvas_width INTEGER NOT NULL DEFAULT 1200;
+
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS canvas_height INTEGER NOT NULL DEFAULT 800;
+
+UPDATE public.templates
+SET canvas_width = 1200,
+    canvas_height = 800;
+
+ALTER TABLE public.templates
+  ALTER COLUMN canvas_width SET DEFAULT 1200,
+  ALTER COLUMN canvas_height SET DEFAULT 800;
+
+ALTER TABLE public.templates
+  DROP CONSTRAINT IF EXISTS templates_canvas_size_check;
+
+ALTER TABLE public.templates
+  ADD CONSTRAINT templates_canvas_size_check
+  CHECK (canvas_width BETWEEN 100 AND 5000 AND canvas_height BETWEEN 100 AND 5000);
+
+COMMENT ON COLUMN public.templates.canvas_width IS 'Design stage width in pixels; frame coordinates are relative to it';
+COMMENT ON COLUMN public.templates.canvas_height IS 'Design stage height in pixels; frame coordinates are relative to it';
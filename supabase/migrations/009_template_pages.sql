@@ -0,0 +1,21 @@
+-- Multi-page templates
+-- Brochures and programme booklets store an ordered list of pages, each with its own
+-- background and frames: [{ "id", "name", "background_url", "frames": [...] }, ...]
+-- Single-page templates leave pages NULL. The first page is always mirrored into
+-- background_url and frames so thumbnails, bulk generation and older clients keep working.
+
+-- =====================================================
+-- TEMPLATES: PAGES
+-- =====================================================
+
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS pages JSONB;
+
+ALTER TABLE public.templates
+  DROP CONSTRAINT IF EXISTS templates_pages_is_array;
+
+ALTER TABLE public.templates
+  ADD CONSTRAINT templates_pages_is_array
+  CHECK (pages IS NULL OR (jsonb_typeof(pages) = 'array' AND jsonb_array_length(pages) BETWEEN 1 AND 24));
+
+COMMENT ON COLUMN public.templates.pages IS 'Ordered pages of a multi-page template (see src/lib/templatePages.ts); frames use the schema_version of the row';
@@ -0,0 +1,18 @@
+-- Print resolution
+-- Maps a template's canvas pixels to a physical trim size for print-ready PDFs.
+-- NULL means "auto": the DPI of the matching print preset, otherwise 150 (see src/lib/printExport.ts).
+
+-- =====================================================
+-- TEMPLATES: PRINT DPI
+-- =====================================================
+
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS print_dpi INTEGER;
+
+ALTER TABLE public.templates
+  DROP CONSTRAINT IF EXISTS templates_print_dpi_check;
+
+ALTER TABLE public.templates
+  ADD CONSTRAINT templates_print_dpi_check CHECK (print_dpi IS NULL OR print_dpi BETWEEN 72 AND 1200);
+
+COMMENT ON COLUMN public.templates.print_dpi IS 'Design resolution used to derive the physical print size; NULL uses the preset or default';
@@ -0,0 +1,41 @@
+-- Server-side Paystack processing
+-- Payments are now initialized, verified and applied by Edge Functions using the service role.
+-- Both the verify endpoint and the webhook can deliver the same transaction, so subscription
+-- rows must be unique per Paystack reference for fulfilment to stay idempotent.
+
+-- =====================================================
+-- SUBSCRIPTIONS: ONE ROW PER PAYSTACK REFERENCE
+-- =====================================================
+
+-- Older client-side verification could insert the same reference twice; keep the first row
+UPDATE public.subscriptions s
+SET paystack_reference = NULL
+WHERE paystack_reference IS NOT NULL
+  AND EXISTS (
+    SELECT 1
+    FROM public.subscriptions earlier
+    WHERE earlier.paystack_reference = s.paystack_reference
+      AND (earlier.created_at, earlier.id) < (s.created_at, s.id)
+  );
+
+ALTER TABLE public.subscriptions
+  DROP CONSTRAINT IF EXISTS subscriptions_paystack_reference_key;
+
+ALTER TABLE public.subscriptions
+  ADD CONSTRAINT subscriptions_paystack_reference_key UNIQUE (paystack_reference);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_paystack_subscription_id
+  ON public.subscriptions(paystack_subscription_id);
+
+-- =====================================================
+-- PAYMENTS: AMOUNTS IN GHS
+-- =====================================================
+
+-- Renewal charges come from Paystack in pesewas and aren't always whole cedis
+ALTER TABLE public.payments
+  ALTER COLUMN amount TYPE NUMERIC(10,2);
+
+COMMENT ON COLUMN public.payments.amount IS 'Amount in GHS, as charged by Paystack';
+
+COMMENT ON COLUMN public.payments.paystack_reference IS 'Paystack transaction reference; fulfilment is idempotent on it';
+COMMENT ON COLUMN public.subscriptions.paystack_reference IS 'Reference of the payment that started this subscription';
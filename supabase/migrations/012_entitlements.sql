@@ -0,0 +1,339 @@
+-- Database-enforced entitlements
+-- Plans, limits and feature flags live in `plan_entitlements`, and the database enforces them:
+--   * plan and usage columns on profiles can only be changed by the service role
+--     (billing Edge Functions) or by SECURITY DEFINER functions
+--   * users can no longer insert or update their own subscriptions and payments
+--   * template inserts over the plan's limit and export logs over the monthly quota are rejected
+-- Limit violations raise with HINT 'plan_limit' so the client can tell them apart from other errors.
+
+-- =====================================================
+-- PLAN ENTITLEMENTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.plan_entitlements (
+  plan_id TEXT PRIMARY KEY CHECK (plan_id IN ('free', 'student_pro', 'creator_pro', 'department', 'church', 'faculty', 'enterprise')),
+  templates_limit INTEGER NOT NULL, -- -1 = unlimited
+  monthly_exports_limit INTEGER NOT NULL, -- -1 = unlimited
+  custom_fonts BOOLEAN NOT NULL DEFAULT false,
+  pdf_export BOOLEAN NOT NULL DEFAULT false,
+  svg_export BOOLEAN NOT NULL DEFAULT false,
+  high_res_export BOOLEAN NOT NULL DEFAULT false,
+  bulk_generation BOOLEAN NOT NULL DEFAULT false,
+  white_label BOOLEAN NOT NULL DEFAULT false,
+  api_access BOOLEAN NOT NULL DEFAULT false,
+  priority_support BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.plan_entitlements
+  (plan_id, templates_limit, monthly_exports_limit, custom_fonts, pdf_export, svg_export, high_res_export, bulk_generation, white_label, api_access, priority_support)
+VALUES
+  ('free',        3,   10,   false, false, false, false, false, false, false, false),
+  ('student_pro', 30,  150,  true,  false, false, true,  false, false, false, true),
+  ('creator_pro', -1,  600,  true,  true,  true,  true,  false, false, false, true),
+  ('department',  -1,  1200, true,  true,  true,  true,  true,  false, false, true),
+  ('church',      -1,  2500, true,  true,  true,  true,  true,  true,  false, true),
+  ('faculty',     -1,  6000, true,  true,  true,  true,  true,  true,  true,  true),
+  ('enterprise',  -1,  6000, true,  true,  true,  true,  true,  true,  true,  true)
+ON CONFLICT (plan_id) DO NOTHING;
+
+ALTER TABLE public.plan_entitlements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view plan entitlements" ON public.plan_entitlements;
+CREATE POLICY "Anyone can view plan entitlements" ON public.plan_entitlements
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_plan_entitlements_updated_at
+  BEFORE UPDATE ON public.plan_entitlements
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- PROFILES: PLAN COLUMNS ARE SERVER-OWNED
+-- =====================================================
+
+-- Requests made with a user's or the anon key run as these roles; the service role and
+-- SECURITY DEFINER functions do not
+CREATE OR REPLACE FUNCTION public.is_client_role()
+RETURNS BOOLEAN AS $$
+  SELECT current_user IN ('anon', 'authenticated');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.guard_profile_entitlements()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_client_role() THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.subscription_tier := 'free';
+      NEW.monthly_exports := 0;
+      NEW.organization_id := NULL;
+      NEW.is_organization_admin := false;
+    ELSIF NEW.subscription_tier IS DISTINCT FROM OLD.subscription_tier
+       OR NEW.templates_limit IS DISTINCT FROM OLD.templates_limit
+       OR NEW.monthly_exports IS DISTINCT FROM OLD.monthly_exports
+       OR NEW.monthly_exports_limit IS DISTINCT FROM OLD.monthly_exports_limit
+       OR NEW.organization_id IS DISTINCT FROM OLD.organization_id
+       OR NEW.is_organization_admin IS DISTINCT FROM OLD.is_organization_admin THEN
+      RAISE EXCEPTION 'Plan and usage fields can only be changed by the billing service'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  -- Cached limits always follow the plan
+  SELECT templates_limit, monthly_exports_limit
+  INTO NEW.templates_limit, NEW.monthly_exports_limit
+  FROM public.plan_entitlements
+  WHERE plan_id = COALESCE(NEW.subscription_tier, 'free');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_profile_entitlements ON public.profiles;
+CREATE TRIGGER guard_profile_entitlements
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_entitlements();
+
+-- Bring existing cached limits in line with the plans
+UPDATE public.profiles p
+SET templates_limit = e.templates_limit,
+    monthly_exports_limit = e.monthly_exports_limit
+FROM public.plan_entitlements e
+WHERE e.plan_id = p.subscription_tier;
+
+-- =====================================================
+-- SUBSCRIPTIONS AND PAYMENTS: READ-ONLY FOR USERS
+-- =====================================================
+
+DROP POLICY IF EXISTS "Users can insert their own subscriptions" ON public.subscriptions;
+DROP POLICY IF EXISTS "Users can update their own subscriptions" ON public.subscriptions;
+DROP POLICY IF EXISTS "Users can insert their own payments" ON public.payments;
+
+REVOKE INSERT, UPDATE, DELETE ON public.subscriptions FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.payments FROM anon, authenticated;
+
+-- Users may still choose whether their active subscription renews
+CREATE OR REPLACE FUNCTION public.set_subscription_cancel_at_period_end(cancel BOOLEAN)
+RETURNS public.subscriptions AS $$
+DECLARE
+  v_subscription public.subscriptions;
+BEGIN
+  UPDATE public.subscriptions
+  SET cancel_at_period_end = cancel,
+      updated_at = NOW()
+  WHERE user_id = auth.uid()
+    AND status = 'active'
+  RETURNING * INTO v_subscription;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active subscription found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_subscription;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_subscription_cancel_at_period_end(BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_subscription_cancel_at_period_end(BOOLEAN) TO authenticated;
+
+-- End subscriptions whose cancelled period has run out and move their users back to free.
+-- Returns the number of users downgraded. Run from a scheduled job, e.g. SELECT cron.schedule('expire-subscriptions', '0 * * * *', 'SELECT public.expire_lapsed_subscriptions()');
+CREATE OR REPLACE FUNCTION public.expire_lapsed_subscriptions()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH expired AS (
+    UPDATE public.subscriptions
+    SET status = 'inactive',
+        updated_at = NOW()
+    WHERE status = 'active'
+      AND cancel_at_period_end
+      AND current_period_end < NOW()
+    RETURNING id, user_id
+  )
+  UPDATE public.profiles p
+  SET subscription_tier = 'free'
+  WHERE p.id IN (SELECT user_id FROM expired)
+    AND NOT EXISTS (
+      -- The CTE's update isn't visible here, so skip the rows it just expired
+      SELECT 1 FROM public.subscriptions s
+      WHERE s.user_id = p.id
+        AND s.status = 'active'
+        AND s.id NOT IN (SELECT id FROM expired)
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.expire_lapsed_subscriptions() FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- LIMIT ENFORCEMENT
+-- =====================================================
+
+-- Lock a user's profile and return their plan, so concurrent inserts are counted one at a time
+CREATE OR REPLACE FUNCTION public.lock_user_entitlements(p_user_id UUID)
+RETURNS public.plan_entitlements AS $$
+DECLARE
+  v_plan public.plan_entitlements;
+BEGIN
+  SELECT e.* INTO v_plan
+  FROM public.profiles p
+  JOIN public.plan_entitlements e ON e.plan_id = p.subscription_tier
+  WHERE p.id = p_user_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_plan FROM public.plan_entitlements WHERE plan_id = 'free';
+  END IF;
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.lock_user_entitlements(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.enforce_template_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_plan public.plan_entitlements;
+  v_used INTEGER;
+BEGIN
+  v_plan := public.lock_user_entitlements(NEW.user_id);
+  IF v_plan.templates_limit = -1 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_used FROM public.templates WHERE user_id = NEW.user_id;
+
+  IF v_used >= v_plan.templates_limit THEN
+    RAISE EXCEPTION 'Template limit reached (%). Upgrade your plan to create more templates.', v_plan.templates_limit
+      USING HINT = 'plan_limit';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_template_limit ON public.templates;
+CREATE TRIGGER enforce_template_limit
+  BEFORE INSERT ON public.templates
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_template_limit();
+
+CREATE OR REPLACE FUNCTION public.enforce_usage_entitlements()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_plan public.plan_entitlements;
+  v_used INTEGER;
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_plan := public.lock_user_entitlements(NEW.user_id);
+
+  IF NEW.action = 'font_uploaded' AND NOT v_plan.custom_fonts THEN
+    RAISE EXCEPTION 'Custom font uploads require Student Pro or higher.'
+      USING HINT = 'plan_limit';
+  END IF;
+
+  IF NEW.action = 'template_exported' THEN
+    SELECT COUNT(*) INTO v_used
+    FROM public.usage_logs
+    WHERE user_id = NEW.user_id
+      AND action = 'template_exported'
+      AND created_at >= date_trunc('month', NOW());
+
+    IF v_plan.monthly_exports_limit <> -1 AND v_used >= v_plan.monthly_exports_limit THEN
+      RAISE EXCEPTION 'Monthly export limit reached (%). Upgrade your plan for more exports.', v_plan.monthly_exports_limit
+        USING HINT = 'plan_limit';
+    END IF;
+
+    UPDATE public.profiles SET monthly_exports = v_used + 1 WHERE id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_usage_entitlements ON public.usage_logs;
+CREATE TRIGGER enforce_usage_entitlements
+  BEFORE INSERT ON public.usage_logs
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_usage_entitlements();
+
+-- Log a run of exports before producing them, e.g. a bulk generation. Each log passes the
+-- quota trigger above, so the run is logged in full or, if it would go over the quota, not at all.
+CREATE OR REPLACE FUNCTION public.reserve_exports(
+  p_count INTEGER,
+  p_resource_id TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INTEGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to export' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_count IS NULL OR p_count < 1 OR p_count > 2000 THEN
+    RAISE EXCEPTION 'A run can reserve between 1 and 2000 exports' USING ERRCODE = '22023';
+  END IF;
+
+  FOR i IN 1..p_count LOOP
+    INSERT INTO public.usage_logs (user_id, action, resource_id, metadata)
+    VALUES (auth.uid(), 'template_exported', p_resource_id, COALESCE(p_metadata, '{}'::jsonb));
+  END LOOP;
+
+  RETURN p_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_exports(INTEGER, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reserve_exports(INTEGER, TEXT, JSONB) TO authenticated;
+
+-- =====================================================
+-- ENTITLEMENTS FOR THE CURRENT USER
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_my_entitlements()
+RETURNS TABLE (
+  plan_id TEXT,
+  templates_limit INTEGER,
+  monthly_exports_limit INTEGER,
+  custom_fonts BOOLEAN,
+  pdf_export BOOLEAN,
+  svg_export BOOLEAN,
+  high_res_export BOOLEAN,
+  bulk_generation BOOLEAN,
+  white_label BOOLEAN,
+  api_access BOOLEAN,
+  priority_support BOOLEAN,
+  templates_used INTEGER,
+  monthly_exports_used INTEGER
+) AS $$
+  SELECT
+    e.plan_id,
+    e.templates_limit,
+    e.monthly_exports_limit,
+    e.custom_fonts,
+    e.pdf_export,
+    e.svg_export,
+    e.high_res_export,
+    e.bulk_generation,
+    e.white_label,
+    e.api_access,
+    e.priority_support,
+    (SELECT COUNT(*)::INTEGER FROM public.templates t WHERE t.user_id = p.id),
+    (SELECT COUNT(*)::INTEGER FROM public.usage_logs l
+      WHERE l.user_id = p.id
+        AND l.action = 'template_exported'
+        AND l.created_at >= date_trunc('month', NOW()))
+  FROM public.profiles p
+  JOIN public.plan_entitlements e ON e.plan_id = p.subscription_tier
+  WHERE p.id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_my_entitlements() TO authenticated;
+
+COMMENT ON TABLE public.plan_entitlements IS 'Limits and feature flags per plan; enforced by triggers on templates and usage_logs';
@@ -0,0 +1,337 @@
+-- Plans as the single source of truth
+-- `plan_entitlements` becomes `plans` and also carries names, prices, pricing-page copy,
+-- watermark text and ordering. Event packages get their own table. The client, the
+-- billing Edge Functions and the limit triggers all read from these tables, so prices
+-- and limits can be changed with an UPDATE instead of a deploy.
+
+-- =====================================================
+-- PLANS
+-- =====================================================
+
+ALTER TABLE public.plan_entitlements RENAME TO plans;
+ALTER TABLE public.plans RENAME COLUMN plan_id TO id;
+ALTER TABLE public.plans DROP CONSTRAINT IF EXISTS plan_entitlements_plan_id_check;
+ALTER INDEX IF EXISTS public.plan_entitlements_pkey RENAME TO plans_pkey;
+
+ALTER TABLE public.plans
+  ADD COLUMN IF NOT EXISTS name TEXT,
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS price DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'GHS',
+  ADD COLUMN IF NOT EXISTS billing_interval TEXT NOT NULL DEFAULT 'month' CHECK (billing_interval IN ('month', 'year')),
+  ADD COLUMN IF NOT EXISTS features TEXT[] NOT NULL DEFAULT '{}', -- Bullets shown on the pricing page
+  ADD COLUMN IF NOT EXISTS storage_limit TEXT NOT NULL DEFAULT '100MB',
+  ADD COLUMN IF NOT EXISTS watermark_text TEXT, -- NULL = exports are not watermarked
+  ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0, -- Tier rank; higher plans include lower ones
+  ADD COLUMN IF NOT EXISTS is_public BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS is_featured BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL;
+
+UPDATE public.plans p
+SET name = v.name,
+    description = v.description,
+    price = v.price,
+    features = v.features,
+    storage_limit = v.storage_limit,
+    watermark_text = v.watermark_text,
+    sort_order = v.sort_order,
+    is_public = v.is_public,
+    is_featured = v.is_featured
+FROM (VALUES
+  ('free', 'Free', 'Get started with the basics', 0, ARRAY[
+    '3 templates',
+    '10 exports per month',
+    'Basic shapes and fonts',
+    'Watermarked exports',
+    'Standard support'
+  ], '100MB', 'Infinity Generation', 0, true, false),
+  ('student_pro', 'Student Pro', 'For students and individual creators', 50, ARRAY[
+    '30 templates',
+    '150 exports per month',
+    'High-resolution exports',
+    'Custom font uploads',
+    'No watermarks',
+    'Priority support'
+  ], '1GB', NULL, 1, true, false),
+  ('creator_pro', 'Creator Pro', 'For creators who publish often', 100, ARRAY[
+    'Unlimited templates',
+    '600 exports per month',
+    'Custom font uploads',
+    'PDF and SVG export',
+    'Analytics dashboard',
+    'Priority support'
+  ], '5GB', NULL, 2, true, true),
+  ('department', 'Department Plan', 'For departments and small teams', 200, ARRAY[
+    'Unlimited templates',
+    '1,200 exports per month',
+    'Bulk generation',
+    'Team collaboration',
+    'Analytics dashboard',
+    'Priority support'
+  ], '10GB', NULL, 3, true, false),
+  ('church', 'Church Plan', 'For churches and ministries', 300, ARRAY[
+    'Everything in Department',
+    '2,500 exports per month',
+    'Blessing cards & certificates',
+    'Seasonal template packs',
+    'White-label options'
+  ], '20GB', NULL, 4, true, false),
+  ('faculty', 'Faculty Plan', 'For faculties and large organizations', 600, ARRAY[
+    'Everything in Church',
+    '6,000 exports per month',
+    'Multi-department access',
+    'API access',
+    'Dedicated support'
+  ], '50GB', NULL, 5, true, false),
+  ('enterprise', 'Enterprise', 'Custom agreements', 0, ARRAY[]::TEXT[], '50GB', NULL, 6, false, false)
+) AS v(id, name, description, price, features, storage_limit, watermark_text, sort_order, is_public, is_featured)
+WHERE p.id = v.id;
+
+UPDATE public.plans SET name = initcap(replace(id, '_', ' ')) WHERE name IS NULL;
+ALTER TABLE public.plans ALTER COLUMN name SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_plans_sort_order ON public.plans(sort_order);
+
+DROP POLICY IF EXISTS "Anyone can view plan entitlements" ON public.plans;
+CREATE POLICY "Anyone can view plans" ON public.plans
+  FOR SELECT USING (true);
+
+ALTER TRIGGER update_plan_entitlements_updated_at ON public.plans RENAME TO update_plans_updated_at;
+
+COMMENT ON TABLE public.plans IS 'Plans, prices, limits and feature flags; read by the app, the billing Edge Functions and the limit triggers';
+
+-- =====================================================
+-- EVENT PACKAGES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.event_packages (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  price DECIMAL(10,2) NOT NULL CHECK (price > 0),
+  currency TEXT NOT NULL DEFAULT 'GHS',
+  includes TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.event_packages (id, name, description, price, includes, sort_order)
+VALUES
+  ('graduation', 'Graduation Package', 'Complete graduation event solution', 400, ARRAY[
+    '600 personalized certificates',
+    'Invitation templates',
+    'Program booklets',
+    'QR codes for graduates',
+    'Bulk generation tools'
+  ], 0),
+  ('conference', 'Conference Package', 'Professional conference materials', 600, ARRAY[
+    '300 participant certificates',
+    'Speaker badges',
+    'Event flyers',
+    'Attendance tracking',
+    'Custom branding'
+  ], 1),
+  ('semester', 'Semester Package', 'Full semester event coverage', 900, ARRAY[
+    'All events for one semester',
+    'Unlimited personalization',
+    'Brand consistency',
+    'Priority support',
+    'Custom templates'
+  ], 2)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.event_packages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view event packages" ON public.event_packages;
+CREATE POLICY "Anyone can view event packages" ON public.event_packages
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_event_packages_updated_at
+  BEFORE UPDATE ON public.event_packages
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- PLAN REFERENCES
+-- =====================================================
+
+-- Plans are rows now, so tiers are checked against the table instead of a fixed list
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_subscription_tier_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_subscription_tier_fkey
+  FOREIGN KEY (subscription_tier) REFERENCES public.plans(id) ON UPDATE CASCADE;
+
+ALTER TABLE public.subscriptions DROP CONSTRAINT IF EXISTS subscriptions_plan_type_check;
+ALTER TABLE public.subscriptions
+  ADD CONSTRAINT subscriptions_plan_type_fkey
+  FOREIGN KEY (plan_type) REFERENCES public.plans(id) ON UPDATE CASCADE;
+
+-- =====================================================
+-- FUNCTIONS THAT READ PLANS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.guard_profile_entitlements()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_client_role() THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.subscription_tier := 'free';
+      NEW.monthly_exports := 0;
+      NEW.organization_id := NULL;
+      NEW.is_organization_admin := false;
+    ELSIF NEW.subscription_tier IS DISTINCT FROM OLD.subscription_tier
+       OR NEW.templates_limit IS DISTINCT FROM OLD.templates_limit
+       OR NEW.monthly_exports IS DISTINCT FROM OLD.monthly_exports
+       OR NEW.monthly_exports_limit IS DISTINCT FROM OLD.monthly_exports_limit
+       OR NEW.organization_id IS DISTINCT FROM OLD.organization_id
+       OR NEW.is_organization_admin IS DISTINCT FROM OLD.is_organization_admin THEN
+      RAISE EXCEPTION 'Plan and usage fields can only be changed by the billing service'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  -- Cached limits always follow the plan
+  SELECT templates_limit, monthly_exports_limit
+  INTO NEW.templates_limit, NEW.monthly_exports_limit
+  FROM public.plans
+  WHERE id = COALESCE(NEW.subscription_tier, 'free');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Keep cached profile limits in step when an operator edits a plan
+CREATE OR REPLACE FUNCTION public.sync_plan_limits()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.profiles
+  SET templates_limit = NEW.templates_limit,
+      monthly_exports_limit = NEW.monthly_exports_limit
+  WHERE subscription_tier = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_plan_limits ON public.plans;
+CREATE TRIGGER sync_plan_limits
+  AFTER UPDATE OF templates_limit, monthly_exports_limit ON public.plans
+  FOR EACH ROW EXECUTE FUNCTION public.sync_plan_limits();
+
+CREATE OR REPLACE FUNCTION public.lock_user_entitlements(p_user_id UUID)
+RETURNS public.plans AS $$
+DECLARE
+  v_plan public.plans;
+BEGIN
+  SELECT e.* INTO v_plan
+  FROM public.profiles p
+  JOIN public.plans e ON e.id = p.subscription_tier
+  WHERE p.id = p_user_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_plan FROM public.plans WHERE id = 'free';
+  END IF;
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.lock_user_entitlements(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.enforce_template_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_plan public.plans;
+  v_used INTEGER;
+BEGIN
+  v_plan := public.lock_user_entitlements(NEW.user_id);
+  IF v_plan.templates_limit = -1 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_used FROM public.templates WHERE user_id = NEW.user_id;
+
+  IF v_used >= v_plan.templates_limit THEN
+    RAISE EXCEPTION 'Template limit reached (%). Upgrade your plan to create more templates.', v_plan.templates_limit
+      USING HINT = 'plan_limit';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.enforce_usage_entitlements()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_plan public.plans;
+  v_used INTEGER;
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_plan := public.lock_user_entitlements(NEW.user_id);
+
+  IF NEW.action = 'font_uploaded' AND NOT v_plan.custom_fonts THEN
+    RAISE EXCEPTION 'Custom font uploads are not included in the % plan.', v_plan.name
+      USING HINT = 'plan_limit';
+  END IF;
+
+  IF NEW.action = 'template_exported' THEN
+    SELECT COUNT(*) INTO v_used
+    FROM public.usage_logs
+    WHERE user_id = NEW.user_id
+      AND action = 'template_exported'
+      AND created_at >= date_trunc('month', NOW());
+
+    IF v_plan.monthly_exports_limit <> -1 AND v_used >= v_plan.monthly_exports_limit THEN
+      RAISE EXCEPTION 'Monthly export limit reached (%). Upgrade your plan for more exports.', v_plan.monthly_exports_limit
+        USING HINT = 'plan_limit';
+    END IF;
+
+    UPDATE public.profiles SET monthly_exports = v_used + 1 WHERE id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_my_entitlements()
+RETURNS TABLE (
+  plan_id TEXT,
+  templates_limit INTEGER,
+  monthly_exports_limit INTEGER,
+  custom_fonts BOOLEAN,
+  pdf_export BOOLEAN,
+  svg_export BOOLEAN,
+  high_res_export BOOLEAN,
+  bulk_generation BOOLEAN,
+  white_label BOOLEAN,
+  api_access BOOLEAN,
+  priority_support BOOLEAN,
+  templates_used INTEGER,
+  monthly_exports_used INTEGER
+) AS $$
+  SELECT
+    e.id,
+    e.templates_limit,
+    e.monthly_exports_limit,
+    e.custom_fonts,
+    e.pdf_export,
+    e.svg_export,
+    e.high_res_export,
+    e.bulk_generation,
+    e.white_label,
+    e.api_access,
+    e.priority_support,
+    (SELECT COUNT(*)::INTEGER FROM public.templates t WHERE t.user_id = p.id),
+    (SELECT COUNT(*)::INTEGER FROM public.usage_logs l
+      WHERE l.user_id = p.id
+        AND l.action = 'template_exported'
+        AND l.created_at >= date_trunc('month', NOW()))
+  FROM public.profiles p
+  JOIN public.plans e ON e.id = p.subscription_tier
+  WHERE p.id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,229 @@
+-- Event-level template analytics
+-- Every view, start, upload, download and share on a public generator is recorded with its
+-- time, template and browser session. Rollup functions turn the events into daily series and
+-- period-over-period changes for the Analytics page.
+
+-- =====================================================
+-- ANALYTICS EVENTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.analytics_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('view', 'start', 'upload', 'download', 'share')),
+  session_id TEXT NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_events_template_created
+  ON public.analytics_events(template_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analytics_events_session
+  ON public.analytics_events(session_id, template_id, event_type, created_at DESC);
+
+ALTER TABLE public.analytics_events ENABLE ROW LEVEL SECURITY;
+
+-- Creators read events for their own templates; events are only written through track_template_event
+DROP POLICY IF EXISTS "Users can view events for their templates" ON public.analytics_events;
+CREATE POLICY "Users can view events for their templates" ON public.analytics_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.templates
+      WHERE templates.id = analytics_events.template_id
+        AND templates.user_id = auth.uid()
+    )
+  );
+
+-- Past downloads are already timestamped in template_generations, so carry them over
+INSERT INTO public.analytics_events (template_id, event_type, session_id, created_at)
+SELECT template_id, 'download', 'backfill', created_at
+FROM public.template_generations;
+
+COMMENT ON TABLE public.analytics_events IS 'Generator events per template and browser session; written by track_template_event';
+
+-- =====================================================
+-- RECORDING EVENTS
+-- =====================================================
+
+-- Record an event on a public template. Views and starts count once per session every 30 minutes,
+-- so refreshes don't inflate them. Also keeps the lifetime counters on templates up to date.
+CREATE OR REPLACE FUNCTION public.track_template_event(
+  p_template_id UUID,
+  p_event_type TEXT,
+  p_session_id TEXT,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_event_type NOT IN ('view', 'start', 'upload', 'download', 'share') THEN
+    RAISE EXCEPTION 'Unknown analytics event: %', p_event_type USING ERRCODE = '22023';
+  END IF;
+
+  IF p_session_id IS NULL OR length(p_session_id) = 0 OR length(p_session_id) > 64 THEN
+    RAISE EXCEPTION 'Invalid analytics session' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.templates WHERE id = p_template_id AND is_public = true) THEN
+    RETURN;
+  END IF;
+
+  IF p_event_type IN ('view', 'start') AND EXISTS (
+    SELECT 1 FROM public.analytics_events
+    WHERE session_id = p_session_id
+      AND template_id = p_template_id
+      AND event_type = p_event_type
+      AND created_at > NOW() - INTERVAL '30 minutes'
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.analytics_events (template_id, event_type, session_id, metadata)
+  VALUES (
+    p_template_id,
+    p_event_type,
+    p_session_id,
+    -- Metadata is a few descriptive fields; drop anything bigger
+    CASE WHEN pg_column_size(p_metadata) <= 2048 THEN COALESCE(p_metadata, '{}') ELSE '{}' END
+  );
+
+  IF p_event_type = 'view' THEN
+    UPDATE public.templates SET view_count = view_count + 1 WHERE id = p_template_id;
+  ELSIF p_event_type = 'download' THEN
+    UPDATE public.templates SET generation_count = generation_count + 1 WHERE id = p_template_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.track_template_event(UUID, TEXT, TEXT, JSONB) TO anon, authenticated;
+
+-- =====================================================
+-- ROLLUPS
+-- =====================================================
+
+-- Daily event counts for the caller's templates over [p_start, p_end), one row per day
+-- including days without events. Days are bucketed in the caller's time zone.
+CREATE OR REPLACE FUNCTION public.get_analytics_timeseries(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_template_id UUID DEFAULT NULL,
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  views INTEGER,
+  starts INTEGER,
+  uploads INTEGER,
+  downloads INTEGER,
+  shares INTEGER
+) AS $$
+  WITH days AS (
+    SELECT generate_series(
+      (p_start AT TIME ZONE p_time_zone)::DATE,
+      ((p_end - INTERVAL '1 microsecond') AT TIME ZONE p_time_zone)::DATE,
+      INTERVAL '1 day'
+    )::DATE AS day
+  ),
+  counts AS (
+    SELECT
+      (e.created_at AT TIME ZONE p_time_zone)::DATE AS day,
+      COUNT(*) FILTER (WHERE e.event_type = 'view')::INTEGER AS views,
+      COUNT(*) FILTER (WHERE e.event_type = 'start')::INTEGER AS starts,
+      COUNT(*) FILTER (WHERE e.event_type = 'upload')::INTEGER AS uploads,
+      COUNT(*) FILTER (WHERE e.event_type = 'download')::INTEGER AS downloads,
+      COUNT(*) FILTER (WHERE e.event_type = 'share')::INTEGER AS shares
+    FROM public.analytics_events e
+    JOIN public.templates t ON t.id = e.template_id
+    WHERE t.user_id = auth.uid()
+      AND e.created_at >= p_start
+      AND e.created_at < p_end
+      AND (p_template_id IS NULL OR e.template_id = p_template_id)
+    GROUP BY 1
+  )
+  SELECT
+    d.day,
+    COALESCE(c.views, 0),
+    COALESCE(c.starts, 0),
+    COALESCE(c.uploads, 0),
+    COALESCE(c.downloads, 0),
+    COALESCE(c.shares, 0)
+  FROM days d
+  LEFT JOIN counts c ON c.day = d.day
+  ORDER BY d.day;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Event totals for [p_start, p_end) against the period of the same length just before it.
+-- change_percent is NULL when the previous period had no events.
+CREATE OR REPLACE FUNCTION public.get_analytics_summary(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_template_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  event_type TEXT,
+  current_count INTEGER,
+  previous_count INTEGER,
+  change_percent NUMERIC
+) AS $$
+  WITH event_types(event_type) AS (
+    VALUES ('view'), ('start'), ('upload'), ('download'), ('share')
+  ),
+  counts AS (
+    SELECT
+      e.event_type,
+      COUNT(*) FILTER (WHERE e.created_at >= p_start)::INTEGER AS current_count,
+      COUNT(*) FILTER (WHERE e.created_at < p_start)::INTEGER AS previous_count
+    FROM public.analytics_events e
+    JOIN public.templates t ON t.id = e.template_id
+    WHERE t.user_id = auth.uid()
+      AND e.created_at >= p_start - (p_end - p_start)
+      AND e.created_at < p_end
+      AND (p_template_id IS NULL OR e.template_id = p_template_id)
+    GROUP BY e.event_type
+  )
+  SELECT
+    et.event_type,
+    COALESCE(c.current_count, 0),
+    COALESCE(c.previous_count, 0),
+    CASE
+      WHEN COALESCE(c.previous_count, 0) = 0 THEN NULL
+      ELSE ROUND((c.current_count - c.previous_count) * 100.0 / c.previous_count, 1)
+    END
+  FROM event_types et
+  LEFT JOIN counts c ON c.event_type = et.event_type;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- The caller's templates ranked by downloads, then views, over [p_start, p_end)
+CREATE OR REPLACE FUNCTION public.get_analytics_top_templates(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  template_id UUID,
+  name TEXT,
+  template_type TEXT,
+  views INTEGER,
+  downloads INTEGER,
+  shares INTEGER
+) AS $$
+  SELECT
+    t.id,
+    t.name,
+    t.template_type,
+    COUNT(e.id) FILTER (WHERE e.event_type = 'view')::INTEGER AS views,
+    COUNT(e.id) FILTER (WHERE e.event_type = 'download')::INTEGER AS downloads,
+    COUNT(e.id) FILTER (WHERE e.event_type = 'share')::INTEGER AS shares
+  FROM public.templates t
+  LEFT JOIN public.analytics_events e
+    ON e.template_id = t.id
+   AND e.created_at >= p_start
+   AND e.created_at < p_end
+  WHERE t.user_id = auth.uid()
+  GROUP BY t.id, t.name, t.template_type
+  ORDER BY downloads DESC, views DESC, t.name
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_analytics_timeseries(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_analytics_summary(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_analytics_top_templates(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER) TO authenticated;
@@ -0,0 +1,172 @@
+-- Conversion funnel for the public generator
+-- Adds the image-editor and preview steps to the analytics events, tags every event with
+-- the device class of the browser that sent it, and rolls sessions up into a funnel:
+-- page view -> first field filled -> photo uploaded -> image editor applied -> preview -> download.
+
+-- =====================================================
+-- EVENT TYPES AND DEVICE CLASS
+-- =====================================================
+
+ALTER TABLE public.analytics_events DROP CONSTRAINT IF EXISTS analytics_events_event_type_check;
+ALTER TABLE public.analytics_events ADD CONSTRAINT analytics_events_event_type_check
+  CHECK (event_type IN ('view', 'start', 'upload', 'edit', 'preview', 'download', 'share'));
+
+ALTER TABLE public.analytics_events
+  ADD COLUMN IF NOT EXISTS device_class TEXT NOT NULL DEFAULT 'unknown'
+    CHECK (device_class IN ('mobile', 'tablet', 'desktop', 'unknown'));
+
+-- Classify a browser user agent as mobile, tablet or desktop
+CREATE OR REPLACE FUNCTION public.get_device_class(p_user_agent TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_user_agent IS NULL OR length(p_user_agent) = 0 THEN 'unknown'
+    WHEN p_user_agent ~* '(ipad|tablet|kindle|silk|playbook)'
+      OR (p_user_agent ~* 'android' AND p_user_agent !~* 'mobile') THEN 'tablet'
+    WHEN p_user_agent ~* '(mobi|iphone|ipod|android|blackberry|opera mini|iemobile)' THEN 'mobile'
+    ELSE 'desktop'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Backfilled downloads came from template_generations, which kept the user agent
+UPDATE public.analytics_events e
+SET device_class = public.get_device_class(g.user_agent)
+FROM public.template_generations g
+WHERE e.session_id = 'backfill'
+  AND g.template_id = e.template_id
+  AND g.created_at = e.created_at;
+
+CREATE INDEX IF NOT EXISTS idx_analytics_events_funnel
+  ON public.analytics_events(template_id, event_type, created_at DESC)
+  INCLUDE (session_id, device_class);
+
+-- =====================================================
+-- RECORDING EVENTS
+-- =====================================================
+
+-- Same as before, plus the new steps. The device class comes from the request's User-Agent
+-- header, so clients can't choose it. View, start and preview count once per session every 30 minutes.
+CREATE OR REPLACE FUNCTION public.track_template_event(
+  p_template_id UUID,
+  p_event_type TEXT,
+  p_session_id TEXT,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS VOID AS $$
+DECLARE
+  request_headers JSON;
+BEGIN
+  IF p_event_type NOT IN ('view', 'start', 'upload', 'edit', 'preview', 'download', 'share') THEN
+    RAISE EXCEPTION 'Unknown analytics event: %', p_event_type USING ERRCODE = '22023';
+  END IF;
+
+  IF p_session_id IS NULL OR length(p_session_id) = 0 OR length(p_session_id) > 64 THEN
+    RAISE EXCEPTION 'Invalid analytics session' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.templates WHERE id = p_template_id AND is_public = true) THEN
+    RETURN;
+  END IF;
+
+  IF p_event_type IN ('view', 'start', 'preview') AND EXISTS (
+    SELECT 1 FROM public.analytics_events
+    WHERE session_id = p_session_id
+      AND template_id = p_template_id
+      AND event_type = p_event_type
+      AND created_at > NOW() - INTERVAL '30 minutes'
+  ) THEN
+    RETURN;
+  END IF;
+
+  request_headers := NULLIF(current_setting('request.headers', true), '')::JSON;
+
+  INSERT INTO public.analytics_events (template_id, event_type, session_id, metadata, device_class)
+  VALUES (
+    p_template_id,
+    p_event_type,
+    p_session_id,
+    -- Metadata is a few descriptive fields; drop anything bigger
+    CASE WHEN pg_column_size(p_metadata) <= 2048 THEN COALESCE(p_metadata, '{}') ELSE '{}' END,
+    public.get_device_class(request_headers ->> 'user-agent')
+  );
+
+  IF p_event_type = 'view' THEN
+    UPDATE public.templates SET view_count = view_count + 1 WHERE id = p_template_id;
+  ELSIF p_event_type = 'download' THEN
+    UPDATE public.templates SET generation_count = generation_count + 1 WHERE id = p_template_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- ROLLUPS
+-- =====================================================
+
+-- Summary totals now cover the new steps too
+CREATE OR REPLACE FUNCTION public.get_analytics_summary(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_template_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  event_type TEXT,
+  current_count INTEGER,
+  previous_count INTEGER,
+  change_percent NUMERIC
+) AS $$
+  WITH event_types(event_type) AS (
+    VALUES ('view'), ('start'), ('upload'), ('edit'), ('preview'), ('download'), ('share')
+  ),
+  counts AS (
+    SELECT
+      e.event_type,
+      COUNT(*) FILTER (WHERE e.created_at >= p_start)::INTEGER AS current_count,
+      COUNT(*) FILTER (WHERE e.created_at < p_start)::INTEGER AS previous_count
+    FROM public.analytics_events e
+    JOIN public.templates t ON t.id = e.template_id
+    WHERE t.user_id = auth.uid()
+      AND e.created_at >= p_start - (p_end - p_start)
+      AND e.created_at < p_end
+      AND (p_template_id IS NULL OR e.template_id = p_template_id)
+    GROUP BY e.event_type
+  )
+  SELECT
+    et.event_type,
+    COALESCE(c.current_count, 0),
+    COALESCE(c.previous_count, 0),
+    CASE
+      WHEN COALESCE(c.previous_count, 0) = 0 THEN NULL
+      ELSE ROUND((c.current_count - c.previous_count) * 100.0 / c.previous_count, 1)
+    END
+  FROM event_types et
+  LEFT JOIN counts c ON c.event_type = et.event_type;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Sessions that reached each funnel step over [p_start, p_end), per device class.
+-- A session counts once per step however many times it repeated it. Backfilled downloads
+-- have no session, so they are left out. Pass NULL for all of the caller's templates.
+CREATE OR REPLACE FUNCTION public.get_template_funnel(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_template_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  event_type TEXT,
+  device_class TEXT,
+  sessions INTEGER
+) AS $$
+  SELECT
+    e.event_type,
+    e.device_class,
+    COUNT(DISTINCT e.session_id)::INTEGER
+  FROM public.analytics_events e
+  JOIN public.templates t ON t.id = e.template_id
+  WHERE t.user_id = auth.uid()
+    AND e.created_at >= p_start
+    AND e.created_at < p_end
+    AND e.session_id <> 'backfill'
+    AND e.event_type <> 'share'
+    AND (p_template_id IS NULL OR e.template_id = p_template_id)
+  GROUP BY e.event_type, e.device_class;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_template_funnel(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID) TO authenticated;
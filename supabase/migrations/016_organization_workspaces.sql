@@ -0,0 +1,328 @@
+-- Team workspaces
+-- Organizations get members with roles (owner, admin, editor, viewer) and email invites.
+-- Members share the organization's template library. A user can belong to several
+-- organizations, so membership lives in organization_members; profiles.organization_id and
+-- profiles.is_organization_admin from migration 003 are only read once, to backfill it.
+
+-- =====================================================
+-- MEMBERS AND INVITES
+-- =====================================================
+
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'editor', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user ON public.organization_members(user_id);
+
+-- Invites are redeemed with a token signed by the organization-invite Edge Function;
+-- the token carries the invite ID, so nothing secret is stored here
+CREATE TABLE IF NOT EXISTS public.organization_invites (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'editor', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() + INTERVAL '7 days') NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- One open invite per address and organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invites_open
+  ON public.organization_invites(organization_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+DROP TRIGGER IF EXISTS update_organization_members_updated_at ON public.organization_members;
+CREATE TRIGGER update_organization_members_updated_at
+  BEFORE UPDATE ON public.organization_members
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Carry over the single-organization links from migration 003
+INSERT INTO public.organization_members (organization_id, user_id, role)
+SELECT organization_id, id, CASE WHEN is_organization_admin THEN 'admin' ELSE 'editor' END
+FROM public.profiles
+WHERE organization_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+COMMENT ON COLUMN public.profiles.organization_id IS 'Superseded by organization_members';
+COMMENT ON COLUMN public.profiles.is_organization_admin IS 'Superseded by organization_members.role';
+
+-- =====================================================
+-- ROLE CHECKS
+-- =====================================================
+
+-- Whether the caller has one of the given roles in an organization. SECURITY DEFINER so
+-- policies on organization_members can use it without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.has_organization_role(p_organization_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND role = ANY(p_roles)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view organizations they belong to" ON public.organizations;
+CREATE POLICY "Users can view organizations they belong to" ON public.organizations
+  FOR SELECT USING (public.has_organization_role(id, ARRAY['owner', 'admin', 'editor', 'viewer']));
+
+DROP POLICY IF EXISTS "Organization admins can update their organization" ON public.organizations;
+CREATE POLICY "Organization admins can update their organization" ON public.organizations
+  FOR UPDATE USING (public.has_organization_role(id, ARRAY['owner', 'admin']));
+
+DROP POLICY IF EXISTS "Organization owners can delete their organization" ON public.organizations;
+CREATE POLICY "Organization owners can delete their organization" ON public.organizations
+  FOR DELETE USING (public.has_organization_role(id, ARRAY['owner']));
+
+-- Membership changes go through the functions below, which enforce the role rules
+DROP POLICY IF EXISTS "Members can view their organization's members" ON public.organization_members;
+CREATE POLICY "Members can view their organization's members" ON public.organization_members
+  FOR SELECT USING (public.has_organization_role(organization_id, ARRAY['owner', 'admin', 'editor', 'viewer']));
+
+-- Invites are created by the Edge Function; admins can list and revoke them
+DROP POLICY IF EXISTS "Organization admins can view invites" ON public.organization_invites;
+CREATE POLICY "Organization admins can view invites" ON public.organization_invites
+  FOR SELECT USING (public.has_organization_role(organization_id, ARRAY['owner', 'admin']));
+
+DROP POLICY IF EXISTS "Organization admins can revoke invites" ON public.organization_invites;
+CREATE POLICY "Organization admins can revoke invites" ON public.organization_invites
+  FOR DELETE USING (
+    accepted_at IS NULL
+    AND public.has_organization_role(organization_id, ARRAY['owner', 'admin'])
+  );
+
+-- Members list each other by name and email
+DROP POLICY IF EXISTS "Members can view profiles in their organizations" ON public.profiles;
+CREATE POLICY "Members can view profiles in their organizations" ON public.profiles
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.organization_members theirs
+      WHERE theirs.user_id = profiles.id
+        AND public.has_organization_role(theirs.organization_id, ARRAY['owner', 'admin', 'editor', 'viewer'])
+    )
+  );
+
+-- Personal templates stay with their creator; organization templates follow membership roles.
+-- Viewers can see the shared library, editors can add and change templates, and admins
+-- can also delete them.
+DROP POLICY IF EXISTS "Users can view own templates" ON public.templates;
+CREATE POLICY "Users can view own templates" ON public.templates
+  FOR SELECT USING (auth.uid() = user_id AND organization_id IS NULL);
+
+DROP POLICY IF EXISTS "Users can insert own templates" ON public.templates;
+CREATE POLICY "Users can insert own templates" ON public.templates
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      organization_id IS NULL
+      OR public.has_organization_role(organization_id, ARRAY['owner', 'admin', 'editor'])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update own templates" ON public.templates;
+CREATE POLICY "Users can update own templates" ON public.templates
+  FOR UPDATE USING (auth.uid() = user_id AND organization_id IS NULL)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      organization_id IS NULL
+      OR public.has_organization_role(organization_id, ARRAY['owner', 'admin', 'editor'])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete own templates" ON public.templates;
+CREATE POLICY "Users can delete own templates" ON public.templates
+  FOR DELETE USING (auth.uid() = user_id AND organization_id IS NULL);
+
+DROP POLICY IF EXISTS "Members can view organization templates" ON public.templates;
+CREATE POLICY "Members can view organization templates" ON public.templates
+  FOR SELECT USING (
+    organization_id IS NOT NULL
+    AND public.has_organization_role(organization_id, ARRAY['owner', 'admin', 'editor', 'viewer'])
+  );
+
+DROP POLICY IF EXISTS "Editors can update organization templates" ON public.templates;
+CREATE POLICY "Editors can update organization templates" ON public.templates
+  FOR UPDATE USING (
+    organization_id IS NOT NULL
+    AND public.has_organization_role(organization_id, ARRAY['owner', 'admin', 'editor'])
+  )
+  WITH CHECK (
+    organization_id IS NOT NULL
+    AND public.has_organization_role(organization_id, ARRAY['owner', 'admin', 'editor'])
+  );
+
+DROP POLICY IF EXISTS "Admins and creators can delete organization templates" ON public.templates;
+CREATE POLICY "Admins and creators can delete organization templates" ON public.templates
+  FOR DELETE USING (
+    organization_id IS NOT NULL
+    AND (
+      public.has_organization_role(organization_id, ARRAY['owner', 'admin'])
+      OR (auth.uid() = user_id AND public.has_organization_role(organization_id, ARRAY['editor']))
+    )
+  );
+
+-- Editors can change an organization's templates but not move them to another workspace or
+-- hand them to someone else: only owners and admins of the current organization can change
+-- organization_id or user_id
+CREATE OR REPLACE FUNCTION public.guard_organization_template_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_client_role()
+     AND OLD.organization_id IS NOT NULL
+     AND (NEW.organization_id IS DISTINCT FROM OLD.organization_id
+          OR NEW.user_id IS DISTINCT FROM OLD.user_id)
+     AND NOT public.has_organization_role(OLD.organization_id, ARRAY['owner', 'admin']) THEN
+    RAISE EXCEPTION 'Only organization owners and admins can move or reassign its templates'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_organization_template_owner ON public.templates;
+CREATE TRIGGER guard_organization_template_owner
+  BEFORE UPDATE ON public.templates
+  FOR EACH ROW EXECUTE FUNCTION public.guard_organization_template_owner();
+
+-- =====================================================
+-- MEMBERSHIP FUNCTIONS
+-- =====================================================
+
+-- Create an organization with the caller as its owner
+CREATE OR REPLACE FUNCTION public.create_organization(p_name TEXT, p_description TEXT DEFAULT NULL)
+RETURNS public.organizations AS $$
+DECLARE
+  v_organization public.organizations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create an organization' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_name IS NULL OR length(trim(p_name)) = 0 OR length(trim(p_name)) > 100 THEN
+    RAISE EXCEPTION 'Organization name must be between 1 and 100 characters' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.organizations (name, description, created_by)
+  VALUES (trim(p_name), NULLIF(trim(p_description), ''), auth.uid())
+  RETURNING * INTO v_organization;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_organization.id, auth.uid(), 'owner');
+
+  RETURN v_organization;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Raise if a change would leave an organization without an owner
+CREATE OR REPLACE FUNCTION public.assert_other_owner(p_organization_id UUID, p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND role = 'owner'
+      AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'An organization needs at least one owner. Make someone else an owner first.'
+      USING ERRCODE = '22023';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Change a member's role. Admins manage editors and viewers; only owners can grant,
+-- change or remove the admin and owner roles.
+CREATE OR REPLACE FUNCTION public.update_organization_member_role(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_role TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_current_role TEXT;
+BEGIN
+  IF p_role NOT IN ('owner', 'admin', 'editor', 'viewer') THEN
+    RAISE EXCEPTION 'Unknown role: %', p_role USING ERRCODE = '22023';
+  END IF;
+
+  SELECT role INTO v_current_role
+  FROM public.organization_members
+  WHERE organization_id = p_organization_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_current_role IS NULL THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.has_organization_role(p_organization_id, ARRAY['owner', 'admin'])
+     OR ((v_current_role IN ('owner', 'admin') OR p_role IN ('owner', 'admin'))
+         AND NOT public.has_organization_role(p_organization_id, ARRAY['owner'])) THEN
+    RAISE EXCEPTION 'You do not have permission to change this role' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_current_role = 'owner' AND p_role <> 'owner' THEN
+    PERFORM public.assert_other_owner(p_organization_id, p_user_id);
+  END IF;
+
+  UPDATE public.organization_members
+  SET role = p_role
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Remove a member, or leave when removing yourself. Their templates stay in the organization.
+CREATE OR REPLACE FUNCTION public.remove_organization_member(p_organization_id UUID, p_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_current_role TEXT;
+BEGIN
+  SELECT role INTO v_current_role
+  FROM public.organization_members
+  WHERE organization_id = p_organization_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_current_role IS NULL THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_user_id <> auth.uid() AND (
+    NOT public.has_organization_role(p_organization_id, ARRAY['owner', 'admin'])
+    OR (v_current_role IN ('owner', 'admin')
+        AND NOT public.has_organization_role(p_organization_id, ARRAY['owner']))
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to remove this member' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_current_role = 'owner' THEN
+    PERFORM public.assert_other_owner(p_organization_id, p_user_id);
+  END IF;
+
+  DELETE FROM public.organization_members
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.assert_other_owner(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.has_organization_role(UUID, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_organization(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_organization_member_role(UUID, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_organization_member(UUID, UUID) TO authenticated;
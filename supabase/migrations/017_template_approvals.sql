@@ -0,0 +1,230 @@
+-- Template approvals
+-- Organization templates go through draft -> in_review -> approved/rejected before their
+-- public link works. Editors submit, owners and admins review with an optional comment,
+-- and the other side is told through an in-app notification. Personal templates are not
+-- reviewed; their public link works as soon as they are shared.
+
+-- =====================================================
+-- REVIEW STATUS
+-- =====================================================
+
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (review_status IN ('draft', 'in_review', 'approved', 'rejected'));
+
+-- Organization templates that are already shared stay live
+UPDATE public.templates
+SET review_status = 'approved'
+WHERE organization_id IS NOT NULL AND is_public = true;
+
+CREATE INDEX IF NOT EXISTS idx_templates_review_queue
+  ON public.templates(organization_id, updated_at DESC)
+  WHERE review_status = 'in_review';
+
+CREATE TABLE IF NOT EXISTS public.template_reviews (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('submitted', 'approved', 'rejected')),
+  comment TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_reviews_template
+  ON public.template_reviews(template_id, created_at DESC);
+
+-- =====================================================
+-- NOTIFICATIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('review_requested', 'template_approved', 'template_rejected')),
+  title TEXT NOT NULL,
+  body TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user
+  ON public.notifications(user_id, created_at DESC);
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE public.template_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Only approved organization templates are visible to the public
+DROP POLICY IF EXISTS "Anyone can view public templates" ON public.templates;
+CREATE POLICY "Anyone can view public templates" ON public.templates
+  FOR SELECT USING (
+    is_public = true
+    AND (organization_id IS NULL OR review_status = 'approved')
+  );
+
+DROP POLICY IF EXISTS "Members can view template reviews" ON public.template_reviews;
+CREATE POLICY "Members can view template reviews" ON public.template_reviews
+  FOR SELECT USING (
+    public.has_organization_role(organization_id, ARRAY['owner', 'admin', 'editor', 'viewer'])
+  );
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON public.notifications;
+CREATE POLICY "Users can view own notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can mark own notifications read" ON public.notifications;
+CREATE POLICY "Users can mark own notifications read" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own notifications" ON public.notifications;
+CREATE POLICY "Users can delete own notifications" ON public.notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- STATUS GUARD
+-- =====================================================
+
+-- Editors can update organization templates directly, so the review status may only be
+-- changed by the review functions below, which set app.template_review for their transaction.
+-- New templates, templates moved to another workspace and templates whose design changes
+-- after being submitted or approved start over as drafts, so no edit goes live unreviewed.
+CREATE OR REPLACE FUNCTION public.guard_template_review_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF coalesce(current_setting('app.template_review', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    NEW.review_status := 'draft';
+  ELSIF NEW.review_status IS DISTINCT FROM OLD.review_status THEN
+    RAISE EXCEPTION 'Submit the template for review to change its review status'
+      USING ERRCODE = '42501';
+  ELSIF OLD.review_status IN ('in_review', 'approved') AND ROW(
+    NEW.name, NEW.description, NEW.template_type, NEW.background_url, NEW.frames, NEW.pages,
+    NEW.schema_version, NEW.canvas_width, NEW.canvas_height, NEW.print_dpi
+  ) IS DISTINCT FROM ROW(
+    OLD.name, OLD.description, OLD.template_type, OLD.background_url, OLD.frames, OLD.pages,
+    OLD.schema_version, OLD.canvas_width, OLD.canvas_height, OLD.print_dpi
+  ) THEN
+    NEW.review_status := 'draft';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_templates_review_status ON public.templates;
+CREATE TRIGGER guard_templates_review_status
+  BEFORE INSERT OR UPDATE ON public.templates
+  FOR EACH ROW EXECUTE FUNCTION public.guard_template_review_status();
+
+-- =====================================================
+-- REVIEW FUNCTIONS
+-- =====================================================
+
+-- Submit an organization template for review. Sharing intent is recorded by setting
+-- is_public; the link only resolves once the template is approved.
+CREATE OR REPLACE FUNCTION public.submit_template_for_review(p_template_id UUID, p_comment TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_template public.templates;
+BEGIN
+  SELECT * INTO v_template FROM public.templates WHERE id = p_template_id FOR UPDATE;
+
+  IF v_template.id IS NULL OR v_template.organization_id IS NULL THEN
+    RAISE EXCEPTION 'Only organization templates are reviewed' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.has_organization_role(v_template.organization_id, ARRAY['owner', 'admin', 'editor']) THEN
+    RAISE EXCEPTION 'You do not have permission to submit this template' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_template.review_status NOT IN ('draft', 'rejected') THEN
+    RAISE EXCEPTION 'This template is already %', replace(v_template.review_status, '_', ' ')
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.template_review', 'on', true);
+
+  UPDATE public.templates
+  SET review_status = 'in_review', is_public = true, updated_at = NOW()
+  WHERE id = p_template_id;
+
+  INSERT INTO public.template_reviews (template_id, organization_id, action, comment, actor_id)
+  VALUES (p_template_id, v_template.organization_id, 'submitted', NULLIF(trim(p_comment), ''), auth.uid());
+
+  INSERT INTO public.notifications (user_id, organization_id, template_id, type, title, body)
+  SELECT m.user_id, v_template.organization_id, p_template_id, 'review_requested',
+         format('"%s" is waiting for review', v_template.name),
+         NULLIF(trim(p_comment), '')
+  FROM public.organization_members m
+  WHERE m.organization_id = v_template.organization_id
+    AND m.role IN ('owner', 'admin')
+    AND m.user_id <> auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approve or reject a template that is in review. Rejections need a comment so the
+-- author knows what to change.
+CREATE OR REPLACE FUNCTION public.review_template(p_template_id UUID, p_decision TEXT, p_comment TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_template public.templates;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown decision: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  IF p_decision = 'rejected' AND coalesce(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'Add a comment explaining what needs to change' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_template FROM public.templates WHERE id = p_template_id FOR UPDATE;
+
+  IF v_template.id IS NULL OR v_template.organization_id IS NULL THEN
+    RAISE EXCEPTION 'Only organization templates are reviewed' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.has_organization_role(v_template.organization_id, ARRAY['owner', 'admin']) THEN
+    RAISE EXCEPTION 'Only owners and admins can review templates' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_template.review_status <> 'in_review' THEN
+    RAISE EXCEPTION 'This template is not waiting for review' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.template_review', 'on', true);
+
+  UPDATE public.templates
+  SET review_status = p_decision, updated_at = NOW()
+  WHERE id = p_template_id;
+
+  INSERT INTO public.template_reviews (template_id, organization_id, action, comment, actor_id)
+  VALUES (p_template_id, v_template.organization_id, p_decision, NULLIF(trim(p_comment), ''), auth.uid());
+
+  IF v_template.user_id <> auth.uid() THEN
+    INSERT INTO public.notifications (user_id, organization_id, template_id, type, title, body)
+    VALUES (
+      v_template.user_id,
+      v_template.organization_id,
+      p_template_id,
+      CASE WHEN p_decision = 'approved' THEN 'template_approved' ELSE 'template_rejected' END,
+      CASE WHEN p_decision = 'approved'
+        THEN format('"%s" was approved and its link is live', v_template.name)
+        ELSE format('"%s" needs changes', v_template.name)
+      END,
+      NULLIF(trim(p_comment), '')
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_template_for_review(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_template(UUID, TEXT, TEXT) TO authenticated;
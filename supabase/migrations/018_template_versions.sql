@@ -0,0 +1,178 @@
+-- Template version history
+-- Every save that changes a template's design or metadata writes an immutable row to
+-- template_versions, numbered per template. Versions can be compared, restored (which saves
+-- a new version) or branched into a new template. A template's share link can be pinned to
+-- one version through published_version_id so later edits don't change what people see.
+
+-- =====================================================
+-- VERSIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.template_versions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE NOT NULL,
+  version_number INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  template_type TEXT,
+  background_url TEXT,
+  frames JSONB NOT NULL DEFAULT '[]'::jsonb,
+  pages JSONB,
+  schema_version INTEGER NOT NULL DEFAULT 1,
+  canvas_width INTEGER NOT NULL,
+  canvas_height INTEGER NOT NULL,
+  print_dpi INTEGER,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (template_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_versions_template
+  ON public.template_versions(template_id, version_number DESC);
+
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS published_version_id UUID
+    REFERENCES public.template_versions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.templates.published_version_id IS 'Version the public link serves; NULL serves the latest save';
+
+-- =====================================================
+-- RECORDING
+-- =====================================================
+
+-- Snapshot the template after each insert, and after updates that change its content.
+-- Counters and sharing flags don't create versions.
+CREATE OR REPLACE FUNCTION public.record_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND ROW(
+    NEW.name, NEW.description, NEW.template_type, NEW.background_url, NEW.frames, NEW.pages,
+    NEW.schema_version, NEW.canvas_width, NEW.canvas_height, NEW.print_dpi
+  ) IS NOT DISTINCT FROM ROW(
+    OLD.name, OLD.description, OLD.template_type, OLD.background_url, OLD.frames, OLD.pages,
+    OLD.schema_version, OLD.canvas_width, OLD.canvas_height, OLD.print_dpi
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Concurrent saves of the same template take turns, so version numbers never collide
+  PERFORM 1 FROM public.templates WHERE id = NEW.id FOR UPDATE;
+
+  INSERT INTO public.template_versions (
+    template_id, version_number, name, description, template_type, background_url, frames,
+    pages, schema_version, canvas_width, canvas_height, print_dpi, created_by
+  )
+  SELECT
+    NEW.id,
+    COALESCE(MAX(v.version_number), 0) + 1,
+    NEW.name, NEW.description, NEW.template_type, NEW.background_url, COALESCE(NEW.frames, '[]'::jsonb),
+    NEW.pages, NEW.schema_version, NEW.canvas_width, NEW.canvas_height, NEW.print_dpi,
+    COALESCE(auth.uid(), NEW.user_id)
+  FROM public.template_versions v
+  WHERE v.template_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_templates_version ON public.templates;
+CREATE TRIGGER record_templates_version
+  AFTER INSERT OR UPDATE ON public.templates
+  FOR EACH ROW EXECUTE FUNCTION public.record_template_version();
+
+-- Versions never change once written
+CREATE OR REPLACE FUNCTION public.prevent_template_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Template versions cannot be changed' USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_template_versions_update ON public.template_versions;
+CREATE TRIGGER prevent_template_versions_update
+  BEFORE UPDATE ON public.template_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_template_version_update();
+
+-- A template can only be pinned to one of its own versions
+CREATE OR REPLACE FUNCTION public.check_published_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.published_version_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.template_versions
+    WHERE id = NEW.published_version_id AND template_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'That version belongs to a different template' USING ERRCODE = '23503';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_templates_published_version ON public.templates;
+CREATE TRIGGER check_templates_published_version
+  BEFORE INSERT OR UPDATE OF published_version_id ON public.templates
+  FOR EACH ROW EXECUTE FUNCTION public.check_published_version();
+
+-- Same as 017, and pinning a different version also sends a submitted or approved template
+-- back to draft, so a share link never serves a version that wasn't reviewed
+CREATE OR REPLACE FUNCTION public.guard_template_review_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF coalesce(current_setting('app.template_review', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    NEW.review_status := 'draft';
+  ELSIF NEW.review_status IS DISTINCT FROM OLD.review_status THEN
+    RAISE EXCEPTION 'Submit the template for review to change its review status'
+      USING ERRCODE = '42501';
+  ELSIF OLD.review_status IN ('in_review', 'approved') AND ROW(
+    NEW.name, NEW.description, NEW.template_type, NEW.background_url, NEW.frames, NEW.pages,
+    NEW.schema_version, NEW.canvas_width, NEW.canvas_height, NEW.print_dpi, NEW.published_version_id
+  ) IS DISTINCT FROM ROW(
+    OLD.name, OLD.description, OLD.template_type, OLD.background_url, OLD.frames, OLD.pages,
+    OLD.schema_version, OLD.canvas_width, OLD.canvas_height, OLD.print_dpi, OLD.published_version_id
+  ) THEN
+    NEW.review_status := 'draft';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Existing templates start their history at version 1
+INSERT INTO public.template_versions (
+  template_id, version_number, name, description, template_type, background_url, frames,
+  pages, schema_version, canvas_width, canvas_height, print_dpi, created_by, created_at
+)
+SELECT
+  t.id, 1, t.name, t.description, t.template_type, t.background_url, COALESCE(t.frames, '[]'::jsonb),
+  t.pages, t.schema_version, t.canvas_width, t.canvas_height, t.print_dpi, t.user_id, t.updated_at
+FROM public.templates t
+WHERE NOT EXISTS (SELECT 1 FROM public.template_versions v WHERE v.template_id = t.id);
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+-- Versions are written only by the trigger above. Whoever can read a template can read its
+-- history; the public can read just the version a live share link is pinned to.
+ALTER TABLE public.template_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Template editors can view versions" ON public.template_versions;
+CREATE POLICY "Template editors can view versions" ON public.template_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.templates t
+      WHERE t.id = template_versions.template_id
+        AND (
+          t.user_id = auth.uid()
+          OR (t.organization_id IS NOT NULL
+              AND public.has_organization_role(t.organization_id, ARRAY['owner', 'admin', 'editor', 'viewer']))
+          OR (t.published_version_id = template_versions.id
+              AND t.is_public = true
+              AND (t.organization_id IS NULL OR t.review_status = 'approved'))
+        )
+    )
+  );
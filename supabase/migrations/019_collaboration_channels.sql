@@ -0,0 +1,69 @@
+-- Live collaboration channels
+-- The editor joins the private Realtime channel "template:<id>" to share edits, cursors and
+-- presence. Realtime authorizes private channels through RLS on realtime.messages: anyone who
+-- can open a template may listen and announce their presence, but only people who can edit
+-- it may broadcast changes.
+
+-- =====================================================
+-- ACCESS CHECK
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.can_join_template_channel(p_topic TEXT, p_edit BOOLEAN)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_template public.templates%ROWTYPE;
+BEGIN
+  IF p_topic IS NULL OR p_topic NOT LIKE 'template:%' THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    SELECT * INTO v_template FROM public.templates
+    WHERE id = substring(p_topic FROM 10)::UUID;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN false;
+  END;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_template.user_id = auth.uid() THEN
+    RETURN true;
+  END IF;
+
+  IF v_template.organization_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF p_edit THEN
+    RETURN public.has_organization_role(v_template.organization_id, ARRAY['owner', 'admin', 'editor']);
+  END IF;
+
+  RETURN public.has_organization_role(v_template.organization_id, ARRAY['owner', 'admin', 'editor', 'viewer']);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.can_join_template_channel(TEXT, BOOLEAN) TO authenticated;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+DROP POLICY IF EXISTS "Template viewers can receive collaboration messages" ON realtime.messages;
+CREATE POLICY "Template viewers can receive collaboration messages" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND public.can_join_template_channel(realtime.topic(), false)
+  );
+
+DROP POLICY IF EXISTS "Template collaborators can send collaboration messages" ON realtime.messages;
+CREATE POLICY "Template collaborators can send collaboration messages" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (realtime.messages.extension = 'presence'
+      AND public.can_join_template_channel(realtime.topic(), false))
+    OR (realtime.messages.extension = 'broadcast'
+      AND public.can_join_template_channel(realtime.topic(), true))
+  );
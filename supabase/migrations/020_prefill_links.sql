@@ -0,0 +1,27 @@
+-- Prefilled generator links
+-- Text frames can carry a field key that `/flyer/:templateId?<key>=<value>` prefills. Signed
+-- links carry their fields in a token (`?prefill=<payload>.<signature>`) signed with
+-- HMAC-SHA256 and the template's link key; the generator shows those fields locked. The keys
+-- are only ever read by the prefill-link Edge Functions, so registration systems that sign
+-- their own links get the key from the template's editors.
+
+-- =====================================================
+-- LINK KEYS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.template_link_keys (
+  template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE PRIMARY KEY,
+  secret TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  rotated_at TIMESTAMP WITH TIME ZONE
+);
+
+COMMENT ON TABLE public.template_link_keys IS 'HMAC keys for signed prefill links; service role only';
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+-- No policies: only the Edge Functions (service role) read or write link keys
+ALTER TABLE public.template_link_keys ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,14 @@
+-- Embeddable generator
+-- Sites can show a template's generator inline through public/embed.js, which loads
+-- /embed/:templateId in an iframe. The generator only runs embedded on the origins listed
+-- here, and only exchanges postMessage events and commands with those origins.
+-- An empty list means the template can't be embedded.
+
+-- =====================================================
+-- TEMPLATES: EMBED ORIGINS
+-- =====================================================
+
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS embed_allowed_origins TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.templates.embed_allowed_origins IS 'Origins (scheme://host[:port]) allowed to embed the generator; empty disables embedding';
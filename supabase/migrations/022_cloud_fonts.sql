@@ -0,0 +1,173 @@
+-- Cloud fonts
+-- Uploaded fonts live in the public user-fonts bucket, one row per file in fonts. Personal
+-- fonts belong to their uploader; organization fonts are shared with every member. Templates
+-- record the fonts their text frames use (templates.fonts, copied into each version), so the
+-- public generator can load them with FontFace without reading the fonts table.
+
+-- =====================================================
+-- FONTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.fonts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  family TEXT NOT NULL,
+  weight TEXT NOT NULL DEFAULT 'normal',
+  style TEXT NOT NULL DEFAULT 'normal' CHECK (style IN ('normal', 'italic')),
+  format TEXT NOT NULL CHECK (format IN ('woff2', 'woff', 'truetype', 'opentype')),
+  file_name TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  url TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_fonts_user ON public.fonts(user_id) WHERE organization_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_fonts_organization ON public.fonts(organization_id) WHERE organization_id IS NOT NULL;
+
+ALTER TABLE public.fonts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own and organization fonts" ON public.fonts;
+CREATE POLICY "Users can view own and organization fonts" ON public.fonts
+  FOR SELECT USING (
+    (organization_id IS NULL AND user_id = auth.uid())
+    OR (
+      organization_id IS NOT NULL
+      AND public.has_organization_role(organization_id, ARRAY['owner', 'admin', 'editor', 'viewer'])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can add fonts" ON public.fonts;
+CREATE POLICY "Users can add fonts" ON public.fonts
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      organization_id IS NULL
+      OR public.has_organization_role(organization_id, ARRAY['owner', 'admin', 'editor'])
+    )
+  );
+
+DROP POLICY IF EXISTS "Uploaders and admins can delete fonts" ON public.fonts;
+CREATE POLICY "Uploaders and admins can delete fonts" ON public.fonts
+  FOR DELETE USING (
+    user_id = auth.uid()
+    OR (
+      organization_id IS NOT NULL
+      AND public.has_organization_role(organization_id, ARRAY['owner', 'admin'])
+    )
+  );
+
+COMMENT ON TABLE public.fonts IS 'Uploaded font files; organization fonts are shared with members';
+
+-- =====================================================
+-- STORAGE
+-- =====================================================
+
+-- Files are stored under the uploader's ID; the generator fetches them without signing in
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('user-fonts', 'user-fonts', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Fonts are publicly viewable" ON storage.objects;
+CREATE POLICY "Fonts are publicly viewable" ON storage.objects
+  FOR SELECT USING (bucket_id = 'user-fonts');
+
+DROP POLICY IF EXISTS "Users can upload own fonts" ON storage.objects;
+CREATE POLICY "Users can upload own fonts" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'user-fonts'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+-- Organization admins can remove a member's font row, and with it the file
+DROP POLICY IF EXISTS "Uploaders and admins can delete font files" ON storage.objects;
+CREATE POLICY "Uploaders and admins can delete font files" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'user-fonts'
+    AND (
+      auth.uid()::text = (storage.foldername(name))[1]
+      OR EXISTS (
+        SELECT 1 FROM public.fonts f
+        WHERE f.storage_path = storage.objects.name
+          AND f.organization_id IS NOT NULL
+          AND public.has_organization_role(f.organization_id, ARRAY['owner', 'admin'])
+      )
+    )
+  );
+
+-- =====================================================
+-- TEMPLATE FONTS
+-- =====================================================
+
+-- [{ id, family, weight, style, format, url }] for the uploaded fonts the template's text uses
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS fonts JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.template_versions
+  ADD COLUMN IF NOT EXISTS fonts JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.templates.fonts IS 'Uploaded fonts used by the template, loaded by the public generator';
+
+-- Same as 018, with fonts recorded in each version
+CREATE OR REPLACE FUNCTION public.record_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND ROW(
+    NEW.name, NEW.description, NEW.template_type, NEW.background_url, NEW.frames, NEW.pages,
+    NEW.schema_version, NEW.canvas_width, NEW.canvas_height, NEW.print_dpi, NEW.fonts
+  ) IS NOT DISTINCT FROM ROW(
+    OLD.name, OLD.description, OLD.template_type, OLD.background_url, OLD.frames, OLD.pages,
+    OLD.schema_version, OLD.canvas_width, OLD.canvas_height, OLD.print_dpi, OLD.fonts
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Concurrent saves of the same template take turns, so version numbers never collide
+  PERFORM 1 FROM public.templates WHERE id = NEW.id FOR UPDATE;
+
+  INSERT INTO public.template_versions (
+    template_id, version_number, name, description, template_type, background_url, frames,
+    pages, schema_version, canvas_width, canvas_height, print_dpi, fonts, created_by
+  )
+  SELECT
+    NEW.id,
+    COALESCE(MAX(v.version_number), 0) + 1,
+    NEW.name, NEW.description, NEW.template_type, NEW.background_url, COALESCE(NEW.frames, '[]'::jsonb),
+    NEW.pages, NEW.schema_version, NEW.canvas_width, NEW.canvas_height, NEW.print_dpi, NEW.fonts,
+    COALESCE(auth.uid(), NEW.user_id)
+  FROM public.template_versions v
+  WHERE v.template_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as 018, with a font change also sending a submitted or approved template back to draft
+CREATE OR REPLACE FUNCTION public.guard_template_review_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF coalesce(current_setting('app.template_review', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    NEW.review_status := 'draft';
+  ELSIF NEW.review_status IS DISTINCT FROM OLD.review_status THEN
+    RAISE EXCEPTION 'Submit the template for review to change its review status'
+      USING ERRCODE = '42501';
+  ELSIF OLD.review_status IN ('in_review', 'approved') AND ROW(
+    NEW.name, NEW.description, NEW.template_type, NEW.background_url, NEW.frames, NEW.pages,
+    NEW.schema_version, NEW.canvas_width, NEW.canvas_height, NEW.print_dpi, NEW.published_version_id,
+    NEW.fonts
+  ) IS DISTINCT FROM ROW(
+    OLD.name, OLD.description, OLD.template_type, OLD.background_url, OLD.frames, OLD.pages,
+    OLD.schema_version, OLD.canvas_width, OLD.canvas_height, OLD.print_dpi, OLD.published_version_id,
+    OLD.fonts
+  ) THEN
+    NEW.review_status := 'draft';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,90 @@
+-- Public API keys
+-- Plans with api_access can create keys for the public REST API (the api-v1 Edge Function).
+-- Only a SHA-256 hash of each key is stored; the key itself is shown once when it's created.
+-- Keys act for their creator in one workspace: their personal templates, or one organization's.
+-- Every request is logged to usage_logs as 'api_call', which the database rejects for plans
+-- without API access; renders are also logged as 'template_exported' and so count against
+-- the monthly export limit like any other export.
+
+-- =====================================================
+-- API KEYS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  key_prefix TEXT NOT NULL, -- Start of the key, so people can tell their keys apart
+  key_hash TEXT NOT NULL UNIQUE, -- Hex SHA-256 of the full key
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['templates:read', 'flyers:render']
+    CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['templates:read', 'flyers:render']),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON public.api_keys(user_id, created_at DESC);
+
+COMMENT ON TABLE public.api_keys IS 'Hashed keys for the public API; created and revoked by the api-keys Edge Function';
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+-- Owners can list their keys; creating and revoking goes through the api-keys function
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own API keys" ON public.api_keys;
+CREATE POLICY "Users can view own API keys" ON public.api_keys
+  FOR SELECT USING (user_id = auth.uid());
+
+-- =====================================================
+-- LIMIT ENFORCEMENT
+-- =====================================================
+
+-- Same as 013, with API calls limited to plans that include API access
+CREATE OR REPLACE FUNCTION public.enforce_usage_entitlements()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_plan public.plans;
+  v_used INTEGER;
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_plan := public.lock_user_entitlements(NEW.user_id);
+
+  IF NEW.action = 'font_uploaded' AND NOT v_plan.custom_fonts THEN
+    RAISE EXCEPTION 'Custom font uploads are not included in the % plan.', v_plan.name
+      USING HINT = 'plan_limit';
+  END IF;
+
+  IF NEW.action = 'api_call' AND NOT v_plan.api_access THEN
+    RAISE EXCEPTION 'API access is not included in the % plan.', v_plan.name
+      USING HINT = 'plan_limit';
+  END IF;
+
+  IF NEW.action = 'template_exported' THEN
+    SELECT COUNT(*) INTO v_used
+    FROM public.usage_logs
+    WHERE user_id = NEW.user_id
+      AND action = 'template_exported'
+      AND created_at >= date_trunc('month', NOW());
+
+    IF v_plan.monthly_exports_limit <> -1 AND v_used >= v_plan.monthly_exports_limit THEN
+      RAISE EXCEPTION 'Monthly export limit reached (%). Upgrade your plan for more exports.', v_plan.monthly_exports_limit
+        USING HINT = 'plan_limit';
+    END IF;
+
+    UPDATE public.profiles SET monthly_exports = v_used + 1 WHERE id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX IF NOT EXISTS idx_usage_logs_api_calls
+  ON public.usage_logs(user_id, created_at DESC)
+  WHERE action = 'api_call';
@@ -0,0 +1,304 @@
+-- Outgoing webhooks
+-- Creators register endpoints for their account, an organization, or a single template, and
+-- choose which events they receive. Events are queued here by triggers on the tables the app
+-- already writes to (generations, exports, template publishing, plan changes), one delivery
+-- per matching endpoint; the webhook-dispatch Edge Function sends them signed with the
+-- endpoint's secret and retries failures with backoff. Endpoints and secrets are managed by
+-- the webhooks Edge Function, so secrets are never readable from the browser.
+
+-- =====================================================
+-- ENDPOINTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE, -- NULL receives events for the whole workspace
+  url TEXT NOT NULL CHECK (url ~ '^https://' AND char_length(url) <= 2000),
+  description TEXT CHECK (char_length(description) <= 200),
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['generation.created', 'template.published', 'download_limit.reached', 'subscription.changed']
+  ),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  -- Plans belong to people, so only personal account-wide endpoints hear about them
+  CONSTRAINT webhook_endpoints_subscription_scope CHECK (
+    NOT ('subscription.changed' = ANY(events)) OR (organization_id IS NULL AND template_id IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user ON public.webhook_endpoints(user_id) WHERE organization_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_organization ON public.webhook_endpoints(organization_id) WHERE organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_template ON public.webhook_endpoints(template_id) WHERE template_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoint_secrets (
+  endpoint_id UUID REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE PRIMARY KEY,
+  secret TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE public.webhook_endpoint_secrets IS 'HMAC keys for signing webhook deliveries; service role only';
+
+-- =====================================================
+-- DELIVERIES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  endpoint_id UUID REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE NOT NULL,
+  event_id UUID NOT NULL, -- Shared by every delivery of one event, including redeliveries
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  response_status INTEGER,
+  response_body TEXT, -- First 1,000 characters
+  error TEXT,
+  redelivery_of UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON public.webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- Generations record the format downloaded, for the generation.created payload
+ALTER TABLE public.template_generations ADD COLUMN IF NOT EXISTS format TEXT;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- No policies: only the Edge Functions (service role) read secrets
+ALTER TABLE public.webhook_endpoint_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Whoever can manage an endpoint can see it and its deliveries; changes go through the webhooks function
+CREATE OR REPLACE FUNCTION public.can_manage_webhook_endpoint(p_user_id UUID, p_organization_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN p_organization_id IS NULL THEN p_user_id = auth.uid()
+    ELSE public.has_organization_role(p_organization_id, ARRAY['owner', 'admin'])
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Managers can view webhook endpoints" ON public.webhook_endpoints;
+CREATE POLICY "Managers can view webhook endpoints" ON public.webhook_endpoints
+  FOR SELECT USING (public.can_manage_webhook_endpoint(user_id, organization_id));
+
+DROP POLICY IF EXISTS "Managers can view webhook deliveries" ON public.webhook_deliveries;
+CREATE POLICY "Managers can view webhook deliveries" ON public.webhook_deliveries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.webhook_endpoints e
+      WHERE e.id = webhook_deliveries.endpoint_id
+        AND public.can_manage_webhook_endpoint(e.user_id, e.organization_id)
+    )
+  );
+
+-- =====================================================
+-- QUEUEING EVENTS
+-- =====================================================
+
+-- Queue one delivery of an event for every active endpoint subscribed to it: endpoints on the
+-- template itself, and workspace-wide endpoints of the workspace the event happened in
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(
+  p_event_type TEXT,
+  p_user_id UUID,
+  p_organization_id UUID,
+  p_template_id UUID,
+  p_data JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_event_id UUID := uuid_generate_v4();
+BEGIN
+  INSERT INTO public.webhook_deliveries (endpoint_id, event_id, event_type, payload)
+  SELECT
+    e.id,
+    v_event_id,
+    p_event_type,
+    jsonb_build_object('id', v_event_id, 'type', p_event_type, 'created_at', NOW(), 'data', p_data)
+  FROM public.webhook_endpoints e
+  WHERE e.active
+    AND p_event_type = ANY(e.events)
+    AND (
+      (p_template_id IS NOT NULL AND e.template_id = p_template_id)
+      OR (
+        e.template_id IS NULL
+        AND CASE
+          WHEN p_organization_id IS NOT NULL THEN e.organization_id = p_organization_id
+          ELSE e.organization_id IS NULL AND e.user_id = p_user_id
+        END
+      )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hand the dispatcher a batch of due deliveries. Each is leased for five minutes so a
+-- dispatcher that dies mid-send leaves it to be retried rather than lost.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.webhook_deliveries AS $$
+  UPDATE public.webhook_deliveries d
+  SET next_attempt_at = NOW() + INTERVAL '5 minutes'
+  WHERE d.id IN (
+    SELECT id FROM public.webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(TEXT, UUID, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- EVENT TRIGGERS
+-- =====================================================
+
+-- generation.created from the public generator
+CREATE OR REPLACE FUNCTION public.webhook_generation_created()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_template public.templates;
+BEGIN
+  SELECT * INTO v_template FROM public.templates WHERE id = NEW.template_id;
+  IF FOUND THEN
+    PERFORM public.enqueue_webhook_event(
+      'generation.created', v_template.user_id, v_template.organization_id, v_template.id,
+      jsonb_build_object(
+        'template_id', v_template.id,
+        'template_name', v_template.name,
+        'generation_id', NEW.id,
+        'format', NEW.format,
+        'source', 'generator'
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS webhook_generation_created ON public.template_generations;
+CREATE TRIGGER webhook_generation_created
+  AFTER INSERT ON public.template_generations
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_generation_created();
+
+-- generation.created from exports logged against a template, such as API renders
+CREATE OR REPLACE FUNCTION public.webhook_template_exported()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_template public.templates;
+BEGIN
+  IF NEW.resource_id !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_template FROM public.templates WHERE id = NEW.resource_id::UUID;
+  IF FOUND THEN
+    PERFORM public.enqueue_webhook_event(
+      'generation.created', v_template.user_id, v_template.organization_id, v_template.id,
+      jsonb_build_object(
+        'template_id', v_template.id,
+        'template_name', v_template.name,
+        'generation_id', NEW.id,
+        'format', NEW.metadata ->> 'export_type',
+        'source', COALESCE(NEW.metadata ->> 'source', 'dashboard')
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS webhook_template_exported ON public.usage_logs;
+CREATE TRIGGER webhook_template_exported
+  AFTER INSERT ON public.usage_logs
+  FOR EACH ROW
+  WHEN (NEW.action = 'template_exported' AND NEW.resource_id IS NOT NULL)
+  EXECUTE FUNCTION public.webhook_template_exported();
+
+-- download_limit.reached when a template's downloads first reach its limit
+CREATE OR REPLACE FUNCTION public.webhook_download_limit_reached()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.download_limit IS NOT NULL
+    AND OLD.generation_count < NEW.download_limit
+    AND NEW.generation_count >= NEW.download_limit THEN
+    PERFORM public.enqueue_webhook_event(
+      'download_limit.reached', NEW.user_id, NEW.organization_id, NEW.id,
+      jsonb_build_object(
+        'template_id', NEW.id,
+        'template_name', NEW.name,
+        'download_count', NEW.generation_count,
+        'download_limit', NEW.download_limit
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS webhook_download_limit_reached ON public.templates;
+CREATE TRIGGER webhook_download_limit_reached
+  AFTER UPDATE OF generation_count ON public.templates
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_download_limit_reached();
+
+-- template.published when a template's share link starts working, or starts serving a new version
+CREATE OR REPLACE FUNCTION public.webhook_template_published()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_was_live BOOLEAN := OLD.is_public AND (OLD.organization_id IS NULL OR OLD.review_status = 'approved');
+  v_is_live BOOLEAN := NEW.is_public AND (NEW.organization_id IS NULL OR NEW.review_status = 'approved');
+BEGIN
+  IF v_is_live AND (
+    NOT v_was_live
+    OR (NEW.published_version_id IS NOT NULL AND NEW.published_version_id IS DISTINCT FROM OLD.published_version_id)
+  ) THEN
+    PERFORM public.enqueue_webhook_event(
+      'template.published', NEW.user_id, NEW.organization_id, NEW.id,
+      jsonb_build_object(
+        'template_id', NEW.id,
+        'template_name', NEW.name,
+        'published_version_id', NEW.published_version_id
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS webhook_template_published ON public.templates;
+CREATE TRIGGER webhook_template_published
+  AFTER UPDATE OF is_public, review_status, published_version_id ON public.templates
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_template_published();
+
+-- subscription.changed when someone moves to another plan
+CREATE OR REPLACE FUNCTION public.webhook_subscription_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.subscription_tier IS DISTINCT FROM OLD.subscription_tier THEN
+    PERFORM public.enqueue_webhook_event(
+      'subscription.changed', NEW.id, NULL, NULL,
+      jsonb_build_object(
+        'previous_plan', OLD.subscription_tier,
+        'plan', NEW.subscription_tier
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS webhook_subscription_changed ON public.profiles;
+CREATE TRIGGER webhook_subscription_changed
+  AFTER UPDATE OF subscription_tier ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_subscription_changed();
@@ -0,0 +1,871 @@
+-- Template marketplace
+-- Creators list personal templates for sale in GHS through templates.is_premium and
+-- templates.price. A listing sells one saved version and only appears in the marketplace once
+-- a marketplace reviewer approves it. Buyers pay through Paystack and get a licensed copy of
+-- that version in their personal workspace: editable, but it can never be listed. Each sale
+-- records the platform commission, and sellers request payouts of what they have earned.
+
+-- =====================================================
+-- REVIEWERS
+-- =====================================================
+
+-- Platform staff, granted in SQL:
+--   INSERT INTO public.marketplace_reviewers (user_id) VALUES ('<user id>');
+CREATE TABLE IF NOT EXISTS public.marketplace_reviewers (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE OR REPLACE FUNCTION public.is_marketplace_reviewer()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.marketplace_reviewers WHERE user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- LISTINGS
+-- =====================================================
+
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS listing_status TEXT NOT NULL DEFAULT 'unlisted'
+    CHECK (listing_status IN ('unlisted', 'in_review', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS listing_version_id UUID REFERENCES public.template_versions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS listed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.templates.is_premium IS 'Offered in the marketplace (in review or approved)';
+COMMENT ON COLUMN public.templates.price IS 'Marketplace price in whole GHS, like plan prices';
+COMMENT ON COLUMN public.templates.listing_version_id IS 'Version buyers receive; later edits need a new review';
+
+CREATE INDEX IF NOT EXISTS idx_templates_marketplace
+  ON public.templates(listed_at DESC)
+  WHERE listing_status = 'approved';
+
+CREATE INDEX IF NOT EXISTS idx_templates_listing_queue
+  ON public.templates(updated_at)
+  WHERE listing_status = 'in_review';
+
+CREATE TABLE IF NOT EXISTS public.marketplace_listing_reviews (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE NOT NULL,
+  version_id UUID REFERENCES public.template_versions(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('submitted', 'approved', 'rejected', 'withdrawn')),
+  price INTEGER,
+  comment TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_listing_reviews_template
+  ON public.marketplace_listing_reviews(template_id, created_at DESC);
+
+-- =====================================================
+-- PURCHASES
+-- =====================================================
+
+-- One row per checkout, created pending by paystack-initialize and marked paid when the
+-- payment is fulfilled. Commission and earnings are fixed at the rate of the sale. A buyer who
+-- pays for a template they already own (e.g. from two checkouts) is marked duplicate until a
+-- reviewer refunds it.
+CREATE TABLE IF NOT EXISTS public.template_purchases (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  template_id UUID REFERENCES public.templates(id) ON DELETE SET NULL,
+  version_id UUID REFERENCES public.template_versions(id) ON DELETE SET NULL,
+  template_name TEXT NOT NULL,
+  buyer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  seller_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  price INTEGER NOT NULL CHECK (price > 0),
+  commission_rate NUMERIC(4,3) NOT NULL DEFAULT 0.200 CHECK (commission_rate BETWEEN 0 AND 1),
+  commission NUMERIC(10,2) GENERATED ALWAYS AS (round(price * commission_rate, 2)) STORED,
+  seller_earnings NUMERIC(10,2) GENERATED ALWAYS AS (price - round(price * commission_rate, 2)) STORED,
+  currency TEXT NOT NULL DEFAULT 'GHS',
+  paystack_reference TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'duplicate', 'refunded')),
+  licensed_template_id UUID REFERENCES public.templates(id) ON DELETE SET NULL,
+  refund_reference TEXT,
+  refunded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  refunded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  paid_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_purchases_buyer
+  ON public.template_purchases(buyer_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_template_purchases_seller
+  ON public.template_purchases(seller_id, paid_at DESC)
+  WHERE status = 'paid';
+
+-- A template is bought once per buyer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_template_purchases_once
+  ON public.template_purchases(template_id, buyer_id)
+  WHERE status = 'paid';
+
+CREATE INDEX IF NOT EXISTS idx_template_purchases_refunds
+  ON public.template_purchases(paid_at)
+  WHERE status = 'duplicate';
+
+ALTER TABLE public.templates
+  ADD COLUMN IF NOT EXISTS license_purchase_id UUID REFERENCES public.template_purchases(id);
+
+COMMENT ON COLUMN public.templates.license_purchase_id IS 'Purchase this licensed copy came from; licensed copies cannot be listed';
+
+ALTER TABLE public.templates DROP CONSTRAINT IF EXISTS templates_licensed_unlisted;
+ALTER TABLE public.templates
+  ADD CONSTRAINT templates_licensed_unlisted
+  CHECK (license_purchase_id IS NULL OR listing_status = 'unlisted');
+
+-- =====================================================
+-- SOLD VERSIONS
+-- =====================================================
+
+-- A version that has been bought, or is in checkout, outlives its template so buyers can
+-- still collect their copy after the seller deletes it. Deleting a template deletes its other
+-- versions as before and detaches the sold ones by clearing their template_id.
+ALTER TABLE public.template_versions ALTER COLUMN template_id DROP NOT NULL;
+ALTER TABLE public.template_versions DROP CONSTRAINT IF EXISTS template_versions_template_id_fkey;
+ALTER TABLE public.template_versions
+  ADD CONSTRAINT template_versions_template_id_fkey
+  FOREIGN KEY (template_id) REFERENCES public.templates(id) ON DELETE SET NULL;
+
+-- Same as 018, except that a version may be detached from its deleted template
+CREATE OR REPLACE FUNCTION public.prevent_template_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.template_id IS NULL AND to_jsonb(NEW) - 'template_id' = to_jsonb(OLD) - 'template_id' THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Template versions cannot be changed' USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Before the template goes, delete its unsold versions. The ones it is pinned or listed at
+-- are deleted afterwards, since deleting them first would update the row being deleted.
+CREATE OR REPLACE FUNCTION public.delete_unsold_template_versions()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.template_versions v
+  WHERE (
+      (TG_WHEN = 'BEFORE' AND v.template_id = OLD.id
+        AND v.id IS DISTINCT FROM OLD.published_version_id
+        AND v.id IS DISTINCT FROM OLD.listing_version_id)
+      OR (TG_WHEN = 'AFTER' AND v.id IN (OLD.published_version_id, OLD.listing_version_id))
+    )
+    AND NOT EXISTS (SELECT 1 FROM public.template_purchases p WHERE p.version_id = v.id);
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS delete_templates_unsold_versions ON public.templates;
+CREATE TRIGGER delete_templates_unsold_versions
+  BEFORE DELETE ON public.templates
+  FOR EACH ROW EXECUTE FUNCTION public.delete_unsold_template_versions();
+
+DROP TRIGGER IF EXISTS delete_templates_pinned_versions ON public.templates;
+CREATE TRIGGER delete_templates_pinned_versions
+  AFTER DELETE ON public.templates
+  FOR EACH ROW EXECUTE FUNCTION public.delete_unsold_template_versions();
+
+-- =====================================================
+-- PAYOUTS
+-- =====================================================
+
+-- Sellers request their whole available balance; reviewers send it and mark it paid
+CREATE TABLE IF NOT EXISTS public.marketplace_payouts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  seller_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'GHS',
+  method TEXT NOT NULL CHECK (method IN ('mobile_money', 'bank_transfer')),
+  account_details TEXT NOT NULL CHECK (char_length(account_details) BETWEEN 1 AND 200),
+  status TEXT NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'paid', 'cancelled')),
+  reference TEXT,
+  note TEXT,
+  processed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_payouts_seller
+  ON public.marketplace_payouts(seller_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_payouts_queue
+  ON public.marketplace_payouts(created_at)
+  WHERE status = 'requested';
+
+-- =====================================================
+-- NOTIFICATIONS
+-- =====================================================
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'review_requested', 'template_approved', 'template_rejected',
+    'listing_submitted', 'listing_approved', 'listing_rejected', 'template_sold', 'payout_paid'
+  ));
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+-- Everything here is written by the functions below; the tables are read-only to clients
+ALTER TABLE public.marketplace_reviewers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.marketplace_listing_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.template_purchases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.marketplace_payouts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Sellers and reviewers can view listing reviews" ON public.marketplace_listing_reviews;
+CREATE POLICY "Sellers and reviewers can view listing reviews" ON public.marketplace_listing_reviews
+  FOR SELECT USING (
+    public.is_marketplace_reviewer()
+    OR EXISTS (
+      SELECT 1 FROM public.templates t
+      WHERE t.id = marketplace_listing_reviews.template_id AND t.user_id = auth.uid()
+    )
+  );
+
+-- Reviewers can open the version a listing in review would sell, so they can preview it
+CREATE OR REPLACE FUNCTION public.is_version_in_listing_review(p_version_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.templates
+    WHERE listing_version_id = p_version_id AND listing_status = 'in_review'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Marketplace reviewers can view listed versions" ON public.template_versions;
+CREATE POLICY "Marketplace reviewers can view listed versions" ON public.template_versions
+  FOR SELECT USING (public.is_marketplace_reviewer() AND public.is_version_in_listing_review(id));
+
+DROP POLICY IF EXISTS "Buyers and sellers can view purchases" ON public.template_purchases;
+CREATE POLICY "Buyers and sellers can view purchases" ON public.template_purchases
+  FOR SELECT USING (
+    auth.uid() = buyer_id
+    OR (auth.uid() = seller_id AND status = 'paid')
+    OR (status IN ('duplicate', 'refunded') AND public.is_marketplace_reviewer())
+  );
+
+DROP POLICY IF EXISTS "Sellers and reviewers can view payouts" ON public.marketplace_payouts;
+CREATE POLICY "Sellers and reviewers can view payouts" ON public.marketplace_payouts
+  FOR SELECT USING (auth.uid() = seller_id OR public.is_marketplace_reviewer());
+
+-- =====================================================
+-- LISTING GUARD
+-- =====================================================
+
+-- Listing columns may only be changed by the functions below, which set app.marketplace for
+-- their transaction. New templates start unlisted, listed templates can't leave the personal
+-- workspace, and a licence can only be carried onto another copy by its buyer.
+CREATE OR REPLACE FUNCTION public.guard_template_listing()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF coalesce(current_setting('app.marketplace', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.listing_status := 'unlisted';
+    NEW.listing_version_id := NULL;
+    NEW.listed_at := NULL;
+    NEW.is_premium := false;
+    NEW.price := NULL;
+
+    IF NEW.license_purchase_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.template_purchases
+      WHERE id = NEW.license_purchase_id AND buyer_id = auth.uid() AND status = 'paid'
+    ) THEN
+      RAISE EXCEPTION 'That licence belongs to someone else' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF ROW(NEW.listing_status, NEW.listing_version_id, NEW.listed_at, NEW.is_premium, NEW.price)
+    IS DISTINCT FROM ROW(OLD.listing_status, OLD.listing_version_id, OLD.listed_at, OLD.is_premium, OLD.price) THEN
+    RAISE EXCEPTION 'Use the marketplace to list, price or withdraw a template' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.license_purchase_id IS DISTINCT FROM OLD.license_purchase_id THEN
+    RAISE EXCEPTION 'Licensed copies keep their licence' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.listing_status <> 'unlisted' AND NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    RAISE EXCEPTION 'Withdraw the marketplace listing before moving this template' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_templates_listing ON public.templates;
+CREATE TRIGGER guard_templates_listing
+  BEFORE INSERT OR UPDATE ON public.templates
+  FOR EACH ROW EXECUTE FUNCTION public.guard_template_listing();
+
+-- =====================================================
+-- LISTING FUNCTIONS
+-- =====================================================
+
+-- Every page background of a template or version: the first page's column and each stored page
+CREATE OR REPLACE FUNCTION public.template_page_backgrounds(p_background_url TEXT, p_pages JSONB)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT url), '{}')
+  FROM (
+    SELECT p_background_url AS url
+    UNION ALL
+    SELECT page ->> 'background_url'
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(p_pages) = 'array' THEN p_pages ELSE '[]'::jsonb END
+    ) AS page
+  ) backgrounds
+  WHERE url IS NOT NULL AND url <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Offer a personal template for sale at its latest saved version. Approved listings can be
+-- resubmitted with a new version or price, and leave the marketplace until approved again.
+CREATE OR REPLACE FUNCTION public.submit_marketplace_listing(
+  p_template_id UUID,
+  p_price INTEGER,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_template public.templates;
+  v_version_id UUID;
+BEGIN
+  SELECT * INTO v_template FROM public.templates WHERE id = p_template_id FOR UPDATE;
+
+  IF v_template.id IS NULL OR v_template.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Template not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_template.organization_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Only personal templates can be sold' USING ERRCODE = '22023';
+  END IF;
+
+  -- Licensed copies, and designs built on a purchased background, belong to their seller
+  IF v_template.license_purchase_id IS NOT NULL OR EXISTS (
+    SELECT 1
+    FROM public.template_purchases p
+    JOIN public.template_versions v ON v.id = p.version_id
+    WHERE p.buyer_id = auth.uid() AND p.status = 'paid'
+      AND public.template_page_backgrounds(v.background_url, v.pages)
+        && public.template_page_backgrounds(v_template.background_url, v_template.pages)
+  ) THEN
+    RAISE EXCEPTION 'Templates bought in the marketplace cannot be resold' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_price IS NULL OR p_price < 1 OR p_price > 10000 THEN
+    RAISE EXCEPTION 'Set a price between GHS 1 and GHS 10,000' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_template.listing_status = 'in_review' THEN
+    RAISE EXCEPTION 'This template is already waiting for review' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_version_id
+  FROM public.template_versions
+  WHERE template_id = p_template_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  IF v_version_id IS NULL THEN
+    RAISE EXCEPTION 'Save the template before listing it' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.marketplace', 'on', true);
+
+  UPDATE public.templates
+  SET listing_status = 'in_review', listing_version_id = v_version_id, is_premium = true,
+      price = p_price, updated_at = NOW()
+  WHERE id = p_template_id;
+
+  INSERT INTO public.marketplace_listing_reviews (template_id, version_id, action, price, comment, actor_id)
+  VALUES (p_template_id, v_version_id, 'submitted', p_price, NULLIF(trim(p_comment), ''), auth.uid());
+
+  INSERT INTO public.notifications (user_id, template_id, type, title, body)
+  SELECT r.user_id, p_template_id, 'listing_submitted',
+         format('"%s" was submitted to the marketplace', v_template.name),
+         NULLIF(trim(p_comment), '')
+  FROM public.marketplace_reviewers r
+  WHERE r.user_id <> auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approve or reject a listing in review. Rejections need a comment so the seller knows
+-- what to change.
+CREATE OR REPLACE FUNCTION public.review_marketplace_listing(p_template_id UUID, p_decision TEXT, p_comment TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_template public.templates;
+BEGIN
+  IF NOT public.is_marketplace_reviewer() THEN
+    RAISE EXCEPTION 'Only marketplace reviewers can review listings' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown decision: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  IF p_decision = 'rejected' AND coalesce(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'Add a comment explaining what needs to change' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_template FROM public.templates WHERE id = p_template_id FOR UPDATE;
+
+  IF v_template.id IS NULL OR v_template.listing_status <> 'in_review' THEN
+    RAISE EXCEPTION 'This listing is not waiting for review' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_template.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Another reviewer has to review your own listing' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('app.marketplace', 'on', true);
+
+  UPDATE public.templates
+  SET listing_status = p_decision,
+      is_premium = (p_decision = 'approved'),
+      listed_at = CASE WHEN p_decision = 'approved' THEN NOW() ELSE listed_at END
+  WHERE id = p_template_id;
+
+  INSERT INTO public.marketplace_listing_reviews (template_id, version_id, action, price, comment, actor_id)
+  VALUES (p_template_id, v_template.listing_version_id, p_decision, v_template.price, NULLIF(trim(p_comment), ''), auth.uid());
+
+  INSERT INTO public.notifications (user_id, template_id, type, title, body)
+  VALUES (
+    v_template.user_id,
+    p_template_id,
+    CASE WHEN p_decision = 'approved' THEN 'listing_approved' ELSE 'listing_rejected' END,
+    CASE WHEN p_decision = 'approved'
+      THEN format('"%s" is now on sale in the marketplace', v_template.name)
+      ELSE format('"%s" needs changes before it can be sold', v_template.name)
+    END,
+    NULLIF(trim(p_comment), '')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Take a template off the marketplace. Buyers keep their copies.
+CREATE OR REPLACE FUNCTION public.withdraw_marketplace_listing(p_template_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_template public.templates;
+BEGIN
+  SELECT * INTO v_template FROM public.templates WHERE id = p_template_id FOR UPDATE;
+
+  IF v_template.id IS NULL OR v_template.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Template not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_template.listing_status = 'unlisted' THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.marketplace', 'on', true);
+
+  UPDATE public.templates
+  SET listing_status = 'unlisted', is_premium = false
+  WHERE id = p_template_id;
+
+  INSERT INTO public.marketplace_listing_reviews (template_id, version_id, action, price, actor_id)
+  VALUES (p_template_id, v_template.listing_version_id, 'withdrawn', v_template.price, auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- BROWSING
+-- =====================================================
+
+-- Approved listings as the public sees them: the listed version's details and background,
+-- never its frames
+CREATE OR REPLACE FUNCTION public.get_marketplace_listings(p_search TEXT DEFAULT NULL, p_template_type TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  template_type TEXT,
+  preview_url TEXT,
+  canvas_width INTEGER,
+  canvas_height INTEGER,
+  price INTEGER,
+  seller_id UUID,
+  seller_name TEXT,
+  sales_count BIGINT,
+  listed_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    t.id,
+    v.name,
+    v.description,
+    v.template_type,
+    coalesce(t.thumbnail_url, v.background_url),
+    v.canvas_width,
+    v.canvas_height,
+    t.price,
+    t.user_id,
+    coalesce(nullif(p.full_name, ''), 'DynamicFlyer creator'),
+    (SELECT COUNT(*) FROM public.template_purchases s WHERE s.template_id = t.id AND s.status = 'paid'),
+    t.listed_at
+  FROM public.templates t
+  JOIN public.template_versions v ON v.id = t.listing_version_id
+  LEFT JOIN public.profiles p ON p.id = t.user_id
+  WHERE t.listing_status = 'approved'
+    AND (p_template_type IS NULL OR v.template_type = p_template_type)
+    AND (
+      coalesce(trim(p_search), '') = ''
+      OR v.name ILIKE '%' || trim(p_search) || '%'
+      OR v.description ILIKE '%' || trim(p_search) || '%'
+    )
+  ORDER BY t.listed_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Listings waiting for review, oldest first
+CREATE OR REPLACE FUNCTION public.get_marketplace_review_queue()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  template_type TEXT,
+  version_id UUID,
+  preview_url TEXT,
+  page_count INTEGER,
+  price INTEGER,
+  seller_id UUID,
+  seller_name TEXT,
+  seller_email TEXT,
+  comment TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF NOT public.is_marketplace_reviewer() THEN
+    RAISE EXCEPTION 'Only marketplace reviewers can review listings' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    v.name,
+    v.description,
+    v.template_type,
+    v.id,
+    v.background_url,
+    coalesce(jsonb_array_length(CASE WHEN jsonb_typeof(v.pages) = 'array' THEN v.pages END), 1),
+    t.price,
+    t.user_id,
+    p.full_name,
+    p.email,
+    r.comment,
+    r.created_at
+  FROM public.templates t
+  JOIN public.template_versions v ON v.id = t.listing_version_id
+  LEFT JOIN public.profiles p ON p.id = t.user_id
+  LEFT JOIN LATERAL (
+    SELECT lr.comment, lr.created_at
+    FROM public.marketplace_listing_reviews lr
+    WHERE lr.template_id = t.id AND lr.action = 'submitted'
+    ORDER BY lr.created_at DESC
+    LIMIT 1
+  ) r ON true
+  WHERE t.listing_status = 'in_review'
+  ORDER BY r.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- SALES
+-- =====================================================
+
+-- Copy a paid purchase's version into the buyer's personal workspace as a licensed copy
+CREATE OR REPLACE FUNCTION public.create_licensed_template_copy(p_purchase_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_purchase public.template_purchases;
+  v_template_id UUID;
+BEGIN
+  SELECT * INTO v_purchase FROM public.template_purchases WHERE id = p_purchase_id FOR UPDATE;
+
+  IF v_purchase.version_id IS NULL THEN
+    RAISE EXCEPTION 'This template is no longer available' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.marketplace', 'on', true);
+
+  INSERT INTO public.templates (
+    user_id, name, description, template_type, background_url, thumbnail_url, frames, pages,
+    schema_version, canvas_width, canvas_height, print_dpi, fonts, is_public, license_purchase_id
+  )
+  SELECT
+    v_purchase.buyer_id, v.name, v.description, coalesce(v.template_type, 'flyer'), v.background_url,
+    t.thumbnail_url, v.frames, v.pages, v.schema_version, v.canvas_width, v.canvas_height,
+    v.print_dpi, v.fonts, false, v_purchase.id
+  FROM public.template_versions v
+  LEFT JOIN public.templates t ON t.id = v.template_id
+  WHERE v.id = v_purchase.version_id
+  RETURNING id INTO v_template_id;
+
+  UPDATE public.template_purchases
+  SET licensed_template_id = v_template_id
+  WHERE id = p_purchase_id;
+
+  RETURN v_template_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Mark a purchase paid and deliver the buyer's copy; called once the payment is claimed.
+-- A copy that can't be made yet (e.g. the buyer is at their template limit) is left for the
+-- buyer to collect with claim_purchased_template, so the sale still completes. Paying again
+-- for a template the buyer owns is recorded as a duplicate to refund, not a second sale.
+CREATE OR REPLACE FUNCTION public.complete_template_purchase(p_reference TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_purchase public.template_purchases;
+  v_owned public.template_purchases;
+  v_template_id UUID;
+BEGIN
+  SELECT * INTO v_purchase FROM public.template_purchases WHERE paystack_reference = p_reference FOR UPDATE;
+
+  IF v_purchase.id IS NULL THEN
+    RAISE EXCEPTION 'Unknown template purchase %', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_purchase.status = 'paid' THEN
+    RETURN v_purchase.licensed_template_id;
+  END IF;
+
+  -- Serialise a buyer's payments for the same template so only one of them is the sale
+  PERFORM pg_advisory_xact_lock(hashtext(
+    'template_purchase:' || v_purchase.buyer_id::text || ':' || coalesce(v_purchase.template_id, v_purchase.version_id)::text
+  ));
+
+  SELECT * INTO v_owned
+  FROM public.template_purchases
+  WHERE buyer_id = v_purchase.buyer_id
+    AND status = 'paid'
+    AND (template_id = v_purchase.template_id OR version_id = v_purchase.version_id)
+  LIMIT 1;
+
+  IF v_purchase.status = 'pending' AND v_owned.id IS NOT NULL THEN
+    UPDATE public.template_purchases
+    SET status = 'duplicate', paid_at = NOW()
+    WHERE id = v_purchase.id;
+  END IF;
+
+  IF v_purchase.status <> 'pending' OR v_owned.id IS NOT NULL THEN
+    RETURN v_owned.licensed_template_id;
+  END IF;
+
+  UPDATE public.template_purchases
+  SET status = 'paid', paid_at = NOW()
+  WHERE id = v_purchase.id;
+
+  BEGIN
+    v_template_id := public.create_licensed_template_copy(v_purchase.id);
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Licensed copy for purchase % not created: %', v_purchase.id, SQLERRM;
+  END;
+
+  IF v_purchase.seller_id IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, template_id, type, title, body)
+    VALUES (
+      v_purchase.seller_id,
+      v_purchase.template_id,
+      'template_sold',
+      format('"%s" was sold', v_purchase.template_name),
+      format('You earned GHS %s after the platform fee of GHS %s', v_purchase.seller_earnings, v_purchase.commission)
+    );
+  END IF;
+
+  RETURN v_template_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Make the licensed copy of a purchase again, if it was never made or has been deleted
+CREATE OR REPLACE FUNCTION public.claim_purchased_template(p_purchase_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_purchase public.template_purchases;
+BEGIN
+  SELECT * INTO v_purchase FROM public.template_purchases WHERE id = p_purchase_id FOR UPDATE;
+
+  IF v_purchase.id IS NULL OR v_purchase.buyer_id <> auth.uid() OR v_purchase.status <> 'paid' THEN
+    RAISE EXCEPTION 'Purchase not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_purchase.licensed_template_id IS NOT NULL THEN
+    RETURN v_purchase.licensed_template_id;
+  END IF;
+
+  RETURN public.create_licensed_template_copy(p_purchase_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record that a duplicate payment was refunded in Paystack
+CREATE OR REPLACE FUNCTION public.refund_duplicate_purchase(p_purchase_id UUID, p_reference TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_purchase public.template_purchases;
+BEGIN
+  IF NOT public.is_marketplace_reviewer() THEN
+    RAISE EXCEPTION 'Only marketplace reviewers can record refunds' USING ERRCODE = '42501';
+  END IF;
+
+  IF coalesce(trim(p_reference), '') = '' THEN
+    RAISE EXCEPTION 'Add the refund reference' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_purchase FROM public.template_purchases WHERE id = p_purchase_id FOR UPDATE;
+
+  IF v_purchase.id IS NULL OR v_purchase.status <> 'duplicate' THEN
+    RAISE EXCEPTION 'This payment is not waiting for a refund' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.template_purchases
+  SET status = 'refunded',
+      refund_reference = trim(p_reference),
+      refunded_by = auth.uid(),
+      refunded_at = NOW()
+  WHERE id = p_purchase_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- PAYOUTS
+-- =====================================================
+
+-- What a seller has earned, been paid and can still request
+CREATE OR REPLACE FUNCTION public.get_marketplace_balance()
+RETURNS TABLE (
+  sales_count BIGINT,
+  gross_sales NUMERIC,
+  commission NUMERIC,
+  earnings NUMERIC,
+  paid_out NUMERIC,
+  pending_payouts NUMERIC,
+  available NUMERIC
+) AS $$
+  WITH sales AS (
+    SELECT COUNT(*) AS sales_count,
+           coalesce(SUM(price), 0)::numeric AS gross_sales,
+           coalesce(SUM(commission), 0) AS commission,
+           coalesce(SUM(seller_earnings), 0) AS earnings
+    FROM public.template_purchases
+    WHERE seller_id = auth.uid() AND status = 'paid'
+  ), payouts AS (
+    SELECT coalesce(SUM(amount) FILTER (WHERE status = 'paid'), 0) AS paid_out,
+           coalesce(SUM(amount) FILTER (WHERE status = 'requested'), 0) AS pending_payouts
+    FROM public.marketplace_payouts
+    WHERE seller_id = auth.uid()
+  )
+  SELECT s.sales_count, s.gross_sales, s.commission, s.earnings, p.paid_out, p.pending_payouts,
+         s.earnings - p.paid_out - p.pending_payouts
+  FROM sales s, payouts p;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Request the whole available balance. One request can be open at a time.
+CREATE OR REPLACE FUNCTION public.request_marketplace_payout(p_method TEXT, p_account_details TEXT)
+RETURNS public.marketplace_payouts AS $$
+DECLARE
+  v_minimum CONSTANT NUMERIC := 50;
+  v_available NUMERIC;
+  v_payout public.marketplace_payouts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in again' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_method NOT IN ('mobile_money', 'bank_transfer') THEN
+    RAISE EXCEPTION 'Choose mobile money or a bank transfer' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(p_account_details), '') = '' OR char_length(trim(p_account_details)) > 200 THEN
+    RAISE EXCEPTION 'Enter where the payout should be sent' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise a seller's requests so the same balance can't be requested twice
+  PERFORM pg_advisory_xact_lock(hashtext('marketplace_payout:' || auth.uid()::text));
+
+  IF EXISTS (SELECT 1 FROM public.marketplace_payouts WHERE seller_id = auth.uid() AND status = 'requested') THEN
+    RAISE EXCEPTION 'You already have a payout waiting to be sent' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT b.available INTO v_available FROM public.get_marketplace_balance() b;
+
+  IF v_available < v_minimum THEN
+    RAISE EXCEPTION 'Payouts start at GHS %', v_minimum USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.marketplace_payouts (seller_id, amount, method, account_details)
+  VALUES (auth.uid(), v_available, p_method, trim(p_account_details))
+  RETURNING * INTO v_payout;
+
+  RETURN v_payout;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record that a requested payout was sent, or cancel it so the balance can be requested again
+CREATE OR REPLACE FUNCTION public.process_marketplace_payout(
+  p_payout_id UUID,
+  p_decision TEXT,
+  p_reference TEXT DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_payout public.marketplace_payouts;
+BEGIN
+  IF NOT public.is_marketplace_reviewer() THEN
+    RAISE EXCEPTION 'Only marketplace reviewers can process payouts' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('paid', 'cancelled') THEN
+    RAISE EXCEPTION 'Unknown decision: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  IF p_decision = 'paid' AND coalesce(trim(p_reference), '') = '' THEN
+    RAISE EXCEPTION 'Add the transfer reference' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_payout FROM public.marketplace_payouts WHERE id = p_payout_id FOR UPDATE;
+
+  IF v_payout.id IS NULL OR v_payout.status <> 'requested' THEN
+    RAISE EXCEPTION 'This payout is not waiting to be sent' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.marketplace_payouts
+  SET status = p_decision,
+      reference = NULLIF(trim(p_reference), ''),
+      note = NULLIF(trim(p_note), ''),
+      processed_by = auth.uid(),
+      processed_at = NOW()
+  WHERE id = p_payout_id;
+
+  IF p_decision = 'paid' THEN
+    INSERT INTO public.notifications (user_id, type, title, body)
+    VALUES (
+      v_payout.seller_id,
+      'payout_paid',
+      format('Your payout of GHS %s was sent', v_payout.amount),
+      format('Reference: %s', trim(p_reference))
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_marketplace_reviewer() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_version_in_listing_review(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_marketplace_listing(UUID, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_marketplace_listing(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.withdraw_marketplace_listing(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_marketplace_listings(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_marketplace_review_queue() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_purchased_template(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.refund_duplicate_purchase(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_marketplace_balance() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_marketplace_payout(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.process_marketplace_payout(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Only the payment functions deliver purchases
+REVOKE EXECUTE ON FUNCTION public.create_licensed_template_copy(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_template_purchase(TEXT) FROM PUBLIC, anon, authenticated;
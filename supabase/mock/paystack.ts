@@ -0,0 +1,135 @@
+/**
+ * Mock Paystack Server
+ * A local stand-in for api.paystack.co for exercising the payment Edge Functions end to end.
+ *
+ * Run:   deno run --allow-net --allow-env supabase/mock/paystack.ts
+ * Env:   PAYSTACK_SECRET_KEY  same value the Edge Functions use (default sk_test_mock)
+ *        PAYSTACK_WEBHOOK_URL where signed events are sent, e.g.
+ *                             http://127.0.0.1:54321/functions/v1/paystack-webhook
+ *        PORT                 default 4010
+ *
+ * Point the functions at it with PAYSTACK_BASE_URL=http://host.docker.internal:4010
+ *
+ * Endpoints:
+ *   POST /transaction/initialize            same request/response shape as Paystack
+ *   GET  /transaction/verify/:reference     same request/response shape as Paystack
+ *   GET  /checkout/:reference?outcome=      "pays" (default success, or failed/abandoned), sends
+ *                                           charge.success and redirects to the callback URL
+ *   POST /events/:event                     signs the JSON body as `data` and sends it to the webhook,
+ *                                           e.g. subscription.create, subscription.disable,
+ *                                           invoice.payment_failed
+ */
+
+import { signPayload, type PaystackTransaction } from '../functions/_shared/paystack.ts';
+
+const SECRET_KEY = Deno.env.get('PAYSTACK_SECRET_KEY') || 'sk_test_mock';
+const WEBHOOK_URL = Deno.env.get('PAYSTACK_WEBHOOK_URL');
+const PORT = Number(Deno.env.get('PORT') || 4010);
+
+interface MockTransaction extends PaystackTransaction {
+  callback_url: string;
+}
+
+const transactions = new Map<string, MockTransaction>();
+let nextId = 1;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Send a signed event to the webhook URL, as Paystack does
+ */
+async function sendEvent(event: string, data: unknown) {
+  if (!WEBHOOK_URL) {
+    console.log(`[mock] PAYSTACK_WEBHOOK_URL not set, not sending ${event}`);
+    return null;
+  }
+
+  const body = JSON.stringify({ event, data });
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-paystack-signature': await signPayload(body, SECRET_KEY),
+    },
+    body,
+  });
+  const result = await response.text();
+  console.log(`[mock] ${event} -> ${response.status} ${result}`);
+  return { status: response.status, body: result };
+}
+
+Deno.serve({ port: PORT }, async (req) => {
+  const url = new URL(req.url);
+  const [, first, second, third] = url.pathname.split('/');
+
+  // Hosted checkout: no API key, like the real payment page
+  if (req.method === 'GET' && first === 'checkout') {
+    const transaction = transactions.get(second);
+    if (!transaction) return json({ status: false, message: 'Transaction not found' }, 404);
+
+    const outcome = url.searchParams.get('outcome') || 'success';
+    transaction.status = outcome;
+    transaction.channel = 'card';
+    transaction.paid_at = outcome === 'success' ? new Date().toISOString() : null;
+    if (outcome === 'success') {
+      const { callback_url: _callbackUrl, ...data } = transaction;
+      await sendEvent('charge.success', data);
+    }
+
+    const callback = new URL(transaction.callback_url);
+    callback.searchParams.set('trxref', transaction.reference);
+    return Response.redirect(callback.toString(), 302);
+  }
+
+  if (req.headers.get('Authorization') !== `Bearer ${SECRET_KEY}`) {
+    return json({ status: false, message: 'Invalid key' }, 401);
+  }
+
+  if (req.method === 'POST' && first === 'transaction' && second === 'initialize') {
+    const body = await req.json();
+    if (!body.email || !body.amount || !body.reference) {
+      return json({ status: false, message: 'email, amount and reference are required' }, 400);
+    }
+    if (transactions.has(body.reference)) {
+      return json({ status: false, message: 'Duplicate Transaction Reference' }, 400);
+    }
+
+    transactions.set(body.reference, {
+      id: nextId++,
+      status: 'abandoned',
+      reference: body.reference,
+      amount: body.amount,
+      currency: body.currency || 'GHS',
+      metadata: body.metadata || null,
+      customer: { email: body.email, customer_code: `CUS_mock_${body.email}` },
+      callback_url: body.callback_url,
+    });
+
+    return json({
+      status: true,
+      message: 'Authorization URL created',
+      data: {
+        authorization_url: `${url.origin}/checkout/${encodeURIComponent(body.reference)}`,
+        access_code: `mock_${body.reference}`,
+        reference: body.reference,
+      },
+    });
+  }
+
+  if (req.method === 'GET' && first === 'transaction' && second === 'verify' && third) {
+    const transaction = transactions.get(decodeURIComponent(third));
+    if (!transaction) return json({ status: false, message: 'Transaction reference not found' }, 404);
+    const { callback_url: _callbackUrl, ...data } = transaction;
+    return json({ status: true, message: 'Verification successful', data });
+  }
+
+  if (req.method === 'POST' && first === 'events' && second) {
+    const result = await sendEvent(second, await req.json());
+    return json({ status: true, message: 'Event sent', data: result });
+  }
+
+  return json({ status: false, message: 'Not found' }, 404);
+});
+
+console.log(`[mock] Paystack mock listening on http://localhost:${PORT}`);
@@ -0,0 +1,132 @@
+-- Template marketplace purchases
+-- Run with `supabase test db`. Everything happens in one transaction that is rolled back.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-00000000a001', 'seller@example.com'),
+  ('00000000-0000-4000-8000-00000000b001', 'buyer@example.com');
+
+INSERT INTO public.templates (id, user_id, name, template_type, background_url)
+VALUES (
+  '00000000-0000-4000-8000-00000000c001',
+  '00000000-0000-4000-8000-00000000a001',
+  'Launch Flyer',
+  'flyer',
+  'https://example.com/launch.png'
+);
+
+-- An approved listing of the template's first version
+SELECT set_config('app.marketplace', 'on', true);
+UPDATE public.templates
+SET listing_status = 'approved', is_premium = true, price = 25, listed_at = NOW(),
+    listing_version_id = (
+      SELECT id FROM public.template_versions WHERE template_id = '00000000-0000-4000-8000-00000000c001'
+    )
+WHERE id = '00000000-0000-4000-8000-00000000c001';
+SELECT set_config('app.marketplace', 'off', true);
+
+-- The buyer opens two checkouts for it and pays both
+INSERT INTO public.template_purchases (
+  template_id, version_id, template_name, buyer_id, seller_id, price, paystack_reference
+)
+SELECT t.id, t.listing_version_id, t.name, '00000000-0000-4000-8000-00000000b001', t.user_id, t.price, r.reference
+FROM public.templates t
+CROSS JOIN (VALUES ('TPL_TEST_FIRST'), ('TPL_TEST_SECOND')) AS r(reference)
+WHERE t.id = '00000000-0000-4000-8000-00000000c001';
+
+SELECT lives_ok(
+  $$ SELECT public.complete_template_purchase('TPL_TEST_FIRST') $$,
+  'The first payment completes'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.complete_template_purchase('TPL_TEST_SECOND') $$,
+  'Paying a second time for the same template still completes'
+);
+
+SELECT results_eq(
+  $$ SELECT paystack_reference, status FROM public.template_purchases
+     WHERE buyer_id = '00000000-0000-4000-8000-00000000b001' ORDER BY paystack_reference $$,
+  $$ VALUES ('TPL_TEST_FIRST', 'paid'), ('TPL_TEST_SECOND', 'duplicate') $$,
+  'The second payment is recorded as a duplicate to refund'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::int FROM public.templates
+   WHERE user_id = '00000000-0000-4000-8000-00000000b001' AND license_purchase_id IS NOT NULL),
+  1,
+  'The buyer gets one licensed copy'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::int FROM public.notifications
+   WHERE user_id = '00000000-0000-4000-8000-00000000a001' AND type = 'template_sold'),
+  1,
+  'The seller is told about one sale'
+);
+
+SELECT is(
+  public.complete_template_purchase('TPL_TEST_SECOND'),
+  (SELECT licensed_template_id FROM public.template_purchases WHERE paystack_reference = 'TPL_TEST_FIRST'),
+  'Retrying the duplicate returns the copy from the first payment'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-00000000a001"}', true);
+
+SELECT is(
+  (SELECT sales_count::int FROM public.get_marketplace_balance()),
+  1,
+  'Only the first payment counts towards the seller''s earnings'
+);
+
+-- The buyer reuses the purchased background on the second page of a new design
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-00000000b001"}', true);
+
+INSERT INTO public.templates (id, user_id, name, template_type, background_url, pages)
+VALUES (
+  '00000000-0000-4000-8000-00000000c002',
+  '00000000-0000-4000-8000-00000000b001',
+  'Launch Flyer Remix',
+  'flyer',
+  'https://example.com/cover.png',
+  '[{"id": "page_1", "name": "", "background_url": "https://example.com/cover.png", "frames": []},
+    {"id": "page_2", "name": "", "background_url": "https://example.com/launch.png", "frames": []}]'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.submit_marketplace_listing('00000000-0000-4000-8000-00000000c002', 30) $$,
+  '42501',
+  NULL,
+  'A design with a purchased background on any page cannot be listed'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-00000000a001"}', true);
+
+-- The seller deletes the template while someone else is in checkout
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-4000-8000-00000000b002', 'late-buyer@example.com');
+
+INSERT INTO public.template_purchases (
+  template_id, version_id, template_name, buyer_id, seller_id, price, paystack_reference
+)
+SELECT t.id, t.listing_version_id, t.name, '00000000-0000-4000-8000-00000000b002', t.user_id, t.price, 'TPL_TEST_LATE'
+FROM public.templates t
+WHERE t.id = '00000000-0000-4000-8000-00000000c001';
+
+SELECT lives_ok(
+  $$ DELETE FROM public.templates WHERE id = '00000000-0000-4000-8000-00000000c001' $$,
+  'A template that has sold can be deleted'
+);
+
+SELECT isnt(
+  public.complete_template_purchase('TPL_TEST_LATE'),
+  NULL,
+  'A checkout paid after the template was deleted still delivers a copy'
+);
+
+SELECT * FROM finish();
+ROLLBACK;